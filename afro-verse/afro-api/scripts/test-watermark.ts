@@ -7,6 +7,9 @@ import {
   verifyWatermark,
 } from '../src/services/watermark.service';
 
+// Invisible watermark payload carries a 12-byte (ObjectId) transformation id
+const TEST_TRANSFORMATION_ID = '65f1c2a9b7e4d3a1c0ffee12';
+
 /**
  * Test script for watermarking functionality
  * 
@@ -17,8 +20,20 @@ async function testWatermarking() {
   console.log('🧪 Testing AfroMoji Watermarking System\n');
 
   try {
-    // Create a test image buffer (1024x1024 solid color)
+    // Create a test image buffer (1024x1024 AfroMoji purple with texture;
+    // a perfectly flat image has no detail to hide the invisible watermark in)
     const sharp = require('sharp');
+    const texture = await sharp({
+      create: {
+        width: 1024,
+        height: 1024,
+        channels: 3,
+        background: { r: 0, g: 0, b: 0 },
+        noise: { type: 'gaussian', mean: 128, sigma: 30 },
+      },
+    })
+      .png()
+      .toBuffer();
     const testImageBuffer = await sharp({
       create: {
         width: 1024,
@@ -27,13 +42,14 @@ async function testWatermarking() {
         background: { r: 147, g: 51, b: 234, alpha: 1 }, // AfroMoji purple
       },
     })
+      .composite([{ input: texture, blend: 'overlay' }])
       .png()
       .toBuffer();
 
     console.log('✅ Created test image (1024x1024)');
 
     // Create watermark metadata
-    const metadata = createWatermarkMetadata('test-transformation-123', 'public');
+    const metadata = createWatermarkMetadata(TEST_TRANSFORMATION_ID, 'public');
     console.log('\n📝 Watermark Metadata:');
     console.log(JSON.stringify(metadata, null, 2));
 
@@ -76,7 +92,7 @@ async function testWatermarking() {
 
     // Verify watermark
     console.log('\n✓ Verifying watermark...');
-    const isValid = await verifyWatermark(result.watermarked, 'test-transformation-123');
+    const isValid = await verifyWatermark(result.watermarked, TEST_TRANSFORMATION_ID);
 
     if (isValid) {
       console.log('✅ Watermark verification passed');
@@ -97,7 +113,7 @@ async function testWatermarking() {
     console.log(`✅ Saved invisible-only image: ${invisibleOnlyPath}`);
 
     // Verify invisible-only watermark
-    const invisibleValid = await verifyWatermark(invisibleOnly.watermarked, 'test-transformation-123');
+    const invisibleValid = await verifyWatermark(invisibleOnly.watermarked, TEST_TRANSFORMATION_ID);
     console.log(`✓ Invisible-only verification: ${invisibleValid ? 'PASSED' : 'FAILED'}`);
 
     console.log('\n🎉 All watermarking tests completed!');
@@ -0,0 +1,237 @@
+import { aiConfig, ImageProviderName, IMAGE_PROVIDER_NAMES } from '../config/ai';
+import { logger } from '../utils/logger';
+
+/**
+ * Provider Circuit Breaker
+ *
+ * Tracks per-provider health over a sliding error-rate window:
+ * - closed:    requests flow normally
+ * - open:      provider is skipped until the cool-off elapses
+ * - half_open: a single probe request decides whether to close or re-open
+ *
+ * State is per process. Each worker instance learns about an outage
+ * from its own traffic, which is enough to stop a wall of failures.
+ */
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+interface Outcome {
+  at: number;
+  ok: boolean;
+}
+
+interface Breaker {
+  state: BreakerState;
+  outcomes: Outcome[];
+  openedAt: number | null;
+  probeInFlight: boolean;
+  lastErrorCode: string | null;
+  lastErrorAt: number | null;
+  lastStateChangeAt: number;
+}
+
+export interface BreakerSnapshot {
+  provider: ImageProviderName;
+  state: BreakerState;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  openedAt: Date | null;
+  retryAt: Date | null;
+  lastErrorCode: string | null;
+  lastErrorAt: Date | null;
+  lastStateChangeAt: Date;
+}
+
+/**
+ * Error codes that say something about provider health.
+ * Blocked/invalid requests are the caller's problem, not an outage.
+ */
+const HEALTH_ERROR_CODES = [
+  'rate_limited',
+  'provider_unavailable',
+  'model_timeout',
+  'no_image_returned',
+];
+
+const breakers = new Map<ImageProviderName, Breaker>();
+
+function getBreaker(provider: ImageProviderName): Breaker {
+  let breaker = breakers.get(provider);
+
+  if (!breaker) {
+    breaker = {
+      state: 'closed',
+      outcomes: [],
+      openedAt: null,
+      probeInFlight: false,
+      lastErrorCode: null,
+      lastErrorAt: null,
+      lastStateChangeAt: Date.now(),
+    };
+    breakers.set(provider, breaker);
+  }
+
+  return breaker;
+}
+
+function pruneWindow(breaker: Breaker, now: number): void {
+  const cutoff = now - aiConfig.circuitBreaker.windowMs;
+  breaker.outcomes = breaker.outcomes.filter(outcome => outcome.at >= cutoff);
+}
+
+function transition(provider: ImageProviderName, breaker: Breaker, state: BreakerState): void {
+  if (breaker.state === state) return;
+
+  logger.warn('Provider circuit breaker state change', {
+    provider,
+    from: breaker.state,
+    to: state,
+    lastErrorCode: breaker.lastErrorCode,
+  });
+
+  breaker.state = state;
+  breaker.lastStateChangeAt = Date.now();
+  breaker.probeInFlight = false;
+
+  if (state === 'open') {
+    breaker.openedAt = Date.now();
+  } else if (state === 'closed') {
+    breaker.openedAt = null;
+    breaker.outcomes = [];
+  }
+}
+
+/**
+ * Whether an error should count against provider health
+ */
+export function isHealthFailure(error: any): boolean {
+  return HEALTH_ERROR_CODES.includes(error?.code);
+}
+
+/**
+ * Ask permission to send a request to a provider
+ *
+ * Moves open → half_open once the cool-off has elapsed and lets
+ * exactly one probe through.
+ */
+export function acquire(provider: ImageProviderName): boolean {
+  const breaker = getBreaker(provider);
+  const now = Date.now();
+
+  if (breaker.state === 'open') {
+    const elapsed = now - (breaker.openedAt || 0);
+
+    if (elapsed < aiConfig.circuitBreaker.openDurationMs) {
+      return false;
+    }
+
+    transition(provider, breaker, 'half_open');
+  }
+
+  if (breaker.state === 'half_open') {
+    if (breaker.probeInFlight) {
+      return false;
+    }
+
+    breaker.probeInFlight = true;
+  }
+
+  return true;
+}
+
+/**
+ * Record a successful (or non-health-related) outcome
+ */
+export function recordSuccess(provider: ImageProviderName): void {
+  const breaker = getBreaker(provider);
+
+  if (breaker.state === 'half_open') {
+    transition(provider, breaker, 'closed');
+    return;
+  }
+
+  const now = Date.now();
+  breaker.outcomes.push({ at: now, ok: true });
+  pruneWindow(breaker, now);
+}
+
+/**
+ * Record a failed outcome
+ */
+export function recordFailure(provider: ImageProviderName, errorCode: string): void {
+  const breaker = getBreaker(provider);
+  const now = Date.now();
+
+  breaker.lastErrorCode = errorCode;
+  breaker.lastErrorAt = now;
+
+  if (breaker.state === 'half_open') {
+    transition(provider, breaker, 'open');
+    return;
+  }
+
+  breaker.outcomes.push({ at: now, ok: false });
+  pruneWindow(breaker, now);
+
+  const { minRequests, errorRateThreshold } = aiConfig.circuitBreaker;
+  const failures = breaker.outcomes.filter(outcome => !outcome.ok).length;
+
+  if (
+    breaker.state === 'closed' &&
+    breaker.outcomes.length >= minRequests &&
+    failures / breaker.outcomes.length >= errorRateThreshold
+  ) {
+    transition(provider, breaker, 'open');
+  }
+}
+
+/**
+ * Snapshot one provider's breaker
+ */
+export function getBreakerSnapshot(provider: ImageProviderName): BreakerSnapshot {
+  const breaker = getBreaker(provider);
+  const now = Date.now();
+
+  pruneWindow(breaker, now);
+
+  const requests = breaker.outcomes.length;
+  const failures = breaker.outcomes.filter(outcome => !outcome.ok).length;
+
+  return {
+    provider,
+    state: breaker.state,
+    requests,
+    failures,
+    errorRate: requests > 0 ? failures / requests : 0,
+    openedAt: breaker.openedAt ? new Date(breaker.openedAt) : null,
+    retryAt: breaker.state === 'open' && breaker.openedAt
+      ? new Date(breaker.openedAt + aiConfig.circuitBreaker.openDurationMs)
+      : null,
+    lastErrorCode: breaker.lastErrorCode,
+    lastErrorAt: breaker.lastErrorAt ? new Date(breaker.lastErrorAt) : null,
+    lastStateChangeAt: new Date(breaker.lastStateChangeAt),
+  };
+}
+
+/**
+ * Snapshot all breakers
+ */
+export function getAllBreakerSnapshots(): BreakerSnapshot[] {
+  return IMAGE_PROVIDER_NAMES.map(getBreakerSnapshot);
+}
+
+/**
+ * Force a breaker closed (admin override)
+ *
+ * Also clears the error-rate window, so a closed breaker doesn't
+ * re-open on failures from before the reset.
+ */
+export function resetBreaker(provider: ImageProviderName): void {
+  const breaker = getBreaker(provider);
+
+  transition(provider, breaker, 'closed');
+  breaker.outcomes = [];
+  breaker.lastErrorCode = null;
+  breaker.lastErrorAt = null;
+}
@@ -0,0 +1,258 @@
+import { aiConfig, ImageProviderName, GenerationQuality } from '../config/ai';
+import { logger } from '../utils/logger';
+import {
+  getProvider,
+  ImageProvider,
+  ProviderGenerateInput,
+  ProviderRefineInput,
+  ProviderOutput,
+  createProviderError,
+} from './providers';
+import { buildSystemInstruction } from './promptTemplates';
+import * as CircuitBreaker from './circuitBreaker';
+
+/**
+ * Generation Pipeline
+ *
+ * Single entry point for image generation across providers:
+ * - Resolves the provider chain from config (or an explicit override)
+ * - Skips providers whose circuit breaker is open
+ * - Fails over to the next provider on retryable errors
+ * - Adapts input to provider capabilities
+ * - Reports which provider/model actually produced the image
+ *
+ * Services call this instead of importing a vendor SDK directly.
+ */
+
+export interface ProviderAttempt {
+  provider: ImageProviderName;
+  model: string;
+  requestId?: string;
+  ok: boolean;
+  errorCode?: string;
+}
+
+export interface PipelineResult extends ProviderOutput {
+  provider: ImageProviderName;
+  costUsd: number;
+  attempts: ProviderAttempt[];
+}
+
+export interface PipelineOptions {
+  provider?: ImageProviderName; // Pin to one provider (no fallback)
+}
+
+export interface ProviderRoute {
+  provider: ImageProviderName;
+  model: string;
+}
+
+/**
+ * Resolve provider + model for a quality tier
+ */
+export function resolveRoute(
+  quality: GenerationQuality,
+  options: PipelineOptions = {}
+): ProviderRoute {
+  const provider = options.provider
+    ? getProvider(options.provider)
+    : resolveChain(options)[0] || getProvider(aiConfig.routing.primary);
+
+  return {
+    provider: provider.name,
+    model: provider.resolveModel(quality),
+  };
+}
+
+/**
+ * Trim reference images to what the provider accepts
+ */
+function adaptInput<T extends ProviderGenerateInput>(provider: ImageProvider, input: T): T {
+  const capabilities = provider.capabilities();
+  let images = input.images || [];
+
+  if (!capabilities.referenceImages) {
+    images = [];
+  } else if (images.length > capabilities.maxReferenceImages) {
+    logger.info('Trimming reference images for provider', {
+      provider: provider.name,
+      supplied: images.length,
+      max: capabilities.maxReferenceImages,
+    });
+    images = images.slice(0, capabilities.maxReferenceImages);
+  }
+
+  return {
+    ...input,
+    images,
+    systemInstruction: input.systemInstruction || buildSystemInstruction(),
+    negativePrompt: capabilities.negativePrompt ? input.negativePrompt : undefined,
+  };
+}
+
+/**
+ * Provider chain for a request: primary first, then fallbacks
+ */
+function resolveChain(options: PipelineOptions): ImageProvider[] {
+  if (options.provider) {
+    const pinned = getProvider(options.provider);
+
+    if (!pinned.isConfigured()) {
+      throw createProviderError(
+        pinned.name,
+        'provider_not_configured',
+        `Image provider "${pinned.name}" is not configured`
+      );
+    }
+
+    return [pinned];
+  }
+
+  const names = [aiConfig.routing.primary, ...aiConfig.routing.fallbacks];
+
+  return names
+    .map(getProvider)
+    .filter(provider => provider.isConfigured());
+}
+
+/**
+ * Format an attempt for Generation.provider.requestIds
+ */
+export function formatAttempt(attempt: ProviderAttempt): string {
+  return `${attempt.provider}:${attempt.requestId || attempt.errorCode || 'unknown'}`;
+}
+
+/**
+ * Run a call against the provider chain
+ *
+ * Retryable provider errors move on to the next provider; anything else
+ * (blocked, invalid request) is thrown immediately since another vendor
+ * would not help. The thrown error carries every attempt made.
+ */
+async function runWithFallback(
+  label: string,
+  input: ProviderGenerateInput,
+  options: PipelineOptions,
+  supports: (provider: ImageProvider) => boolean,
+  call: (provider: ImageProvider) => Promise<ProviderOutput>
+): Promise<PipelineResult> {
+  const chain = resolveChain(options);
+  const attempts: ProviderAttempt[] = [];
+  let lastError: any = null;
+
+  if (chain.length === 0) {
+    throw createProviderError(
+      aiConfig.routing.primary,
+      'provider_not_configured',
+      'No image provider is configured'
+    );
+  }
+
+  for (const provider of chain) {
+    if (!supports(provider)) {
+      continue;
+    }
+
+    if (!CircuitBreaker.acquire(provider.name)) {
+      logger.info('Skipping provider with open circuit', {
+        provider: provider.name,
+      });
+      continue;
+    }
+
+    const model = provider.resolveModel(input.quality);
+    const startTime = Date.now();
+
+    try {
+      const output = await call(provider);
+
+      CircuitBreaker.recordSuccess(provider.name);
+
+      attempts.push({
+        provider: provider.name,
+        model: output.model,
+        requestId: output.requestId,
+        ok: true,
+      });
+
+      logger.info(`Pipeline ${label} complete`, {
+        provider: provider.name,
+        model: output.model,
+        attempts: attempts.length,
+        duration: Date.now() - startTime,
+      });
+
+      return {
+        ...output,
+        provider: provider.name,
+        costUsd: provider.estimateCost(input),
+        attempts,
+      };
+    } catch (error: any) {
+      lastError = error;
+
+      attempts.push({
+        provider: provider.name,
+        model,
+        ok: false,
+        errorCode: error.code || 'unknown_error',
+      });
+
+      if (!CircuitBreaker.isHealthFailure(error)) {
+        // Caller-side problem: the provider itself is healthy
+        CircuitBreaker.recordSuccess(provider.name);
+        error.attempts = attempts;
+        throw error;
+      }
+
+      CircuitBreaker.recordFailure(provider.name, error.code);
+
+      logger.warn(`Pipeline ${label} failed, trying next provider`, {
+        provider: provider.name,
+        code: error.code,
+        error: error.message,
+      });
+    }
+  }
+
+  // Every provider failed or had an open circuit
+  const error: any = lastError || createProviderError(
+    aiConfig.routing.primary,
+    'provider_unavailable',
+    'All image providers are unavailable'
+  );
+  error.attempts = attempts;
+  throw error;
+}
+
+/**
+ * Generate a new image
+ */
+export async function generate(
+  input: ProviderGenerateInput,
+  options: PipelineOptions = {}
+): Promise<PipelineResult> {
+  return runWithFallback(
+    'generation',
+    input,
+    options,
+    provider => provider.capabilities().generate,
+    provider => provider.generate(adaptInput(provider, input))
+  );
+}
+
+/**
+ * Refine an existing image
+ */
+export async function refine(
+  input: ProviderRefineInput,
+  options: PipelineOptions = {}
+): Promise<PipelineResult> {
+  return runWithFallback(
+    'refinement',
+    input,
+    options,
+    provider => provider.capabilities().refine,
+    provider => provider.refine(adaptInput(provider, input))
+  );
+}
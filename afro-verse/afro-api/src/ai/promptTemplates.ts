@@ -0,0 +1,82 @@
+/**
+ * Prompt Templates
+ *
+ * Provider-agnostic prompt building for image generation.
+ * Every provider receives the same prompt text; vendor-specific
+ * formatting happens inside the provider modules.
+ */
+
+/**
+ * Build system instruction for image generation
+ */
+export function buildSystemInstruction(): string {
+  return `You are an AI that generates high-quality portrait images with the following requirements:
+
+IDENTITY PRESERVATION:
+- Preserve the user's face identity and features - they must be clearly recognizable
+- Maintain accurate skin tone, facial structure, and distinctive features
+- Keep realistic human proportions
+
+CULTURAL RESPECT:
+- Create respectful and authentic cultural representations
+- Avoid stereotypes, caricatures, or exaggerated features
+- Celebrate diversity with dignity
+
+SAFETY:
+- No nudity or sexually explicit content
+- No hate speech, violence, or harmful content
+- No content involving minors in inappropriate contexts
+- No content promoting illegal activities
+
+OUTPUT QUALITY:
+- High-quality portrait with professional lighting
+- Centered single subject with clear focus
+- Consistent style throughout the image
+- Sharp details and good composition
+
+The image should be suitable for use as a profile picture or social media avatar.`;
+}
+
+/**
+ * Build user prompt from style parameters
+ *
+ * presetPrompt is the style preset's prompt fragment at the version the
+ * generation recorded (see stylePreset.service).
+ */
+export function buildUserPrompt(params: {
+  presetPrompt?: string;
+  userPrompt?: string;
+  aspectRatio: '1:1' | '9:16';
+}): string {
+  let prompt = '';
+
+  // Add preset description
+  if (params.presetPrompt) {
+    prompt += params.presetPrompt + ' ';
+  }
+
+  // Add user prompt
+  if (params.userPrompt) {
+    prompt += params.userPrompt + ' ';
+  }
+
+  // Add technical constraints
+  prompt += `\n\nTechnical requirements:
+- Aspect ratio: ${params.aspectRatio}
+- Single centered subject
+- Professional portrait composition
+- High quality and sharp details`;
+
+  return prompt.trim();
+}
+
+/**
+ * Build refinement prompt
+ */
+export function buildRefinementPrompt(instruction: string): string {
+  return `Based on the provided image, apply the following change while keeping the same person, style, and composition:
+
+${instruction}
+
+Important: Only apply the requested change. Keep everything else exactly the same.`;
+}
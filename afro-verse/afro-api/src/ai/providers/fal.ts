@@ -0,0 +1,152 @@
+import { env } from '../../config/env';
+import { aiConfig } from '../../config/ai';
+import { logger } from '../../utils/logger';
+import { buildRefinementPrompt } from '../promptTemplates';
+import {
+  ImageProvider,
+  ProviderGenerateInput,
+  createProviderError,
+  classifyHttpStatus,
+} from './types';
+
+/**
+ * fal Provider
+ *
+ * FLUX Kontext via fal.ai's synchronous REST endpoint (fal.run).
+ * No SDK dependency - plain fetch.
+ */
+
+const API_BASE = 'https://fal.run';
+
+const config = aiConfig.providers.fal;
+
+interface FalImageResponse {
+  images?: Array<{
+    url: string;
+    content_type?: string;
+  }>;
+  has_nsfw_concepts?: boolean[];
+  detail?: string;
+}
+
+function toDataUri(buffer: Buffer, mimeType: string = 'image/png'): string {
+  return `data:${mimeType};base64,${buffer.toString('base64')}`;
+}
+
+async function runModel(
+  input: ProviderGenerateInput,
+  prompt: string,
+  inputImage?: Buffer
+) {
+  if (!env.FAL_API_KEY) {
+    throw createProviderError('fal', 'provider_not_configured', 'fal API not configured');
+  }
+
+  const model = config.models[input.quality];
+
+  let response: Response;
+
+  try {
+    response = await fetch(`${API_BASE}/${model}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Key ${env.FAL_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        prompt,
+        aspect_ratio: input.aspectRatio,
+        output_format: 'png',
+        num_images: 1,
+        ...(inputImage ? { image_url: toDataUri(inputImage) } : {}),
+      }),
+      signal: AbortSignal.timeout(aiConfig.requestTimeoutMs),
+    });
+  } catch (error: any) {
+    logger.error('fal request failed', { error: error.message });
+
+    const code = error.name === 'TimeoutError' ? 'model_timeout' : 'provider_unavailable';
+    throw createProviderError('fal', code, error.message);
+  }
+
+  const data = await response.json().catch(() => ({})) as FalImageResponse;
+
+  if (!response.ok) {
+    logger.error('fal generation failed', {
+      status: response.status,
+      detail: data.detail,
+    });
+
+    throw createProviderError(
+      'fal',
+      classifyHttpStatus(response.status),
+      data.detail || `fal request failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  if (data.has_nsfw_concepts?.[0]) {
+    throw createProviderError('fal', 'blocked', 'Content blocked by fal safety checker');
+  }
+
+  const image = data.images?.[0];
+
+  if (!image?.url) {
+    throw createProviderError('fal', 'no_image_returned', 'No image URL in response');
+  }
+
+  const imageResponse = await fetch(image.url);
+
+  if (!imageResponse.ok) {
+    throw createProviderError('fal', classifyHttpStatus(imageResponse.status), 'Failed to download output', imageResponse.status);
+  }
+
+  const imageData = Buffer.from(await imageResponse.arrayBuffer());
+
+  logger.info('Image generated successfully with fal', {
+    model,
+    size: imageData.length,
+  });
+
+  return {
+    imageData,
+    mimeType: image.content_type || 'image/png',
+    model,
+    requestId: response.headers.get('x-fal-request-id') || undefined,
+  };
+}
+
+export const falProvider: ImageProvider = {
+  name: 'fal',
+
+  isConfigured() {
+    return !!env.FAL_API_KEY;
+  },
+
+  capabilities() {
+    return {
+      generate: true,
+      refine: true,
+      referenceImages: true,
+      maxReferenceImages: 1,
+      negativePrompt: false,
+      aspectRatios: ['1:1', '9:16'],
+    };
+  },
+
+  resolveModel(quality) {
+    return config.models[quality];
+  },
+
+  estimateCost(input) {
+    return config.costPerImageUsd[input.quality];
+  },
+
+  async generate(input) {
+    return runModel(input, input.prompt, input.images?.[0]);
+  },
+
+  async refine(input) {
+    return runModel(input, buildRefinementPrompt(input.instruction), input.baseImage);
+  },
+};
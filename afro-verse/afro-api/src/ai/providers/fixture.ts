@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { aiConfig } from '../../config/ai';
+import {
+  ImageProvider,
+  ProviderErrorCode,
+  ProviderGenerateInput,
+  createProviderError,
+} from './types';
+
+/**
+ * Fixture Provider
+ *
+ * Deterministic, offline image "generation" for local development and
+ * tests. The same input always produces the same image bytes.
+ *
+ * Failure injection: a prompt or instruction containing
+ * `[fixture:<error_code>]` (e.g. `[fixture:rate_limited]`) throws the
+ * matching provider error instead of producing an image.
+ */
+
+const config = aiConfig.providers.fixture;
+
+const DIMENSIONS: Record<ProviderGenerateInput['aspectRatio'], { width: number; height: number }> = {
+  '1:1': { width: 512, height: 512 },
+  '9:16': { width: 288, height: 512 },
+};
+
+const FAILURE_PATTERN = /\[fixture:([a-z_]+)\]/;
+
+function digestInput(parts: Array<string | Buffer | undefined>): Buffer {
+  const hash = crypto.createHash('sha256');
+
+  for (const part of parts) {
+    if (part !== undefined) {
+      hash.update(part);
+    }
+    hash.update('|');
+  }
+
+  return hash.digest();
+}
+
+function maybeFail(text: string): void {
+  const match = text.match(FAILURE_PATTERN);
+
+  if (match) {
+    throw createProviderError('fixture', match[1] as ProviderErrorCode, `Fixture failure: ${match[1]}`);
+  }
+}
+
+/**
+ * Render a diagonal gradient whose colours are derived from the digest
+ */
+async function renderGradient(
+  digest: Buffer,
+  aspectRatio: ProviderGenerateInput['aspectRatio']
+): Promise<Buffer> {
+  const { width, height } = DIMENSIONS[aspectRatio];
+  const pixels = Buffer.alloc(width * height * 3);
+
+  const from = [digest[0], digest[1], digest[2]];
+  const to = [digest[3], digest[4], digest[5]];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const offset = (y * width + x) * 3;
+
+      for (let c = 0; c < 3; c++) {
+        pixels[offset + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+      }
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } })
+    .png()
+    .toBuffer();
+}
+
+export const fixtureProvider: ImageProvider = {
+  name: 'fixture',
+
+  isConfigured() {
+    return true;
+  },
+
+  capabilities() {
+    return {
+      generate: true,
+      refine: true,
+      referenceImages: true,
+      maxReferenceImages: 3,
+      negativePrompt: true,
+      aspectRatios: ['1:1', '9:16'],
+    };
+  },
+
+  resolveModel(quality) {
+    return config.models[quality];
+  },
+
+  estimateCost(input) {
+    return config.costPerImageUsd[input.quality];
+  },
+
+  async generate(input) {
+    maybeFail(input.prompt);
+
+    const digest = digestInput([
+      input.prompt,
+      input.negativePrompt,
+      input.aspectRatio,
+      input.quality,
+      ...(input.images || []),
+    ]);
+
+    return {
+      imageData: await renderGradient(digest, input.aspectRatio),
+      mimeType: 'image/png',
+      model: config.models[input.quality],
+      requestId: `fixture-${digest.toString('hex').substring(0, 16)}`,
+    };
+  },
+
+  async refine(input) {
+    maybeFail(input.instruction);
+
+    const digest = digestInput([input.instruction, input.baseImage]);
+
+    // Rotate the base image's hue by a digest-derived amount
+    const imageData = await sharp(input.baseImage)
+      .modulate({ hue: digest[0] + 1 })
+      .png()
+      .toBuffer();
+
+    return {
+      imageData,
+      mimeType: 'image/png',
+      model: config.models[input.quality],
+      requestId: `fixture-${digest.toString('hex').substring(0, 16)}`,
+    };
+  },
+};
@@ -0,0 +1,105 @@
+import { aiConfig } from '../../config/ai';
+import {
+  generateImage,
+  refineImage,
+  isGeminiConfigured,
+} from '../../services/gemini.service';
+import {
+  ImageProvider,
+  ProviderError,
+  createProviderError,
+  classifyHttpStatus,
+} from './types';
+
+/**
+ * Gemini Provider
+ *
+ * Adapter over services/gemini.service (Nano Banana / Nano Banana Pro).
+ */
+
+const config = aiConfig.providers.gemini;
+
+/**
+ * Normalize errors thrown by gemini.service into provider errors
+ */
+function toProviderError(error: any): ProviderError {
+  if (error.message === 'BLOCKED') {
+    return createProviderError('gemini', 'blocked', 'Content blocked by Gemini safety filters');
+  }
+
+  if (error.message === 'RATE_LIMITED') {
+    return createProviderError('gemini', 'rate_limited', 'Gemini quota exhausted', 429);
+  }
+
+  if (error.message === 'Gemini API not configured') {
+    return createProviderError('gemini', 'provider_not_configured', error.message);
+  }
+
+  if (typeof error.status === 'number') {
+    return createProviderError('gemini', classifyHttpStatus(error.status), error.message, error.status);
+  }
+
+  if (error.message?.includes('No image data') || error.message?.includes('No generation candidate')) {
+    return createProviderError('gemini', 'no_image_returned', error.message);
+  }
+
+  return createProviderError('gemini', 'provider_unavailable', error.message);
+}
+
+export const geminiProvider: ImageProvider = {
+  name: 'gemini',
+
+  isConfigured() {
+    return isGeminiConfigured();
+  },
+
+  capabilities() {
+    return {
+      generate: true,
+      refine: true,
+      referenceImages: true,
+      maxReferenceImages: 3,
+      negativePrompt: false,
+      aspectRatios: ['1:1', '9:16'],
+    };
+  },
+
+  resolveModel(quality) {
+    return config.models[quality];
+  },
+
+  estimateCost(input) {
+    return config.costPerImageUsd[input.quality];
+  },
+
+  async generate(input) {
+    try {
+      return await generateImage({
+        prompt: input.prompt,
+        systemInstruction: input.systemInstruction,
+        images: input.images,
+        aspectRatio: input.aspectRatio,
+        quality: input.quality,
+        model: config.models[input.quality],
+      });
+    } catch (error: any) {
+      throw toProviderError(error);
+    }
+  },
+
+  async refine(input) {
+    try {
+      return await refineImage({
+        prompt: input.prompt,
+        baseImage: input.baseImage,
+        instruction: input.instruction,
+        images: input.images,
+        aspectRatio: input.aspectRatio,
+        quality: input.quality,
+        model: config.models[input.quality],
+      });
+    } catch (error: any) {
+      throw toProviderError(error);
+    }
+  },
+};
@@ -0,0 +1,43 @@
+import type { ImageProviderName } from '../../config/ai';
+import type { ImageProvider } from './types';
+import { geminiProvider } from './gemini';
+import { openaiProvider } from './openai';
+import { replicateProvider } from './replicate';
+import { falProvider } from './fal';
+import { fixtureProvider } from './fixture';
+
+/**
+ * Provider Registry
+ *
+ * Central lookup for image providers by name.
+ */
+
+const PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  replicate: replicateProvider,
+  fal: falProvider,
+  fixture: fixtureProvider,
+};
+
+/**
+ * Get provider by name
+ */
+export function getProvider(name: ImageProviderName): ImageProvider {
+  const provider = PROVIDERS[name];
+
+  if (!provider) {
+    throw new Error(`Unknown image provider: ${name}`);
+  }
+
+  return provider;
+}
+
+/**
+ * List all registered providers
+ */
+export function listProviders(): ImageProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+export * from './types';
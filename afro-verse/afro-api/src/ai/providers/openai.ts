@@ -0,0 +1,178 @@
+import OpenAI, { toFile } from 'openai';
+import { env } from '../../config/env';
+import { aiConfig } from '../../config/ai';
+import { logger } from '../../utils/logger';
+import { buildRefinementPrompt } from '../promptTemplates';
+import {
+  ImageProvider,
+  ProviderGenerateInput,
+  ProviderError,
+  createProviderError,
+  classifyHttpStatus,
+} from './types';
+
+/**
+ * OpenAI Provider
+ *
+ * gpt-image-1 via the Images API. Reference selfies go through the
+ * edits endpoint; prompt-only requests use generations.
+ */
+
+const config = aiConfig.providers.openai;
+
+const client = env.OPENAI_API_KEY
+  ? new OpenAI({ apiKey: env.OPENAI_API_KEY, timeout: aiConfig.requestTimeoutMs })
+  : null;
+
+const SIZES: Record<ProviderGenerateInput['aspectRatio'], '1024x1024' | '1024x1536'> = {
+  '1:1': '1024x1024',
+  '9:16': '1024x1536',
+};
+
+/**
+ * Fold system instruction and negative prompt into a single prompt
+ * (the Images API has no separate fields for them)
+ */
+function composePrompt(input: ProviderGenerateInput, body: string): string {
+  const parts = [];
+
+  if (input.systemInstruction) {
+    parts.push(input.systemInstruction);
+  }
+
+  parts.push(body);
+
+  if (input.negativePrompt) {
+    parts.push(`Avoid: ${input.negativePrompt}`);
+  }
+
+  return parts.join('\n\n');
+}
+
+function toProviderError(error: any): ProviderError {
+  if (error.code === 'moderation_blocked' || error.code === 'content_policy_violation') {
+    return createProviderError('openai', 'blocked', 'Content blocked by OpenAI safety system', error.status);
+  }
+
+  if (typeof error.status === 'number') {
+    return createProviderError('openai', classifyHttpStatus(error.status), error.message, error.status);
+  }
+
+  if (error.name === 'APIConnectionTimeoutError') {
+    return createProviderError('openai', 'model_timeout', error.message);
+  }
+
+  return createProviderError('openai', 'provider_unavailable', error.message);
+}
+
+async function requestImage(
+  input: ProviderGenerateInput,
+  prompt: string,
+  images: Buffer[]
+) {
+  if (!client) {
+    throw createProviderError('openai', 'provider_not_configured', 'OpenAI API not configured');
+  }
+
+  const model = config.models[input.quality];
+  const quality = input.quality === 'high' ? 'high' : 'medium';
+
+  try {
+    let response;
+
+    if (images.length > 0) {
+      const files = await Promise.all(
+        images.map((buffer, index) => toFile(buffer, `reference_${index}.png`, { type: 'image/png' }))
+      );
+
+      response = await client.images.edit({
+        model,
+        image: files,
+        prompt,
+        size: SIZES[input.aspectRatio],
+        quality,
+        n: 1,
+      });
+    } else {
+      response = await client.images.generate({
+        model,
+        prompt,
+        size: SIZES[input.aspectRatio],
+        quality,
+        n: 1,
+      });
+    }
+
+    const b64 = response.data?.[0]?.b64_json;
+
+    if (!b64) {
+      throw createProviderError('openai', 'no_image_returned', 'No image data in response');
+    }
+
+    const imageData = Buffer.from(b64, 'base64');
+
+    logger.info('Image generated successfully with OpenAI', {
+      model,
+      size: imageData.length,
+    });
+
+    return {
+      imageData,
+      mimeType: 'image/png',
+      model,
+      requestId: response.created ? `openai-${response.created}` : undefined,
+    };
+  } catch (error: any) {
+    if (error.provider) {
+      throw error;
+    }
+
+    logger.error('OpenAI generation failed', {
+      error: error.message,
+      status: error.status,
+      code: error.code,
+    });
+
+    throw toProviderError(error);
+  }
+}
+
+export const openaiProvider: ImageProvider = {
+  name: 'openai',
+
+  isConfigured() {
+    return !!client;
+  },
+
+  capabilities() {
+    return {
+      generate: true,
+      refine: true,
+      referenceImages: true,
+      maxReferenceImages: 16,
+      negativePrompt: false,
+      aspectRatios: ['1:1', '9:16'],
+    };
+  },
+
+  resolveModel(quality) {
+    return config.models[quality];
+  },
+
+  estimateCost(input) {
+    return config.costPerImageUsd[input.quality];
+  },
+
+  async generate(input) {
+    return requestImage(input, composePrompt(input, input.prompt), input.images || []);
+  },
+
+  async refine(input) {
+    // Base image first so edits apply to it; selfies follow as identity references
+    return requestImage(
+      input,
+      composePrompt(input, buildRefinementPrompt(input.instruction)),
+      [input.baseImage, ...(input.images || [])]
+    );
+  },
+};
@@ -0,0 +1,148 @@
+import Replicate from 'replicate';
+import { env } from '../../config/env';
+import { aiConfig } from '../../config/ai';
+import { logger } from '../../utils/logger';
+import { buildRefinementPrompt } from '../promptTemplates';
+import {
+  ImageProvider,
+  ProviderGenerateInput,
+  ProviderError,
+  createProviderError,
+  classifyHttpStatus,
+} from './types';
+
+/**
+ * Replicate Provider
+ *
+ * FLUX Kontext models hosted on Replicate. Kontext takes a single
+ * input image, so only the first reference image is sent.
+ */
+
+const config = aiConfig.providers.replicate;
+
+const client = env.REPLICATE_API_KEY
+  ? new Replicate({ auth: env.REPLICATE_API_KEY })
+  : null;
+
+function toDataUri(buffer: Buffer, mimeType: string = 'image/png'): string {
+  return `data:${mimeType};base64,${buffer.toString('base64')}`;
+}
+
+function toProviderError(error: any): ProviderError {
+  const status = error.response?.status;
+
+  if (typeof status === 'number') {
+    return createProviderError('replicate', classifyHttpStatus(status), error.message, status);
+  }
+
+  if (/nsfw|safety|flagged/i.test(error.message || '')) {
+    return createProviderError('replicate', 'blocked', 'Content blocked by Replicate safety checker');
+  }
+
+  return createProviderError('replicate', 'provider_unavailable', error.message);
+}
+
+/**
+ * Download the first output URL returned by a prediction
+ */
+async function fetchOutput(output: unknown): Promise<{ imageData: Buffer; mimeType: string }> {
+  const url = Array.isArray(output) ? output[0] : output;
+
+  if (typeof url !== 'string') {
+    throw createProviderError('replicate', 'no_image_returned', 'No image URL in prediction output');
+  }
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw createProviderError('replicate', classifyHttpStatus(response.status), 'Failed to download output', response.status);
+  }
+
+  return {
+    imageData: Buffer.from(await response.arrayBuffer()),
+    mimeType: response.headers.get('content-type') || 'image/png',
+  };
+}
+
+async function runPrediction(
+  input: ProviderGenerateInput,
+  prompt: string,
+  inputImage?: Buffer
+) {
+  if (!client) {
+    throw createProviderError('replicate', 'provider_not_configured', 'Replicate API not configured');
+  }
+
+  const model = config.models[input.quality] as `${string}/${string}`;
+
+  try {
+    const output = await client.run(model, {
+      input: {
+        prompt,
+        aspect_ratio: input.aspectRatio,
+        output_format: 'png',
+        safety_tolerance: 2,
+        ...(inputImage ? { input_image: toDataUri(inputImage) } : {}),
+      },
+    });
+
+    const { imageData, mimeType } = await fetchOutput(output);
+
+    logger.info('Image generated successfully with Replicate', {
+      model,
+      size: imageData.length,
+    });
+
+    return {
+      imageData,
+      mimeType,
+      model,
+    };
+  } catch (error: any) {
+    if (error.provider) {
+      throw error;
+    }
+
+    logger.error('Replicate generation failed', {
+      error: error.message,
+      status: error.response?.status,
+    });
+
+    throw toProviderError(error);
+  }
+}
+
+export const replicateProvider: ImageProvider = {
+  name: 'replicate',
+
+  isConfigured() {
+    return !!client;
+  },
+
+  capabilities() {
+    return {
+      generate: true,
+      refine: true,
+      referenceImages: true,
+      maxReferenceImages: 1,
+      negativePrompt: false,
+      aspectRatios: ['1:1', '9:16'],
+    };
+  },
+
+  resolveModel(quality) {
+    return config.models[quality];
+  },
+
+  estimateCost(input) {
+    return config.costPerImageUsd[input.quality];
+  },
+
+  async generate(input) {
+    return runPrediction(input, input.prompt, input.images?.[0]);
+  },
+
+  async refine(input) {
+    return runPrediction(input, buildRefinementPrompt(input.instruction), input.baseImage);
+  },
+};
@@ -0,0 +1,109 @@
+import type { ImageProviderName, GenerationQuality } from '../../config/ai';
+
+/**
+ * Image Provider Contract
+ *
+ * Every image-generation vendor implements this interface so the
+ * generation pipeline can route between them from config.
+ */
+
+export interface ProviderGenerateInput {
+  prompt: string;
+  systemInstruction?: string;
+  negativePrompt?: string;
+  images?: Buffer[]; // Reference images (selfies)
+  aspectRatio: '1:1' | '9:16';
+  quality: GenerationQuality;
+}
+
+export interface ProviderRefineInput extends ProviderGenerateInput {
+  baseImage: Buffer;
+  instruction: string;
+}
+
+export interface ProviderOutput {
+  imageData: Buffer;
+  mimeType: string;
+  model: string;
+  requestId?: string;
+}
+
+export interface ProviderCapabilities {
+  generate: boolean;
+  refine: boolean;
+  referenceImages: boolean;
+  maxReferenceImages: number;
+  negativePrompt: boolean;
+  aspectRatios: Array<'1:1' | '9:16'>;
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+
+  /**
+   * True when credentials for this provider are present
+   */
+  isConfigured(): boolean;
+
+  capabilities(): ProviderCapabilities;
+
+  /**
+   * Model that will be used for a given quality tier
+   */
+  resolveModel(quality: GenerationQuality): string;
+
+  /**
+   * Estimated cost in USD for a single image
+   */
+  estimateCost(input: Pick<ProviderGenerateInput, 'quality'>): number;
+
+  generate(input: ProviderGenerateInput): Promise<ProviderOutput>;
+
+  refine(input: ProviderRefineInput): Promise<ProviderOutput>;
+}
+
+/**
+ * Provider error codes
+ *
+ * These line up with the retry classification in utils/backoff.ts.
+ */
+export type ProviderErrorCode =
+  | 'blocked'
+  | 'rate_limited'
+  | 'provider_unavailable'
+  | 'provider_not_configured'
+  | 'model_timeout'
+  | 'invalid_request'
+  | 'no_image_returned';
+
+export interface ProviderError extends Error {
+  code: ProviderErrorCode;
+  provider: ImageProviderName;
+  status?: number;
+}
+
+/**
+ * Create a provider error
+ */
+export function createProviderError(
+  provider: ImageProviderName,
+  code: ProviderErrorCode,
+  message: string,
+  status?: number
+): ProviderError {
+  const error = new Error(message) as ProviderError;
+  error.code = code;
+  error.provider = provider;
+  error.status = status;
+  return error;
+}
+
+/**
+ * Map an HTTP status from a vendor API to a provider error code
+ */
+export function classifyHttpStatus(status: number): ProviderErrorCode {
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status === 504) return 'model_timeout';
+  if (status >= 500) return 'provider_unavailable';
+  return 'invalid_request';
+}
@@ -4,8 +4,9 @@ import { v4 as uuid } from 'uuid';
 import { env } from './config/env';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/error.middleware';
-import { createRateLimiter } from './middleware/rateLimiter.middleware';
+import { createGlobalRateLimiter } from './middleware/rateLimiter.middleware';
 import { securityConfig } from './config/security';
+import { storageConfig } from './config/storage';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -21,6 +22,14 @@ import adminRoutes from './routes/admin.routes';
 import jobsRoutes from './routes/jobs.routes';
 import cronRoutes from './routes/cron.routes';
 import followRoutes from './routes/follow.routes';
+import notificationRoutes from './routes/notification.routes';
+import reportRoutes from './routes/report.routes';
+import presetRoutes from './routes/preset.routes';
+import challengeRoutes from './routes/challenge.routes';
+import tagRoutes from './routes/tag.routes';
+import searchRoutes from './routes/search.routes';
+import provenanceRoutes from './routes/provenance.routes';
+import storageRoutes from './routes/storage.routes';
 
 // Import security middleware
 import { sanitizeInput } from './middleware/validation.middleware';
@@ -67,13 +76,8 @@ export function createApp(): Express {
   // Input sanitization
   app.use(sanitizeInput);
   
-  // Global rate limiting
-  const rateLimit = env.NODE_ENV === 'development' ? 1000 : 100;
-  const globalRateLimiter = createRateLimiter(
-    { limit: rateLimit, window: 900 },
-    (req) => `rl:global:ip:${req.ip || 'unknown'}`
-  );
-  app.use(globalRateLimiter);
+  // Global rate limiting (per IP, with per-route overrides)
+  app.use(createGlobalRateLimiter());
   
   // Request logging
   app.use((req: Request, _res: Response, next: NextFunction) => {
@@ -127,6 +131,13 @@ export function createApp(): Express {
   app.use('/api/feed', feedRoutes);
   app.use('/api/media', mediaRoutes);
   app.use('/api/follow', followRoutes);
+  app.use('/api/notifications', notificationRoutes);
+  app.use('/api/reports', reportRoutes);
+  app.use('/api/presets', presetRoutes);
+  app.use('/api/challenges', challengeRoutes);
+  app.use('/api/tags', tagRoutes);
+  app.use('/api/search', searchRoutes);
+  app.use('/api/provenance', provenanceRoutes);
   app.use('/v1/transformations', transformationRoutes);
   
   // Worker routes (for Cloud Tasks)
@@ -141,6 +152,11 @@ export function createApp(): Express {
   // Cron routes (Vercel cron)
   app.use('/api/cron', cronRoutes);
   
+  // Local object storage (signed URLs; development/tests only)
+  if (storageConfig.backend === 'local') {
+    app.use('/storage', storageRoutes);
+  }
+  
   // 404 handler
   app.use((_req: Request, res: Response) => {
     res.status(404).json({
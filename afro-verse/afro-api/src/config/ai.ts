@@ -0,0 +1,130 @@
+import { env } from './env';
+
+/**
+ * AI Provider Configuration
+ *
+ * Routing and per-provider model/cost settings for image generation.
+ *
+ * The generation pipeline never hard-codes a vendor: it asks this config
+ * which provider to use, and each provider resolves its model from here.
+ */
+
+export type ImageProviderName = 'gemini' | 'openai' | 'replicate' | 'fal' | 'fixture';
+
+export type GenerationQuality = 'standard' | 'high';
+
+export interface ProviderModelConfig {
+  models: Record<GenerationQuality, string>;
+  costPerImageUsd: Record<GenerationQuality, number>;
+}
+
+export const IMAGE_PROVIDER_NAMES: ImageProviderName[] = [
+  'gemini',
+  'openai',
+  'replicate',
+  'fal',
+  'fixture',
+];
+
+/**
+ * Resolve the primary provider
+ *
+ * IMAGE_PROVIDER wins; tests default to the offline fixture provider.
+ */
+function resolvePrimaryProvider(): ImageProviderName {
+  const configured = env.IMAGE_PROVIDER?.trim().toLowerCase();
+
+  if (configured && IMAGE_PROVIDER_NAMES.includes(configured as ImageProviderName)) {
+    return configured as ImageProviderName;
+  }
+
+  if (configured) {
+    console.warn(`Unknown IMAGE_PROVIDER "${configured}" - falling back to default`);
+  }
+
+  return env.NODE_ENV === 'test' ? 'fixture' : 'gemini';
+}
+
+/**
+ * Resolve the fallback chain
+ *
+ * IMAGE_PROVIDER_FALLBACKS is a comma-separated list tried in order after
+ * the primary. Unconfigured providers are skipped at request time.
+ */
+function resolveFallbackProviders(primary: ImageProviderName): ImageProviderName[] {
+  if (env.IMAGE_PROVIDER_FALLBACKS === undefined) {
+    // Tests stay on the fixture provider only
+    if (env.NODE_ENV === 'test') {
+      return [];
+    }
+
+    return (['gemini', 'openai', 'replicate', 'fal'] as ImageProviderName[])
+      .filter(name => name !== primary);
+  }
+
+  return env.IMAGE_PROVIDER_FALLBACKS
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is ImageProviderName =>
+      IMAGE_PROVIDER_NAMES.includes(name as ImageProviderName) && name !== primary
+    );
+}
+
+const primaryProvider = resolvePrimaryProvider();
+
+export const aiConfig = {
+  routing: {
+    primary: primaryProvider,
+    fallbacks: resolveFallbackProviders(primaryProvider),
+  },
+
+  // Per-provider circuit breaker
+  circuitBreaker: {
+    windowMs: 5 * 60 * 1000,       // Error-rate window
+    minRequests: 5,                // Don't trip on a handful of calls
+    errorRateThreshold: 0.5,       // Open at >= 50% failures in window
+    openDurationMs: 60 * 1000,     // Cool-off before a half-open probe
+  },
+
+  providers: {
+    gemini: {
+      // Nano Banana Pro for both tiers (best identity preservation)
+      models: {
+        standard: 'gemini-3-pro-image-preview',
+        high: 'gemini-3-pro-image-preview',
+      },
+      costPerImageUsd: { standard: 0.134, high: 0.134 },
+    },
+    openai: {
+      models: {
+        standard: 'gpt-image-1',
+        high: 'gpt-image-1',
+      },
+      costPerImageUsd: { standard: 0.042, high: 0.167 },
+    },
+    replicate: {
+      models: {
+        standard: 'black-forest-labs/flux-kontext-pro',
+        high: 'black-forest-labs/flux-kontext-max',
+      },
+      costPerImageUsd: { standard: 0.04, high: 0.08 },
+    },
+    fal: {
+      models: {
+        standard: 'fal-ai/flux-pro/kontext',
+        high: 'fal-ai/flux-pro/kontext/max',
+      },
+      costPerImageUsd: { standard: 0.04, high: 0.08 },
+    },
+    fixture: {
+      models: {
+        standard: 'fixture-v1',
+        high: 'fixture-v1',
+      },
+      costPerImageUsd: { standard: 0, high: 0 },
+    },
+  } as Record<ImageProviderName, ProviderModelConfig>,
+
+  // Request timeout for remote providers
+  requestTimeoutMs: 120 * 1000,
+};
@@ -24,6 +24,9 @@ interface EnvConfig {
   TWILIO_VERIFY_SERVICE_SID?: string;
   
   // Storage
+  STORAGE_BACKEND: 'gcs' | 'local';
+  LOCAL_STORAGE_DIR?: string;
+  STORAGE_SIGNING_SECRET?: string;
   GCS_BUCKET_NAME: string;
   GCS_PROJECT_ID: string;
   GCS_KEY_FILE?: string;
@@ -34,10 +37,32 @@ interface EnvConfig {
   REPLICATE_API_KEY?: string;
   FAL_API_KEY?: string;
   GEMINI_API_KEY?: string;
+  IMAGE_PROVIDER?: string;
+  IMAGE_PROVIDER_FALLBACKS?: string;
+  
+  // Ranking
+  HOT_SCORE_FORMULA?: string;
+  
+  // Tribes
+  TRIBE_SWITCH_COOLDOWN_DAYS?: string;
+  
+  // Search
+  SEARCH_BACKEND: 'mongo';
   
   // Worker
   WORKER_URL?: string;
   GCP_REGION?: string;
+  QUEUE_BACKEND?: string;
+  QUEUE_CONCURRENCY?: string;
+  
+  // Web Push (VAPID)
+  VAPID_PUBLIC_KEY?: string;
+  VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT?: string;
+  
+  // Provenance manifests
+  PROVENANCE_SIGNING_KEY?: string;
+  PROVENANCE_KEY_ID?: string;
   
   // Redis
   REDIS_URL?: string;
@@ -55,16 +80,24 @@ interface EnvConfig {
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  RATE_LIMIT_ALLOWLIST?: string;
+  INTERNAL_API_TOKEN?: string;
 }
 
 function validateEnv(): EnvConfig {
   const nodeEnv = (process.env.NODE_ENV as any) || 'development';
   
+  const storageBackend = process.env.STORAGE_BACKEND === 'local' ? 'local' : 'gcs';
+  
+  // Backends registered in src/search (unknown values fall back to mongo)
+  const searchBackends = ['mongo'] as const;
+  const searchBackend = searchBackends.find((name) => name === process.env.SEARCH_BACKEND) || 'mongo';
+  
   const requiredVars = [
     'MONGODB_URI',
     'JWT_SECRET',
-    'GCS_BUCKET_NAME',
-    'GCS_PROJECT_ID',
+    // GCS credentials are only needed when storing in GCS
+    ...(storageBackend === 'gcs' ? ['GCS_BUCKET_NAME', 'GCS_PROJECT_ID'] : []),
   ];
   
   const missing = requiredVars.filter(varName => !process.env[varName]);
@@ -96,8 +129,11 @@ function validateEnv(): EnvConfig {
     TWILIO_VERIFY_SERVICE_SID: process.env.TWILIO_VERIFY_SERVICE_SID,
     
     // Storage
-    GCS_BUCKET_NAME: process.env.GCS_BUCKET_NAME!,
-    GCS_PROJECT_ID: process.env.GCS_PROJECT_ID!,
+    STORAGE_BACKEND: storageBackend,
+    LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR,
+    STORAGE_SIGNING_SECRET: process.env.STORAGE_SIGNING_SECRET,
+    GCS_BUCKET_NAME: process.env.GCS_BUCKET_NAME || 'afromoji-uploads',
+    GCS_PROJECT_ID: process.env.GCS_PROJECT_ID || '',
     GCS_KEY_FILE: process.env.GCS_KEY_FILE,
     CDN_BASE_URL: process.env.CDN_BASE_URL,
     
@@ -106,10 +142,32 @@ function validateEnv(): EnvConfig {
     REPLICATE_API_KEY: process.env.REPLICATE_API_KEY,
     FAL_API_KEY: process.env.FAL_API_KEY,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+    IMAGE_PROVIDER: process.env.IMAGE_PROVIDER,
+    IMAGE_PROVIDER_FALLBACKS: process.env.IMAGE_PROVIDER_FALLBACKS,
+    
+    // Ranking
+    HOT_SCORE_FORMULA: process.env.HOT_SCORE_FORMULA,
+    
+    // Tribes
+    TRIBE_SWITCH_COOLDOWN_DAYS: process.env.TRIBE_SWITCH_COOLDOWN_DAYS,
+    
+    // Search
+    SEARCH_BACKEND: searchBackend,
     
     // Worker
     WORKER_URL: process.env.WORKER_URL,
     GCP_REGION: process.env.GCP_REGION || 'us-central1',
+    QUEUE_BACKEND: process.env.QUEUE_BACKEND,
+    QUEUE_CONCURRENCY: process.env.QUEUE_CONCURRENCY,
+    
+    // Web Push (VAPID)
+    VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
+    VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+    VAPID_SUBJECT: process.env.VAPID_SUBJECT,
+    
+    // Provenance manifests
+    PROVENANCE_SIGNING_KEY: process.env.PROVENANCE_SIGNING_KEY,
+    PROVENANCE_KEY_ID: process.env.PROVENANCE_KEY_ID,
     
     // Redis
     REDIS_URL: process.env.REDIS_URL,
@@ -127,6 +185,8 @@ function validateEnv(): EnvConfig {
     // Rate Limiting
     RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 min
     RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    RATE_LIMIT_ALLOWLIST: process.env.RATE_LIMIT_ALLOWLIST,
+    INTERNAL_API_TOKEN: process.env.INTERNAL_API_TOKEN,
   };
 }
 
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { env } from './env';
+
+/**
+ * Provenance Configuration
+ *
+ * Signing key for the C2PA-style manifests embedded in published images.
+ * Disabled unless PROVENANCE_SIGNING_KEY holds a valid EC P-256 or Ed25519
+ * private key; images are still published without a manifest.
+ */
+
+export type ManifestSignatureAlg = 'ES256' | 'Ed25519';
+
+interface SigningKey {
+  privateKey: crypto.KeyObject;
+  publicKeyDer: Buffer; // SPKI, embedded in manifests for verification
+  alg: ManifestSignatureAlg;
+  keyId: string;
+}
+
+/**
+ * Load the signing key (null when unset or unusable)
+ */
+function loadSigningKey(): SigningKey | null {
+  if (!env.PROVENANCE_SIGNING_KEY) {
+    return null;
+  }
+
+  try {
+    const pem = env.PROVENANCE_SIGNING_KEY.replace(/\\n/g, '\n');
+    const privateKey = crypto.createPrivateKey(pem);
+
+    let alg: ManifestSignatureAlg;
+    if (privateKey.asymmetricKeyType === 'ed25519') {
+      alg = 'Ed25519';
+    } else if (
+      privateKey.asymmetricKeyType === 'ec' &&
+      privateKey.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+    ) {
+      alg = 'ES256';
+    } else {
+      console.warn('PROVENANCE_SIGNING_KEY must be an EC P-256 or Ed25519 key - manifests disabled');
+      return null;
+    }
+
+    const publicKeyDer = crypto
+      .createPublicKey(privateKey)
+      .export({ type: 'spki', format: 'der' });
+
+    const keyId = env.PROVENANCE_KEY_ID
+      || crypto.createHash('sha256').update(publicKeyDer).digest('hex').substring(0, 16);
+
+    return { privateKey, publicKeyDer, alg, keyId };
+  } catch (error: any) {
+    console.warn(`Invalid PROVENANCE_SIGNING_KEY - manifests disabled: ${error.message}`);
+    return null;
+  }
+}
+
+const signingKey = loadSigningKey();
+
+if (!signingKey && env.NODE_ENV === 'production') {
+  console.warn('PROVENANCE_SIGNING_KEY not set - provenance manifests disabled');
+}
+
+export const provenanceConfig = {
+  enabled: !!signingKey,
+
+  signingKey,
+
+  // Recorded as the claim generator of every manifest
+  claimGenerator: 'AfroMoji afro-api/1.0',
+
+  // IPTC digital source type for fully AI-generated media
+  digitalSourceType: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+};
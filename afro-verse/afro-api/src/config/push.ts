@@ -0,0 +1,41 @@
+import { env } from './env';
+
+/**
+ * Web Push Configuration
+ *
+ * Browser push (VAPID, RFC 8292) for generation results and social
+ * activity. Disabled unless both VAPID keys are set; notify() and
+ * generation jobs keep working either way.
+ */
+
+export type PushCategory = 'generation' | 'follow' | 'respect';
+
+export const PUSH_CATEGORIES: PushCategory[] = ['generation', 'follow', 'respect'];
+
+const enabled = !!(env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY);
+
+if (!enabled && env.NODE_ENV === 'production') {
+  console.warn('VAPID keys not set - web push disabled');
+}
+
+export const pushConfig = {
+  enabled,
+
+  vapid: {
+    publicKey: env.VAPID_PUBLIC_KEY || '',
+    privateKey: env.VAPID_PRIVATE_KEY || '',
+    subject: env.VAPID_SUBJECT || 'mailto:support@afromoji.app',
+  },
+
+  // How long push services hold a message for an offline device
+  ttlSeconds: 24 * 60 * 60,
+
+  // Oldest subscriptions are dropped beyond this (one per browser/device)
+  maxSubscriptionsPerUser: 10,
+
+  // Consecutive non-expiry failures before a subscription is pruned
+  maxConsecutiveFailures: 5,
+
+  // Per-send HTTP timeout
+  requestTimeoutMs: 10000,
+};
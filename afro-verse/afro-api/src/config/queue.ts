@@ -0,0 +1,74 @@
+import { env } from './env';
+
+/**
+ * Job Queue Configuration
+ *
+ * Selects how background jobs (generations, account exports) are dispatched:
+ * - mongo:       durable in-process queue backed by MongoDB (self-hosted)
+ * - cloud_tasks: Google Cloud Tasks → WORKER_URL
+ * - http:        fire-and-forget POST to /api/jobs/* (Vercel background functions)
+ */
+
+export type QueueBackendName = 'mongo' | 'cloud_tasks' | 'http';
+
+const QUEUE_BACKENDS: QueueBackendName[] = ['mongo', 'cloud_tasks', 'http'];
+
+/**
+ * Resolve the queue backend
+ *
+ * QUEUE_BACKEND wins. Serverless deployments can't run a polling
+ * worker, so Vercel defaults to http; everything else uses mongo.
+ */
+function resolveQueueBackend(): QueueBackendName {
+  const configured = env.QUEUE_BACKEND?.trim().toLowerCase();
+
+  if (configured && QUEUE_BACKENDS.includes(configured as QueueBackendName)) {
+    return configured as QueueBackendName;
+  }
+
+  if (configured) {
+    console.warn(`Unknown QUEUE_BACKEND "${configured}" - falling back to default`);
+  }
+
+  return process.env.VERCEL ? 'http' : 'mongo';
+}
+
+export const queueConfig = {
+  backend: resolveQueueBackend(),
+
+  mongo: {
+    // Max jobs processed at once by this instance
+    concurrency: parseInt(env.QUEUE_CONCURRENCY || '2', 10),
+
+    // How often idle workers look for due jobs
+    pollIntervalMs: 1000,
+
+    // A claimed job becomes visible again if not finished/heartbeated in time
+    visibilityTimeoutMs: 5 * 60 * 1000,
+    heartbeatIntervalMs: 60 * 1000,
+
+    // Attempts before a job is moved to the dead-letter collection
+    maxAttempts: 5,
+  },
+
+  cloudTasks: {
+    location: env.GCP_REGION || 'us-central1',
+
+    // Job queue → Cloud Tasks queue + worker endpoint
+    targets: {
+      generation: {
+        queueName: 'generation-queue',
+        url: env.WORKER_URL || 'http://localhost:3001/worker/process-generation',
+      },
+      'account-export': {
+        queueName: 'account-export-queue',
+        url: `${env.API_URL || `http://localhost:${env.PORT || 3001}`}/api/jobs/account-export`,
+      },
+    } as Record<string, { queueName: string; url: string }>,
+  },
+
+  http: {
+    // Jobs are POSTed to `${baseUrl}/api/jobs/<queue>`
+    baseUrl: env.API_URL || `http://localhost:${env.PORT || 3001}`,
+  },
+};
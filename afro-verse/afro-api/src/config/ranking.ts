@@ -0,0 +1,90 @@
+import { env } from './env';
+
+/**
+ * Ranking Configuration
+ *
+ * Hot score formula for /feed/hot:
+ *
+ *   engagement = velocity × respectVelocity + respects × totalRespects + shares × totalShares
+ *   tribeFactor = max(1, tribeMembers / referenceMembers) ^ tribeExponent
+ *   score = (engagement / tribeFactor + quality × qualityScore + base)
+ *           / (ageHours + agePaddingHours) ^ gravity
+ *
+ * Respect velocity is the number of respects in the last
+ * `velocityWindowHours`. Tribe normalisation stops large tribes from
+ * drowning out small ones on raw volume.
+ *
+ * Any field can be overridden with HOT_SCORE_FORMULA (JSON), e.g.
+ *   HOT_SCORE_FORMULA='{"gravity":1.8,"weights":{"shares":3}}'
+ */
+
+export interface HotScoreFormula {
+  weights: {
+    respectVelocity: number;
+    respects: number;
+    shares: number;
+    quality: number;
+    base: number;
+  };
+  velocityWindowHours: number;
+  gravity: number;
+  agePaddingHours: number;
+  tribe: {
+    referenceMembers: number;
+    exponent: number;
+  };
+}
+
+const DEFAULT_FORMULA: HotScoreFormula = {
+  weights: {
+    respectVelocity: 2,
+    respects: 1,
+    shares: 3,
+    quality: 2,
+    base: 1,
+  },
+  velocityWindowHours: 6,
+  gravity: 1.5,
+  agePaddingHours: 2,
+  tribe: {
+    referenceMembers: 100,
+    exponent: 0.5,
+  },
+};
+
+/**
+ * Merge HOT_SCORE_FORMULA overrides into the defaults
+ */
+function resolveFormula(): HotScoreFormula {
+  if (!env.HOT_SCORE_FORMULA) {
+    return DEFAULT_FORMULA;
+  }
+
+  try {
+    const overrides = JSON.parse(env.HOT_SCORE_FORMULA);
+
+    return {
+      ...DEFAULT_FORMULA,
+      ...overrides,
+      weights: { ...DEFAULT_FORMULA.weights, ...overrides.weights },
+      tribe: { ...DEFAULT_FORMULA.tribe, ...overrides.tribe },
+    };
+  } catch (error) {
+    console.warn('Invalid HOT_SCORE_FORMULA JSON - using default formula');
+    return DEFAULT_FORMULA;
+  }
+}
+
+export const rankingConfig = {
+  hotScore: resolveFormula(),
+
+  recompute: {
+    // Full recompute cadence (in-process scheduler; Vercel uses /cron/hot-scores)
+    intervalMs: 15 * 60 * 1000,
+
+    // Older posts have decayed to ~0 and are zeroed instead of scored
+    maxAgeDays: 14,
+
+    batchSize: 500,
+  },
+};
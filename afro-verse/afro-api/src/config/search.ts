@@ -0,0 +1,21 @@
+import { env } from './env';
+
+/**
+ * Search Configuration
+ *
+ * SEARCH_BACKEND selects the engine (see src/search). Mongo text
+ * indexes are the default and need no extra infrastructure.
+ */
+
+export const searchConfig = {
+  backend: env.SEARCH_BACKEND,
+
+  minQueryLength: 2,
+  maxQueryLength: 50,
+
+  // Results per section when searching everything
+  sectionLimit: 5,
+
+  // Page size cap when searching one type
+  maxLimit: 30,
+};
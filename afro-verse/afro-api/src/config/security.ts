@@ -9,6 +9,31 @@ import { env } from './env';
 export const securityConfig = {
   // Rate Limits (per time window)
   rateLimits: {
+    // Per-IP limit applied to every request
+    global: {
+      limit: env.NODE_ENV === 'development' ? 1000 : env.RATE_LIMIT_MAX_REQUESTS,
+      window: Math.round(env.RATE_LIMIT_WINDOW_MS / 1000),
+    },
+    
+    // Per-route overrides of the global limit (longest matching path prefix wins).
+    // Routes with their own per-user limiter get more global headroom.
+    routes: {
+      '/api/feed': { limit: 600, window: 900 },
+      '/api/posts': { limit: 600, window: 900 },
+    } as Record<string, RateLimitConfig>,
+    
+    // Internal callers (workers, cron, self-triggered jobs) skip rate limiting:
+    // requests from these IPs, or carrying X-Internal-Token = INTERNAL_API_TOKEN
+    allowlist: {
+      ips: env.RATE_LIMIT_ALLOWLIST?.split(',').map(ip => ip.trim()).filter(Boolean) || [],
+      token: env.INTERNAL_API_TOKEN || null,
+    },
+    
+    // In-memory fallback store (no REDIS_URL)
+    memoryStore: {
+      maxKeys: 10000, // Least recently used keys are evicted beyond this
+    },
+    
     otp: {
       send: {
         perPhone: { limit: env.NODE_ENV === 'development' ? 999999 : 3, window: 600 }, // Unlimited in dev, 3 in prod per 10 minutes
@@ -43,6 +68,12 @@ export const securityConfig = {
       perUser: { limit: 60, window: 60 }, // 60 per minute
       toggleDebounce: 2, // seconds
     },
+    comment: {
+      perUser: { limit: 30, window: 600 }, // 30 per 10 minutes
+    },
+    report: {
+      perUser: { limit: 20, window: 3600 }, // 20 per hour
+    },
     upload: {
       init: {
         perUser: { limit: 20, window: 3600 },
@@ -76,6 +107,103 @@ export const securityConfig = {
     maxPromptLength: 500,
     maxRefineLength: 250,
     maxCaptionLength: 120,
+    maxCommentLength: 300,
+  },
+  
+  // User Reports
+  reports: {
+    // Open report weight on a post at which it is hidden (flagged) pending review
+    autoFlagWeight: 3,
+    
+    // Reporter weight: brand-new accounts count less, moderators flag immediately
+    weights: {
+      default: 1,
+      newAccount: 0.5,
+      moderator: 3,
+    },
+    newAccountAgeHours: 24,
+    
+    maxDetailsLength: 500,
+    
+    // A claim is released if the moderator doesn't resolve it in time
+    claimTtlMinutes: 30,
+  },
+  
+  // Shadowbans: content stays visible to its author but no one else
+  shadowbans: {
+    // Longest expiry a moderator can set (no expiry = until cleared)
+    maxDurationDays: 365,
+    
+    // Banned and shadowbanned user ids, cached for feeds and search
+    moderatedUsersCacheTtl: 60, // Seconds
+  },
+  
+  // Duplicate & Repost Detection (perceptual hash Hamming distance, 0-64)
+  duplicates: {
+    // Another user's post this close is a repost: publishing is rejected
+    rejectDistance: 4,
+    
+    // Closer than this is hidden (flagged) pending review
+    flagDistance: 10,
+    
+    // Near-identical posts of one's own allowed per window
+    maxOwnRepeats: 2,
+    ownRepeatWindowHours: 24,
+    
+    // Cap on admin "find similar" results
+    maxSimilarResults: 50,
+  },
+  
+  // Hashtags and style tags
+  tags: {
+    trendingLimit: 20,
+    trendingCacheTtl: 5 * 60, // Seconds
+  },
+  
+  // Tribe membership
+  tribes: {
+    // Days after joining/switching before a member can switch again
+    switchCooldownDays: parseInt(env.TRIBE_SWITCH_COOLDOWN_DAYS || '30', 10),
+  },
+  
+  // Tribe analytics (daily snapshots, leaderboard, stats)
+  tribeStats: {
+    topStylesPerDay: 5, // Styles kept per snapshot
+    defaultSeriesDays: 30,
+    maxSeriesDays: 90,
+    reconcileDays: 35, // Recent snapshots recomputed by the counter repair
+    leaderboardCacheTtl: 5 * 60, // Seconds
+    snapshotIntervalMs: 60 * 60 * 1000, // In-process capture check (idempotent)
+  },
+  
+  // Tribe challenges (themed, time-boxed events)
+  challenges: {
+    minDurationHours: 1,
+    maxDurationDays: 31,
+    maxEntriesPerUser: 3, // Per challenge
+    winnerCount: 3, // Crowned in the results phase
+    resultsDisplayDays: 7, // Winners stay on the tribe header this long
+    leaderboardSize: 50,
+    leaderboardCacheTtl: 60, // Seconds
+    finalizeIntervalMs: 5 * 60 * 1000, // In-process results sweep
+  },
+  
+  // Self-serve data export and account deletion (POPIA/GDPR)
+  account: {
+    // Deletion can be cancelled until the purge runs
+    deletionGraceDays: 30,
+    deletionMaxAttempts: 5,
+    
+    // One export per window; archives are deleted after exportTtlHours
+    exportCooldownHours: 24,
+    exportTtlHours: 72,
+    exportDownloadUrlTtl: 10 * 60, // 10 minutes
+    
+    // Archives are built in memory; images past this are listed, not included
+    exportMaxImageBytes: 512 * 1024 * 1024,
+    
+    // Account sweep (purge due deletions, expire exports)
+    sweepIntervalMs: 60 * 60 * 1000, // 1 hour
   },
   
   // Upload Limits
@@ -110,6 +238,22 @@ export const securityConfig = {
     requireRole: 'admin',
   },
   
+  // Audit log (append-only, hash-chained)
+  audit: {
+    // Concurrent appends collide on seq; the loser retries on the new head
+    appendAttempts: 5,
+    
+    // Metadata strings and arrays are clipped so events stay small
+    maxMetadataString: 500,
+    maxMetadataArray: 50,
+    
+    // Rows per CSV export (narrow the filters for more)
+    exportMaxRows: 10000,
+    
+    // Events re-hashed per verify call
+    verifyMaxEvents: 50000,
+  },
+  
   // Feature Flags
   features: {
     disableGeneration: env.DISABLE_GENERATION === 'true',
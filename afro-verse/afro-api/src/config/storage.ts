@@ -1,13 +1,35 @@
+import path from 'path';
+import crypto from 'crypto';
 import { Storage } from '@google-cloud/storage';
 import { env } from './env';
 import { logger } from '../utils/logger';
 
 /**
- * Google Cloud Storage Configuration
+ * Storage Configuration
  * 
- * Handles GCS client initialization and bucket access.
+ * Selects the storage backend and handles GCS client initialization.
+ * 
+ * STORAGE_BACKEND=local keeps every bucket on disk under LOCAL_STORAGE_DIR
+ * so the full media lifecycle runs without GCP credentials.
  */
 
+export const storageConfig = {
+  backend: env.STORAGE_BACKEND,
+  
+  local: {
+    rootDir: path.resolve(env.LOCAL_STORAGE_DIR || '.storage'),
+    
+    // Base URL that serves /storage/* (signed and public URLs)
+    baseUrl: env.API_URL || `http://localhost:${env.PORT}`,
+    
+    // HMAC key for signed URLs; derived from JWT_SECRET if not set
+    signingSecret: env.STORAGE_SIGNING_SECRET ||
+      crypto.createHash('sha256').update(`storage:${env.JWT_SECRET}`).digest('hex'),
+    
+    maxUploadBytes: 10 * 1024 * 1024,
+  },
+};
+
 let storage: Storage | null = null;
 
 /**
@@ -68,6 +90,10 @@ export function getBucket(bucketName?: string) {
  * Check if GCS is configured
  */
 export function isStorageConfigured(): boolean {
+  if (storageConfig.backend === 'local') {
+    return true;
+  }
+  
   return !!(env.GCS_BUCKET_NAME && env.GCS_PROJECT_ID);
 }
 
@@ -80,6 +106,11 @@ export async function validateStorageConfig(): Promise<boolean> {
     return false;
   }
   
+  if (storageConfig.backend === 'local') {
+    logger.info(`Local storage at ${storageConfig.local.rootDir}`);
+    return true;
+  }
+  
   try {
     const bucket = getBucket();
     const [exists] = await bucket.exists();
@@ -0,0 +1,206 @@
+import { Request, Response } from 'express';
+import {
+  requestAccountExport,
+  getAccountExport,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+  getAccountDeletion,
+} from '../services/account.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Account Controller
+ *
+ * Self-serve data export and account deletion.
+ */
+
+/**
+ * POST /users/me/export
+ *
+ * Request a zip of the user's data (built asynchronously)
+ */
+export async function requestExportController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await requestAccountExport(userId);
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        user_not_found: 404,
+        export_in_progress: 409,
+        export_rate_limited: 429,
+        enqueue_failed: 503,
+      };
+
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to request export',
+        ...(result.retryAfter ? { retryAfter: result.retryAfter } : {}),
+      });
+    }
+
+    return res.status(202).json(result.export);
+  } catch (error: any) {
+    logger.error('Error in requestExportController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to request export',
+    });
+  }
+}
+
+/**
+ * GET /users/me/export/:id
+ *
+ * Export status, with a short-lived download URL once ready
+ */
+export async function getExportController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await getAccountExport(userId, req.params.id);
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        export_not_found: 404,
+      };
+
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to get export',
+      });
+    }
+
+    return res.status(200).json(result.export);
+  } catch (error: any) {
+    logger.error('Error in getExportController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get export',
+    });
+  }
+}
+
+/**
+ * DELETE /users/me
+ *
+ * Schedule account deletion after the grace period and sign out everywhere
+ */
+export async function deleteAccountController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await requestAccountDeletion(userId);
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        user_not_found: 404,
+      };
+
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to delete account',
+      });
+    }
+
+    return res.status(202).json(result.deletion);
+  } catch (error: any) {
+    logger.error('Error in deleteAccountController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to delete account',
+    });
+  }
+}
+
+/**
+ * GET /users/me/deletion
+ *
+ * Scheduled deletion, if any
+ */
+export async function getDeletionController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const deletion = await getAccountDeletion(userId);
+
+    return res.status(200).json({ deletion });
+  } catch (error: any) {
+    logger.error('Error in getDeletionController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get account deletion',
+    });
+  }
+}
+
+/**
+ * POST /users/me/deletion/cancel
+ *
+ * Cancel a scheduled deletion within the grace period
+ */
+export async function cancelDeletionController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await cancelAccountDeletion(userId);
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        deletion_not_scheduled: 404,
+      };
+
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to cancel account deletion',
+      });
+    }
+
+    return res.status(200).json(result.deletion);
+  } catch (error: any) {
+    logger.error('Error in cancelDeletionController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to cancel account deletion',
+    });
+  }
+}
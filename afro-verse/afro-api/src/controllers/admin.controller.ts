@@ -2,9 +2,41 @@ import { Request, Response } from 'express';
 import {
   flagPost,
   removePost,
+  restorePost,
   banUser,
   unbanUser,
+  setShadowban,
+  clearShadowban,
+  setUserRoles,
+  traceWatermark,
 } from '../services/moderation.service';
+import {
+  listAdminPosts,
+  listAdminUsers,
+  listBlockedGenerations,
+  getAdminUserDetail,
+  bulkPostAction,
+  bulkUserAction,
+} from '../services/admin.service';
+import { getAllBreakerSnapshots, resetBreaker } from '../ai/circuitBreaker';
+import { getProvider } from '../ai/providers';
+import { aiConfig, ImageProviderName, IMAGE_PROVIDER_NAMES } from '../config/ai';
+import { listDeadLetterJobs, requeueDeadLetterJob } from '../services/tasks.service';
+import { queueConfig } from '../config/queue';
+import { explainHotScore } from '../services/ranking.service';
+import { removeComment } from '../services/comment.service';
+import { listReportQueue, claimReport, resolveReport } from '../services/report.service';
+import { listAllPresets, createPreset, updatePreset } from '../services/stylePreset.service';
+import { findSimilarImages } from '../services/imageHash.service';
+import { IMAGE_HASH_KINDS, ImageHashKind } from '../models/ImageHash';
+import { setTribeLeads } from '../services/tribe.service';
+import {
+  listAuditEvents,
+  exportAuditEventsCsv,
+  verifyAuditChain,
+  recordAuditEvent,
+  AuditFilters,
+} from '../services/audit.service';
 import { logger } from '../utils/logger';
 
 /**
@@ -106,6 +138,90 @@ export async function removePostController(req: Request, res: Response) {
   }
 }
 
+/**
+ * POST /admin/comments/:id/remove
+ * 
+ * Remove comment from a post
+ */
+export async function removeCommentController(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const moderatorId = req.user?.id;
+    
+    if (!reason) {
+      return res.status(400).json({
+        error: 'missing_reason',
+        message: 'Reason is required',
+      });
+    }
+    
+    const result = await removeComment(id, reason, moderatorId);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_comment_id: 400,
+        comment_not_found: 404,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to remove comment',
+      });
+    }
+    
+    return res.status(200).json({
+      message: 'Comment removed successfully',
+    });
+  } catch (error: any) {
+    logger.error('Error in removeCommentController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to remove comment',
+    });
+  }
+}
+
+/**
+ * POST /admin/posts/:id/restore
+ * 
+ * Restore a flagged post (review found nothing wrong)
+ */
+export async function restorePostController(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const moderatorId = req.user?.id;
+    
+    const result = await restorePost(id, moderatorId);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_post_id: 400,
+        post_not_flagged: 409,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to restore post',
+      });
+    }
+    
+    return res.status(200).json({
+      message: 'Post restored successfully',
+    });
+  } catch (error: any) {
+    logger.error('Error in restorePostController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to restore post',
+    });
+  }
+}
+
 /**
  * POST /admin/users/:id/ban
  * 
@@ -190,9 +306,1113 @@ export async function unbanUserController(req: Request, res: Response) {
   }
 }
 
+/**
+ * Shadowban expiry from an ISO date or a duration in hours (neither =
+ * until cleared; unparseable values give an invalid date)
+ */
+function parseShadowbanExpiry(expiresAt: unknown, durationHours: unknown): Date | null {
+  if (expiresAt !== undefined && expiresAt !== null) {
+    return new Date(expiresAt as string);
+  }
+  
+  if (durationHours !== undefined && durationHours !== null) {
+    const hours = Number(durationHours);
+    return new Date(Number.isFinite(hours) ? Date.now() + hours * 60 * 60 * 1000 : NaN);
+  }
+  
+  return null;
+}
+
+/**
+ * POST /admin/users/:id/shadowban
+ * 
+ * Shadowban user
+ * Body: { reason, expiresAt?: ISO date, durationHours?: number }
+ * (neither = until cleared)
+ */
+export async function shadowbanUserController(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const { reason, expiresAt, durationHours } = req.body;
+    const moderatorId = req.user?.id;
+    
+    if (!reason) {
+      return res.status(400).json({
+        error: 'missing_reason',
+        message: 'Reason is required',
+      });
+    }
+    
+    const expiry = parseShadowbanExpiry(expiresAt, durationHours);
+    
+    const result = await setShadowban(id, reason, expiry, moderatorId);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        invalid_expiry: 400,
+        user_not_found: 404,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to shadowban user',
+      });
+    }
+    
+    return res.status(200).json({
+      message: 'User shadowbanned successfully',
+      expiresAt: expiry,
+    });
+  } catch (error: any) {
+    logger.error('Error in shadowbanUserController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to shadowban user',
+    });
+  }
+}
+
+/**
+ * POST /admin/users/:id/unshadowban
+ * 
+ * Clear a user's shadowban
+ */
+export async function unshadowbanUserController(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const moderatorId = req.user?.id;
+    
+    const result = await clearShadowban(id, moderatorId);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        user_not_found: 404,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to clear shadowban',
+      });
+    }
+    
+    return res.status(200).json({
+      message: 'Shadowban cleared successfully',
+    });
+  } catch (error: any) {
+    logger.error('Error in unshadowbanUserController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to clear shadowban',
+    });
+  }
+}
+
+/**
+ * PUT /admin/users/:id/roles
+ * 
+ * Replace a user's roles
+ * Body: { roles: ('user' | 'admin' | 'moderator')[] }
+ */
+export async function setUserRolesController(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const moderatorId = req.user?.id;
+    
+    const result = await setUserRoles(id, req.body?.roles, moderatorId);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        invalid_roles: 400,
+        cannot_change_own_roles: 400,
+        user_not_found: 404,
+      };
+      
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to change roles',
+      });
+    }
+    
+    return res.status(200).json({
+      roles: result.roles,
+    });
+  } catch (error: any) {
+    logger.error('Error in setUserRolesController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to change roles',
+    });
+  }
+}
+
 
 
 
 
 
 
+
+/**
+ * GET /admin/posts/:id/hot-score
+ * 
+ * Explain a post's hot score (inputs, formula components, stored vs computed)
+ */
+export async function explainHotScoreController(req: Request, res: Response) {
+  try {
+    const explanation = await explainHotScore(req.params.id);
+    
+    if (!explanation) {
+      return res.status(404).json({
+        error: 'post_not_found',
+        message: 'Post not found',
+      });
+    }
+    
+    return res.status(200).json(explanation);
+  } catch (error: any) {
+    logger.error('Error in explainHotScoreController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to explain hot score',
+    });
+  }
+}
+
+/**
+ * GET /admin/providers/health
+ * 
+ * Image provider routing and circuit breaker state
+ */
+export async function getProviderHealthController(req: Request, res: Response) {
+  try {
+    const providers = getAllBreakerSnapshots().map(snapshot => ({
+      ...snapshot,
+      configured: getProvider(snapshot.provider).isConfigured(),
+    }));
+    
+    return res.status(200).json({
+      routing: aiConfig.routing,
+      circuitBreaker: aiConfig.circuitBreaker,
+      providers,
+    });
+  } catch (error: any) {
+    logger.error('Error in getProviderHealthController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get provider health',
+    });
+  }
+}
+
+/**
+ * POST /admin/providers/:name/reset
+ * 
+ * Force a provider's circuit breaker closed
+ */
+export async function resetProviderBreakerController(req: Request, res: Response) {
+  try {
+    const name = req.params.name as ImageProviderName;
+    
+    if (!IMAGE_PROVIDER_NAMES.includes(name)) {
+      return res.status(404).json({
+        error: 'provider_not_found',
+        message: 'Unknown image provider',
+      });
+    }
+    
+    resetBreaker(name);
+    
+    logger.info('Provider circuit breaker reset', {
+      provider: name,
+      moderatorId: req.user?.id,
+    });
+    
+    return res.status(200).json({
+      message: 'Circuit breaker reset successfully',
+    });
+  } catch (error: any) {
+    logger.error('Error in resetProviderBreakerController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to reset circuit breaker',
+    });
+  }
+}
+
+/**
+ * GET /admin/queue/dead-letters
+ * 
+ * Jobs the queue gave up on (newest first)
+ */
+export async function listDeadLettersController(req: Request, res: Response) {
+  try {
+    const { queue, cursor } = req.query;
+    const limit = parseInt(req.query.limit as string, 10) || 20;
+    
+    const result = await listDeadLetterJobs({
+      queue: queue as string | undefined,
+      cursor: cursor as string | undefined,
+      limit,
+    });
+    
+    return res.status(200).json({
+      backend: queueConfig.backend,
+      jobs: result.jobs,
+      nextCursor: result.nextCursor,
+    });
+  } catch (error: any) {
+    logger.error('Error in listDeadLettersController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list dead-letter jobs',
+    });
+  }
+}
+
+/**
+ * POST /admin/queue/dead-letters/:id/requeue
+ * 
+ * Put a dead-lettered job back on the queue
+ */
+export async function requeueDeadLetterController(req: Request, res: Response) {
+  try {
+    const result = await requeueDeadLetterJob(req.params.id);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        not_found: 404,
+        already_requeued: 409,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to requeue job',
+      });
+    }
+    
+    logger.info('Dead-letter job requeued by admin', {
+      deadLetterId: req.params.id,
+      moderatorId: req.user?.id,
+    });
+    
+    return res.status(200).json({
+      message: 'Job requeued successfully',
+      jobId: result.jobId,
+    });
+  } catch (error: any) {
+    logger.error('Error in requeueDeadLetterController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to requeue job',
+    });
+  }
+}
+
+/**
+ * GET /admin/reports
+ * 
+ * Moderation queue: reports grouped by target (status=open|resolved)
+ */
+export async function listReportsController(req: Request, res: Response) {
+  try {
+    const { status, targetType, cursor } = req.query;
+    const limit = parseInt(req.query.limit as string, 10) || 20;
+    
+    const result = await listReportQueue({
+      status: status as string | undefined,
+      targetType: targetType as string | undefined,
+      cursor: cursor as string | undefined,
+      limit,
+    });
+    
+    return res.status(200).json(result);
+  } catch (error: any) {
+    logger.error('Error in listReportsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list reports',
+    });
+  }
+}
+
+/**
+ * POST /admin/reports/:id/claim
+ * 
+ * Claim a report and the other unresolved reports on its target
+ */
+export async function claimReportController(req: Request, res: Response) {
+  try {
+    const moderatorId = req.user?.id;
+    
+    if (!moderatorId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+    
+    const result = await claimReport(req.params.id, moderatorId);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_report_id: 400,
+        report_not_found: 404,
+        already_resolved: 409,
+        already_claimed: 409,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to claim report',
+      });
+    }
+    
+    return res.status(200).json({
+      claimed: result.claimed,
+      claimExpiresAt: result.claimExpiresAt,
+    });
+  } catch (error: any) {
+    logger.error('Error in claimReportController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to claim report',
+    });
+  }
+}
+
+/**
+ * POST /admin/reports/:id/resolve
+ * 
+ * Resolve a report's target: action = remove_post | ban_user | dismiss
+ */
+export async function resolveReportController(req: Request, res: Response) {
+  try {
+    const moderatorId = req.user?.id;
+    
+    if (!moderatorId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+    const { action, note } = req.body;
+    
+    const result = await resolveReport(req.params.id, moderatorId, {
+      action,
+      note: typeof note === 'string' ? note : undefined,
+    });
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_action: 400,
+        invalid_report_id: 400,
+        report_not_found: 404,
+        post_not_found: 404,
+        user_not_found: 404,
+        already_resolved: 409,
+        already_claimed: 409,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to resolve report',
+      });
+    }
+    
+    return res.status(200).json({
+      message: 'Report resolved successfully',
+      resolved: result.resolved,
+    });
+  } catch (error: any) {
+    logger.error('Error in resolveReportController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to resolve report',
+    });
+  }
+}
+
+/**
+ * GET /admin/presets
+ * 
+ * Every style preset, including disabled ones and prompt revisions
+ */
+export async function listPresetsController(req: Request, res: Response) {
+  try {
+    const result = await listAllPresets();
+    
+    if (!result.success) {
+      return res.status(500).json({
+        error: result.error,
+        message: 'Failed to list presets',
+      });
+    }
+    
+    return res.status(200).json({
+      presets: result.presets,
+    });
+  } catch (error: any) {
+    logger.error('Error in listPresetsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list presets',
+    });
+  }
+}
+
+const PRESET_ERROR_STATUS: Record<string, number> = {
+  invalid_slug: 400,
+  invalid_title: 400,
+  invalid_description: 400,
+  invalid_prompt_fragment: 400,
+  invalid_negative_prompt: 400,
+  invalid_example_thumbs: 400,
+  invalid_tribe_ids: 400,
+  invalid_enabled: 400,
+  invalid_order: 400,
+  slug_immutable: 400,
+  tribe_not_found: 404,
+  preset_not_found: 404,
+  slug_taken: 409,
+};
+
+/**
+ * POST /admin/presets
+ * 
+ * Create a style preset
+ */
+export async function createPresetController(req: Request, res: Response) {
+  try {
+    const adminId = req.user?.id;
+    
+    if (!adminId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+    
+    const result = await createPreset(adminId, req.body || {});
+    
+    if (!result.success) {
+      return res.status(PRESET_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to create preset',
+      });
+    }
+    
+    return res.status(201).json({
+      preset: result.preset,
+    });
+  } catch (error: any) {
+    logger.error('Error in createPresetController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to create preset',
+    });
+  }
+}
+
+/**
+ * PATCH /admin/presets/:slug
+ * 
+ * Update, reorder, enable or disable a style preset. Prompt changes
+ * bump the preset version.
+ */
+export async function updatePresetController(req: Request, res: Response) {
+  try {
+    const adminId = req.user?.id;
+    
+    if (!adminId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+    
+    const result = await updatePreset(adminId, req.params.slug, req.body || {});
+    
+    if (!result.success) {
+      return res.status(PRESET_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to update preset',
+      });
+    }
+    
+    return res.status(200).json({
+      preset: result.preset,
+    });
+  } catch (error: any) {
+    logger.error('Error in updatePresetController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to update preset',
+    });
+  }
+}
+
+/**
+ * POST /admin/watermark/verify
+ * 
+ * Upload an image (multipart field "file") and report the transformation,
+ * creator and posts its invisible watermark points to
+ */
+export async function verifyWatermarkController(req: Request, res: Response) {
+  try {
+    const file = (req as any).file;
+    
+    if (!file) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        message: 'File is required',
+      });
+    }
+    
+    const result = await traceWatermark(file.buffer);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        watermark_not_found: 404,
+      };
+      
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: result.error === 'watermark_not_found'
+          ? 'No AfroMoji watermark found in this image'
+          : 'Failed to verify watermark',
+      });
+    }
+    
+    return res.status(200).json(result.trace);
+  } catch (error: any) {
+    logger.error('Error in verifyWatermarkController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to verify watermark',
+    });
+  }
+}
+
+/**
+ * Send a findSimilarImages result
+ */
+async function respondSimilarImages(
+  res: Response,
+  input: Parameters<typeof findSimilarImages>[0],
+  query: Request['query']
+) {
+  const kinds = typeof query.kinds === 'string'
+    ? query.kinds.split(',').filter((k): k is ImageHashKind => IMAGE_HASH_KINDS.includes(k as ImageHashKind))
+    : undefined;
+  const maxDistance = parseInt(query.maxDistance as string, 10);
+
+  const result = await findSimilarImages({
+    ...input,
+    kinds: kinds && kinds.length > 0 ? kinds : undefined,
+    maxDistance: Number.isNaN(maxDistance) ? undefined : maxDistance,
+  });
+
+  if (!result.success) {
+    const statusMap: Record<string, number> = {
+      invalid_ref_id: 400,
+      missing_image: 400,
+      invalid_image: 400,
+      image_not_found: 404,
+    };
+
+    return res.status(statusMap[result.error || ''] || 500).json({
+      error: result.error,
+      message: 'Failed to find similar images',
+    });
+  }
+
+  return res.status(200).json({
+    query: result.query,
+    matches: result.matches,
+  });
+}
+
+/**
+ * GET /admin/images/similar
+ * 
+ * Images similar to an indexed image. Query: postId, or generationId and
+ * versionId, or selfieId; optional kinds (comma-separated) and maxDistance.
+ */
+export async function findSimilarImagesController(req: Request, res: Response) {
+  try {
+    const { postId, generationId, versionId, selfieId } = req.query;
+    
+    let ref: { kind: ImageHashKind; refId: string; versionId?: string } | null = null;
+    
+    if (typeof postId === 'string') {
+      ref = { kind: 'post', refId: postId };
+    } else if (typeof generationId === 'string' && typeof versionId === 'string') {
+      ref = { kind: 'generation', refId: generationId, versionId };
+    } else if (typeof selfieId === 'string') {
+      ref = { kind: 'selfie', refId: selfieId };
+    }
+    
+    if (!ref) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        message: 'postId, generationId and versionId, or selfieId is required',
+      });
+    }
+    
+    return await respondSimilarImages(res, { ref }, req.query);
+  } catch (error: any) {
+    logger.error('Error in findSimilarImagesController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to find similar images',
+    });
+  }
+}
+
+/**
+ * POST /admin/images/similar
+ * 
+ * Upload an image (multipart field "file") and list indexed images similar
+ * to it. Query: optional kinds (comma-separated) and maxDistance.
+ */
+export async function findSimilarUploadController(req: Request, res: Response) {
+  try {
+    const file = (req as any).file;
+    
+    if (!file) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        message: 'File is required',
+      });
+    }
+    
+    return await respondSimilarImages(res, { imageBuffer: file.buffer }, req.query);
+  } catch (error: any) {
+    logger.error('Error in findSimilarUploadController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to find similar images',
+    });
+  }
+}
+
+/**
+ * PUT /admin/tribes/:slug/leads
+ * 
+ * Replace the tribe's leads (members who can run challenges)
+ * Body: { userIds: string[] }
+ */
+export async function setTribeLeadsController(req: Request, res: Response) {
+  try {
+    const { userIds } = req.body || {};
+    
+    if (!Array.isArray(userIds) || !userIds.every((id) => typeof id === 'string')) {
+      return res.status(400).json({
+        error: 'invalid_user_ids',
+        message: 'userIds must be an array of user IDs',
+      });
+    }
+    
+    const result = await setTribeLeads(req.params.slug, userIds, req.user?.id);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        lead_not_member: 400,
+        tribe_not_found: 404,
+      };
+      
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to update tribe leads',
+      });
+    }
+    
+    return res.status(200).json({
+      leadIds: result.leadIds,
+    });
+  } catch (error: any) {
+    logger.error('Error in setTribeLeadsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to update tribe leads',
+    });
+  }
+}
+
+/**
+ * GET /admin/posts
+ * 
+ * Recent posts, newest first
+ * Query: ?status=all|active|flagged|removed&userId=&limit=&cursor=
+ */
+export async function listPostsController(req: Request, res: Response) {
+  try {
+    const { status, userId, cursor } = req.query;
+    const limit = parseInt(req.query.limit as string, 10) || undefined;
+    
+    const result = await listAdminPosts({
+      status: status as string | undefined,
+      userId: userId as string | undefined,
+      cursor: cursor as string | undefined,
+      limit,
+    });
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_status: 400,
+        invalid_user_id: 400,
+      };
+      
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to list posts',
+      });
+    }
+    
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in listPostsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list posts',
+    });
+  }
+}
+
+/**
+ * GET /admin/posts/flagged
+ * 
+ * Review queue: flagged posts, newest first
+ */
+export async function listFlaggedPostsController(req: Request, res: Response) {
+  try {
+    const limit = parseInt(req.query.limit as string, 10) || undefined;
+    
+    const result = await listAdminPosts({
+      status: 'flagged',
+      cursor: req.query.cursor as string | undefined,
+      limit,
+    });
+    
+    if (!result.success) {
+      return res.status(500).json({
+        error: result.error,
+        message: 'Failed to list flagged posts',
+      });
+    }
+    
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in listFlaggedPostsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list flagged posts',
+    });
+  }
+}
+
+/**
+ * POST /admin/posts/bulk
+ * 
+ * Body: { action: 'flag' | 'remove' | 'restore', postIds: string[], reason? }
+ */
+export async function bulkPostActionController(req: Request, res: Response) {
+  try {
+    const moderatorId = req.user?.id;
+    
+    if (!moderatorId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+    
+    const { action, postIds, reason } = req.body;
+    
+    const result = await bulkPostAction(action, postIds, moderatorId, reason);
+    
+    if (!result.success) {
+      return res.status(400).json({
+        error: result.error,
+        message: 'Invalid bulk action',
+      });
+    }
+    
+    return res.status(200).json({ results: result.results });
+  } catch (error: any) {
+    logger.error('Error in bulkPostActionController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to apply bulk action',
+    });
+  }
+}
+
+/**
+ * GET /admin/users
+ * 
+ * Users by moderation status, newest first
+ * Query: ?status=all|active|banned|shadowbanned&q=&limit=&cursor=
+ */
+export async function listUsersController(req: Request, res: Response) {
+  try {
+    const { status, q, cursor } = req.query;
+    const limit = parseInt(req.query.limit as string, 10) || undefined;
+    
+    const result = await listAdminUsers({
+      status: status as string | undefined,
+      q: q as string | undefined,
+      cursor: cursor as string | undefined,
+      limit,
+    });
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_status: 400,
+      };
+      
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to list users',
+      });
+    }
+    
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in listUsersController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list users',
+    });
+  }
+}
+
+/**
+ * GET /admin/users/:id
+ * 
+ * User drawer: counts, recent posts and moderation history
+ */
+export async function getUserDetailController(req: Request, res: Response) {
+  try {
+    const result = await getAdminUserDetail(req.params.id);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        user_not_found: 404,
+      };
+      
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to get user',
+      });
+    }
+    
+    return res.status(200).json(result.detail);
+  } catch (error: any) {
+    logger.error('Error in getUserDetailController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get user',
+    });
+  }
+}
+
+/**
+ * POST /admin/users/bulk
+ * 
+ * Body: { action: 'ban' | 'unban' | 'shadowban' | 'unshadowban', userIds: string[],
+ *         reason?, expiresAt?, durationHours? }
+ */
+export async function bulkUserActionController(req: Request, res: Response) {
+  try {
+    const moderatorId = req.user?.id;
+    
+    if (!moderatorId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+    
+    const { action, userIds, reason, expiresAt, durationHours } = req.body;
+    
+    const result = await bulkUserAction(action, userIds, moderatorId, {
+      reason,
+      expiresAt: parseShadowbanExpiry(expiresAt, durationHours),
+    });
+    
+    if (!result.success) {
+      return res.status(400).json({
+        error: result.error,
+        message: 'Invalid bulk action',
+      });
+    }
+    
+    return res.status(200).json({ results: result.results });
+  } catch (error: any) {
+    logger.error('Error in bulkUserActionController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to apply bulk action',
+    });
+  }
+}
+
+/**
+ * GET /admin/generations/blocked
+ * 
+ * Generations blocked by provider safety filters, newest first
+ * Query: ?userId=&limit=&cursor=
+ */
+export async function listBlockedGenerationsController(req: Request, res: Response) {
+  try {
+    const { userId, cursor } = req.query;
+    const limit = parseInt(req.query.limit as string, 10) || undefined;
+    
+    const result = await listBlockedGenerations({
+      userId: userId as string | undefined,
+      cursor: cursor as string | undefined,
+      limit,
+    });
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+      };
+      
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to list blocked generations',
+      });
+    }
+    
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in listBlockedGenerationsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list blocked generations',
+    });
+  }
+}
+
+/**
+ * Audit filters from the query string
+ */
+function parseAuditFilters(query: Request['query']): AuditFilters {
+  const pick = (key: string) => (typeof query[key] === 'string' ? (query[key] as string) : undefined);
+  
+  return {
+    category: pick('category'),
+    action: pick('action'),
+    outcome: pick('outcome'),
+    actorId: pick('actorId'),
+    targetId: pick('targetId'),
+    from: pick('from'),
+    to: pick('to'),
+  };
+}
+
+const AUDIT_FILTER_ERRORS: Record<string, number> = {
+  invalid_category: 400,
+  invalid_outcome: 400,
+  invalid_actor_id: 400,
+  invalid_date: 400,
+  invalid_cursor: 400,
+};
+
+/**
+ * GET /admin/audit
+ * 
+ * Audit log, newest first; ?format=csv exports matching events
+ * (oldest first, capped) as a download
+ * Query: ?category=&action=&outcome=&actorId=|system&targetId=&from=&to=&limit=&cursor=&format=json|csv
+ */
+export async function listAuditEventsController(req: Request, res: Response) {
+  try {
+    const filters = parseAuditFilters(req.query);
+    
+    if (req.query.format === 'csv') {
+      const result = await exportAuditEventsCsv(filters);
+      
+      if (!result.success) {
+        return res.status(AUDIT_FILTER_ERRORS[result.error || ''] || 500).json({
+          error: result.error,
+          message: 'Failed to export audit log',
+        });
+      }
+      
+      // Exports leave the console, so they are audited too
+      await recordAuditEvent({
+        category: 'admin',
+        action: 'audit.exported',
+        actorId: req.user?.id || null,
+        ip: req.ip || null,
+        metadata: { filters, rows: result.rows, truncated: result.truncated },
+      });
+      
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-${Date.now()}.csv"`);
+      res.setHeader('X-Audit-Truncated', String(result.truncated));
+      return res.status(200).send(result.csv);
+    }
+    
+    const limit = parseInt(req.query.limit as string, 10) || undefined;
+    const result = await listAuditEvents({
+      ...filters,
+      cursor: req.query.cursor as string | undefined,
+      limit,
+    });
+    
+    if (!result.success) {
+      return res.status(AUDIT_FILTER_ERRORS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to list audit events',
+      });
+    }
+    
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in listAuditEventsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list audit events',
+    });
+  }
+}
+
+/**
+ * GET /admin/audit/verify
+ * 
+ * Re-hash the audit chain (from ?fromSeq=, default the first event)
+ */
+export async function verifyAuditChainController(req: Request, res: Response) {
+  try {
+    const fromSeq = parseInt(req.query.fromSeq as string, 10) || 1;
+    
+    const report = await verifyAuditChain(fromSeq);
+    
+    return res.status(200).json(report);
+  } catch (error: any) {
+    logger.error('Error in verifyAuditChainController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to verify audit log',
+    });
+  }
+}
@@ -0,0 +1,255 @@
+import { Request, Response } from 'express';
+import {
+  blockUser,
+  unblockUser,
+  muteUser,
+  unmuteUser,
+  listBlockedUsers,
+  listMutedUsers,
+} from '../services/block.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Block Controller
+ *
+ * Blocking and muting other users, and the settings lists.
+ */
+
+const BLOCK_ERROR_STATUS: Record<string, number> = {
+  invalid_user_id: 400,
+  cannot_block_self: 400,
+  cannot_mute_self: 400,
+  user_not_found: 404,
+};
+
+/**
+ * POST /users/me/blocks
+ *
+ * Block a user ({ targetUserId }); removes follows both ways
+ */
+export async function blockUserController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { targetUserId } = req.body;
+
+    if (!targetUserId) {
+      return res.status(400).json({
+        error: 'missing_target',
+        message: 'Target user ID is required',
+      });
+    }
+
+    const result = await blockUser(userId, targetUserId);
+
+    if (!result.success) {
+      return res.status(BLOCK_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to block user',
+      });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    logger.error('Error in blockUserController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to block user',
+    });
+  }
+}
+
+/**
+ * DELETE /users/me/blocks/:userId
+ *
+ * Unblock a user
+ */
+export async function unblockUserController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await unblockUser(userId, req.params.userId);
+
+    if (!result.success) {
+      return res.status(BLOCK_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to unblock user',
+      });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    logger.error('Error in unblockUserController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to unblock user',
+    });
+  }
+}
+
+/**
+ * GET /users/me/blocks
+ *
+ * Accounts the user has blocked (?limit)
+ */
+export async function listBlockedUsersController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string, 10) || undefined;
+
+    const result = await listBlockedUsers(userId, limit);
+
+    if (!result.success) {
+      return res.status(BLOCK_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to list blocked users',
+      });
+    }
+
+    return res.status(200).json({ items: result.items });
+  } catch (error: any) {
+    logger.error('Error in listBlockedUsersController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list blocked users',
+    });
+  }
+}
+
+/**
+ * POST /users/me/mutes
+ *
+ * Mute a user ({ targetUserId })
+ */
+export async function muteUserController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { targetUserId } = req.body;
+
+    if (!targetUserId) {
+      return res.status(400).json({
+        error: 'missing_target',
+        message: 'Target user ID is required',
+      });
+    }
+
+    const result = await muteUser(userId, targetUserId);
+
+    if (!result.success) {
+      return res.status(BLOCK_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to mute user',
+      });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    logger.error('Error in muteUserController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to mute user',
+    });
+  }
+}
+
+/**
+ * DELETE /users/me/mutes/:userId
+ *
+ * Unmute a user
+ */
+export async function unmuteUserController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await unmuteUser(userId, req.params.userId);
+
+    if (!result.success) {
+      return res.status(BLOCK_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to unmute user',
+      });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error: any) {
+    logger.error('Error in unmuteUserController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to unmute user',
+    });
+  }
+}
+
+/**
+ * GET /users/me/mutes
+ *
+ * Accounts the user has muted (?limit)
+ */
+export async function listMutedUsersController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string, 10) || undefined;
+
+    const result = await listMutedUsers(userId, limit);
+
+    if (!result.success) {
+      return res.status(BLOCK_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to list muted users',
+      });
+    }
+
+    return res.status(200).json({ items: result.items });
+  } catch (error: any) {
+    logger.error('Error in listMutedUsersController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list muted users',
+    });
+  }
+}
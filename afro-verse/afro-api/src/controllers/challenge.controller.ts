@@ -0,0 +1,296 @@
+import { Request, Response } from 'express';
+import {
+  createChallenge,
+  cancelChallenge,
+  listTribeChallenges,
+  getChallenge,
+  enterChallenge,
+  getChallengeLeaderboard,
+  getChallengeFeed,
+} from '../services/challenge.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Challenge Controller
+ *
+ * Tribe challenges: scheduling, entries, leaderboard and feed.
+ */
+
+const CHALLENGE_ERROR_STATUS: Record<string, number> = {
+  invalid_user_id: 400,
+  invalid_tribe: 400,
+  invalid_title: 400,
+  invalid_description: 400,
+  invalid_hashtag: 400,
+  invalid_preset: 400,
+  invalid_window: 400,
+  forbidden: 403,
+  not_your_post: 403,
+  tribe_not_found: 404,
+  preset_not_found: 404,
+  challenge_not_found: 404,
+  post_not_found: 404,
+  challenge_overlap: 409,
+  challenge_closed: 409,
+  challenge_not_active: 409,
+  challenge_wrong_tribe: 409,
+  post_not_active: 409,
+  post_predates_challenge: 409,
+  already_entered: 409,
+  challenge_entry_limit: 429,
+};
+
+/**
+ * GET /challenges?tribe=<slug>
+ *
+ * A tribe's challenges, newest first
+ */
+export async function listChallengesController(req: Request, res: Response) {
+  try {
+    const tribe = req.query.tribe as string | undefined;
+
+    if (!tribe) {
+      return res.status(400).json({
+        error: 'missing_tribe',
+        message: 'tribe is required',
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string, 10) || 20;
+    const result = await listTribeChallenges(tribe, limit);
+
+    if (!result.success) {
+      return res.status(CHALLENGE_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to list challenges',
+      });
+    }
+
+    return res.status(200).json({
+      items: result.challenges,
+    });
+  } catch (error: any) {
+    logger.error('Error in listChallengesController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list challenges',
+    });
+  }
+}
+
+/**
+ * POST /challenges
+ *
+ * Schedule a challenge (admins and tribe leads)
+ * Body: { tribe, title, description?, hashtag, presetId?, startsAt, endsAt }
+ */
+export async function createChallengeController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await createChallenge(userId, req.body || {});
+
+    if (!result.success) {
+      return res.status(CHALLENGE_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to create challenge',
+      });
+    }
+
+    return res.status(201).json({
+      challenge: result.challenge,
+    });
+  } catch (error: any) {
+    logger.error('Error in createChallengeController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to create challenge',
+    });
+  }
+}
+
+/**
+ * GET /challenges/:id
+ *
+ * Challenge with phase, winners and viewer state
+ */
+export async function getChallengeController(req: Request, res: Response) {
+  try {
+    const result = await getChallenge(req.params.id, req.user?.id);
+
+    if (!result.success) {
+      return res.status(CHALLENGE_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to get challenge',
+      });
+    }
+
+    return res.status(200).json(result.challenge);
+  } catch (error: any) {
+    logger.error('Error in getChallengeController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get challenge',
+    });
+  }
+}
+
+/**
+ * POST /challenges/:id/cancel
+ *
+ * Cancel a challenge before its results (admins and tribe leads)
+ */
+export async function cancelChallengeController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await cancelChallenge(userId, req.params.id);
+
+    if (!result.success) {
+      return res.status(CHALLENGE_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to cancel challenge',
+      });
+    }
+
+    return res.status(200).json({
+      status: 'cancelled',
+    });
+  } catch (error: any) {
+    logger.error('Error in cancelChallengeController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to cancel challenge',
+    });
+  }
+}
+
+/**
+ * POST /challenges/:id/entries
+ *
+ * Enter one of your posts
+ * Body: { postId }
+ */
+export async function enterChallengeController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { postId } = req.body || {};
+
+    if (!postId || typeof postId !== 'string') {
+      return res.status(400).json({
+        error: 'missing_fields',
+        message: 'postId is required',
+      });
+    }
+
+    const result = await enterChallenge(userId, req.params.id, postId);
+
+    if (!result.success) {
+      return res.status(CHALLENGE_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to enter challenge',
+      });
+    }
+
+    return res.status(201).json({
+      status: 'entered',
+    });
+  } catch (error: any) {
+    logger.error('Error in enterChallengeController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to enter challenge',
+    });
+  }
+}
+
+/**
+ * GET /challenges/:id/leaderboard
+ *
+ * Entries ranked by respects received during the challenge
+ */
+export async function getLeaderboardController(req: Request, res: Response) {
+  try {
+    const result = await getChallengeLeaderboard(req.params.id, req.user?.id);
+
+    if (!result.success) {
+      return res.status(CHALLENGE_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to get leaderboard',
+      });
+    }
+
+    return res.status(200).json({
+      items: result.items,
+    });
+  } catch (error: any) {
+    logger.error('Error in getLeaderboardController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get leaderboard',
+    });
+  }
+}
+
+/**
+ * GET /challenges/:id/feed
+ *
+ * Challenge entries, newest first (?limit, ?cursor)
+ */
+export async function getChallengeFeedController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string, 10) || 10;
+    const cursor = req.query.cursor as string | undefined;
+
+    const result = await getChallengeFeed(req.params.id, userId, limit, cursor);
+
+    if (!result.success) {
+      return res.status(CHALLENGE_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to get challenge feed',
+      });
+    }
+
+    return res.status(200).json({
+      items: result.items,
+      nextCursor: result.nextCursor,
+    });
+  } catch (error: any) {
+    logger.error('Error in getChallengeFeedController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get challenge feed',
+    });
+  }
+}
@@ -0,0 +1,196 @@
+import { Request, Response } from 'express';
+import {
+  createComment,
+  listComments,
+  listReplies,
+  deleteComment as deleteCommentService,
+} from '../services/comment.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Comment Controller
+ *
+ * Handles comments and replies on posts.
+ */
+
+const listStatusMap: Record<string, number> = {
+  invalid_post_id: 400,
+  invalid_comment_id: 400,
+  post_not_found: 404,
+  post_not_active: 404,
+  comment_not_found: 404,
+};
+
+/**
+ * GET /posts/:id/comments
+ *
+ * List top-level comments (newest first, cursor paginated)
+ */
+export async function getComments(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const limit = parseInt(req.query.limit as string) || undefined;
+    const cursor = req.query.cursor as string;
+
+    const result = await listComments(id, req.user?.id, { limit, cursor });
+
+    if (!result.success) {
+      const status = listStatusMap[result.error || ''] || 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to get comments',
+      });
+    }
+
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in getComments controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get comments',
+    });
+  }
+}
+
+/**
+ * GET /posts/:id/comments/:commentId/replies
+ *
+ * List replies to a comment (oldest first, cursor paginated)
+ */
+export async function getReplies(req: Request, res: Response) {
+  try {
+    const { id, commentId } = req.params;
+    const limit = parseInt(req.query.limit as string) || undefined;
+    const cursor = req.query.cursor as string;
+
+    const result = await listReplies(id, commentId, req.user?.id, { limit, cursor });
+
+    if (!result.success) {
+      const status = listStatusMap[result.error || ''] || 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to get replies',
+      });
+    }
+
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in getReplies controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get replies',
+    });
+  }
+}
+
+/**
+ * POST /posts/:id/comments
+ *
+ * Add a comment, or a reply when parentId is set
+ */
+export async function postComment(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { body, parentId } = req.body;
+
+    if (typeof body !== 'string') {
+      return res.status(400).json({
+        error: 'missing_fields',
+        message: 'body is required',
+      });
+    }
+
+    const result = await createComment({
+      postId: id,
+      userId,
+      body,
+      parentId,
+    });
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_post_id: 400,
+        invalid_user_id: 400,
+        invalid_parent_id: 400,
+        empty_comment: 400,
+        comment_too_long: 400,
+        unsafe_content: 400,
+        post_not_found: 404,
+        post_not_active: 403,
+        parent_not_found: 404,
+        blocked: 403,
+      };
+
+      const status = statusMap[result.error || ''] || 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to add comment',
+      });
+    }
+
+    return res.status(201).json(result.comment);
+  } catch (error: any) {
+    logger.error('Error in postComment controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to add comment',
+    });
+  }
+}
+
+/**
+ * DELETE /posts/:id/comments/:commentId
+ *
+ * Soft delete a comment (author or post owner)
+ */
+export async function deleteComment(req: Request, res: Response) {
+  try {
+    const { id, commentId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await deleteCommentService(id, commentId, userId);
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        comment_not_found: 404,
+        forbidden: 403,
+      };
+
+      const status = statusMap[result.error || ''] || 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to delete comment',
+      });
+    }
+
+    return res.status(200).json({
+      message: 'Comment deleted',
+    });
+  } catch (error: any) {
+    logger.error('Error in deleteComment controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to delete comment',
+    });
+  }
+}
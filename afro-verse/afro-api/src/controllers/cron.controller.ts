@@ -2,7 +2,12 @@ import { Request, Response } from 'express';
 import { findGenerationsNeedingRetry } from '../services/generationJob.service';
 import { Generation } from '../models/Generation';
 import { logger } from '../utils/logger';
-import { env as config } from '../config/env';
+import { enqueueGenerationTask } from '../services/tasks.service';
+import { recomputeHotScores } from '../services/ranking.service';
+import { runAccountSweep } from '../services/account.service';
+import { finalizeEndedChallenges } from '../services/challenge.service';
+import { captureTribeSnapshots } from '../services/tribeStats.service';
+import { repairTribeCounters } from '../services/tribe.service';
 
 /**
  * Cron Controller (Vercel Cron)
@@ -10,6 +15,16 @@ import { env as config } from '../config/env';
  * Handles scheduled retry/recovery tasks.
  */
 
+/**
+ * Verify cron auth (Vercel sends a special header)
+ */
+function isAuthorizedCron(req: Request): boolean {
+  const authHeader = req.headers.authorization;
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET || 'dev-secret'}`;
+  
+  return authHeader === expectedAuth;
+}
+
 /**
  * GET /cron/generation-retry
  * 
@@ -21,11 +36,8 @@ export async function generationRetry(req: Request, res: Response) {
   const startTime = Date.now();
   
   try {
-    // Verify cron auth (Vercel sends a special header)
-    const authHeader = req.headers.authorization;
-    const expectedAuth = `Bearer ${process.env.CRON_SECRET || 'dev-secret'}`;
-    
-    if (authHeader !== expectedAuth) {
+    // Verify cron auth
+    if (!isAuthorizedCron(req)) {
       logger.warn('Unauthorized cron request', {
         ip: req.ip,
         headers: req.headers,
@@ -69,24 +81,11 @@ export async function generationRetry(req: Request, res: Response) {
         const nextVersionNum = generation.versions.length + 1;
         const requestedVersionId = `v${nextVersionNum}`;
         
-        // Fire background job (don't await)
-        const jobUrl = `${config.API_URL || 'http://localhost:3001'}/api/jobs/generation`;
-        
-        fetch(jobUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            generationId,
-            requestedVersionId,
-            type: 'initial',
-          }),
-        }).catch((error) => {
-          logger.error('Failed to trigger job', {
-            generationId,
-            error: error.message,
-          });
+        // Enqueue job (deduped if one is already in flight)
+        await enqueueGenerationTask({
+          generationId,
+          requestedVersionId,
+          type: 'initial',
         });
         
         triggered++;
@@ -131,3 +130,182 @@ export async function generationRetry(req: Request, res: Response) {
   }
 }
 
+/**
+ * GET /cron/hot-scores
+ * 
+ * Recompute hot scores for recent posts.
+ * 
+ * Run every 15 minutes via Vercel Cron.
+ */
+export async function hotScoreRecompute(req: Request, res: Response) {
+  const startTime = Date.now();
+  
+  try {
+    // Verify cron auth
+    if (!isAuthorizedCron(req)) {
+      logger.warn('Unauthorized cron request', {
+        ip: req.ip,
+      });
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Invalid cron authorization',
+      });
+    }
+    
+    logger.info('Cron: hot-scores started');
+    
+    const result = await recomputeHotScores();
+    
+    return res.status(200).json({
+      ...result,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error('Cron: hot-scores failed', {
+      error: error.message,
+      stack: error.stack,
+    });
+    
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Cron job failed',
+      duration: Date.now() - startTime,
+    });
+  }
+}
+
+/**
+ * GET /cron/account-sweep
+ * 
+ * Purge accounts past their deletion grace period and delete expired
+ * export archives.
+ * 
+ * Run hourly via Vercel Cron.
+ */
+export async function accountSweep(req: Request, res: Response) {
+  const startTime = Date.now();
+  
+  try {
+    // Verify cron auth
+    if (!isAuthorizedCron(req)) {
+      logger.warn('Unauthorized cron request', {
+        ip: req.ip,
+      });
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Invalid cron authorization',
+      });
+    }
+    
+    logger.info('Cron: account-sweep started');
+    
+    const result = await runAccountSweep();
+    
+    return res.status(200).json({
+      ...result,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error('Cron: account-sweep failed', {
+      error: error.message,
+      stack: error.stack,
+    });
+    
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Cron job failed',
+      duration: Date.now() - startTime,
+    });
+  }
+}
+
+/**
+ * GET /cron/challenge-results
+ * 
+ * Crown winners of challenges that have ended.
+ * 
+ * Run every 5 minutes via Vercel Cron.
+ */
+export async function challengeResults(req: Request, res: Response) {
+  const startTime = Date.now();
+  
+  try {
+    // Verify cron auth
+    if (!isAuthorizedCron(req)) {
+      logger.warn('Unauthorized cron request', {
+        ip: req.ip,
+      });
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Invalid cron authorization',
+      });
+    }
+    
+    logger.info('Cron: challenge-results started');
+    
+    const result = await finalizeEndedChallenges();
+    
+    return res.status(200).json({
+      ...result,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error('Cron: challenge-results failed', {
+      error: error.message,
+      stack: error.stack,
+    });
+    
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Cron job failed',
+      duration: Date.now() - startTime,
+    });
+  }
+}
+
+/**
+ * GET /cron/tribe-stats
+ * 
+ * Capture yesterday's tribe snapshots, then repair tribe counters
+ * (which reconciles recent snapshots).
+ * 
+ * Run daily via Vercel Cron.
+ */
+export async function tribeStats(req: Request, res: Response) {
+  const startTime = Date.now();
+  
+  try {
+    // Verify cron auth
+    if (!isAuthorizedCron(req)) {
+      logger.warn('Unauthorized cron request', {
+        ip: req.ip,
+      });
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Invalid cron authorization',
+      });
+    }
+    
+    logger.info('Cron: tribe-stats started');
+    
+    const capture = await captureTribeSnapshots();
+    const repair = await repairTribeCounters();
+    
+    return res.status(200).json({
+      capture,
+      repair,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error('Cron: tribe-stats failed', {
+      error: error.message,
+      stack: error.stack,
+    });
+    
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Cron job failed',
+      duration: Date.now() - startTime,
+    });
+  }
+}
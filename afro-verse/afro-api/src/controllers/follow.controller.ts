@@ -39,6 +39,7 @@ export async function handleFollow(req: Request, res: Response) {
         invalid_user_id: 400,
         cannot_follow_self: 400,
         user_not_found: 404,
+        blocked: 403,
       };
 
       const status = statusMap[result.error || ''] || 500;
@@ -200,6 +201,7 @@ function getErrorMessage(errorCode: string): string {
     invalid_user_id: 'Invalid user ID',
     cannot_follow_self: 'Cannot follow yourself',
     user_not_found: 'User not found',
+    blocked: 'You cannot follow this user',
     internal_error: 'An error occurred',
   };
 
@@ -6,7 +6,7 @@ import {
   getGeneration,
   getUserGenerations,
 } from '../services/generation.service';
-import { getBucket } from '../config/storage';
+import { generateSignedUrl } from '../services/storage.service';
 import { BUCKETS } from '../config/buckets';
 import { logger } from '../utils/logger';
 import { cacheService } from '../config/redis';
@@ -82,7 +82,9 @@ export async function handleCreateGeneration(req: Request, res: Response) {
     });
     
     if (!result.success) {
-      const statusCode = result.errorCode === 'concurrent_limit' ? 429 : 400;
+      const statusCode =
+        result.errorCode === 'concurrent_limit' ? 429 :
+        result.errorCode === 'blocked' ? 403 : 400;
       
       return res.status(statusCode).json({
         error: result.errorCode,
@@ -175,7 +177,6 @@ export async function handleGetGeneration(req: Request, res: Response) {
     
     // Generate signed URLs for completed versions with caching
     // Use RAW_GENERATIONS bucket where the images are stored
-    const bucket = getBucket(BUCKETS.RAW_GENERATIONS);
     logger.info('Generating signed URLs for versions', {
       generationId: id,
       versionCount: generation.versions.length,
@@ -194,25 +195,23 @@ export async function handleGetGeneration(req: Request, res: Response) {
         // Generate new URLs if not cached
         if (!imageUrl) {
           logger.info('Generating signed URL for image', { imagePath: version.imagePath });
-          const imageFile = bucket.file(version.imagePath);
-          [imageUrl] = await imageFile.getSignedUrl({
-            version: 'v4',
-            action: 'read',
-            expires: Date.now() + 30 * 60 * 1000, // 30 minutes
-          });
-          // Cache for 25 minutes (less than URL expiry)
-          await cacheService.set(imageCacheKey, imageUrl, 25 * 60);
-          logger.info('Generated signed URL', { imageUrl: imageUrl.substring(0, 100) + '...' });
+          const signed = await generateSignedUrl(BUCKETS.RAW_GENERATIONS, version.imagePath, 30 * 60); // 30 minutes
+          imageUrl = signed.url || null;
+          
+          if (imageUrl) {
+            // Cache for 25 minutes (less than URL expiry)
+            await cacheService.set(imageCacheKey, imageUrl, 25 * 60);
+            logger.info('Generated signed URL', { imageUrl: imageUrl.substring(0, 100) + '...' });
+          }
         }
         
         if (!thumbUrl) {
-          const thumbFile = bucket.file(version.thumbPath);
-          [thumbUrl] = await thumbFile.getSignedUrl({
-            version: 'v4',
-            action: 'read',
-            expires: Date.now() + 30 * 60 * 1000,
-          });
-          await cacheService.set(thumbCacheKey, thumbUrl, 25 * 60);
+          const signed = await generateSignedUrl(BUCKETS.RAW_GENERATIONS, version.thumbPath, 30 * 60);
+          thumbUrl = signed.url || null;
+          
+          if (thumbUrl) {
+            await cacheService.set(thumbCacheKey, thumbUrl, 25 * 60);
+          }
         }
         
         const versionWithUrl = {
@@ -247,6 +246,9 @@ export async function handleGetGeneration(req: Request, res: Response) {
       id: generation._id,
       status: generation.status,
       mode: generation.source.mode,
+      preset: generation.style.presetId
+        ? { id: generation.style.presetId, version: generation.style.presetVersion || null }
+        : null,
       versions: versionsWithUrls,
       error: generation.error,
       timing: {
@@ -3,6 +3,7 @@ import {
   executeGeneration,
   ExecuteGenerationParams,
 } from '../services/generationJob.service';
+import { buildAccountExport } from '../services/account.service';
 import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -101,9 +102,42 @@ export async function executeGenerationJob(req: Request, res: Response) {
   }
 }
 
-
-
-
-
-
-
+/**
+ * POST /jobs/account-export
+ * 
+ * Build a requested account export (idempotent: only queued exports are built)
+ */
+export async function executeAccountExportJob(req: Request, res: Response) {
+  const startTime = Date.now();
+  
+  try {
+    const { exportId } = req.body;
+    
+    if (!exportId) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        message: 'exportId is required',
+      });
+    }
+    
+    const result = await buildAccountExport(exportId);
+    
+    // Always return 200 (failures are recorded on the export)
+    return res.status(200).json({
+      success: result.success,
+      skipped: result.skipped,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    logger.error('Unexpected error in account export job', {
+      error: error.message,
+      stack: error.stack,
+    });
+    
+    return res.status(200).json({
+      success: false,
+      error: 'internal_error',
+      duration: Date.now() - startTime,
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { listRemixes, getLineage } from '../services/lineage.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Lineage Controller
+ *
+ * Remix lineage of try-style posts.
+ */
+
+const statusMap: Record<string, number> = {
+  invalid_post_id: 400,
+  post_not_found: 404,
+};
+
+/**
+ * GET /posts/:id/remixes
+ *
+ * Remixes of a post (newest first, cursor paginated).
+ * ?direct=true lists only remixes of this post, not of its remixes.
+ */
+export async function getRemixes(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const limit = parseInt(req.query.limit as string) || undefined;
+    const cursor = req.query.cursor as string;
+    const direct = req.query.direct === 'true';
+
+    const result = await listRemixes(id, { limit, cursor, direct }, req.user?.id);
+
+    if (!result.success) {
+      const status = statusMap[result.error || ''] || 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to get remixes',
+      });
+    }
+
+    return res.status(200).json(result.page);
+  } catch (error: any) {
+    logger.error('Error in getRemixes controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get remixes',
+    });
+  }
+}
+
+/**
+ * GET /posts/:id/lineage
+ *
+ * Ancestor chain of a post (root first, parent last)
+ */
+export async function getPostLineage(req: Request, res: Response) {
+  try {
+    const result = await getLineage(req.params.id, req.user?.id);
+
+    if (!result.success) {
+      const status = statusMap[result.error || ''] || 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to get lineage',
+      });
+    }
+
+    return res.status(200).json(result.lineage);
+  } catch (error: any) {
+    logger.error('Error in getPostLineage controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get lineage',
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import {
+  listNotifications,
+  getUnreadCount,
+  markNotificationsRead,
+} from '../services/notification.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Notification Controller
+ *
+ * Handles the in-app activity feed and read state.
+ */
+
+/**
+ * GET /notifications
+ *
+ * List notifications (most recent activity first, cursor paginated)
+ */
+export async function getNotifications(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string) || undefined;
+    const cursor = req.query.cursor as string;
+
+    const result = await listNotifications(userId, { limit, cursor });
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    logger.error('Error in getNotifications controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get notifications',
+    });
+  }
+}
+
+/**
+ * GET /notifications/unread-count
+ *
+ * Unread count for the nav badge
+ */
+export async function getNotificationUnreadCount(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const count = await getUnreadCount(userId);
+
+    return res.status(200).json({ count });
+  } catch (error: any) {
+    logger.error('Error in getNotificationUnreadCount controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get unread count',
+    });
+  }
+}
+
+/**
+ * POST /notifications/read
+ *
+ * Mark notifications as read (body.ids, or all when omitted)
+ */
+export async function readNotifications(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { ids } = req.body;
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return res.status(400).json({
+        error: 'invalid_ids',
+        message: 'ids must be an array',
+      });
+    }
+
+    const result = await markNotificationsRead(userId, ids);
+
+    if (!result.success) {
+      return res.status(400).json({
+        error: result.error,
+        message: 'Failed to mark notifications as read',
+      });
+    }
+
+    return res.status(200).json({
+      updated: result.updated,
+    });
+  } catch (error: any) {
+    logger.error('Error in readNotifications controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to mark notifications as read',
+    });
+  }
+}
@@ -39,6 +39,7 @@ export async function createPost(req: Request, res: Response) {
       versionId,
       caption,
       visibility,
+      challengeId,
     } = req.body;
     
     // Validate required fields
@@ -59,6 +60,7 @@ export async function createPost(req: Request, res: Response) {
       versionId,
       caption,
       visibility,
+      challengeId: typeof challengeId === 'string' ? challengeId : undefined,
       idempotencyKey,
     });
     
@@ -75,6 +77,12 @@ export async function createPost(req: Request, res: Response) {
         user_not_found: 404,
         tribe_required: 400,
         invalid_visibility: 400,
+        duplicate_post: 409,
+        duplicate_spam: 429,
+        challenge_not_found: 404,
+        challenge_not_active: 409,
+        challenge_wrong_tribe: 409,
+        challenge_entry_limit: 429,
       };
       
       const status = statusMap[result.error || ''] || 500;
@@ -87,6 +95,8 @@ export async function createPost(req: Request, res: Response) {
     
     return res.status(201).json({
       postId: result.postId,
+      flagged: result.flagged || false,
+      challengeEntered: result.challengeEntered || false,
     });
   } catch (error: any) {
     logger.error('Error in createPost controller', error);
@@ -137,7 +147,7 @@ export async function getUserPosts(req: Request, res: Response) {
     const limit = parseInt(req.query.limit as string) || 20;
     const cursor = req.query.cursor as string;
     
-    const result = await getUserPostsService(username, limit, cursor);
+    const result = await getUserPostsService(username, limit, cursor, req.user?.id);
     
     // Check if user was not found
     if (result.userNotFound) {
@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import { listPublicPresets } from '../services/stylePreset.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Preset Controller
+ *
+ * Public style preset catalog for the create screen.
+ */
+
+/**
+ * GET /presets
+ *
+ * Enabled style presets. Presets curated for a tribe come first and
+ * are only shown to that tribe: ?tribe=<slug>, else the caller's tribe.
+ */
+export async function getPresets(req: Request, res: Response) {
+  try {
+    const tribeSlug = typeof req.query.tribe === 'string' ? req.query.tribe : undefined;
+
+    const result = await listPublicPresets({
+      tribeSlug,
+      tribeId: req.user?.tribeId ? req.user.tribeId.toString() : null,
+    });
+
+    if (!result.success) {
+      const status = result.error === 'tribe_not_found' ? 404 : 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to load presets',
+      });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=60');
+
+    return res.status(200).json({
+      presets: result.presets,
+    });
+  } catch (error: any) {
+    logger.error('Error in getPresets controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to load presets',
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import { verifyProvenance } from '../services/provenance.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Provenance Controller
+ *
+ * Public verification of the provenance manifests embedded in our images,
+ * for partners and regulators.
+ */
+
+/**
+ * POST /provenance/verify
+ *
+ * Upload an image (multipart field "file"). Reports whether it carries a
+ * manifest, whether the signature and content hash check out, whether we
+ * signed it, and the recorded claim.
+ */
+export async function verifyProvenanceController(req: Request, res: Response) {
+  try {
+    const file = (req as any).file;
+
+    if (!file) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        message: 'File is required',
+      });
+    }
+
+    const result = await verifyProvenance(file.buffer);
+
+    if (!result.success) {
+      const status = result.error === 'unsupported_format' ? 415 : 500;
+
+      return res.status(status).json({
+        error: result.error,
+        message: result.error === 'unsupported_format'
+          ? 'Manifests are embedded in JPEG and WebP images only'
+          : 'Failed to verify provenance',
+      });
+    }
+
+    return res.status(200).json(result.verification);
+  } catch (error: any) {
+    logger.error('Error in verifyProvenanceController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to verify provenance',
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import {
+  getPushSettings,
+  saveSubscription,
+  removeSubscription,
+  updatePushPreferences,
+} from '../services/push.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Push Controller
+ *
+ * Handles Web Push subscriptions and per-category preferences.
+ */
+
+/**
+ * GET /notifications/push
+ *
+ * VAPID public key, preferences and registered device count
+ */
+export async function getPushSettingsController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const settings = await getPushSettings(userId);
+
+    return res.status(200).json(settings);
+  } catch (error: any) {
+    logger.error('Error in getPushSettings controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get push settings',
+    });
+  }
+}
+
+/**
+ * POST /notifications/push/subscriptions
+ *
+ * Register this device (body: PushSubscription.toJSON())
+ */
+export async function subscribePush(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { endpoint, keys, expirationTime } = req.body;
+
+    const result = await saveSubscription(userId, {
+      endpoint,
+      keys,
+      expirationTime,
+      userAgent: req.get('user-agent'),
+    });
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        push_disabled: 503,
+        invalid_subscription: 400,
+      };
+
+      const messages: Record<string, string> = {
+        push_disabled: 'Push notifications are not available',
+        invalid_subscription: 'Invalid push subscription',
+      };
+
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: messages[result.error || ''] || 'Failed to save subscription',
+      });
+    }
+
+    return res.status(201).json({ subscribed: true });
+  } catch (error: any) {
+    logger.error('Error in subscribePush controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to save subscription',
+    });
+  }
+}
+
+/**
+ * DELETE /notifications/push/subscriptions
+ *
+ * Unregister a device (body.endpoint)
+ */
+export async function unsubscribePush(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { endpoint } = req.body;
+
+    if (!endpoint || typeof endpoint !== 'string') {
+      return res.status(400).json({
+        error: 'invalid_endpoint',
+        message: 'endpoint is required',
+      });
+    }
+
+    const result = await removeSubscription(userId, endpoint);
+
+    return res.status(200).json({ removed: result.removed });
+  } catch (error: any) {
+    logger.error('Error in unsubscribePush controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to remove subscription',
+    });
+  }
+}
+
+/**
+ * PATCH /notifications/push/preferences
+ *
+ * Toggle categories (body: { generation?, follow?, respect? })
+ */
+export async function updatePushPreferencesController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const result = await updatePushPreferences(userId, req.body);
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_preferences: 400,
+        user_not_found: 404,
+      };
+
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to update push preferences',
+      });
+    }
+
+    return res.status(200).json({ preferences: result.preferences });
+  } catch (error: any) {
+    logger.error('Error in updatePushPreferences controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to update push preferences',
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { createReport } from '../services/report.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Report Controller
+ *
+ * Handles user reports of posts, captions and profiles.
+ */
+
+/**
+ * POST /reports
+ *
+ * Report content (body: targetType, targetId, reason, details?)
+ */
+export async function postReport(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const { targetType, targetId, reason, details } = req.body;
+
+    if (details !== undefined && typeof details !== 'string') {
+      return res.status(400).json({
+        error: 'invalid_details',
+        message: 'details must be a string',
+      });
+    }
+
+    const result = await createReport(userId, { targetType, targetId, reason, details });
+
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_target_type: 400,
+        invalid_target_id: 400,
+        invalid_reason: 400,
+        details_too_long: 400,
+        cannot_report_self: 400,
+        target_not_found: 404,
+        user_not_found: 404,
+      };
+
+      return res.status(statusMap[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to submit report',
+      });
+    }
+
+    return res.status(result.duplicate ? 200 : 201).json({
+      reportId: result.reportId || null,
+      duplicate: !!result.duplicate,
+    });
+  } catch (error: any) {
+    logger.error('Error in postReport controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to submit report',
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { search, SearchType } from '../services/search.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Search Controller
+ *
+ * Search across users, tribes, posts and tags.
+ */
+
+const SEARCH_ERROR_STATUS: Record<string, number> = {
+  invalid_query: 400,
+  invalid_type: 400,
+  invalid_user_id: 400,
+};
+
+/**
+ * GET /search
+ *
+ * Search (?q, ?type=all|users|tribes|posts|tags, default all).
+ * Single-type searches page with ?limit and ?cursor.
+ */
+export async function searchController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const q = (req.query.q as string) || '';
+    const type = ((req.query.type as string) || 'all') as SearchType;
+    const limit = parseInt(req.query.limit as string, 10) || 20;
+    const cursor = req.query.cursor as string | undefined;
+
+    const result = await search(userId, q, type, limit, cursor);
+
+    if (!result.success) {
+      return res.status(SEARCH_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to search',
+      });
+    }
+
+    return res.status(200).json({
+      q: q.trim(),
+      type,
+      ...result.results,
+    });
+  } catch (error: any) {
+    logger.error('Error in searchController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to search',
+    });
+  }
+}
@@ -0,0 +1,162 @@
+import express, { Request, Response } from 'express';
+import fs from 'fs';
+import { storageConfig } from '../config/storage';
+import { BUCKET_CONFIGS } from '../config/buckets';
+import {
+  readObjectInfo,
+  verifyRequestSignature,
+  SignedRequestParams,
+} from '../storage/local';
+import { uploadBuffer } from '../services/storage.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage Controller
+ *
+ * Serves the local-disk storage backend over HTTP:
+ * - GET reads public objects, or private ones with a signed URL
+ * - PUT writes objects with a signed upload URL
+ *
+ * Only mounted when STORAGE_BACKEND=local.
+ */
+
+export const rawBodyMiddleware = express.raw({
+  type: () => true,
+  limit: storageConfig.local.maxUploadBytes,
+});
+
+/**
+ * Build signed request params from the route + query string
+ */
+function getSignedParams(req: Request, action: 'read' | 'write'): SignedRequestParams {
+  const maxSize = req.query.maxSize ? parseInt(String(req.query.maxSize), 10) : undefined;
+
+  return {
+    action,
+    bucket: req.params.bucket,
+    path: req.params[0],
+    expires: parseInt(String(req.query.expires || ''), 10),
+    contentType: req.query.contentType ? String(req.query.contentType) : undefined,
+    maxSizeBytes: maxSize,
+  };
+}
+
+/**
+ * GET /storage/:bucket/*
+ *
+ * Read an object
+ */
+export async function handleReadObject(req: Request, res: Response) {
+  try {
+    const { bucket } = req.params;
+    const objectPath = req.params[0];
+
+    const info = await readObjectInfo(bucket, objectPath);
+
+    if (!info) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Object not found',
+      });
+    }
+
+    // Public buckets (transformations, derivatives) behave like a CDN
+    const isPublic = !!info.sidecar.public || !!BUCKET_CONFIGS[bucket]?.public;
+
+    if (!isPublic) {
+      const params = getSignedParams(req, 'read');
+
+      if (req.query.action !== 'read' || !verifyRequestSignature(params, String(req.query.signature || ''))) {
+        return res.status(403).json({
+          error: 'invalid_signature',
+          message: 'Signed URL is invalid or expired',
+        });
+      }
+    }
+
+    res.setHeader('Content-Type', info.sidecar.contentType || 'application/octet-stream');
+    res.setHeader('Content-Length', info.size);
+    res.setHeader('Cache-Control', isPublic
+      ? info.sidecar.cacheControl || 'public, max-age=3600'
+      : 'private, no-store');
+
+    fs.createReadStream(info.filePath).pipe(res);
+  } catch (error: any) {
+    if (error.code === 'invalid_path') {
+      return res.status(400).json({
+        error: 'invalid_path',
+        message: error.message,
+      });
+    }
+
+    logger.error('Error in handleReadObject', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to read object',
+    });
+  }
+}
+
+/**
+ * PUT /storage/:bucket/*
+ *
+ * Write an object via signed upload URL
+ */
+export async function handleWriteObject(req: Request, res: Response) {
+  try {
+    const params = getSignedParams(req, 'write');
+
+    if (req.query.action !== 'write' || !verifyRequestSignature(params, String(req.query.signature || ''))) {
+      return res.status(403).json({
+        error: 'invalid_signature',
+        message: 'Signed URL is invalid or expired',
+      });
+    }
+
+    const contentType = req.headers['content-type'] || 'application/octet-stream';
+
+    if (params.contentType && contentType !== params.contentType) {
+      return res.status(400).json({
+        error: 'content_type_mismatch',
+        message: 'Content-Type does not match signed URL',
+      });
+    }
+
+    const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+    if (params.maxSizeBytes && body.length > params.maxSizeBytes) {
+      return res.status(413).json({
+        error: 'file_too_large',
+        message: 'Upload exceeds signed size limit',
+      });
+    }
+
+    const result = await uploadBuffer(params.bucket, params.path, body, {
+      contentType,
+    });
+
+    if (!result.success) {
+      return res.status(500).json({
+        error: 'upload_failed',
+        message: result.error || 'Failed to store object',
+      });
+    }
+
+    return res.status(200).json({
+      message: 'Object stored successfully',
+    });
+  } catch (error: any) {
+    if (error.code === 'invalid_path') {
+      return res.status(400).json({
+        error: 'invalid_path',
+        message: error.message,
+      });
+    }
+
+    logger.error('Error in handleWriteObject', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to write object',
+    });
+  }
+}
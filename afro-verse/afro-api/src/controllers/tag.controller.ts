@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { getTagPosts, getTrendingTags, TrendingWindow } from '../services/tag.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Tag Controller
+ *
+ * Hashtag and style-tag discovery.
+ */
+
+const TAG_ERROR_STATUS: Record<string, number> = {
+  invalid_tag: 400,
+  invalid_window: 400,
+  invalid_user_id: 400,
+  tag_not_found: 404,
+};
+
+/**
+ * GET /tags/trending
+ *
+ * Trending tags (?window=24h|7d, default 24h)
+ */
+export async function getTrendingTagsController(req: Request, res: Response) {
+  try {
+    const window = ((req.query.window as string) || '24h') as TrendingWindow;
+
+    const result = await getTrendingTags(window);
+
+    if (!result.success) {
+      return res.status(TAG_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to get trending tags',
+      });
+    }
+
+    return res.status(200).json({
+      window,
+      items: result.items,
+    });
+  } catch (error: any) {
+    logger.error('Error in getTrendingTagsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get trending tags',
+    });
+  }
+}
+
+/**
+ * GET /tags/:tag/posts
+ *
+ * Posts with a tag, newest first (?limit, ?cursor)
+ */
+export async function getTagPostsController(req: Request, res: Response) {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string, 10) || 12;
+    const cursor = req.query.cursor as string | undefined;
+
+    const result = await getTagPosts(req.params.tag, userId, limit, cursor);
+
+    if (!result.success) {
+      return res.status(TAG_ERROR_STATUS[result.error || ''] || 500).json({
+        error: result.error,
+        message: 'Failed to get tag posts',
+      });
+    }
+
+    return res.status(200).json({
+      tag: result.tag,
+      items: result.items,
+      nextCursor: result.nextCursor,
+    });
+  } catch (error: any) {
+    logger.error('Error in getTagPostsController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get tag posts',
+    });
+  }
+}
@@ -3,9 +3,16 @@ import {
   getAllTribes,
   getTribeBySlug,
   joinTribe,
+  switchTribe,
   getTribePosts as getTribePostsService,
   getTribeMembers as getTribeMembersService,
 } from '../services/tribe.service';
+import {
+  getTribeLeaderboard as getTribeLeaderboardService,
+  getTribeStats as getTribeStatsService,
+  LeaderboardWindow,
+  LeaderboardMetric,
+} from '../services/tribeStats.service';
 import { logger } from '../utils/logger';
 
 /**
@@ -124,6 +131,70 @@ export async function joinTribeController(req: Request, res: Response) {
   }
 }
 
+/**
+ * POST /tribes/:slug/switch
+ * 
+ * Switch to another tribe (cooldown applies)
+ * Body: { movePosts: boolean }
+ */
+export async function switchTribeController(req: Request, res: Response) {
+  try {
+    const { slug } = req.params;
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Authentication required',
+      });
+    }
+    
+    const { movePosts } = req.body || {};
+    
+    if (typeof movePosts !== 'boolean') {
+      return res.status(400).json({
+        error: 'invalid_request',
+        message: 'movePosts must be true or false',
+      });
+    }
+    
+    const result = await switchTribe(userId, slug, movePosts);
+    
+    if (!result.success) {
+      const statusMap: Record<string, number> = {
+        invalid_user_id: 400,
+        user_not_found: 404,
+        tribe_not_selected: 400,
+        tribe_not_found: 404,
+        already_member: 409,
+        switch_cooldown: 429,
+        switch_conflict: 409,
+      };
+      
+      const status = statusMap[result.error || ''] || 500;
+      
+      return res.status(status).json({
+        error: result.error,
+        message: getErrorMessage(result.error || ''),
+        ...(result.availableAt ? { availableAt: result.availableAt } : {}),
+      });
+    }
+    
+    return res.status(200).json({
+      status: 'switched',
+      tribe: result.tribe,
+      fromTribeId: result.fromTribeId,
+      postsMoved: result.postsMoved,
+    });
+  } catch (error: any) {
+    logger.error('Error in switchTribeController', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to switch tribe',
+    });
+  }
+}
+
 /**
  * GET /tribes/:slug/posts
  * 
@@ -176,7 +247,7 @@ export async function getTribeMembers(req: Request, res: Response) {
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
     const cursor = req.query.cursor as string;
     
-    const result = await getTribeMembersService(slug, limit, cursor);
+    const result = await getTribeMembersService(slug, limit, cursor, userId);
     
     return res.status(200).json(result);
   } catch (error: any) {
@@ -236,6 +307,10 @@ function getErrorMessage(errorCode: string): string {
     user_not_found: 'User not found',
     tribe_already_selected: 'Tribe already chosen',
     tribe_not_found: 'Tribe not found',
+    tribe_not_selected: 'Join a tribe first',
+    already_member: 'Already in this tribe',
+    switch_cooldown: 'You switched tribes recently',
+    switch_conflict: 'Your tribe changed, please try again',
     forbidden: 'Action not allowed',
     unauthorized: 'Authentication required',
   };
@@ -243,3 +318,68 @@ function getErrorMessage(errorCode: string): string {
   return messages[errorCode] || 'An error occurred';
 }
 
+/**
+ * GET /tribes/leaderboard
+ * 
+ * Tribe-vs-tribe leaderboard from daily snapshots
+ * Query: ?window=week|month (default week), ?metric=respects|posts|creators|growth (default respects)
+ */
+export async function getTribeLeaderboard(req: Request, res: Response) {
+  try {
+    const window = ((req.query.window as string) || 'week') as LeaderboardWindow;
+    const metric = ((req.query.metric as string) || 'respects') as LeaderboardMetric;
+    
+    const result = await getTribeLeaderboardService(window, metric);
+    
+    if (!result.success) {
+      const status = result.error === 'invalid_window' || result.error === 'invalid_metric' ? 400 : 500;
+      return res.status(status).json({
+        error: result.error,
+        message: 'Failed to get tribe leaderboard',
+      });
+    }
+    
+    return res.status(200).json({
+      window,
+      metric,
+      windowStart: result.windowStart,
+      windowEnd: result.windowEnd,
+      items: result.items,
+    });
+  } catch (error: any) {
+    logger.error('Error in getTribeLeaderboard controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get tribe leaderboard',
+    });
+  }
+}
+
+/**
+ * GET /tribes/:slug/stats
+ * 
+ * Daily stats time series (?days, default 30, max 90)
+ */
+export async function getTribeStats(req: Request, res: Response) {
+  try {
+    const { slug } = req.params;
+    const days = parseInt(req.query.days as string, 10) || undefined;
+    
+    const result = await getTribeStatsService(slug, days);
+    
+    if (!result.success) {
+      return res.status(result.error === 'tribe_not_found' ? 404 : 500).json({
+        error: result.error,
+        message: 'Failed to get tribe stats',
+      });
+    }
+    
+    return res.status(200).json(result.stats);
+  } catch (error: any) {
+    logger.error('Error in getTribeStats controller', error);
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get tribe stats',
+    });
+  }
+}
@@ -43,8 +43,8 @@ export async function handleProcessGeneration(req: Request, res: Response) {
       });
       
       // Return 500 so Cloud Tasks retries (if retriable error)
-      // For non-retriable errors (like BLOCKED), we already marked as failed
-      if (result.error === 'BLOCKED') {
+      // For non-retriable errors (like blocked), we already marked as failed
+      if (result.errorCode === 'blocked') {
         return res.status(200).json({
           message: 'Generation blocked (non-retriable)',
         });
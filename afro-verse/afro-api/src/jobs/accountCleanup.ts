@@ -0,0 +1,25 @@
+import { runAccountSweep } from '../services/account.service';
+import { securityConfig } from '../config/security';
+import { logger } from '../utils/logger';
+
+/**
+ * Account Cleanup Job
+ * 
+ * Periodically purges accounts past their deletion grace period and
+ * deletes expired export archives.
+ * 
+ * Serverless deployments use GET /api/cron/account-sweep instead.
+ */
+
+/**
+ * Schedule account sweep
+ */
+export function scheduleAccountJobs(): void {
+  setInterval(() => {
+    runAccountSweep();
+  }, securityConfig.account.sweepIntervalMs);
+  
+  logger.info('Account jobs scheduled', {
+    intervalMs: securityConfig.account.sweepIntervalMs,
+  });
+}
@@ -0,0 +1,24 @@
+import { finalizeEndedChallenges } from '../services/challenge.service';
+import { securityConfig } from '../config/security';
+import { logger } from '../utils/logger';
+
+/**
+ * Challenge Results Job
+ * 
+ * Periodically crowns the winners of challenges that have ended.
+ * 
+ * Serverless deployments use GET /api/cron/challenge-results instead.
+ */
+
+/**
+ * Schedule challenge results sweep
+ */
+export function scheduleChallengeJobs(): void {
+  setInterval(() => {
+    finalizeEndedChallenges();
+  }, securityConfig.challenges.finalizeIntervalMs);
+  
+  logger.info('Challenge jobs scheduled', {
+    intervalMs: securityConfig.challenges.finalizeIntervalMs,
+  });
+}
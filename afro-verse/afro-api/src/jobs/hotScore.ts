@@ -0,0 +1,25 @@
+import { recomputeHotScores } from '../services/ranking.service';
+import { rankingConfig } from '../config/ranking';
+import { logger } from '../utils/logger';
+
+/**
+ * Hot Score Job
+ * 
+ * Periodically recomputes Post.rank.hotScore so recency decay applies
+ * to posts without new respects/shares.
+ * 
+ * Serverless deployments use GET /api/cron/hot-scores instead.
+ */
+
+/**
+ * Schedule hot score recompute
+ */
+export function scheduleRankingJobs(): void {
+  setInterval(() => {
+    recomputeHotScores();
+  }, rankingConfig.recompute.intervalMs);
+  
+  logger.info('Ranking jobs scheduled', {
+    intervalMs: rankingConfig.recompute.intervalMs,
+  });
+}
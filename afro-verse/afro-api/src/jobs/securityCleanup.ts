@@ -2,7 +2,8 @@ import { UserSelfie } from '../models/UserSelfie';
 import { Generation } from '../models/Generation';
 import { securityConfig } from '../config/security';
 import { logger } from '../utils/logger';
-import { getBucket } from '../config/storage';
+import { env } from '../config/env';
+import { deleteFile } from '../services/storage.service';
 import { isConnectionReady } from '../config/db';
 
 /**
@@ -47,18 +48,12 @@ export async function cleanupOrphanedSelfies(): Promise<{
     
     for (const selfie of orphanedSelfies) {
       try {
-        // Delete from GCS if uploaded
+        // Delete from storage if uploaded (missing objects are OK)
         if (selfie.gcsPath) {
-          const bucket = getBucket();
-          const file = bucket.file(selfie.gcsPath);
+          const result = await deleteFile(env.GCS_BUCKET_NAME, selfie.gcsPath);
           
-          try {
-            await file.delete();
-          } catch (error: any) {
-            // File might not exist, that's OK
-            if (error.code !== 404) {
-              throw error;
-            }
+          if (!result.success) {
+            throw new Error(result.error);
           }
         }
         
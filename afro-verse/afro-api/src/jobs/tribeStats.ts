@@ -0,0 +1,31 @@
+import { captureTribeSnapshots } from '../services/tribeStats.service';
+import { repairTribeCounters } from '../services/tribe.service';
+import { securityConfig } from '../config/security';
+import { logger } from '../utils/logger';
+
+/**
+ * Tribe Stats Job
+ * 
+ * Periodically captures snapshots for the last completed day. The first
+ * capture of a day also runs the tribe counter repair, which reconciles
+ * recent snapshots.
+ * 
+ * Serverless deployments use GET /api/cron/tribe-stats instead.
+ */
+
+/**
+ * Schedule tribe snapshot capture
+ */
+export function scheduleTribeStatsJobs(): void {
+  setInterval(async () => {
+    const { captured } = await captureTribeSnapshots();
+    
+    if (captured > 0) {
+      await repairTribeCounters();
+    }
+  }, securityConfig.tribeStats.snapshotIntervalMs);
+  
+  logger.info('Tribe stats jobs scheduled', {
+    intervalMs: securityConfig.tribeStats.snapshotIntervalMs,
+  });
+}
@@ -1,11 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { securityConfig } from '../config/security';
+import { recordAuditEvent } from '../services/audit.service';
 import { logger } from '../utils/logger';
 
 /**
  * Admin Middleware
  * 
- * Enforces admin role and optional IP allowlist.
+ * Enforces admin role and optional IP allowlist. Denials are recorded
+ * in the audit log.
  */
 
 /**
@@ -34,6 +36,15 @@ export async function requireAdmin(
         path: req.path,
       });
       
+      recordAuditEvent({
+        category: 'admin',
+        action: 'admin.access_denied',
+        outcome: 'denied',
+        actorId: user._id,
+        ip: req.ip || null,
+        metadata: { reason: 'missing_role', method: req.method, path: req.originalUrl },
+      });
+      
       return res.status(403).json({
         error: 'forbidden',
         message: 'Admin access required',
@@ -54,6 +65,15 @@ export async function requireAdmin(
           path: req.path,
         });
         
+        recordAuditEvent({
+          category: 'admin',
+          action: 'admin.access_denied',
+          outcome: 'denied',
+          actorId: user._id,
+          ip: clientIP || null,
+          metadata: { reason: 'ip_not_allowed', method: req.method, path: req.originalUrl },
+        });
+        
         return res.status(403).json({
           error: 'forbidden',
           message: 'Access denied from this location',
@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditCategory, AuditOutcome } from '../models/AuditEvent';
+import { recordAuditEvent } from '../services/audit.service';
+
+/**
+ * Audit Middleware
+ *
+ * Records one audit event per request once the response is sent:
+ * - action: method and route pattern ("POST /admin/users/:id/ban")
+ * - target: the route's first segment and its :id/:slug/:name param
+ * - outcome: from the status code (401/403 = denied)
+ * - metadata: status, duration and the body's top-level scalar fields
+ *
+ * Mounted on the admin (writes only), cron, worker and jobs routers.
+ */
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function toOutcome(statusCode: number): AuditOutcome {
+  if (statusCode === 401 || statusCode === 403) {
+    return 'denied';
+  }
+  return statusCode < 400 ? 'success' : 'failure';
+}
+
+/**
+ * Top-level strings, numbers, booleans and id lists from the body
+ * (nested objects such as preset definitions are left out)
+ */
+function summarizeBody(body: any): Record<string, any> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return {};
+  }
+
+  const summary: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(body)) {
+    const isScalar = ['string', 'number', 'boolean'].includes(typeof value);
+    const isScalarList =
+      Array.isArray(value) && value.every((item) => ['string', 'number'].includes(typeof item));
+
+    if (isScalar || isScalarList) {
+      summary[key] = value;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Audit requests on this router
+ */
+export function auditRequests(
+  category: AuditCategory,
+  options: { includeReads?: boolean } = {}
+) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!options.includeReads && READ_METHODS.includes(req.method)) {
+      return next();
+    }
+
+    // Express rewrites baseUrl/url as the request leaves the router
+    const baseUrl = req.baseUrl;
+    const startTime = Date.now();
+
+    res.on('finish', () => {
+      const routePath: string = req.route?.path || req.path;
+      const targetType = routePath.split('/').filter(Boolean)[0] || null;
+      const targetId = req.params?.id || req.params?.slug || req.params?.name || null;
+
+      recordAuditEvent({
+        category,
+        action: `${req.method} ${baseUrl}${routePath}`,
+        outcome: toOutcome(res.statusCode),
+        actorId: req.user?._id || null,
+        ip: req.ip || null,
+        target: targetType && targetId ? { type: targetType, id: targetId } : undefined,
+        metadata: {
+          status: res.statusCode,
+          durationMs: Date.now() - startTime,
+          body: summarizeBody(req.body),
+        },
+      });
+    });
+
+    next();
+  };
+}
@@ -1,22 +1,39 @@
 import { Request, Response, NextFunction } from 'express';
 import Redis from 'ioredis';
+import crypto from 'crypto';
 import { env } from '../config/env';
 import { securityConfig, RateLimitConfig } from '../config/security';
+import {
+  RateLimitStore,
+  RateLimitResult,
+  RedisRateLimitStore,
+  MemoryRateLimitStore,
+} from '../utils/rateLimitStore';
 import { logger } from '../utils/logger';
 
 /**
  * Rate Limiter Middleware
  * 
- * Redis-based sliding window rate limiting.
+ * Sliding window rate limiting backed by Redis, with an in-memory
+ * LRU store when REDIS_URL is absent (or Redis errors).
  * Protects against abuse and ensures fair usage.
+ * 
+ * Responses carry the standard RateLimit-* headers; internal callers
+ * on the allowlist are never limited.
  */
 
 // Redis client (singleton)
 let redisClient: Redis | null = null;
+let redisStore: RedisRateLimitStore | null = null;
+let memoryStore: MemoryRateLimitStore | null = null;
+let warnedNoRedis = false;
 
 function getRedisClient(): Redis | null {
   if (!env.REDIS_URL) {
-    logger.warn('Redis not configured - rate limiting disabled');
+    if (!warnedNoRedis) {
+      logger.warn('Redis not configured - using in-memory rate limiting');
+      warnedNoRedis = true;
+    }
     return null;
   }
   
@@ -37,100 +54,121 @@ function getRedisClient(): Redis | null {
   return redisClient;
 }
 
+function getMemoryStore(): MemoryRateLimitStore {
+  if (!memoryStore) {
+    memoryStore = new MemoryRateLimitStore(securityConfig.rateLimits.memoryStore.maxKeys);
+  }
+  
+  return memoryStore;
+}
+
 /**
- * Check rate limit using sliding window algorithm
- * 
- * NOTE: Rate limiting is currently disabled - always returns allowed: true
+ * Get the active rate limit store
  */
-async function checkRateLimit(
-  key: string,
-  config: RateLimitConfig
-): Promise<{
-  allowed: boolean;
-  remaining: number;
-  resetAt: number;
-}> {
-  // Rate limiting disabled - always allow
-  return {
-    allowed: true,
-    remaining: config.limit,
-    resetAt: Date.now() + config.window * 1000,
-  };
-  
-  /* Original rate limiting code (disabled)
+export function getRateLimitStore(): RateLimitStore {
   const redis = getRedisClient();
   
-  // If Redis not available, allow (fail open)
   if (!redis) {
-    return {
-      allowed: true,
-      remaining: config.limit,
-      resetAt: Date.now() + config.window * 1000,
-    };
+    return getMemoryStore();
   }
   
-  const now = Date.now();
-  const windowStart = now - config.window * 1000;
+  if (!redisStore) {
+    redisStore = new RedisRateLimitStore(redis);
+  }
+  
+  return redisStore;
+}
+
+/**
+ * Check rate limit using sliding window algorithm
+ */
+async function checkRateLimit(
+  key: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
   
   try {
-    // Use sorted set for sliding window
-    const pipeline = redis.pipeline();
-    
-    // Remove old entries
-    pipeline.zremrangebyscore(key, 0, windowStart);
-    
-    // Count current entries
-    pipeline.zcard(key);
-    
-    // Add current request
-    pipeline.zadd(key, now, `${now}-${Math.random()}`);
-    
-    // Set expiry
-    pipeline.expire(key, config.window);
-    
-    const results = await pipeline.exec();
-    
-    if (!results) {
-      throw new Error('Pipeline execution failed');
+    return await store.hit(key, config);
+  } catch (error: any) {
+    if (store === memoryStore) {
+      throw error;
     }
     
-    // Get count (after removing old entries, before adding new one)
-    const count = results[1][1] as number;
-    
-    const allowed = count < config.limit;
-    const remaining = Math.max(0, config.limit - count - 1);
-    const resetAt = now + config.window * 1000;
-    
-    return {
-      allowed,
-      remaining,
-      resetAt,
-    };
-  } catch (error: any) {
-    logger.error('Rate limit check error', error);
-    // Fail open
-    return {
-      allowed: true,
-      remaining: config.limit,
-      resetAt: now + config.window * 1000,
-    };
+    // Redis unavailable: keep limiting per process rather than failing open
+    logger.error('Rate limit check error - falling back to in-memory store', {
+      error: error.message,
+    });
+    return getMemoryStore().hit(key, config);
+  }
+}
+
+/**
+ * Check if the request comes from an allowlisted internal caller
+ */
+export function isAllowlisted(req: Request): boolean {
+  const { ips, token } = securityConfig.rateLimits.allowlist;
+  
+  if (req.ip && ips.includes(req.ip)) {
+    return true;
+  }
+  
+  const provided = req.headers['x-internal-token'];
+  
+  if (token && typeof provided === 'string') {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(token);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+  
+  return false;
+}
+
+/**
+ * Set RateLimit-* headers
+ * 
+ * When several limiters apply to one request, the most restrictive
+ * one (fewest remaining) is reported.
+ */
+function setRateLimitHeaders(
+  res: Response,
+  config: RateLimitConfig,
+  result: RateLimitResult
+): void {
+  const current = res.getHeader('RateLimit-Remaining');
+  
+  if (current !== undefined && Number(current) < result.remaining) {
+    return;
   }
-  */
+  
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+  
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', resetSeconds);
+  res.setHeader('RateLimit-Policy', `${config.limit};w=${config.window}`);
 }
 
 /**
  * Create rate limiter middleware
+ * 
+ * `config` may be a function to pick limits per request (per-route overrides).
  */
-export function createRateLimiter(config: RateLimitConfig, keyFn: (req: Request) => string) {
+export function createRateLimiter(
+  config: RateLimitConfig | ((req: Request) => RateLimitConfig),
+  keyFn: (req: Request) => string
+) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
+      if (isAllowlisted(req)) {
+        return next();
+      }
+      
+      const limitConfig = typeof config === 'function' ? config(req) : config;
       const key = keyFn(req);
-      const result = await checkRateLimit(key, config);
+      const result = await checkRateLimit(key, limitConfig);
       
-      // Set rate limit headers
-      res.setHeader('X-RateLimit-Limit', config.limit);
-      res.setHeader('X-RateLimit-Remaining', result.remaining);
-      res.setHeader('X-RateLimit-Reset', result.resetAt);
+      setRateLimitHeaders(res, limitConfig, result);
       
       if (!result.allowed) {
         logger.warn('Rate limit exceeded', {
@@ -139,6 +177,8 @@ export function createRateLimiter(config: RateLimitConfig, keyFn: (req: Request)
           userId: req.user?.id,
         });
         
+        res.setHeader('Retry-After', Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000)));
+        
         return res.status(429).json({
           error: 'rate_limited',
           message: 'Too many requests. Try again later.',
@@ -154,6 +194,39 @@ export function createRateLimiter(config: RateLimitConfig, keyFn: (req: Request)
   };
 }
 
+/**
+ * Resolve the route override for a path (longest matching prefix)
+ */
+function resolveRouteOverride(path: string): { prefix: string; config: RateLimitConfig } | null {
+  let match: { prefix: string; config: RateLimitConfig } | null = null;
+  
+  for (const [prefix, config] of Object.entries(securityConfig.rateLimits.routes)) {
+    if (path === prefix || path.startsWith(`${prefix}/`)) {
+      if (!match || prefix.length > match.prefix.length) {
+        match = { prefix, config };
+      }
+    }
+  }
+  
+  return match;
+}
+
+/**
+ * Global per-IP rate limiter (with per-route overrides)
+ * 
+ * Overridden routes get their own bucket so they don't eat into
+ * the global allowance.
+ */
+export function createGlobalRateLimiter() {
+  return createRateLimiter(
+    (req) => resolveRouteOverride(req.path)?.config || securityConfig.rateLimits.global,
+    (req) => {
+      const scope = resolveRouteOverride(req.path)?.prefix || 'all';
+      return `rl:global:${scope}:ip:${req.ip || 'unknown'}`;
+    }
+  );
+}
+
 /**
  * OTP send rate limiter
  */
@@ -199,6 +272,9 @@ export const otpVerifyLimiter = {
 
 /**
  * Generation rate limiters
+ * 
+ * Mounted together on create and refine: `create` caps bursts per hour,
+ * `daily` caps the user's total per day.
  */
 export const generationLimiter = {
   create: createRateLimiter(
@@ -206,28 +282,10 @@ export const generationLimiter = {
     (req) => `rl:gen:user:${req.user?.id}`
   ),
   
-  daily: async (userId: string): Promise<boolean> => {
-    // Rate limiting disabled - always allow
-    return true;
-    
-    /* Original rate limiting code (disabled)
-    const redis = getRedisClient();
-    if (!redis) return true; // Fail open
-    
-    const key = `rl:gen:daily:${userId}:${getDateKey()}`;
-    const config = securityConfig.rateLimits.generation.create.perUser;
-    
-    try {
-      const count = await redis.incr(key);
-      await redis.expire(key, config.window);
-      
-      return count <= config.limit;
-    } catch (error) {
-      logger.error('Daily generation limit check error', error);
-      return true; // Fail open
-    }
-    */
-  },
+  daily: createRateLimiter(
+    securityConfig.rateLimits.generation.create.perUser,
+    (req) => `rl:gen:daily:${req.user?.id}`
+  ),
 };
 
 /**
@@ -246,6 +304,22 @@ export const respectLimiter = createRateLimiter(
   (req) => `rl:respect:user:${req.user?.id}`
 );
 
+/**
+ * Comment rate limiter
+ */
+export const commentLimiter = createRateLimiter(
+  securityConfig.rateLimits.comment.perUser,
+  (req) => `rl:comment:user:${req.user?.id}`
+);
+
+/**
+ * Report rate limiter
+ */
+export const reportLimiter = createRateLimiter(
+  securityConfig.rateLimits.report.perUser,
+  (req) => `rl:report:user:${req.user?.id}`
+);
+
 /**
  * Upload rate limiter
  */
@@ -264,58 +338,39 @@ export const uploadLimiter = {
 /**
  * Check respect toggle spam
  * 
- * NOTE: Rate limiting is currently disabled - always returns true
+ * Returns false if the user toggled respect on this post within the
+ * debounce period.
  */
 export async function checkRespectToggle(
   postId: string,
   userId: string
 ): Promise<boolean> {
-  // Rate limiting disabled - always allow
-  return true;
-  
-  /* Original rate limiting code (disabled)
-  const redis = getRedisClient();
-  if (!redis) return true; // Fail open
-  
-  const key = `rl:respect_toggle:${postId}:${userId}`;
   const debounce = securityConfig.rateLimits.respect.toggleDebounce;
   
   try {
-    // Check if exists (within debounce period)
-    const exists = await redis.exists(key);
+    const result = await checkRateLimit(
+      `rl:respect_toggle:${postId}:${userId}`,
+      { limit: 1, window: debounce }
+    );
     
-    if (exists) {
+    if (!result.allowed) {
       logger.warn('Respect toggle spam detected', { postId, userId });
-      return false; // Too fast
     }
     
-    // Set with expiry
-    await redis.setex(key, debounce, '1');
-    
-    return true;
+    return result.allowed;
   } catch (error) {
     logger.error('Respect toggle check error', error);
     return true; // Fail open
   }
-  */
 }
 
 /**
  * Hash IP for privacy
  */
 function hashIP(ip: string): string {
-  const crypto = require('crypto');
   return crypto.createHash('sha256').update(ip).digest('hex').substring(0, 16);
 }
 
-/**
- * Get date key for daily limits
- */
-function getDateKey(): string {
-  const now = new Date();
-  return `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
-}
-
 /**
  * Close Redis connection (for graceful shutdown)
  */
@@ -323,6 +378,6 @@ export async function closeRedis(): Promise<void> {
   if (redisClient) {
     await redisClient.quit();
     redisClient = null;
+    redisStore = null;
   }
 }
-
@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * AccountDeletion Model - Account erasure requests (POPIA/GDPR)
+ *
+ * Purpose:
+ * - Schedule the purge after the grace period
+ * - Audit record of the request and what was erased; kept after the
+ *   user is gone, so it holds no personal data beyond the user id
+ *
+ * Lifecycle:
+ * - scheduled: requested, purge runs at scheduledFor
+ * - cancelled: the user cancelled within the grace period
+ * - completed: account and content purged (purged counts recorded)
+ * - failed: purge errored on every attempt; needs an operator
+ *   (errors before that leave it scheduled for the next sweep)
+ *
+ * Invariants:
+ * - At most one scheduled request per user (enforced by partial unique index)
+ */
+
+export type AccountDeletionStatus = 'scheduled' | 'cancelled' | 'completed' | 'failed';
+
+export interface IAccountDeletion extends Document {
+  _id: Types.ObjectId;
+
+  userId: Types.ObjectId;
+  status: AccountDeletionStatus;
+
+  requestedAt: Date;
+  scheduledFor: Date;
+  cancelledAt?: Date;
+  completedAt?: Date;
+
+  attempts: number;
+  lastError?: string;
+
+  purged?: Record<string, number>; // Per collection / storage object counts
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountDeletionSchema = new Schema<IAccountDeletion>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['scheduled', 'cancelled', 'completed', 'failed'],
+      default: 'scheduled',
+    },
+
+    requestedAt: {
+      type: Date,
+      required: true,
+    },
+    scheduledFor: {
+      type: Date,
+      required: true,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: {
+      type: String,
+    },
+
+    purged: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+AccountDeletionSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'scheduled' } }
+);
+AccountDeletionSchema.index({ status: 1, scheduledFor: 1 }); // Due sweep
+
+export const AccountDeletion = mongoose.model<IAccountDeletion>('AccountDeletion', AccountDeletionSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * AccountExport Model - Self-serve data export (POPIA/GDPR access request)
+ *
+ * Lifecycle:
+ * - queued: requested, waiting for the account-export job
+ * - running: archive being built
+ * - ready: zip stored at `path`, downloadable until expiresAt
+ * - failed: build failed (error recorded)
+ * - expired: archive deleted after expiresAt
+ *
+ * Invariants:
+ * - path and expiresAt are set once ready
+ * - Only owners can download (signed URL issued per request)
+ */
+
+export type AccountExportStatus = 'queued' | 'running' | 'ready' | 'failed' | 'expired';
+
+export interface IAccountExport extends Document {
+  _id: Types.ObjectId;
+
+  userId: Types.ObjectId;
+  status: AccountExportStatus;
+
+  path?: string; // Zip in PRIVATE_GALLERY
+  sizeBytes?: number;
+  counts?: {
+    posts: number;
+    generations: number;
+    selfies: number;
+    images: number;
+  };
+
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  error?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountExportSchema = new Schema<IAccountExport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'ready', 'failed', 'expired'],
+      default: 'queued',
+    },
+
+    path: {
+      type: String,
+    },
+    sizeBytes: {
+      type: Number,
+      min: 0,
+    },
+    counts: {
+      posts: { type: Number, default: 0 },
+      generations: { type: Number, default: 0 },
+      selfies: { type: Number, default: 0 },
+      images: { type: Number, default: 0 },
+    },
+
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+AccountExportSchema.index({ userId: 1, createdAt: -1 });
+AccountExportSchema.index({ status: 1, expiresAt: 1 }); // Expiry sweep
+
+export const AccountExport = mongoose.model<IAccountExport>('AccountExport', AccountExportSchema);
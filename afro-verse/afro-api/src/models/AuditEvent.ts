@@ -0,0 +1,152 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * AuditEvent Model - Privileged and security-sensitive actions
+ *
+ * Purpose:
+ * - Queryable record of who did what (admin actions, role changes,
+ *   token revocations, account deletions, tribe switches, cron/worker
+ *   invocations)
+ * - Tamper evidence: each event carries the hash of the one before it
+ *   (see audit.service for the hashed fields)
+ *
+ * Invariants:
+ * - Append-only: updates and deletes are rejected by the model
+ * - seq is gapless and unique; the unique index serialises concurrent
+ *   appends (the loser retries on the new head)
+ * - The first event's prevHash is 64 zeros
+ * - Holds no personal data beyond user ids and the request IP, so it
+ *   outlives account purges
+ */
+
+export type AuditCategory = 'admin' | 'auth' | 'account' | 'tribe' | 'system';
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+export type AuditActorType = 'user' | 'system';
+
+export interface IAuditEvent extends Document {
+  _id: Types.ObjectId;
+
+  seq: number;
+  category: AuditCategory;
+  action: string;
+  outcome: AuditOutcome;
+
+  actor: {
+    type: AuditActorType;
+    userId: Types.ObjectId | null;
+    ip: string | null;
+  };
+  target: {
+    type: string | null;
+    id: string | null;
+  };
+  metadata: Record<string, any>;
+
+  prevHash: string;
+  hash: string;
+
+  createdAt: Date;
+}
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    seq: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    category: {
+      type: String,
+      enum: ['admin', 'auth', 'account', 'tribe', 'system'],
+      required: true,
+    },
+    action: {
+      type: String,
+      required: true,
+      maxlength: 200,
+    },
+    outcome: {
+      type: String,
+      enum: ['success', 'failure', 'denied'],
+      default: 'success',
+    },
+
+    actor: {
+      type: {
+        type: String,
+        enum: ['user', 'system'],
+        required: true,
+      },
+      userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        default: null,
+      },
+      ip: {
+        type: String,
+        default: null,
+      },
+    },
+    target: {
+      type: {
+        type: String,
+        default: null,
+      },
+      id: {
+        type: String,
+        default: null,
+      },
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+
+    prevHash: {
+      type: String,
+      required: true,
+    },
+    hash: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+// INDEXES
+AuditEventSchema.index({ seq: 1 }, { unique: true });
+AuditEventSchema.index({ category: 1, seq: -1 });
+AuditEventSchema.index({ action: 1, seq: -1 });
+AuditEventSchema.index({ 'actor.userId': 1, seq: -1 });
+AuditEventSchema.index({ 'target.id': 1, seq: -1 });
+AuditEventSchema.index({ createdAt: -1 });
+
+// Append-only
+AuditEventSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('audit_log_append_only'));
+  }
+  next();
+});
+
+AuditEventSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  function (next) {
+    next(new Error('audit_log_append_only'));
+  }
+);
+
+export const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
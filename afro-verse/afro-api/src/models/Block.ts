@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Block Model - One user blocking another
+ *
+ * Purpose:
+ * - Keep a harasser and their target apart: neither sees the other's
+ *   posts, profile grid, comments or membership listings
+ * - Prevent follows, comments and try-style between the two
+ *
+ * Invariants:
+ * - One block per (blockerId, blockedId) (enforced by unique index)
+ * - Blocks are symmetric in effect but owned by the blocker: only the
+ *   blocker can lift one
+ * - Blocking removes follows in both directions (block.service)
+ */
+
+export interface IBlock extends Document {
+  _id: Types.ObjectId;
+
+  blockerId: Types.ObjectId;
+  blockedId: Types.ObjectId;
+
+  createdAt: Date;
+}
+
+const BlockSchema = new Schema<IBlock>(
+  {
+    blockerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      immutable: true,
+    },
+    blockedId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// INDEXES
+BlockSchema.index({ blockerId: 1, blockedId: 1 }, { unique: true }); // One block per pair
+BlockSchema.index({ blockerId: 1, createdAt: -1 }); // "Blocked accounts" list
+BlockSchema.index({ blockedId: 1 }); // Who blocked a user
+
+export const Block = mongoose.model<IBlock>('Block', BlockSchema);
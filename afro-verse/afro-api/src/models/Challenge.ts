@@ -0,0 +1,174 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Challenge Model - Themed, time-boxed tribe events
+ *
+ * Purpose:
+ * - Weekly themes run by admins or tribe leads
+ * - Prompt preset + hashtag that entries are made with
+ * - Results (winners) shown on the tribe header after it ends
+ *
+ * Phases (derived from dates, see challenge.service getChallengePhase):
+ * - upcoming: before startsAt
+ * - active: startsAt <= now < endsAt, posts can be entered
+ * - judging: ended, waiting for the results sweep
+ * - results: finalized, winners crowned
+ * - cancelled
+ *
+ * Invariants:
+ * - endsAt > startsAt; windows in the same tribe don't overlap
+ * - winners are written once, by the results sweep
+ * - Leaderboards count respects given within [startsAt, endsAt)
+ */
+
+export type ChallengeStatus = 'open' | 'finalized' | 'cancelled';
+
+export interface IChallengeWinner {
+  rank: number;
+  postId: Types.ObjectId;
+  userId: Types.ObjectId;
+  respects: number;
+}
+
+export interface IChallenge extends Document {
+  _id: Types.ObjectId;
+
+  tribeId: Types.ObjectId;
+
+  title: string;
+  description?: string;
+  hashtag: string; // Lowercase, without '#'
+  presetSlug?: string; // StylePreset entries are made with
+
+  startsAt: Date;
+  endsAt: Date;
+
+  status: ChallengeStatus;
+  finalizedAt?: Date;
+  cancelledAt?: Date;
+  winners: IChallengeWinner[];
+
+  entryCount: number;
+
+  createdBy: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChallengeWinnerSchema = new Schema<IChallengeWinner>(
+  {
+    rank: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    respects: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const ChallengeSchema = new Schema<IChallenge>(
+  {
+    tribeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tribe',
+      required: true,
+      immutable: true,
+    },
+
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 80,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    hashtag: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+      match: /^[a-z0-9_]{2,30}$/,
+    },
+    presetSlug: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+      required: true,
+    },
+
+    status: {
+      type: String,
+      enum: ['open', 'finalized', 'cancelled'],
+      default: 'open',
+    },
+    finalizedAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    winners: {
+      type: [ChallengeWinnerSchema],
+      default: [],
+    },
+
+    // DENORMALIZED COUNTERS
+    entryCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+ChallengeSchema.index({ tribeId: 1, startsAt: -1 });
+ChallengeSchema.index({ status: 1, endsAt: 1 }); // Results sweep
+ChallengeSchema.index({ hashtag: 1, startsAt: -1 });
+
+// INVARIANT VALIDATION
+ChallengeSchema.pre('save', function (next) {
+  if (this.endsAt <= this.startsAt) {
+    return next(new Error('Challenge must end after it starts'));
+  }
+
+  next();
+});
+
+export const Challenge = mongoose.model<IChallenge>('Challenge', ChallengeSchema);
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * ChallengeEntry Model - A post entered into a challenge
+ *
+ * Purpose:
+ * - Per-challenge feed and leaderboard membership
+ * - Per-user entry limits
+ *
+ * Invariants:
+ * - A post is entered into a challenge at most once (unique index)
+ * - Entries are only created while the challenge is active, by the
+ *   post's owner, for posts in the challenge's tribe
+ * - userId/tribeId/visibility are copied from the post at entry time
+ *   (none of them change after posting)
+ */
+
+export interface IChallengeEntry extends Document {
+  _id: Types.ObjectId;
+
+  challengeId: Types.ObjectId;
+  postId: Types.ObjectId;
+  userId: Types.ObjectId;
+  tribeId: Types.ObjectId;
+  visibility: 'tribe' | 'public';
+
+  createdAt: Date;
+}
+
+const ChallengeEntrySchema = new Schema<IChallengeEntry>(
+  {
+    challengeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Challenge',
+      required: true,
+    },
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tribeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tribe',
+      required: true,
+    },
+    visibility: {
+      type: String,
+      enum: ['tribe', 'public'],
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// INDEXES
+ChallengeEntrySchema.index({ challengeId: 1, postId: 1 }, { unique: true });
+ChallengeEntrySchema.index({ challengeId: 1, visibility: 1, createdAt: -1, _id: -1 }); // Challenge feed
+ChallengeEntrySchema.index({ challengeId: 1, userId: 1 }); // Entry limits
+ChallengeEntrySchema.index({ postId: 1 });
+
+export const ChallengeEntry = mongoose.model<IChallengeEntry>('ChallengeEntry', ChallengeEntrySchema);
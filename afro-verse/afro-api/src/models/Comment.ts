@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Comment Model - Conversation on posts
+ *
+ * Purpose:
+ * - Let users talk about a look
+ * - One level of threaded replies
+ *
+ * Invariants:
+ * - Replies always point at a top-level comment (parentId never nests)
+ * - Comments are soft deleted; a deleted comment with replies stays
+ *   as a placeholder so the thread keeps its shape
+ * - Counter updates must be transactional (see utils/transactions.ts):
+ *   posts.counts.comments and the parent's counts.replies
+ */
+
+export interface IComment extends Document {
+  _id: Types.ObjectId;
+
+  postId: Types.ObjectId;
+  userId: Types.ObjectId;
+  parentId: Types.ObjectId | null; // null for top-level comments
+
+  body: string;
+
+  counts: {
+    replies: number;
+  };
+
+  status: 'active' | 'deleted' | 'removed';
+  deletedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommentSchema = new Schema<IComment>(
+  {
+    postId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null,
+    },
+
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 300,
+    },
+
+    // DENORMALIZED COUNTERS
+    counts: {
+      replies: {
+        type: Number,
+        default: 0,
+        min: 0,
+      },
+    },
+
+    // deleted = by author or post owner, removed = by moderator
+    status: {
+      type: String,
+      enum: ['active', 'deleted', 'removed'],
+      default: 'active',
+    },
+    deletedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+CommentSchema.index({ postId: 1, parentId: 1, createdAt: -1, _id: -1 }); // Top-level list
+CommentSchema.index({ parentId: 1, createdAt: 1, _id: 1 }); // Replies (oldest first)
+CommentSchema.index({ userId: 1, createdAt: -1 });
+
+export const Comment = mongoose.model<IComment>('Comment', CommentSchema);
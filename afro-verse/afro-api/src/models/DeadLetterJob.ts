@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * DeadLetterJob Model - Jobs the queue gave up on
+ *
+ * Purpose:
+ * - Keep failed jobs for inspection instead of dropping them
+ * - Allow an admin to requeue once the cause is fixed
+ *
+ * A job lands here when it exhausts its attempts or its handler
+ * throws a non-retryable error.
+ */
+
+export interface IDeadLetterJob extends Document {
+  _id: Types.ObjectId;
+
+  jobId: Types.ObjectId;
+  queue: string;
+  payload: Record<string, any>;
+  attempts: number;
+
+  error: {
+    code?: string;
+    message: string;
+  };
+
+  requeuedAt?: Date | null;
+  requeuedJobId?: string | null;
+
+  createdAt: Date;
+}
+
+const DeadLetterJobSchema = new Schema<IDeadLetterJob>(
+  {
+    jobId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    queue: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      required: true,
+    },
+
+    error: {
+      code: String,
+      message: String,
+    },
+
+    requeuedAt: {
+      type: Date,
+      default: null,
+    },
+    requeuedJobId: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// INDEXES
+DeadLetterJobSchema.index({ queue: 1, createdAt: -1 });
+DeadLetterJobSchema.index({ jobId: 1 });
+
+export const DeadLetterJob = mongoose.model<IDeadLetterJob>('DeadLetterJob', DeadLetterJobSchema);
@@ -42,6 +42,7 @@ export interface IGeneration extends Document {
   
   style: {
     presetId?: string;
+    presetVersion?: number; // StylePreset version the prompt was built from
     prompt: string;
     negativePrompt?: string;
     parameters: {
@@ -147,10 +148,14 @@ const GenerationSchema = new Schema<IGeneration>(
         type: String,
         default: null,
       },
+      presetVersion: {
+        type: Number,
+        default: null,
+      },
       prompt: {
         type: String,
-        required: true,
         maxlength: 2000,
+        default: '', // Empty when a preset is used without extra text
       },
       negativePrompt: {
         type: String,
@@ -246,6 +251,7 @@ GenerationSchema.index({ status: 1 });
 // Index for cron retry queries
 GenerationSchema.index({ status: 1, retryAfter: 1, attempts: 1 });
 GenerationSchema.index({ status: 1, lockedAt: 1 });
+GenerationSchema.index({ 'error.code': 1, createdAt: -1, _id: -1 }); // Admin blocked generations
 
 // INVARIANT VALIDATION
 GenerationSchema.pre('save', function (next) {
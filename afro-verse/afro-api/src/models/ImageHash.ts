@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * ImageHash Model - Perceptual fingerprints of stored images
+ *
+ * Purpose:
+ * - Detect reposts of other users' images and repeated posting
+ * - Back the admin "find similar images" lookup
+ *
+ * One document per image:
+ * - selfie: refId = UserSelfie
+ * - generation: refId = Generation, versionId = the version
+ * - post: refId = Post (same image as its generation version)
+ *
+ * Invariants:
+ * - One document per (kind, refId, versionId) (enforced by unique index)
+ * - bands are derived from pHash (utils/perceptualHash.hashBands)
+ */
+
+export type ImageHashKind = 'selfie' | 'generation' | 'post';
+
+export const IMAGE_HASH_KINDS: ImageHashKind[] = ['selfie', 'generation', 'post'];
+
+export interface IImageHash extends Document {
+  _id: Types.ObjectId;
+
+  kind: ImageHashKind;
+  refId: Types.ObjectId;
+  versionId?: string;
+  userId: Types.ObjectId;
+
+  pHash: string;
+  dHash: string;
+  bands: string[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ImageHashSchema = new Schema<IImageHash>(
+  {
+    kind: {
+      type: String,
+      enum: IMAGE_HASH_KINDS,
+      required: true,
+    },
+    refId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    versionId: {
+      type: String,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    pHash: {
+      type: String,
+      required: true,
+      match: /^[0-9a-f]{16}$/,
+    },
+    dHash: {
+      type: String,
+      required: true,
+      match: /^[0-9a-f]{16}$/,
+    },
+    bands: {
+      type: [String],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+ImageHashSchema.index({ kind: 1, refId: 1, versionId: 1 }, { unique: true });
+ImageHashSchema.index({ bands: 1, kind: 1 }); // Candidate lookup
+ImageHashSchema.index({ userId: 1, kind: 1, createdAt: -1 });
+
+export const ImageHash = mongoose.model<IImageHash>('ImageHash', ImageHashSchema);
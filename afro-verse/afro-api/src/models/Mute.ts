@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Mute Model - One user muting another
+ *
+ * Purpose:
+ * - Quietly drop someone's posts, comments and listings from the
+ *   muter's reads without blocking them
+ *
+ * Invariants:
+ * - One mute per (muterId, mutedId) (enforced by unique index)
+ * - Mutes are one-way and invisible to the muted user; follows are
+ *   left alone
+ */
+
+export interface IMute extends Document {
+  _id: Types.ObjectId;
+
+  muterId: Types.ObjectId;
+  mutedId: Types.ObjectId;
+
+  createdAt: Date;
+}
+
+const MuteSchema = new Schema<IMute>(
+  {
+    muterId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      immutable: true,
+    },
+    mutedId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// INDEXES
+MuteSchema.index({ muterId: 1, mutedId: 1 }, { unique: true }); // One mute per pair
+MuteSchema.index({ muterId: 1, createdAt: -1 }); // "Muted accounts" list
+
+export const Mute = mongoose.model<IMute>('Mute', MuteSchema);
@@ -0,0 +1,120 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Notification Model - Activity for a user
+ *
+ * Purpose:
+ * - Tell creators about respects, follows and try-style remixes
+ * - Tell users when a generation is ready (or failed)
+ *
+ * Aggregation:
+ * Repeat events with the same groupKey fold into the recipient's
+ * single unread notification for that key ("12 people respected your
+ * post"). Once read, the next event starts a new notification.
+ *
+ * Invariants:
+ * - At most one unread notification per (userId, groupKey)
+ *   (enforced by unique partial index)
+ * - actorIds holds the most recent distinct actors (capped), while
+ *   actorCount counts every distinct actor added
+ */
+
+export type NotificationType =
+  | 'respect'
+  | 'follow'
+  | 'try_style'
+  | 'generation_ready'
+  | 'generation_failed';
+
+export const MAX_STORED_ACTORS = 10;
+
+export interface INotification extends Document {
+  _id: Types.ObjectId;
+
+  userId: Types.ObjectId; // Recipient
+  type: NotificationType;
+  groupKey: string;
+
+  actorIds: Types.ObjectId[]; // Most recent first
+  actorCount: number;
+
+  target: {
+    postId?: Types.ObjectId;
+    generationId?: Types.ObjectId;
+  };
+
+  isRead: boolean;
+  readAt?: Date;
+
+  lastEventAt: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['respect', 'follow', 'try_style', 'generation_ready', 'generation_failed'],
+      required: true,
+    },
+    groupKey: {
+      type: String,
+      required: true,
+    },
+
+    actorIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    actorCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    target: {
+      postId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Post',
+      },
+      generationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Generation',
+      },
+    },
+
+    isRead: {
+      type: Boolean,
+      default: false,
+    },
+    readAt: {
+      type: Date,
+    },
+
+    lastEventAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+NotificationSchema.index(
+  { userId: 1, groupKey: 1 },
+  { unique: true, partialFilterExpression: { isRead: false } }
+); // One unread aggregate per key
+NotificationSchema.index({ userId: 1, lastEventAt: -1, _id: -1 }); // Activity list
+NotificationSchema.index({ userId: 1, isRead: 1 }); // Unread badge
+NotificationSchema.index({ lastEventAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 }); // 90 days after last activity
+
+export const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
@@ -14,8 +14,17 @@ import mongoose, { Schema, Document, Types } from 'mongoose';
  * - Posts always reference an existing generation version
  * - Posts are immutable except: caption edits, status changes
  * - Deleting a post does NOT delete the generation
+ * - remix is set at creation for try-style posts and never changes;
+ *   remix.ancestorIds is the materialized lineage (root first, parent last)
+ * - tags are Tag slugs from caption hashtags and the preset style tag
  */
 
+/**
+ * What flagged a post automatically: report weight crossing the
+ * threshold, or a likely repost caught at creation
+ */
+export type PostFlagSource = 'reports' | 'duplicate';
+
 export interface IPost extends Document {
   _id: Types.ObjectId;
   
@@ -27,6 +36,7 @@ export interface IPost extends Document {
   
   caption?: string;
   styleTag?: string;
+  tags: string[]; // Tag slugs
   
   visibility: 'tribe' | 'public';
   
@@ -41,9 +51,19 @@ export interface IPost extends Document {
     aspect: '1:1' | '9:16';
   };
   
+  remix?: {
+    parentPostId: Types.ObjectId;
+    parentUserId: Types.ObjectId;
+    rootPostId: Types.ObjectId;
+    ancestorIds: Types.ObjectId[]; // Capped at the nearest MAX_LINEAGE_DEPTH
+    depth: number; // 1 = remix of an original post
+  };
+  
   counts: {
     respects: number;
     shares: number;
+    comments: number;
+    remixes: number; // All descendants (remixes of remixes included)
   };
   
   rank: {
@@ -52,11 +72,48 @@ export interface IPost extends Document {
   };
   
   status: 'active' | 'removed' | 'flagged';
+  moderation?: {
+    flaggedAt?: Date;
+    removedAt?: Date;
+    reason?: string;
+    moderatorId?: Types.ObjectId; // Unset when flagged automatically (user reports)
+    source?: PostFlagSource; // Set when flagged automatically
+  };
   
   createdAt: Date;
   updatedAt: Date;
 }
 
+const RemixSchema = new Schema(
+  {
+    parentPostId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    parentUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    rootPostId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    ancestorIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+    depth: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+  },
+  { _id: false }
+);
+
 const PostSchema = new Schema<IPost>(
   {
     userId: {
@@ -93,6 +150,10 @@ const PostSchema = new Schema<IPost>(
       type: String,
       maxlength: 50,
     },
+    tags: {
+      type: [String],
+      default: [],
+    },
     
     visibility: {
       type: String,
@@ -133,6 +194,13 @@ const PostSchema = new Schema<IPost>(
       },
     },
     
+    // REMIX LINEAGE (immutable, from the try-style seed post)
+    remix: {
+      type: RemixSchema,
+      default: undefined,
+      immutable: true,
+    },
+    
     // DENORMALIZED COUNTERS
     counts: {
       respects: {
@@ -145,6 +213,16 @@ const PostSchema = new Schema<IPost>(
         default: 0,
         min: 0,
       },
+      comments: {
+        type: Number,
+        default: 0,
+        min: 0,
+      },
+      remixes: {
+        type: Number,
+        default: 0,
+        min: 0,
+      },
     },
     
     // RANKING (for feed algorithm)
@@ -164,6 +242,25 @@ const PostSchema = new Schema<IPost>(
       enum: ['active', 'removed', 'flagged'],
       default: 'active',
     },
+    moderation: {
+      flaggedAt: {
+        type: Date,
+      },
+      removedAt: {
+        type: Date,
+      },
+      reason: {
+        type: String,
+      },
+      moderatorId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      source: {
+        type: String,
+        enum: ['reports', 'duplicate'],
+      },
+    },
   },
   {
     timestamps: true,
@@ -175,7 +272,15 @@ PostSchema.index({ tribeId: 1, createdAt: -1 });
 PostSchema.index({ visibility: 1, createdAt: -1 });
 PostSchema.index({ userId: 1, createdAt: -1 });
 PostSchema.index({ status: 1 });
-PostSchema.index({ 'rank.hotScore': -1 }); // For hot feed
+PostSchema.index({ status: 1, visibility: 1, 'rank.hotScore': -1, _id: -1 }); // For hot feed
+PostSchema.index({ 'remix.ancestorIds': 1, createdAt: -1, _id: -1 }); // Remix descendants
+PostSchema.index({ 'remix.parentPostId': 1, createdAt: -1, _id: -1 }); // Direct remixes
+PostSchema.index({ tags: 1, createdAt: -1, _id: -1 }); // Tag pages and trending
+PostSchema.index({ status: 1, createdAt: -1, _id: -1 }); // Admin post lists
+PostSchema.index(
+  { caption: 'text', styleTag: 'text' },
+  { weights: { styleTag: 3, caption: 1 }, name: 'post_text' }
+); // Search
 
 // INVARIANT VALIDATION
 PostSchema.pre('save', function (next) {
@@ -214,6 +319,7 @@ PostSchema.methods.toFeedItem = function () {
     tribeId: this.tribeId,
     caption: this.caption,
     styleTag: this.styleTag,
+    tags: this.tags,
     media: this.media,
     counts: this.counts,
     createdAt: this.createdAt,
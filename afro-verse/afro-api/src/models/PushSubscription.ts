@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * PushSubscription Model - A browser/device registered for Web Push
+ *
+ * Purpose:
+ * - Deliver generation results and social activity when the app isn't open
+ *
+ * Lifecycle:
+ * - Upserted by endpoint when the service worker subscribes (a device
+ *   that changes account moves to the new user)
+ * - Deleted when the push service reports it gone (404/410), after
+ *   repeated delivery failures, or when its expirationTime passes (TTL)
+ *
+ * Invariants:
+ * - endpoint is unique (one row per browser subscription)
+ */
+
+export interface IPushSubscription extends Document {
+  _id: Types.ObjectId;
+
+  userId: Types.ObjectId;
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+
+  userAgent?: string;
+  expiresAt?: Date; // PushSubscription.expirationTime, when the browser sets one
+
+  lastSuccessAt?: Date;
+  failureCount: number; // Consecutive failed deliveries
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PushSubscriptionSchema = new Schema<IPushSubscription>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    endpoint: {
+      type: String,
+      required: true,
+      maxlength: 2048,
+    },
+    keys: {
+      p256dh: {
+        type: String,
+        required: true,
+      },
+      auth: {
+        type: String,
+        required: true,
+      },
+    },
+
+    userAgent: {
+      type: String,
+      maxlength: 300,
+    },
+    expiresAt: {
+      type: Date,
+    },
+
+    lastSuccessAt: {
+      type: Date,
+    },
+    failureCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+PushSubscriptionSchema.index({ endpoint: 1 }, { unique: true }); // Upsert by endpoint
+PushSubscriptionSchema.index({ userId: 1, createdAt: -1 }); // Fan-out + per-user cap
+PushSubscriptionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Browser-declared expiry
+
+export const PushSubscription = mongoose.model<IPushSubscription>(
+  'PushSubscription',
+  PushSubscriptionSchema
+);
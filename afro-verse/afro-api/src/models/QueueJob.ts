@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * QueueJob Model - Durable background jobs
+ *
+ * Purpose:
+ * - Survive restarts (jobs live in Mongo, not in memory)
+ * - Visibility timeout: a claimed job reappears if its worker dies
+ * - Delayed retries via runAt
+ *
+ * Lifecycle:
+ * pending → active → completed
+ *                  ↘ pending (retry, runAt in the future)
+ *                  ↘ dead (moved to DeadLetterJob)
+ *
+ * Invariants:
+ * - At most one pending/active job per dedupeKey (cleared on finish)
+ * - Claiming is a single atomic findOneAndUpdate
+ */
+
+export type QueueJobStatus = 'pending' | 'active' | 'completed' | 'dead';
+
+export interface IQueueJob extends Document {
+  _id: Types.ObjectId;
+
+  queue: string;
+  payload: Record<string, any>;
+  dedupeKey?: string | null;
+
+  status: QueueJobStatus;
+  attempts: number;
+  maxAttempts: number;
+
+  runAt: Date;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+
+  lastError?: {
+    code?: string;
+    message: string;
+    at: Date;
+  } | null;
+
+  completedAt?: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const QueueJobSchema = new Schema<IQueueJob>(
+  {
+    queue: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    dedupeKey: {
+      type: String,
+      default: null,
+    },
+
+    status: {
+      type: String,
+      enum: ['pending', 'active', 'completed', 'dead'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 5,
+    },
+
+    runAt: {
+      type: Date,
+      default: () => new Date(),
+    },
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+
+    lastError: {
+      code: String,
+      message: String,
+      at: Date,
+    },
+
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+// Claim query: due pending jobs, or active jobs whose lock expired
+QueueJobSchema.index({ queue: 1, status: 1, runAt: 1 });
+QueueJobSchema.index({ status: 1, lockedUntil: 1 });
+
+// One in-flight job per dedupe key (the key is cleared once the job finishes)
+QueueJobSchema.index(
+  { dedupeKey: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { dedupeKey: { $type: 'string' } },
+  }
+);
+
+// TTL: completed jobs are removed after a week
+QueueJobSchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 }
+);
+
+export const QueueJob = mongoose.model<IQueueJob>('QueueJob', QueueJobSchema);
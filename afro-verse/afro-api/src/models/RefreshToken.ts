@@ -144,7 +144,10 @@ RefreshTokenSchema.statics.verifyAndRotate = async function (
         }
       );
       
-      throw new Error('token_reuse_detected');
+      // Carry the user so the revocation can be audited
+      const error: any = new Error('token_reuse_detected');
+      error.userId = usedToken.userId;
+      throw error;
     }
     
     throw new Error('invalid_refresh_token');
@@ -169,7 +172,7 @@ RefreshTokenSchema.statics.verifyAndRotate = async function (
 };
 
 RefreshTokenSchema.statics.revokeAllForUser = async function (userId: Types.ObjectId) {
-  await this.updateMany(
+  const result = await this.updateMany(
     { userId, status: 'active' },
     {
       $set: {
@@ -179,13 +182,15 @@ RefreshTokenSchema.statics.revokeAllForUser = async function (userId: Types.Obje
       },
     }
   );
+  
+  return result.modifiedCount;
 };
 
 RefreshTokenSchema.statics.revokeToken = async function (token: string) {
   const tokenHash = (this as any).hashToken(token);
   
-  await this.updateOne(
-    { tokenHash },
+  const revoked = await this.findOneAndUpdate(
+    { tokenHash, status: 'active' },
     {
       $set: {
         status: 'revoked',
@@ -193,7 +198,9 @@ RefreshTokenSchema.statics.revokeToken = async function (token: string) {
         revokedReason: 'manual_revocation',
       },
     }
-  );
+  ).select('userId');
+  
+  return revoked ? revoked.userId : null;
 };
 
 interface IRefreshTokenModel extends mongoose.Model<IRefreshToken> {
@@ -201,8 +208,8 @@ interface IRefreshTokenModel extends mongoose.Model<IRefreshToken> {
   generateToken(): string;
   createToken(userId: Types.ObjectId, deviceInfo?: any): Promise<{ token: string; refreshToken: IRefreshToken }>;
   verifyAndRotate(token: string, deviceInfo?: any): Promise<{ userId: Types.ObjectId; newToken: string; newRefreshToken: IRefreshToken }>;
-  revokeToken(token: string): Promise<void>;
-  revokeAllForUser(userId: Types.ObjectId): Promise<void>;
+  revokeToken(token: string): Promise<Types.ObjectId | null>; // Owner of the revoked token
+  revokeAllForUser(userId: Types.ObjectId): Promise<number>; // Tokens revoked
 }
 
 export const RefreshToken = mongoose.model<IRefreshToken, IRefreshTokenModel>('RefreshToken', RefreshTokenSchema);
@@ -0,0 +1,189 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Report Model - A user's report of a post, caption or profile
+ *
+ * Purpose:
+ * - Let anyone surface content for moderator review
+ * - Feed the admin moderation queue (reports grouped by target)
+ *
+ * Lifecycle:
+ * open → claimed (moderator working it) → resolved
+ * Claims expire (securityConfig.reports.claimTtlMinutes) so abandoned
+ * work returns to the queue.
+ *
+ * Invariants:
+ * - One report per (reporter, targetType, targetId) (enforced by unique index)
+ * - targetId is a Post for post/caption targets and a User for profiles;
+ *   targetUserId is always the account behind the content
+ * - history is append-only: the audit trail for the report
+ */
+
+export type ReportTargetType = 'post' | 'caption' | 'profile';
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate'
+  | 'nudity'
+  | 'violence'
+  | 'self_harm'
+  | 'impersonation'
+  | 'other';
+
+export type ReportAction = 'remove_post' | 'ban_user' | 'dismiss';
+
+export const REPORT_TARGET_TYPES: ReportTargetType[] = ['post', 'caption', 'profile'];
+
+export const REPORT_REASONS: ReportReason[] = [
+  'spam',
+  'harassment',
+  'hate',
+  'nudity',
+  'violence',
+  'self_harm',
+  'impersonation',
+  'other',
+];
+
+export const REPORT_ACTIONS: ReportAction[] = ['remove_post', 'ban_user', 'dismiss'];
+
+export interface IReportHistoryEntry {
+  action: 'auto_flagged' | 'claimed' | 'resolved';
+  actorId?: Types.ObjectId; // Unset for system actions
+  note?: string;
+  at: Date;
+}
+
+export interface IReport extends Document {
+  _id: Types.ObjectId;
+
+  reporterId: Types.ObjectId;
+
+  targetType: ReportTargetType;
+  targetId: Types.ObjectId;
+  targetUserId: Types.ObjectId;
+
+  reason: ReportReason;
+  details?: string;
+  weight: number; // Reporter weight at report time
+
+  status: 'open' | 'claimed' | 'resolved';
+  claimedBy?: Types.ObjectId;
+  claimedAt?: Date;
+
+  resolution?: {
+    action: ReportAction;
+    moderatorId: Types.ObjectId;
+    note?: string;
+    resolvedAt: Date;
+  };
+
+  history: IReportHistoryEntry[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReportSchema = new Schema<IReport>(
+  {
+    reporterId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    targetType: {
+      type: String,
+      enum: REPORT_TARGET_TYPES,
+      required: true,
+    },
+    targetId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    reason: {
+      type: String,
+      enum: REPORT_REASONS,
+      required: true,
+    },
+    details: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    weight: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+
+    status: {
+      type: String,
+      enum: ['open', 'claimed', 'resolved'],
+      default: 'open',
+    },
+    claimedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    claimedAt: {
+      type: Date,
+    },
+
+    resolution: {
+      action: {
+        type: String,
+        enum: REPORT_ACTIONS,
+      },
+      moderatorId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      note: {
+        type: String,
+        maxlength: 500,
+      },
+      resolvedAt: {
+        type: Date,
+      },
+    },
+
+    history: [{
+      _id: false,
+      action: {
+        type: String,
+        enum: ['auto_flagged', 'claimed', 'resolved'],
+        required: true,
+      },
+      actorId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      note: {
+        type: String,
+      },
+      at: {
+        type: Date,
+        default: Date.now,
+      },
+    }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+ReportSchema.index({ reporterId: 1, targetType: 1, targetId: 1 }, { unique: true }); // One report per reporter
+ReportSchema.index({ targetType: 1, targetId: 1, status: 1 }); // Target weight + bulk claim/resolve
+ReportSchema.index({ status: 1, createdAt: -1 }); // Moderation queue
+ReportSchema.index({ targetUserId: 1, createdAt: -1 }); // Admin user history
+
+export const Report = mongoose.model<IReport>('Report', ReportSchema);
@@ -52,6 +52,7 @@ const RespectSchema = new Schema<IRespect>(
 // INDEXES (Enforced uniqueness)
 RespectSchema.index({ postId: 1, userId: 1 }, { unique: true });
 RespectSchema.index({ userId: 1, createdAt: -1 });
+RespectSchema.index({ createdAt: -1 }); // Respect velocity (hot score)
 
 // STATICS
 RespectSchema.statics.addRespect = async function (
@@ -0,0 +1,165 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * StylePreset Model - Curated generation styles
+ *
+ * Purpose:
+ * - Catalog of one-tap styles shown on the create screen
+ * - Source of the prompt fragment blended into generation prompts
+ * - Per-tribe curation (tribeIds affinity)
+ *
+ * Versioning:
+ * - version starts at 1 and bumps whenever promptFragment or
+ *   negativePrompt changes; the previous text moves into revisions
+ * - Generations record the version they used so prompts can be
+ *   rebuilt exactly (refines, retries) after the preset is edited
+ *
+ * Invariants:
+ * - Slugs are immutable (generations reference presets by slug)
+ * - Presets are disabled, never deleted, so old generations resolve
+ * - Empty tribeIds means the preset is offered to everyone
+ */
+
+export interface IStylePresetRevision {
+  version: number;
+  promptFragment: string;
+  negativePrompt?: string;
+  updatedBy?: Types.ObjectId;
+  replacedAt: Date;
+}
+
+export interface IStylePreset extends Document {
+  _id: Types.ObjectId;
+
+  slug: string;
+  title: string;
+  description?: string;
+
+  promptFragment: string;
+  negativePrompt?: string;
+
+  exampleThumbs: string[];
+  tribeIds: Types.ObjectId[];
+
+  enabled: boolean;
+  order: number;
+
+  version: number;
+  revisions: IStylePresetRevision[];
+
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StylePresetSchema = new Schema<IStylePreset>(
+  {
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      immutable: true, // Generations reference presets by slug
+      lowercase: true,
+      trim: true,
+      match: /^[a-z0-9_-]+$/,
+      maxlength: 50,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 40,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+
+    // PROMPT
+    promptFragment: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 1000,
+    },
+    negativePrompt: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+
+    // PRESENTATION
+    exampleThumbs: {
+      type: [String],
+      default: [],
+      validate: {
+        validator: (thumbs: string[]) => thumbs.length <= 6,
+        message: 'At most 6 example thumbnails',
+      },
+    },
+    tribeIds: {
+      type: [Schema.Types.ObjectId],
+      ref: 'Tribe',
+      default: [],
+    },
+
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+
+    // VERSIONING
+    version: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    revisions: [{
+      _id: false,
+      version: {
+        type: Number,
+        required: true,
+      },
+      promptFragment: {
+        type: String,
+        required: true,
+      },
+      negativePrompt: {
+        type: String,
+      },
+      updatedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      replacedAt: {
+        type: Date,
+        default: Date.now,
+      },
+    }],
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+// Note: slug already has a unique index from schema definition
+StylePresetSchema.index({ enabled: 1, order: 1 }); // Public catalog
+
+export const StylePreset = mongoose.model<IStylePreset>('StylePreset', StylePresetSchema);
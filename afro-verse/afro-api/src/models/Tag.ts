@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Tag Model - A hashtag or style tag
+ *
+ * Purpose:
+ * - Tag pages (label, usage count)
+ * - Normalized home for caption hashtags and preset style tags
+ *
+ * Invariants:
+ * - slug is the normalized tag (utils/tags.ts) and is unique
+ * - Posts carry their tag slugs in Post.tags; trending is computed
+ *   from posts, not stored here
+ * - postCount counts posts ever tagged (not decremented on removal)
+ */
+
+export interface ITag extends Document {
+  _id: Types.ObjectId;
+
+  slug: string;
+  label: string; // First-seen spelling, for display
+  kinds: Array<'hashtag' | 'style'>;
+
+  postCount: number;
+  lastUsedAt: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TagSchema = new Schema<ITag>(
+  {
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      immutable: true,
+      match: /^[a-z0-9_]{2,30}$/,
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 60,
+    },
+    kinds: {
+      type: [String],
+      enum: ['hashtag', 'style'],
+      default: [],
+    },
+    postCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+// Note: slug already has a unique index from schema definition
+TagSchema.index({ postCount: -1 }); // Popular tags
+
+export const Tag = mongoose.model<ITag>('Tag', TagSchema);
@@ -11,6 +11,7 @@ import mongoose, { Schema, Document, Types } from 'mongoose';
  * Invariants:
  * - Tribe slugs are immutable
  * - stats.members is denormalized (updated on join/leave)
+ * - leadIds are members who may run challenges (set by admins)
  * - Do NOT delete tribes in MVP (only deactivate later)
  */
 
@@ -24,6 +25,8 @@ export interface ITribe extends Document {
   accentColor: string;
   iconKey: string;
   
+  leadIds: Types.ObjectId[];
+  
   stats: {
     members: number;
     posts: number;
@@ -68,6 +71,13 @@ const TribeSchema = new Schema<ITribe>(
       required: true,
     },
     
+    // Community leads (run challenges)
+    leadIds: {
+      type: [Schema.Types.ObjectId],
+      ref: 'User',
+      default: [],
+    },
+    
     // DENORMALIZED STATS
     stats: {
       members: {
@@ -89,6 +99,10 @@ const TribeSchema = new Schema<ITribe>(
 
 // INDEXES
 // Note: slug already has a unique index from schema definition
+TribeSchema.index(
+  { name: 'text', motto: 'text' },
+  { weights: { name: 5, motto: 1 }, name: 'tribe_text' }
+); // Search
 
 // METHODS
 TribeSchema.methods.toPublicInfo = function () {
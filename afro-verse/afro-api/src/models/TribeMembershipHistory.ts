@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * TribeMembershipHistory Model - Trail of tribe joins and switches
+ *
+ * Purpose:
+ * - Who was in which tribe when (support, moderation, analytics)
+ * - Whether a switch took the member's posts along
+ *
+ * Invariants:
+ * - Append-only; written in the same transaction as the membership change
+ * - fromTribeId is null for the initial join
+ */
+
+export type TribeMembershipAction = 'join' | 'switch';
+
+export interface ITribeMembershipHistory extends Document {
+  _id: Types.ObjectId;
+
+  userId: Types.ObjectId;
+  action: TribeMembershipAction;
+  fromTribeId: Types.ObjectId | null;
+  toTribeId: Types.ObjectId;
+
+  movePosts: boolean;
+  postsMoved: number;
+
+  createdAt: Date;
+}
+
+const TribeMembershipHistorySchema = new Schema<ITribeMembershipHistory>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['join', 'switch'],
+      required: true,
+    },
+    fromTribeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tribe',
+      default: null,
+    },
+    toTribeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tribe',
+      required: true,
+    },
+
+    movePosts: {
+      type: Boolean,
+      default: false,
+    },
+    postsMoved: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// INDEXES
+TribeMembershipHistorySchema.index({ userId: 1, createdAt: -1 });
+TribeMembershipHistorySchema.index({ toTribeId: 1, createdAt: -1 });
+TribeMembershipHistorySchema.index({ fromTribeId: 1, createdAt: -1 });
+
+export const TribeMembershipHistory = mongoose.model<ITribeMembershipHistory>(
+  'TribeMembershipHistory',
+  TribeMembershipHistorySchema
+);
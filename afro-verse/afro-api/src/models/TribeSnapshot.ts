@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * TribeSnapshot Model - One tribe's numbers for one UTC day
+ *
+ * Purpose:
+ * - Tribe leaderboard (weekly/monthly windows)
+ * - Tribe stats time series
+ *
+ * Invariants:
+ * - One snapshot per tribe per day (unique index); day is UTC midnight
+ * - members/posts are totals at capture time; the rest is activity
+ *   within the day
+ * - Activity fields are recomputed by repairTribeCounters, so removed
+ *   posts and withdrawn respects drop out of recent snapshots
+ */
+
+export interface ITribeSnapshot extends Document {
+  _id: Types.ObjectId;
+
+  tribeId: Types.ObjectId;
+  day: Date;
+
+  members: number;
+  posts: number; // Active posts
+  newPosts: number;
+  respects: number; // Received on the tribe's posts
+  activeCreators: number; // Distinct members who posted
+  topStyles: Array<{
+    styleTag: string;
+    posts: number;
+  }>;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TribeSnapshotSchema = new Schema<ITribeSnapshot>(
+  {
+    tribeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tribe',
+      required: true,
+    },
+    day: {
+      type: Date,
+      required: true,
+    },
+    members: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    posts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    newPosts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    respects: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    activeCreators: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    topStyles: {
+      type: [
+        {
+          _id: false,
+          styleTag: { type: String, required: true },
+          posts: { type: Number, required: true, min: 0 },
+        },
+      ],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// INDEXES
+TribeSnapshotSchema.index({ tribeId: 1, day: -1 }, { unique: true }); // Time series
+TribeSnapshotSchema.index({ day: -1 }); // Leaderboard windows
+
+export const TribeSnapshot = mongoose.model<ITribeSnapshot>('TribeSnapshot', TribeSnapshotSchema);
@@ -49,12 +49,25 @@ export interface IUser extends Document {
   followersCount: number;
   followingCount: number;
   
+  // PREFERENCES
+  preferences: {
+    push: {
+      generation: boolean;
+      follow: boolean;
+      respect: boolean;
+    };
+  };
+  
   // SYSTEM
   roles: string[];
   status: {
     banned: boolean;
     shadowbanned: boolean;
     reason?: string;
+    shadowbanReason?: string;
+    shadowbannedAt?: Date;
+    shadowbanExpiresAt?: Date | null; // null = until cleared
+    shadowbannedBy?: Types.ObjectId;
   };
   
   createdAt: Date;
@@ -164,6 +177,24 @@ const UserSchema = new Schema<IUser>(
       min: 0,
     },
     
+    // PREFERENCES (push categories only apply once a device subscribes)
+    preferences: {
+      push: {
+        generation: {
+          type: Boolean,
+          default: true,
+        },
+        follow: {
+          type: Boolean,
+          default: true,
+        },
+        respect: {
+          type: Boolean,
+          default: true,
+        },
+      },
+    },
+    
     // SYSTEM
     roles: {
       type: [String],
@@ -182,6 +213,20 @@ const UserSchema = new Schema<IUser>(
       reason: {
         type: String,
       },
+      shadowbanReason: {
+        type: String,
+      },
+      shadowbannedAt: {
+        type: Date,
+      },
+      shadowbanExpiresAt: {
+        type: Date,
+        default: null,
+      },
+      shadowbannedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
     },
   },
   {
@@ -193,6 +238,7 @@ const UserSchema = new Schema<IUser>(
 // Note: phoneE164 and username already have unique indexes from schema definition
 UserSchema.index({ tribeId: 1 });
 UserSchema.index({ 'status.banned': 1 });
+UserSchema.index({ 'status.shadowbanned': 1 });
 
 // INVARIANT VALIDATION
 UserSchema.pre('save', function (next) {
@@ -248,8 +294,14 @@ UserSchema.methods.toPublicProfile = function () {
   };
 };
 
+// Shadowbanned users can still sign in; their content is hidden from others
 UserSchema.methods.isBanned = function () {
-  return this.status.banned || this.status.shadowbanned;
+  return this.status.banned;
+};
+
+UserSchema.methods.isShadowbanned = function () {
+  const expiresAt = this.status.shadowbanExpiresAt;
+  return !!this.status.shadowbanned && (!expiresAt || expiresAt > new Date());
 };
 
 export const User = mongoose.model<IUser>('User', UserSchema);
@@ -0,0 +1,79 @@
+import { CloudTasksClient } from '@google-cloud/tasks';
+import { env } from '../config/env';
+import { queueConfig } from '../config/queue';
+import { logger } from '../utils/logger';
+import { QueueAdapter } from './types';
+
+/**
+ * Cloud Tasks Queue
+ *
+ * Creates a Google Cloud Task that POSTs the payload to the queue's
+ * worker URL. Retries and dead-lettering are configured on the Cloud
+ * Tasks queue itself.
+ */
+
+const config = queueConfig.cloudTasks;
+
+let tasksClient: CloudTasksClient | null = null;
+
+function getClient(): CloudTasksClient {
+  if (!env.GCS_PROJECT_ID) {
+    const error: any = new Error('GCS_PROJECT_ID is required for the cloud_tasks queue backend');
+    error.code = 'queue_not_configured';
+    throw error;
+  }
+
+  if (!tasksClient) {
+    tasksClient = new CloudTasksClient();
+  }
+
+  return tasksClient;
+}
+
+export const cloudTasksQueue: QueueAdapter = {
+  name: 'cloud_tasks',
+
+  async enqueue(queue, payload, options = {}) {
+    const target = config.targets[queue];
+
+    if (!target) {
+      throw new Error(`No Cloud Tasks target configured for queue: ${queue}`);
+    }
+
+    const client = getClient();
+    const parent = client.queuePath(env.GCS_PROJECT_ID!, config.location, target.queueName);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    // Worker requests bypass rate limiting
+    if (env.INTERNAL_API_TOKEN) {
+      headers['X-Internal-Token'] = env.INTERNAL_API_TOKEN;
+    }
+
+    const task: any = {
+      httpRequest: {
+        httpMethod: 'POST' as const,
+        url: target.url,
+        headers,
+        body: Buffer.from(JSON.stringify(payload)).toString('base64'),
+      },
+    };
+
+    if (options.delayMs) {
+      task.scheduleTime = {
+        seconds: Math.floor((Date.now() + options.delayMs) / 1000),
+      };
+    }
+
+    const [response] = await client.createTask({ parent, task });
+
+    logger.info('Task enqueued', {
+      taskName: response.name,
+      queue,
+    });
+
+    return response.name || null;
+  },
+};
@@ -0,0 +1,41 @@
+import { env } from '../config/env';
+import { queueConfig } from '../config/queue';
+import { logger } from '../utils/logger';
+import { QueueAdapter } from './types';
+
+/**
+ * HTTP Queue (Vercel background functions)
+ *
+ * Fire-and-forget POST to /api/jobs/<queue>. Nothing is persisted:
+ * delayed and failed jobs rely on the /cron/generation-retry poller.
+ */
+
+export const httpQueue: QueueAdapter = {
+  name: 'http',
+
+  async enqueue(queue, payload) {
+    const jobUrl = `${queueConfig.http.baseUrl}/api/jobs/${queue}`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    // Self-triggered jobs bypass rate limiting
+    if (env.INTERNAL_API_TOKEN) {
+      headers['X-Internal-Token'] = env.INTERNAL_API_TOKEN;
+    }
+
+    fetch(jobUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+    }).catch((error) => {
+      logger.error('Failed to trigger background job', {
+        queue,
+        error: error.message,
+      });
+    });
+
+    return null;
+  },
+};
@@ -0,0 +1,24 @@
+import { queueConfig } from '../config/queue';
+import { QueueAdapter } from './types';
+import { mongoQueue } from './mongo';
+import { cloudTasksQueue } from './cloudTasks';
+import { httpQueue } from './http';
+
+/**
+ * Job Queue
+ *
+ * Returns the adapter selected by QUEUE_BACKEND (see config/queue.ts).
+ */
+
+const adapters: Record<QueueAdapter['name'], QueueAdapter> = {
+  mongo: mongoQueue,
+  cloud_tasks: cloudTasksQueue,
+  http: httpQueue,
+};
+
+export function getQueue(): QueueAdapter {
+  return adapters[queueConfig.backend];
+}
+
+export { registerJobHandler, startQueueWorker, stopQueueWorker } from './mongo';
+export * from './types';
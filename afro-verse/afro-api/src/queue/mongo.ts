@@ -0,0 +1,311 @@
+import os from 'os';
+import crypto from 'crypto';
+import { queueConfig } from '../config/queue';
+import { isConnectionReady } from '../config/db';
+import { QueueJob, IQueueJob } from '../models/QueueJob';
+import { DeadLetterJob } from '../models/DeadLetterJob';
+import { calculateRetryAfter, isNonRetryableError } from '../utils/backoff';
+import { logger } from '../utils/logger';
+import { QueueAdapter, JobHandler } from './types';
+
+/**
+ * Mongo Queue
+ *
+ * Durable job queue stored in the QueueJob collection, processed by an
+ * in-process worker loop:
+ * - Atomic claim with a visibility timeout (crashed workers' jobs reappear)
+ * - Heartbeats extend the timeout while a job is running
+ * - Per-instance concurrency limit
+ * - Delayed retries using utils/backoff, then dead-letter
+ */
+
+const config = queueConfig.mongo;
+
+const workerId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+
+const handlers = new Map<string, JobHandler>();
+
+let running = false;
+let polling = false;
+let activeJobs = 0;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Register the handler for a queue
+ */
+export function registerJobHandler(queue: string, handler: JobHandler): void {
+  handlers.set(queue, handler);
+}
+
+/**
+ * Claim the next due job (atomic)
+ */
+async function claimNextJob(): Promise<IQueueJob | null> {
+  const now = new Date();
+
+  return QueueJob.findOneAndUpdate(
+    {
+      queue: { $in: Array.from(handlers.keys()) },
+      $or: [
+        { status: 'pending', runAt: { $lte: now } },
+        // Visibility timeout expired (worker died mid-job)
+        { status: 'active', lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: 'active',
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + config.visibilityTimeoutMs),
+      },
+      $inc: { attempts: 1 },
+    },
+    {
+      sort: { runAt: 1 },
+      new: true,
+    }
+  );
+}
+
+async function completeJob(job: IQueueJob): Promise<void> {
+  await QueueJob.updateOne(
+    { _id: job._id, lockedBy: workerId },
+    {
+      $set: {
+        status: 'completed',
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+        dedupeKey: null,
+      },
+    }
+  );
+}
+
+async function deadLetterJob(job: IQueueJob, error: any): Promise<void> {
+  await DeadLetterJob.create({
+    jobId: job._id,
+    queue: job.queue,
+    payload: job.payload,
+    attempts: job.attempts,
+    error: {
+      code: error.code ? String(error.code) : undefined,
+      message: error.message || 'Unknown error',
+    },
+  });
+
+  await QueueJob.updateOne(
+    { _id: job._id, lockedBy: workerId },
+    {
+      $set: {
+        status: 'dead',
+        completedAt: new Date(), // Lets the TTL index clean it up
+        lockedBy: null,
+        lockedUntil: null,
+        dedupeKey: null,
+        lastError: {
+          code: error.code ? String(error.code) : undefined,
+          message: error.message,
+          at: new Date(),
+        },
+      },
+    }
+  );
+
+  logger.error('Job moved to dead-letter queue', {
+    jobId: job._id.toString(),
+    queue: job.queue,
+    attempts: job.attempts,
+    error: error.message,
+  });
+}
+
+async function failJob(job: IQueueJob, error: any): Promise<void> {
+  const retryable = error.retryable !== false && !isNonRetryableError(error);
+
+  if (!retryable || job.attempts >= job.maxAttempts) {
+    await deadLetterJob(job, error);
+    return;
+  }
+
+  const runAt = error.retryAt instanceof Date
+    ? error.retryAt
+    : calculateRetryAfter(job.attempts);
+
+  await QueueJob.updateOne(
+    { _id: job._id, lockedBy: workerId },
+    {
+      $set: {
+        status: 'pending',
+        runAt,
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: {
+          code: error.code ? String(error.code) : undefined,
+          message: error.message,
+          at: new Date(),
+        },
+      },
+    }
+  );
+
+  logger.warn('Job failed, retry scheduled', {
+    jobId: job._id.toString(),
+    queue: job.queue,
+    attempts: job.attempts,
+    runAt,
+    error: error.message,
+  });
+}
+
+/**
+ * Run one claimed job to completion
+ */
+async function runJob(job: IQueueJob): Promise<void> {
+  const handler = handlers.get(job.queue);
+
+  // Keep the job invisible to other workers while we're still on it
+  const heartbeat = setInterval(() => {
+    QueueJob.updateOne(
+      { _id: job._id, lockedBy: workerId },
+      { $set: { lockedUntil: new Date(Date.now() + config.visibilityTimeoutMs) } }
+    ).catch((error) => {
+      logger.warn('Job heartbeat failed', { jobId: job._id.toString(), error: error.message });
+    });
+  }, config.heartbeatIntervalMs);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for queue: ${job.queue}`);
+    }
+
+    await handler(job.payload, {
+      jobId: job._id.toString(),
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+    });
+
+    await completeJob(job);
+  } catch (error: any) {
+    await failJob(job, error).catch((updateError) => {
+      // Lock will expire and the job will be retried
+      logger.error('Failed to record job failure', {
+        jobId: job._id.toString(),
+        error: updateError.message,
+      });
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim and start jobs until the concurrency limit is reached
+ */
+async function poll(): Promise<void> {
+  if (!running || polling || !isConnectionReady()) {
+    return;
+  }
+
+  polling = true;
+
+  try {
+    while (running && activeJobs < config.concurrency) {
+      const job = await claimNextJob();
+
+      if (!job) {
+        break;
+      }
+
+      activeJobs++;
+
+      runJob(job).finally(() => {
+        activeJobs--;
+        setImmediate(poll);
+      });
+    }
+  } catch (error: any) {
+    logger.error('Queue poll failed', { error: error.message });
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start the worker loop
+ */
+export function startQueueWorker(): void {
+  if (running) return;
+
+  running = true;
+  pollTimer = setInterval(poll, config.pollIntervalMs);
+
+  logger.info('Queue worker started', {
+    workerId,
+    queues: Array.from(handlers.keys()),
+    concurrency: config.concurrency,
+  });
+}
+
+/**
+ * Stop claiming jobs and wait (bounded) for in-flight jobs
+ *
+ * Anything still running when the wait ends is picked up again once
+ * its visibility timeout expires.
+ */
+export async function stopQueueWorker(timeoutMs: number = 10 * 1000): Promise<void> {
+  running = false;
+
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+
+  const deadline = Date.now() + timeoutMs;
+
+  while (activeJobs > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  logger.info('Queue worker stopped', { workerId, abandoned: activeJobs });
+}
+
+export const mongoQueue: QueueAdapter = {
+  name: 'mongo',
+
+  async enqueue(queue, payload, options = {}) {
+    let jobId: string;
+
+    try {
+      const job = await QueueJob.create({
+        queue,
+        payload,
+        dedupeKey: options.dedupeKey || null,
+        maxAttempts: options.maxAttempts || config.maxAttempts,
+        runAt: new Date(Date.now() + (options.delayMs || 0)),
+      });
+
+      jobId = job._id.toString();
+
+      logger.info('Job enqueued', { jobId, queue });
+    } catch (error: any) {
+      // Duplicate dedupeKey: an equivalent job is already in flight
+      if (error.code === 11000 && options.dedupeKey) {
+        logger.info('Job already queued (deduped)', {
+          queue,
+          dedupeKey: options.dedupeKey,
+        });
+        return null;
+      }
+
+      throw error;
+    }
+
+    // Pick it up right away if this instance runs the worker
+    if (running) {
+      setImmediate(poll);
+    }
+
+    return jobId;
+  },
+};
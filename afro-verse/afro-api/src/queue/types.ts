@@ -0,0 +1,40 @@
+import type { QueueBackendName } from '../config/queue';
+
+/**
+ * Job Queue Types
+ *
+ * Every dispatch mechanism (Mongo, Cloud Tasks, HTTP trigger) implements
+ * QueueAdapter so callers only ever "enqueue a job on a queue".
+ */
+
+export interface EnqueueOptions {
+  delayMs?: number;
+  dedupeKey?: string; // Skip if a job with this key is already in flight
+  maxAttempts?: number;
+}
+
+export interface QueueAdapter {
+  name: QueueBackendName;
+
+  /**
+   * Returns the backend's job id (QueueJob id, Cloud Task name), or null
+   * when the backend doesn't track jobs or the job was deduped
+   */
+  enqueue(queue: string, payload: Record<string, any>, options?: EnqueueOptions): Promise<string | null>;
+}
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  maxAttempts: number;
+}
+
+/**
+ * Job handler
+ *
+ * Resolve to complete the job. Throw to fail it:
+ * - `error.retryAt` (Date) schedules the retry at that time
+ * - `error.retryable === false` (or a non-retryable code from
+ *   utils/backoff) dead-letters immediately
+ */
+export type JobHandler = (payload: any, context: JobContext) => Promise<void>;
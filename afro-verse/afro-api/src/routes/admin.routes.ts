@@ -1,12 +1,43 @@
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth.middleware';
 import { requireAdmin } from '../middleware/admin.middleware';
+import { auditRequests } from '../middleware/audit.middleware';
 import {
   flagPostController,
   removePostController,
+  restorePostController,
+  listPostsController,
+  listFlaggedPostsController,
+  bulkPostActionController,
   banUserController,
   unbanUserController,
+  shadowbanUserController,
+  unshadowbanUserController,
+  setUserRolesController,
+  listUsersController,
+  getUserDetailController,
+  bulkUserActionController,
+  listBlockedGenerationsController,
+  getProviderHealthController,
+  resetProviderBreakerController,
+  listDeadLettersController,
+  requeueDeadLetterController,
+  explainHotScoreController,
+  removeCommentController,
+  listReportsController,
+  claimReportController,
+  resolveReportController,
+  listPresetsController,
+  createPresetController,
+  updatePresetController,
+  verifyWatermarkController,
+  findSimilarImagesController,
+  findSimilarUploadController,
+  setTribeLeadsController,
+  listAuditEventsController,
+  verifyAuditChainController,
 } from '../controllers/admin.controller';
+import { uploadMiddleware } from '../controllers/media.controller';
 
 /**
  * Admin Routes
@@ -14,6 +45,8 @@ import {
  * Protected by:
  * - JWT auth (admin role required)
  * - IP allowlist (optional, configured in admin.middleware)
+ * 
+ * Writes are recorded in the audit log (audit.middleware).
  */
 
 const router = Router();
@@ -21,14 +54,64 @@ const router = Router();
 // All admin routes require auth + admin role
 router.use(requireAuth);
 router.use(requireAdmin);
+router.use(auditRequests('admin'));
 
 // Post moderation
+router.get('/posts', listPostsController);
+router.get('/posts/flagged', listFlaggedPostsController);
+router.post('/posts/bulk', bulkPostActionController);
 router.post('/posts/:id/flag', flagPostController);
 router.post('/posts/:id/remove', removePostController);
+router.post('/posts/:id/restore', restorePostController);
+router.get('/posts/:id/hot-score', explainHotScoreController);
+
+// Comment moderation
+router.post('/comments/:id/remove', removeCommentController);
+
+// Report queue
+router.get('/reports', listReportsController);
+router.post('/reports/:id/claim', claimReportController);
+router.post('/reports/:id/resolve', resolveReportController);
+
+// Style presets
+router.get('/presets', listPresetsController);
+router.post('/presets', createPresetController);
+router.patch('/presets/:slug', updatePresetController);
+
+// Tribes
+router.put('/tribes/:slug/leads', setTribeLeadsController);
+
+// Provenance
+router.post('/watermark/verify', uploadMiddleware, verifyWatermarkController);
+
+// Duplicate detection
+router.get('/images/similar', findSimilarImagesController);
+router.post('/images/similar', uploadMiddleware, findSimilarUploadController);
 
 // User moderation
+router.get('/users', listUsersController);
+router.post('/users/bulk', bulkUserActionController);
+router.get('/users/:id', getUserDetailController);
 router.post('/users/:id/ban', banUserController);
 router.post('/users/:id/unban', unbanUserController);
+router.post('/users/:id/shadowban', shadowbanUserController);
+router.post('/users/:id/unshadowban', unshadowbanUserController);
+router.put('/users/:id/roles', setUserRolesController);
+
+// Generations
+router.get('/generations/blocked', listBlockedGenerationsController);
+
+// Image providers
+router.get('/providers/health', getProviderHealthController);
+router.post('/providers/:name/reset', resetProviderBreakerController);
+
+// Job queue
+router.get('/queue/dead-letters', listDeadLettersController);
+router.post('/queue/dead-letters/:id/requeue', requeueDeadLetterController);
+
+// Audit log
+router.get('/audit', listAuditEventsController);
+router.get('/audit/verify', verifyAuditChainController);
 
 export default router;
 
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { requireAuth, optionalAuth } from '../middleware/auth.middleware';
+import {
+  listChallengesController,
+  createChallengeController,
+  getChallengeController,
+  cancelChallengeController,
+  enterChallengeController,
+  getLeaderboardController,
+  getChallengeFeedController,
+} from '../controllers/challenge.controller';
+
+/**
+ * Challenge Routes
+ *
+ * GET /challenges?tribe=<slug> - Tribe challenges (optional auth)
+ * POST /challenges - Schedule a challenge (admins and tribe leads)
+ * GET /challenges/:id - Challenge detail (optional auth)
+ * POST /challenges/:id/cancel - Cancel (admins and tribe leads)
+ * POST /challenges/:id/entries - Enter a post
+ * GET /challenges/:id/leaderboard - Ranked entries (optional auth)
+ * GET /challenges/:id/feed - Entries, newest first
+ */
+
+const router = Router();
+
+router.get('/', optionalAuth, listChallengesController);
+router.post('/', requireAuth, createChallengeController);
+router.get('/:id', optionalAuth, getChallengeController);
+router.post('/:id/cancel', requireAuth, cancelChallengeController);
+router.post('/:id/entries', requireAuth, enterChallengeController);
+router.get('/:id/leaderboard', optionalAuth, getLeaderboardController);
+router.get('/:id/feed', requireAuth, getChallengeFeedController);
+
+export default router;
@@ -1,17 +1,39 @@
 import { Router } from 'express';
-import { generationRetry } from '../controllers/cron.controller';
+import {
+  generationRetry,
+  hotScoreRecompute,
+  accountSweep,
+  challengeResults,
+  tribeStats,
+} from '../controllers/cron.controller';
+import { auditRequests } from '../middleware/audit.middleware';
 
 /**
  * Cron Routes (Vercel Cron)
  * 
- * Scheduled tasks for retry/recovery.
+ * Scheduled tasks for retry/recovery. Every invocation (including
+ * unauthorized ones) is recorded in the audit log.
  */
 
 const router = Router();
 
+router.use(auditRequests('system', { includeReads: true }));
+
 // Generation retry/recovery (run every minute)
 router.get('/generation-retry', generationRetry);
 
+// Hot score recompute (run every 15 minutes)
+router.get('/hot-scores', hotScoreRecompute);
+
+// Account deletions and export expiry (run hourly)
+router.get('/account-sweep', accountSweep);
+
+// Challenge results (run every 5 minutes)
+router.get('/challenge-results', challengeResults);
+
+// Tribe snapshots and counter repair (run daily)
+router.get('/tribe-stats', tribeStats);
+
 export default router;
 
 
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth.middleware';
+import { feedLimiter } from '../middleware/rateLimiter.middleware';
 import {
   getFeedController,
   getHotFeedController,
@@ -17,6 +18,9 @@ const router = Router();
 // All feed routes require authentication
 router.use(requireAuth);
 
+// Per-user feed rate limit
+router.use(feedLimiter);
+
 // Get personalized feed
 router.get('/', getFeedController);
 
@@ -20,8 +20,8 @@ const router = Router();
 router.use(requireAuth);
 
 // Generation endpoints with rate limiting
-router.post('/', generationLimiter.create, handleCreateGeneration);
-router.post('/:id/refine', generationLimiter.create, handleRefineGeneration);
+router.post('/', generationLimiter.create, generationLimiter.daily, handleCreateGeneration);
+router.post('/:id/refine', generationLimiter.create, generationLimiter.daily, handleRefineGeneration);
 router.get('/:id', handleGetGeneration);
 router.get('/', handleGetUserGenerations);
 
@@ -1,17 +1,24 @@
 import { Router } from 'express';
-import { executeGenerationJob } from '../controllers/jobs.controller';
+import { executeGenerationJob, executeAccountExportJob } from '../controllers/jobs.controller';
+import { auditRequests } from '../middleware/audit.middleware';
 
 /**
  * Jobs Routes (Vercel Background Functions)
  * 
- * These are "workers" invoked via HTTP.
+ * These are "workers" invoked via HTTP. Invocations are recorded in
+ * the audit log.
  */
 
 const router = Router();
 
+router.use(auditRequests('system'));
+
 // Generation job execution
 router.post('/generation', executeGenerationJob);
 
+// Account export build
+router.post('/account-export', executeAccountExportJob);
+
 export default router;
 
 
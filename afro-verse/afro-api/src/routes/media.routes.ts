@@ -8,6 +8,7 @@ import {
   uploadMiddleware,
 } from '../controllers/media.controller';
 import { requireAuth } from '../middleware/auth.middleware';
+import { uploadLimiter } from '../middleware/rateLimiter.middleware';
 
 /**
  * Media Routes
@@ -21,9 +22,9 @@ const router = Router();
 router.use(requireAuth);
 
 // Selfie upload pipeline
-router.post('/selfies/init', handleInitSelfieUpload);
+router.post('/selfies/init', uploadLimiter.ip, uploadLimiter.user, handleInitSelfieUpload);
 router.post('/selfies/complete', handleCompleteSelfieUpload);
-router.post('/selfies/upload', uploadMiddleware, handleUploadSelfie); // Proxy upload endpoint
+router.post('/selfies/upload', uploadLimiter.ip, uploadLimiter.user, uploadMiddleware, handleUploadSelfie); // Proxy upload endpoint
 router.get('/selfies', handleGetSelfies);
 router.delete('/selfies/:id', handleDeleteSelfie);
 
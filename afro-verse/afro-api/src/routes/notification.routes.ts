@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import {
+  getNotifications,
+  getNotificationUnreadCount,
+  readNotifications,
+} from '../controllers/notification.controller';
+import {
+  getPushSettingsController,
+  subscribePush,
+  unsubscribePush,
+  updatePushPreferencesController,
+} from '../controllers/push.controller';
+
+/**
+ * Notification Routes
+ *
+ * GET /notifications - Activity feed (cursor paginated)
+ * GET /notifications/unread-count - Badge count
+ * POST /notifications/read - Mark as read (ids, or all)
+ *
+ * Web Push:
+ * GET /notifications/push - VAPID key, preferences, device count
+ * POST /notifications/push/subscriptions - Register this device
+ * DELETE /notifications/push/subscriptions - Unregister a device
+ * PATCH /notifications/push/preferences - Toggle categories
+ */
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+router.get('/', getNotifications);
+router.get('/unread-count', getNotificationUnreadCount);
+router.post('/read', readNotifications);
+
+router.get('/push', getPushSettingsController);
+router.post('/push/subscriptions', subscribePush);
+router.delete('/push/subscriptions', unsubscribePush);
+router.patch('/push/preferences', updatePushPreferencesController);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth.middleware';
+import { respectLimiter, commentLimiter } from '../middleware/rateLimiter.middleware';
 import {
   createPost,
   getPost,
@@ -8,6 +9,13 @@ import {
   unrespectPost,
   sharePost,
 } from '../controllers/post.controller';
+import {
+  getComments,
+  getReplies,
+  postComment,
+  deleteComment,
+} from '../controllers/comment.controller';
+import { getRemixes, getPostLineage } from '../controllers/lineage.controller';
 
 const router = Router();
 
@@ -20,8 +28,18 @@ router.get('/:id', getPost);
 router.delete('/:id', deletePost);
 
 // Respect operations
-router.post('/:id/respect', respectPost);
-router.delete('/:id/respect', unrespectPost);
+router.post('/:id/respect', respectLimiter, respectPost);
+router.delete('/:id/respect', respectLimiter, unrespectPost);
+
+// Comments (one level of replies)
+router.get('/:id/comments', getComments);
+router.post('/:id/comments', commentLimiter, postComment);
+router.get('/:id/comments/:commentId/replies', getReplies);
+router.delete('/:id/comments/:commentId', deleteComment);
+
+// Remix lineage
+router.get('/:id/remixes', getRemixes);
+router.get('/:id/lineage', getPostLineage);
 
 // Share tracking
 router.post('/:id/share', sharePost);
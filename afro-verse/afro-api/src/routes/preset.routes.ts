@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { optionalAuth } from '../middleware/auth.middleware';
+import { getPresets } from '../controllers/preset.controller';
+
+/**
+ * Preset Routes
+ *
+ * GET /presets - Style preset catalog (optional auth, ?tribe=<slug>)
+ *
+ * Presets are managed from /admin/presets.
+ */
+
+const router = Router();
+
+router.get('/', optionalAuth, getPresets);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { uploadLimiter } from '../middleware/rateLimiter.middleware';
+import { uploadMiddleware } from '../controllers/media.controller';
+import { verifyProvenanceController } from '../controllers/provenance.controller';
+
+/**
+ * Provenance Routes
+ *
+ * POST /provenance/verify - Verify an image's embedded manifest (public, multipart "file")
+ */
+
+const router = Router();
+
+router.post('/verify', uploadLimiter.ip, uploadMiddleware, verifyProvenanceController);
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { reportLimiter } from '../middleware/rateLimiter.middleware';
+import { postReport } from '../controllers/report.controller';
+
+/**
+ * Report Routes
+ *
+ * POST /reports - Report a post, caption or profile
+ *
+ * Moderators work reports from /admin/reports.
+ */
+
+const router = Router();
+
+router.post('/', requireAuth, reportLimiter, postReport);
+
+export default router;
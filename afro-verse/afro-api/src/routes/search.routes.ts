@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { searchController } from '../controllers/search.controller';
+
+/**
+ * Search Routes
+ *
+ * GET /search - Search users, tribes, posts and tags
+ */
+
+const router = Router();
+
+router.get('/', requireAuth, searchController);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  handleReadObject,
+  handleWriteObject,
+  rawBodyMiddleware,
+} from '../controllers/storage.controller';
+
+/**
+ * Storage Routes
+ *
+ * /storage/*
+ *
+ * Local storage backend only. Access is controlled by HMAC-signed
+ * URLs (or the bucket being public), not by JWT.
+ */
+
+const router = Router();
+
+router.get('/:bucket/*', handleReadObject);
+router.put('/:bucket/*', rawBodyMiddleware, handleWriteObject);
+
+export default router;
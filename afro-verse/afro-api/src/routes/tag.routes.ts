@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { requireAuth, optionalAuth } from '../middleware/auth.middleware';
+import { getTrendingTagsController, getTagPostsController } from '../controllers/tag.controller';
+
+/**
+ * Tag Routes
+ *
+ * GET /tags/trending - Trending tags (optional auth)
+ * GET /tags/:tag/posts - Tag page posts
+ */
+
+const router = Router();
+
+router.get('/trending', optionalAuth, getTrendingTagsController);
+router.get('/:tag/posts', requireAuth, getTagPostsController);
+
+export default router;
@@ -4,20 +4,26 @@ import {
   getTribes,
   getTribe,
   joinTribeController,
+  switchTribeController,
   getTribePosts,
   getTribeMembers,
   getTribePreview,
+  getTribeLeaderboard,
+  getTribeStats,
 } from '../controllers/tribe.controller';
 
 /**
  * Tribe Routes
  * 
  * GET /tribes - List all tribes
+ * GET /tribes/leaderboard - Tribe-vs-tribe leaderboard (optional auth)
  * GET /tribes/:slug - Tribe header
  * POST /tribes/:slug/join - Join tribe
+ * POST /tribes/:slug/switch - Switch tribe (cooldown applies)
  * GET /tribes/:slug/posts - Tribe posts grid
  * GET /tribes/:slug/members - Tribe members
  * GET /tribes/:slug/preview - Tribe preview (optional auth)
+ * GET /tribes/:slug/stats - Daily stats time series (optional auth)
  */
 
 const router = Router();
@@ -25,15 +31,24 @@ const router = Router();
 // Tribe directory (optional auth)
 router.get('/', optionalAuth, getTribes);
 
+// Tribe leaderboard (optional auth; before /:slug)
+router.get('/leaderboard', optionalAuth, getTribeLeaderboard);
+
 // Tribe header (optional auth)
 router.get('/:slug', optionalAuth, getTribe);
 
 // Tribe preview (optional auth)
 router.get('/:slug/preview', optionalAuth, getTribePreview);
 
+// Tribe stats (optional auth)
+router.get('/:slug/stats', optionalAuth, getTribeStats);
+
 // Join tribe (auth required)
 router.post('/:slug/join', requireAuth, joinTribeController);
 
+// Switch tribe (auth required)
+router.post('/:slug/switch', requireAuth, switchTribeController);
+
 // Tribe posts (auth required)
 router.get('/:slug/posts', requireAuth, getTribePosts);
 
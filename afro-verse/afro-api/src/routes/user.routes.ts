@@ -9,6 +9,21 @@ import {
   getUserProfileController,
   getUserAvatarController,
 } from '../controllers/profile.controller';
+import {
+  requestExportController,
+  getExportController,
+  deleteAccountController,
+  getDeletionController,
+  cancelDeletionController,
+} from '../controllers/account.controller';
+import {
+  blockUserController,
+  unblockUserController,
+  listBlockedUsersController,
+  muteUserController,
+  unmuteUserController,
+  listMutedUsersController,
+} from '../controllers/block.controller';
 
 /**
  * User Routes
@@ -18,6 +33,21 @@ import {
  * PATCH /me - Update profile
  * POST /me/avatar - Set avatar
  * 
+ * Data rights:
+ * POST /me/export - Request data export
+ * GET /me/export/:id - Export status / download URL
+ * DELETE /me - Schedule account deletion
+ * GET /me/deletion - Scheduled deletion
+ * POST /me/deletion/cancel - Cancel deletion
+ * 
+ * Blocks and mutes:
+ * GET /me/blocks - Blocked accounts
+ * POST /me/blocks - Block a user
+ * DELETE /me/blocks/:userId - Unblock
+ * GET /me/mutes - Muted accounts
+ * POST /me/mutes - Mute a user
+ * DELETE /me/mutes/:userId - Unmute
+ * 
  * Public:
  * GET /users/:username - Public profile
  * GET /users/:username/posts - Profile grid
@@ -32,6 +62,21 @@ router.patch('/me', requireAuth, updateMe);
 router.post('/me/avatar', requireAuth, setMyAvatar);
 router.get('/check-username', requireAuth, checkUsername);
 
+// Data export and account deletion (auth required)
+router.post('/me/export', requireAuth, requestExportController);
+router.get('/me/export/:id', requireAuth, getExportController);
+router.delete('/me', requireAuth, deleteAccountController);
+router.get('/me/deletion', requireAuth, getDeletionController);
+router.post('/me/deletion/cancel', requireAuth, cancelDeletionController);
+
+// Blocks and mutes (auth required)
+router.get('/me/blocks', requireAuth, listBlockedUsersController);
+router.post('/me/blocks', requireAuth, blockUserController);
+router.delete('/me/blocks/:userId', requireAuth, unblockUserController);
+router.get('/me/mutes', requireAuth, listMutedUsersController);
+router.post('/me/mutes', requireAuth, muteUserController);
+router.delete('/me/mutes/:userId', requireAuth, unmuteUserController);
+
 // Public profile (optional auth)
 router.get('/:username', optionalAuth, getUserProfileController);
 router.get('/:username/avatar', optionalAuth, getUserAvatarController);
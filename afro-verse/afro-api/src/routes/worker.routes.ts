@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { handleProcessGeneration } from '../controllers/worker.controller';
+import { auditRequests } from '../middleware/audit.middleware';
 
 /**
  * Worker Routes
@@ -8,10 +9,13 @@ import { handleProcessGeneration } from '../controllers/worker.controller';
  * 
  * These endpoints are called by Cloud Tasks or internally.
  * In production, should be protected by Cloud Tasks authentication.
+ * Invocations are recorded in the audit log.
  */
 
 const router = Router();
 
+router.use(auditRequests('system'));
+
 // Process generation task
 router.post('/process-generation', handleProcessGeneration);
 
@@ -0,0 +1,73 @@
+import mongoose from 'mongoose';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { Post } from '../models/Post';
+import { Generation } from '../models/Generation';
+import { buildPostTags, recordPostTags } from '../services/tag.service';
+
+/**
+ * Backfill Post Tags
+ * 
+ * Tags posts created before hashtags/style tags were indexed
+ * (caption hashtags + preset style tag) and counts them on Tag.
+ * Safe to re-run: only posts without a tags field are touched.
+ */
+
+const BATCH_SIZE = 200;
+
+async function backfillTags() {
+  let tagged = 0;
+  let scanned = 0;
+  
+  try {
+    logger.info('Connecting to MongoDB...');
+    await mongoose.connect(env.MONGODB_URI);
+    logger.info('Connected to MongoDB');
+    
+    const cursor = Post.find({ tags: { $exists: false } })
+      .select('caption styleTag generationId createdAt')
+      .lean()
+      .cursor({ batchSize: BATCH_SIZE });
+    
+    for await (const post of cursor) {
+      scanned++;
+      
+      const generation = await Generation.findById(post.generationId).select('style').lean();
+      const tags = buildPostTags(post.caption, generation?.style?.presetId ? post.styleTag || null : null);
+      
+      await Post.updateOne({ _id: post._id }, { $set: { tags: tags.map((tag) => tag.slug) } });
+      await recordPostTags(tags, post.createdAt);
+      
+      if (tags.length > 0) {
+        tagged++;
+      }
+      
+      if (scanned % BATCH_SIZE === 0) {
+        logger.info('Backfill progress', { scanned, tagged });
+      }
+    }
+    
+    logger.info('Tag backfill finished', { scanned, tagged });
+  } catch (error) {
+    logger.error('Error backfilling tags:', error);
+    throw error;
+  } finally {
+    await mongoose.disconnect();
+    logger.info('Disconnected from MongoDB');
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  backfillTags()
+    .then(() => {
+      logger.info('Tag backfill complete');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Tag backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export default backfillTags;
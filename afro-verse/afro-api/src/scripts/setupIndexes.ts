@@ -6,6 +6,22 @@ import { User } from '../models/User';
 import { Generation } from '../models/Generation';
 import { Respect } from '../models/Respect';
 import { Tribe } from '../models/Tribe';
+import { Comment } from '../models/Comment';
+import { Notification } from '../models/Notification';
+import { PushSubscription } from '../models/PushSubscription';
+import { Report } from '../models/Report';
+import { StylePreset } from '../models/StylePreset';
+import { ImageHash } from '../models/ImageHash';
+import { AccountExport } from '../models/AccountExport';
+import { AccountDeletion } from '../models/AccountDeletion';
+import { TribeMembershipHistory } from '../models/TribeMembershipHistory';
+import { Challenge } from '../models/Challenge';
+import { ChallengeEntry } from '../models/ChallengeEntry';
+import { TribeSnapshot } from '../models/TribeSnapshot';
+import { Tag } from '../models/Tag';
+import { Block } from '../models/Block';
+import { Mute } from '../models/Mute';
+import { AuditEvent } from '../models/AuditEvent';
 
 /**
  * Setup Database Indexes
@@ -31,7 +47,16 @@ async function setupIndexes() {
     await Post.collection.createIndex({ userId: 1, status: 1, createdAt: -1 });
     await Post.collection.createIndex({ status: 1 });
     await Post.collection.createIndex({ 'rank.hotScore': -1, status: 1 });
+    await Post.collection.createIndex({ status: 1, visibility: 1, 'rank.hotScore': -1, _id: -1 });
     await Post.collection.createIndex({ generationId: 1 });
+    await Post.collection.createIndex({ 'remix.ancestorIds': 1, createdAt: -1, _id: -1 });
+    await Post.collection.createIndex({ 'remix.parentPostId': 1, createdAt: -1, _id: -1 });
+    await Post.collection.createIndex({ tags: 1, createdAt: -1, _id: -1 });
+    await Post.collection.createIndex({ status: 1, createdAt: -1, _id: -1 });
+    await Post.collection.createIndex(
+      { caption: 'text', styleTag: 'text' },
+      { weights: { styleTag: 3, caption: 1 }, name: 'post_text' }
+    );
     logger.info('Post indexes created');
 
     // User indexes
@@ -40,6 +65,7 @@ async function setupIndexes() {
     await User.collection.createIndex({ username: 1 }, { unique: true, sparse: true });
     await User.collection.createIndex({ tribeId: 1 });
     await User.collection.createIndex({ 'status.isBanned': 1 });
+    await User.collection.createIndex({ 'status.shadowbanned': 1 });
     await User.collection.createIndex({ createdAt: -1 });
     logger.info('User indexes created');
 
@@ -49,6 +75,7 @@ async function setupIndexes() {
     await Generation.collection.createIndex({ userId: 1, status: 1, createdAt: -1 });
     await Generation.collection.createIndex({ status: 1, createdAt: -1 });
     await Generation.collection.createIndex({ 'source.seedPostId': 1 });
+    await Generation.collection.createIndex({ 'error.code': 1, createdAt: -1, _id: -1 });
     logger.info('Generation indexes created');
 
     // Respect indexes (for checking if user respected a post)
@@ -56,14 +83,131 @@ async function setupIndexes() {
     await Respect.collection.createIndex({ postId: 1, userId: 1 }, { unique: true });
     await Respect.collection.createIndex({ userId: 1, createdAt: -1 });
     await Respect.collection.createIndex({ postId: 1, createdAt: -1 });
+    await Respect.collection.createIndex({ createdAt: -1 });
     logger.info('Respect indexes created');
 
     // Tribe indexes
     logger.info('Creating Tribe indexes...');
     await Tribe.collection.createIndex({ slug: 1 }, { unique: true });
     await Tribe.collection.createIndex({ 'stats.members': -1 });
+    await Tribe.collection.createIndex(
+      { name: 'text', motto: 'text' },
+      { weights: { name: 5, motto: 1 }, name: 'tribe_text' }
+    );
     logger.info('Tribe indexes created');
 
+    // Comment indexes (top-level list, replies, user history)
+    logger.info('Creating Comment indexes...');
+    await Comment.collection.createIndex({ postId: 1, parentId: 1, createdAt: -1, _id: -1 });
+    await Comment.collection.createIndex({ parentId: 1, createdAt: 1, _id: 1 });
+    await Comment.collection.createIndex({ userId: 1, createdAt: -1 });
+    logger.info('Comment indexes created');
+
+    // Notification indexes (unread aggregation, activity list, badge, TTL)
+    logger.info('Creating Notification indexes...');
+    await Notification.collection.createIndex(
+      { userId: 1, groupKey: 1 },
+      { unique: true, partialFilterExpression: { isRead: false } }
+    );
+    await Notification.collection.createIndex({ userId: 1, lastEventAt: -1, _id: -1 });
+    await Notification.collection.createIndex({ userId: 1, isRead: 1 });
+    await Notification.collection.createIndex({ lastEventAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+    logger.info('Notification indexes created');
+
+    // PushSubscription indexes (endpoint upsert, per-user fan-out, browser expiry)
+    logger.info('Creating PushSubscription indexes...');
+    await PushSubscription.collection.createIndex({ endpoint: 1 }, { unique: true });
+    await PushSubscription.collection.createIndex({ userId: 1, createdAt: -1 });
+    await PushSubscription.collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    logger.info('PushSubscription indexes created');
+
+    // Report indexes (per-reporter dedup, target weight, moderation queue)
+    logger.info('Creating Report indexes...');
+    await Report.collection.createIndex(
+      { reporterId: 1, targetType: 1, targetId: 1 },
+      { unique: true }
+    );
+    await Report.collection.createIndex({ targetType: 1, targetId: 1, status: 1 });
+    await Report.collection.createIndex({ status: 1, createdAt: -1 });
+    await Report.collection.createIndex({ targetUserId: 1, createdAt: -1 });
+    logger.info('Report indexes created');
+
+    // StylePreset indexes (slug lookup, public catalog)
+    logger.info('Creating StylePreset indexes...');
+    await StylePreset.collection.createIndex({ slug: 1 }, { unique: true });
+    await StylePreset.collection.createIndex({ enabled: 1, order: 1 });
+    logger.info('StylePreset indexes created');
+
+    // ImageHash indexes (one per image, band candidate lookup, per-user)
+    logger.info('Creating ImageHash indexes...');
+    await ImageHash.collection.createIndex(
+      { kind: 1, refId: 1, versionId: 1 },
+      { unique: true }
+    );
+    await ImageHash.collection.createIndex({ bands: 1, kind: 1 });
+    await ImageHash.collection.createIndex({ userId: 1, kind: 1, createdAt: -1 });
+    logger.info('ImageHash indexes created');
+
+    // Account export/deletion indexes (per-user history, sweeps)
+    logger.info('Creating AccountExport and AccountDeletion indexes...');
+    await AccountExport.collection.createIndex({ userId: 1, createdAt: -1 });
+    await AccountExport.collection.createIndex({ status: 1, expiresAt: 1 });
+    await AccountDeletion.collection.createIndex(
+      { userId: 1 },
+      { unique: true, partialFilterExpression: { status: 'scheduled' } }
+    );
+    await AccountDeletion.collection.createIndex({ status: 1, scheduledFor: 1 });
+    logger.info('AccountExport and AccountDeletion indexes created');
+
+    // Tribe membership history indexes (per-user trail, per-tribe inflow/outflow)
+    logger.info('Creating TribeMembershipHistory indexes...');
+    await TribeMembershipHistory.collection.createIndex({ userId: 1, createdAt: -1 });
+    await TribeMembershipHistory.collection.createIndex({ toTribeId: 1, createdAt: -1 });
+    await TribeMembershipHistory.collection.createIndex({ fromTribeId: 1, createdAt: -1 });
+    logger.info('TribeMembershipHistory indexes created');
+
+    // Challenge indexes (tribe schedule, results sweep, entry feed/limits)
+    logger.info('Creating Challenge and ChallengeEntry indexes...');
+    await Challenge.collection.createIndex({ tribeId: 1, startsAt: -1 });
+    await Challenge.collection.createIndex({ status: 1, endsAt: 1 });
+    await Challenge.collection.createIndex({ hashtag: 1, startsAt: -1 });
+    await ChallengeEntry.collection.createIndex({ challengeId: 1, postId: 1 }, { unique: true });
+    await ChallengeEntry.collection.createIndex({ challengeId: 1, visibility: 1, createdAt: -1, _id: -1 });
+    await ChallengeEntry.collection.createIndex({ challengeId: 1, userId: 1 });
+    await ChallengeEntry.collection.createIndex({ postId: 1 });
+    logger.info('Challenge and ChallengeEntry indexes created');
+    
+    // TribeSnapshot indexes (time series, leaderboard windows)
+    logger.info('Creating TribeSnapshot indexes...');
+    await TribeSnapshot.collection.createIndex({ tribeId: 1, day: -1 }, { unique: true });
+    await TribeSnapshot.collection.createIndex({ day: -1 });
+    logger.info('TribeSnapshot indexes created');
+    
+    // Tag indexes (lookup, popular tags)
+    logger.info('Creating Tag indexes...');
+    await Tag.collection.createIndex({ slug: 1 }, { unique: true });
+    await Tag.collection.createIndex({ postCount: -1 });
+    logger.info('Tag indexes created');
+    
+    // Block and Mute indexes (pair lookup, settings lists, reverse lookup)
+    logger.info('Creating Block and Mute indexes...');
+    await Block.collection.createIndex({ blockerId: 1, blockedId: 1 }, { unique: true });
+    await Block.collection.createIndex({ blockerId: 1, createdAt: -1 });
+    await Block.collection.createIndex({ blockedId: 1 });
+    await Mute.collection.createIndex({ muterId: 1, mutedId: 1 }, { unique: true });
+    await Mute.collection.createIndex({ muterId: 1, createdAt: -1 });
+    logger.info('Block and Mute indexes created');
+    
+    // AuditEvent indexes (chain order, filters)
+    logger.info('Creating AuditEvent indexes...');
+    await AuditEvent.collection.createIndex({ seq: 1 }, { unique: true });
+    await AuditEvent.collection.createIndex({ category: 1, seq: -1 });
+    await AuditEvent.collection.createIndex({ action: 1, seq: -1 });
+    await AuditEvent.collection.createIndex({ 'actor.userId': 1, seq: -1 });
+    await AuditEvent.collection.createIndex({ 'target.id': 1, seq: -1 });
+    await AuditEvent.collection.createIndex({ createdAt: -1 });
+    logger.info('AuditEvent indexes created');
+
     logger.info('All indexes created successfully!');
 
     // List all indexes for verification
@@ -83,6 +227,54 @@ async function setupIndexes() {
     const tribeIndexes = await Tribe.collection.indexes();
     logger.info('Tribe indexes:', tribeIndexes.map(i => i.name));
 
+    const commentIndexes = await Comment.collection.indexes();
+    logger.info('Comment indexes:', commentIndexes.map(i => i.name));
+
+    const notificationIndexes = await Notification.collection.indexes();
+    logger.info('Notification indexes:', notificationIndexes.map(i => i.name));
+
+    const pushSubscriptionIndexes = await PushSubscription.collection.indexes();
+    logger.info('PushSubscription indexes:', pushSubscriptionIndexes.map(i => i.name));
+
+    const reportIndexes = await Report.collection.indexes();
+    logger.info('Report indexes:', reportIndexes.map(i => i.name));
+
+    const stylePresetIndexes = await StylePreset.collection.indexes();
+    logger.info('StylePreset indexes:', stylePresetIndexes.map(i => i.name));
+
+    const imageHashIndexes = await ImageHash.collection.indexes();
+    logger.info('ImageHash indexes:', imageHashIndexes.map(i => i.name));
+
+    const accountExportIndexes = await AccountExport.collection.indexes();
+    logger.info('AccountExport indexes:', accountExportIndexes.map(i => i.name));
+
+    const accountDeletionIndexes = await AccountDeletion.collection.indexes();
+    logger.info('AccountDeletion indexes:', accountDeletionIndexes.map(i => i.name));
+
+    const tribeMembershipHistoryIndexes = await TribeMembershipHistory.collection.indexes();
+    logger.info('TribeMembershipHistory indexes:', tribeMembershipHistoryIndexes.map(i => i.name));
+
+    const challengeIndexes = await Challenge.collection.indexes();
+    logger.info('Challenge indexes:', challengeIndexes.map(i => i.name));
+
+    const challengeEntryIndexes = await ChallengeEntry.collection.indexes();
+    logger.info('ChallengeEntry indexes:', challengeEntryIndexes.map(i => i.name));
+    
+    const tribeSnapshotIndexes = await TribeSnapshot.collection.indexes();
+    logger.info('TribeSnapshot indexes:', tribeSnapshotIndexes.map(i => i.name));
+    
+    const tagIndexes = await Tag.collection.indexes();
+    logger.info('Tag indexes:', tagIndexes.map(i => i.name));
+    
+    const blockIndexes = await Block.collection.indexes();
+    logger.info('Block indexes:', blockIndexes.map(i => i.name));
+    
+    const muteIndexes = await Mute.collection.indexes();
+    logger.info('Mute indexes:', muteIndexes.map(i => i.name));
+    
+    const auditEventIndexes = await AuditEvent.collection.indexes();
+    logger.info('AuditEvent indexes:', auditEventIndexes.map(i => i.name));
+
   } catch (error) {
     logger.error('Error setting up indexes:', error);
     throw error;
@@ -0,0 +1,22 @@
+import { searchConfig } from '../config/search';
+import type { SearchBackend } from './types';
+import { mongoBackend } from './mongo';
+
+/**
+ * Search Backend Registry
+ *
+ * Resolves the configured backend (SEARCH_BACKEND).
+ */
+
+const BACKENDS: Record<SearchBackend['name'], SearchBackend> = {
+  mongo: mongoBackend,
+};
+
+/**
+ * Get the active search backend
+ */
+export function getSearchBackend(): SearchBackend {
+  return BACKENDS[searchConfig.backend];
+}
+
+export * from './types';
@@ -0,0 +1,180 @@
+import { Types } from 'mongoose';
+import { User } from '../models/User';
+import { Tribe } from '../models/Tribe';
+import { Post } from '../models/Post';
+import { Tag } from '../models/Tag';
+import { normalizeTag } from '../utils/tags';
+import { SearchBackend, SearchFilters, SearchQuery } from './types';
+
+/**
+ * Mongo Search Backend
+ *
+ * - Users: anchored regex on username (unique index) and on the start
+ *   of any word in the display name. Text indexes can't match
+ *   prefixes, and users search while typing.
+ * - Tribes: name prefix first, then the tribe text index (name, motto)
+ * - Posts: the post text index (caption, styleTag), then posts tagged
+ *   with the query's tag slug
+ * - Tags: slug prefix, most used first
+ *
+ * Merged result lists are paged by fetching offset + limit from each
+ * source, so deep pages cost more; search is for the first few pages.
+ */
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toObjectIds(ids: string[]): Types.ObjectId[] {
+  return ids.filter((id) => Types.ObjectId.isValid(id)).map((id) => new Types.ObjectId(id));
+}
+
+/**
+ * Concatenate ranked id lists, dropping repeats, and take one page
+ */
+function mergePage(lists: string[][], offset: number, limit: number): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+
+  for (const list of lists) {
+    for (const id of list) {
+      if (!seen.has(id)) {
+        seen.add(id);
+        merged.push(id);
+      }
+    }
+  }
+
+  return merged.slice(offset, offset + limit);
+}
+
+/**
+ * Post visibility: active, public or from the viewer's tribe, not by a
+ * hidden author
+ */
+function visiblePostFilter(filters: SearchFilters): Record<string, any> {
+  const visible: any[] = [{ visibility: 'public' }];
+  if (filters.viewerTribeId && Types.ObjectId.isValid(filters.viewerTribeId)) {
+    visible.push({ tribeId: new Types.ObjectId(filters.viewerTribeId) });
+  }
+
+  return {
+    status: 'active',
+    $or: visible,
+    userId: { $nin: toObjectIds(filters.excludeUserIds) },
+  };
+}
+
+export const mongoBackend: SearchBackend = {
+  name: 'mongo',
+
+  async searchUsers({ text, limit, offset, filters }: SearchQuery) {
+    const window = offset + limit;
+    const excluded = { $nin: toObjectIds(filters.excludeUserIds) };
+    const handle = text.replace(/^@/, '').toLowerCase();
+
+    const [byUsername, byDisplayName] = await Promise.all([
+      /^[a-z0-9_]+$/.test(handle)
+        ? User.find({ _id: excluded, username: { $regex: `^${handle}` } })
+            .sort({ username: 1 })
+            .limit(window)
+            .select('_id')
+            .lean()
+        : Promise.resolve([]),
+      User.find({
+        _id: excluded,
+        displayName: { $regex: `(^|\\s)${escapeRegex(text)}`, $options: 'i' },
+      })
+        .sort({ displayName: 1 })
+        .limit(window)
+        .select('_id')
+        .lean(),
+    ]);
+
+    return mergePage(
+      [byUsername.map((user) => user._id.toString()), byDisplayName.map((user) => user._id.toString())],
+      offset,
+      limit
+    );
+  },
+
+  async searchTribes({ text, limit, offset }: SearchQuery) {
+    const window = offset + limit;
+
+    const [byName, byText] = await Promise.all([
+      Tribe.find({ name: { $regex: `^${escapeRegex(text)}`, $options: 'i' } })
+        .sort({ name: 1 })
+        .limit(window)
+        .select('_id')
+        .lean(),
+      Tribe.find({ $text: { $search: text } }, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' } })
+        .limit(window)
+        .select('_id')
+        .lean(),
+    ]);
+
+    return mergePage(
+      [byName.map((tribe) => tribe._id.toString()), byText.map((tribe) => tribe._id.toString())],
+      offset,
+      limit
+    );
+  },
+
+  async searchPosts({ text, limit, offset, filters }: SearchQuery) {
+    const window = offset + limit;
+    const visible = visiblePostFilter(filters);
+    const tag = normalizeTag(text);
+
+    const [byText, byTag] = await Promise.all([
+      Post.find({ ...visible, $text: { $search: text } }, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+        .limit(window)
+        .select('_id')
+        .lean(),
+      tag
+        ? Post.find({ ...visible, tags: tag })
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(window)
+            .select('_id')
+            .lean()
+        : Promise.resolve([]),
+    ]);
+
+    return mergePage(
+      [byText.map((post) => post._id.toString()), byTag.map((post) => post._id.toString())],
+      offset,
+      limit
+    );
+  },
+
+  async searchTags({ text, limit, offset, filters }: SearchQuery) {
+    const prefix = normalizeTag(text);
+
+    if (!prefix) {
+      return [];
+    }
+
+    // Tags used only on posts the viewer can't see stay hidden
+    const candidates = await Tag.find({ slug: { $regex: `^${prefix}` } })
+      .sort({ postCount: -1, slug: 1 })
+      .limit((offset + limit) * 3)
+      .select('slug')
+      .lean();
+
+    const visible = visiblePostFilter(filters);
+    const slugs: string[] = [];
+
+    for (const candidate of candidates) {
+      if (slugs.length >= offset + limit) {
+        break;
+      }
+
+      if (await Post.exists({ ...visible, tags: candidate.slug })) {
+        slugs.push(candidate.slug);
+      }
+    }
+
+    return slugs.slice(offset, offset + limit);
+  },
+};
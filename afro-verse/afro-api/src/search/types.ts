@@ -0,0 +1,51 @@
+/**
+ * Search Backend Types
+ *
+ * Every search engine (Mongo text indexes, or an external engine)
+ * implements this interface so search.service can stay
+ * backend-agnostic. Backends return ranked ids only; search.service
+ * hydrates them and re-checks visibility, so a stale external index
+ * can't leak hidden users or posts.
+ *
+ * External engines own keeping their index in sync with Mongo.
+ * Methods throw on failure; search.service turns those into
+ * `{ success, error }` results.
+ */
+
+export type SearchBackendName = 'mongo';
+
+export interface SearchFilters {
+  viewerTribeId?: string; // Tribe-only posts from this tribe are visible
+  excludeUserIds: string[]; // Moderated, blocked and muted authors
+}
+
+export interface SearchQuery {
+  text: string; // Trimmed, 2-50 chars
+  limit: number;
+  offset: number;
+  filters: SearchFilters;
+}
+
+export interface SearchBackend {
+  name: SearchBackendName;
+
+  /**
+   * Users by username/display name prefix
+   */
+  searchUsers(query: SearchQuery): Promise<string[]>;
+
+  /**
+   * Tribes by name/motto
+   */
+  searchTribes(query: SearchQuery): Promise<string[]>;
+
+  /**
+   * Active, visible posts by caption and style tag
+   */
+  searchPosts(query: SearchQuery): Promise<string[]>;
+
+  /**
+   * Tags by slug prefix (returns slugs)
+   */
+  searchTags(query: SearchQuery): Promise<string[]>;
+}
@@ -7,6 +7,11 @@ import { env } from './config/env';
 import { logger } from './utils/logger';
 import { connectDatabase } from './config/db';
 import { scheduleSecurityJobs } from './jobs/securityCleanup';
+import { scheduleRankingJobs } from './jobs/hotScore';
+import { scheduleAccountJobs } from './jobs/accountCleanup';
+import { scheduleChallengeJobs } from './jobs/challengeResults';
+import { scheduleTribeStatsJobs } from './jobs/tribeStats';
+import { startTaskWorker, stopTaskWorker } from './services/tasks.service';
 
 /**
  * Server Entry Point (Local Development)
@@ -37,6 +42,15 @@ async function startServer() {
       logger.info('Scheduling security jobs...');
       scheduleSecurityJobs();
       logger.info('✅ Security jobs scheduled');
+      
+      scheduleRankingJobs();
+      scheduleAccountJobs();
+      scheduleChallengeJobs();
+      scheduleTribeStatsJobs();
+      
+      if (startTaskWorker()) {
+        logger.info('✅ Queue worker started');
+      }
     }
 
     // Start server
@@ -52,6 +66,8 @@ async function startServer() {
     process.on('SIGTERM', async () => {
       logger.info('SIGTERM received, shutting down gracefully...');
       
+      await stopTaskWorker();
+      
       await mongoose.connection.close();
       logger.info('MongoDB connection closed');
       
@@ -69,6 +85,8 @@ async function startServer() {
     process.on('SIGINT', async () => {
       logger.info('SIGINT received, shutting down gracefully...');
       
+      await stopTaskWorker();
+      
       await mongoose.connection.close();
       
       try {
@@ -0,0 +1,913 @@
+import mongoose, { Types } from 'mongoose';
+import { User, IUser } from '../models/User';
+import { UserSelfie } from '../models/UserSelfie';
+import { Generation, IGeneration } from '../models/Generation';
+import { Post, IPost } from '../models/Post';
+import { Respect } from '../models/Respect';
+import Follow from '../models/Follow';
+import { Block } from '../models/Block';
+import { Mute } from '../models/Mute';
+import { Comment } from '../models/Comment';
+import { Tribe } from '../models/Tribe';
+import { Notification } from '../models/Notification';
+import { PushSubscription } from '../models/PushSubscription';
+import { RefreshToken } from '../models/RefreshToken';
+import { ImageHash } from '../models/ImageHash';
+import { TribeMembershipHistory } from '../models/TribeMembershipHistory';
+import { ChallengeEntry } from '../models/ChallengeEntry';
+import { Report } from '../models/Report';
+import { AccountExport, IAccountExport } from '../models/AccountExport';
+import { AccountDeletion, IAccountDeletion } from '../models/AccountDeletion';
+import { BUCKETS } from '../config/buckets';
+import { env } from '../config/env';
+import { securityConfig } from '../config/security';
+import { isConnectionReady } from '../config/db';
+import { bulkDeleteFiles, deleteFile, downloadFile, generateSignedUrl, uploadBuffer } from './storage.service';
+import { revokeAllTokens } from './auth.service';
+import { recordAuditEvent } from './audit.service';
+import { enqueueAccountExportTask } from './tasks.service';
+import { deleteCommentWithCounters } from '../utils/transactions';
+import { createZip, ZipEntry } from '../utils/zip';
+import { logger } from '../utils/logger';
+
+/**
+ * Account Service
+ *
+ * Self-serve data rights (POPIA/GDPR):
+ * - Export: zip of profile, posts, generations, selfies and social
+ *   activity, built by the account-export job and downloaded through a
+ *   short-lived signed URL
+ * - Deletion: scheduled after a grace period (cancellable), then the
+ *   account sweep purges content, storage objects and counters on other
+ *   users, posts and tribes, and records what was erased
+ */
+
+const config = securityConfig.account;
+
+// Generation images live in RAW_GENERATIONS (generation jobs) or the
+// transformation buckets (v1 transformations)
+const GENERATION_BUCKETS = [
+  BUCKETS.RAW_GENERATIONS,
+  BUCKETS.TRANSFORMATIONS,
+  BUCKETS.DERIVATIVES,
+  BUCKETS.PRIVATE_GALLERY,
+];
+
+// Selfies: proxy uploads go to PRIVATE_GALLERY, direct uploads to GCS_BUCKET_NAME
+const SELFIE_BUCKETS = [...new Set<string>([BUCKETS.PRIVATE_GALLERY, env.GCS_BUCKET_NAME])];
+
+const STALE_EXPORT_MS = 60 * 60 * 1000; // Exports not built within this failed
+
+export interface AccountExportView {
+  exportId: string;
+  status: IAccountExport['status'];
+  sizeBytes: number | null;
+  downloadUrl: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+export interface AccountDeletionView {
+  deletionId: string;
+  status: IAccountDeletion['status'];
+  requestedAt: Date;
+  scheduledFor: Date;
+}
+
+function toDeletionView(deletion: IAccountDeletion): AccountDeletionView {
+  return {
+    deletionId: deletion._id.toString(),
+    status: deletion.status,
+    requestedAt: deletion.requestedAt,
+    scheduledFor: deletion.scheduledFor,
+  };
+}
+
+function exportPath(userId: string, exportId: string): string {
+  return `exports/${userId}/${exportId}.zip`;
+}
+
+function extensionOf(path: string): string {
+  const match = path.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : 'bin';
+}
+
+async function downloadFromAny(buckets: string[], path: string): Promise<Buffer | null> {
+  for (const bucket of buckets) {
+    const download = await downloadFile(bucket, path);
+    if (download.success && download.buffer) {
+      return download.buffer;
+    }
+  }
+  return null;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Request a data export
+ *
+ * One export in flight at a time, and one per cooldown window.
+ */
+export async function requestAccountExport(userId: string): Promise<{
+  success: boolean;
+  export?: AccountExportView;
+  retryAfter?: Date;
+  error?: string;
+}> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const user = await User.exists({ _id: userId });
+    if (!user) {
+      return { success: false, error: 'user_not_found' };
+    }
+
+    const inFlight = await AccountExport.exists({
+      userId,
+      status: { $in: ['queued', 'running'] },
+    });
+    if (inFlight) {
+      return { success: false, error: 'export_in_progress' };
+    }
+
+    const cooldownStart = new Date(Date.now() - config.exportCooldownHours * 60 * 60 * 1000);
+    const recent = await AccountExport.findOne({
+      userId,
+      status: { $in: ['ready', 'expired'] },
+      createdAt: { $gte: cooldownStart },
+    })
+      .sort({ createdAt: -1 })
+      .select('createdAt')
+      .lean();
+
+    if (recent) {
+      return {
+        success: false,
+        error: 'export_rate_limited',
+        retryAfter: new Date(recent.createdAt.getTime() + config.exportCooldownHours * 60 * 60 * 1000),
+      };
+    }
+
+    const accountExport = await AccountExport.create({ userId, status: 'queued' });
+    const exportId = accountExport._id.toString();
+
+    try {
+      await enqueueAccountExportTask({ exportId });
+    } catch (error: any) {
+      await AccountExport.updateOne(
+        { _id: accountExport._id },
+        { $set: { status: 'failed', error: 'enqueue_failed' } }
+      );
+      return { success: false, error: 'enqueue_failed' };
+    }
+
+    logger.info('Account export requested', { userId, exportId });
+
+    return { success: true, export: await toExportView(accountExport) };
+  } catch (error: any) {
+    logger.error('Error requesting account export', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+async function toExportView(accountExport: IAccountExport): Promise<AccountExportView> {
+  let downloadUrl: string | null = null;
+
+  if (accountExport.status === 'ready' && accountExport.path) {
+    const signed = await generateSignedUrl(
+      BUCKETS.PRIVATE_GALLERY,
+      accountExport.path,
+      config.exportDownloadUrlTtl
+    );
+    downloadUrl = signed.success ? signed.url || null : null;
+  }
+
+  return {
+    exportId: accountExport._id.toString(),
+    status: accountExport.status,
+    sizeBytes: accountExport.sizeBytes ?? null,
+    downloadUrl,
+    createdAt: accountExport.createdAt,
+    completedAt: accountExport.completedAt || null,
+    expiresAt: accountExport.expiresAt || null,
+  };
+}
+
+/**
+ * Get one of the user's exports (with a download URL once ready)
+ */
+export async function getAccountExport(
+  userId: string,
+  exportId: string
+): Promise<{ success: boolean; export?: AccountExportView; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(exportId)) {
+      return { success: false, error: 'export_not_found' };
+    }
+
+    const accountExport = await AccountExport.findOne({ _id: exportId, userId });
+
+    if (!accountExport) {
+      return { success: false, error: 'export_not_found' };
+    }
+
+    return { success: true, export: await toExportView(accountExport) };
+  } catch (error: any) {
+    logger.error('Error getting account export', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Collect the user's data as zip entries
+ */
+async function collectExportEntries(user: IUser): Promise<{
+  entries: ZipEntry[];
+  counts: NonNullable<IAccountExport['counts']>;
+}> {
+  const userId = user._id;
+
+  const [tribe, posts, generations, selfies, following, followers, respects, comments] =
+    await Promise.all([
+      user.tribeId ? Tribe.findById(user.tribeId).select('slug name').lean() : null,
+      Post.find({ userId }).sort({ createdAt: -1 }).lean<IPost[]>(),
+      Generation.find({ userId }).sort({ createdAt: -1 }).lean<IGeneration[]>(),
+      UserSelfie.find({ userId, status: 'active' }).sort({ createdAt: -1 }).lean(),
+      Follow.find({ follower: userId }).populate('following', 'username').lean(),
+      Follow.find({ following: userId }).populate('follower', 'username').lean(),
+      Respect.find({ userId }).select('postId createdAt').lean(),
+      Comment.find({ userId }).select('postId parentId body status createdAt').lean(),
+    ]);
+
+  const entries: ZipEntry[] = [];
+  const missing: string[] = [];
+  let imageBytes = 0;
+  let images = 0;
+
+  const addImage = async (name: string, buckets: string[], path: string | undefined) => {
+    if (!path) {
+      return null;
+    }
+    if (imageBytes >= config.exportMaxImageBytes) {
+      missing.push(name);
+      return null;
+    }
+
+    const buffer = await downloadFromAny(buckets, path);
+    if (!buffer) {
+      missing.push(name);
+      return null;
+    }
+
+    imageBytes += buffer.length;
+    images++;
+    entries.push({ name, data: buffer, compress: false });
+    return name;
+  };
+
+  const generationData = [];
+  for (const generation of generations) {
+    const versions = [];
+    for (const version of generation.versions) {
+      const path = version.cleanImagePath || version.imagePath;
+      const file = await addImage(
+        `generations/${generation._id}/${version.versionId}.${extensionOf(path)}`,
+        GENERATION_BUCKETS,
+        path
+      );
+      versions.push({ versionId: version.versionId, createdAt: version.createdAt, file });
+    }
+
+    generationData.push({
+      generationId: generation._id.toString(),
+      status: generation.status,
+      mode: generation.source?.mode,
+      presetId: generation.style?.presetId,
+      prompt: generation.style?.prompt,
+      parameters: generation.style?.parameters,
+      provider: generation.provider?.name,
+      model: generation.provider?.model,
+      versions,
+      createdAt: generation.createdAt,
+    });
+  }
+
+  const selfieData = [];
+  for (const selfie of selfies) {
+    const file = await addImage(
+      `selfies/${selfie._id}.${extensionOf(selfie.gcsPath)}`,
+      SELFIE_BUCKETS,
+      selfie.gcsPath
+    );
+    selfieData.push({
+      selfieId: selfie._id.toString(),
+      mimeType: selfie.mimeType,
+      width: selfie.width,
+      height: selfie.height,
+      file,
+      createdAt: selfie.createdAt,
+    });
+  }
+
+  const json = (name: string, data: any) =>
+    entries.unshift({ name, data: Buffer.from(JSON.stringify(data, null, 2), 'utf-8') });
+
+  json('profile.json', {
+    id: userId.toString(),
+    phoneE164: user.phoneE164,
+    username: user.username,
+    displayName: user.displayName,
+    bio: user.bio || null,
+    tribe: tribe ? { slug: tribe.slug, name: tribe.name, joinedAt: user.tribeJoinedAt } : null,
+    avatar: user.avatar?.generationId
+      ? { generationId: user.avatar.generationId.toString(), versionId: user.avatar.versionId }
+      : null,
+    counters: {
+      posts: user.counters?.posts || 0,
+      respectsReceived: user.counters?.respectsReceived || 0,
+      followers: user.followersCount || 0,
+      following: user.followingCount || 0,
+    },
+    preferences: user.preferences,
+    status: user.status,
+    createdAt: user.createdAt,
+  });
+
+  json('posts.json', posts.map((post) => ({
+    postId: post._id.toString(),
+    generationId: post.generationId.toString(),
+    versionId: post.versionId,
+    caption: post.caption,
+    styleTag: post.styleTag,
+    tags: post.tags || [],
+    visibility: post.visibility,
+    status: post.status,
+    counts: post.counts,
+    remixOf: post.remix?.parentPostId?.toString() || null,
+    createdAt: post.createdAt,
+  })));
+
+  json('generations.json', generationData);
+  json('selfies.json', selfieData);
+
+  json('activity.json', {
+    following: following.map((f: any) => ({
+      username: f.following?.username || null,
+      since: f.createdAt,
+    })),
+    followers: followers.map((f: any) => ({
+      username: f.follower?.username || null,
+      since: f.createdAt,
+    })),
+    respects: respects.map((r) => ({ postId: r.postId.toString(), createdAt: r.createdAt })),
+    comments: comments.map((c) => ({
+      postId: c.postId.toString(),
+      parentId: c.parentId?.toString() || null,
+      body: c.status === 'active' ? c.body : null,
+      status: c.status,
+      createdAt: c.createdAt,
+    })),
+  });
+
+  json('export.json', {
+    exportedAt: new Date().toISOString(),
+    userId: userId.toString(),
+    imagesNotIncluded: missing,
+  });
+
+  return {
+    entries,
+    counts: {
+      posts: posts.length,
+      generations: generations.length,
+      selfies: selfies.length,
+      images,
+    },
+  };
+}
+
+/**
+ * Build an export archive (account-export job)
+ *
+ * Idempotent: only a queued export is built. Failures are recorded on
+ * the export; the user can request a new one.
+ */
+export async function buildAccountExport(exportId: string): Promise<{
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+}> {
+  if (!Types.ObjectId.isValid(exportId)) {
+    return { success: false, error: 'invalid_export_id' };
+  }
+
+  const accountExport = await AccountExport.findOneAndUpdate(
+    { _id: exportId, status: 'queued' },
+    { $set: { status: 'running', startedAt: new Date() } },
+    { new: true }
+  );
+
+  if (!accountExport) {
+    return { success: true, skipped: true };
+  }
+
+  const userId = accountExport.userId.toString();
+
+  try {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const { entries, counts } = await collectExportEntries(user);
+    const archive = createZip(entries);
+    const path = exportPath(userId, exportId);
+
+    const upload = await uploadBuffer(BUCKETS.PRIVATE_GALLERY, path, archive, {
+      contentType: 'application/zip',
+      metadata: { userId, exportId },
+      cacheControl: 'private, no-store',
+    });
+
+    if (!upload.success) {
+      throw new Error(upload.error || 'Failed to store export');
+    }
+
+    const completedAt = new Date();
+    await AccountExport.updateOne(
+      { _id: accountExport._id },
+      {
+        $set: {
+          status: 'ready',
+          path,
+          sizeBytes: archive.length,
+          counts,
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + config.exportTtlHours * 60 * 60 * 1000),
+        },
+      }
+    );
+
+    logger.info('Account export ready', {
+      userId,
+      exportId,
+      sizeBytes: archive.length,
+      ...counts,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Account export failed', { userId, exportId, error: error.message });
+
+    await AccountExport.updateOne(
+      { _id: accountExport._id },
+      { $set: { status: 'failed', error: error.message } }
+    );
+
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Delete expired export archives and fail exports that never finished
+ */
+async function expireAccountExports(): Promise<number> {
+  const expired = await AccountExport.find({
+    status: 'ready',
+    expiresAt: { $lte: new Date() },
+  })
+    .select('path')
+    .limit(100)
+    .lean();
+
+  let count = 0;
+  for (const accountExport of expired) {
+    const result = accountExport.path
+      ? await deleteFile(BUCKETS.PRIVATE_GALLERY, accountExport.path)
+      : { success: true };
+
+    if (result.success) {
+      await AccountExport.updateOne(
+        { _id: accountExport._id },
+        { $set: { status: 'expired' }, $unset: { path: 1 } }
+      );
+      count++;
+    }
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_EXPORT_MS);
+  await AccountExport.updateMany(
+    {
+      $or: [
+        { status: 'running', startedAt: { $lt: staleBefore } },
+        { status: 'queued', createdAt: { $lt: staleBefore } },
+      ],
+    },
+    { $set: { status: 'failed', error: 'timed_out' } }
+  );
+
+  return count;
+}
+
+// ============================================
+// DELETION
+// ============================================
+
+/**
+ * Schedule account deletion after the grace period
+ *
+ * Signs the user out everywhere. Idempotent: an existing scheduled
+ * request is returned unchanged.
+ */
+export async function requestAccountDeletion(userId: string): Promise<{
+  success: boolean;
+  deletion?: AccountDeletionView;
+  error?: string;
+}> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const userObjectId = new Types.ObjectId(userId);
+    const user = await User.exists({ _id: userObjectId });
+    if (!user) {
+      return { success: false, error: 'user_not_found' };
+    }
+
+    let deletion = await AccountDeletion.findOne({ userId: userObjectId, status: 'scheduled' });
+
+    if (!deletion) {
+      const requestedAt = new Date();
+      try {
+        deletion = await AccountDeletion.create({
+          userId: userObjectId,
+          requestedAt,
+          scheduledFor: new Date(requestedAt.getTime() + config.deletionGraceDays * 24 * 60 * 60 * 1000),
+        });
+      } catch (error: any) {
+        // Concurrent request won the partial unique index
+        if (error.code !== 11000) {
+          throw error;
+        }
+        deletion = await AccountDeletion.findOne({ userId: userObjectId, status: 'scheduled' });
+      }
+
+      await recordAuditEvent({
+        category: 'account',
+        action: 'account.deletion_requested',
+        actorId: userId,
+        target: { type: 'user', id: userId },
+        metadata: { scheduledFor: deletion?.scheduledFor },
+      });
+
+      logger.info('Account deletion scheduled', {
+        userId,
+        scheduledFor: deletion?.scheduledFor,
+      });
+    }
+
+    await revokeAllTokens(userObjectId, 'account_deletion');
+
+    return { success: true, deletion: toDeletionView(deletion!) };
+  } catch (error: any) {
+    logger.error('Error requesting account deletion', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Cancel a scheduled deletion (within the grace period)
+ */
+export async function cancelAccountDeletion(userId: string): Promise<{
+  success: boolean;
+  deletion?: AccountDeletionView;
+  error?: string;
+}> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const deletion = await AccountDeletion.findOneAndUpdate(
+      { userId, status: 'scheduled' },
+      { $set: { status: 'cancelled', cancelledAt: new Date() } },
+      { new: true }
+    );
+
+    if (!deletion) {
+      return { success: false, error: 'deletion_not_scheduled' };
+    }
+
+    await recordAuditEvent({
+      category: 'account',
+      action: 'account.deletion_cancelled',
+      actorId: userId,
+      target: { type: 'user', id: userId },
+    });
+
+    logger.info('Account deletion cancelled', { userId });
+
+    return { success: true, deletion: toDeletionView(deletion) };
+  } catch (error: any) {
+    logger.error('Error cancelling account deletion', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Get the user's scheduled deletion, if any
+ */
+export async function getAccountDeletion(userId: string): Promise<AccountDeletionView | null> {
+  if (!Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+
+  const deletion = await AccountDeletion.findOne({ userId, status: 'scheduled' });
+  return deletion ? toDeletionView(deletion) : null;
+}
+
+/**
+ * Decrement a counter by n without going below zero
+ */
+async function decrementCounter(
+  model: mongoose.Model<any>,
+  id: Types.ObjectId,
+  field: string,
+  n: number
+): Promise<void> {
+  await model.updateOne({ _id: id }, [
+    { $set: { [field]: { $max: [0, { $subtract: [`$${field}`, n] }] } } },
+  ]);
+}
+
+/**
+ * Erase an account and everything it owns
+ *
+ * Storage objects go first: if any deletion fails the purge throws
+ * before the records that hold the paths are gone, and is retried.
+ * Every step is safe to re-run: each record is deleted before the
+ * counters it feeds are decremented, and only if this run deleted it,
+ * so a retry never decrements twice.
+ * Reports filed by or about the user are deleted as well, so the
+ * account leaves nothing behind in the moderation queue.
+ */
+export async function purgeAccount(userId: Types.ObjectId): Promise<Record<string, number>> {
+  const purged: Record<string, number> = {};
+  const user = await User.findById(userId).select('tribeId').lean();
+
+  // 1. Storage: generation images, selfies, export archives
+  const [generations, selfies, exports] = await Promise.all([
+    Generation.find({ userId }).select('versions').lean<IGeneration[]>(),
+    UserSelfie.find({ userId }).select('gcsPath').lean(),
+    AccountExport.find({ userId, path: { $exists: true } }).select('path').lean(),
+  ]);
+
+  const generationPaths = generations.flatMap((generation) =>
+    generation.versions.flatMap((v) => [
+      v.imagePath,
+      v.thumbPath,
+      v.watermarkedImagePath,
+      v.watermarkedThumbPath,
+      v.cleanImagePath,
+      v.cleanThumbPath,
+    ])
+  ).filter((path): path is string => !!path);
+
+  const storageDeletes = [
+    ...GENERATION_BUCKETS.map((bucket) => bulkDeleteFiles(bucket, [...new Set(generationPaths)])),
+    ...SELFIE_BUCKETS.map((bucket) => bulkDeleteFiles(bucket, selfies.map((s) => s.gcsPath))),
+    bulkDeleteFiles(BUCKETS.PRIVATE_GALLERY, exports.map((e) => e.path!)),
+  ];
+  const storageResults = await Promise.all(storageDeletes);
+  const storageFailed = storageResults.reduce((sum, r) => sum + r.failed, 0);
+
+  if (storageFailed > 0) {
+    throw new Error(`Failed to delete ${storageFailed} storage objects`);
+  }
+
+  purged.storageObjects = new Set(generationPaths).size + selfies.length + exports.length;
+
+  // 2. Respects given: repair post and owner counters
+  const respects = await Respect.find({ userId }).select('postId').lean();
+  purged.respects = 0;
+  if (respects.length > 0) {
+    const respectedPosts = await Post.find({ _id: { $in: respects.map((r) => r.postId) } })
+      .select('userId')
+      .lean<IPost[]>();
+    const ownerByPost = new Map(respectedPosts.map((p) => [p._id.toString(), p.userId]));
+
+    for (const respect of respects) {
+      const removed = await Respect.deleteOne({ _id: respect._id });
+      if (!removed.deletedCount) continue;
+
+      purged.respects++;
+      const ownerId = ownerByPost.get(respect.postId.toString());
+      if (ownerId) {
+        await decrementCounter(Post, respect.postId, 'counts.respects', 1);
+        await decrementCounter(User, ownerId, 'counters.respectsReceived', 1);
+      }
+    }
+  }
+
+  // 3. Follows: repair the other side's counters
+  const follows = await Follow.find({
+    $or: [{ follower: userId }, { following: userId }],
+  }).select('follower following').lean();
+  purged.follows = 0;
+  for (const f of follows) {
+    const removed = await Follow.deleteOne({ _id: f._id });
+    if (!removed.deletedCount) continue;
+
+    purged.follows++;
+    if (f.follower.equals(userId)) {
+      await decrementCounter(User, f.following, 'followersCount', 1);
+    } else {
+      await decrementCounter(User, f.follower, 'followingCount', 1);
+    }
+  }
+
+  // 4. Posts: drop everything attached to them, then delete each post
+  //    together with its remix-ancestor and tribe counter fixes
+  const posts = await Post.find({ userId }).select('tribeId remix').lean<IPost[]>();
+  const postIds = posts.map((p) => p._id);
+
+  if (postIds.length > 0) {
+    await Comment.deleteMany({ postId: { $in: postIds } });
+    await Respect.deleteMany({ postId: { $in: postIds } });
+    await Notification.deleteMany({ 'target.postId': { $in: postIds } });
+  }
+
+  purged.posts = 0;
+  for (const post of posts) {
+    const removed = await Post.deleteOne({ _id: post._id });
+    if (!removed.deletedCount) continue;
+
+    purged.posts++;
+    if (post.remix?.ancestorIds?.length) {
+      await Post.updateMany(
+        { _id: { $in: post.remix.ancestorIds }, userId: { $ne: userId }, 'counts.remixes': { $gt: 0 } },
+        { $inc: { 'counts.remixes': -1 } }
+      );
+    }
+    if (post.tribeId) {
+      await decrementCounter(Tribe, post.tribeId, 'stats.posts', 1);
+    }
+  }
+
+  // 5. Comments on other users' posts: soft delete with counters, then erase
+  const ownComments = await Comment.find({
+    userId,
+    postId: { $nin: postIds },
+    status: 'active',
+  }).select('_id').lean();
+  for (const comment of ownComments) {
+    await deleteCommentWithCounters(comment._id, 'deleted');
+  }
+  purged.comments = (await Comment.updateMany(
+    { userId, postId: { $nin: postIds } },
+    { $set: { body: '[deleted]' } }
+  )).modifiedCount || 0;
+
+  // 6. Owned records
+  purged.generations = (await Generation.deleteMany({ userId })).deletedCount || 0;
+  purged.selfies = (await UserSelfie.deleteMany({ userId })).deletedCount || 0;
+  purged.exports = (await AccountExport.deleteMany({ userId })).deletedCount || 0;
+  purged.imageHashes = (await ImageHash.deleteMany({ userId })).deletedCount || 0;
+  purged.tribeHistory = (await TribeMembershipHistory.deleteMany({ userId })).deletedCount || 0;
+  purged.challengeEntries = (await ChallengeEntry.deleteMany({ userId })).deletedCount || 0;
+  await Tribe.updateMany({ leadIds: userId }, { $pull: { leadIds: userId } });
+  purged.blocks = (await Block.deleteMany({ $or: [{ blockerId: userId }, { blockedId: userId }] })).deletedCount || 0;
+  purged.mutes = (await Mute.deleteMany({ $or: [{ muterId: userId }, { mutedId: userId }] })).deletedCount || 0;
+  purged.reports = (await Report.deleteMany({
+    $or: [{ reporterId: userId }, { targetUserId: userId }],
+  })).deletedCount || 0;
+  purged.notifications = (await Notification.deleteMany({ userId })).deletedCount || 0;
+  await Notification.updateMany({ actorIds: userId }, { $pull: { actorIds: userId } });
+  purged.pushSubscriptions = (await PushSubscription.deleteMany({ userId })).deletedCount || 0;
+  purged.refreshTokens = (await RefreshToken.deleteMany({ userId })).deletedCount || 0;
+
+  // 7. The user (tribe membership last, so a retry can't repeat it)
+  if (user) {
+    const removed = await User.deleteOne({ _id: userId });
+    if (removed.deletedCount && user.tribeId) {
+      await decrementCounter(Tribe, user.tribeId, 'stats.members', 1);
+    }
+    purged.users = removed.deletedCount || 0;
+  }
+
+  return purged;
+}
+
+/**
+ * Purge accounts whose grace period has ended
+ */
+async function processDueDeletions(): Promise<{ completed: number; failed: number }> {
+  const due = await AccountDeletion.find({
+    status: 'scheduled',
+    scheduledFor: { $lte: new Date() },
+  })
+    .sort({ scheduledFor: 1 })
+    .limit(20)
+    .lean();
+
+  let completed = 0;
+  let failed = 0;
+
+  for (const deletion of due) {
+    // Claim: another instance sweeping at the same time won't match
+    const claimed = await AccountDeletion.findOneAndUpdate(
+      { _id: deletion._id, status: 'scheduled', attempts: deletion.attempts },
+      { $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!claimed) {
+      continue;
+    }
+
+    const userId = deletion.userId.toString();
+
+    try {
+      const purged = await purgeAccount(deletion.userId);
+
+      await AccountDeletion.updateOne(
+        { _id: deletion._id },
+        { $set: { status: 'completed', completedAt: new Date(), purged }, $unset: { lastError: 1 } }
+      );
+
+      await recordAuditEvent({
+        category: 'account',
+        action: 'account.deleted',
+        target: { type: 'user', id: userId },
+        metadata: { deletionId: deletion._id, purged },
+      });
+
+      logger.info('Account deleted', { userId, deletionId: deletion._id.toString(), purged });
+      completed++;
+    } catch (error: any) {
+      const exhausted = claimed.attempts >= config.deletionMaxAttempts;
+
+      await AccountDeletion.updateOne(
+        { _id: deletion._id },
+        { $set: { lastError: error.message, ...(exhausted ? { status: 'failed' } : {}) } }
+      );
+
+      await recordAuditEvent({
+        category: 'account',
+        action: 'account.deleted',
+        outcome: 'failure',
+        target: { type: 'user', id: userId },
+        metadata: { deletionId: deletion._id, attempt: claimed.attempts, exhausted, error: error.message },
+      });
+
+      logger.error('Account deletion failed', {
+        userId,
+        deletionId: deletion._id.toString(),
+        attempt: claimed.attempts,
+        exhausted,
+        error: error.message,
+      });
+      failed++;
+    }
+  }
+
+  return { completed, failed };
+}
+
+/**
+ * Account sweep: purge due deletions and expire export archives
+ *
+ * Run hourly (jobs/accountCleanup, or GET /api/cron/account-sweep).
+ */
+export async function runAccountSweep(): Promise<{
+  deletionsCompleted: number;
+  deletionsFailed: number;
+  exportsExpired: number;
+}> {
+  if (!isConnectionReady()) {
+    logger.warn('MongoDB not connected, skipping account sweep');
+    return { deletionsCompleted: 0, deletionsFailed: 0, exportsExpired: 0 };
+  }
+
+  try {
+    const deletions = await processDueDeletions();
+    const exportsExpired = await expireAccountExports();
+
+    logger.info('Account sweep completed', { ...deletions, exportsExpired });
+
+    return {
+      deletionsCompleted: deletions.completed,
+      deletionsFailed: deletions.failed,
+      exportsExpired,
+    };
+  } catch (error: any) {
+    logger.error('Account sweep failed', error);
+    return { deletionsCompleted: 0, deletionsFailed: 0, exportsExpired: 0 };
+  }
+}
@@ -0,0 +1,702 @@
+import { Types } from 'mongoose';
+import { Post } from '../models/Post';
+import { User } from '../models/User';
+import { Tribe } from '../models/Tribe';
+import { Generation } from '../models/Generation';
+import { Report } from '../models/Report';
+import { Respect } from '../models/Respect';
+import { Comment } from '../models/Comment';
+import { generateSignedReadUrl } from './media.service';
+import {
+  flagPost,
+  removePost,
+  restorePost,
+  banUser,
+  unbanUser,
+  setShadowban,
+  clearShadowban,
+} from './moderation.service';
+import { activeShadowbanQuery, isShadowbanActive } from './visibility.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Admin Console Service
+ *
+ * Read models for the admin console (afro-web /admin):
+ * - Post lists (review queue of flagged posts, recent posts by status)
+ * - Users by moderation status
+ * - Generations blocked by provider safety filters
+ * - User drawer: counts, recent posts and moderation history
+ * - Bulk post/user actions (one moderation.service call per target)
+ *
+ * Lists page newest first with a createdAt|_id cursor.
+ */
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+const MAX_BULK_SIZE = 50;
+const RECENT_POSTS_LIMIT = 6;
+const HISTORY_LIMIT = 30;
+
+export type AdminPostStatus = 'all' | 'active' | 'flagged' | 'removed';
+export type AdminUserStatus = 'all' | 'active' | 'banned' | 'shadowbanned';
+export type AdminPostAction = 'flag' | 'remove' | 'restore';
+export type AdminUserAction = 'ban' | 'unban' | 'shadowban' | 'unshadowban';
+
+export const ADMIN_POST_STATUSES: AdminPostStatus[] = ['all', 'active', 'flagged', 'removed'];
+export const ADMIN_USER_STATUSES: AdminUserStatus[] = ['all', 'active', 'banned', 'shadowbanned'];
+export const ADMIN_POST_ACTIONS: AdminPostAction[] = ['flag', 'remove', 'restore'];
+export const ADMIN_USER_ACTIONS: AdminUserAction[] = ['ban', 'unban', 'shadowban', 'unshadowban'];
+
+export interface AdminUserSummary {
+  id: string;
+  username: string;
+  displayName: string;
+  banned: boolean;
+  shadowbanned: boolean; // In effect (not expired)
+}
+
+export interface AdminPostItem {
+  postId: string;
+  thumbUrl: string;
+  caption: string;
+  status: 'active' | 'removed' | 'flagged';
+  visibility: string;
+  counts: { respects: number; comments: number };
+  moderation: { flaggedAt: Date | null; removedAt: Date | null; reason: string | null } | null;
+  openReports: number;
+  author: AdminUserSummary | null;
+  createdAt: Date;
+}
+
+export interface AdminUserItem {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarThumbUrl: string;
+  roles: string[];
+  tribe: { slug: string; name: string } | null;
+  status: {
+    banned: boolean;
+    banReason: string | null;
+    shadowbanned: boolean; // In effect (not expired)
+    shadowbanReason: string | null;
+    shadowbanExpiresAt: Date | null;
+  };
+  counters: { posts: number; respectsReceived: number };
+  createdAt: Date;
+}
+
+export interface AdminBlockedGenerationItem {
+  generationId: string;
+  user: AdminUserSummary | null;
+  mode: string;
+  presetId: string | null;
+  prompt: string;
+  provider: string;
+  message: string;
+  createdAt: Date;
+}
+
+export interface AdminUserHistoryEvent {
+  type: 'joined' | 'post_flagged' | 'post_removed' | 'reported' | 'generation_blocked' | 'shadowbanned';
+  at: Date;
+  postId?: string;
+  reason?: string;
+}
+
+export interface AdminUserDetail {
+  user: AdminUserItem;
+  counts: {
+    posts: { active: number; flagged: number; removed: number };
+    respectsReceived: number;
+    respectsGiven: number;
+    comments: number;
+    reportsAgainst: number;
+    openReportsAgainst: number;
+    reportsFiled: number;
+    generations: number;
+    blockedGenerations: number;
+  };
+  recentPosts: AdminPostItem[];
+  history: AdminUserHistoryEvent[];
+}
+
+export interface AdminPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface BulkActionResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+function clampLimit(limit?: number): number {
+  return Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+}
+
+/**
+ * Keyset condition for a createdAt|_id cursor (null when absent/invalid)
+ */
+function cursorCondition(cursor?: string): Record<string, any> | null {
+  if (!cursor) {
+    return null;
+  }
+
+  const [timestamp, id] = Buffer.from(cursor, 'base64').toString('utf-8').split('|');
+  const lastCreatedAt = new Date(timestamp);
+
+  if (Number.isNaN(lastCreatedAt.getTime()) || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  return {
+    $or: [
+      { createdAt: { $lt: lastCreatedAt } },
+      { createdAt: lastCreatedAt, _id: { $lt: new Types.ObjectId(id) } },
+    ],
+  };
+}
+
+function encodeCursor(doc: { createdAt: Date; _id: Types.ObjectId }): string {
+  return Buffer.from(`${doc.createdAt.toISOString()}|${doc._id}`, 'utf-8').toString('base64');
+}
+
+/**
+ * Split a limit+1 fetch into a page and its cursor
+ */
+function toPage<T extends { createdAt: Date; _id: Types.ObjectId }>(
+  docs: T[],
+  limit: number
+): { page: T[]; nextCursor: string | null } {
+  const hasMore = docs.length > limit;
+  const page = hasMore ? docs.slice(0, limit) : docs;
+
+  return { page, nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null };
+}
+
+function toUserSummary(user: any): AdminUserSummary {
+  return {
+    id: user._id.toString(),
+    username: user.username,
+    displayName: user.displayName || user.username,
+    banned: !!user.status?.banned,
+    shadowbanned: isShadowbanActive(user.status),
+  };
+}
+
+async function getUserSummaries(userIds: Types.ObjectId[]): Promise<Map<string, AdminUserSummary>> {
+  const users = await User.find({ _id: { $in: userIds } })
+    .select('username displayName status')
+    .lean();
+
+  return new Map(users.map((user) => [user._id.toString(), toUserSummary(user)]));
+}
+
+async function toPostItems(posts: any[]): Promise<AdminPostItem[]> {
+  if (posts.length === 0) {
+    return [];
+  }
+
+  const postIds = posts.map((post) => post._id);
+  const authorIds = [...new Set(posts.map((post) => post.userId.toString()))];
+
+  const [authors, reports] = await Promise.all([
+    getUserSummaries(authorIds.map((id) => new Types.ObjectId(id))),
+    Report.aggregate<{ _id: Types.ObjectId; count: number }>([
+      { $match: { targetId: { $in: postIds }, status: { $in: ['open', 'claimed'] } } },
+      { $group: { _id: '$targetId', count: { $sum: 1 } } },
+    ]),
+  ]);
+  const reportCounts = new Map(reports.map((row) => [row._id.toString(), row.count]));
+
+  return Promise.all(
+    posts.map(async (post) => ({
+      postId: post._id.toString(),
+      thumbUrl: post.media?.thumbPath ? await generateSignedReadUrl(post.media.thumbPath) : '',
+      caption: post.caption || '',
+      status: post.status,
+      visibility: post.visibility,
+      counts: {
+        respects: post.counts?.respects || 0,
+        comments: post.counts?.comments || 0,
+      },
+      moderation: post.moderation
+        ? {
+            flaggedAt: post.moderation.flaggedAt || null,
+            removedAt: post.moderation.removedAt || null,
+            reason: post.moderation.reason || null,
+          }
+        : null,
+      openReports: reportCounts.get(post._id.toString()) || 0,
+      author: authors.get(post.userId.toString()) || null,
+      createdAt: post.createdAt,
+    }))
+  );
+}
+
+async function toUserItems(users: any[]): Promise<AdminUserItem[]> {
+  const tribeIds = [...new Set(users.map((user) => user.tribeId?.toString()).filter(Boolean))] as string[];
+  const tribes = await Tribe.find({ _id: { $in: tribeIds.map((id) => new Types.ObjectId(id)) } })
+    .select('slug name')
+    .lean();
+  const tribeMap = new Map(tribes.map((tribe) => [tribe._id.toString(), tribe]));
+
+  return Promise.all(
+    users.map(async (user) => {
+      const tribe = user.tribeId ? tribeMap.get(user.tribeId.toString()) : undefined;
+      const shadowbanned = isShadowbanActive(user.status);
+
+      return {
+        id: user._id.toString(),
+        username: user.username,
+        displayName: user.displayName || user.username,
+        avatarThumbUrl: user.avatar?.thumbPath ? await generateSignedReadUrl(user.avatar.thumbPath) : '',
+        roles: user.roles || [],
+        tribe: tribe ? { slug: tribe.slug, name: tribe.name } : null,
+        status: {
+          banned: !!user.status?.banned,
+          banReason: user.status?.banned ? user.status.reason || null : null,
+          shadowbanned,
+          shadowbanReason: shadowbanned ? user.status.shadowbanReason || null : null,
+          shadowbanExpiresAt: shadowbanned ? user.status.shadowbanExpiresAt || null : null,
+        },
+        counters: {
+          posts: user.counters?.posts || 0,
+          respectsReceived: user.counters?.respectsReceived || 0,
+        },
+        createdAt: user.createdAt,
+      };
+    })
+  );
+}
+
+/**
+ * List posts, newest first (status 'flagged' is the review queue)
+ */
+export async function listAdminPosts(options: {
+  status?: string;
+  userId?: string;
+  limit?: number;
+  cursor?: string;
+}): Promise<{ success: boolean; page?: AdminPage<AdminPostItem>; error?: string }> {
+  try {
+    const status = (options.status || 'all') as AdminPostStatus;
+
+    if (!ADMIN_POST_STATUSES.includes(status)) {
+      return { success: false, error: 'invalid_status' };
+    }
+
+    if (options.userId && !Types.ObjectId.isValid(options.userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const limit = clampLimit(options.limit);
+    const query: any = {};
+
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    if (options.userId) {
+      query.userId = new Types.ObjectId(options.userId);
+    }
+
+    const after = cursorCondition(options.cursor);
+    if (after) {
+      Object.assign(query, after);
+    }
+
+    const posts = await Post.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const { page, nextCursor } = toPage(posts, limit);
+
+    return { success: true, page: { items: await toPostItems(page), nextCursor } };
+  } catch (error: any) {
+    logger.error('Error listing admin posts', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * List users by moderation status, newest first
+ *
+ * `q` matches the start of a username (case-insensitive).
+ */
+export async function listAdminUsers(options: {
+  status?: string;
+  q?: string;
+  limit?: number;
+  cursor?: string;
+}): Promise<{ success: boolean; page?: AdminPage<AdminUserItem>; error?: string }> {
+  try {
+    const status = (options.status || 'all') as AdminUserStatus;
+
+    if (!ADMIN_USER_STATUSES.includes(status)) {
+      return { success: false, error: 'invalid_status' };
+    }
+
+    const limit = clampLimit(options.limit);
+    const conditions: any[] = [];
+
+    switch (status) {
+      case 'banned':
+        conditions.push({ 'status.banned': true });
+        break;
+      case 'shadowbanned':
+        conditions.push(activeShadowbanQuery());
+        break;
+      case 'active':
+        conditions.push({ 'status.banned': { $ne: true } }, { $nor: [activeShadowbanQuery()] });
+        break;
+    }
+
+    const q = (options.q || '').trim().toLowerCase();
+    if (q) {
+      conditions.push({ username: { $regex: `^${q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, $options: 'i' } });
+    }
+
+    const after = cursorCondition(options.cursor);
+    if (after) {
+      conditions.push(after);
+    }
+
+    const users = await User.find(conditions.length > 0 ? { $and: conditions } : {})
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .select('username displayName avatar roles tribeId status counters createdAt')
+      .lean();
+
+    const { page, nextCursor } = toPage(users, limit);
+
+    return { success: true, page: { items: await toUserItems(page), nextCursor } };
+  } catch (error: any) {
+    logger.error('Error listing admin users', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * List generations blocked by provider safety filters, newest first
+ */
+export async function listBlockedGenerations(options: {
+  userId?: string;
+  limit?: number;
+  cursor?: string;
+}): Promise<{ success: boolean; page?: AdminPage<AdminBlockedGenerationItem>; error?: string }> {
+  try {
+    if (options.userId && !Types.ObjectId.isValid(options.userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const limit = clampLimit(options.limit);
+    const query: any = { 'error.code': 'blocked' };
+
+    if (options.userId) {
+      query.userId = new Types.ObjectId(options.userId);
+    }
+
+    const after = cursorCondition(options.cursor);
+    if (after) {
+      Object.assign(query, after);
+    }
+
+    const generations = await Generation.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .select('userId source style provider error createdAt')
+      .lean();
+
+    const { page, nextCursor } = toPage(generations, limit);
+    const users = await getUserSummaries(page.map((generation) => generation.userId));
+
+    const items = page.map((generation) => ({
+      generationId: generation._id.toString(),
+      user: users.get(generation.userId.toString()) || null,
+      mode: generation.source?.mode,
+      presetId: generation.style?.presetId || null,
+      prompt: generation.style?.prompt || '',
+      provider: generation.provider?.name || '',
+      message: generation.error?.message || '',
+      createdAt: generation.createdAt,
+    }));
+
+    return { success: true, page: { items, nextCursor } };
+  } catch (error: any) {
+    logger.error('Error listing blocked generations', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * User drawer: profile, counts, recent posts and moderation history
+ */
+export async function getAdminUserDetail(
+  userId: string
+): Promise<{ success: boolean; detail?: AdminUserDetail; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const id = new Types.ObjectId(userId);
+    const user = await User.findById(id)
+      .select('username displayName avatar roles tribeId status counters createdAt')
+      .lean();
+
+    if (!user) {
+      return { success: false, error: 'user_not_found' };
+    }
+
+    const [
+      [item],
+      postCounts,
+      respectsGiven,
+      comments,
+      reportsAgainst,
+      openReportsAgainst,
+      reportsFiled,
+      generations,
+      blockedGenerations,
+      recentPosts,
+      moderatedPosts,
+      reports,
+      blocked,
+    ] = await Promise.all([
+      toUserItems([user]),
+      Post.aggregate<{ _id: string; count: number }>([
+        { $match: { userId: id } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ]),
+      Respect.countDocuments({ userId: id }),
+      Comment.countDocuments({ userId: id, status: 'active' }),
+      Report.countDocuments({ targetUserId: id }),
+      Report.countDocuments({ targetUserId: id, status: { $in: ['open', 'claimed'] } }),
+      Report.countDocuments({ reporterId: id }),
+      Generation.countDocuments({ userId: id }),
+      Generation.countDocuments({ userId: id, 'error.code': 'blocked' }),
+      Post.find({ userId: id }).sort({ createdAt: -1, _id: -1 }).limit(RECENT_POSTS_LIMIT).lean(),
+      Post.find({ userId: id, status: { $in: ['flagged', 'removed'] } })
+        .sort({ updatedAt: -1 })
+        .limit(HISTORY_LIMIT)
+        .select('status moderation')
+        .lean(),
+      Report.find({ targetUserId: id })
+        .sort({ createdAt: -1 })
+        .limit(HISTORY_LIMIT)
+        .select('targetType targetId reason createdAt')
+        .lean(),
+      Generation.find({ userId: id, 'error.code': 'blocked' })
+        .sort({ createdAt: -1 })
+        .limit(HISTORY_LIMIT)
+        .select('error createdAt')
+        .lean(),
+    ]);
+
+    const byStatus = new Map(postCounts.map((row) => [row._id, row.count]));
+
+    const history: AdminUserHistoryEvent[] = [{ type: 'joined', at: user.createdAt }];
+
+    for (const post of moderatedPosts) {
+      if (post.moderation?.flaggedAt) {
+        history.push({
+          type: 'post_flagged',
+          at: post.moderation.flaggedAt,
+          postId: post._id.toString(),
+          reason: post.moderation.reason,
+        });
+      }
+      if (post.moderation?.removedAt) {
+        history.push({
+          type: 'post_removed',
+          at: post.moderation.removedAt,
+          postId: post._id.toString(),
+          reason: post.moderation.reason,
+        });
+      }
+    }
+
+    for (const report of reports) {
+      history.push({
+        type: 'reported',
+        at: report.createdAt,
+        postId: report.targetType === 'profile' ? undefined : report.targetId.toString(),
+        reason: report.reason,
+      });
+    }
+
+    for (const generation of blocked) {
+      history.push({ type: 'generation_blocked', at: generation.createdAt, reason: generation.error?.message });
+    }
+
+    if (user.status?.shadowbanned && user.status.shadowbannedAt) {
+      history.push({ type: 'shadowbanned', at: user.status.shadowbannedAt, reason: user.status.shadowbanReason });
+    }
+
+    history.sort((a, b) => b.at.getTime() - a.at.getTime());
+
+    return {
+      success: true,
+      detail: {
+        user: item,
+        counts: {
+          posts: {
+            active: byStatus.get('active') || 0,
+            flagged: byStatus.get('flagged') || 0,
+            removed: byStatus.get('removed') || 0,
+          },
+          respectsReceived: user.counters?.respectsReceived || 0,
+          respectsGiven,
+          comments,
+          reportsAgainst,
+          openReportsAgainst,
+          reportsFiled,
+          generations,
+          blockedGenerations,
+        },
+        recentPosts: await toPostItems(recentPosts),
+        history: history.slice(0, HISTORY_LIMIT),
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error getting admin user detail', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Validate a bulk target list
+ */
+function validateBulkIds(ids: unknown): string | null {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return 'missing_ids';
+  }
+
+  if (ids.length > MAX_BULK_SIZE) {
+    return 'too_many_ids';
+  }
+
+  return null;
+}
+
+/**
+ * Apply one action to many posts
+ *
+ * flag and remove need a reason. Targets are processed one at a time;
+ * per-target failures are reported, not fatal.
+ */
+export async function bulkPostAction(
+  action: string,
+  postIds: unknown,
+  moderatorId: string,
+  reason?: string
+): Promise<{ success: boolean; results?: BulkActionResult[]; error?: string }> {
+  if (!ADMIN_POST_ACTIONS.includes(action as AdminPostAction)) {
+    return { success: false, error: 'invalid_action' };
+  }
+
+  const invalid = validateBulkIds(postIds);
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+
+  if (action !== 'restore' && !reason) {
+    return { success: false, error: 'missing_reason' };
+  }
+
+  const results: BulkActionResult[] = [];
+
+  for (const postId of [...new Set((postIds as unknown[]).map(String))]) {
+    let result: { success: boolean; error?: string };
+
+    switch (action as AdminPostAction) {
+      case 'flag':
+        result = await flagPost(postId, reason!, moderatorId);
+        break;
+      case 'remove':
+        result = await removePost(postId, reason!, moderatorId);
+        break;
+      case 'restore':
+        result = await restorePost(postId, moderatorId);
+        break;
+    }
+
+    results.push({ id: postId, success: result.success, error: result.error });
+  }
+
+  logger.info('Bulk post action', {
+    action,
+    moderatorId,
+    total: results.length,
+    failed: results.filter((result) => !result.success).length,
+  });
+
+  return { success: true, results };
+}
+
+/**
+ * Apply one action to many users
+ *
+ * ban and shadowban need a reason; shadowban takes an optional expiry.
+ */
+export async function bulkUserAction(
+  action: string,
+  userIds: unknown,
+  moderatorId: string,
+  options: { reason?: string; expiresAt?: Date | null } = {}
+): Promise<{ success: boolean; results?: BulkActionResult[]; error?: string }> {
+  if (!ADMIN_USER_ACTIONS.includes(action as AdminUserAction)) {
+    return { success: false, error: 'invalid_action' };
+  }
+
+  const invalid = validateBulkIds(userIds);
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+
+  if ((action === 'ban' || action === 'shadowban') && !options.reason) {
+    return { success: false, error: 'missing_reason' };
+  }
+
+  const results: BulkActionResult[] = [];
+
+  for (const userId of [...new Set((userIds as unknown[]).map(String))]) {
+    if (userId === moderatorId && (action === 'ban' || action === 'shadowban')) {
+      results.push({ id: userId, success: false, error: 'cannot_moderate_self' });
+      continue;
+    }
+
+    let result: { success: boolean; error?: string };
+
+    switch (action as AdminUserAction) {
+      case 'ban':
+        result = await banUser(userId, options.reason!, moderatorId);
+        break;
+      case 'unban':
+        result = await unbanUser(userId, moderatorId);
+        break;
+      case 'shadowban':
+        result = await setShadowban(userId, options.reason!, options.expiresAt ?? null, moderatorId);
+        break;
+      case 'unshadowban':
+        result = await clearShadowban(userId, moderatorId);
+        break;
+    }
+
+    results.push({ id: userId, success: result.success, error: result.error });
+  }
+
+  logger.info('Bulk user action', {
+    action,
+    moderatorId,
+    total: results.length,
+    failed: results.filter((result) => !result.success).length,
+  });
+
+  return { success: true, results };
+}
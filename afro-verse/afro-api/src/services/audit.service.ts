@@ -0,0 +1,547 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import {
+  AuditEvent,
+  IAuditEvent,
+  AuditCategory,
+  AuditOutcome,
+  AuditActorType,
+} from '../models/AuditEvent';
+import { securityConfig } from '../config/security';
+import { logger } from '../utils/logger';
+
+/**
+ * Audit Service
+ *
+ * Append-only, hash-chained log of privileged and security-sensitive
+ * actions:
+ * - Admin requests (middleware/audit.middleware) and admin access denials
+ * - Role changes (global roles, tribe leads)
+ * - Refresh token revocations (logout, sign-out everywhere, reuse detection)
+ * - Account deletion requests, cancellations and purges
+ * - Tribe switches
+ * - Cron and worker invocations
+ *
+ * Each event's hash covers its own fields and the previous event's hash,
+ * so editing or removing an event breaks every hash after it
+ * (verifyAuditChain). Truncating the newest events is only detectable
+ * against a head recorded earlier, so keep the head verify returns.
+ *
+ * Appends are best-effort: a failed write is logged and never fails the
+ * action being audited.
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const VERIFY_BATCH_SIZE = 1000;
+const MAX_METADATA_DEPTH = 3;
+
+export const AUDIT_CATEGORIES: AuditCategory[] = ['admin', 'auth', 'account', 'tribe', 'system'];
+export const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'failure', 'denied'];
+
+export interface AuditEventInput {
+  category: AuditCategory;
+  action: string;
+  outcome?: AuditOutcome;
+  actorId?: string | Types.ObjectId | null; // Absent/null = system
+  ip?: string | null;
+  target?: { type: string; id: string | Types.ObjectId | null };
+  metadata?: Record<string, any>;
+}
+
+export interface AuditEventItem {
+  seq: number;
+  category: AuditCategory;
+  action: string;
+  outcome: AuditOutcome;
+  actor: { type: AuditActorType; userId: string | null; ip: string | null };
+  target: { type: string | null; id: string | null };
+  metadata: Record<string, any>;
+  prevHash: string;
+  hash: string;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  category?: string;
+  action?: string;
+  outcome?: string;
+  actorId?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditChainReport {
+  valid: boolean;
+  checked: number;
+  head: { seq: number; hash: string } | null;
+  brokenAt?: { seq: number; reason: 'seq_gap' | 'prev_hash_mismatch' | 'hash_mismatch' };
+  truncated: boolean; // Stopped at verifyMaxEvents; verify again from head.seq
+}
+
+interface AuditHashFields {
+  seq: number;
+  prevHash: string;
+  category: string;
+  action: string;
+  outcome: string;
+  actor: { type: string; userId: string | null; ip: string | null };
+  target: { type: string | null; id: string | null };
+  metadata: Record<string, any>;
+  createdAt: Date;
+}
+
+/**
+ * JSON with object keys sorted, so the hash doesn't depend on key order
+ * (Mongo may return metadata keys in a different order)
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 over an event's fields and its predecessor's hash
+ */
+export function computeAuditHash(fields: AuditHashFields): string {
+  const payload = canonicalJson({
+    seq: fields.seq,
+    prevHash: fields.prevHash,
+    category: fields.category,
+    action: fields.action,
+    outcome: fields.outcome,
+    actor: fields.actor,
+    target: fields.target,
+    metadata: fields.metadata,
+    createdAt: fields.createdAt.toISOString(),
+  });
+
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Plain, bounded metadata: ids and dates become strings, long strings
+ * and arrays are clipped, keys Mongo can't store are dropped
+ */
+export function sanitizeMetadata(value: any, depth: number = 0): any {
+  const { maxMetadataString, maxMetadataArray } = securityConfig.audit;
+
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (value instanceof Types.ObjectId) {
+    return value.toString();
+  }
+  if (typeof value === 'string') {
+    return value.slice(0, maxMetadataString);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (depth >= MAX_METADATA_DEPTH) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.slice(0, maxMetadataArray).map((item) => sanitizeMetadata(item, depth + 1));
+  }
+  if (typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined || key.startsWith('$') || key.includes('.')) {
+        continue;
+      }
+      result[key] = sanitizeMetadata(item, depth + 1);
+    }
+    return result;
+  }
+
+  return null;
+}
+
+function toHashFields(event: any): AuditHashFields {
+  return {
+    seq: event.seq,
+    prevHash: event.prevHash,
+    category: event.category,
+    action: event.action,
+    outcome: event.outcome,
+    actor: {
+      type: event.actor.type,
+      userId: event.actor.userId ? event.actor.userId.toString() : null,
+      ip: event.actor.ip ?? null,
+    },
+    target: {
+      type: event.target?.type ?? null,
+      id: event.target?.id ?? null,
+    },
+    metadata: event.metadata || {},
+    createdAt: new Date(event.createdAt),
+  };
+}
+
+/**
+ * Append an event to the chain
+ *
+ * Returns null (after logging) if the append failed.
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<IAuditEvent | null> {
+  try {
+    const actorId = input.actorId ? input.actorId.toString() : null;
+
+    if (actorId && !Types.ObjectId.isValid(actorId)) {
+      throw new Error('invalid_actor_id');
+    }
+
+    const base = {
+      category: input.category,
+      action: input.action,
+      outcome: input.outcome || 'success',
+      actor: {
+        type: (actorId ? 'user' : 'system') as AuditActorType,
+        userId: actorId,
+        ip: input.ip || null,
+      },
+      target: {
+        type: input.target?.type ?? null,
+        id: input.target?.id ? input.target.id.toString() : null,
+      },
+      metadata: sanitizeMetadata(input.metadata || {}),
+    };
+
+    for (let attempt = 1; attempt <= securityConfig.audit.appendAttempts; attempt++) {
+      const head = await AuditEvent.findOne().sort({ seq: -1 }).select('seq hash').lean();
+
+      const seq = (head?.seq || 0) + 1;
+      const prevHash = head?.hash || GENESIS_HASH;
+      const createdAt = new Date();
+      const hash = computeAuditHash({ ...base, seq, prevHash, createdAt });
+
+      try {
+        return await AuditEvent.create({
+          ...base,
+          actor: {
+            ...base.actor,
+            userId: actorId ? new Types.ObjectId(actorId) : null,
+          },
+          seq,
+          prevHash,
+          hash,
+          createdAt,
+        });
+      } catch (error: any) {
+        // Another append took this seq; retry on the new head
+        if (error.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error('append_contention');
+  } catch (error: any) {
+    logger.error('Failed to record audit event', {
+      category: input.category,
+      action: input.action,
+      error: error.message,
+    });
+    return null;
+  }
+}
+
+function toAuditEventItem(event: any): AuditEventItem {
+  return {
+    seq: event.seq,
+    category: event.category,
+    action: event.action,
+    outcome: event.outcome,
+    actor: {
+      type: event.actor.type,
+      userId: event.actor.userId ? event.actor.userId.toString() : null,
+      ip: event.actor.ip ?? null,
+    },
+    target: {
+      type: event.target?.type ?? null,
+      id: event.target?.id ?? null,
+    },
+    metadata: event.metadata || {},
+    prevHash: event.prevHash,
+    hash: event.hash,
+    createdAt: new Date(event.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Mongo query for audit filters
+ */
+function buildAuditQuery(filters: AuditFilters): { query?: Record<string, any>; error?: string } {
+  const query: Record<string, any> = {};
+
+  if (filters.category) {
+    if (!AUDIT_CATEGORIES.includes(filters.category as AuditCategory)) {
+      return { error: 'invalid_category' };
+    }
+    query.category = filters.category;
+  }
+
+  if (filters.outcome) {
+    if (!AUDIT_OUTCOMES.includes(filters.outcome as AuditOutcome)) {
+      return { error: 'invalid_outcome' };
+    }
+    query.outcome = filters.outcome;
+  }
+
+  if (filters.action) {
+    query.action = filters.action;
+  }
+
+  if (filters.actorId) {
+    if (filters.actorId === 'system') {
+      query['actor.type'] = 'system';
+    } else if (Types.ObjectId.isValid(filters.actorId)) {
+      query['actor.userId'] = new Types.ObjectId(filters.actorId);
+    } else {
+      return { error: 'invalid_actor_id' };
+    }
+  }
+
+  if (filters.targetId) {
+    query['target.id'] = filters.targetId;
+  }
+
+  if (filters.from || filters.to) {
+    const from = filters.from ? new Date(filters.from) : null;
+    const to = filters.to ? new Date(filters.to) : null;
+
+    if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+      return { error: 'invalid_date' };
+    }
+
+    query.createdAt = {
+      ...(from ? { $gte: from } : {}),
+      ...(to ? { $lt: to } : {}),
+    };
+  }
+
+  return { query };
+}
+
+/**
+ * Audit events matching filters, newest first (seq cursor)
+ */
+export async function listAuditEvents(
+  filters: AuditFilters & { limit?: number; cursor?: string }
+): Promise<{
+  success: boolean;
+  page?: { items: AuditEventItem[]; nextCursor: string | null };
+  error?: string;
+}> {
+  try {
+    const { query, error } = buildAuditQuery(filters);
+
+    if (!query) {
+      return { success: false, error };
+    }
+
+    const limit = Math.min(Math.max(filters.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    if (filters.cursor) {
+      const beforeSeq = parseInt(filters.cursor, 10);
+
+      if (!Number.isInteger(beforeSeq) || beforeSeq < 1) {
+        return { success: false, error: 'invalid_cursor' };
+      }
+      query.seq = { $lt: beforeSeq };
+    }
+
+    const events = await AuditEvent.find(query)
+      .sort({ seq: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      success: true,
+      page: {
+        items: page.map(toAuditEventItem),
+        nextCursor: hasMore ? String(page[page.length - 1].seq) : null,
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error listing audit events', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+const CSV_COLUMNS = [
+  'seq',
+  'createdAt',
+  'category',
+  'action',
+  'outcome',
+  'actorType',
+  'actorUserId',
+  'actorIp',
+  'targetType',
+  'targetId',
+  'metadata',
+  'prevHash',
+  'hash',
+];
+
+/**
+ * One CSV cell: quoted when needed, and prefixed so spreadsheet apps
+ * don't evaluate it as a formula
+ */
+export function toCsvCell(value: string | number | null): string {
+  let text = value === null ? '' : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Audit events matching filters as CSV, oldest first
+ *
+ * Capped at exportMaxRows; `truncated` says the filters matched more.
+ */
+export async function exportAuditEventsCsv(filters: AuditFilters): Promise<{
+  success: boolean;
+  csv?: string;
+  rows?: number;
+  truncated?: boolean;
+  error?: string;
+}> {
+  try {
+    const { query, error } = buildAuditQuery(filters);
+
+    if (!query) {
+      return { success: false, error };
+    }
+
+    const maxRows = securityConfig.audit.exportMaxRows;
+    const events = await AuditEvent.find(query)
+      .sort({ seq: 1 })
+      .limit(maxRows + 1)
+      .lean();
+
+    const truncated = events.length > maxRows;
+    const rows = (truncated ? events.slice(0, maxRows) : events).map(toAuditEventItem);
+
+    const lines = [CSV_COLUMNS.join(',')];
+
+    for (const event of rows) {
+      lines.push(
+        [
+          event.seq,
+          event.createdAt,
+          event.category,
+          event.action,
+          event.outcome,
+          event.actor.type,
+          event.actor.userId,
+          event.actor.ip,
+          event.target.type,
+          event.target.id,
+          JSON.stringify(event.metadata),
+          event.prevHash,
+          event.hash,
+        ]
+          .map(toCsvCell)
+          .join(',')
+      );
+    }
+
+    return { success: true, csv: `${lines.join('\n')}\n`, rows: rows.length, truncated };
+  } catch (error: any) {
+    logger.error('Error exporting audit events', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Re-hash the chain from `fromSeq` (default: the first event)
+ *
+ * Reports the first event whose seq, link or hash doesn't check out.
+ */
+export async function verifyAuditChain(fromSeq: number = 1): Promise<AuditChainReport> {
+  let expectedSeq = Math.max(1, Math.floor(fromSeq));
+  let prevHash = GENESIS_HASH;
+  let checked = 0;
+  let head: AuditChainReport['head'] = null;
+
+  if (expectedSeq > 1) {
+    const previous = await AuditEvent.findOne({ seq: expectedSeq - 1 }).select('seq hash').lean();
+
+    if (!previous) {
+      return {
+        valid: false,
+        checked,
+        head,
+        brokenAt: { seq: expectedSeq - 1, reason: 'seq_gap' },
+        truncated: false,
+      };
+    }
+    prevHash = previous.hash;
+    head = { seq: previous.seq, hash: previous.hash };
+  }
+
+  const maxEvents = securityConfig.audit.verifyMaxEvents;
+
+  while (checked < maxEvents) {
+    const batch = await AuditEvent.find({ seq: { $gte: expectedSeq } })
+      .sort({ seq: 1 })
+      .limit(Math.min(VERIFY_BATCH_SIZE, maxEvents - checked))
+      .lean();
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const event of batch) {
+      let reason: 'seq_gap' | 'prev_hash_mismatch' | 'hash_mismatch' | null = null;
+
+      if (event.seq !== expectedSeq) {
+        reason = 'seq_gap';
+      } else if (event.prevHash !== prevHash) {
+        reason = 'prev_hash_mismatch';
+      } else if (event.hash !== computeAuditHash(toHashFields(event))) {
+        reason = 'hash_mismatch';
+      }
+
+      if (reason) {
+        logger.error('Audit chain broken', { seq: expectedSeq, reason });
+        return { valid: false, checked, head, brokenAt: { seq: expectedSeq, reason }, truncated: false };
+      }
+
+      checked++;
+      expectedSeq++;
+      prevHash = event.hash;
+      head = { seq: event.seq, hash: event.hash };
+    }
+  }
+
+  const truncated = checked >= maxEvents && !!(await AuditEvent.exists({ seq: expectedSeq }));
+
+  return { valid: true, checked, head, truncated };
+}
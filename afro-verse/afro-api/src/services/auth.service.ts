@@ -7,6 +7,7 @@ import { generateAccessToken } from '../utils/jwt';
 import { normalizePhoneNumber, validatePhoneNumber } from '../utils/phone';
 import { logger } from '../utils/logger';
 import { isConnectionReady } from '../config/db';
+import { recordAuditEvent } from './audit.service';
 
 /**
  * Auth Service
@@ -371,6 +372,13 @@ export async function refreshAccessToken(
     logger.error('Error refreshing token', error);
     
     if (error.message === 'token_reuse_detected') {
+      await recordAuditEvent({
+        category: 'auth',
+        action: 'auth.tokens_revoked',
+        target: { type: 'user', id: error.userId || null },
+        metadata: { reason: 'token_reuse_detected' },
+      });
+      
       return {
         success: false,
         error: 'Security violation detected',
@@ -391,7 +399,18 @@ export async function refreshAccessToken(
  */
 export async function logout(refreshTokenString: string): Promise<void> {
   try {
-    await RefreshToken.revokeToken(refreshTokenString);
+    const userId = await RefreshToken.revokeToken(refreshTokenString);
+    
+    if (userId) {
+      await recordAuditEvent({
+        category: 'auth',
+        action: 'auth.token_revoked',
+        actorId: userId,
+        target: { type: 'user', id: userId },
+        metadata: { reason: 'logout' },
+      });
+    }
+    
     logger.info('User logged out');
   } catch (error) {
     logger.error('Error logging out', error);
@@ -400,10 +419,26 @@ export async function logout(refreshTokenString: string): Promise<void> {
 
 /**
  * Revoke all tokens for user
+ * 
+ * `actorId` defaults to the user (sign-out everywhere); `reason` goes to
+ * the audit log.
  */
-export async function revokeAllTokens(userId: Types.ObjectId): Promise<void> {
+export async function revokeAllTokens(
+  userId: Types.ObjectId,
+  reason: string = 'user_initiated',
+  actorId: Types.ObjectId | string | null = userId
+): Promise<void> {
   try {
-    await RefreshToken.revokeAllForUser(userId);
+    const revoked = await RefreshToken.revokeAllForUser(userId);
+    
+    await recordAuditEvent({
+      category: 'auth',
+      action: 'auth.tokens_revoked',
+      actorId,
+      target: { type: 'user', id: userId },
+      metadata: { reason, revoked },
+    });
+    
     logger.info(`All tokens revoked for user ${userId}`);
   } catch (error) {
     logger.error('Error revoking tokens', error);
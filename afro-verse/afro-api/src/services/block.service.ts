@@ -0,0 +1,336 @@
+import { Types } from 'mongoose';
+import { Block } from '../models/Block';
+import { Mute } from '../models/Mute';
+import { User } from '../models/User';
+import { unfollowUser } from './follow.service';
+import { generateSignedReadUrl } from './media.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Block Service
+ *
+ * Blocks and mutes between users:
+ * - A block hides each user from the other (both directions) and
+ *   removes follows between them
+ * - A mute hides the muted user from the muter only
+ *
+ * Read paths (feeds, profile grids, member lists, comments, search)
+ * filter with getHiddenUserIds(); write paths between two users
+ * (follow, comment, try-style) check isBlockedBetween().
+ */
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 100;
+
+export interface BlockedUserItem {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarThumbUrl: string;
+  since: Date; // When blocked or muted
+}
+
+/**
+ * Validate a user pair for block/mute
+ */
+async function validatePair(
+  actorId: string,
+  targetId: string,
+  selfError: string
+): Promise<string | null> {
+  if (!Types.ObjectId.isValid(actorId) || !Types.ObjectId.isValid(targetId)) {
+    return 'invalid_user_id';
+  }
+
+  if (actorId === targetId) {
+    return selfError;
+  }
+
+  const target = await User.findById(targetId).select('_id').lean();
+
+  return target ? null : 'user_not_found';
+}
+
+/**
+ * Block a user (idempotent)
+ *
+ * Follows in both directions are removed (with counters) on a new block.
+ */
+export async function blockUser(
+  blockerId: string,
+  blockedId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const invalid = await validatePair(blockerId, blockedId, 'cannot_block_self');
+
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const result = await Block.updateOne(
+      { blockerId: new Types.ObjectId(blockerId), blockedId: new Types.ObjectId(blockedId) },
+      { $setOnInsert: { blockerId: new Types.ObjectId(blockerId), blockedId: new Types.ObjectId(blockedId) } },
+      { upsert: true }
+    );
+
+    if (result.upsertedCount > 0) {
+      await Promise.all([unfollowUser(blockerId, blockedId), unfollowUser(blockedId, blockerId)]);
+
+      logger.info('User blocked', { blockerId, blockedId });
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    // Concurrent block of the same pair
+    if (error.code === 11000) {
+      return { success: true };
+    }
+
+    logger.error('Error blocking user', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Unblock a user (idempotent; follows are not restored)
+ */
+export async function unblockUser(
+  blockerId: string,
+  blockedId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(blockerId) || !Types.ObjectId.isValid(blockedId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const result = await Block.deleteOne({
+      blockerId: new Types.ObjectId(blockerId),
+      blockedId: new Types.ObjectId(blockedId),
+    });
+
+    if (result.deletedCount > 0) {
+      logger.info('User unblocked', { blockerId, blockedId });
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error unblocking user', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Mute a user (idempotent)
+ */
+export async function muteUser(
+  muterId: string,
+  mutedId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const invalid = await validatePair(muterId, mutedId, 'cannot_mute_self');
+
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    await Mute.updateOne(
+      { muterId: new Types.ObjectId(muterId), mutedId: new Types.ObjectId(mutedId) },
+      { $setOnInsert: { muterId: new Types.ObjectId(muterId), mutedId: new Types.ObjectId(mutedId) } },
+      { upsert: true }
+    );
+
+    return { success: true };
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return { success: true };
+    }
+
+    logger.error('Error muting user', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Unmute a user (idempotent)
+ */
+export async function unmuteUser(
+  muterId: string,
+  mutedId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(muterId) || !Types.ObjectId.isValid(mutedId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    await Mute.deleteOne({
+      muterId: new Types.ObjectId(muterId),
+      mutedId: new Types.ObjectId(mutedId),
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error unmuting user', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Whether either user has blocked the other
+ */
+export async function isBlockedBetween(
+  userA: string | Types.ObjectId,
+  userB: string | Types.ObjectId
+): Promise<boolean> {
+  const a = new Types.ObjectId(userA.toString());
+  const b = new Types.ObjectId(userB.toString());
+
+  const block = await Block.exists({
+    $or: [
+      { blockerId: a, blockedId: b },
+      { blockerId: b, blockedId: a },
+    ],
+  });
+
+  return !!block;
+}
+
+/**
+ * Block and mute state between a viewer and another user
+ */
+export async function getBlockState(
+  viewerUserId: string,
+  targetUserId: string
+): Promise<{ isBlocked: boolean; isBlockedBy: boolean; isMuted: boolean }> {
+  if (!Types.ObjectId.isValid(viewerUserId) || !Types.ObjectId.isValid(targetUserId)) {
+    return { isBlocked: false, isBlockedBy: false, isMuted: false };
+  }
+
+  const viewer = new Types.ObjectId(viewerUserId);
+  const target = new Types.ObjectId(targetUserId);
+
+  const [blocked, blockedBy, muted] = await Promise.all([
+    Block.exists({ blockerId: viewer, blockedId: target }),
+    Block.exists({ blockerId: target, blockedId: viewer }),
+    Mute.exists({ muterId: viewer, mutedId: target }),
+  ]);
+
+  return { isBlocked: !!blocked, isBlockedBy: !!blockedBy, isMuted: !!muted };
+}
+
+/**
+ * Users hidden from a viewer: blocked by or blocking the viewer, or
+ * muted by the viewer
+ *
+ * Returns [] for signed-out viewers.
+ */
+export async function getHiddenUserIds(viewerUserId?: string | null): Promise<Types.ObjectId[]> {
+  if (!viewerUserId || !Types.ObjectId.isValid(viewerUserId)) {
+    return [];
+  }
+
+  const viewer = new Types.ObjectId(viewerUserId);
+
+  const [blocks, mutes] = await Promise.all([
+    Block.find({ $or: [{ blockerId: viewer }, { blockedId: viewer }] })
+      .select('blockerId blockedId')
+      .lean(),
+    Mute.find({ muterId: viewer }).select('mutedId').lean(),
+  ]);
+
+  const hidden = new Map<string, Types.ObjectId>();
+
+  for (const block of blocks) {
+    const other = block.blockerId.equals(viewer) ? block.blockedId : block.blockerId;
+    hidden.set(other.toString(), other);
+  }
+
+  for (const mute of mutes) {
+    hidden.set(mute.mutedId.toString(), mute.mutedId);
+  }
+
+  return [...hidden.values()];
+}
+
+/**
+ * Shape a block/mute list for settings
+ */
+async function listUsers(
+  entries: Array<{ userId: Types.ObjectId; since: Date }>
+): Promise<BlockedUserItem[]> {
+  const users = await User.find({ _id: { $in: entries.map((entry) => entry.userId) } })
+    .select('username displayName avatar')
+    .lean();
+  const userMap = new Map(users.map((user) => [user._id.toString(), user]));
+
+  const items = await Promise.all(
+    entries.map(async (entry) => {
+      const user = userMap.get(entry.userId.toString());
+
+      if (!user) {
+        return null;
+      }
+
+      return {
+        id: user._id.toString(),
+        username: user.username,
+        displayName: user.displayName || user.username,
+        avatarThumbUrl: user.avatar?.thumbPath ? await generateSignedReadUrl(user.avatar.thumbPath) : '',
+        since: entry.since,
+      };
+    })
+  );
+
+  return items.filter((item): item is BlockedUserItem => !!item);
+}
+
+/**
+ * Accounts a user has blocked, newest first
+ */
+export async function listBlockedUsers(
+  userId: string,
+  limit: number = DEFAULT_LIST_LIMIT
+): Promise<{ success: boolean; items?: BlockedUserItem[]; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const blocks = await Block.find({ blockerId: new Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), MAX_LIST_LIMIT))
+      .lean();
+
+    const items = await listUsers(blocks.map((block) => ({ userId: block.blockedId, since: block.createdAt })));
+
+    return { success: true, items };
+  } catch (error: any) {
+    logger.error('Error listing blocked users', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Accounts a user has muted, newest first
+ */
+export async function listMutedUsers(
+  userId: string,
+  limit: number = DEFAULT_LIST_LIMIT
+): Promise<{ success: boolean; items?: BlockedUserItem[]; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const mutes = await Mute.find({ muterId: new Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), MAX_LIST_LIMIT))
+      .lean();
+
+    const items = await listUsers(mutes.map((mute) => ({ userId: mute.mutedId, since: mute.createdAt })));
+
+    return { success: true, items };
+  } catch (error: any) {
+    logger.error('Error listing muted users', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
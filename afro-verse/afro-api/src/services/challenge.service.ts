@@ -0,0 +1,923 @@
+import { Types } from 'mongoose';
+import { Challenge, IChallenge, IChallengeWinner } from '../models/Challenge';
+import { ChallengeEntry } from '../models/ChallengeEntry';
+import { Post } from '../models/Post';
+import { Respect } from '../models/Respect';
+import { StylePreset } from '../models/StylePreset';
+import { Tribe, ITribe } from '../models/Tribe';
+import { User } from '../models/User';
+import { cacheService } from '../config/redis';
+import { securityConfig } from '../config/security';
+import { logger } from '../utils/logger';
+import { generateSignedReadUrl } from './media.service';
+import { enrichPosts, FeedItem } from './feed.service';
+
+/**
+ * Challenge Service
+ *
+ * Themed, time-boxed tribe events:
+ * - Admins and tribe leads schedule challenges (prompt preset + hashtag)
+ * - Members enter their posts while a challenge is active
+ * - Leaderboard ranks entries by respects received within the window
+ * - The results sweep crowns winners once a challenge ends
+ *
+ * Leaderboards are cached for leaderboardCacheTtl seconds; new entries
+ * clear the cache.
+ */
+
+const HASHTAG_PATTERN = /^[a-z0-9_]{2,30}$/;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ChallengePhase = 'upcoming' | 'active' | 'judging' | 'results' | 'cancelled';
+
+export interface ChallengeSummary {
+  id: string;
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+  };
+  title: string;
+  description: string | null;
+  hashtag: string;
+  presetId: string | null; // Preset slug (create screen presetId)
+  phase: ChallengePhase;
+  startsAt: Date;
+  endsAt: Date;
+  entryCount: number;
+  winners: ChallengeWinner[];
+}
+
+export interface ChallengeWinner {
+  rank: number;
+  postId: string;
+  thumbUrl: string;
+  respects: number;
+  user: {
+    id: string;
+    username: string;
+    displayName: string;
+  };
+}
+
+export interface ChallengeDetail extends ChallengeSummary {
+  viewerState: {
+    isMember: boolean;
+    canEnter: boolean; // Active, member of the tribe, under the entry limit
+    entries: number;
+    canManage: boolean;
+  };
+}
+
+export interface LeaderboardItem {
+  rank: number;
+  postId: string;
+  thumbUrl: string;
+  respects: number;
+  user: {
+    id: string;
+    username: string;
+    displayName: string;
+  };
+}
+
+export interface ChallengeInput {
+  tribe?: unknown; // Tribe slug
+  title?: unknown;
+  description?: unknown;
+  hashtag?: unknown;
+  presetId?: unknown; // Preset slug
+  startsAt?: unknown;
+  endsAt?: unknown;
+}
+
+interface RankedEntry {
+  postId: Types.ObjectId;
+  userId: Types.ObjectId;
+  visibility: 'tribe' | 'public';
+  thumbPath: string;
+  respects: number;
+}
+
+/**
+ * Phase of a challenge at a point in time
+ */
+export function getChallengePhase(
+  challenge: Pick<IChallenge, 'status' | 'startsAt' | 'endsAt'>,
+  now: Date = new Date()
+): ChallengePhase {
+  if (challenge.status === 'cancelled') {
+    return 'cancelled';
+  }
+
+  if (challenge.status === 'finalized') {
+    return 'results';
+  }
+
+  if (now < challenge.startsAt) {
+    return 'upcoming';
+  }
+
+  return now < challenge.endsAt ? 'active' : 'judging';
+}
+
+/**
+ * Admins and the tribe's leads can run challenges
+ */
+async function canManageTribeChallenges(
+  userId: string,
+  tribe: Pick<ITribe, 'leadIds'>
+): Promise<boolean> {
+  if ((tribe.leadIds || []).some((id) => id.toString() === userId)) {
+    return true;
+  }
+
+  const user = await User.findById(userId).select('roles').lean();
+  return !!user?.roles?.includes('admin');
+}
+
+function leaderboardCacheKey(challengeId: string): string {
+  return `challenge_leaderboard:${challengeId}`;
+}
+
+/**
+ * Rank entries by respects received within the challenge window
+ *
+ * Removed/flagged posts drop out; ties go to the earlier entry.
+ */
+async function computeLeaderboard(
+  challenge: Pick<IChallenge, '_id' | 'startsAt' | 'endsAt'>,
+  limit: number
+): Promise<RankedEntry[]> {
+  const ranked = await ChallengeEntry.aggregate([
+    { $match: { challengeId: challenge._id } },
+    {
+      $lookup: {
+        from: Post.collection.name,
+        localField: 'postId',
+        foreignField: '_id',
+        as: 'post',
+      },
+    },
+    { $unwind: '$post' },
+    { $match: { 'post.status': 'active' } },
+    {
+      $lookup: {
+        from: Respect.collection.name,
+        let: { postId: '$postId' },
+        pipeline: [
+          {
+            $match: {
+              $expr: {
+                $and: [
+                  { $eq: ['$postId', '$$postId'] },
+                  { $gte: ['$createdAt', challenge.startsAt] },
+                  { $lt: ['$createdAt', challenge.endsAt] },
+                ],
+              },
+            },
+          },
+          { $count: 'n' },
+        ],
+        as: 'windowRespects',
+      },
+    },
+    {
+      $project: {
+        postId: 1,
+        userId: 1,
+        visibility: 1,
+        createdAt: 1,
+        thumbPath: { $ifNull: ['$post.media.watermarkedThumbPath', '$post.media.thumbPath'] },
+        respects: { $ifNull: [{ $arrayElemAt: ['$windowRespects.n', 0] }, 0] },
+      },
+    },
+    { $sort: { respects: -1, createdAt: 1, _id: 1 } },
+    { $limit: limit },
+  ]);
+
+  return ranked.map((entry) => ({
+    postId: entry.postId,
+    userId: entry.userId,
+    visibility: entry.visibility,
+    thumbPath: entry.thumbPath,
+    respects: entry.respects,
+  }));
+}
+
+/**
+ * Cached leaderboard (paths only; URLs are signed per request)
+ */
+async function loadLeaderboard(challenge: IChallenge): Promise<RankedEntry[]> {
+  const cacheKey = leaderboardCacheKey(challenge._id.toString());
+  const cached = await cacheService.get(cacheKey);
+
+  if (cached) {
+    return JSON.parse(cached);
+  }
+
+  const ranked = await computeLeaderboard(challenge, securityConfig.challenges.leaderboardSize);
+
+  await cacheService.set(cacheKey, JSON.stringify(ranked), securityConfig.challenges.leaderboardCacheTtl);
+  return ranked;
+}
+
+/**
+ * Usernames for leaderboard/winner rows
+ */
+async function loadUserLabels(
+  userIds: Array<Types.ObjectId | string>
+): Promise<Map<string, { id: string; username: string; displayName: string }>> {
+  const unique = [...new Set(userIds.map((id) => id.toString()))];
+  const users = await User.find({ _id: { $in: unique.map((id) => new Types.ObjectId(id)) } })
+    .select('username displayName')
+    .lean();
+
+  return new Map(
+    users.map((user) => [
+      user._id.toString(),
+      {
+        id: user._id.toString(),
+        username: user.username,
+        displayName: user.displayName || user.username,
+      },
+    ])
+  );
+}
+
+function userLabel(
+  users: Map<string, { id: string; username: string; displayName: string }>,
+  userId: Types.ObjectId | string
+) {
+  return users.get(userId.toString()) || {
+    id: userId.toString(),
+    username: 'unknown',
+    displayName: 'Unknown',
+  };
+}
+
+/**
+ * Winners with signed thumbnails (posts removed since are skipped)
+ */
+async function toWinners(winners: IChallengeWinner[]): Promise<ChallengeWinner[]> {
+  if (winners.length === 0) {
+    return [];
+  }
+
+  const [posts, users] = await Promise.all([
+    Post.find({ _id: { $in: winners.map((w) => w.postId) }, status: 'active' })
+      .select('media')
+      .lean(),
+    loadUserLabels(winners.map((w) => w.userId)),
+  ]);
+  const postMap = new Map(posts.map((post) => [post._id.toString(), post]));
+
+  const result: ChallengeWinner[] = [];
+  for (const winner of winners) {
+    const post = postMap.get(winner.postId.toString());
+
+    if (!post) {
+      continue;
+    }
+
+    result.push({
+      rank: winner.rank,
+      postId: winner.postId.toString(),
+      thumbUrl: await generateSignedReadUrl(post.media.watermarkedThumbPath || post.media.thumbPath),
+      respects: winner.respects,
+      user: userLabel(users, winner.userId),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Public view of a challenge
+ */
+async function toSummary(
+  challenge: IChallenge,
+  tribe: Pick<ITribe, '_id' | 'slug' | 'name'>
+): Promise<ChallengeSummary> {
+  return {
+    id: challenge._id.toString(),
+    tribe: {
+      id: tribe._id.toString(),
+      slug: tribe.slug,
+      name: tribe.name,
+    },
+    title: challenge.title,
+    description: challenge.description || null,
+    hashtag: challenge.hashtag,
+    presetId: challenge.presetSlug || null,
+    phase: getChallengePhase(challenge),
+    startsAt: challenge.startsAt,
+    endsAt: challenge.endsAt,
+    entryCount: challenge.entryCount || 0,
+    winners: await toWinners(challenge.winners || []),
+  };
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Create a challenge (admins and tribe leads)
+ */
+export async function createChallenge(
+  userId: string,
+  input: ChallengeInput
+): Promise<{ success: boolean; challenge?: ChallengeSummary; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    if (typeof input.tribe !== 'string' || !input.tribe) {
+      return { success: false, error: 'invalid_tribe' };
+    }
+
+    const tribe = await Tribe.findOne({ slug: input.tribe.toLowerCase() })
+      .select('slug name leadIds')
+      .lean<ITribe>();
+
+    if (!tribe) {
+      return { success: false, error: 'tribe_not_found' };
+    }
+
+    if (!(await canManageTribeChallenges(userId, tribe))) {
+      return { success: false, error: 'forbidden' };
+    }
+
+    const title = typeof input.title === 'string' ? input.title.trim() : '';
+    if (title.length < 3 || title.length > 80) {
+      return { success: false, error: 'invalid_title' };
+    }
+
+    let description: string | undefined;
+    if (input.description !== undefined && input.description !== null) {
+      if (typeof input.description !== 'string' || input.description.trim().length > 500) {
+        return { success: false, error: 'invalid_description' };
+      }
+      description = input.description.trim() || undefined;
+    }
+
+    const hashtag = typeof input.hashtag === 'string'
+      ? input.hashtag.trim().replace(/^#/, '').toLowerCase()
+      : '';
+    if (!HASHTAG_PATTERN.test(hashtag)) {
+      return { success: false, error: 'invalid_hashtag' };
+    }
+
+    let presetSlug: string | undefined;
+    if (input.presetId !== undefined && input.presetId !== null) {
+      if (typeof input.presetId !== 'string') {
+        return { success: false, error: 'invalid_preset' };
+      }
+
+      const preset = await StylePreset.findOne({ slug: input.presetId.toLowerCase(), enabled: true })
+        .select('slug')
+        .lean();
+
+      if (!preset) {
+        return { success: false, error: 'preset_not_found' };
+      }
+      presetSlug = preset.slug;
+    }
+
+    const startsAt = parseDate(input.startsAt);
+    const endsAt = parseDate(input.endsAt);
+    if (!startsAt || !endsAt) {
+      return { success: false, error: 'invalid_window' };
+    }
+
+    const { minDurationHours, maxDurationDays } = securityConfig.challenges;
+    const duration = endsAt.getTime() - startsAt.getTime();
+    if (
+      duration < minDurationHours * HOUR_MS ||
+      duration > maxDurationDays * DAY_MS ||
+      endsAt <= new Date()
+    ) {
+      return { success: false, error: 'invalid_window' };
+    }
+
+    // One challenge at a time per tribe
+    const overlapping = await Challenge.exists({
+      tribeId: tribe._id,
+      status: { $ne: 'cancelled' },
+      startsAt: { $lt: endsAt },
+      endsAt: { $gt: startsAt },
+    });
+
+    if (overlapping) {
+      return { success: false, error: 'challenge_overlap' };
+    }
+
+    const challenge = await Challenge.create({
+      tribeId: tribe._id,
+      title,
+      description,
+      hashtag,
+      presetSlug,
+      startsAt,
+      endsAt,
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    logger.info('Challenge created', {
+      challengeId: challenge._id.toString(),
+      tribeId: tribe._id.toString(),
+      userId,
+      startsAt,
+      endsAt,
+    });
+
+    return { success: true, challenge: await toSummary(challenge, tribe) };
+  } catch (error: any) {
+    logger.error('Error creating challenge', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Cancel a challenge before its results are in (admins and tribe leads)
+ */
+export async function cancelChallenge(
+  userId: string,
+  challengeId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(challengeId)) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const challenge = await Challenge.findById(challengeId).select('tribeId status').lean();
+
+    if (!challenge) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const tribe = await Tribe.findById(challenge.tribeId).select('leadIds').lean<ITribe>();
+
+    if (!tribe || !(await canManageTribeChallenges(userId, tribe))) {
+      return { success: false, error: 'forbidden' };
+    }
+
+    const cancelled = await Challenge.updateOne(
+      { _id: challenge._id, status: 'open' },
+      { $set: { status: 'cancelled', cancelledAt: new Date() } }
+    );
+
+    if (cancelled.modifiedCount === 0) {
+      return { success: false, error: 'challenge_closed' };
+    }
+
+    logger.info('Challenge cancelled', { challengeId, userId });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error cancelling challenge', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Challenges of a tribe, newest first
+ */
+export async function listTribeChallenges(
+  tribeSlug: string,
+  limit: number = 20
+): Promise<{ success: boolean; challenges?: ChallengeSummary[]; error?: string }> {
+  try {
+    const tribe = await Tribe.findOne({ slug: tribeSlug.toLowerCase() })
+      .select('slug name')
+      .lean<ITribe>();
+
+    if (!tribe) {
+      return { success: false, error: 'tribe_not_found' };
+    }
+
+    const challenges = await Challenge.find({ tribeId: tribe._id, status: { $ne: 'cancelled' } })
+      .sort({ startsAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), 50))
+      .lean<IChallenge[]>();
+
+    return {
+      success: true,
+      challenges: await Promise.all(challenges.map((challenge) => toSummary(challenge, tribe))),
+    };
+  } catch (error: any) {
+    logger.error('Error listing challenges', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Challenge with viewer state
+ */
+export async function getChallenge(
+  challengeId: string,
+  viewerUserId?: string
+): Promise<{ success: boolean; challenge?: ChallengeDetail; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(challengeId)) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const challenge = await Challenge.findById(challengeId).lean<IChallenge>();
+
+    if (!challenge) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const tribe = await Tribe.findById(challenge.tribeId).select('slug name leadIds').lean<ITribe>();
+
+    if (!tribe) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const summary = await toSummary(challenge, tribe);
+
+    let isMember = false;
+    let entries = 0;
+    let canManage = false;
+    if (viewerUserId && Types.ObjectId.isValid(viewerUserId)) {
+      const viewer = await User.findById(viewerUserId).select('tribeId').lean();
+      isMember = viewer?.tribeId?.toString() === tribe._id.toString();
+      entries = await ChallengeEntry.countDocuments({
+        challengeId: challenge._id,
+        userId: new Types.ObjectId(viewerUserId),
+      });
+      canManage = await canManageTribeChallenges(viewerUserId, tribe);
+    }
+
+    return {
+      success: true,
+      challenge: {
+        ...summary,
+        viewerState: {
+          isMember,
+          canEnter: isMember && summary.phase === 'active'
+            && entries < securityConfig.challenges.maxEntriesPerUser,
+          entries,
+          canManage,
+        },
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error getting challenge', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Check a user can enter a challenge (before the post exists)
+ *
+ * Used by post creation so a post made "for" a challenge fails early
+ * instead of being published and then refused.
+ */
+export async function checkChallengeEntry(
+  userId: string,
+  challengeId: string,
+  tribeId: Types.ObjectId
+): Promise<{ error?: string }> {
+  if (!Types.ObjectId.isValid(challengeId)) {
+    return { error: 'challenge_not_found' };
+  }
+
+  const challenge = await Challenge.findById(challengeId).select('tribeId status startsAt endsAt').lean();
+
+  if (!challenge) {
+    return { error: 'challenge_not_found' };
+  }
+
+  if (getChallengePhase(challenge) !== 'active') {
+    return { error: 'challenge_not_active' };
+  }
+
+  if (challenge.tribeId.toString() !== tribeId.toString()) {
+    return { error: 'challenge_wrong_tribe' };
+  }
+
+  const entries = await ChallengeEntry.countDocuments({
+    challengeId: challenge._id,
+    userId: new Types.ObjectId(userId),
+  });
+
+  if (entries >= securityConfig.challenges.maxEntriesPerUser) {
+    return { error: 'challenge_entry_limit' };
+  }
+
+  return {};
+}
+
+/**
+ * Enter one of the user's posts into an active challenge
+ *
+ * Only posts made during the challenge, in its tribe, count.
+ */
+export async function enterChallenge(
+  userId: string,
+  challengeId: string,
+  postId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    if (!Types.ObjectId.isValid(postId)) {
+      return { success: false, error: 'post_not_found' };
+    }
+
+    const post = await Post.findById(postId).select('userId tribeId visibility status createdAt').lean();
+
+    if (!post) {
+      return { success: false, error: 'post_not_found' };
+    }
+
+    if (post.userId.toString() !== userId) {
+      return { success: false, error: 'not_your_post' };
+    }
+
+    if (post.status !== 'active') {
+      return { success: false, error: 'post_not_active' };
+    }
+
+    const check = await checkChallengeEntry(userId, challengeId, post.tribeId);
+
+    if (check.error) {
+      return { success: false, error: check.error };
+    }
+
+    const challenge = await Challenge.findById(challengeId).select('startsAt').lean();
+
+    if (!challenge) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    if (post.createdAt < challenge.startsAt) {
+      return { success: false, error: 'post_predates_challenge' };
+    }
+
+    try {
+      await ChallengeEntry.create({
+        challengeId: challenge._id,
+        postId: post._id,
+        userId: post.userId,
+        tribeId: post.tribeId,
+        visibility: post.visibility,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return { success: false, error: 'already_entered' };
+      }
+      throw error;
+    }
+
+    await Challenge.updateOne({ _id: challenge._id }, { $inc: { entryCount: 1 } });
+    await cacheService.del(leaderboardCacheKey(challengeId));
+
+    logger.info('Challenge entry added', { challengeId, postId, userId });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error entering challenge', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Allowed entry visibilities for a viewer (tribe posts are members only)
+ */
+async function getAllowedVisibilities(
+  challenge: Pick<IChallenge, 'tribeId'>,
+  viewerUserId?: string
+): Promise<Array<'tribe' | 'public'>> {
+  if (viewerUserId && Types.ObjectId.isValid(viewerUserId)) {
+    const viewer = await User.findById(viewerUserId).select('tribeId').lean();
+
+    if (viewer?.tribeId?.toString() === challenge.tribeId.toString()) {
+      return ['tribe', 'public'];
+    }
+  }
+
+  return ['public'];
+}
+
+/**
+ * Leaderboard: entries ranked by respects within the window
+ */
+export async function getChallengeLeaderboard(
+  challengeId: string,
+  viewerUserId?: string
+): Promise<{ success: boolean; items?: LeaderboardItem[]; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(challengeId)) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const challenge = await Challenge.findById(challengeId).lean<IChallenge>();
+
+    if (!challenge) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const ranked = await loadLeaderboard(challenge);
+    const allowed = await getAllowedVisibilities(challenge, viewerUserId);
+    const users = await loadUserLabels(ranked.map((entry) => entry.userId));
+
+    // Ranks are global, so hidden entries leave gaps for non-members
+    const items: LeaderboardItem[] = [];
+    for (const [index, entry] of ranked.entries()) {
+      if (!allowed.includes(entry.visibility)) {
+        continue;
+      }
+
+      items.push({
+        rank: index + 1,
+        postId: entry.postId.toString(),
+        thumbUrl: await generateSignedReadUrl(entry.thumbPath),
+        respects: entry.respects,
+        user: userLabel(users, entry.userId),
+      });
+    }
+
+    return { success: true, items };
+  } catch (error: any) {
+    logger.error('Error getting challenge leaderboard', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Challenge feed: entries, newest first
+ *
+ * Cursor is base64 `createdAt|entryId` of the last entry.
+ */
+export async function getChallengeFeed(
+  challengeId: string,
+  viewerUserId: string,
+  limit: number = 10,
+  cursor?: string
+): Promise<{ success: boolean; items?: FeedItem[]; nextCursor?: string; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(challengeId) || !Types.ObjectId.isValid(viewerUserId)) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const challenge = await Challenge.findById(challengeId).select('tribeId').lean();
+
+    if (!challenge) {
+      return { success: false, error: 'challenge_not_found' };
+    }
+
+    const effectiveLimit = Math.min(Math.max(limit, 1), 50);
+    const allowed = await getAllowedVisibilities(challenge, viewerUserId);
+
+    const query: any = {
+      challengeId: challenge._id,
+      visibility: { $in: allowed },
+    };
+
+    if (cursor) {
+      const [timestamp, id] = Buffer.from(cursor, 'base64').toString('utf-8').split('|');
+      const lastCreatedAt = new Date(timestamp);
+
+      if (!Number.isNaN(lastCreatedAt.getTime()) && Types.ObjectId.isValid(id)) {
+        query.$or = [
+          { createdAt: { $lt: lastCreatedAt } },
+          { createdAt: lastCreatedAt, _id: { $lt: new Types.ObjectId(id) } },
+        ];
+      }
+    }
+
+    const entries = await ChallengeEntry.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(effectiveLimit + 1)
+      .lean();
+
+    const hasMore = entries.length > effectiveLimit;
+    const page = hasMore ? entries.slice(0, effectiveLimit) : entries;
+
+    // Removed/flagged posts drop out of the page
+    const posts = await Post.find({ _id: { $in: page.map((entry) => entry.postId) }, status: 'active' }).lean();
+    const postMap = new Map(posts.map((post) => [post._id.toString(), post]));
+    const ordered = page
+      .map((entry) => postMap.get(entry.postId.toString()))
+      .filter((post): post is NonNullable<typeof post> => !!post);
+
+    const items = await enrichPosts(ordered, new Types.ObjectId(viewerUserId), true);
+
+    let nextCursor: string | undefined;
+    if (hasMore) {
+      const last = page[page.length - 1];
+      nextCursor = Buffer.from(`${last.createdAt.toISOString()}|${last._id}`, 'utf-8').toString('base64');
+    }
+
+    return { success: true, items, nextCursor };
+  } catch (error: any) {
+    logger.error('Error getting challenge feed', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Challenge to show on a tribe header
+ *
+ * The active challenge, else the latest results while they are still
+ * within resultsDisplayDays.
+ */
+export async function getTribeChallengeSummary(
+  tribe: Pick<ITribe, '_id' | 'slug' | 'name'>
+): Promise<ChallengeSummary | null> {
+  try {
+    const now = new Date();
+
+    let challenge = await Challenge.findOne({
+      tribeId: tribe._id,
+      status: 'open',
+      startsAt: { $lte: now },
+      endsAt: { $gt: now },
+    }).lean<IChallenge>();
+
+    if (!challenge) {
+      challenge = await Challenge.findOne({
+        tribeId: tribe._id,
+        status: 'finalized',
+        endsAt: { $gt: new Date(now.getTime() - securityConfig.challenges.resultsDisplayDays * DAY_MS) },
+      })
+        .sort({ endsAt: -1 })
+        .lean<IChallenge>();
+    }
+
+    return challenge ? toSummary(challenge, tribe) : null;
+  } catch (error: any) {
+    logger.error('Error getting tribe challenge summary', error);
+    return null;
+  }
+}
+
+/**
+ * Results sweep: crown winners of challenges that have ended
+ *
+ * Safe to run concurrently; each challenge is finalized once.
+ */
+export async function finalizeEndedChallenges(): Promise<{ finalized: number; errors: number }> {
+  let finalized = 0;
+  let errors = 0;
+
+  try {
+    const due = await Challenge.find({ status: 'open', endsAt: { $lte: new Date() } })
+      .sort({ endsAt: 1 })
+      .limit(50)
+      .lean<IChallenge[]>();
+
+    for (const challenge of due) {
+      try {
+        const ranked = await computeLeaderboard(challenge, securityConfig.challenges.winnerCount);
+        const winners = ranked
+          .filter((entry) => entry.respects > 0)
+          .map((entry, index) => ({
+            rank: index + 1,
+            postId: entry.postId,
+            userId: entry.userId,
+            respects: entry.respects,
+          }));
+
+        const result = await Challenge.updateOne(
+          { _id: challenge._id, status: 'open' },
+          { $set: { status: 'finalized', finalizedAt: new Date(), winners } }
+        );
+
+        if (result.modifiedCount > 0) {
+          finalized++;
+          await cacheService.del(leaderboardCacheKey(challenge._id.toString()));
+
+          logger.info('Challenge finalized', {
+            challengeId: challenge._id.toString(),
+            winners: winners.length,
+          });
+        }
+      } catch (error: any) {
+        logger.error('Error finalizing challenge', {
+          challengeId: challenge._id.toString(),
+          error: error.message,
+        });
+        errors++;
+      }
+    }
+
+    return { finalized, errors };
+  } catch (error: any) {
+    logger.error('Challenge results sweep failed', error);
+    return { finalized, errors: errors + 1 };
+  }
+}
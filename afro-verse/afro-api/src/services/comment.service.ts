@@ -0,0 +1,471 @@
+import { Types } from 'mongoose';
+import { Comment, IComment } from '../models/Comment';
+import { Post } from '../models/Post';
+import { User } from '../models/User';
+import { checkCommentSafety } from './moderation.service';
+import { generateSignedReadUrl } from './media.service';
+import { isBlockedBetween } from './block.service';
+import { getHiddenAuthorIds } from './visibility.service';
+import {
+  addCommentWithCounters,
+  deleteCommentWithCounters,
+} from '../utils/transactions';
+import { logger } from '../utils/logger';
+
+/**
+ * Comment Service
+ *
+ * Comments and one level of replies on posts.
+ *
+ * Key principles:
+ * - Replying to a reply attaches to the top-level comment
+ * - Soft delete only; deleted comments with replies render as placeholders
+ * - Counters (post.counts.comments, comment.counts.replies) updated in
+ *   a transaction
+ * - Blocked users can't comment on or reply to each other; lists skip
+ *   comments by users the viewer blocked, was blocked by or muted, and
+ *   by banned or shadowbanned users
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export interface CommentItem {
+  commentId: string;
+  postId: string;
+  parentId: string | null;
+  body: string | null; // null when deleted/removed
+  user: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatarThumbUrl: string;
+  } | null;
+  counts: {
+    replies: number;
+  };
+  isDeleted: boolean;
+  viewerState: {
+    canDelete: boolean;
+  };
+  createdAt: Date;
+}
+
+export interface CommentPage {
+  comments: CommentItem[];
+  nextCursor: string | null;
+}
+
+/**
+ * Encode pagination cursor
+ */
+function encodeCursor(comment: { createdAt: Date; _id: Types.ObjectId }): string {
+  return Buffer.from(`${comment.createdAt.toISOString()}|${comment._id}`).toString('base64');
+}
+
+/**
+ * Decode pagination cursor
+ */
+function decodeCursor(cursor: string): { createdAt: Date; id: Types.ObjectId } | null {
+  try {
+    const [createdAt, id] = Buffer.from(cursor, 'base64').toString('utf-8').split('|');
+    const date = new Date(createdAt);
+
+    if (isNaN(date.getTime()) || !Types.ObjectId.isValid(id)) {
+      return null;
+    }
+
+    return { createdAt: date, id: new Types.ObjectId(id) };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Shape comments for the client
+ *
+ * Authors of deleted comments are hidden along with the body.
+ */
+async function enrichComments(
+  comments: IComment[],
+  postOwnerId: string,
+  viewerUserId?: string
+): Promise<CommentItem[]> {
+  const userIds = [...new Set(comments.map((c) => c.userId.toString()))];
+
+  const users = await User.find({ _id: { $in: userIds } })
+    .select('username displayName avatar')
+    .lean();
+
+  const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+
+  return Promise.all(
+    comments.map(async (comment) => {
+      const isDeleted = comment.status !== 'active';
+      const authorId = comment.userId.toString();
+      const user = userMap.get(authorId);
+
+      let avatarThumbUrl = '';
+      if (!isDeleted && user?.avatar?.thumbPath) {
+        avatarThumbUrl = await generateSignedReadUrl(user.avatar.thumbPath);
+      }
+
+      return {
+        commentId: comment._id.toString(),
+        postId: comment.postId.toString(),
+        parentId: comment.parentId ? comment.parentId.toString() : null,
+        body: isDeleted ? null : comment.body,
+        user: isDeleted
+          ? null
+          : {
+              id: authorId,
+              username: user?.username || 'unknown',
+              displayName: user?.displayName || 'Unknown',
+              avatarThumbUrl,
+            },
+        counts: {
+          replies: comment.counts?.replies || 0,
+        },
+        isDeleted,
+        viewerState: {
+          canDelete:
+            !isDeleted &&
+            !!viewerUserId &&
+            (viewerUserId === authorId || viewerUserId === postOwnerId),
+        },
+        createdAt: comment.createdAt,
+      };
+    })
+  );
+}
+
+/**
+ * Load an active post for commenting
+ */
+async function loadActivePost(postId: string) {
+  if (!Types.ObjectId.isValid(postId)) {
+    return { error: 'invalid_post_id' };
+  }
+
+  const post = await Post.findById(postId).select('userId status').lean();
+
+  if (!post) {
+    return { error: 'post_not_found' };
+  }
+
+  if (post.status !== 'active') {
+    return { error: 'post_not_active' };
+  }
+
+  return { post };
+}
+
+/**
+ * Create a comment or reply
+ */
+export async function createComment(input: {
+  postId: string;
+  userId: string;
+  body: string;
+  parentId?: string;
+}): Promise<{ success: boolean; comment?: CommentItem; error?: string }> {
+  try {
+    const { post, error } = await loadActivePost(input.postId);
+
+    if (!post) {
+      return { success: false, error };
+    }
+
+    if (!Types.ObjectId.isValid(input.userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const body = (input.body || '').trim();
+
+    if (!body) {
+      return { success: false, error: 'empty_comment' };
+    }
+
+    if (await isBlockedBetween(input.userId, post.userId)) {
+      return { success: false, error: 'blocked' };
+    }
+
+    const safetyCheck = checkCommentSafety(body);
+
+    if (!safetyCheck.safe) {
+      return {
+        success: false,
+        error: safetyCheck.reason === 'Comment too long' ? 'comment_too_long' : 'unsafe_content',
+      };
+    }
+
+    // Resolve parent (replies to a reply attach to its top-level comment)
+    let parentId: Types.ObjectId | null = null;
+
+    if (input.parentId) {
+      if (!Types.ObjectId.isValid(input.parentId)) {
+        return { success: false, error: 'invalid_parent_id' };
+      }
+
+      const parent = await Comment.findById(input.parentId)
+        .select('postId parentId userId status')
+        .lean();
+
+      if (!parent || !parent.postId.equals(post._id)) {
+        return { success: false, error: 'parent_not_found' };
+      }
+
+      if (await isBlockedBetween(input.userId, parent.userId)) {
+        return { success: false, error: 'blocked' };
+      }
+
+      parentId = parent.parentId || parent._id;
+
+      if (parent.parentId) {
+        const topLevel = await Comment.findById(parent.parentId).select('status').lean();
+
+        if (!topLevel || topLevel.status !== 'active') {
+          return { success: false, error: 'parent_not_found' };
+        }
+      } else if (parent.status !== 'active') {
+        return { success: false, error: 'parent_not_found' };
+      }
+    }
+
+    const comment = await addCommentWithCounters({
+      postId: post._id,
+      userId: new Types.ObjectId(input.userId),
+      parentId,
+      body,
+    });
+
+    logger.info('Comment created', {
+      commentId: comment._id.toString(),
+      postId: input.postId,
+      userId: input.userId,
+      isReply: !!parentId,
+    });
+
+    const [item] = await enrichComments([comment], post.userId.toString(), input.userId);
+
+    return { success: true, comment: item };
+  } catch (error: any) {
+    logger.error('Error creating comment', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * List top-level comments (newest first)
+ *
+ * Deleted comments are skipped unless they still have replies.
+ */
+export async function listComments(
+  postId: string,
+  viewerUserId?: string,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{ success: boolean; page?: CommentPage; error?: string }> {
+  try {
+    const { post, error } = await loadActivePost(postId);
+
+    if (!post) {
+      return { success: false, error };
+    }
+
+    const limit = Math.min(options.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+    const query: any = {
+      postId: post._id,
+      parentId: null,
+      $or: [{ status: 'active' }, { 'counts.replies': { $gt: 0 } }],
+    };
+
+    const hiddenUserIds = await getHiddenAuthorIds(viewerUserId);
+    if (hiddenUserIds.length > 0) {
+      query.userId = { $nin: hiddenUserIds };
+    }
+
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+    if (cursor) {
+      query.$and = [
+        {
+          $or: [
+            { createdAt: { $lt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, _id: { $lt: cursor.id } },
+          ],
+        },
+      ];
+    }
+
+    const comments = await Comment.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean<IComment[]>();
+
+    const hasMore = comments.length > limit;
+    const page = hasMore ? comments.slice(0, limit) : comments;
+
+    return {
+      success: true,
+      page: {
+        comments: await enrichComments(page, post.userId.toString(), viewerUserId),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error listing comments', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * List replies to a top-level comment (oldest first)
+ */
+export async function listReplies(
+  postId: string,
+  commentId: string,
+  viewerUserId?: string,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{ success: boolean; page?: CommentPage; error?: string }> {
+  try {
+    const { post, error } = await loadActivePost(postId);
+
+    if (!post) {
+      return { success: false, error };
+    }
+
+    if (!Types.ObjectId.isValid(commentId)) {
+      return { success: false, error: 'invalid_comment_id' };
+    }
+
+    const parent = await Comment.findById(commentId).select('postId').lean();
+
+    if (!parent || !parent.postId.equals(post._id)) {
+      return { success: false, error: 'comment_not_found' };
+    }
+
+    const limit = Math.min(options.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+    const query: any = {
+      parentId: parent._id,
+      status: 'active',
+    };
+
+    const hiddenUserIds = await getHiddenAuthorIds(viewerUserId);
+    if (hiddenUserIds.length > 0) {
+      query.userId = { $nin: hiddenUserIds };
+    }
+
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+    if (cursor) {
+      query.$or = [
+        { createdAt: { $gt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $gt: cursor.id } },
+      ];
+    }
+
+    const replies = await Comment.find(query)
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(limit + 1)
+      .lean<IComment[]>();
+
+    const hasMore = replies.length > limit;
+    const page = hasMore ? replies.slice(0, limit) : replies;
+
+    return {
+      success: true,
+      page: {
+        comments: await enrichComments(page, post.userId.toString(), viewerUserId),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error listing replies', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Delete a comment (author or post owner)
+ *
+ * Idempotent: deleting an already deleted comment returns success.
+ */
+export async function deleteComment(
+  postId: string,
+  commentId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(postId) || !Types.ObjectId.isValid(commentId)) {
+      return { success: false, error: 'comment_not_found' };
+    }
+
+    const comment = await Comment.findById(commentId).select('postId userId status').lean();
+
+    if (!comment || comment.postId.toString() !== postId) {
+      return { success: false, error: 'comment_not_found' };
+    }
+
+    if (comment.status !== 'active') {
+      return { success: true };
+    }
+
+    const post = await Post.findById(postId).select('userId').lean();
+    const isAuthor = comment.userId.toString() === userId;
+    const isPostOwner = post?.userId.toString() === userId;
+
+    if (!isAuthor && !isPostOwner) {
+      return { success: false, error: 'forbidden' };
+    }
+
+    await deleteCommentWithCounters(comment._id, 'deleted');
+
+    logger.info('Comment deleted', {
+      commentId,
+      postId,
+      userId,
+      byPostOwner: !isAuthor,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error deleting comment', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Remove a comment (moderator)
+ */
+export async function removeComment(
+  commentId: string,
+  reason: string,
+  moderatorId?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(commentId)) {
+      return { success: false, error: 'invalid_comment_id' };
+    }
+
+    const comment = await Comment.findById(commentId).select('_id').lean();
+
+    if (!comment) {
+      return { success: false, error: 'comment_not_found' };
+    }
+
+    await deleteCommentWithCounters(comment._id, 'removed');
+
+    logger.info('Comment removed', {
+      commentId,
+      reason,
+      moderatorId,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error removing comment', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
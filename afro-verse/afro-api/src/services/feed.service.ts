@@ -5,6 +5,7 @@ import { Tribe } from '../models/Tribe';
 import { Respect } from '../models/Respect';
 import { logger } from '../utils/logger';
 import { generateSignedReadUrl } from './media.service';
+import { getHiddenAuthorIds } from './visibility.service';
 
 /**
  * Feed Service
@@ -29,6 +30,7 @@ export interface FeedItem {
   imageUrl?: string; // Optional in feed for performance
   aspect: string;
   styleTag?: string;
+  tags: string[]; // Tag slugs (hashtags and style tag)
   caption?: string;
   user: {
     id: string;
@@ -44,6 +46,7 @@ export interface FeedItem {
   counts: {
     respects: number;
     shares: number;
+    comments: number;
   };
   viewerState: {
     hasRespected: boolean;
@@ -60,14 +63,20 @@ export interface FeedResponse {
 
 /**
  * Parse cursor from base64 encoded string
+ * 
+ * tribeId is the partition the cursor was issued for (createdAt|id|tribeId);
+ * older two-part cursors have none.
  */
-function parseCursor(cursor: string): { lastCreatedAt: Date; lastId: Types.ObjectId } | null {
+function parseCursor(
+  cursor: string
+): { lastCreatedAt: Date; lastId: Types.ObjectId; tribeId?: string } | null {
   try {
     const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
-    const [timestamp, id] = decoded.split('|');
+    const [timestamp, id, tribeId] = decoded.split('|');
     return {
       lastCreatedAt: new Date(timestamp),
       lastId: new Types.ObjectId(id),
+      tribeId: tribeId || undefined,
     };
   } catch {
     return null;
@@ -77,8 +86,59 @@ function parseCursor(cursor: string): { lastCreatedAt: Date; lastId: Types.Objec
 /**
  * Encode cursor to base64
  */
-function encodeCursor(createdAt: Date, id: Types.ObjectId): string {
-  const data = `${createdAt.toISOString()}|${id.toString()}`;
+function encodeCursor(createdAt: Date, id: Types.ObjectId, tribeId?: Types.ObjectId): string {
+  const parts = [createdAt.toISOString(), id.toString()];
+  if (tribeId) {
+    parts.push(tribeId.toString());
+  }
+  return Buffer.from(parts.join('|'), 'utf-8').toString('base64');
+}
+
+/**
+ * Parse a tribe-partitioned cursor, dropping it if it was issued for
+ * another tribe (the user switched tribes mid-scroll), so pagination
+ * restarts from the top of the new partition.
+ */
+function parsePartitionCursor(cursor: string | undefined, tribeId: Types.ObjectId) {
+  const cursorData = cursor ? parseCursor(cursor) : null;
+  
+  if (cursorData?.tribeId && cursorData.tribeId !== tribeId.toString()) {
+    return null;
+  }
+  
+  return cursorData;
+}
+
+/**
+ * Parse hot feed cursor (score|id)
+ */
+function parseHotCursor(cursor: string): { lastScore: number; lastId: Types.ObjectId } | null {
+  try {
+    const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
+    const [score, id] = decoded.split('|');
+    const lastScore = Number(score);
+    
+    if (!Number.isFinite(lastScore) || !Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    
+    return {
+      lastScore,
+      lastId: new Types.ObjectId(id),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encode hot feed cursor
+ * 
+ * Encodes the score itself (not a date) so the next page continues
+ * below the last item in (hotScore, _id) order.
+ */
+function encodeHotCursor(hotScore: number, id: Types.ObjectId): string {
+  const data = `${hotScore}|${id.toString()}`;
   return Buffer.from(data, 'utf-8').toString('base64');
 }
 
@@ -88,10 +148,11 @@ function encodeCursor(createdAt: Date, id: Types.ObjectId): string {
 async function fetchTribePosts(
   tribeId: Types.ObjectId,
   limit: number,
-  cursor?: string
+  cursor?: string,
+  hiddenUserIds: Types.ObjectId[] = []
 ): Promise<any[]> {
   // Parse cursor
-  let cursorData = cursor ? parseCursor(cursor) : null;
+  const cursorData = parsePartitionCursor(cursor, tribeId);
   
   // Build query
   const query: any = {
@@ -99,6 +160,10 @@ async function fetchTribePosts(
     status: 'active',
   };
   
+  if (hiddenUserIds.length > 0) {
+    query.userId = { $nin: hiddenUserIds };
+  }
+  
   if (cursorData) {
     query.$or = [
       { createdAt: { $lt: cursorData.lastCreatedAt } },
@@ -124,10 +189,11 @@ async function fetchTribePosts(
 async function fetchDiscoveryPosts(
   excludeTribeId: Types.ObjectId,
   limit: number,
-  cursor?: string
+  cursor?: string,
+  hiddenUserIds: Types.ObjectId[] = []
 ): Promise<any[]> {
   // Parse cursor
-  let cursorData = cursor ? parseCursor(cursor) : null;
+  const cursorData = parsePartitionCursor(cursor, excludeTribeId);
   
   // Build query
   const query: any = {
@@ -136,6 +202,10 @@ async function fetchDiscoveryPosts(
     status: 'active',
   };
   
+  if (hiddenUserIds.length > 0) {
+    query.userId = { $nin: hiddenUserIds };
+  }
+  
   if (cursorData) {
     query.$or = [
       { createdAt: { $lt: cursorData.lastCreatedAt } },
@@ -215,7 +285,7 @@ async function getViewerRespects(
 /**
  * Enrich posts with user, tribe, signed URLs
  */
-async function enrichPosts(
+export async function enrichPosts(
   posts: any[],
   viewerUserId: Types.ObjectId,
   includeFullImage: boolean = false
@@ -260,6 +330,7 @@ async function enrichPosts(
         imageUrl,
         aspect: post.media.aspect,
         styleTag: post.styleTag,
+        tags: post.tags || [],
         caption: post.caption,
         user: {
           id: user?._id.toString() || '',
@@ -272,7 +343,11 @@ async function enrichPosts(
           slug: tribe?.slug || 'unknown',
           name: tribe?.name || 'Unknown',
         },
-        counts: post.counts,
+        counts: {
+          respects: post.counts?.respects || 0,
+          shares: post.counts?.shares || 0,
+          comments: post.counts?.comments || 0, // Absent on posts created before comments
+        },
         viewerState: {
           hasRespected: respectedSet.has(post._id.toString()),
         },
@@ -302,8 +377,12 @@ export async function getFeed(
     
     const userObjectId = new Types.ObjectId(userId);
     
-    // Get user's tribe
-    const user = await User.findById(userObjectId).select('tribeId').lean();
+    // Get user's tribe (read per request, so a tribe switch applies immediately)
+    // and the authors hidden from them (moderated, blocked or muted)
+    const [user, hiddenUserIds] = await Promise.all([
+      User.findById(userObjectId).select('tribeId').lean(),
+      getHiddenAuthorIds(userId),
+    ]);
     
     if (!user || !user.tribeId) {
       throw new Error('User has no tribe');
@@ -318,8 +397,8 @@ export async function getFeed(
     
     // Fetch both streams in parallel
     const [tribePosts, discoverPosts] = await Promise.all([
-      fetchTribePosts(user.tribeId, tribeLimit + 1, cursors?.tribe), // +1 to check for more
-      fetchDiscoveryPosts(user.tribeId, discoverLimit + 1, cursors?.discover),
+      fetchTribePosts(user.tribeId, tribeLimit + 1, cursors?.tribe, hiddenUserIds), // +1 to check for more
+      fetchDiscoveryPosts(user.tribeId, discoverLimit + 1, cursors?.discover, hiddenUserIds),
     ]);
     
     // Check if there are more posts
@@ -360,12 +439,12 @@ export async function getFeed(
     
     if (hasMoreTribe && tribeItems.length > 0) {
       const lastTribe = tribeItems[tribeItems.length - 1];
-      nextCursor.tribe = encodeCursor(lastTribe.createdAt, lastTribe._id);
+      nextCursor.tribe = encodeCursor(lastTribe.createdAt, lastTribe._id, user.tribeId);
     }
     
     if (hasMoreDiscover && discoverItems.length > 0) {
       const lastDiscover = discoverItems[discoverItems.length - 1];
-      nextCursor.discover = encodeCursor(lastDiscover.createdAt, lastDiscover._id);
+      nextCursor.discover = encodeCursor(lastDiscover.createdAt, lastDiscover._id, user.tribeId);
     }
     
     logger.info('Feed fetched', {
@@ -386,7 +465,7 @@ export async function getFeed(
 }
 
 /**
- * Get hot feed (experimental - uses hotScore)
+ * Get hot feed (ranked by hotScore, see ranking.service)
  */
 export async function getHotFeed(
   userId: string,
@@ -401,16 +480,27 @@ export async function getHotFeed(
     const userObjectId = new Types.ObjectId(userId);
     
     // Parse cursor (for hotScore-based pagination)
-    let cursorData = cursor ? parseCursor(cursor) : null;
+    const cursorData = cursor ? parseHotCursor(cursor) : null;
     
-    // Build query
+    // Build query (skipping moderated, blocked and muted users)
     const query: any = {
       status: 'active',
       visibility: 'public',
     };
     
+    const hiddenUserIds = await getHiddenAuthorIds(userId);
+    if (hiddenUserIds.length > 0) {
+      query.userId = { $nin: hiddenUserIds };
+    }
+    
     if (cursorData) {
-      query._id = { $lt: cursorData.lastId };
+      query.$or = [
+        { 'rank.hotScore': { $lt: cursorData.lastScore } },
+        {
+          'rank.hotScore': cursorData.lastScore,
+          _id: { $lt: cursorData.lastId },
+        },
+      ];
     }
     
     // Fetch by hot score
@@ -429,7 +519,7 @@ export async function getHotFeed(
     const nextCursor: FeedCursor = {};
     if (hasMore && items.length > 0) {
       const lastPost = items[items.length - 1];
-      nextCursor.discover = encodeCursor(lastPost.createdAt, lastPost._id);
+      nextCursor.discover = encodeHotCursor(lastPost.rank?.hotScore || 0, lastPost._id);
     }
     
     return {
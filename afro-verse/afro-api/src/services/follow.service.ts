@@ -2,6 +2,8 @@ import { Types } from 'mongoose';
 import Follow from '../models/Follow';
 import { User } from '../models/User';
 import logger from '../utils/logger';
+import { notify } from './notification.service';
+import { isBlockedBetween, getBlockState } from './block.service';
 
 /**
  * Follow Service
@@ -33,8 +35,13 @@ export async function followUser(
       return { success: false, error: 'user_not_found' };
     }
 
+    // Blocked in either direction
+    if (await isBlockedBetween(followerId, followingId)) {
+      return { success: false, error: 'blocked' };
+    }
+
     // Create follow relationship (idempotent)
-    await Follow.findOneAndUpdate(
+    const followResult = await Follow.findOneAndUpdate(
       {
         follower: new Types.ObjectId(followerId),
         following: new Types.ObjectId(followingId),
@@ -45,7 +52,7 @@ export async function followUser(
           following: new Types.ObjectId(followingId),
         },
       },
-      { upsert: true, new: true }
+      { upsert: true, new: true, includeResultMetadata: true }
     );
 
     // Update follower/following counts
@@ -56,6 +63,16 @@ export async function followUser(
 
     logger.info('User followed', { followerId, followingId });
 
+    // Notify only on a new follow (non-blocking)
+    if (!followResult.lastErrorObject?.updatedExisting) {
+      notify({
+        userId: followingId,
+        type: 'follow',
+        groupKey: 'follow',
+        actorId: followerId,
+      });
+    }
+
     return { success: true };
   } catch (error: any) {
     // Handle duplicate key error (race condition)
@@ -140,29 +157,43 @@ export async function getRelationship(
   isFollowing: boolean;
   isFollower: boolean;
   isSelf: boolean;
+  isBlocked: boolean; // Current user blocked target
+  isBlockedBy: boolean; // Target blocked current user
+  isMuted: boolean; // Current user muted target
 }> {
+  const none = {
+    isFollowing: false,
+    isFollower: false,
+    isSelf: false,
+    isBlocked: false,
+    isBlockedBy: false,
+    isMuted: false,
+  };
+
   try {
     if (!currentUserId) {
-      return { isFollowing: false, isFollower: false, isSelf: false };
+      return none;
     }
 
     if (currentUserId === targetUserId) {
-      return { isFollowing: false, isFollower: false, isSelf: true };
+      return { ...none, isSelf: true };
     }
 
-    const [following, follower] = await Promise.all([
+    const [following, follower, blockState] = await Promise.all([
       isFollowing(currentUserId, targetUserId),
       isFollowing(targetUserId, currentUserId),
+      getBlockState(currentUserId, targetUserId),
     ]);
 
     return {
       isFollowing: following,
       isFollower: follower,
       isSelf: false,
+      ...blockState,
     };
   } catch (error: any) {
     logger.error('Error getting relationship', error);
-    return { isFollowing: false, isFollower: false, isSelf: false };
+    return none;
   }
 }
 
@@ -1,6 +1,10 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
+import { buildSystemInstruction, buildRefinementPrompt } from '../ai/promptTemplates';
+
+// Prompt building moved to ai/promptTemplates (re-exported for existing callers)
+export { buildUserPrompt } from '../ai/promptTemplates';
 
 /**
  * Gemini Service
@@ -26,11 +30,13 @@ export interface GenerationInput {
   images?: Buffer[];
   aspectRatio?: '1:1' | '9:16';
   quality?: 'standard' | 'high';
+  model?: string; // Defaults to Nano Banana Pro
 }
 
 export interface GenerationOutput {
   imageData: Buffer;
   mimeType: string;
+  model: string;
   requestId?: string;
 }
 
@@ -39,78 +45,6 @@ export interface RefineInput extends GenerationInput {
   instruction: string;
 }
 
-/**
- * Build system instruction for image generation
- */
-function buildSystemInstruction(): string {
-  return `You are an AI that generates high-quality portrait images with the following requirements:
-
-IDENTITY PRESERVATION:
-- Preserve the user's face identity and features - they must be clearly recognizable
-- Maintain accurate skin tone, facial structure, and distinctive features
-- Keep realistic human proportions
-
-CULTURAL RESPECT:
-- Create respectful and authentic cultural representations
-- Avoid stereotypes, caricatures, or exaggerated features
-- Celebrate diversity with dignity
-
-SAFETY:
-- No nudity or sexually explicit content
-- No hate speech, violence, or harmful content
-- No content involving minors in inappropriate contexts
-- No content promoting illegal activities
-
-OUTPUT QUALITY:
-- High-quality portrait with professional lighting
-- Centered single subject with clear focus
-- Consistent style throughout the image
-- Sharp details and good composition
-
-The image should be suitable for use as a profile picture or social media avatar.`;
-}
-
-/**
- * Build user prompt from style parameters
- */
-export function buildUserPrompt(params: {
-  presetId?: string;
-  userPrompt?: string;
-  aspectRatio: '1:1' | '9:16';
-}): string {
-  let prompt = '';
-  
-  // Add preset description
-  if (params.presetId) {
-    const presetDescriptions: Record<string, string> = {
-      'afrofuturism': 'Afrofuturist aesthetic with vibrant colors, geometric patterns, and futuristic elements. Blend of African cultural motifs with sci-fi technology.',
-      'royal': 'Royal African aesthetic with traditional royal attire, crowns, jewelry, and regal posture. Rich fabrics like kente or mudcloth.',
-      'street': 'Contemporary street style with modern urban fashion, bold colors, and confident attitude.',
-      'vintage': 'Vintage portrait style with classic photography aesthetics, warm tones, and timeless elegance.',
-      'warrior': 'Warrior aesthetic with traditional warrior attire, accessories, and powerful stance.',
-    };
-    
-    const presetDesc = presetDescriptions[params.presetId] || '';
-    if (presetDesc) {
-      prompt += presetDesc + ' ';
-    }
-  }
-  
-  // Add user prompt
-  if (params.userPrompt) {
-    prompt += params.userPrompt + ' ';
-  }
-  
-  // Add technical constraints
-  prompt += `\n\nTechnical requirements:
-- Aspect ratio: ${params.aspectRatio}
-- Single centered subject
-- Professional portrait composition
-- High quality and sharp details`;
-  
-  return prompt.trim();
-}
-
 /**
  * Generate image with Gemini
  */
@@ -120,15 +54,15 @@ export async function generateImage(input: GenerationInput): Promise<GenerationO
   }
   
   try {
-    // Always use Nano Banana Pro for best quality and advanced reasoning
-    const modelName = MODEL_NANO_BANANA_PRO;
+    // Default to Nano Banana Pro for best quality and advanced reasoning
+    const modelName = input.model || MODEL_NANO_BANANA_PRO;
     
     const model = genAI.getGenerativeModel({
       model: modelName,
       ...(input.systemInstruction || buildSystemInstruction() ? { systemInstruction: input.systemInstruction || buildSystemInstruction() } : {}),
     } as any);
     
-    logger.info('Using Nano Banana Pro for generation', { model: modelName });
+    logger.info('Using Gemini model for generation', { model: modelName });
     
     // Prepare parts for generation
     const parts: any[] = [{ text: input.prompt }];
@@ -168,14 +102,15 @@ export async function generateImage(input: GenerationInput): Promise<GenerationO
     const imageData = Buffer.from(imagePart.inlineData.data, 'base64');
     const mimeType = imagePart.inlineData.mimeType;
     
-    logger.info('Image generated successfully with Nano Banana Pro', {
-      model: MODEL_NANO_BANANA_PRO,
+    logger.info('Image generated successfully with Gemini', {
+      model: modelName,
       size: imageData.length,
     });
     
     return {
       imageData,
       mimeType,
+      model: modelName,
       requestId: (response as any).usageMetadata?.toString() || undefined,
     };
   } catch (error: any) {
@@ -204,18 +139,15 @@ export async function refineImage(input: RefineInput): Promise<GenerationOutput>
   }
   
   try {
-    // Always use Nano Banana Pro for refinements
+    // Default to Nano Banana Pro for refinements
+    const modelName = input.model || MODEL_NANO_BANANA_PRO;
     const model = genAI.getGenerativeModel({
-      model: MODEL_NANO_BANANA_PRO,
+      model: modelName,
       systemInstruction: buildSystemInstruction(),
     } as any);
     
     // Build refinement prompt
-    const refinementPrompt = `Based on the provided image, apply the following change while keeping the same person, style, and composition:
-
-${input.instruction}
-
-Important: Only apply the requested change. Keep everything else exactly the same.`;
+    const refinementPrompt = buildRefinementPrompt(input.instruction);
     
     // Prepare parts
     const parts: any[] = [
@@ -264,13 +196,14 @@ Important: Only apply the requested change. Keep everything else exactly the sam
     const mimeType = imagePart.inlineData.mimeType;
     
     logger.info('Image refined successfully', {
-      model: input.quality === 'high' ? MODEL_NANO_BANANA_PRO : MODEL_NANO_BANANA,
+      model: modelName,
       size: imageData.length,
     });
     
     return {
       imageData,
       mimeType,
+      model: modelName,
       requestId: (response as any).usageMetadata?.toString() || undefined,
     };
   } catch (error: any) {
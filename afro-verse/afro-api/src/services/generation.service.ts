@@ -2,12 +2,23 @@ import { Types } from 'mongoose';
 import { Generation } from '../models/Generation';
 import { UserSelfie } from '../models/UserSelfie';
 import { Post } from '../models/Post';
-import { getBucket } from '../config/storage';
+import { User } from '../models/User';
 import { BUCKETS } from '../config/buckets';
-import { generateImage, refineImage, buildUserPrompt } from './gemini.service';
+import { uploadBuffer, downloadFile } from './storage.service';
+import {
+  generate,
+  refine as refineWithProvider,
+  resolveRoute,
+  formatAttempt,
+  PipelineResult,
+} from '../ai/generationPipeline';
+import { buildUserPrompt } from '../ai/promptTemplates';
+import { resolvePresetForGeneration, getPresetPrompt } from './stylePreset.service';
 import { generateThumbnail } from '../utils/image';
 import { logger } from '../utils/logger';
-import { env } from '../config/env';
+import { enqueueGenerationTask, GenerationTaskPayload } from './tasks.service';
+import { notify } from './notification.service';
+import { isBlockedBetween } from './block.service';
 
 /**
  * Generation Service
@@ -77,8 +88,9 @@ export async function createGeneration(
     }
     
     // If try_style mode, validate seed post
+    let seedPost = null;
     if (input.mode === 'try_style' && input.seedPostId) {
-      const seedPost = await Post.findById(input.seedPostId);
+      seedPost = await Post.findById(input.seedPostId);
       
       if (!seedPost) {
         return {
@@ -87,8 +99,42 @@ export async function createGeneration(
           errorCode: 'invalid_seed',
         };
       }
+      
+      // No trying the style of someone you blocked or who blocked you
+      if (await isBlockedBetween(input.userId, seedPost.userId)) {
+        return {
+          success: false,
+          error: 'Cannot try this style',
+          errorCode: 'blocked',
+        };
+      }
     }
     
+    // Resolve the style preset; the version is recorded so later edits
+    // to the preset don't change how this generation is rendered
+    let preset = null;
+    if (input.presetId) {
+      const user = await User.findById(input.userId).select('tribeId').lean();
+      preset = await resolvePresetForGeneration(input.presetId, user?.tribeId?.toString());
+      
+      if (!preset) {
+        return {
+          success: false,
+          error: 'Unknown, disabled or tribe-restricted style preset',
+          errorCode: 'invalid_preset',
+        };
+      }
+    } else if (input.mode === 'preset') {
+      return {
+        success: false,
+        error: 'presetId is required in preset mode',
+        errorCode: 'invalid_preset',
+      };
+    }
+    
+    // Planned provider; updated with the actual one once the job runs
+    const route = resolveRoute(input.quality || 'standard');
+    
     // Create generation record
     const generation = await Generation.create({
       userId: input.userId,
@@ -98,7 +144,8 @@ export async function createGeneration(
         seedPostId: input.seedPostId || null,
       },
       style: {
-        presetId: input.presetId || null,
+        presetId: preset?.slug || null,
+        presetVersion: preset?.version || null,
         prompt: input.prompt || '',
         negativePrompt: input.negativePrompt || null,
         parameters: {
@@ -107,18 +154,18 @@ export async function createGeneration(
         },
       },
       provider: {
-        name: 'gemini',
-        model: input.quality === 'high' ? 'gemini-3-pro-preview' : 'gemini-2.5-flash-image',
+        name: route.provider,
+        model: route.model,
         requestIds: [],
       },
       status: 'queued',
       versions: [],
     });
     
-    // Fire background job (Vercel-style)
+    // Enqueue background job
     const generationId = generation._id.toString();
     
-    triggerBackgroundJob({
+    await dispatchGenerationTask({
       generationId,
       requestedVersionId: 'v1',
       type: 'initial',
@@ -130,6 +177,17 @@ export async function createGeneration(
       mode: input.mode,
     });
     
+    // Tell the seed post's creator their style was tried (non-blocking)
+    if (seedPost) {
+      notify({
+        userId: seedPost.userId,
+        type: 'try_style',
+        groupKey: `try_style:${seedPost._id}`,
+        actorId: input.userId,
+        target: { postId: seedPost._id },
+      });
+    }
+    
     return {
       success: true,
       generationId,
@@ -145,27 +203,20 @@ export async function createGeneration(
 }
 
 /**
- * Trigger background job (fire-and-forget)
+ * Enqueue generation task
+ * 
+ * The generation is already persisted as queued, so an enqueue failure
+ * is logged and left to the /cron/generation-retry poller.
  */
-function triggerBackgroundJob(params: {
-  generationId: string;
-  requestedVersionId: string;
-  type: 'initial' | 'refine';
-}): void {
-  const jobUrl = `${env.API_URL || 'http://localhost:3001'}/api/jobs/generation`;
-  
-  fetch(jobUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(params),
-  }).catch((error) => {
-    logger.error('Failed to trigger background job', {
-      generationId: params.generationId,
+async function dispatchGenerationTask(payload: GenerationTaskPayload): Promise<void> {
+  try {
+    await enqueueGenerationTask(payload);
+  } catch (error: any) {
+    logger.error('Failed to enqueue generation task', {
+      generationId: payload.generationId,
       error: error.message,
     });
-  });
+  }
 }
 
 /**
@@ -229,8 +280,8 @@ export async function refineGeneration(
     generation.status = 'queued';
     await generation.save();
     
-    // Fire background job (Vercel-style)
-    triggerBackgroundJob({
+    // Enqueue background job
+    await dispatchGenerationTask({
       generationId: generation._id.toString(),
       requestedVersionId: nextVersionId,
       type: 'refine',
@@ -261,6 +312,7 @@ export async function refineGeneration(
  * 
  * This is called by the worker service when a task is processed.
  * IDEMPOTENT: Safe to call multiple times for same generation.
+ * Notifies the owner on success and failure, like generationJob.service.
  */
 export async function processGeneration(taskPayload: {
   generationId: string;
@@ -270,7 +322,7 @@ export async function processGeneration(taskPayload: {
     baseVersionId: string;
     instruction: string;
   };
-}): Promise<{ success: boolean; error?: string }> {
+}): Promise<{ success: boolean; error?: string; errorCode?: string }> {
   const { generationId, type, requestedVersionId, refine } = taskPayload;
   
   logger.info('processGeneration called', {
@@ -323,45 +375,6 @@ export async function processGeneration(taskPayload: {
     // Step 1: Fetch inputs (selfies)
     const selfieBuffers: Buffer[] = [];
     
-    logger.info('Attempting to access buckets', {
-      privateGallery: BUCKETS.PRIVATE_GALLERY,
-      rawGenerations: BUCKETS.RAW_GENERATIONS,
-      generationId,
-    });
-    
-    let selfieBucket;
-    let rawBucket;
-    
-    try {
-      selfieBucket = getBucket(BUCKETS.PRIVATE_GALLERY);
-      logger.info('Successfully got private gallery bucket', { generationId });
-    } catch (err: any) {
-      logger.error('Failed to get private gallery bucket', {
-        generationId,
-        bucket: BUCKETS.PRIVATE_GALLERY,
-        error: err.message,
-      });
-      throw err;
-    }
-    
-    try {
-      rawBucket = getBucket(BUCKETS.RAW_GENERATIONS);
-      logger.info('Successfully got raw generations bucket', { generationId });
-    } catch (err: any) {
-      logger.error('Failed to get raw generations bucket', {
-        generationId,
-        bucket: BUCKETS.RAW_GENERATIONS,
-        error: err.message,
-      });
-      throw err;
-    }
-    
-    logger.info('Using buckets for generation', {
-      selfieBucket: BUCKETS.PRIVATE_GALLERY,
-      rawBucket: BUCKETS.RAW_GENERATIONS,
-      generationId,
-    });
-    
     for (const selfieId of generation.source.selfieIds) {
       const selfie = await UserSelfie.findById(selfieId);
       
@@ -369,16 +382,20 @@ export async function processGeneration(taskPayload: {
         throw new Error(`Selfie not found: ${selfieId}`);
       }
       
-      logger.info('Downloading selfie from GCS', {
+      logger.info('Downloading selfie from storage', {
         generationId,
         selfieId: selfieId.toString(),
         bucket: BUCKETS.PRIVATE_GALLERY,
         path: selfie.gcsPath,
       });
       
-      const file = selfieBucket.file(selfie.gcsPath);
-      const [buffer] = await file.download();
-      selfieBuffers.push(buffer);
+      const download = await downloadFile(BUCKETS.PRIVATE_GALLERY, selfie.gcsPath);
+      
+      if (!download.success || !download.buffer) {
+        throw new Error(`Failed to download selfie: ${download.error}`);
+      }
+      
+      selfieBuffers.push(download.buffer);
     }
     
     logger.info('Fetched selfies', {
@@ -387,14 +404,22 @@ export async function processGeneration(taskPayload: {
     });
     
     // Step 2: Build prompt
+    const presetPrompt = generation.style.presetId
+      ? await getPresetPrompt(generation.style.presetId, generation.style.presetVersion)
+      : null;
+    
     const userPrompt = buildUserPrompt({
-      presetId: generation.style.presetId || undefined,
+      presetPrompt: presetPrompt?.promptFragment,
       userPrompt: generation.style.prompt,
       aspectRatio: generation.style.parameters.aspect,
     });
     
+    const negativePrompt = [presetPrompt?.negativePrompt, generation.style.negativePrompt]
+      .filter(Boolean)
+      .join(', ');
+    
     // Step 3: Generate or refine
-    let output: { imageData: Buffer; mimeType: string; requestId?: string };
+    let output: PipelineResult;
     
     if (type === 'refine' && refine) {
       // Fetch base image from raw generations bucket
@@ -406,8 +431,13 @@ export async function processGeneration(taskPayload: {
         throw new Error(`Base version not found: ${refine.baseVersionId}`);
       }
       
-      const baseFile = rawBucket.file(baseVersion.imagePath);
-      const [baseBuffer] = await baseFile.download();
+      const baseDownload = await downloadFile(BUCKETS.RAW_GENERATIONS, baseVersion.imagePath);
+      
+      if (!baseDownload.success || !baseDownload.buffer) {
+        throw new Error(`Failed to download base version: ${baseDownload.error}`);
+      }
+      
+      const baseBuffer = baseDownload.buffer;
       
       logger.info('Refining image', {
         generationId,
@@ -415,7 +445,7 @@ export async function processGeneration(taskPayload: {
         instruction: refine.instruction,
       });
       
-      output = await refineImage({
+      output = await refineWithProvider({
         baseImage: baseBuffer,
         instruction: refine.instruction,
         images: selfieBuffers,
@@ -429,8 +459,9 @@ export async function processGeneration(taskPayload: {
         prompt: userPrompt.substring(0, 100),
       });
       
-      output = await generateImage({
+      output = await generate({
         prompt: userPrompt,
+        negativePrompt: negativePrompt || undefined,
         images: selfieBuffers,
         aspectRatio: generation.style.parameters.aspect,
         quality: generation.style.parameters.quality,
@@ -440,35 +471,32 @@ export async function processGeneration(taskPayload: {
     // Step 4: Generate thumbnail
     const thumbnail = await generateThumbnail(output.imageData);
     
-    // Step 5: Upload to GCS (raw generations bucket for temporary storage)
+    // Step 5: Upload to storage (raw generations bucket for temporary storage)
     const imagePath = `users/${generation.userId}/generations/${generationId}/images/${requestedVersionId}.png`;
     const thumbPath = `users/${generation.userId}/generations/${generationId}/thumbs/${requestedVersionId}_w512.jpg`;
     
-    logger.info('Uploading generation to GCS', {
+    logger.info('Uploading generation to storage', {
       generationId,
       bucket: BUCKETS.RAW_GENERATIONS,
       imagePath,
       thumbPath,
     });
     
-    const imageFile = rawBucket.file(imagePath);
-    const thumbFile = rawBucket.file(thumbPath);
-    
-    await imageFile.save(output.imageData, {
+    const imageUpload = await uploadBuffer(BUCKETS.RAW_GENERATIONS, imagePath, output.imageData, {
       contentType: output.mimeType,
-      metadata: {
-        cacheControl: 'public, max-age=31536000',
-      },
+      cacheControl: 'public, max-age=31536000',
     });
     
-    await thumbFile.save(thumbnail, {
+    const thumbUpload = await uploadBuffer(BUCKETS.RAW_GENERATIONS, thumbPath, thumbnail, {
       contentType: 'image/jpeg',
-      metadata: {
-        cacheControl: 'public, max-age=31536000',
-      },
+      cacheControl: 'public, max-age=31536000',
     });
     
-    logger.info('Uploaded to GCS successfully', {
+    if (!imageUpload.success || !thumbUpload.success) {
+      throw new Error(`Failed to upload generation: ${imageUpload.error || thumbUpload.error}`);
+    }
+    
+    logger.info('Uploaded to storage successfully', {
       generationId,
       bucket: BUCKETS.RAW_GENERATIONS,
       imagePath,
@@ -487,11 +515,19 @@ export async function processGeneration(taskPayload: {
       await (generation as any).markSucceeded();
     }
     
-    // Add request ID
-    if (output.requestId) {
-      generation.provider.requestIds.push(output.requestId);
-      await generation.save();
-    }
+    // Record the provider that actually produced this version
+    generation.provider.name = output.provider;
+    generation.provider.model = output.model;
+    generation.provider.requestIds.push(...output.attempts.map(formatAttempt));
+    
+    await generation.save();
+    
+    notify({
+      userId: generation.userId,
+      type: 'generation_ready',
+      groupKey: `generation:${generationId}`,
+      target: { generationId },
+    });
     
     logger.info('Generation completed successfully', {
       generationId,
@@ -506,26 +542,32 @@ export async function processGeneration(taskPayload: {
       error: error.message,
     });
     
+    // Provider errors carry a normalized code
+    const errorCode = error.provider ? error.code : 'generation_failed';
+    
     // Mark generation as failed
     try {
       const generation = await Generation.findById(generationId);
       
       if (generation) {
-        let errorCode = 'generation_failed';
-        
-        if (error.message === 'BLOCKED') {
-          errorCode = 'blocked';
-        } else if (error.message === 'RATE_LIMITED') {
-          errorCode = 'rate_limited';
+        if (error.attempts?.length) {
+          generation.provider.requestIds.push(...error.attempts.map(formatAttempt));
         }
         
         await (generation as any).markFailed(errorCode, error.message);
+        
+        notify({
+          userId: generation.userId,
+          type: 'generation_failed',
+          groupKey: `generation_failed:${generationId}`,
+          target: { generationId },
+        });
       }
     } catch (updateError) {
       logger.error('Failed to mark generation as failed', updateError);
     }
     
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, errorCode };
   }
 }
 
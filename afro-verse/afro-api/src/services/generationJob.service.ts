@@ -2,11 +2,16 @@ import { Types } from 'mongoose';
 import { Generation } from '../models/Generation';
 import { UserSelfie } from '../models/UserSelfie';
 import { User } from '../models/User';
-import { getBucket } from '../config/storage';
 import { BUCKETS } from '../config/buckets';
-import { generateImage } from './gemini.service';
+import { downloadFile } from './storage.service';
+import { generate, formatAttempt, ProviderAttempt } from '../ai/generationPipeline';
+import { buildUserPrompt } from '../ai/promptTemplates';
 import { uploadImageToGCS } from '../utils/image';
 import { logger } from '../utils/logger';
+import { notify } from './notification.service';
+import { isModerated } from './visibility.service';
+import { getPresetPrompt } from './stylePreset.service';
+import { indexImage } from './imageHash.service';
 import { calculateRetryAfter, isRetryableError, isNonRetryableError } from '../utils/backoff';
 
 /**
@@ -211,19 +216,21 @@ async function performGeneration(
   cleanImagePath?: string;
   cleanThumbPath?: string;
   hasWatermark: boolean;
+  provider: string;
+  model: string;
+  attempts: ProviderAttempt[];
 }> {
   // Check if user is banned
   const user = await User.findById(generation.userId).select('status').lean();
   
-  if (user?.status?.banned || user?.status?.shadowbanned) {
+  if (isModerated(user?.status)) {
     const error: any = new Error('User is banned');
     error.code = 'banned_user';
     throw error;
   }
   
-  // Fetch selfies from GCS (from private gallery)
+  // Fetch selfies from storage (from private gallery)
   const selfieBuffers: Buffer[] = [];
-  const selfieBucket = getBucket(BUCKETS.PRIVATE_GALLERY);
   
   for (const selfieId of generation.source.selfieIds) {
     const selfie = await UserSelfie.findById(selfieId).lean();
@@ -234,16 +241,37 @@ async function performGeneration(
       throw error;
     }
     
-    // Download selfie from GCS
-    const file = selfieBucket.file(selfie.gcsPath);
-    const [buffer] = await file.download();
+    // Download selfie from storage
+    const download = await downloadFile(BUCKETS.PRIVATE_GALLERY, selfie.gcsPath);
     
-    selfieBuffers.push(buffer);
+    if (!download.success || !download.buffer) {
+      const error: any = new Error(`Failed to download selfie: ${download.error}`);
+      error.code = 'temporary_error';
+      throw error;
+    }
+    
+    selfieBuffers.push(download.buffer);
   }
   
-  // Generate image with Gemini
-  const result = await generateImage({
-    prompt: generation.style.prompt,
+  // Blend in the style preset at the version the generation recorded
+  const presetPrompt = generation.style.presetId
+    ? await getPresetPrompt(generation.style.presetId, generation.style.presetVersion)
+    : null;
+  
+  const negativePrompt = [presetPrompt?.negativePrompt, generation.style.negativePrompt]
+    .filter(Boolean)
+    .join(', ');
+  
+  // Generate image with the configured provider
+  const result = await generate({
+    prompt: presetPrompt
+      ? buildUserPrompt({
+          presetPrompt: presetPrompt.promptFragment,
+          userPrompt: generation.style.prompt,
+          aspectRatio: generation.style.parameters.aspect,
+        })
+      : generation.style.prompt,
+    negativePrompt: negativePrompt || undefined,
     images: selfieBuffers,
     aspectRatio: generation.style.parameters.aspect,
     quality: generation.style.parameters.quality,
@@ -267,6 +295,15 @@ async function performGeneration(
     visibilityType: 'public',
   });
   
+  // Index perceptual hash (non-blocking)
+  indexImage({
+    kind: 'generation',
+    refId: generationId,
+    versionId,
+    userId,
+    imageBuffer,
+  });
+  
   // Use watermarked paths as the primary paths (these are the files that actually exist)
   const watermarkedImagePath = uploadResult.watermarkedPath || imagePath.replace(/(\.[^.]+)$/, '_wm$1');
   const watermarkedThumbPath = thumbPath.replace(/(\.[^.]+)$/, '_wm$1');
@@ -281,6 +318,9 @@ async function performGeneration(
     cleanImagePath,
     cleanThumbPath,
     hasWatermark: true,
+    provider: result.provider,
+    model: result.model,
+    attempts: result.attempts,
   };
 }
 
@@ -300,6 +340,9 @@ async function appendVersion(
     cleanImagePath?: string;
     cleanThumbPath?: string;
     hasWatermark: boolean;
+    provider: string;
+    model: string;
+    attempts: ProviderAttempt[];
   }
 ): Promise<boolean> {
   const result = await Generation.updateOne(
@@ -320,6 +363,13 @@ async function appendVersion(
           hasWatermark: data.hasWatermark,
           createdAt: new Date(),
         },
+        'provider.requestIds': {
+          $each: data.attempts.map(formatAttempt),
+        },
+      },
+      $set: {
+        'provider.name': data.provider,
+        'provider.model': data.model,
       },
     }
   );
@@ -328,16 +378,25 @@ async function appendVersion(
 }
 
 /**
- * Mark generation as succeeded
+ * Mark generation as succeeded and notify the owner
  */
 async function markSucceeded(generationId: string): Promise<void> {
-  await Generation.findByIdAndUpdate(generationId, {
+  const generation = await Generation.findByIdAndUpdate(generationId, {
     $set: {
       status: 'succeeded',
       lockedBy: null,
       lockedAt: null,
     },
-  });
+  }).select('userId');
+  
+  if (generation) {
+    notify({
+      userId: generation.userId,
+      type: 'generation_ready',
+      groupKey: `generation:${generationId}`,
+      target: { generationId },
+    });
+  }
 }
 
 /**
@@ -352,6 +411,12 @@ async function handleFailure(
   
   if (!generation) return;
   
+  // Record every provider attempt made before the failure
+  const attemptIds: string[] = (error.attempts || []).map(formatAttempt);
+  const pushAttempts = attemptIds.length > 0
+    ? { $push: { 'provider.requestIds': { $each: attemptIds } } }
+    : {};
+  
   // Determine if retryable
   const retryable = !isNonRetryableError(error) && isRetryableError(error);
   
@@ -369,6 +434,7 @@ async function handleFailure(
       generationId,
       attempts,
       retryAfter,
+      providersTried: attemptIds,
     });
   } else {
     status = 'failed';
@@ -388,6 +454,7 @@ async function handleFailure(
           retryable: false,
         },
       },
+      ...pushAttempts,
     });
     
     logger.warn('Generation marked as failed', {
@@ -396,6 +463,13 @@ async function handleFailure(
       maxAttemptsExceeded,
     });
     
+    notify({
+      userId: generation.userId,
+      type: 'generation_failed',
+      groupKey: `generation_failed:${generationId}`,
+      target: { generationId },
+    });
+    
     return;
   }
   
@@ -411,6 +485,7 @@ async function handleFailure(
         retryable: true,
       },
     },
+    ...pushAttempts,
   });
 }
 
@@ -0,0 +1,440 @@
+import { Types } from 'mongoose';
+import { ImageHash, IImageHash, ImageHashKind } from '../models/ImageHash';
+import { Post, IPost } from '../models/Post';
+import { User } from '../models/User';
+import { Generation } from '../models/Generation';
+import { securityConfig } from '../config/security';
+import { BUCKETS } from '../config/buckets';
+import { downloadFile } from './storage.service';
+import { generateSignedReadUrl } from './media.service';
+import {
+  computePerceptualHash,
+  hammingDistance,
+  hashBands,
+  PerceptualHash,
+} from '../utils/perceptualHash';
+import { logger } from '../utils/logger';
+
+/**
+ * Image Hash Service
+ *
+ * Perceptual-hash index of selfies, generation versions and posts, used
+ * to stop reposts of other users' images and repeated posting of the same
+ * image, and for the admin "find similar images" lookup.
+ *
+ * Distance is the larger of the pHash and dHash Hamming distances, so a
+ * match has to look alike by both measures.
+ */
+
+const MAX_CANDIDATES = 500;
+
+export interface SimilarImage {
+  kind: ImageHashKind;
+  refId: string;
+  versionId: string | null;
+  userId: string;
+  distance: number;
+}
+
+export interface PostDuplicateCheck {
+  decision: 'allow' | 'flag' | 'reject';
+  error?: 'duplicate_post' | 'duplicate_spam';
+  matchPostId?: string;
+  distance?: number;
+}
+
+function matchDistance(a: PerceptualHash, b: PerceptualHash): number {
+  return Math.max(hammingDistance(a.pHash, b.pHash), hammingDistance(a.dHash, b.dHash));
+}
+
+/**
+ * Store the hash of an image
+ *
+ * Non-blocking: never throws; returns null when the image can't be hashed.
+ */
+export async function indexImage(input: {
+  kind: ImageHashKind;
+  refId: Types.ObjectId | string;
+  userId: Types.ObjectId | string;
+  versionId?: string;
+  imageBuffer: Buffer;
+}): Promise<PerceptualHash | null> {
+  try {
+    const hash = await computePerceptualHash(input.imageBuffer);
+    await saveHash({ ...input, hash });
+    return hash;
+  } catch (error: any) {
+    logger.error('Failed to index image hash', {
+      kind: input.kind,
+      refId: input.refId.toString(),
+      error: error.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Store the hash of an image already in storage
+ *
+ * Non-blocking: never throws.
+ */
+export async function indexStoredImage(input: {
+  kind: ImageHashKind;
+  refId: Types.ObjectId | string;
+  userId: Types.ObjectId | string;
+  versionId?: string;
+  bucket: string;
+  path: string;
+}): Promise<PerceptualHash | null> {
+  const download = await downloadFile(input.bucket, input.path);
+
+  if (!download.success || !download.buffer) {
+    logger.warn('Image hash skipped: image not found', {
+      kind: input.kind,
+      refId: input.refId.toString(),
+      path: input.path,
+    });
+    return null;
+  }
+
+  return indexImage({ ...input, imageBuffer: download.buffer });
+}
+
+async function saveHash(input: {
+  kind: ImageHashKind;
+  refId: Types.ObjectId | string;
+  userId: Types.ObjectId | string;
+  versionId?: string;
+  hash: PerceptualHash;
+}): Promise<void> {
+  await ImageHash.updateOne(
+    {
+      kind: input.kind,
+      refId: new Types.ObjectId(input.refId.toString()),
+      versionId: input.versionId,
+    },
+    {
+      $set: {
+        userId: new Types.ObjectId(input.userId.toString()),
+        pHash: input.hash.pHash,
+        dHash: input.hash.dHash,
+        bands: hashBands(input.hash.pHash),
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Indexed images within maxDistance of a hash (closest first)
+ */
+export async function findSimilarHashes(
+  hash: PerceptualHash,
+  options: {
+    kinds?: ImageHashKind[];
+    maxDistance: number;
+    limit?: number;
+  }
+): Promise<SimilarImage[]> {
+  const query: any = { bands: { $in: hashBands(hash.pHash) } };
+
+  if (options.kinds) {
+    query.kind = { $in: options.kinds };
+  }
+
+  const candidates = await ImageHash.find(query)
+    .select('kind refId versionId userId pHash dHash')
+    .limit(MAX_CANDIDATES)
+    .lean<IImageHash[]>();
+
+  return candidates
+    .map((candidate) => ({
+      kind: candidate.kind,
+      refId: candidate.refId.toString(),
+      versionId: candidate.versionId || null,
+      userId: candidate.userId.toString(),
+      distance: matchDistance(hash, candidate),
+    }))
+    .filter((match) => match.distance <= options.maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, options.limit || MAX_CANDIDATES);
+}
+
+/**
+ * Hash of a generation version (computed from storage if not indexed yet)
+ */
+export async function getGenerationVersionHash(input: {
+  generationId: Types.ObjectId | string;
+  versionId: string;
+  userId: Types.ObjectId | string;
+  bucket: string;
+  imagePath: string;
+}): Promise<PerceptualHash | null> {
+  const existing = await ImageHash.findOne({
+    kind: 'generation',
+    refId: input.generationId,
+    versionId: input.versionId,
+  })
+    .select('pHash dHash')
+    .lean<IImageHash>();
+
+  if (existing) {
+    return { pHash: existing.pHash, dHash: existing.dHash };
+  }
+
+  return indexStoredImage({
+    kind: 'generation',
+    refId: input.generationId,
+    versionId: input.versionId,
+    userId: input.userId,
+    bucket: input.bucket,
+    path: input.imagePath,
+  });
+}
+
+/**
+ * Decide whether a new post of an image may be published
+ *
+ * - reject: another user's live post is (nearly) the same image, or the
+ *   poster already published it maxOwnRepeats times in the window
+ * - flag: another user's live post is similar; publish hidden for review
+ * - allow: otherwise, including when the image can't be hashed
+ */
+export async function checkPostDuplicate(
+  userId: string,
+  hash: PerceptualHash | null
+): Promise<PostDuplicateCheck> {
+  if (!hash) {
+    return { decision: 'allow' };
+  }
+
+  const config = securityConfig.duplicates;
+
+  try {
+    const matches = await findSimilarHashes(hash, {
+      kinds: ['post'],
+      maxDistance: config.flagDistance,
+    });
+
+    if (matches.length === 0) {
+      return { decision: 'allow' };
+    }
+
+    const posts = await Post.find({
+      _id: { $in: matches.map((m) => m.refId) },
+      status: { $ne: 'removed' },
+    })
+      .select('userId createdAt')
+      .lean<IPost[]>();
+
+    const postMap = new Map(posts.map((p) => [p._id.toString(), p]));
+    const live = matches.filter((m) => postMap.has(m.refId));
+
+    const others = live.filter((m) => m.userId !== userId);
+    const closest = others[0];
+
+    if (closest && closest.distance <= config.rejectDistance) {
+      return {
+        decision: 'reject',
+        error: 'duplicate_post',
+        matchPostId: closest.refId,
+        distance: closest.distance,
+      };
+    }
+
+    const windowStart = new Date(Date.now() - config.ownRepeatWindowHours * 60 * 60 * 1000);
+    const ownRepeats = live.filter(
+      (m) =>
+        m.userId === userId &&
+        m.distance <= config.rejectDistance &&
+        postMap.get(m.refId)!.createdAt >= windowStart
+    );
+
+    if (ownRepeats.length >= config.maxOwnRepeats) {
+      return {
+        decision: 'reject',
+        error: 'duplicate_spam',
+        matchPostId: ownRepeats[0].refId,
+        distance: ownRepeats[0].distance,
+      };
+    }
+
+    if (closest) {
+      return {
+        decision: 'flag',
+        matchPostId: closest.refId,
+        distance: closest.distance,
+      };
+    }
+
+    return { decision: 'allow' };
+  } catch (error: any) {
+    logger.error('Error checking post duplicate', { userId, error: error.message });
+    return { decision: 'allow' }; // Fail open
+  }
+}
+
+/**
+ * Index a published post under its generation version's hash
+ *
+ * Non-blocking: never throws.
+ */
+export async function indexPostHash(
+  postId: string,
+  userId: string,
+  hash: PerceptualHash | null
+): Promise<void> {
+  if (!hash) {
+    return;
+  }
+
+  try {
+    await saveHash({ kind: 'post', refId: postId, userId, hash });
+  } catch (error: any) {
+    logger.error('Failed to index post hash', { postId, error: error.message });
+  }
+}
+
+/**
+ * Hash of an indexed image, backfilling posts and generation versions
+ * created before indexing
+ */
+async function getIndexedHash(
+  kind: ImageHashKind,
+  refId: string,
+  versionId?: string
+): Promise<PerceptualHash | null> {
+  const indexed = await ImageHash.findOne({ kind, refId, versionId })
+    .select('pHash dHash')
+    .lean<IImageHash>();
+
+  if (indexed) {
+    return { pHash: indexed.pHash, dHash: indexed.dHash };
+  }
+
+  if (kind === 'post') {
+    const post = await Post.findById(refId).select('userId media').lean<IPost>();
+    return post
+      ? indexStoredImage({
+          kind,
+          refId,
+          userId: post.userId,
+          bucket: BUCKETS.RAW_GENERATIONS,
+          path: post.media.imagePath,
+        })
+      : null;
+  }
+
+  if (kind === 'generation' && versionId) {
+    const generation = await Generation.findById(refId).select('userId versions').lean();
+    const version = generation?.versions.find((v) => v.versionId === versionId);
+    return generation && version
+      ? getGenerationVersionHash({
+          generationId: refId,
+          versionId,
+          userId: generation.userId,
+          bucket: BUCKETS.RAW_GENERATIONS,
+          imagePath: version.imagePath,
+        })
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Admin: images similar to an uploaded image or to an indexed image
+ * (post, generation version or selfie)
+ */
+export async function findSimilarImages(input: {
+  imageBuffer?: Buffer;
+  ref?: { kind: ImageHashKind; refId: string; versionId?: string };
+  maxDistance?: number;
+  kinds?: ImageHashKind[];
+}): Promise<{
+  success: boolean;
+  query?: PerceptualHash;
+  matches?: Array<SimilarImage & {
+    user: { id: string; username: string } | null;
+    post: { postId: string; status: string; thumbUrl: string | null } | null;
+  }>;
+  error?: string;
+}> {
+  try {
+    let hash: PerceptualHash | null = null;
+    const { ref } = input;
+
+    if (ref) {
+      if (!Types.ObjectId.isValid(ref.refId)) {
+        return { success: false, error: 'invalid_ref_id' };
+      }
+
+      hash = await getIndexedHash(ref.kind, ref.refId, ref.versionId);
+
+      if (!hash) {
+        return { success: false, error: 'image_not_found' };
+      }
+    } else if (input.imageBuffer) {
+      hash = await computePerceptualHash(input.imageBuffer).catch(() => null);
+    } else {
+      return { success: false, error: 'missing_image' };
+    }
+
+    if (!hash) {
+      return { success: false, error: 'invalid_image' };
+    }
+
+    const maxDistance = Math.min(
+      Math.max(input.maxDistance ?? securityConfig.duplicates.flagDistance, 0),
+      32
+    );
+
+    const matches = (await findSimilarHashes(hash, {
+      kinds: input.kinds,
+      maxDistance,
+      limit: securityConfig.duplicates.maxSimilarResults,
+    })).filter((m) => !(
+      ref &&
+      m.kind === ref.kind &&
+      m.refId === ref.refId &&
+      (m.versionId || undefined) === ref.versionId
+    ));
+
+    const userIds = [...new Set(matches.map((m) => m.userId))];
+    const postIds = matches.filter((m) => m.kind === 'post').map((m) => m.refId);
+
+    const [users, posts] = await Promise.all([
+      User.find({ _id: { $in: userIds } }).select('username').lean(),
+      Post.find({ _id: { $in: postIds } }).select('status media.thumbPath').lean<IPost[]>(),
+    ]);
+
+    const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+    const postMap = new Map(posts.map((p) => [p._id.toString(), p]));
+
+    return {
+      success: true,
+      query: hash,
+      matches: await Promise.all(
+        matches.map(async (match) => {
+          const user = userMap.get(match.userId);
+          const post = match.kind === 'post' ? postMap.get(match.refId) : undefined;
+
+          return {
+            ...match,
+            user: user ? { id: match.userId, username: user.username } : null,
+            post: post
+              ? {
+                  postId: match.refId,
+                  status: post.status,
+                  thumbUrl: await generateSignedReadUrl(post.media.thumbPath).catch(() => null),
+                }
+              : null,
+          };
+        })
+      ),
+    };
+  } catch (error: any) {
+    logger.error('Error finding similar images', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
@@ -0,0 +1,309 @@
+import { Types } from 'mongoose';
+import { Post, IPost } from '../models/Post';
+import { User } from '../models/User';
+import { generateSignedReadUrl } from './media.service';
+import { getHiddenAuthorIds } from './visibility.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Lineage Service
+ *
+ * Remix lineage for try-style posts.
+ *
+ * A post made from a try-style generation records the seed post as its
+ * parent and copies the parent's ancestors (materialized path), so:
+ * - descendants of X are posts with X in remix.ancestorIds
+ * - the ancestor chain is a single $in lookup
+ * - counts.remixes on every ancestor is bumped when a remix is posted
+ *
+ * Like other post counters, counts.remixes is a lifetime count and is
+ * not decremented when remixes are deleted.
+ *
+ * Remixes by authors hidden from the viewer (blocked, muted, moderated)
+ * are left out; hidden ancestors keep their place but show as unavailable.
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_LINEAGE_DEPTH = 50; // Ancestors kept in remix.ancestorIds
+
+export type RemixInfo = NonNullable<IPost['remix']>;
+
+export interface LineagePostItem {
+  postId: string;
+  thumbUrl: string;
+  aspect: '1:1' | '9:16';
+  styleTag: string | null;
+  user: {
+    id: string;
+    username: string;
+    displayName: string;
+  } | null;
+  parentPostId: string | null;
+  depth: number; // Relative to the requested post (ancestors are negative)
+  counts: {
+    respects: number;
+    remixes: number;
+  };
+  available: boolean; // False when the post was removed or its author is hidden
+  createdAt: Date | null;
+}
+
+export interface RemixPage {
+  remixes: LineagePostItem[];
+  nextCursor: string | null;
+}
+
+/**
+ * Encode pagination cursor
+ */
+function encodeCursor(post: { createdAt: Date; _id: Types.ObjectId }): string {
+  return Buffer.from(`${post.createdAt.toISOString()}|${post._id}`).toString('base64');
+}
+
+/**
+ * Decode pagination cursor
+ */
+function decodeCursor(cursor: string): { createdAt: Date; id: Types.ObjectId } | null {
+  try {
+    const [createdAt, id] = Buffer.from(cursor, 'base64').toString('utf-8').split('|');
+    const date = new Date(createdAt);
+
+    if (isNaN(date.getTime()) || !Types.ObjectId.isValid(id)) {
+      return null;
+    }
+
+    return { createdAt: date, id: new Types.ObjectId(id) };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Shape lineage posts for the client
+ *
+ * Removed posts, and posts by authors hidden from the viewer, keep their
+ * place in the chain but hide media and author.
+ */
+async function enrichPosts(
+  posts: IPost[],
+  depthOf: (post: IPost) => number,
+  hiddenUserIds: Types.ObjectId[] = []
+): Promise<LineagePostItem[]> {
+  const hidden = new Set(hiddenUserIds.map((id) => id.toString()));
+  const userIds = [...new Set(posts.map((p) => p.userId.toString()))];
+
+  const users = await User.find({ _id: { $in: userIds } })
+    .select('username displayName')
+    .lean();
+
+  const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+
+  return Promise.all(
+    posts.map(async (post) => {
+      const available = post.status === 'active' && !hidden.has(post.userId.toString());
+      const user = userMap.get(post.userId.toString());
+
+      return {
+        postId: post._id.toString(),
+        thumbUrl: available ? await generateSignedReadUrl(post.media.thumbPath) : '',
+        aspect: post.media.aspect,
+        styleTag: available ? post.styleTag || null : null,
+        user: available && user
+          ? {
+              id: user._id.toString(),
+              username: user.username,
+              displayName: user.displayName,
+            }
+          : null,
+        parentPostId: post.remix?.parentPostId ? post.remix.parentPostId.toString() : null,
+        depth: depthOf(post),
+        counts: {
+          respects: post.counts?.respects || 0,
+          remixes: post.counts?.remixes || 0,
+        },
+        available,
+        createdAt: available ? post.createdAt : null,
+      };
+    })
+  );
+}
+
+/**
+ * Lineage for a new post made from a seed post
+ *
+ * Returns null when the seed post no longer exists.
+ */
+export async function buildRemixInfo(seedPostId: Types.ObjectId): Promise<RemixInfo | null> {
+  const seed = await Post.findById(seedPostId).select('userId remix').lean<IPost>();
+
+  if (!seed) {
+    return null;
+  }
+
+  const ancestorIds = [...(seed.remix?.ancestorIds || []), seed._id].slice(-MAX_LINEAGE_DEPTH);
+
+  return {
+    parentPostId: seed._id,
+    parentUserId: seed.userId,
+    rootPostId: seed.remix?.rootPostId || seed._id,
+    ancestorIds,
+    depth: (seed.remix?.depth || 0) + 1,
+  };
+}
+
+/**
+ * Credit every ancestor with the new remix
+ *
+ * Non-blocking: never throws.
+ */
+export async function recordRemix(postId: string, remix: RemixInfo): Promise<void> {
+  try {
+    await Post.updateMany(
+      { _id: { $in: remix.ancestorIds } },
+      { $inc: { 'counts.remixes': 1 } }
+    );
+
+    logger.info('Remix recorded', {
+      postId,
+      parentPostId: remix.parentPostId.toString(),
+      depth: remix.depth,
+    });
+  } catch (error: any) {
+    logger.error('Failed to record remix', { postId, error: error.message });
+  }
+}
+
+/**
+ * List remixes of a post (newest first, cursor paginated)
+ *
+ * All descendants by default; `direct` limits to remixes of this post
+ * itself (one level, for expanding a tree node).
+ */
+export async function listRemixes(
+  postId: string,
+  options: { limit?: number; cursor?: string; direct?: boolean } = {},
+  viewerUserId?: string
+): Promise<{ success: boolean; page?: RemixPage; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(postId)) {
+      return { success: false, error: 'invalid_post_id' };
+    }
+
+    const post = await Post.findById(postId).select('status remix').lean<IPost>();
+
+    if (!post || post.status !== 'active') {
+      return { success: false, error: 'post_not_found' };
+    }
+
+    const limit = Math.min(options.limit || DEFAULT_LIMIT, MAX_LIMIT);
+    const baseDepth = post.remix?.depth || 0;
+
+    const query: any = options.direct
+      ? { 'remix.parentPostId': post._id, status: 'active' }
+      : { 'remix.ancestorIds': post._id, status: 'active' };
+
+    const hiddenUserIds = await getHiddenAuthorIds(viewerUserId);
+    if (hiddenUserIds.length > 0) {
+      query.userId = { $nin: hiddenUserIds };
+    }
+
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+    if (cursor) {
+      query.$or = [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: cursor.id } },
+      ];
+    }
+
+    const remixes = await Post.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean<IPost[]>();
+
+    const hasMore = remixes.length > limit;
+    const page = hasMore ? remixes.slice(0, limit) : remixes;
+
+    return {
+      success: true,
+      page: {
+        remixes: await enrichPosts(page, (p) => (p.remix?.depth || 0) - baseDepth),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error listing remixes', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Ancestor chain of a post (root first, parent last)
+ *
+ * `truncated` is set when the chain is deeper than MAX_LINEAGE_DEPTH and
+ * the oldest ancestors between the root and the chain are not listed.
+ */
+export async function getLineage(
+  postId: string,
+  viewerUserId?: string
+): Promise<{
+  success: boolean;
+  lineage?: {
+    ancestors: LineagePostItem[];
+    rootPostId: string;
+    depth: number;
+    truncated: boolean;
+  };
+  error?: string;
+}> {
+  try {
+    if (!Types.ObjectId.isValid(postId)) {
+      return { success: false, error: 'invalid_post_id' };
+    }
+
+    const post = await Post.findById(postId).select('status remix').lean<IPost>();
+
+    if (!post || post.status !== 'active') {
+      return { success: false, error: 'post_not_found' };
+    }
+
+    if (!post.remix) {
+      return {
+        success: true,
+        lineage: { ancestors: [], rootPostId: postId, depth: 0, truncated: false },
+      };
+    }
+
+    const remix = post.remix;
+    const ancestorIds = remix.ancestorIds.map((id) => id.toString());
+
+    const [ancestors, hiddenUserIds] = await Promise.all([
+      Post.find({ _id: { $in: remix.ancestorIds } }).lean<IPost[]>(),
+      getHiddenAuthorIds(viewerUserId),
+    ]);
+    const ancestorMap = new Map(ancestors.map((a) => [a._id.toString(), a]));
+
+    // Keep chain order; ancestors missing entirely are dropped
+    const ordered = ancestorIds
+      .map((id) => ancestorMap.get(id))
+      .filter((a): a is IPost => !!a);
+
+    return {
+      success: true,
+      lineage: {
+        ancestors: await enrichPosts(
+          ordered,
+          (a) => (a.remix?.depth || 0) - remix.depth,
+          hiddenUserIds
+        ),
+        rootPostId: remix.rootPostId.toString(),
+        depth: remix.depth,
+        truncated: remix.depth > ancestorIds.length,
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error getting lineage', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
@@ -1,16 +1,23 @@
 import { Types } from 'mongoose';
-import { getBucket } from '../config/storage';
 import { UserSelfie } from '../models/UserSelfie';
 import { logger } from '../utils/logger';
 import { env } from '../config/env';
-import { uploadBuffer } from './storage.service';
+import {
+  uploadBuffer,
+  deleteFile,
+  fileExists,
+  getFileMetadata,
+  generateSignedUrl,
+  generateSignedUploadUrl,
+} from './storage.service';
 import { validateImage } from '../utils/image';
 import { BUCKETS } from '../config/buckets';
+import { indexImage, indexStoredImage } from './imageHash.service';
 
 /**
  * Media Service
  * 
- * Handles selfie upload pipeline with GCS:
+ * Handles selfie upload pipeline with object storage:
  * - Generates signed upload URLs
  * - Validates uploaded objects
  * - Manages selfie lifecycle
@@ -93,19 +100,18 @@ export async function initSelfieUpload(
     });
     
     // Generate signed upload URL
-    const bucket = getBucket();
-    const file = bucket.file(gcsPath);
-    
-    const [uploadUrl] = await file.getSignedUrl({
-      version: 'v4',
-      action: 'write',
-      expires: Date.now() + SIGNED_URL_EXPIRY * 1000,
+    const signed = await generateSignedUploadUrl(env.GCS_BUCKET_NAME, gcsPath, {
       contentType: mimeType,
-      extensionHeaders: {
-        'x-goog-content-length-range': `0,${MAX_FILE_SIZE}`,
-      },
+      maxSizeBytes: MAX_FILE_SIZE,
+      expiresIn: SIGNED_URL_EXPIRY,
     });
     
+    if (!signed.success || !signed.url) {
+      throw new Error(signed.error || 'Failed to sign upload URL');
+    }
+    
+    const uploadUrl = signed.url;
+    
     logger.info(`Selfie upload initiated`, {
       userId: userId.toString(),
       selfieId: selfieId.toString(),
@@ -184,11 +190,9 @@ export async function completeSelfieUpload(
       };
     }
     
-    // Verify object exists in GCS
-    const bucket = getBucket();
-    const file = bucket.file(selfie.gcsPath);
-    
-    const [exists] = await file.exists();
+    // Verify object exists in storage
+    const bucket = env.GCS_BUCKET_NAME;
+    const exists = await fileExists(bucket, selfie.gcsPath);
     
     if (!exists) {
       await selfie.updateOne({ status: 'invalid' });
@@ -201,15 +205,15 @@ export async function completeSelfieUpload(
     }
     
     // Get file metadata
-    const [metadata] = await file.getMetadata();
+    const { metadata } = await getFileMetadata(bucket, selfie.gcsPath);
     
-    const actualSize = parseInt(String(metadata.size || '0'), 10);
-    const actualContentType = metadata.contentType;
+    const actualSize = metadata?.size || 0;
+    const actualContentType = metadata?.contentType;
     
     // Validate size
     if (actualSize > MAX_FILE_SIZE) {
       await selfie.updateOne({ status: 'invalid' });
-      await file.delete().catch(() => {}); // Cleanup
+      await deleteFile(bucket, selfie.gcsPath); // Cleanup
       
       return {
         success: false,
@@ -221,7 +225,7 @@ export async function completeSelfieUpload(
     // Validate content type
     if (actualContentType !== selfie.mimeType) {
       await selfie.updateOne({ status: 'invalid' });
-      await file.delete().catch(() => {});
+      await deleteFile(bucket, selfie.gcsPath);
       
       return {
         success: false,
@@ -233,7 +237,7 @@ export async function completeSelfieUpload(
     // Validate dimensions (use client-reported, but could verify with image processing)
     if (clientMetadata.width < MIN_WIDTH || clientMetadata.height < MIN_HEIGHT) {
       await selfie.updateOne({ status: 'invalid' });
-      await file.delete().catch(() => {});
+      await deleteFile(bucket, selfie.gcsPath);
       
       return {
         success: false,
@@ -246,7 +250,7 @@ export async function completeSelfieUpload(
     const aspectRatio = clientMetadata.width / clientMetadata.height;
     if (aspectRatio < 0.5 || aspectRatio > 2.0) {
       await selfie.updateOne({ status: 'invalid' });
-      await file.delete().catch(() => {});
+      await deleteFile(bucket, selfie.gcsPath);
       
       return {
         success: false,
@@ -262,6 +266,15 @@ export async function completeSelfieUpload(
     selfie.status = 'active';
     await selfie.save();
     
+    // Index perceptual hash (non-blocking)
+    indexStoredImage({
+      kind: 'selfie',
+      refId: selfie._id,
+      userId,
+      bucket,
+      path: selfie.gcsPath,
+    });
+    
     logger.info(`Selfie upload completed`, {
       userId: userId.toString(),
       selfieId: selfieId.toString(),
@@ -307,12 +320,8 @@ export async function deleteSelfie(
     // Soft delete
     await (selfie as any).softDelete();
     
-    // Optionally delete from GCS (async, don't wait)
-    const bucket = getBucket();
-    const file = bucket.file(selfie.gcsPath);
-    file.delete().catch((err) => {
-      logger.error('Failed to delete selfie from GCS', err);
-    });
+    // Optionally delete from storage (async, don't wait; failures are logged)
+    deleteFile(env.GCS_BUCKET_NAME, selfie.gcsPath);
     
     logger.info(`Selfie deleted`, {
       userId: userId.toString(),
@@ -351,13 +360,10 @@ export async function cleanupOrphanedUploads(): Promise<{
   let cleaned = 0;
   let failed = 0;
   
-  const bucket = getBucket();
-  
   for (const selfie of orphaned) {
     try {
-      // Delete from GCS
-      const file = bucket.file(selfie.gcsPath);
-      await file.delete().catch(() => {}); // Ignore if doesn't exist
+      // Delete from storage (missing objects are ignored)
+      await deleteFile(env.GCS_BUCKET_NAME, selfie.gcsPath);
       
       // Mark as deleted
       await selfie.updateOne({
@@ -381,9 +387,9 @@ export async function cleanupOrphanedUploads(): Promise<{
 }
 
 /**
- * Generate signed read URL for GCS object
+ * Generate signed read URL for a stored object
  * 
- * @param gcsPath - The path to the file in GCS
+ * @param gcsPath - The path to the file in the bucket
  * @param expiresIn - Expiration time in seconds (default 10 minutes)
  * @param bucketName - Optional bucket name (defaults to RAW_GENERATIONS for generated images)
  */
@@ -406,15 +412,13 @@ export async function generateSignedReadUrl(
     }
   }
   
-  const bucket = getBucket(selectedBucket);
-  const file = bucket.file(gcsPath);
+  const result = await generateSignedUrl(selectedBucket, gcsPath, expiresIn);
   
-  const [url] = await file.getSignedUrl({
-    action: 'read',
-    expires: Date.now() + expiresIn * 1000,
-  });
+  if (!result.success || !result.url) {
+    throw new Error(result.error || 'Failed to sign read URL');
+  }
   
-  return url;
+  return result.url;
 }
 
 /**
@@ -522,6 +526,14 @@ export async function uploadSelfieProxy(
       height,
     });
 
+    // Index perceptual hash (non-blocking)
+    indexImage({
+      kind: 'selfie',
+      refId: selfieId,
+      userId,
+      imageBuffer: validation.cleanedBuffer || fileBuffer,
+    });
+
     logger.info('Selfie uploaded via proxy', {
       userId: userId.toString(),
       selfieId: selfieId.toString(),
@@ -1,8 +1,11 @@
 import { Types } from 'mongoose';
-import { Post } from '../models/Post';
+import { Post, PostFlagSource } from '../models/Post';
 import { User } from '../models/User';
 import { Generation } from '../models/Generation';
 import { securityConfig } from '../config/security';
+import { extractInvisibleWatermark, ExtractedWatermark } from './watermark.service';
+import { isModerated, invalidateModeratedUsers } from './visibility.service';
+import { recordAuditEvent } from './audit.service';
 import { logger } from '../utils/logger';
 
 /**
@@ -96,13 +99,43 @@ export function checkCaptionSafety(caption: string): {
   return { safe: true };
 }
 
+/**
+ * Check if comment is safe
+ */
+export function checkCommentSafety(body: string): {
+  safe: boolean;
+  reason?: string;
+} {
+  if (body.length > securityConfig.contentSafety.maxCommentLength) {
+    return {
+      safe: false,
+      reason: 'Comment too long',
+    };
+  }
+  
+  const lowerBody = body.toLowerCase();
+  for (const term of securityConfig.contentSafety.denylist) {
+    if (lowerBody.includes(term.toLowerCase())) {
+      return {
+        safe: false,
+        reason: 'Content policy violation',
+      };
+    }
+  }
+  
+  return { safe: true };
+}
+
 /**
  * Flag post for review
+ *
+ * Automatic flags pass no moderatorId and say what raised them in `source`.
  */
 export async function flagPost(
   postId: string,
   reason: string,
-  moderatorId?: string
+  moderatorId?: string,
+  source?: PostFlagSource
 ): Promise<{ success: boolean; error?: string }> {
   try {
     if (!Types.ObjectId.isValid(postId)) {
@@ -122,6 +155,7 @@ export async function flagPost(
         'moderation.flaggedAt': new Date(),
         'moderation.reason': reason,
         'moderation.moderatorId': moderatorId,
+        'moderation.source': source,
       },
     });
     
@@ -180,6 +214,42 @@ export async function removePost(
   }
 }
 
+/**
+ * Restore a flagged post to the feed (review found nothing wrong)
+ */
+export async function restorePost(
+  postId: string,
+  moderatorId?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(postId)) {
+      return { success: false, error: 'invalid_post_id' };
+    }
+
+    const post = await Post.findOneAndUpdate(
+      { _id: postId, status: 'flagged' },
+      {
+        $set: { status: 'active' },
+        $unset: { moderation: 1 },
+      }
+    );
+
+    if (!post) {
+      return { success: false, error: 'post_not_flagged' };
+    }
+
+    logger.info('Post restored', {
+      postId,
+      moderatorId,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error restoring post', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
 /**
  * Ban user
  */
@@ -202,10 +272,8 @@ export async function banUser(
     // Update status
     await User.findByIdAndUpdate(userId, {
       $set: {
-        'status.isBanned': true,
-        'status.bannedAt': new Date(),
-        'status.bannedReason': reason,
-        'status.bannedBy': moderatorId,
+        'status.banned': true,
+        'status.reason': reason,
       },
     });
     
@@ -222,6 +290,8 @@ export async function banUser(
       }
     );
     
+    await invalidateModeratedUsers();
+    
     logger.info('User banned', {
       userId,
       reason,
@@ -256,12 +326,15 @@ export async function unbanUser(
     // Update status
     await User.findByIdAndUpdate(userId, {
       $set: {
-        'status.isBanned': false,
-        'status.unbannedAt': new Date(),
-        'status.unbannedBy': moderatorId,
+        'status.banned': false,
+      },
+      $unset: {
+        'status.reason': 1,
       },
     });
     
+    await invalidateModeratedUsers();
+    
     logger.info('User unbanned', {
       userId,
       moderatorId,
@@ -274,6 +347,164 @@ export async function unbanUser(
   }
 }
 
+/**
+ * Shadowban user
+ * 
+ * The user can still sign in and see their own content; everyone else
+ * stops seeing their posts, comments and profile grid, and they drop out
+ * of member lists, search and tribe counters (see visibility.service).
+ * Setting it again replaces the reason and expiry.
+ */
+export async function setShadowban(
+  userId: string,
+  reason: string,
+  expiresAt: Date | null,
+  moderatorId?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+    
+    if (expiresAt) {
+      const expiresInMs = expiresAt.getTime() - Date.now();
+      const maxDurationMs = securityConfig.shadowbans.maxDurationDays * 24 * 60 * 60 * 1000;
+      
+      if (Number.isNaN(expiresInMs) || expiresInMs <= 0 || expiresInMs > maxDurationMs) {
+        return { success: false, error: 'invalid_expiry' };
+      }
+    }
+    
+    const update: Record<string, any> = {
+      'status.shadowbanned': true,
+      'status.shadowbanReason': reason,
+      'status.shadowbannedAt': new Date(),
+      'status.shadowbanExpiresAt': expiresAt,
+    };
+    
+    if (moderatorId && Types.ObjectId.isValid(moderatorId)) {
+      update['status.shadowbannedBy'] = new Types.ObjectId(moderatorId);
+    }
+    
+    const user = await User.findByIdAndUpdate(userId, { $set: update });
+    
+    if (!user) {
+      return { success: false, error: 'user_not_found' };
+    }
+    
+    await invalidateModeratedUsers();
+    
+    logger.info('User shadowbanned', {
+      userId,
+      reason,
+      expiresAt,
+      moderatorId,
+    });
+    
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error shadowbanning user', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+/**
+ * Clear a user's shadowban
+ */
+export async function clearShadowban(
+  userId: string,
+  moderatorId?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+    
+    const user = await User.findByIdAndUpdate(userId, {
+      $set: {
+        'status.shadowbanned': false,
+        'status.shadowbanExpiresAt': null,
+      },
+      $unset: {
+        'status.shadowbanReason': 1,
+        'status.shadowbannedAt': 1,
+        'status.shadowbannedBy': 1,
+      },
+    });
+    
+    if (!user) {
+      return { success: false, error: 'user_not_found' };
+    }
+    
+    await invalidateModeratedUsers();
+    
+    logger.info('User shadowban cleared', {
+      userId,
+      moderatorId,
+    });
+    
+    return { success: true };
+  } catch (error: any) {
+    logger.error('Error clearing shadowban', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+export const USER_ROLES = ['user', 'admin', 'moderator'];
+
+/**
+ * Replace a user's roles ('user' is always kept)
+ *
+ * Moderators can't change their own roles, so an admin can't lock
+ * themselves out. Recorded in the audit log with before/after.
+ */
+export async function setUserRoles(
+  userId: string,
+  roles: unknown,
+  moderatorId?: string
+): Promise<{ success: boolean; roles?: string[]; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+    
+    if (!Array.isArray(roles) || !roles.every((role) => USER_ROLES.includes(role))) {
+      return { success: false, error: 'invalid_roles' };
+    }
+    
+    if (moderatorId && moderatorId === userId) {
+      return { success: false, error: 'cannot_change_own_roles' };
+    }
+    
+    const nextRoles = USER_ROLES.filter((role) => role === 'user' || roles.includes(role));
+    
+    const user = await User.findByIdAndUpdate(userId, { $set: { roles: nextRoles } }).select('roles');
+    
+    if (!user) {
+      return { success: false, error: 'user_not_found' };
+    }
+    
+    await recordAuditEvent({
+      category: 'admin',
+      action: 'user.roles_changed',
+      actorId: moderatorId || null,
+      target: { type: 'user', id: userId },
+      metadata: { before: user.roles, after: nextRoles },
+    });
+    
+    logger.info('User roles changed', {
+      userId,
+      moderatorId,
+      roles: nextRoles,
+    });
+    
+    return { success: true, roles: nextRoles };
+  } catch (error: any) {
+    logger.error('Error changing user roles', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
+
 /**
  * Check if generation should be blocked
  */
@@ -284,7 +515,7 @@ export async function checkGenerationAbuse(
     // Check if user is banned
     const user = await User.findById(userId).select('status').lean();
     
-    if (user?.status?.banned || user?.status?.shadowbanned) {
+    if (isModerated(user?.status)) {
       return {
         allowed: false,
         reason: 'Account suspended',
@@ -358,3 +589,99 @@ export async function handleBlockedGeneration(
   }
 }
 
+
+/**
+ * Trace an uploaded image back to its transformation, creator and posts
+ *
+ * Reads the invisible watermark from the pixels, so it works on
+ * screenshots and re-uploads that no longer carry our metadata. Records
+ * that were deleted since are reported as null / empty.
+ */
+export async function traceWatermark(imageBuffer: Buffer): Promise<{
+  success: boolean;
+  trace?: {
+    watermark: ExtractedWatermark;
+    transformation: {
+      id: string;
+      status: string;
+      mode: string;
+      presetId: string | null;
+      createdAt: Date;
+    } | null;
+    user: {
+      id: string;
+      username: string;
+      displayName: string;
+      banned: boolean;
+    } | null;
+    posts: Array<{
+      postId: string;
+      status: string;
+      visibility: string;
+      createdAt: Date;
+    }>;
+  };
+  error?: string;
+}> {
+  try {
+    const watermark = await extractInvisibleWatermark(imageBuffer);
+    
+    if (!watermark) {
+      return { success: false, error: 'watermark_not_found' };
+    }
+    
+    const [generation, posts] = await Promise.all([
+      Generation.findById(watermark.transformationId)
+        .select('userId status source.mode style.presetId createdAt')
+        .lean(),
+      Post.find({ generationId: watermark.transformationId })
+        .select('userId status visibility createdAt')
+        .sort({ createdAt: -1 })
+        .lean(),
+    ]);
+    
+    const userId = generation?.userId || posts[0]?.userId;
+    const user = userId
+      ? await User.findById(userId).select('username displayName status').lean()
+      : null;
+    
+    logger.info('Watermark traced', {
+      transformationId: watermark.transformationId,
+      userId: userId?.toString(),
+      postCount: posts.length,
+    });
+    
+    return {
+      success: true,
+      trace: {
+        watermark,
+        transformation: generation
+          ? {
+              id: generation._id.toString(),
+              status: generation.status,
+              mode: generation.source.mode,
+              presetId: generation.style.presetId || null,
+              createdAt: generation.createdAt,
+            }
+          : null,
+        user: user
+          ? {
+              id: user._id.toString(),
+              username: user.username,
+              displayName: user.displayName,
+              banned: user.status?.banned || false,
+            }
+          : null,
+        posts: posts.map((post) => ({
+          postId: post._id.toString(),
+          status: post.status,
+          visibility: post.visibility,
+          createdAt: post.createdAt,
+        })),
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error tracing watermark', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
@@ -0,0 +1,426 @@
+import { Types } from 'mongoose';
+import {
+  Notification,
+  INotification,
+  NotificationType,
+  MAX_STORED_ACTORS,
+} from '../models/Notification';
+import { User } from '../models/User';
+import { Post } from '../models/Post';
+import { Generation } from '../models/Generation';
+import { generateSignedReadUrl } from './media.service';
+import { sendPushToUser } from './push.service';
+import { isBlockedBetween } from './block.service';
+import { pushConfig, PushCategory } from '../config/push';
+import { logger } from '../utils/logger';
+
+/**
+ * Notification Service
+ *
+ * Producers call notify() (non-blocking, never throws). Events with the
+ * same groupKey aggregate into the recipient's unread notification:
+ * - respect:<postId>    → "12 people respected your post"
+ * - follow              → "3 people followed you"
+ * - try_style:<postId>  → "@amara tried your style"
+ * - generation:<id>     → "Your transformation is ready"
+ * - generation_failed:<id> → "Your transformation didn't work out"
+ *
+ * New activity is also sent as Web Push to the recipient's devices
+ * (repeat actors aggregate silently).
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const DISPLAYED_ACTORS = 3;
+
+// Notification types delivered as Web Push (try_style stays in-app)
+const PUSH_CATEGORY_BY_TYPE: Partial<Record<NotificationType, PushCategory>> = {
+  respect: 'respect',
+  follow: 'follow',
+  generation_ready: 'generation',
+  generation_failed: 'generation',
+};
+
+export interface NotifyInput {
+  userId: string | Types.ObjectId; // Recipient
+  type: NotificationType;
+  groupKey: string;
+  actorId?: string | Types.ObjectId;
+  target?: {
+    postId?: string | Types.ObjectId;
+    generationId?: string | Types.ObjectId;
+  };
+}
+
+export interface NotificationItem {
+  notificationId: string;
+  type: NotificationType;
+  message: string;
+  actors: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatarThumbUrl: string;
+  }[];
+  actorCount: number;
+  target: {
+    postId: string | null;
+    generationId: string | null;
+    thumbUrl: string;
+  };
+  isRead: boolean;
+  createdAt: Date; // Last activity
+}
+
+/**
+ * Record a notification event
+ *
+ * Self-events (respecting your own post) and events between users who
+ * have blocked each other are ignored. Never throws:
+ * notifications must not fail the action that produced them.
+ */
+export async function notify(input: NotifyInput): Promise<void> {
+  try {
+    const userId = new Types.ObjectId(input.userId.toString());
+    const actorId = input.actorId ? new Types.ObjectId(input.actorId.toString()) : null;
+
+    if (actorId && actorId.equals(userId)) {
+      return;
+    }
+
+    if (actorId && (await isBlockedBetween(actorId, userId))) {
+      return;
+    }
+
+    let notification: INotification | null;
+
+    try {
+      notification = await recordEvent(userId, actorId, input);
+    } catch (error: any) {
+      // Concurrent first events raced on the unread upsert; the retry aggregates
+      if (error.code !== 11000) {
+        throw error;
+      }
+
+      notification = await recordEvent(userId, actorId, input);
+    }
+
+    if (notification) {
+      await pushNotification(notification);
+    }
+  } catch (error: any) {
+    logger.error('Error recording notification', {
+      type: input.type,
+      groupKey: input.groupKey,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Fold an event into the unread notification for its group
+ *
+ * Returns the updated notification, or null when a repeat actor only
+ * bumped recency.
+ */
+async function recordEvent(
+  userId: Types.ObjectId,
+  actorId: Types.ObjectId | null,
+  input: NotifyInput
+): Promise<INotification | null> {
+  const now = new Date();
+  const unread = { userId, groupKey: input.groupKey, isRead: false };
+
+  // Repeat actor (e.g. respect → unrespect → respect): only bump recency
+  if (actorId) {
+    const repeat = await Notification.updateOne(
+      { ...unread, actorIds: actorId },
+      { $set: { lastEventAt: now } }
+    );
+
+    if (repeat.matchedCount > 0) {
+      return null;
+    }
+  }
+
+  const update: any = {
+    $set: { lastEventAt: now },
+    $setOnInsert: {
+      type: input.type,
+      target: {
+        postId: input.target?.postId ? new Types.ObjectId(input.target.postId.toString()) : undefined,
+        generationId: input.target?.generationId
+          ? new Types.ObjectId(input.target.generationId.toString())
+          : undefined,
+      },
+    },
+  };
+
+  if (actorId) {
+    update.$push = {
+      actorIds: { $each: [actorId], $position: 0, $slice: MAX_STORED_ACTORS },
+    };
+    update.$inc = { actorCount: 1 };
+  }
+
+  return Notification.findOneAndUpdate(unread, update, { upsert: true, new: true }).lean<INotification>();
+}
+
+/**
+ * Send a notification to the recipient's devices
+ *
+ * Uses the aggregate's message, tagged by groupKey so the device
+ * replaces "@amara respected your post" with "3 people respected...".
+ */
+async function pushNotification(notification: INotification): Promise<void> {
+  const category = PUSH_CATEGORY_BY_TYPE[notification.type];
+
+  if (!category || !pushConfig.enabled) {
+    return;
+  }
+
+  const [item] = await enrichNotifications([notification]);
+
+  let url = '/notifications';
+  if (notification.type === 'follow' && item.actors[0]) {
+    url = `/profile/${item.actors[0].username}`;
+  } else if (item.target.postId) {
+    url = `/post/${item.target.postId}`;
+  } else if (item.target.generationId) {
+    url = `/create?generationId=${item.target.generationId}`;
+  }
+
+  await sendPushToUser(notification.userId, category, {
+    title: 'AfroMoji',
+    body: item.message,
+    url,
+    tag: notification.groupKey,
+    image: item.target.thumbUrl || undefined,
+  });
+}
+
+/**
+ * Build the display message
+ */
+function buildMessage(
+  type: NotificationType,
+  actorCount: number,
+  actorNames: string[]
+): string {
+  const actions: Record<NotificationType, string> = {
+    respect: 'respected your post',
+    follow: 'followed you',
+    try_style: 'tried your style',
+    generation_ready: '',
+    generation_failed: '',
+  };
+
+  if (type === 'generation_ready') {
+    return 'Your transformation is ready';
+  }
+
+  if (type === 'generation_failed') {
+    return "Your transformation didn't work out. Tap to try again";
+  }
+
+  const [first, second] = actorNames.map((name) => `@${name}`);
+
+  if (actorCount <= 1 || !second) {
+    return `${first || 'Someone'} ${actions[type]}`;
+  }
+
+  if (actorCount === 2) {
+    return `${first} and ${second} ${actions[type]}`;
+  }
+
+  return `${actorCount} people ${actions[type]}`;
+}
+
+/**
+ * Shape notifications for the client
+ */
+async function enrichNotifications(
+  notifications: INotification[]
+): Promise<NotificationItem[]> {
+  const actorIds = new Set<string>();
+  const postIds = new Set<string>();
+  const generationIds = new Set<string>();
+
+  for (const notification of notifications) {
+    notification.actorIds.slice(0, DISPLAYED_ACTORS).forEach((id) => actorIds.add(id.toString()));
+
+    if (notification.target?.postId) {
+      postIds.add(notification.target.postId.toString());
+    }
+    if (notification.target?.generationId) {
+      generationIds.add(notification.target.generationId.toString());
+    }
+  }
+
+  const [users, posts, generations] = await Promise.all([
+    User.find({ _id: { $in: [...actorIds] } }).select('username displayName avatar').lean(),
+    Post.find({ _id: { $in: [...postIds] } }).select('media.thumbPath').lean(),
+    Generation.find({ _id: { $in: [...generationIds] } }).select('versions').lean(),
+  ]);
+
+  const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+  const postThumbs = new Map(posts.map((p) => [p._id.toString(), p.media?.thumbPath]));
+  const generationThumbs = new Map(
+    generations.map((g) => [g._id.toString(), g.versions?.[g.versions.length - 1]?.thumbPath])
+  );
+
+  return Promise.all(
+    notifications.map(async (notification) => {
+      const actors = await Promise.all(
+        notification.actorIds
+          .slice(0, DISPLAYED_ACTORS)
+          .map((id) => userMap.get(id.toString()))
+          .filter((user): user is NonNullable<typeof user> => !!user)
+          .map(async (user) => ({
+            id: user._id.toString(),
+            username: user.username,
+            displayName: user.displayName,
+            avatarThumbUrl: user.avatar?.thumbPath
+              ? await generateSignedReadUrl(user.avatar.thumbPath)
+              : '',
+          }))
+      );
+
+      const postId = notification.target?.postId?.toString() || null;
+      const generationId = notification.target?.generationId?.toString() || null;
+      const thumbPath = postId
+        ? postThumbs.get(postId)
+        : generationId
+          ? generationThumbs.get(generationId)
+          : undefined;
+
+      return {
+        notificationId: notification._id.toString(),
+        type: notification.type,
+        message: buildMessage(
+          notification.type,
+          notification.actorCount,
+          actors.map((actor) => actor.username)
+        ),
+        actors,
+        actorCount: notification.actorCount,
+        target: {
+          postId,
+          generationId,
+          thumbUrl: thumbPath ? await generateSignedReadUrl(thumbPath) : '',
+        },
+        isRead: notification.isRead,
+        createdAt: notification.lastEventAt,
+      };
+    })
+  );
+}
+
+/**
+ * Encode pagination cursor
+ */
+function encodeCursor(notification: { lastEventAt: Date; _id: Types.ObjectId }): string {
+  return Buffer.from(
+    `${notification.lastEventAt.toISOString()}|${notification._id}`
+  ).toString('base64');
+}
+
+/**
+ * Decode pagination cursor
+ */
+function decodeCursor(cursor: string): { lastEventAt: Date; id: Types.ObjectId } | null {
+  try {
+    const [lastEventAt, id] = Buffer.from(cursor, 'base64').toString('utf-8').split('|');
+    const date = new Date(lastEventAt);
+
+    if (isNaN(date.getTime()) || !Types.ObjectId.isValid(id)) {
+      return null;
+    }
+
+    return { lastEventAt: date, id: new Types.ObjectId(id) };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * List a user's notifications (most recent activity first)
+ */
+export async function listNotifications(
+  userId: string,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{
+  notifications: NotificationItem[];
+  nextCursor: string | null;
+  unreadCount: number;
+}> {
+  const userObjectId = new Types.ObjectId(userId);
+  const limit = Math.min(options.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+  const query: any = { userId: userObjectId };
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+  if (cursor) {
+    query.$or = [
+      { lastEventAt: { $lt: cursor.lastEventAt } },
+      { lastEventAt: cursor.lastEventAt, _id: { $lt: cursor.id } },
+    ];
+  }
+
+  const [notifications, unreadCount] = await Promise.all([
+    Notification.find(query)
+      .sort({ lastEventAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean<INotification[]>(),
+    getUnreadCount(userId),
+  ]);
+
+  const hasMore = notifications.length > limit;
+  const page = hasMore ? notifications.slice(0, limit) : notifications;
+
+  return {
+    notifications: await enrichNotifications(page),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    unreadCount,
+  };
+}
+
+/**
+ * Count unread notifications (badge)
+ */
+export async function getUnreadCount(userId: string): Promise<number> {
+  return Notification.countDocuments({
+    userId: new Types.ObjectId(userId),
+    isRead: false,
+  });
+}
+
+/**
+ * Mark notifications as read
+ *
+ * Marks the given notifications, or all of the user's unread ones
+ * when no IDs are passed.
+ */
+export async function markNotificationsRead(
+  userId: string,
+  notificationIds?: string[]
+): Promise<{ success: boolean; updated?: number; error?: string }> {
+  const query: any = {
+    userId: new Types.ObjectId(userId),
+    isRead: false,
+  };
+
+  if (notificationIds) {
+    if (!notificationIds.every((id) => Types.ObjectId.isValid(id))) {
+      return { success: false, error: 'invalid_notification_id' };
+    }
+
+    query._id = { $in: notificationIds.map((id) => new Types.ObjectId(id)) };
+  }
+
+  const result = await Notification.updateMany(query, {
+    $set: { isRead: true, readAt: new Date() },
+  });
+
+  return { success: true, updated: result.modifiedCount };
+}
@@ -6,7 +6,16 @@ import { Tribe } from '../models/Tribe';
 import { startSession } from 'mongoose';
 import { logger } from '../utils/logger';
 import { generateSignedReadUrl } from './media.service';
+import { refreshHotScore } from './ranking.service';
+import { getPresetTitle } from './stylePreset.service';
+import { buildRemixInfo, recordRemix } from './lineage.service';
+import { stampPostProvenance } from './provenance.service';
+import { checkPostDuplicate, getGenerationVersionHash, indexPostHash } from './imageHash.service';
+import { checkChallengeEntry, enterChallenge } from './challenge.service';
+import { buildPostTags, recordPostTags } from './tag.service';
+import { getHiddenAuthorIds } from './visibility.service';
 import { cacheService } from '../config/redis';
+import { BUCKETS } from '../config/buckets';
 import { env } from '../config/env';
 
 /**
@@ -24,12 +33,15 @@ export interface CreatePostInput {
   versionId: string;
   caption?: string;
   visibility?: 'tribe' | 'public';
+  challengeId?: string; // Enter the new post into this challenge
   idempotencyKey?: string;
 }
 
 export interface CreatePostResult {
   success: boolean;
   postId?: string;
+  flagged?: boolean; // Published for review as a possible repost
+  challengeEntered?: boolean;
   error?: string;
 }
 
@@ -48,6 +60,7 @@ export async function createPost(input: CreatePostInput): Promise<CreatePostResu
     versionId,
     caption,
     visibility = 'tribe',
+    challengeId,
     idempotencyKey,
   } = input;
   
@@ -122,24 +135,59 @@ export async function createPost(input: CreatePostInput): Promise<CreatePostResu
       return { success: false, error: 'invalid_visibility' };
     }
     
-    // Derive style tag (MVP: use preset or truncate prompt)
+    // Challenge entry must be possible before publishing
+    if (challengeId) {
+      const check = await checkChallengeEntry(userId, challengeId, user.tribeId);
+      
+      if (check.error) {
+        return { success: false, error: check.error };
+      }
+    }
+    
+    // Derive style tag (preset title, else truncated prompt)
     let styleTag = '';
     if (generation.style?.presetId) {
-      // Capitalize preset
-      styleTag = generation.style.presetId
-        .split('_')
-        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-        .join(' ');
+      styleTag = (await getPresetTitle(generation.style.presetId)) || generation.style.presetId;
     } else if (generation.style?.prompt) {
       // Truncate prompt
       styleTag = generation.style.prompt.slice(0, 50);
     }
     
+    // Tags: preset style tag + caption hashtags
+    const tags = buildPostTags(caption, generation.style?.presetId ? styleTag : null);
+    
+    // Remix lineage (try-style generations credit the seed post)
+    const remix = generation.source?.mode === 'try_style' && generation.source.seedPostId
+      ? await buildRemixInfo(generation.source.seedPostId)
+      : null;
+    
     // Extract media paths from version
     const imagePath = version.imagePath;
     const thumbPath = version.thumbPath;
     const aspect = generation.style?.parameters?.aspect || '1:1';
     
+    // Near-duplicate check against existing posts
+    const imageHash = await getGenerationVersionHash({
+      generationId: generationObjectId,
+      versionId,
+      userId: userObjectId,
+      bucket: BUCKETS.RAW_GENERATIONS,
+      imagePath,
+    });
+    const duplicate = await checkPostDuplicate(userId, imageHash);
+    
+    if (duplicate.decision === 'reject') {
+      logger.info('Post rejected as duplicate', {
+        userId,
+        generationId,
+        matchPostId: duplicate.matchPostId,
+        distance: duplicate.distance,
+      });
+      return { success: false, error: duplicate.error };
+    }
+    
+    const flagged = duplicate.decision === 'flag';
+    
     // Conditionally use transactions (only in production with replica set)
     const useTransaction = env.NODE_ENV === 'production';
     let session: any = null;
@@ -174,7 +222,9 @@ export async function createPost(input: CreatePostInput): Promise<CreatePostResu
         versionId,
         caption: caption || '',
         styleTag,
+        tags: tags.map((tag) => tag.slug),
         visibility,
+        remix: remix || undefined,
         media: {
           imagePath,
           thumbPath,
@@ -183,12 +233,21 @@ export async function createPost(input: CreatePostInput): Promise<CreatePostResu
         counts: {
           respects: 0,
           shares: 0,
+          comments: 0,
+          remixes: 0,
         },
         rank: {
           qualityScore: 0.5, // Default MVP score
           hotScore: 0,
         },
-        status: 'active',
+        status: flagged ? 'flagged' : 'active',
+        moderation: flagged
+          ? {
+              flaggedAt: new Date(),
+              reason: `possible_repost:${duplicate.matchPostId}`,
+              source: 'duplicate' as const,
+            }
+          : undefined,
       });
       
       await post.save(saveOptions);
@@ -241,16 +300,52 @@ export async function createPost(input: CreatePostInput): Promise<CreatePostResu
         await cacheService.set(cacheKey, postId, IDEMPOTENCY_TTL);
       }
       
+      // Initial hot score (non-blocking)
+      refreshHotScore(postId);
+      
+      // Credit the remix lineage (non-blocking)
+      if (remix) {
+        recordRemix(postId, remix);
+      }
+      
+      // Embed the signed provenance manifest (non-blocking)
+      stampPostProvenance(postId);
+      
+      // Index for duplicate detection (non-blocking)
+      indexPostHash(postId, userId, imageHash);
+      
+      // Count tag usage (non-blocking)
+      recordPostTags(tags, post.createdAt);
+      
+      // Enter the challenge (posts held for review can be entered later)
+      let challengeEntered = false;
+      if (challengeId && !flagged) {
+        const entry = await enterChallenge(userId, challengeId, postId);
+        challengeEntered = entry.success;
+        
+        if (!entry.success) {
+          logger.warn('Post created but challenge entry failed', {
+            postId,
+            challengeId,
+            error: entry.error,
+          });
+        }
+      }
+      
       logger.info('Post created', {
         postId,
         userId,
         generationId,
         versionId,
+        flagged,
+        challengeId,
       });
       
       return {
         success: true,
         postId,
+        flagged,
+        challengeEntered,
       };
     } catch (error: any) {
       // Abort transaction if we started one
@@ -290,7 +385,7 @@ export async function getPostById(
     
     const post = await Post.findById(postId)
       .populate('userId', 'username displayName avatar')
-      .populate('tribeId', 'name slug');
+      .populate('tribeId', 'name slug accentColor');
     
     if (!post || post.status !== 'active') {
       return null;
@@ -319,12 +414,29 @@ export async function getPostById(
     
     const tribe = post.tribeId as any;
     
+    // Attribution chip ("Remixed from @user")
+    let remixedFrom = null;
+    if (post.remix) {
+      const parentUser = await User.findById(post.remix.parentUserId)
+        .select('username displayName')
+        .lean();
+      
+      remixedFrom = {
+        postId: post.remix.parentPostId.toString(),
+        user: parentUser
+          ? { username: parentUser.username, displayName: parentUser.displayName }
+          : null,
+        depth: post.remix.depth,
+      };
+    }
+    
     return {
       postId: post._id.toString(),
       imageUrl,
       thumbUrl,
       aspect: post.media.aspect,
       styleTag: post.styleTag,
+      tags: post.tags || [],
       caption: post.caption,
       user: {
         id: user._id.toString(),
@@ -336,8 +448,10 @@ export async function getPostById(
         id: tribe._id.toString(),
         slug: tribe.slug,
         name: tribe.name,
+        accentColor: tribe.accentColor,
       },
       counts: post.counts,
+      remixedFrom,
       viewerState: {
         hasRespected,
       },
@@ -352,11 +466,16 @@ export async function getPostById(
 
 /**
  * Get user's posts (profile grid)
+ * 
+ * Empty when the viewer and the user have blocked each other, the
+ * viewer muted them, or the user is banned or shadowbanned (a
+ * shadowbanned user still sees their own grid).
  */
 export async function getUserPosts(
   username: string,
   limit: number = 20,
-  cursor?: string
+  cursor?: string,
+  viewerUserId?: string
 ): Promise<{
   posts: any[];
   nextCursor?: string;
@@ -370,6 +489,11 @@ export async function getUserPosts(
       return { posts: [], userNotFound: true };
     }
     
+    const hiddenUserIds = await getHiddenAuthorIds(viewerUserId);
+    if (hiddenUserIds.some((id) => id.equals(user._id))) {
+      return { posts: [] };
+    }
+    
     // Clamp limit (min 1, max 50)
     const safeLimit = Math.min(Math.max(limit, 1), 50);
     
@@ -439,6 +563,8 @@ export async function getUserPosts(
 
 /**
  * Get tribe posts (tribe grid)
+ * 
+ * Skips posts by banned and shadowbanned users.
  */
 export async function getTribePosts(
   slug: string,
@@ -476,6 +602,11 @@ export async function getTribePosts(
       status: 'active',
     };
     
+    const hiddenUserIds = await getHiddenAuthorIds();
+    if (hiddenUserIds.length > 0) {
+      query.userId = { $nin: hiddenUserIds };
+    }
+    
     if (lastCreatedAt && lastId) {
       query.$or = [
         { createdAt: { $lt: lastCreatedAt } },
@@ -532,11 +663,18 @@ export async function trackShare(postId: string): Promise<boolean> {
       return false;
     }
     
-    await Post.findByIdAndUpdate(
+    const post = await Post.findByIdAndUpdate(
       postId,
       { $inc: { 'counts.shares': 1 } }
     );
     
+    if (!post) {
+      return false;
+    }
+    
+    // Update hot score (non-blocking)
+    refreshHotScore(postId);
+    
     logger.info('Share tracked', { postId });
     return true;
   } catch (error: any) {
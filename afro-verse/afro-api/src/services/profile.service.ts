@@ -40,6 +40,7 @@ export interface ProfileData {
   viewerState?: {
     isSelf: boolean;
   };
+  roles?: string[]; // Self only (gates the admin console)
 }
 
 export interface UpdateProfileInput {
@@ -106,6 +107,7 @@ export async function getMyProfile(userId: string): Promise<ProfileData | null>
       viewerState: {
         isSelf: true,
       },
+      roles: user.roles || ['user'],
     };
   } catch (error: any) {
     logger.error('Error getting my profile', error);
@@ -0,0 +1,424 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Post, IPost } from '../models/Post';
+import { Generation } from '../models/Generation';
+import { BUCKETS } from '../config/buckets';
+import { provenanceConfig, ManifestSignatureAlg } from '../config/provenance';
+import { downloadFile, uploadBuffer } from './storage.service';
+import {
+  detectManifestFormat,
+  hashManifestContent,
+  insertManifest,
+  prepareForManifest,
+  readManifest,
+} from '../utils/manifestContainer';
+import { logger } from '../utils/logger';
+
+/**
+ * Provenance Service
+ *
+ * C2PA-style provenance manifests for published images.
+ *
+ * A manifest is a signed claim embedded in the image file (see
+ * utils/manifestContainer) that records:
+ * - the generator (provider/model) and creation time (c2pa.actions)
+ * - that the image is AI-generated (IPTC trainedAlgorithmicMedia)
+ * - our generation id and, once posted, the post id
+ * - parent ingredients (the seed post of a try-style remix)
+ * - a SHA-256 of the image with the manifest excluded (c2pa.hash.data)
+ *
+ * Manifests are signed with the locally configured key (ES256 or Ed25519)
+ * and carry the public key, so anyone can check integrity; `trustedSigner`
+ * tells whether the signer is our current key.
+ *
+ * This is not a full C2PA (JUMBF/COSE/X.509) implementation.
+ */
+
+export const MANIFEST_VERSION = 1;
+
+export interface ProvenanceIngredient {
+  relationship: 'parentOf';
+  title: string;
+  postId: string;
+  generationId: string | null;
+}
+
+export interface ProvenanceClaim {
+  manifestVersion: number;
+  claimGenerator: string;
+  format: string;
+  instanceId: string;
+  createdAt: string;
+  assertions: {
+    actions: Array<{
+      action: 'c2pa.created';
+      when: string;
+      digitalSourceType: string;
+      softwareAgent: { name: string; version: string };
+    }>;
+    aiGenerated: {
+      aiGenerated: true;
+      provider: string;
+      model: string;
+    };
+    generation: {
+      generationId: string;
+      postId: string | null;
+    };
+    hash: {
+      alg: 'sha256';
+      hash: string; // base64, image with the manifest excluded
+    };
+  };
+  ingredients: ProvenanceIngredient[];
+}
+
+export interface ProvenanceManifest {
+  claim: ProvenanceClaim;
+  signature: {
+    alg: ManifestSignatureAlg;
+    keyId: string;
+    publicKey: string; // base64 SPKI DER
+    value: string; // base64
+  };
+}
+
+export interface ManifestInput {
+  generationId: string;
+  postId?: string | null;
+  provider: string;
+  model: string;
+  createdAt: Date;
+  ingredients?: ProvenanceIngredient[];
+}
+
+export interface ProvenanceVerification {
+  present: boolean;
+  valid: boolean; // Signature and content hash both check out
+  signatureValid: boolean;
+  contentHashValid: boolean;
+  trustedSigner: boolean;
+  keyId: string | null;
+  claim: ProvenanceClaim | null;
+  errors: string[];
+}
+
+/**
+ * Deterministic JSON (sorted keys), the bytes that are signed
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function signClaim(claim: ProvenanceClaim): ProvenanceManifest['signature'] {
+  const key = provenanceConfig.signingKey!;
+  const data = Buffer.from(canonicalJson(claim));
+
+  const value = key.alg === 'Ed25519'
+    ? crypto.sign(null, data, key.privateKey)
+    : crypto.sign('sha256', data, { key: key.privateKey, dsaEncoding: 'ieee-p1363' });
+
+  return {
+    alg: key.alg,
+    keyId: key.keyId,
+    publicKey: key.publicKeyDer.toString('base64'),
+    value: value.toString('base64'),
+  };
+}
+
+function verifySignature(manifest: ProvenanceManifest): boolean {
+  const { signature } = manifest;
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.from(signature.publicKey, 'base64'),
+    format: 'der',
+    type: 'spki',
+  });
+  const data = Buffer.from(canonicalJson(manifest.claim));
+  const value = Buffer.from(signature.value, 'base64');
+
+  if (signature.alg === 'Ed25519') {
+    return publicKey.asymmetricKeyType === 'ed25519' && crypto.verify(null, data, publicKey, value);
+  }
+  if (signature.alg === 'ES256') {
+    return (
+      publicKey.asymmetricKeyType === 'ec' &&
+      crypto.verify('sha256', data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, value)
+    );
+  }
+  return false;
+}
+
+/**
+ * Parse an embedded manifest
+ *
+ * Returns null when the image has no manifest; throws when the manifest
+ * is present but malformed.
+ */
+export function parseManifest(imageBuffer: Buffer): ProvenanceManifest | null {
+  const bytes = readManifest(imageBuffer);
+
+  if (!bytes) {
+    return null;
+  }
+
+  const manifest = JSON.parse(bytes.toString('utf-8'));
+
+  if (
+    !manifest ||
+    typeof manifest !== 'object' ||
+    !manifest.claim ||
+    typeof manifest.claim !== 'object' ||
+    !manifest.claim.assertions?.hash?.hash ||
+    !manifest.signature ||
+    typeof manifest.signature.value !== 'string' ||
+    typeof manifest.signature.publicKey !== 'string'
+  ) {
+    throw new Error('Malformed provenance manifest');
+  }
+
+  return manifest as ProvenanceManifest;
+}
+
+/**
+ * Embed a signed manifest into a JPEG or WebP image
+ *
+ * Returns the image unchanged when signing is not configured or the
+ * format is unsupported; provenance never blocks publishing.
+ */
+export function embedManifest(imageBuffer: Buffer, input: ManifestInput): Buffer {
+  const format = detectManifestFormat(imageBuffer);
+
+  if (!provenanceConfig.enabled || !format) {
+    return imageBuffer;
+  }
+
+  try {
+    const prepared = prepareForManifest(imageBuffer);
+    const createdAt = input.createdAt.toISOString();
+
+    const claim: ProvenanceClaim = {
+      manifestVersion: MANIFEST_VERSION,
+      claimGenerator: provenanceConfig.claimGenerator,
+      format: `image/${format}`,
+      instanceId: `xmp:iid:${crypto.randomUUID()}`,
+      createdAt: new Date().toISOString(),
+      assertions: {
+        actions: [
+          {
+            action: 'c2pa.created',
+            when: createdAt,
+            digitalSourceType: provenanceConfig.digitalSourceType,
+            softwareAgent: { name: input.provider, version: input.model },
+          },
+        ],
+        aiGenerated: {
+          aiGenerated: true,
+          provider: input.provider,
+          model: input.model,
+        },
+        generation: {
+          generationId: input.generationId,
+          postId: input.postId || null,
+        },
+        hash: {
+          alg: 'sha256',
+          hash: hashManifestContent(prepared),
+        },
+      },
+      ingredients: input.ingredients || [],
+    };
+
+    const manifest: ProvenanceManifest = { claim, signature: signClaim(claim) };
+
+    return insertManifest(prepared, Buffer.from(JSON.stringify(manifest), 'utf-8'));
+  } catch (error: any) {
+    logger.error('Failed to embed provenance manifest', {
+      generationId: input.generationId,
+      error: error.message,
+    });
+    return imageBuffer;
+  }
+}
+
+/**
+ * Verify the manifest embedded in an image
+ */
+export function verifyManifest(imageBuffer: Buffer): ProvenanceVerification {
+  const result: ProvenanceVerification = {
+    present: false,
+    valid: false,
+    signatureValid: false,
+    contentHashValid: false,
+    trustedSigner: false,
+    keyId: null,
+    claim: null,
+    errors: [],
+  };
+
+  let manifest: ProvenanceManifest | null;
+  try {
+    manifest = parseManifest(imageBuffer);
+  } catch (error: any) {
+    result.present = true;
+    result.errors.push('manifest_malformed');
+    return result;
+  }
+
+  if (!manifest) {
+    result.errors.push('manifest_not_found');
+    return result;
+  }
+
+  result.present = true;
+  result.claim = manifest.claim;
+  result.keyId = manifest.signature.keyId || null;
+
+  try {
+    result.signatureValid = verifySignature(manifest);
+  } catch (error: any) {
+    result.signatureValid = false;
+  }
+  if (!result.signatureValid) {
+    result.errors.push('signature_invalid');
+  }
+
+  try {
+    result.contentHashValid = hashManifestContent(imageBuffer) === manifest.claim.assertions.hash.hash;
+  } catch (error: any) {
+    result.contentHashValid = false;
+  }
+  if (!result.contentHashValid) {
+    result.errors.push('content_modified');
+  }
+
+  const signingKey = provenanceConfig.signingKey;
+  result.trustedSigner = !!signingKey
+    && manifest.signature.publicKey === signingKey.publicKeyDer.toString('base64');
+  if (!result.trustedSigner) {
+    result.errors.push('untrusted_signer');
+  }
+
+  result.valid = result.signatureValid && result.contentHashValid;
+
+  return result;
+}
+
+/**
+ * Stamp a published post's image and thumbnail with a manifest that
+ * records the post and its remix parent
+ *
+ * Non-blocking: never throws.
+ */
+export async function stampPostProvenance(postId: string): Promise<void> {
+  if (!provenanceConfig.enabled) {
+    return;
+  }
+
+  try {
+    const post = await Post.findById(postId).select('generationId media remix').lean<IPost>();
+    if (!post) {
+      return;
+    }
+
+    const generation = await Generation.findById(post.generationId)
+      .select('provider createdAt')
+      .lean();
+    if (!generation) {
+      return;
+    }
+
+    const ingredients: ProvenanceIngredient[] = [];
+    if (post.remix?.parentPostId) {
+      const parent = await Post.findById(post.remix.parentPostId).select('generationId').lean<IPost>();
+      ingredients.push({
+        relationship: 'parentOf',
+        title: `AfroMoji post ${post.remix.parentPostId.toString()}`,
+        postId: post.remix.parentPostId.toString(),
+        generationId: parent ? parent.generationId.toString() : null,
+      });
+    }
+
+    const input: ManifestInput = {
+      generationId: post.generationId.toString(),
+      postId,
+      provider: generation.provider?.name || 'unknown',
+      model: generation.provider?.model || 'unknown',
+      createdAt: generation.createdAt,
+      ingredients,
+    };
+
+    for (const path of [post.media.imagePath, post.media.thumbPath]) {
+      const download = await downloadFile(BUCKETS.RAW_GENERATIONS, path);
+      if (!download.success || !download.buffer) {
+        logger.warn('Provenance stamp skipped: image not found', { postId, path });
+        continue;
+      }
+
+      const stamped = embedManifest(download.buffer, input);
+      if (stamped === download.buffer) {
+        continue;
+      }
+
+      const format = detectManifestFormat(stamped);
+      await uploadBuffer(BUCKETS.RAW_GENERATIONS, path, stamped, {
+        contentType: `image/${format}`,
+        metadata: { postId, provenance: `v${MANIFEST_VERSION}` },
+      });
+    }
+
+    logger.info('Post provenance stamped', {
+      postId,
+      generationId: input.generationId,
+      ingredients: ingredients.length,
+    });
+  } catch (error: any) {
+    logger.error('Failed to stamp post provenance', { postId, error: error.message });
+  }
+}
+
+/**
+ * Verify an uploaded image's manifest
+ *
+ * Adds whether the referenced generation/post still exist on our side.
+ */
+export async function verifyProvenance(imageBuffer: Buffer): Promise<{
+  success: boolean;
+  verification?: ProvenanceVerification & {
+    records: { generationExists: boolean; postExists: boolean | null };
+  };
+  error?: string;
+}> {
+  try {
+    if (!detectManifestFormat(imageBuffer)) {
+      return { success: false, error: 'unsupported_format' };
+    }
+
+    const verification = verifyManifest(imageBuffer);
+    const generationId = verification.claim?.assertions?.generation?.generationId;
+    const postId = verification.claim?.assertions?.generation?.postId;
+
+    const records = { generationExists: false, postExists: null as boolean | null };
+
+    if (verification.signatureValid && generationId && Types.ObjectId.isValid(generationId)) {
+      records.generationExists = !!(await Generation.exists({ _id: generationId }));
+    }
+    if (verification.signatureValid && postId && Types.ObjectId.isValid(postId)) {
+      records.postExists = !!(await Post.exists({ _id: postId, status: 'active' }));
+    }
+
+    return { success: true, verification: { ...verification, records } };
+  } catch (error: any) {
+    logger.error('Error verifying provenance', error);
+    return { success: false, error: 'internal_error' };
+  }
+}
@@ -0,0 +1,277 @@
+import { Types } from 'mongoose';
+import { pushConfig, PushCategory, PUSH_CATEGORIES } from '../config/push';
+import { PushSubscription } from '../models/PushSubscription';
+import { User } from '../models/User';
+import { sendWebPush } from '../utils/webPush';
+import { logger } from '../utils/logger';
+
+/**
+ * Push Service
+ *
+ * Manages Web Push subscriptions and per-category preferences, and
+ * fans messages out to a user's devices. Delivery is best-effort:
+ * sendPushToUser() never throws and prunes subscriptions the push
+ * service reports gone.
+ */
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string; // Opened on notification click
+  tag?: string; // Same tag replaces the previous notification on the device
+  image?: string;
+}
+
+export interface SubscriptionInput {
+  endpoint?: string;
+  keys?: { p256dh?: string; auth?: string };
+  expirationTime?: number | null;
+  userAgent?: string;
+}
+
+export type PushPreferences = Record<PushCategory, boolean>;
+
+/**
+ * Public config for the service worker (VAPID application server key)
+ */
+export function getPushPublicConfig(): { enabled: boolean; publicKey: string | null } {
+  return {
+    enabled: pushConfig.enabled,
+    publicKey: pushConfig.enabled ? pushConfig.vapid.publicKey : null,
+  };
+}
+
+/**
+ * Validate a browser PushSubscription (toJSON() shape)
+ */
+function isValidSubscription(input: SubscriptionInput): boolean {
+  if (!input.endpoint || !input.keys?.p256dh || !input.keys?.auth) {
+    return false;
+  }
+
+  try {
+    if (new URL(input.endpoint).protocol !== 'https:') {
+      return false;
+    }
+  } catch (error) {
+    return false;
+  }
+
+  const p256dh = Buffer.from(input.keys.p256dh, 'base64url');
+  const auth = Buffer.from(input.keys.auth, 'base64url');
+
+  // Uncompressed P-256 point and 16-byte auth secret
+  return p256dh.length === 65 && p256dh[0] === 0x04 && auth.length === 16;
+}
+
+/**
+ * Save (or move) a device subscription to a user
+ *
+ * Keeps the newest maxSubscriptionsPerUser per user.
+ */
+export async function saveSubscription(
+  userId: string,
+  input: SubscriptionInput
+): Promise<{ success: boolean; error?: string }> {
+  if (!pushConfig.enabled) {
+    return { success: false, error: 'push_disabled' };
+  }
+
+  if (!isValidSubscription(input)) {
+    return { success: false, error: 'invalid_subscription' };
+  }
+
+  const userObjectId = new Types.ObjectId(userId);
+
+  const update: any = {
+    $set: {
+      userId: userObjectId,
+      keys: { p256dh: input.keys!.p256dh, auth: input.keys!.auth },
+      userAgent: input.userAgent?.slice(0, 300) || '',
+      failureCount: 0,
+    },
+  };
+
+  if (input.expirationTime) {
+    update.$set.expiresAt = new Date(input.expirationTime);
+  } else {
+    update.$unset = { expiresAt: 1 };
+  }
+
+  await PushSubscription.updateOne({ endpoint: input.endpoint }, update, { upsert: true });
+
+  // Drop the oldest devices beyond the cap
+  const overflow = await PushSubscription.find({ userId: userObjectId })
+    .sort({ createdAt: -1 })
+    .skip(pushConfig.maxSubscriptionsPerUser)
+    .select('_id')
+    .lean();
+
+  if (overflow.length > 0) {
+    await PushSubscription.deleteMany({ _id: { $in: overflow.map((s) => s._id) } });
+  }
+
+  return { success: true };
+}
+
+/**
+ * Remove a device subscription (on unsubscribe or sign-out)
+ */
+export async function removeSubscription(
+  userId: string,
+  endpoint: string
+): Promise<{ success: boolean; removed: boolean }> {
+  const result = await PushSubscription.deleteOne({
+    userId: new Types.ObjectId(userId),
+    endpoint,
+  });
+
+  return { success: true, removed: result.deletedCount > 0 };
+}
+
+/**
+ * Resolve stored preferences (missing categories default to on)
+ */
+function resolvePreferences(stored?: Partial<PushPreferences>): PushPreferences {
+  return PUSH_CATEGORIES.reduce((preferences, category) => {
+    preferences[category] = stored?.[category] !== false;
+    return preferences;
+  }, {} as PushPreferences);
+}
+
+/**
+ * Get push settings for the profile screen
+ */
+export async function getPushSettings(userId: string): Promise<{
+  enabled: boolean;
+  publicKey: string | null;
+  preferences: PushPreferences;
+  subscriptionCount: number;
+}> {
+  const [user, subscriptionCount] = await Promise.all([
+    User.findById(userId).select('preferences').lean(),
+    PushSubscription.countDocuments({ userId: new Types.ObjectId(userId) }),
+  ]);
+
+  return {
+    ...getPushPublicConfig(),
+    preferences: resolvePreferences(user?.preferences?.push),
+    subscriptionCount,
+  };
+}
+
+/**
+ * Update per-category push preferences (partial)
+ */
+export async function updatePushPreferences(
+  userId: string,
+  updates: Record<string, unknown>
+): Promise<{ success: boolean; preferences?: PushPreferences; error?: string }> {
+  const entries = Object.entries(updates || {});
+
+  if (
+    entries.length === 0 ||
+    !entries.every(
+      ([category, value]) =>
+        PUSH_CATEGORIES.includes(category as PushCategory) && typeof value === 'boolean'
+    )
+  ) {
+    return { success: false, error: 'invalid_preferences' };
+  }
+
+  const $set: Record<string, boolean> = {};
+  for (const [category, value] of entries) {
+    $set[`preferences.push.${category}`] = value as boolean;
+  }
+
+  const user = await User.findByIdAndUpdate(userId, { $set }, { new: true })
+    .select('preferences')
+    .lean();
+
+  if (!user) {
+    return { success: false, error: 'user_not_found' };
+  }
+
+  return { success: true, preferences: resolvePreferences(user.preferences?.push) };
+}
+
+/**
+ * Send a push message to every device of a user
+ *
+ * Skipped when push is disabled or the user turned the category off.
+ * Never throws: push must not fail the action that produced it.
+ */
+export async function sendPushToUser(
+  userId: string | Types.ObjectId,
+  category: PushCategory,
+  message: PushMessage
+): Promise<void> {
+  if (!pushConfig.enabled) {
+    return;
+  }
+
+  try {
+    const user = await User.findById(userId).select('preferences').lean();
+
+    if (!user || !resolvePreferences(user.preferences?.push)[category]) {
+      return;
+    }
+
+    const subscriptions = await PushSubscription.find({ userId: user._id }).lean();
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({ ...message, category });
+
+    await Promise.all(
+      subscriptions.map(async (subscription) => {
+        const result = await sendWebPush(subscription, payload, pushConfig.vapid, {
+          ttlSeconds: pushConfig.ttlSeconds,
+          urgency: category === 'generation' ? 'high' : 'normal',
+          timeoutMs: pushConfig.requestTimeoutMs,
+        });
+
+        if (result.ok) {
+          await PushSubscription.updateOne(
+            { _id: subscription._id },
+            { $set: { lastSuccessAt: new Date(), failureCount: 0 } }
+          );
+          return;
+        }
+
+        const exhausted = subscription.failureCount + 1 >= pushConfig.maxConsecutiveFailures;
+
+        // Gone (unsubscribed/expired in the browser) or persistently failing: prune
+        if (result.expired || exhausted) {
+          await PushSubscription.deleteOne({ _id: subscription._id });
+
+          logger.info('Pruned push subscription', {
+            userId: user._id.toString(),
+            status: result.status,
+            expired: !!result.expired,
+          });
+          return;
+        }
+
+        await PushSubscription.updateOne(
+          { _id: subscription._id },
+          { $inc: { failureCount: 1 } }
+        );
+
+        logger.warn('Push delivery failed', {
+          userId: user._id.toString(),
+          status: result.status,
+          error: result.error,
+        });
+      })
+    );
+  } catch (error: any) {
+    logger.error('Error sending push', {
+      userId: userId.toString(),
+      category,
+      error: error.message,
+    });
+  }
+}
@@ -0,0 +1,297 @@
+import { Types } from 'mongoose';
+import { Post } from '../models/Post';
+import { Tribe } from '../models/Tribe';
+import { Respect } from '../models/Respect';
+import { rankingConfig, HotScoreFormula } from '../config/ranking';
+import { isConnectionReady } from '../config/db';
+import { logger } from '../utils/logger';
+
+/**
+ * Ranking Service
+ *
+ * Computes Post.rank.hotScore for the hot feed (formula in config/ranking.ts).
+ *
+ * Scores are kept fresh two ways:
+ * - Incrementally: refreshHotScore() after respect/share events
+ * - In bulk: recomputeHotScores() on a schedule, so recency decay
+ *   applies to posts that receive no new events
+ */
+
+export interface HotScoreInputs {
+  respects: number;
+  respectVelocity: number; // Respects within the velocity window
+  shares: number;
+  qualityScore: number;
+  ageHours: number;
+  tribeMembers: number;
+}
+
+export interface HotScoreBreakdown {
+  score: number;
+  components: {
+    engagement: number;
+    tribeFactor: number;
+    normalizedEngagement: number;
+    quality: number;
+    base: number;
+    decay: number; // Divisor from age
+  };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Compute a hot score (pure)
+ */
+export function computeHotScore(
+  inputs: HotScoreInputs,
+  formula: HotScoreFormula = rankingConfig.hotScore
+): HotScoreBreakdown {
+  const { weights } = formula;
+
+  const engagement =
+    weights.respectVelocity * inputs.respectVelocity +
+    weights.respects * inputs.respects +
+    weights.shares * inputs.shares;
+
+  const tribeFactor = Math.pow(
+    Math.max(1, inputs.tribeMembers / formula.tribe.referenceMembers),
+    formula.tribe.exponent
+  );
+
+  const normalizedEngagement = engagement / tribeFactor;
+  const quality = weights.quality * inputs.qualityScore;
+  const decay = Math.pow(Math.max(0, inputs.ageHours) + formula.agePaddingHours, formula.gravity);
+
+  return {
+    score: (normalizedEngagement + quality + weights.base) / decay,
+    components: {
+      engagement,
+      tribeFactor,
+      normalizedEngagement,
+      quality,
+      base: weights.base,
+      decay,
+    },
+  };
+}
+
+/**
+ * Gather scoring inputs for a single post
+ */
+async function loadHotScoreInputs(post: any, now: Date): Promise<HotScoreInputs> {
+  const velocitySince = new Date(
+    now.getTime() - rankingConfig.hotScore.velocityWindowHours * HOUR_MS
+  );
+
+  const [respectVelocity, tribe] = await Promise.all([
+    Respect.countDocuments({
+      postId: post._id,
+      createdAt: { $gte: velocitySince },
+    }),
+    Tribe.findById(post.tribeId).select('stats.members').lean(),
+  ]);
+
+  return {
+    respects: post.counts?.respects || 0,
+    respectVelocity,
+    shares: post.counts?.shares || 0,
+    qualityScore: post.rank?.qualityScore || 0,
+    ageHours: (now.getTime() - new Date(post.createdAt).getTime()) / HOUR_MS,
+    tribeMembers: tribe?.stats?.members || 0,
+  };
+}
+
+/**
+ * Recompute and store one post's hot score
+ *
+ * Called after respect/share events. Never throws: a failed refresh
+ * is corrected by the next full recompute.
+ */
+export async function refreshHotScore(
+  postId: string | Types.ObjectId
+): Promise<number | null> {
+  try {
+    const post = await Post.findById(postId)
+      .select('tribeId counts rank status createdAt')
+      .lean();
+
+    if (!post || post.status !== 'active') {
+      return null;
+    }
+
+    const inputs = await loadHotScoreInputs(post, new Date());
+    const { score } = computeHotScore(inputs);
+
+    await Post.updateOne(
+      { _id: post._id },
+      { $set: { 'rank.hotScore': score } }
+    );
+
+    return score;
+  } catch (error: any) {
+    logger.error('Error refreshing hot score', {
+      postId: postId.toString(),
+      error: error.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Recompute hot scores for all recent posts
+ *
+ * Posts older than recompute.maxAgeDays are zeroed.
+ */
+export async function recomputeHotScores(): Promise<{
+  updated: number;
+  zeroed: number;
+  errors: number;
+}> {
+  let updated = 0;
+  let zeroed = 0;
+  let errors = 0;
+
+  try {
+    if (!isConnectionReady()) {
+      logger.warn('MongoDB not connected, skipping hot score recompute');
+      return { updated, zeroed, errors };
+    }
+
+    const startTime = Date.now();
+    const now = new Date();
+    const { maxAgeDays, batchSize } = rankingConfig.recompute;
+    const horizon = new Date(now.getTime() - maxAgeDays * 24 * HOUR_MS);
+    const velocitySince = new Date(
+      now.getTime() - rankingConfig.hotScore.velocityWindowHours * HOUR_MS
+    );
+
+    // Respect velocity per post (single aggregation)
+    const velocityCounts = await Respect.aggregate([
+      { $match: { createdAt: { $gte: velocitySince } } },
+      { $group: { _id: '$postId', count: { $sum: 1 } } },
+    ]);
+
+    const velocityMap = new Map<string, number>();
+    for (const item of velocityCounts) {
+      velocityMap.set(item._id.toString(), item.count);
+    }
+
+    // Tribe sizes
+    const tribes = await Tribe.find().select('stats.members').lean();
+    const membersMap = new Map<string, number>();
+    for (const tribe of tribes) {
+      membersMap.set(tribe._id.toString(), tribe.stats?.members || 0);
+    }
+
+    // Score recent active posts in batches
+    const cursor = Post.find({
+      status: 'active',
+      createdAt: { $gte: horizon },
+    })
+      .select('tribeId counts rank createdAt')
+      .lean()
+      .cursor();
+
+    let batch: any[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+
+      try {
+        await Post.bulkWrite(batch, { ordered: false });
+        updated += batch.length;
+      } catch (error: any) {
+        logger.error('Hot score batch write failed', { error: error.message });
+        errors += batch.length;
+      }
+
+      batch = [];
+    };
+
+    for await (const post of cursor) {
+      const { score } = computeHotScore({
+        respects: post.counts?.respects || 0,
+        respectVelocity: velocityMap.get(post._id.toString()) || 0,
+        shares: post.counts?.shares || 0,
+        qualityScore: post.rank?.qualityScore || 0,
+        ageHours: (now.getTime() - new Date(post.createdAt).getTime()) / HOUR_MS,
+        tribeMembers: membersMap.get(post.tribeId.toString()) || 0,
+      });
+
+      batch.push({
+        updateOne: {
+          filter: { _id: post._id },
+          update: { $set: { 'rank.hotScore': score } },
+        },
+      });
+
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+
+    await flush();
+
+    // Zero out posts past the horizon
+    const zeroResult = await Post.updateMany(
+      {
+        createdAt: { $lt: horizon },
+        'rank.hotScore': { $ne: 0 },
+      },
+      { $set: { 'rank.hotScore': 0 } }
+    );
+    zeroed = zeroResult.modifiedCount;
+
+    logger.info('Hot score recompute completed', {
+      updated,
+      zeroed,
+      errors,
+      duration: Date.now() - startTime,
+    });
+
+    return { updated, zeroed, errors };
+  } catch (error: any) {
+    logger.error('Hot score recompute failed', error);
+    return { updated, zeroed, errors: errors + 1 };
+  }
+}
+
+/**
+ * Explain a post's hot score (admin)
+ *
+ * Returns the inputs, each formula component, the freshly computed
+ * score and the currently stored one.
+ */
+export async function explainHotScore(postId: string): Promise<{
+  postId: string;
+  storedScore: number;
+  computedScore: number;
+  inputs: HotScoreInputs;
+  components: HotScoreBreakdown['components'];
+  formula: HotScoreFormula;
+} | null> {
+  if (!Types.ObjectId.isValid(postId)) {
+    return null;
+  }
+
+  const post = await Post.findById(postId)
+    .select('tribeId counts rank status createdAt')
+    .lean();
+
+  if (!post) {
+    return null;
+  }
+
+  const inputs = await loadHotScoreInputs(post, new Date());
+  const breakdown = computeHotScore(inputs);
+
+  return {
+    postId,
+    storedScore: post.rank?.hotScore || 0,
+    computedScore: breakdown.score,
+    inputs,
+    components: breakdown.components,
+    formula: rankingConfig.hotScore,
+  };
+}
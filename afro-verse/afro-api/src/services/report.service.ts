@@ -0,0 +1,556 @@
+import { Types } from 'mongoose';
+import {
+  Report,
+  ReportTargetType,
+  ReportReason,
+  ReportAction,
+  REPORT_TARGET_TYPES,
+  REPORT_REASONS,
+  REPORT_ACTIONS,
+} from '../models/Report';
+import { Post } from '../models/Post';
+import { User } from '../models/User';
+import { securityConfig } from '../config/security';
+import { flagPost, removePost, banUser, restorePost } from './moderation.service';
+import { generateSignedReadUrl } from './media.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Report Service
+ *
+ * User reports of posts, captions and profiles, and the admin queue
+ * that works them. Reports on the same target are claimed and resolved
+ * together. Posts whose open report weight reaches
+ * securityConfig.reports.autoFlagWeight are flagged (hidden) until a
+ * moderator resolves them.
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+const POST_TARGETS: ReportTargetType[] = ['post', 'caption'];
+
+export interface ReportInput {
+  targetType?: string;
+  targetId?: string;
+  reason?: string;
+  details?: string;
+}
+
+export interface ReportQueueItem {
+  reportId: string; // Most recent report; handle for claim/resolve
+  targetType: ReportTargetType;
+  targetId: string;
+  targetUser: {
+    id: string;
+    username: string;
+    displayName: string;
+    banned: boolean;
+  } | null;
+  post: {
+    postId: string;
+    caption: string;
+    thumbUrl: string;
+    status: string;
+  } | null;
+  reportCount: number;
+  totalWeight: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  details: string[]; // Most recent first
+  status: 'open' | 'claimed' | 'resolved';
+  claimedBy: string | null;
+  claimedAt: Date | null;
+  resolution: {
+    action: ReportAction;
+    moderatorId: string;
+    note?: string;
+    resolvedAt: Date;
+  } | null;
+  lastReportedAt: Date;
+}
+
+/**
+ * Weight of a reporter's report
+ */
+function getReporterWeight(reporter: { roles?: string[]; createdAt?: Date }): number {
+  const { weights, newAccountAgeHours } = securityConfig.reports;
+
+  if (reporter.roles?.some((role) => role === 'admin' || role === 'moderator')) {
+    return weights.moderator;
+  }
+
+  const ageMs = Date.now() - (reporter.createdAt?.getTime() || 0);
+  if (ageMs < newAccountAgeHours * 60 * 60 * 1000) {
+    return weights.newAccount;
+  }
+
+  return weights.default;
+}
+
+/**
+ * Cutoff before which a claim has expired
+ */
+function getClaimCutoff(): Date {
+  return new Date(Date.now() - securityConfig.reports.claimTtlMinutes * 60 * 1000);
+}
+
+/**
+ * Report a post, caption or profile
+ *
+ * Reporting the same target twice is a no-op (duplicate: true).
+ */
+export async function createReport(
+  reporterId: string,
+  input: ReportInput
+): Promise<{ success: boolean; reportId?: string; duplicate?: boolean; error?: string }> {
+  const targetType = input.targetType as ReportTargetType;
+  const reason = input.reason as ReportReason;
+  const details = input.details?.trim() || undefined;
+
+  if (!REPORT_TARGET_TYPES.includes(targetType)) {
+    return { success: false, error: 'invalid_target_type' };
+  }
+
+  if (!REPORT_REASONS.includes(reason)) {
+    return { success: false, error: 'invalid_reason' };
+  }
+
+  if (!input.targetId || !Types.ObjectId.isValid(input.targetId)) {
+    return { success: false, error: 'invalid_target_id' };
+  }
+
+  if (details && details.length > securityConfig.reports.maxDetailsLength) {
+    return { success: false, error: 'details_too_long' };
+  }
+
+  const targetId = new Types.ObjectId(input.targetId);
+  let targetUserId: Types.ObjectId;
+
+  if (POST_TARGETS.includes(targetType)) {
+    const post = await Post.findById(targetId).select('userId caption status').lean();
+
+    if (!post || post.status === 'removed' || (targetType === 'caption' && !post.caption)) {
+      return { success: false, error: 'target_not_found' };
+    }
+
+    targetUserId = post.userId;
+  } else {
+    const user = await User.findById(targetId).select('_id').lean();
+
+    if (!user) {
+      return { success: false, error: 'target_not_found' };
+    }
+
+    targetUserId = user._id;
+  }
+
+  if (targetUserId.toString() === reporterId) {
+    return { success: false, error: 'cannot_report_self' };
+  }
+
+  const reporter = await User.findById(reporterId).select('roles createdAt').lean();
+
+  if (!reporter) {
+    return { success: false, error: 'user_not_found' };
+  }
+
+  let reportId: Types.ObjectId;
+
+  try {
+    const report = await Report.create({
+      reporterId: reporter._id,
+      targetType,
+      targetId,
+      targetUserId,
+      reason,
+      details,
+      weight: getReporterWeight(reporter),
+    });
+
+    reportId = report._id;
+  } catch (error: any) {
+    // Already reported by this user
+    if (error.code === 11000) {
+      return { success: true, duplicate: true };
+    }
+    throw error;
+  }
+
+  logger.info('Report created', {
+    reportId: reportId.toString(),
+    targetType,
+    targetId: targetId.toString(),
+    reason,
+  });
+
+  if (POST_TARGETS.includes(targetType)) {
+    await autoFlagIfNeeded(targetId, reportId, reason);
+  }
+
+  return { success: true, reportId: reportId.toString() };
+}
+
+/**
+ * Flag a post once its unresolved report weight crosses the threshold
+ */
+async function autoFlagIfNeeded(
+  postId: Types.ObjectId,
+  reportId: Types.ObjectId,
+  reason: ReportReason
+): Promise<void> {
+  const [totals] = await Report.aggregate<{ weight: number }>([
+    {
+      $match: {
+        targetType: { $in: POST_TARGETS },
+        targetId: postId,
+        status: { $in: ['open', 'claimed'] },
+      },
+    },
+    { $group: { _id: null, weight: { $sum: '$weight' } } },
+  ]);
+
+  const weight = totals?.weight || 0;
+
+  if (weight < securityConfig.reports.autoFlagWeight) {
+    return;
+  }
+
+  // Only flag content that is still live (no moderatorId: system flag)
+  const isActive = await Post.exists({ _id: postId, status: 'active' });
+  if (!isActive) {
+    return;
+  }
+
+  const result = await flagPost(postId.toString(), `Reported: ${reason}`, undefined, 'reports');
+
+  if (result.success) {
+    await Report.updateOne(
+      { _id: reportId },
+      {
+        $push: {
+          history: { action: 'auto_flagged', note: `Report weight ${weight}`, at: new Date() },
+        },
+      }
+    );
+  }
+}
+
+/**
+ * List the moderation queue (reports grouped by target)
+ *
+ * Post and caption reports on one post share a group, as they share a
+ * claim and resolution (see sameTargetFilter). Open/claimed targets sort
+ * by total report weight; resolved ones by most recent report.
+ */
+export async function listReportQueue(options: {
+  status?: string;
+  targetType?: string;
+  limit?: number;
+  cursor?: string;
+}): Promise<{ items: ReportQueueItem[]; nextCursor: string | null }> {
+  const limit = Math.min(options.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const offset = Math.max(parseInt(options.cursor || '0', 10) || 0, 0);
+  const resolved = options.status === 'resolved';
+
+  const match = {
+    status: resolved ? 'resolved' : { $in: ['open', 'claimed'] },
+  };
+
+  // Filter after grouping so a post's weight includes both report types
+  const typeMatch =
+    options.targetType && REPORT_TARGET_TYPES.includes(options.targetType as ReportTargetType)
+      ? [{ $match: { targetTypes: options.targetType } }]
+      : [];
+
+  const groups = await Report.aggregate([
+    { $match: match },
+    { $sort: { createdAt: -1, _id: -1 } },
+    {
+      $group: {
+        _id: {
+          targetType: {
+            $cond: [{ $in: ['$targetType', POST_TARGETS] }, 'post', '$targetType'],
+          },
+          targetId: '$targetId',
+        },
+        targetTypes: { $addToSet: '$targetType' },
+        reportId: { $first: '$_id' },
+        targetUserId: { $first: '$targetUserId' },
+        reportCount: { $sum: 1 },
+        totalWeight: { $sum: '$weight' },
+        reasons: { $push: '$reason' },
+        details: { $push: '$details' },
+        claimedBy: { $max: '$claimedBy' },
+        claimedAt: { $max: '$claimedAt' },
+        resolution: { $first: '$resolution' },
+        lastReportedAt: { $max: '$createdAt' },
+      },
+    },
+    ...typeMatch,
+    {
+      $sort: resolved
+        ? { lastReportedAt: -1, _id: 1 }
+        : { totalWeight: -1, lastReportedAt: -1, _id: 1 },
+    },
+    { $skip: offset },
+    { $limit: limit + 1 },
+  ]);
+
+  const hasMore = groups.length > limit;
+  const page = hasMore ? groups.slice(0, limit) : groups;
+
+  const postIds = page
+    .filter((group) => POST_TARGETS.includes(group._id.targetType))
+    .map((group) => group._id.targetId);
+  const userIds = page.map((group) => group.targetUserId);
+
+  const [posts, users] = await Promise.all([
+    Post.find({ _id: { $in: postIds } }).select('caption media.thumbPath status').lean(),
+    User.find({ _id: { $in: userIds } }).select('username displayName status').lean(),
+  ]);
+
+  const postMap = new Map(posts.map((p) => [p._id.toString(), p]));
+  const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+  const claimCutoff = getClaimCutoff();
+
+  const items = await Promise.all(
+    page.map(async (group): Promise<ReportQueueItem> => {
+      const targetId = group._id.targetId.toString();
+      const post = postMap.get(targetId);
+      const user = userMap.get(group.targetUserId.toString());
+
+      const reasons: Partial<Record<ReportReason, number>> = {};
+      for (const reason of group.reasons as ReportReason[]) {
+        reasons[reason] = (reasons[reason] || 0) + 1;
+      }
+
+      const isClaimed = !resolved && !!group.claimedAt && group.claimedAt > claimCutoff;
+
+      return {
+        reportId: group.reportId.toString(),
+        // A post reported only for its caption stays a caption item
+        targetType: group.targetTypes.length === 1 ? group.targetTypes[0] : group._id.targetType,
+        targetId,
+        targetUser: user
+          ? {
+              id: user._id.toString(),
+              username: user.username,
+              displayName: user.displayName,
+              banned: !!user.status?.banned,
+            }
+          : null,
+        post: post
+          ? {
+              postId: post._id.toString(),
+              caption: post.caption || '',
+              thumbUrl: post.media?.thumbPath
+                ? await generateSignedReadUrl(post.media.thumbPath)
+                : '',
+              status: post.status,
+            }
+          : null,
+        reportCount: group.reportCount,
+        totalWeight: group.totalWeight,
+        reasons,
+        details: (group.details as (string | null)[]).filter((d): d is string => !!d).slice(0, 5),
+        status: resolved ? 'resolved' : isClaimed ? 'claimed' : 'open',
+        claimedBy: isClaimed ? group.claimedBy.toString() : null,
+        claimedAt: isClaimed ? group.claimedAt : null,
+        resolution: resolved && group.resolution?.action
+          ? {
+              action: group.resolution.action,
+              moderatorId: group.resolution.moderatorId.toString(),
+              note: group.resolution.note,
+              resolvedAt: group.resolution.resolvedAt,
+            }
+          : null,
+        lastReportedAt: group.lastReportedAt,
+      };
+    })
+  );
+
+  return {
+    items,
+    nextCursor: hasMore ? String(offset + limit) : null,
+  };
+}
+
+/**
+ * Reports on the same target as this one
+ *
+ * Post and caption reports on one post count as one target, as
+ * auto-flagging weighs them together.
+ */
+function sameTargetFilter(report: { targetType: ReportTargetType; targetId: Types.ObjectId }) {
+  return {
+    targetType: POST_TARGETS.includes(report.targetType) ? { $in: POST_TARGETS } : report.targetType,
+    targetId: report.targetId,
+  };
+}
+
+/**
+ * Load a report and check no other moderator holds its target
+ */
+async function loadReportForModerator(
+  reportId: string,
+  moderatorId: string
+): Promise<{ report?: InstanceType<typeof Report>; error?: string }> {
+  if (!Types.ObjectId.isValid(reportId)) {
+    return { error: 'invalid_report_id' };
+  }
+
+  const report = await Report.findById(reportId);
+
+  if (!report) {
+    return { error: 'report_not_found' };
+  }
+
+  if (report.status === 'resolved') {
+    return { error: 'already_resolved' };
+  }
+
+  const heldByOther = await Report.exists({
+    ...sameTargetFilter(report),
+    status: 'claimed',
+    claimedBy: { $ne: new Types.ObjectId(moderatorId) },
+    claimedAt: { $gt: getClaimCutoff() },
+  });
+
+  if (heldByOther) {
+    return { error: 'already_claimed' };
+  }
+
+  return { report };
+}
+
+/**
+ * Claim a report (and every unresolved report on the same target)
+ */
+export async function claimReport(
+  reportId: string,
+  moderatorId: string
+): Promise<{ success: boolean; claimed?: number; claimExpiresAt?: Date; error?: string }> {
+  const { report, error } = await loadReportForModerator(reportId, moderatorId);
+
+  if (!report) {
+    return { success: false, error };
+  }
+
+  const now = new Date();
+  const moderatorObjectId = new Types.ObjectId(moderatorId);
+
+  const result = await Report.updateMany(
+    {
+      ...sameTargetFilter(report),
+      $or: [
+        { status: 'open' },
+        { status: 'claimed', claimedBy: moderatorObjectId },
+        { status: 'claimed', claimedAt: { $lte: getClaimCutoff() } },
+      ],
+    },
+    {
+      $set: { status: 'claimed', claimedBy: moderatorObjectId, claimedAt: now },
+      $push: { history: { action: 'claimed', actorId: moderatorObjectId, at: now } },
+    }
+  );
+
+  logger.info('Reports claimed', {
+    reportId,
+    targetType: report.targetType,
+    targetId: report.targetId.toString(),
+    moderatorId,
+    claimed: result.modifiedCount,
+  });
+
+  return {
+    success: true,
+    claimed: result.modifiedCount,
+    claimExpiresAt: new Date(now.getTime() + securityConfig.reports.claimTtlMinutes * 60 * 1000),
+  };
+}
+
+/**
+ * Resolve a report (and every unresolved report on the same target)
+ *
+ * - remove_post: removePost() on the reported post (post/caption targets)
+ * - ban_user:    banUser() on the account behind the content
+ * - dismiss:     no action; a post hidden by auto-flagging is restored
+ */
+export async function resolveReport(
+  reportId: string,
+  moderatorId: string,
+  input: { action?: string; note?: string }
+): Promise<{ success: boolean; resolved?: number; error?: string }> {
+  const action = input.action as ReportAction;
+  const note = input.note?.trim().slice(0, 500) || undefined;
+
+  if (!REPORT_ACTIONS.includes(action)) {
+    return { success: false, error: 'invalid_action' };
+  }
+
+  const { report, error } = await loadReportForModerator(reportId, moderatorId);
+
+  if (!report) {
+    return { success: false, error };
+  }
+
+  const isPostTarget = POST_TARGETS.includes(report.targetType);
+  const reason = note || `Reported: ${report.reason}`;
+
+  if (action === 'remove_post') {
+    if (!isPostTarget) {
+      return { success: false, error: 'invalid_action' };
+    }
+
+    const result = await removePost(report.targetId.toString(), reason, moderatorId);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+  } else if (action === 'ban_user') {
+    const result = await banUser(report.targetUserId.toString(), reason, moderatorId);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+  } else if (isPostTarget) {
+    // Dismissed: undo a flag raised by reports, but never a moderator's
+    // own flag or one raised for another reason (e.g. a likely repost)
+    const autoFlagged = await Post.exists({
+      _id: report.targetId,
+      status: 'flagged',
+      'moderation.moderatorId': { $exists: false },
+      'moderation.source': 'reports',
+    });
+
+    if (autoFlagged) {
+      await restorePost(report.targetId.toString(), moderatorId);
+    }
+  }
+
+  const now = new Date();
+  const moderatorObjectId = new Types.ObjectId(moderatorId);
+
+  const result = await Report.updateMany(
+    {
+      ...sameTargetFilter(report),
+      status: { $in: ['open', 'claimed'] },
+    },
+    {
+      $set: {
+        status: 'resolved',
+        resolution: { action, moderatorId: moderatorObjectId, note, resolvedAt: now },
+      },
+      $push: { history: { action: 'resolved', actorId: moderatorObjectId, note: action, at: now } },
+    }
+  );
+
+  logger.info('Reports resolved', {
+    reportId,
+    targetType: report.targetType,
+    targetId: report.targetId.toString(),
+    action,
+    moderatorId,
+    resolved: result.modifiedCount,
+  });
+
+  return { success: true, resolved: result.modifiedCount };
+}
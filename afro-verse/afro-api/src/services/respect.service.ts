@@ -4,6 +4,8 @@ import { Post } from '../models/Post';
 import { User } from '../models/User';
 import { logger } from '../utils/logger';
 import { env } from '../config/env';
+import { refreshHotScore } from './ranking.service';
+import { notify } from './notification.service';
 
 /**
  * Respect Service
@@ -113,6 +115,16 @@ export async function addRespect(
         postOwnerId: post.userId.toString(),
       });
       
+      // Update hot score and notify the creator (non-blocking)
+      refreshHotScore(postObjectId);
+      notify({
+        userId: post.userId,
+        type: 'respect',
+        groupKey: `respect:${postId}`,
+        actorId: userObjectId,
+        target: { postId: postObjectId },
+      });
+      
       return { success: true };
     } catch (error: any) {
       // Abort transaction if we started one
@@ -234,6 +246,9 @@ export async function removeRespect(
           userId,
           postOwnerId: post.userId.toString(),
         });
+        
+        // Update hot score (non-blocking)
+        refreshHotScore(postObjectId);
       } else {
         // Respect didn't exist (idempotent)
         logger.info('Respect not found (idempotent)', { postId, userId });
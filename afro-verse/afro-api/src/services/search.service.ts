@@ -0,0 +1,282 @@
+import { Types } from 'mongoose';
+import { User, IUser } from '../models/User';
+import { Tribe } from '../models/Tribe';
+import { Post } from '../models/Post';
+import { Tag } from '../models/Tag';
+import { getSearchBackend, SearchFilters } from '../search';
+import { enrichPosts, FeedItem } from './feed.service';
+import { generateSignedReadUrl } from './media.service';
+import { getHiddenAuthorIds, isShadowbanActive } from './visibility.service';
+import { searchConfig } from '../config/search';
+import { logger } from '../utils/logger';
+
+/**
+ * Search Service
+ *
+ * Searches users, tribes, posts and tags through the configured
+ * search backend, then hydrates results and re-applies visibility:
+ * - Banned and shadowbanned users (and their posts) never appear,
+ *   except a shadowbanned viewer still finds themselves; expired
+ *   shadowbans no longer apply
+ * - Users the viewer blocked, was blocked by or muted never appear
+ * - Tribe-only posts appear only to members of that tribe
+ */
+
+export type SearchType = 'all' | 'users' | 'tribes' | 'posts' | 'tags';
+
+export const SEARCH_TYPES: SearchType[] = ['all', 'users', 'tribes', 'posts', 'tags'];
+
+export interface UserSearchResult {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarThumbUrl: string;
+  tribe: { slug: string; name: string } | null;
+}
+
+export interface TribeSearchResult {
+  id: string;
+  slug: string;
+  name: string;
+  motto: string;
+  accentColor: string;
+  iconUrl: string;
+  members: number;
+}
+
+export interface TagSearchResult {
+  slug: string;
+  label: string;
+  postCount: number;
+}
+
+export interface SearchResults {
+  users?: UserSearchResult[];
+  tribes?: TribeSearchResult[];
+  posts?: FeedItem[];
+  tags?: TagSearchResult[];
+  nextCursor?: string; // Single-type searches only
+}
+
+function isHidden(
+  user: Pick<IUser, '_id'> & { status?: Partial<IUser['status']> },
+  viewerUserId: Types.ObjectId
+): boolean {
+  if (user.status?.banned) {
+    return true;
+  }
+
+  return isShadowbanActive(user.status) && !user._id.equals(viewerUserId);
+}
+
+/**
+ * Restore backend rank order after a $in lookup
+ */
+function inOrder<T>(ids: string[], docs: T[], key: (doc: T) => string): T[] {
+  const byId = new Map(docs.map((doc) => [key(doc), doc]));
+  return ids.map((id) => byId.get(id)).filter((doc): doc is T => !!doc);
+}
+
+async function hydrateUsers(ids: string[], viewerUserId: Types.ObjectId): Promise<UserSearchResult[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const users = await User.find({ _id: { $in: ids.map((id) => new Types.ObjectId(id)) } })
+    .select('username displayName avatar tribeId status')
+    .lean();
+  const visible = users.filter((user) => !isHidden(user, viewerUserId));
+
+  const tribeIds = [...new Set(visible.map((user) => user.tribeId?.toString()).filter(Boolean))] as string[];
+  const tribes = await Tribe.find({ _id: { $in: tribeIds.map((id) => new Types.ObjectId(id)) } })
+    .select('slug name')
+    .lean();
+  const tribeMap = new Map(tribes.map((tribe) => [tribe._id.toString(), tribe]));
+
+  return Promise.all(
+    inOrder(ids, visible, (user) => user._id.toString()).map(async (user) => {
+      const tribe = user.tribeId ? tribeMap.get(user.tribeId.toString()) : undefined;
+
+      return {
+        id: user._id.toString(),
+        username: user.username,
+        displayName: user.displayName || user.username,
+        avatarThumbUrl: user.avatar?.thumbPath ? await generateSignedReadUrl(user.avatar.thumbPath) : '',
+        tribe: tribe ? { slug: tribe.slug, name: tribe.name } : null,
+      };
+    })
+  );
+}
+
+async function hydrateTribes(ids: string[]): Promise<TribeSearchResult[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const tribes = await Tribe.find({ _id: { $in: ids.map((id) => new Types.ObjectId(id)) } }).lean();
+
+  return inOrder(ids, tribes, (tribe) => tribe._id.toString()).map((tribe) => ({
+    id: tribe._id.toString(),
+    slug: tribe.slug,
+    name: tribe.name,
+    motto: tribe.motto,
+    accentColor: tribe.accentColor,
+    iconUrl: `/icons/tribe-icons/${tribe.slug}.svg`,
+    members: tribe.stats?.members || 0,
+  }));
+}
+
+async function hydratePosts(
+  ids: string[],
+  viewerUserId: Types.ObjectId,
+  filters: SearchFilters
+): Promise<FeedItem[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const hidden = new Set(filters.excludeUserIds);
+  const posts = await Post.find({ _id: { $in: ids.map((id) => new Types.ObjectId(id)) }, status: 'active' }).lean();
+
+  const visible = posts.filter(
+    (post) =>
+      !hidden.has(post.userId.toString()) &&
+      (post.visibility === 'public' || post.tribeId.toString() === filters.viewerTribeId)
+  );
+
+  return enrichPosts(inOrder(ids, visible, (post) => post._id.toString()), viewerUserId, false);
+}
+
+async function hydrateTags(slugs: string[]): Promise<TagSearchResult[]> {
+  if (slugs.length === 0) {
+    return [];
+  }
+
+  const tags = await Tag.find({ slug: { $in: slugs } }).select('slug label postCount').lean();
+
+  return inOrder(slugs, tags, (tag) => tag.slug).map((tag) => ({
+    slug: tag.slug,
+    label: tag.label,
+    postCount: tag.postCount,
+  }));
+}
+
+function parseOffsetCursor(cursor?: string): number {
+  if (!cursor) {
+    return 0;
+  }
+
+  const offset = parseInt(Buffer.from(cursor, 'base64').toString('utf-8'), 10);
+  return Number.isFinite(offset) && offset > 0 ? offset : 0;
+}
+
+function encodeOffsetCursor(offset: number): string {
+  return Buffer.from(offset.toString(), 'utf-8').toString('base64');
+}
+
+/**
+ * Search
+ *
+ * type 'all' returns the top sectionLimit results of every kind;
+ * a single type returns one page (?limit, ?cursor).
+ */
+export async function search(
+  viewerUserId: string,
+  rawQuery: string,
+  type: SearchType = 'all',
+  limit: number = 20,
+  cursor?: string
+): Promise<{ success: boolean; results?: SearchResults; error?: string }> {
+  try {
+    if (!Types.ObjectId.isValid(viewerUserId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    if (!SEARCH_TYPES.includes(type)) {
+      return { success: false, error: 'invalid_type' };
+    }
+
+    const text = (rawQuery || '').trim();
+
+    if (text.length < searchConfig.minQueryLength || text.length > searchConfig.maxQueryLength) {
+      return { success: false, error: 'invalid_query' };
+    }
+
+    const viewerObjectId = new Types.ObjectId(viewerUserId);
+    const [viewer, hiddenUserIds] = await Promise.all([
+      User.findById(viewerObjectId).select('tribeId').lean(),
+      getHiddenAuthorIds(viewerUserId),
+    ]);
+
+    const filters: SearchFilters = {
+      viewerTribeId: viewer?.tribeId?.toString(),
+      excludeUserIds: hiddenUserIds.map((id) => id.toString()),
+    };
+
+    const backend = getSearchBackend();
+
+    if (type === 'all') {
+      const query = { text, limit: searchConfig.sectionLimit, offset: 0, filters };
+
+      const [userIds, tribeIds, postIds, tagSlugs] = await Promise.all([
+        backend.searchUsers(query),
+        backend.searchTribes(query),
+        backend.searchPosts(query),
+        backend.searchTags(query),
+      ]);
+
+      const [users, tribes, posts, tags] = await Promise.all([
+        hydrateUsers(userIds, viewerObjectId),
+        hydrateTribes(tribeIds),
+        hydratePosts(postIds, viewerObjectId, filters),
+        hydrateTags(tagSlugs),
+      ]);
+
+      return { success: true, results: { users, tribes, posts, tags } };
+    }
+
+    // One type: fetch one extra to know if there is another page
+    const pageSize = Math.min(Math.max(limit, 1), searchConfig.maxLimit);
+    const offset = parseOffsetCursor(cursor);
+    const query = { text, limit: pageSize + 1, offset, filters };
+
+    const results: SearchResults = {};
+    let hasMore = false;
+
+    switch (type) {
+      case 'users': {
+        const ids = await backend.searchUsers(query);
+        hasMore = ids.length > pageSize;
+        results.users = await hydrateUsers(ids.slice(0, pageSize), viewerObjectId);
+        break;
+      }
+      case 'tribes': {
+        const ids = await backend.searchTribes(query);
+        hasMore = ids.length > pageSize;
+        results.tribes = await hydrateTribes(ids.slice(0, pageSize));
+        break;
+      }
+      case 'posts': {
+        const ids = await backend.searchPosts(query);
+        hasMore = ids.length > pageSize;
+        results.posts = await hydratePosts(ids.slice(0, pageSize), viewerObjectId, filters);
+        break;
+      }
+      case 'tags': {
+        const slugs = await backend.searchTags(query);
+        hasMore = slugs.length > pageSize;
+        results.tags = await hydrateTags(slugs.slice(0, pageSize));
+        break;
+      }
+    }
+
+    if (hasMore) {
+      results.nextCursor = encodeOffsetCursor(offset + pageSize);
+    }
+
+    return { success: true, results };
+  } catch (error: any) {
+    logger.error('Error searching', { type, error: error.message });
+    return { success: false, error: error.message };
+  }
+}
@@ -1,13 +1,14 @@
 /**
  * Storage Service
  * 
- * Low-level GCS operations for bucket management.
- * This service provides primitives for the transformation service.
+ * Low-level object storage operations for bucket management.
+ * This service provides primitives for the media, generation and
+ * transformation flows, delegating to the configured StorageBackend
+ * (GCS in production, local disk for development and tests).
  */
 
-import { Storage, Bucket, File } from '@google-cloud/storage';
-import { getStorage } from '../config/storage';
-import { BUCKETS, BUCKET_CONFIGS, LIFECYCLE, URLS, getBucketConfig } from '../config/buckets';
+import { getStorageBackend, ObjectMetadata } from '../storage';
+import { BUCKETS, LIFECYCLE, getBucketConfig } from '../config/buckets';
 import { logger } from '../utils/logger';
 
 export interface UploadResult {
@@ -25,11 +26,10 @@ export interface SignedUrlResult {
 }
 
 /**
- * Get bucket instance
+ * Public URL for an object (CDN/GCS or local /storage route)
  */
-export function getBucketInstance(bucketName: string): Bucket {
-  const storage = getStorage();
-  return storage.bucket(bucketName);
+export function getPublicUrl(bucket: string, path: string): string {
+  return getStorageBackend().publicUrl(bucket, path);
 }
 
 /**
@@ -46,37 +46,22 @@ export async function uploadBuffer(
   }
 ): Promise<UploadResult> {
   try {
-    const bucketInstance = getBucketInstance(bucket);
-    const file = bucketInstance.file(path);
+    const config = getBucketConfigSafe(bucket);
     
-    await file.save(buffer, {
+    await getStorageBackend().save(bucket, path, buffer, {
       contentType: options.contentType,
-      metadata: {
-        ...options.metadata,
-      },
-      resumable: false,
+      metadata: options.metadata,
+      cacheControl: options.cacheControl,
+      public: config?.public,
     });
     
-    // Set cache control
-    if (options.cacheControl) {
-      await file.setMetadata({
-        cacheControl: options.cacheControl,
-      });
-    }
-    
-    // Make public if configured
-    const config = getBucketConfig(bucket);
-    if (config.public) {
-      await file.makePublic();
-    }
+    const url = getPublicUrl(bucket, path);
     
-    const url = URLS.public(bucket, path);
-    
-    logger.info('Uploaded to GCS', {
+    logger.info('Uploaded to storage', {
       bucket,
       path,
       size: buffer.length,
-      public: config.public,
+      public: !!config?.public,
     });
     
     return {
@@ -85,7 +70,7 @@ export async function uploadBuffer(
       url,
     };
   } catch (error: any) {
-    logger.error('Failed to upload to GCS', {
+    logger.error('Failed to upload to storage', {
       bucket,
       path,
       error: error.message,
@@ -106,12 +91,9 @@ export async function downloadFile(
   path: string
 ): Promise<{ success: boolean; buffer?: Buffer; error?: string }> {
   try {
-    const bucketInstance = getBucketInstance(bucket);
-    const file = bucketInstance.file(path);
-    
-    const [buffer] = await file.download();
+    const buffer = await getStorageBackend().download(bucket, path);
     
-    logger.info('Downloaded from GCS', {
+    logger.info('Downloaded from storage', {
       bucket,
       path,
       size: buffer.length,
@@ -122,7 +104,7 @@ export async function downloadFile(
       buffer,
     };
   } catch (error: any) {
-    logger.error('Failed to download from GCS', {
+    logger.error('Failed to download from storage', {
       bucket,
       path,
       error: error.message,
@@ -143,25 +125,17 @@ export async function deleteFile(
   path: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const bucketInstance = getBucketInstance(bucket);
-    const file = bucketInstance.file(path);
-    
-    await file.delete();
+    // Backends treat missing objects as already deleted
+    await getStorageBackend().delete(bucket, path);
     
-    logger.info('Deleted from GCS', {
+    logger.info('Deleted from storage', {
       bucket,
       path,
     });
     
     return { success: true };
   } catch (error: any) {
-    // Ignore if file doesn't exist
-    if (error.code === 404) {
-      logger.info('File already deleted (404)', { bucket, path });
-      return { success: true };
-    }
-    
-    logger.error('Failed to delete from GCS', {
+    logger.error('Failed to delete from storage', {
       bucket,
       path,
       error: error.message,
@@ -184,15 +158,9 @@ export async function copyFile(
   destPath: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const sourceBucketInstance = getBucketInstance(sourceBucket);
-    const sourceFile = sourceBucketInstance.file(sourcePath);
-    
-    const destBucketInstance = getBucketInstance(destBucket);
-    const destFile = destBucketInstance.file(destPath);
+    await getStorageBackend().copy(sourceBucket, sourcePath, destBucket, destPath);
     
-    await sourceFile.copy(destFile);
-    
-    logger.info('Copied file in GCS', {
+    logger.info('Copied file in storage', {
       sourceBucket,
       sourcePath,
       destBucket,
@@ -201,7 +169,7 @@ export async function copyFile(
     
     return { success: true };
   } catch (error: any) {
-    logger.error('Failed to copy file in GCS', {
+    logger.error('Failed to copy file in storage', {
       sourceBucket,
       sourcePath,
       destBucket,
@@ -253,15 +221,11 @@ export async function generateSignedUrl(
   expiresIn: number = LIFECYCLE.SIGNED_URL_EXPIRY
 ): Promise<SignedUrlResult> {
   try {
-    const bucketInstance = getBucketInstance(bucket);
-    const file = bucketInstance.file(path);
-    
     const expiresAt = new Date(Date.now() + expiresIn * 1000);
     
-    const [url] = await file.getSignedUrl({
-      version: 'v4',
+    const url = await getStorageBackend().getSignedUrl(bucket, path, {
       action: 'read',
-      expires: expiresAt,
+      expiresAt,
     });
     
     logger.info('Generated signed URL', {
@@ -289,6 +253,47 @@ export async function generateSignedUrl(
   }
 }
 
+/**
+ * Generate signed URL for direct client upload
+ */
+export async function generateSignedUploadUrl(
+  bucket: string,
+  path: string,
+  options: {
+    contentType: string;
+    maxSizeBytes?: number;
+    expiresIn?: number; // Seconds
+  }
+): Promise<SignedUrlResult> {
+  try {
+    const expiresAt = new Date(Date.now() + (options.expiresIn || LIFECYCLE.SIGNED_URL_EXPIRY) * 1000);
+    
+    const url = await getStorageBackend().getSignedUrl(bucket, path, {
+      action: 'write',
+      expiresAt,
+      contentType: options.contentType,
+      maxSizeBytes: options.maxSizeBytes,
+    });
+    
+    return {
+      success: true,
+      url,
+      expiresAt,
+    };
+  } catch (error: any) {
+    logger.error('Failed to generate signed upload URL', {
+      bucket,
+      path,
+      error: error.message,
+    });
+    
+    return {
+      success: false,
+      error: error.message,
+    };
+  }
+}
+
 /**
  * Check if file exists
  */
@@ -297,11 +302,7 @@ export async function fileExists(
   path: string
 ): Promise<boolean> {
   try {
-    const bucketInstance = getBucketInstance(bucket);
-    const file = bucketInstance.file(path);
-    
-    const [exists] = await file.exists();
-    return exists;
+    return await getStorageBackend().exists(bucket, path);
   } catch (error: any) {
     logger.error('Failed to check file existence', {
       bucket,
@@ -318,12 +319,9 @@ export async function fileExists(
 export async function getFileMetadata(
   bucket: string,
   path: string
-): Promise<{ success: boolean; metadata?: any; error?: string }> {
+): Promise<{ success: boolean; metadata?: ObjectMetadata; error?: string }> {
   try {
-    const bucketInstance = getBucketInstance(bucket);
-    const file = bucketInstance.file(path);
-    
-    const [metadata] = await file.getMetadata();
+    const metadata = await getStorageBackend().getMetadata(bucket, path);
     
     return {
       success: true,
@@ -412,16 +410,8 @@ export async function setupBucketLifecycle(
       return { success: true };
     }
     
-    const bucketInstance = getBucketInstance(bucket);
-    
-    await bucketInstance.addLifecycleRule({
-      action: {
-        type: 'Delete',
-      },
-      condition: {
-        age: Math.floor(config.ttl / (24 * 60 * 60)), // Convert seconds to days
-      },
-    });
+    // Convert seconds to days
+    await getStorageBackend().setLifecycleTtl(bucket, Math.floor(config.ttl / (24 * 60 * 60)));
     
     logger.info('Lifecycle rule added to bucket', {
       bucket,
@@ -455,8 +445,7 @@ export async function verifyBuckets(): Promise<{
   
   for (const bucket of Object.values(BUCKETS)) {
     try {
-      const bucketInstance = getBucketInstance(bucket);
-      const [exists] = await bucketInstance.exists();
+      const exists = await getStorageBackend().bucketExists(bucket);
       
       if (exists) {
         existing.push(bucket);
@@ -481,5 +470,10 @@ export async function verifyBuckets(): Promise<{
   };
 }
 
-
-
+function getBucketConfigSafe(bucket: string) {
+  try {
+    return getBucketConfig(bucket);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,477 @@
+import { Types } from 'mongoose';
+import { StylePreset, IStylePreset } from '../models/StylePreset';
+import { Tribe } from '../models/Tribe';
+import { cacheService } from '../config/redis';
+import { logger } from '../utils/logger';
+
+/**
+ * Style Preset Service
+ *
+ * The preset catalog behind the create screen chips, its admin CRUD,
+ * and version-exact prompt lookup for the generation workers.
+ *
+ * Enabled presets are cached (Redis or in-memory fallback) for
+ * CATALOG_TTL_SECONDS; admin writes clear the cache.
+ */
+
+const CATALOG_CACHE_KEY = 'style_presets:enabled';
+const CATALOG_TTL_SECONDS = 60;
+const MAX_EXAMPLE_THUMBS = 6;
+const SLUG_PATTERN = /^[a-z0-9_-]{2,50}$/;
+
+export interface PublicStylePreset {
+  id: string; // Slug; sent back as presetId
+  title: string;
+  description: string | null;
+  exampleThumbs: string[];
+  version: number;
+  tribeMatch: boolean; // Curated for the requested tribe
+}
+
+export interface AdminStylePreset {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  promptFragment: string;
+  negativePrompt: string | null;
+  exampleThumbs: string[];
+  tribeIds: string[];
+  enabled: boolean;
+  order: number;
+  version: number;
+  revisions: Array<{
+    version: number;
+    promptFragment: string;
+    negativePrompt: string | null;
+    updatedBy: string | null;
+    replacedAt: Date;
+  }>;
+  updatedAt: Date;
+}
+
+export interface StylePresetInput {
+  slug?: unknown;
+  title?: unknown;
+  description?: unknown;
+  promptFragment?: unknown;
+  negativePrompt?: unknown;
+  exampleThumbs?: unknown;
+  tribeIds?: unknown;
+  enabled?: unknown;
+  order?: unknown;
+}
+
+/**
+ * Enabled presets in display order (cached)
+ */
+async function loadEnabledPresets(): Promise<IStylePreset[]> {
+  const cached = await cacheService.get(CATALOG_CACHE_KEY);
+
+  if (cached) {
+    return JSON.parse(cached);
+  }
+
+  const presets = await StylePreset.find({ enabled: true })
+    .sort({ order: 1, title: 1 })
+    .lean<IStylePreset[]>();
+
+  await cacheService.set(CATALOG_CACHE_KEY, JSON.stringify(presets), CATALOG_TTL_SECONDS);
+  return presets;
+}
+
+/**
+ * Drop the cached catalog (after admin writes)
+ */
+async function clearPresetCache(): Promise<void> {
+  await cacheService.del(CATALOG_CACHE_KEY);
+}
+
+/**
+ * List enabled presets for the create screen
+ *
+ * Presets curated for the tribe come first; presets curated for other
+ * tribes are hidden; presets without tribe affinity are shown to all.
+ */
+export async function listPublicPresets(options: {
+  tribeId?: string | null;
+  tribeSlug?: string;
+} = {}): Promise<{ success: boolean; presets?: PublicStylePreset[]; error?: string }> {
+  try {
+    let tribeId = options.tribeId || null;
+
+    if (options.tribeSlug) {
+      const tribe = await Tribe.findOne({ slug: options.tribeSlug.toLowerCase() })
+        .select('_id')
+        .lean();
+
+      if (!tribe) {
+        return { success: false, error: 'tribe_not_found' };
+      }
+
+      tribeId = tribe._id.toString();
+    }
+
+    const presets = await loadEnabledPresets();
+    const matched: PublicStylePreset[] = [];
+    const general: PublicStylePreset[] = [];
+
+    for (const preset of presets) {
+      const tribeIds = (preset.tribeIds || []).map((id) => id.toString());
+      const tribeMatch = !!tribeId && tribeIds.includes(tribeId);
+
+      if (tribeIds.length > 0 && !tribeMatch) {
+        continue;
+      }
+
+      (tribeMatch ? matched : general).push({
+        id: preset.slug,
+        title: preset.title,
+        description: preset.description || null,
+        exampleThumbs: preset.exampleThumbs || [],
+        version: preset.version,
+        tribeMatch,
+      });
+    }
+
+    return { success: true, presets: [...matched, ...general] };
+  } catch (error: any) {
+    logger.error('Error listing style presets', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Resolve an enabled preset for a new generation
+ *
+ * Returns null when the slug is unknown or disabled, or when the preset
+ * is curated for other tribes only (as in the create screen's list).
+ */
+export async function resolvePresetForGeneration(
+  slug: string,
+  tribeId?: string | null
+): Promise<{
+  slug: string;
+  title: string;
+  version: number;
+} | null> {
+  const presets = await loadEnabledPresets();
+  const preset = presets.find((p) => p.slug === slug);
+
+  if (!preset) {
+    return null;
+  }
+
+  const tribeIds = (preset.tribeIds || []).map((id) => id.toString());
+
+  if (tribeIds.length > 0 && (!tribeId || !tribeIds.includes(tribeId))) {
+    return null;
+  }
+
+  return { slug: preset.slug, title: preset.title, version: preset.version };
+}
+
+/**
+ * Prompt text of a preset at a specific version
+ *
+ * Generations created before presets were versioned have no version
+ * and get the current text. Disabled presets still resolve so queued
+ * and refined generations keep working.
+ */
+export async function getPresetPrompt(
+  slug: string,
+  version?: number | null
+): Promise<{ promptFragment: string; negativePrompt?: string } | null> {
+  const preset = await StylePreset.findOne({ slug })
+    .select('promptFragment negativePrompt version revisions')
+    .lean<IStylePreset>();
+
+  if (!preset) {
+    logger.warn('Style preset not found for generation', { slug, version });
+    return null;
+  }
+
+  if (version && version !== preset.version) {
+    const revision = (preset.revisions || []).find((r) => r.version === version);
+
+    if (revision) {
+      return {
+        promptFragment: revision.promptFragment,
+        negativePrompt: revision.negativePrompt || undefined,
+      };
+    }
+
+    logger.warn('Style preset revision missing, using current version', {
+      slug,
+      version,
+      currentVersion: preset.version,
+    });
+  }
+
+  return {
+    promptFragment: preset.promptFragment,
+    negativePrompt: preset.negativePrompt || undefined,
+  };
+}
+
+/**
+ * Display label for a preset (post style tags)
+ */
+export async function getPresetTitle(slug: string): Promise<string | null> {
+  const preset = await StylePreset.findOne({ slug }).select('title').lean();
+  return preset?.title || null;
+}
+
+/**
+ * Admin view of a preset
+ */
+function toAdminPreset(preset: IStylePreset): AdminStylePreset {
+  return {
+    id: preset._id.toString(),
+    slug: preset.slug,
+    title: preset.title,
+    description: preset.description || null,
+    promptFragment: preset.promptFragment,
+    negativePrompt: preset.negativePrompt || null,
+    exampleThumbs: preset.exampleThumbs || [],
+    tribeIds: (preset.tribeIds || []).map((id) => id.toString()),
+    enabled: preset.enabled,
+    order: preset.order,
+    version: preset.version,
+    revisions: (preset.revisions || []).map((r) => ({
+      version: r.version,
+      promptFragment: r.promptFragment,
+      negativePrompt: r.negativePrompt || null,
+      updatedBy: r.updatedBy ? r.updatedBy.toString() : null,
+      replacedAt: r.replacedAt,
+    })),
+    updatedAt: preset.updatedAt,
+  };
+}
+
+/**
+ * Optional trimmed string within a length limit
+ *
+ * Returns undefined when absent, null when invalid.
+ */
+function optionalString(value: unknown, maxLength: number): string | undefined | null {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || value.trim().length > maxLength) {
+    return null;
+  }
+
+  return value.trim();
+}
+
+/**
+ * Validate admin input into model fields
+ *
+ * `partial` allows omitted fields (updates); creates need slug, title
+ * and promptFragment.
+ */
+async function parsePresetInput(
+  input: StylePresetInput,
+  partial: boolean
+): Promise<{ fields?: Partial<IStylePreset>; error?: string }> {
+  const fields: Record<string, any> = {};
+
+  if (!partial) {
+    if (typeof input.slug !== 'string' || !SLUG_PATTERN.test(input.slug)) {
+      return { error: 'invalid_slug' };
+    }
+    fields.slug = input.slug;
+  }
+
+  const title = optionalString(input.title, 40);
+  if (title === null || (title !== undefined && !title) || (!partial && !title)) {
+    return { error: 'invalid_title' };
+  }
+  if (title !== undefined) fields.title = title;
+
+  const promptFragment = optionalString(input.promptFragment, 1000);
+  if (promptFragment === null || (promptFragment !== undefined && !promptFragment) || (!partial && !promptFragment)) {
+    return { error: 'invalid_prompt_fragment' };
+  }
+  if (promptFragment !== undefined) fields.promptFragment = promptFragment;
+
+  const description = optionalString(input.description, 200);
+  if (description === null) {
+    return { error: 'invalid_description' };
+  }
+  if (description !== undefined) fields.description = description;
+
+  const negativePrompt = optionalString(input.negativePrompt, 1000);
+  if (negativePrompt === null) {
+    return { error: 'invalid_negative_prompt' };
+  }
+  if (negativePrompt !== undefined) fields.negativePrompt = negativePrompt;
+
+  if (input.exampleThumbs !== undefined) {
+    const thumbs = input.exampleThumbs;
+    if (
+      !Array.isArray(thumbs) ||
+      thumbs.length > MAX_EXAMPLE_THUMBS ||
+      !thumbs.every((url) => typeof url === 'string' && /^(https:\/\/|\/)\S+$/.test(url))
+    ) {
+      return { error: 'invalid_example_thumbs' };
+    }
+    fields.exampleThumbs = thumbs;
+  }
+
+  if (input.tribeIds !== undefined) {
+    const tribeIds = input.tribeIds;
+    if (
+      !Array.isArray(tribeIds) ||
+      !tribeIds.every((id) => typeof id === 'string' && Types.ObjectId.isValid(id))
+    ) {
+      return { error: 'invalid_tribe_ids' };
+    }
+
+    const unique = [...new Set(tribeIds as string[])];
+    const found = await Tribe.countDocuments({ _id: { $in: unique } });
+    if (found !== unique.length) {
+      return { error: 'tribe_not_found' };
+    }
+    fields.tribeIds = unique.map((id) => new Types.ObjectId(id));
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== 'boolean') {
+      return { error: 'invalid_enabled' };
+    }
+    fields.enabled = input.enabled;
+  }
+
+  if (input.order !== undefined) {
+    if (typeof input.order !== 'number' || !Number.isInteger(input.order)) {
+      return { error: 'invalid_order' };
+    }
+    fields.order = input.order;
+  }
+
+  return { fields: fields as Partial<IStylePreset> };
+}
+
+/**
+ * List every preset, enabled or not (admin)
+ */
+export async function listAllPresets(): Promise<{
+  success: boolean;
+  presets?: AdminStylePreset[];
+  error?: string;
+}> {
+  try {
+    const presets = await StylePreset.find()
+      .sort({ enabled: -1, order: 1, title: 1 })
+      .lean<IStylePreset[]>();
+
+    return { success: true, presets: presets.map(toAdminPreset) };
+  } catch (error: any) {
+    logger.error('Error listing style presets for admin', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Create a preset (admin)
+ */
+export async function createPreset(
+  adminId: string,
+  input: StylePresetInput
+): Promise<{ success: boolean; preset?: AdminStylePreset; error?: string }> {
+  try {
+    const parsed = await parsePresetInput(input, false);
+
+    if (parsed.error) {
+      return { success: false, error: parsed.error };
+    }
+
+    const preset = await StylePreset.create({
+      ...parsed.fields,
+      version: 1,
+      revisions: [],
+      createdBy: new Types.ObjectId(adminId),
+      updatedBy: new Types.ObjectId(adminId),
+    });
+
+    await clearPresetCache();
+
+    logger.info('Style preset created', { slug: preset.slug, adminId });
+
+    return { success: true, preset: toAdminPreset(preset.toObject()) };
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return { success: false, error: 'slug_taken' };
+    }
+
+    logger.error('Error creating style preset', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Update a preset (admin)
+ *
+ * Changing promptFragment or negativePrompt bumps the version and keeps
+ * the replaced text as a revision.
+ */
+export async function updatePreset(
+  adminId: string,
+  slug: string,
+  input: StylePresetInput
+): Promise<{ success: boolean; preset?: AdminStylePreset; error?: string }> {
+  try {
+    if (input.slug !== undefined && input.slug !== slug) {
+      return { success: false, error: 'slug_immutable' };
+    }
+
+    const parsed = await parsePresetInput(input, true);
+
+    if (parsed.error) {
+      return { success: false, error: parsed.error };
+    }
+
+    const preset = await StylePreset.findOne({ slug });
+
+    if (!preset) {
+      return { success: false, error: 'preset_not_found' };
+    }
+
+    const fields = parsed.fields || {};
+    const promptChanged =
+      (fields.promptFragment !== undefined && fields.promptFragment !== preset.promptFragment) ||
+      (fields.negativePrompt !== undefined && fields.negativePrompt !== (preset.negativePrompt || ''));
+
+    if (promptChanged) {
+      preset.revisions.push({
+        version: preset.version,
+        promptFragment: preset.promptFragment,
+        negativePrompt: preset.negativePrompt,
+        updatedBy: preset.updatedBy,
+        replacedAt: new Date(),
+      });
+      preset.version += 1;
+    }
+
+    preset.set(fields);
+    preset.updatedBy = new Types.ObjectId(adminId);
+    await preset.save();
+
+    await clearPresetCache();
+
+    logger.info('Style preset updated', {
+      slug,
+      adminId,
+      version: preset.version,
+      promptChanged,
+    });
+
+    return { success: true, preset: toAdminPreset(preset.toObject()) };
+  } catch (error: any) {
+    logger.error('Error updating style preset', error);
+    return { success: false, error: error.message };
+  }
+}
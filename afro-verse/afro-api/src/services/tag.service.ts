@@ -0,0 +1,266 @@
+import { Types } from 'mongoose';
+import { Tag } from '../models/Tag';
+import { Post } from '../models/Post';
+import { User } from '../models/User';
+import { enrichPosts, FeedItem } from './feed.service';
+import { getHiddenAuthorIds, getModeratedUserIds } from './visibility.service';
+import { cacheService } from '../config/redis';
+import { securityConfig } from '../config/security';
+import { normalizeTag, extractHashtags, MAX_TAGS_PER_POST } from '../utils/tags';
+import { logger } from '../utils/logger';
+
+/**
+ * Tag Service
+ *
+ * Hashtags (from captions) and style tags (from presets):
+ * - Tagging posts at creation and keeping Tag usage counts
+ * - Tag pages (tribe- and visibility-aware)
+ * - Trending tags over a window
+ */
+
+export type TrendingWindow = '24h' | '7d';
+
+export const TRENDING_WINDOWS: Record<TrendingWindow, number> = {
+  '24h': 24,
+  '7d': 7 * 24,
+};
+
+export interface PostTag {
+  slug: string;
+  label: string;
+  kind: 'hashtag' | 'style';
+}
+
+export interface TagInfo {
+  slug: string;
+  label: string;
+  postCount: number;
+  isStyle: boolean;
+}
+
+export interface TrendingTag {
+  slug: string;
+  label: string;
+  posts: number; // Public posts within the window
+  creators: number; // Distinct authors within the window
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TRENDING_CACHE_PREFIX = 'trending_tags:';
+
+/**
+ * Tags for a new post: the preset style tag first, then caption
+ * hashtags, capped at MAX_TAGS_PER_POST
+ *
+ * Prompt-derived style tags are free text and are not tagged.
+ */
+export function buildPostTags(caption: string | undefined, presetStyleTag: string | null): PostTag[] {
+  const tags: PostTag[] = [];
+
+  const styleSlug = presetStyleTag ? normalizeTag(presetStyleTag) : null;
+  if (presetStyleTag && styleSlug) {
+    tags.push({ slug: styleSlug, label: presetStyleTag, kind: 'style' });
+  }
+
+  for (const hashtag of extractHashtags(caption)) {
+    if (tags.length >= MAX_TAGS_PER_POST) {
+      break;
+    }
+
+    if (!tags.some((tag) => tag.slug === hashtag.slug)) {
+      tags.push({ ...hashtag, kind: 'hashtag' });
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Count a post's tags (upserts Tag documents)
+ *
+ * Non-blocking: call without awaiting after the post is saved.
+ */
+export async function recordPostTags(tags: PostTag[], usedAt: Date = new Date()): Promise<void> {
+  if (tags.length === 0) {
+    return;
+  }
+
+  try {
+    await Tag.bulkWrite(
+      tags.map((tag) => ({
+        updateOne: {
+          filter: { slug: tag.slug },
+          update: {
+            $setOnInsert: { slug: tag.slug, label: tag.label },
+            $addToSet: { kinds: tag.kind },
+            $inc: { postCount: 1 },
+            $max: { lastUsedAt: usedAt },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error: any) {
+    logger.error('Error recording post tags', {
+      tags: tags.map((tag) => tag.slug),
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Tag page: posts with a tag, newest first
+ *
+ * Viewers see public posts plus tribe-only posts from their own tribe,
+ * skipping moderated, blocked and muted authors.
+ */
+export async function getTagPosts(
+  rawTag: string,
+  viewerUserId: string,
+  limit: number = 12,
+  cursor?: string
+): Promise<{ success: boolean; tag?: TagInfo; items?: FeedItem[]; nextCursor?: string; error?: string }> {
+  try {
+    const slug = normalizeTag(rawTag);
+
+    if (!slug) {
+      return { success: false, error: 'invalid_tag' };
+    }
+
+    if (!Types.ObjectId.isValid(viewerUserId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+
+    const [tag, viewer, hiddenUserIds] = await Promise.all([
+      Tag.findOne({ slug }).lean(),
+      User.findById(viewerUserId).select('tribeId').lean(),
+      getHiddenAuthorIds(viewerUserId),
+    ]);
+
+    if (!tag) {
+      return { success: false, error: 'tag_not_found' };
+    }
+
+    const effectiveLimit = Math.min(Math.max(limit, 1), 50);
+
+    const visible: any[] = [{ visibility: 'public' }];
+    if (viewer?.tribeId) {
+      visible.push({ tribeId: viewer.tribeId });
+    }
+
+    const conditions: any[] = [{ $or: visible }];
+
+    if (hiddenUserIds.length > 0) {
+      conditions.push({ userId: { $nin: hiddenUserIds } });
+    }
+
+    if (cursor) {
+      const [timestamp, id] = Buffer.from(cursor, 'base64').toString('utf-8').split('|');
+      const lastCreatedAt = new Date(timestamp);
+
+      if (!Number.isNaN(lastCreatedAt.getTime()) && Types.ObjectId.isValid(id)) {
+        conditions.push({
+          $or: [
+            { createdAt: { $lt: lastCreatedAt } },
+            { createdAt: lastCreatedAt, _id: { $lt: new Types.ObjectId(id) } },
+          ],
+        });
+      }
+    }
+
+    const posts = await Post.find({ tags: slug, status: 'active', $and: conditions })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(effectiveLimit + 1)
+      .lean();
+
+    const hasMore = posts.length > effectiveLimit;
+    const page = hasMore ? posts.slice(0, effectiveLimit) : posts;
+
+    const items = await enrichPosts(page, new Types.ObjectId(viewerUserId), true);
+
+    let nextCursor: string | undefined;
+    if (hasMore) {
+      const last = page[page.length - 1];
+      nextCursor = Buffer.from(`${last.createdAt.toISOString()}|${last._id}`, 'utf-8').toString('base64');
+    }
+
+    return {
+      success: true,
+      tag: {
+        slug: tag.slug,
+        label: tag.label,
+        postCount: tag.postCount,
+        isStyle: tag.kinds.includes('style'),
+      },
+      items,
+      nextCursor,
+    };
+  } catch (error: any) {
+    logger.error('Error getting tag posts', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Trending tags: most distinct creators (then posts) within the window
+ *
+ * Counts public posts only, so tribe-only tags never surface globally,
+ * and skips banned and shadowbanned users.
+ */
+export async function getTrendingTags(
+  window: TrendingWindow
+): Promise<{ success: boolean; items?: TrendingTag[]; error?: string }> {
+  try {
+    if (!(window in TRENDING_WINDOWS)) {
+      return { success: false, error: 'invalid_window' };
+    }
+
+    const cacheKey = `${TRENDING_CACHE_PREFIX}${window}`;
+    const cached = await cacheService.get(cacheKey);
+
+    if (cached) {
+      return { success: true, items: JSON.parse(cached) };
+    }
+
+    const since = new Date(Date.now() - TRENDING_WINDOWS[window] * HOUR_MS);
+    const moderatedUserIds = await getModeratedUserIds();
+
+    const rows = await Post.aggregate([
+      {
+        $match: {
+          status: 'active',
+          visibility: 'public',
+          userId: { $nin: moderatedUserIds },
+          createdAt: { $gte: since },
+          'tags.0': { $exists: true },
+        },
+      },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', posts: { $sum: 1 }, creators: { $addToSet: '$userId' } } },
+      { $project: { posts: 1, creators: { $size: '$creators' } } },
+      { $sort: { creators: -1, posts: -1, _id: 1 } },
+      { $limit: securityConfig.tags.trendingLimit },
+    ]);
+
+    const tags = await Tag.find({ slug: { $in: rows.map((row) => row._id) } })
+      .select('slug label')
+      .lean();
+    const labels = new Map(tags.map((tag) => [tag.slug, tag.label]));
+
+    const items: TrendingTag[] = rows.map((row) => ({
+      slug: row._id,
+      label: labels.get(row._id) || row._id,
+      posts: row.posts,
+      creators: row.creators,
+    }));
+
+    await cacheService.set(cacheKey, JSON.stringify(items), securityConfig.tags.trendingCacheTtl);
+
+    return { success: true, items };
+  } catch (error: any) {
+    logger.error('Error getting trending tags', error);
+    return { success: false, error: error.message };
+  }
+}
@@ -1,20 +1,30 @@
-import { CloudTasksClient } from '@google-cloud/tasks';
-import { env } from '../config/env';
+import { Types } from 'mongoose';
+import { queueConfig } from '../config/queue';
+import {
+  getQueue,
+  registerJobHandler,
+  startQueueWorker,
+  stopQueueWorker,
+  JobContext,
+} from '../queue';
+import { DeadLetterJob, IDeadLetterJob } from '../models/DeadLetterJob';
+import { Generation } from '../models/Generation';
+import { executeGeneration } from './generationJob.service';
+import { buildAccountExport } from './account.service';
 import { logger } from '../utils/logger';
 
 /**
  * Tasks Service
- * 
- * Manages Cloud Tasks for async generation processing.
- * In development mode, processes tasks immediately (no Cloud Tasks needed).
+ *
+ * Dispatches async generation processing and account exports through
+ * the configured job queue (see config/queue.ts):
+ * - mongo: durable queue processed in-process (self-hosted)
+ * - cloud_tasks: Google Cloud Tasks → /worker/process-generation
+ * - http: fire-and-forget → /api/jobs/generation (Vercel)
  */
 
-const tasksClient = env.GCS_PROJECT_ID && env.NODE_ENV === 'production'
-  ? new CloudTasksClient()
-  : null;
-
-const QUEUE_NAME = 'generation-queue';
-const WORKER_URL = env.WORKER_URL || 'http://localhost:3001/worker/process-generation';
+export const GENERATION_QUEUE = 'generation';
+export const ACCOUNT_EXPORT_QUEUE = 'account-export';
 
 export interface GenerationTaskPayload {
   generationId: string;
@@ -28,53 +38,39 @@ export interface GenerationTaskPayload {
 
 /**
  * Enqueue generation task
+ *
+ * Deduped per generation version: enqueuing the same version twice
+ * while a job is in flight is a no-op (mongo backend).
  */
 export async function enqueueGenerationTask(
-  payload: GenerationTaskPayload
+  payload: GenerationTaskPayload,
+  options: { delayMs?: number } = {}
 ): Promise<void> {
-  // Development mode: process immediately
-  if (env.NODE_ENV === 'development' || !tasksClient) {
-    logger.info('Development mode: processing task immediately', payload);
-    
-    // Import here to avoid circular dependency
-    const { processGeneration } = require('./generation.service');
-    
-    // Process async (don't wait)
-    setImmediate(async () => {
-      try {
-        await processGeneration(payload);
-      } catch (error) {
-        logger.error('Failed to process generation immediately', error);
-      }
+  try {
+    await getQueue().enqueue(GENERATION_QUEUE, payload, {
+      dedupeKey: `${payload.generationId}:${payload.requestedVersionId}`,
+      delayMs: options.delayMs,
     });
-    
-    return;
+  } catch (error: any) {
+    logger.error('Failed to enqueue task', {
+      error: error.message,
+      payload,
+    });
+    throw error;
   }
-  
-  // Production mode: enqueue to Cloud Tasks
+}
+
+export interface AccountExportTaskPayload {
+  exportId: string;
+}
+
+/**
+ * Enqueue account export task (deduped per export)
+ */
+export async function enqueueAccountExportTask(payload: AccountExportTaskPayload): Promise<void> {
   try {
-    const project = env.GCS_PROJECT_ID!;
-    const location = env.GCP_REGION || 'us-central1';
-    const queue = QUEUE_NAME;
-    
-    const parent = tasksClient.queuePath(project, location, queue);
-    
-    const task = {
-      httpRequest: {
-        httpMethod: 'POST' as const,
-        url: WORKER_URL,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: Buffer.from(JSON.stringify(payload)).toString('base64'),
-      },
-    };
-    
-    const [response] = await tasksClient.createTask({ parent, task });
-    
-    logger.info('Task enqueued', {
-      taskName: response.name,
-      generationId: payload.generationId,
+    await getQueue().enqueue(ACCOUNT_EXPORT_QUEUE, payload, {
+      dedupeKey: payload.exportId,
     });
   } catch (error: any) {
     logger.error('Failed to enqueue task', {
@@ -86,15 +82,148 @@ export async function enqueueGenerationTask(
 }
 
 /**
- * Check if tasks are configured
+ * Account export job handler (mongo backend)
+ *
+ * buildAccountExport records failures on the export, so the job always
+ * completes.
+ */
+async function handleAccountExportJob(payload: AccountExportTaskPayload): Promise<void> {
+  await buildAccountExport(payload.exportId);
+}
+
+/**
+ * Generation job handler (mongo backend)
+ *
+ * executeGeneration records failures on the generation itself, so the
+ * job only needs to mirror the outcome:
+ * - finished (succeeded/failed/skipped) → complete the job
+ * - queued for retry → retry the job at generation.retryAfter
+ * - anything else → retry with backoff
+ */
+async function handleGenerationJob(
+  payload: GenerationTaskPayload,
+  context: JobContext
+): Promise<void> {
+  const result = await executeGeneration({
+    generationId: payload.generationId,
+    requestedVersionId: payload.requestedVersionId,
+    type: payload.type,
+    requestId: `${context.jobId}:${context.attempt}`,
+  });
+
+  if (result.success && result.reason !== 'retry_gate') {
+    return;
+  }
+
+  const generation = await Generation.findById(payload.generationId)
+    .select('status retryAfter')
+    .lean();
+
+  if (!generation || generation.status === 'succeeded' || generation.status === 'failed') {
+    return;
+  }
+
+  const error: any = new Error(result.error || 'Generation not ready to retry');
+
+  if (generation.status === 'queued' && generation.retryAfter) {
+    error.retryAt = generation.retryAfter;
+  }
+
+  throw error;
+}
+
+/**
+ * Start the in-process queue worker
+ *
+ * Only the mongo backend is processed in-process; the other backends
+ * deliver jobs over HTTP.
+ */
+export function startTaskWorker(): boolean {
+  if (queueConfig.backend !== 'mongo') {
+    return false;
+  }
+
+  registerJobHandler(GENERATION_QUEUE, handleGenerationJob);
+  registerJobHandler(ACCOUNT_EXPORT_QUEUE, handleAccountExportJob);
+  startQueueWorker();
+
+  return true;
+}
+
+/**
+ * Stop the in-process queue worker (graceful shutdown)
+ */
+export async function stopTaskWorker(): Promise<void> {
+  if (queueConfig.backend !== 'mongo') {
+    return;
+  }
+
+  await stopQueueWorker();
+}
+
+/**
+ * List dead-lettered jobs (newest first)
  */
-export function isTasksConfigured(): boolean {
-  return !!(tasksClient && env.GCS_PROJECT_ID);
+export async function listDeadLetterJobs(options: {
+  queue?: string;
+  limit?: number;
+  cursor?: string;
+}): Promise<{ jobs: IDeadLetterJob[]; nextCursor: string | null }> {
+  const limit = Math.min(options.limit || 20, 100);
+  const query: any = {};
+
+  if (options.queue) {
+    query.queue = options.queue;
+  }
+
+  if (options.cursor && Types.ObjectId.isValid(options.cursor)) {
+    query._id = { $lt: new Types.ObjectId(options.cursor) };
+  }
+
+  const jobs = await DeadLetterJob.find(query)
+    .sort({ _id: -1 })
+    .limit(limit + 1);
+
+  const hasMore = jobs.length > limit;
+  const page = hasMore ? jobs.slice(0, limit) : jobs;
+
+  return {
+    jobs: page,
+    nextCursor: hasMore ? page[page.length - 1]._id.toString() : null,
+  };
 }
 
+/**
+ * Requeue a dead-lettered job on the current backend
+ */
+export async function requeueDeadLetterJob(
+  deadLetterId: string
+): Promise<{ success: boolean; jobId?: string | null; error?: string }> {
+  if (!Types.ObjectId.isValid(deadLetterId)) {
+    return { success: false, error: 'not_found' };
+  }
+
+  const deadLetter = await DeadLetterJob.findById(deadLetterId);
 
+  if (!deadLetter) {
+    return { success: false, error: 'not_found' };
+  }
 
+  if (deadLetter.requeuedAt) {
+    return { success: false, error: 'already_requeued' };
+  }
 
+  const jobId = await getQueue().enqueue(deadLetter.queue, deadLetter.payload);
 
+  deadLetter.requeuedAt = new Date();
+  deadLetter.requeuedJobId = jobId;
+  await deadLetter.save();
 
+  logger.info('Dead-letter job requeued', {
+    deadLetterId,
+    queue: deadLetter.queue,
+    jobId,
+  });
 
+  return { success: true, jobId };
+}
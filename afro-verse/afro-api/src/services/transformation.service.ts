@@ -16,11 +16,14 @@
  */
 
 import { Types } from 'mongoose';
+import sharp from 'sharp';
 import { Generation } from '../models/Generation';
-import { BUCKETS, PATHS, URLS, LIFECYCLE } from '../config/buckets';
+import { BUCKETS, PATHS, LIFECYCLE } from '../config/buckets';
 import * as StorageService from './storage.service';
-import { generateImage } from './gemini.service';
+import { generate } from '../ai/generationPipeline';
 import { generateThumbnail, validateImage, ImageValidationResult } from '../utils/image';
+import { embedManifest, ManifestInput } from './provenance.service';
+import { detectManifestFormat } from '../utils/manifestContainer';
 import { logger } from '../utils/logger';
 
 export interface TransformationCreateInput {
@@ -71,7 +74,7 @@ export async function createTransformation(
     // Step 1: PREPARING - Generate AI image
     logger.info('[PREPARING] Starting AI generation');
     
-    const rawOutput = await generateImage({
+    const rawOutput = await generate({
       prompt: input.prompt,
       images: input.referenceImages || [],
       aspectRatio: input.aspectRatio || '1:1',
@@ -79,6 +82,8 @@ export async function createTransformation(
     });
     
     logger.info('[PREPARING] AI generation complete', {
+      provider: rawOutput.provider,
+      model: rawOutput.model,
       size: rawOutput.imageData.length,
       mimeType: rawOutput.mimeType,
     });
@@ -127,15 +132,33 @@ export async function createTransformation(
     }
     
     // Strip EXIF data (already done by validateImage, but ensure)
-    const cleanedImage = validation.cleanedBuffer || rawOutput.imageData;
+    const strippedImage = validation.cleanedBuffer || rawOutput.imageData;
+    
+    // Manifests live in WebP/JPEG containers (final upload is served as WebP)
+    const publishableImage = detectManifestFormat(strippedImage)
+      ? strippedImage
+      : await sharp(strippedImage).webp({ quality: 95 }).toBuffer();
+    
+    // Provenance manifest: generator, AI-generated assertion, generation id
+    const manifestInput: ManifestInput = {
+      generationId: transformationId,
+      provider: rawOutput.provider,
+      model: rawOutput.model,
+      createdAt: new Date(startTime),
+    };
+    
+    const cleanedImage = embedManifest(publishableImage, manifestInput);
     
     // Step 4: FINALIZING - Generate derivatives
     logger.info('[FINALIZING] Generating derivatives');
     
-    const thumbnail = await generateThumbnail(cleanedImage, {
-      width: 512,
-      quality: 85,
-    });
+    const thumbnail = embedManifest(
+      await generateThumbnail(cleanedImage, {
+        width: 512,
+        quality: 85,
+      }),
+      manifestInput
+    );
     
     // Step 5: COMPLETE - Place in final bucket
     logger.info('[COMPLETE] Placing in final buckets');
@@ -356,8 +379,8 @@ export async function getTransformationUrls(
       // Return public URLs
       return {
         success: true,
-        imageUrl: URLS.public(BUCKETS.TRANSFORMATIONS, latestVersion.imagePath),
-        thumbnailUrl: URLS.public(BUCKETS.DERIVATIVES, latestVersion.thumbPath),
+        imageUrl: StorageService.getPublicUrl(BUCKETS.TRANSFORMATIONS, latestVersion.imagePath),
+        thumbnailUrl: StorageService.getPublicUrl(BUCKETS.DERIVATIVES, latestVersion.thumbPath),
       };
     } else {
       // Generate signed URLs for private access
@@ -549,7 +572,7 @@ export async function publishTransformation(
     latestVersion.imagePath = newPath;
     await generation.save();
     
-    const imageUrl = URLS.public(BUCKETS.TRANSFORMATIONS, newPath);
+    const imageUrl = StorageService.getPublicUrl(BUCKETS.TRANSFORMATIONS, newPath);
     
     logger.info('Transformation published', {
       transformationId,
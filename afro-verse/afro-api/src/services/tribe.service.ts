@@ -2,15 +2,22 @@ import mongoose, { Types, startSession } from 'mongoose';
 import { Tribe, ITribe } from '../models/Tribe';
 import { User } from '../models/User';
 import { Post } from '../models/Post';
+import { TribeMembershipHistory } from '../models/TribeMembershipHistory';
 import { logger } from '../utils/logger';
+import { changeTribeWithCounters } from '../utils/transactions';
 import { generateSignedReadUrl } from './media.service';
+import { getTribeChallengeSummary, ChallengeSummary } from './challenge.service';
+import { reconcileTribeSnapshots } from './tribeStats.service';
+import { getHiddenAuthorIds, getModeratedUserIds } from './visibility.service';
+import { recordAuditEvent } from './audit.service';
 import { env } from '../config/env';
+import { securityConfig } from '../config/security';
 
 /**
  * Tribe Service
  * 
  * Handles tribe operations with proper data integrity:
- * - Atomic join operations with counter updates
+ * - Atomic join/switch operations with counter updates
  * - Visibility enforcement
  * - Member/post listings with pagination
  * - Counter reconciliation
@@ -32,7 +39,10 @@ export interface TribeListItem {
 export interface TribeDetail extends TribeListItem {
   viewerState: {
     isMember: boolean;
+    canSwitch: boolean; // Has another tribe and is past the switch cooldown
+    switchAvailableAt: string | null; // When the cooldown ends, if still running
   };
+  challenge: ChallengeSummary | null; // Active challenge or recent results
 }
 
 export interface JoinTribeResult {
@@ -45,6 +55,44 @@ export interface JoinTribeResult {
   };
 }
 
+export interface SwitchTribeResult extends JoinTribeResult {
+  fromTribeId?: string;
+  postsMoved?: number;
+  availableAt?: string; // switch_cooldown only
+}
+
+/**
+ * When the user may next switch tribes (null if already allowed)
+ */
+function getSwitchAvailableAt(tribeJoinedAt?: Date | null): Date | null {
+  if (!tribeJoinedAt) {
+    return null;
+  }
+  
+  const availableAt = new Date(
+    tribeJoinedAt.getTime() + securityConfig.tribes.switchCooldownDays * 24 * 60 * 60 * 1000
+  );
+  
+  return availableAt > new Date() ? availableAt : null;
+}
+
+/**
+ * Record an initial join in the membership history (non-blocking)
+ */
+function recordJoinHistory(userId: Types.ObjectId, tribeId: Types.ObjectId): void {
+  TribeMembershipHistory.create({
+    userId,
+    action: 'join',
+    fromTribeId: null,
+    toTribeId: tribeId,
+  }).catch((error: any) => {
+    logger.error('Failed to record tribe join history', {
+      userId: userId.toString(),
+      error: error.message,
+    });
+  });
+}
+
 /**
  * Get all tribes (for directory/onboarding)
  */
@@ -90,9 +138,16 @@ export async function getTribeBySlug(
     
     // Check if viewer is member
     let isMember = false;
+    let canSwitch = false;
+    let switchAvailableAt: Date | null = null;
     if (viewerUserId) {
-      const user = await User.findById(viewerUserId).select('tribeId').lean();
+      const user = await User.findById(viewerUserId).select('tribeId tribeJoinedAt').lean();
       isMember = user?.tribeId?.toString() === tribe._id.toString();
+      
+      if (user?.tribeId && !isMember) {
+        switchAvailableAt = getSwitchAvailableAt(user.tribeJoinedAt);
+        canSwitch = !switchAvailableAt;
+      }
     }
     
     return {
@@ -108,7 +163,10 @@ export async function getTribeBySlug(
       },
       viewerState: {
         isMember,
+        canSwitch,
+        switchAvailableAt: switchAvailableAt ? switchAvailableAt.toISOString() : null,
       },
+      challenge: await getTribeChallengeSummary(tribe),
     };
   } catch (error: any) {
     logger.error('Error getting tribe by slug', error);
@@ -120,9 +178,8 @@ export async function getTribeBySlug(
  * Join tribe (atomic with counter update)
  * 
  * Rules:
- * - User can only join once
+ * - User can only join once (moving later goes through switchTribe)
  * - Transaction ensures counter integrity
- * - No switching tribes in MVP
  */
 export async function joinTribe(
   userId: string,
@@ -233,6 +290,8 @@ export async function joinTribe(
         }
       }
       
+      recordJoinHistory(userObjectId, tribe._id);
+      
       logger.info('User joined tribe', {
         userId,
         tribeId: tribe._id.toString(),
@@ -281,6 +340,8 @@ export async function joinTribe(
             { $inc: { 'stats.members': 1 } }
           );
           
+          recordJoinHistory(userObjectId, tribe._id);
+          
           logger.info('User joined tribe (retry without transaction)', {
             userId,
             tribeId: tribe._id.toString(),
@@ -330,12 +391,117 @@ export async function joinTribe(
   }
 }
 
+/**
+ * Switch tribe
+ * 
+ * Rules:
+ * - User must already be in a tribe (first join goes through joinTribe)
+ * - One switch per cooldown window, counted from the last join/switch
+ * - movePosts re-tags all of the user's posts to the new tribe;
+ *   otherwise they stay in the old tribe
+ * - Member/post counters and the history entry move in one transaction
+ * 
+ * Feeds read the user's tribe per request, so partitioning follows
+ * the switch immediately.
+ */
+export async function switchTribe(
+  userId: string,
+  slug: string,
+  movePosts: boolean
+): Promise<SwitchTribeResult> {
+  try {
+    if (!Types.ObjectId.isValid(userId)) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+    
+    const userObjectId = new Types.ObjectId(userId);
+    
+    const user = await User.findById(userObjectId).select('tribeId tribeJoinedAt').lean();
+    
+    if (!user) {
+      return { success: false, error: 'user_not_found' };
+    }
+    
+    if (!user.tribeId) {
+      return { success: false, error: 'tribe_not_selected' };
+    }
+    
+    const tribe = await Tribe.findOne({ slug });
+    
+    if (!tribe) {
+      return { success: false, error: 'tribe_not_found' };
+    }
+    
+    if (user.tribeId.toString() === tribe._id.toString()) {
+      return { success: false, error: 'already_member' };
+    }
+    
+    const availableAt = getSwitchAvailableAt(user.tribeJoinedAt);
+    
+    if (availableAt) {
+      return {
+        success: false,
+        error: 'switch_cooldown',
+        availableAt: availableAt.toISOString(),
+      };
+    }
+    
+    let postsMoved: number;
+    try {
+      const result = await changeTribeWithCounters(userObjectId, user.tribeId, tribe._id, {
+        movePosts,
+      });
+      postsMoved = result.postsMoved;
+    } catch (error: any) {
+      if (error.message === 'switch_conflict') {
+        return { success: false, error: 'switch_conflict' };
+      }
+      throw error;
+    }
+    
+    await recordAuditEvent({
+      category: 'tribe',
+      action: 'tribe.switched',
+      actorId: userId,
+      target: { type: 'tribe', id: tribe._id },
+      metadata: { fromTribeId: user.tribeId, movePosts, postsMoved },
+    });
+    
+    logger.info('User switched tribe', {
+      userId,
+      fromTribeId: user.tribeId.toString(),
+      tribeId: tribe._id.toString(),
+      movePosts,
+      postsMoved,
+    });
+    
+    return {
+      success: true,
+      tribe: {
+        id: tribe._id.toString(),
+        slug: tribe.slug,
+        name: tribe.name,
+      },
+      fromTribeId: user.tribeId.toString(),
+      postsMoved,
+    };
+  } catch (error: any) {
+    logger.error('Error switching tribe', error);
+    return {
+      success: false,
+      error: error.message || 'internal_error',
+    };
+  }
+}
+
 /**
  * Get tribe posts (grid view)
  * 
  * Visibility rules:
  * - Members see: tribe + public posts
  * - Non-members see: public posts only
+ * - Moderated, blocked and muted authors are skipped (a shadowbanned
+ *   viewer still sees their own posts)
  */
 export async function getTribePosts(
   slug: string,
@@ -388,6 +554,11 @@ export async function getTribePosts(
       visibility: { $in: allowedVisibilities },
     };
     
+    const hiddenUserIds = await getHiddenAuthorIds(viewerUserId);
+    if (hiddenUserIds.length > 0) {
+      query.userId = { $nin: hiddenUserIds };
+    }
+    
     if (lastCreatedAt && lastId) {
       query.$or = [
         { createdAt: { $lt: lastCreatedAt } },
@@ -436,11 +607,15 @@ export async function getTribePosts(
 
 /**
  * Get tribe members
+ * 
+ * Skips users the viewer has blocked, been blocked by or muted, and
+ * banned or shadowbanned users.
  */
 export async function getTribeMembers(
   slug: string,
   limit: number = 20,
-  cursor?: string
+  cursor?: string,
+  viewerUserId?: string
 ): Promise<{
   items: Array<{
     id: string;
@@ -474,6 +649,11 @@ export async function getTribeMembers(
       tribeId: tribe._id,
     };
     
+    const hiddenUserIds = await getHiddenAuthorIds(viewerUserId);
+    if (hiddenUserIds.length > 0) {
+      query._id = { $nin: hiddenUserIds };
+    }
+    
     if (lastJoinedAt && lastId) {
       query.$or = [
         { tribeJoinedAt: { $lt: lastJoinedAt } },
@@ -532,31 +712,39 @@ export async function getTribeMembers(
  * Reconciles:
  * - stats.members with actual user count
  * - stats.posts with actual post count
+ * - Recent daily snapshots with actual activity
+ * 
+ * Banned and shadowbanned users and their posts are not counted.
  */
 export async function repairTribeCounters(): Promise<{
   repaired: number;
   errors: number;
+  snapshots: { repaired: number; created: number; errors: number };
 }> {
   let repaired = 0;
   let errors = 0;
+  let snapshots = { repaired: 0, created: 0, errors: 0 };
   
   try {
     logger.info('Starting tribe counter repair job');
     
     // Get all tribes
     const tribes = await Tribe.find({}).lean();
+    const moderatedUserIds = await getModeratedUserIds();
     
     for (const tribe of tribes) {
       try {
         // Count actual members
         const actualMembers = await User.countDocuments({
           tribeId: tribe._id,
+          _id: { $nin: moderatedUserIds },
         });
         
         // Count actual posts
         const actualPosts = await Post.countDocuments({
           tribeId: tribe._id,
           status: 'active',
+          userId: { $nin: moderatedUserIds },
         });
         
         // Check for drift
@@ -594,12 +782,65 @@ export async function repairTribeCounters(): Promise<{
       }
     }
     
-    logger.info('Tribe counter repair completed', { repaired, errors });
+    snapshots = await reconcileTribeSnapshots();
     
-    return { repaired, errors };
+    logger.info('Tribe counter repair completed', { repaired, errors, snapshots });
+    
+    return { repaired, errors, snapshots };
   } catch (error: any) {
     logger.error('Tribe counter repair failed', error);
-    return { repaired, errors };
+    return { repaired, errors, snapshots };
+  }
+}
+
+/**
+ * Replace a tribe's leads (admin)
+ * 
+ * Leads must be members of the tribe. Recorded in the audit log with
+ * before/after.
+ */
+export async function setTribeLeads(
+  slug: string,
+  userIds: string[],
+  moderatorId?: string
+): Promise<{ success: boolean; leadIds?: string[]; error?: string }> {
+  try {
+    if (!userIds.every((id) => Types.ObjectId.isValid(id))) {
+      return { success: false, error: 'invalid_user_id' };
+    }
+    
+    const tribe = await Tribe.findOne({ slug }).select('_id leadIds').lean();
+    
+    if (!tribe) {
+      return { success: false, error: 'tribe_not_found' };
+    }
+    
+    const unique = [...new Set(userIds)].map((id) => new Types.ObjectId(id));
+    const members = await User.countDocuments({ _id: { $in: unique }, tribeId: tribe._id });
+    
+    if (members !== unique.length) {
+      return { success: false, error: 'lead_not_member' };
+    }
+    
+    await Tribe.updateOne({ _id: tribe._id }, { $set: { leadIds: unique } });
+    
+    await recordAuditEvent({
+      category: 'admin',
+      action: 'tribe.leads_changed',
+      actorId: moderatorId || null,
+      target: { type: 'tribe', id: tribe._id },
+      metadata: { before: tribe.leadIds || [], after: unique },
+    });
+    
+    logger.info('Tribe leads updated', {
+      tribeId: tribe._id.toString(),
+      leads: unique.length,
+    });
+    
+    return { success: true, leadIds: unique.map((id) => id.toString()) };
+  } catch (error: any) {
+    logger.error('Error setting tribe leads', error);
+    return { success: false, error: error.message };
   }
 }
 
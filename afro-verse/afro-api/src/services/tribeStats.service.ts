@@ -0,0 +1,599 @@
+import { Types } from 'mongoose';
+import { Tribe } from '../models/Tribe';
+import { User } from '../models/User';
+import { Post } from '../models/Post';
+import { Respect } from '../models/Respect';
+import { TribeSnapshot, ITribeSnapshot } from '../models/TribeSnapshot';
+import { getModeratedUserIds } from './visibility.service';
+import { cacheService } from '../config/redis';
+import { securityConfig } from '../config/security';
+import { logger } from '../utils/logger';
+
+/**
+ * Tribe Stats Service
+ *
+ * Daily tribe snapshots and what they power:
+ * - Capture: one snapshot per tribe for each completed UTC day
+ * - Reconcile: recompute recent snapshots (run by repairTribeCounters)
+ * - Tribe-vs-tribe leaderboard (weekly/monthly windows)
+ * - Per-tribe time series
+ *
+ * Only completed days are snapshotted, so today's activity shows up
+ * after midnight UTC.
+ */
+
+export type LeaderboardWindow = 'week' | 'month';
+export type LeaderboardMetric = 'respects' | 'posts' | 'creators' | 'growth';
+
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, number> = {
+  week: 7,
+  month: 30,
+};
+
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['respects', 'posts', 'creators', 'growth'];
+
+export interface TribeLeaderboardItem {
+  rank: number;
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+    accentColor: string;
+    iconUrl: string;
+  };
+  members: number;
+  memberGrowth: number; // Over the window
+  newPosts: number;
+  respects: number;
+  activeCreators: number; // Daily average over the window
+  topStyle: string | null;
+}
+
+export interface TribeStatsPoint {
+  day: string; // YYYY-MM-DD (UTC)
+  members: number;
+  posts: number;
+  newPosts: number;
+  respects: number;
+  activeCreators: number;
+}
+
+export interface TribeStats {
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+    accentColor: string;
+  };
+  days: number;
+  series: TribeStatsPoint[]; // Oldest first; days without a snapshot are omitted
+  totals: {
+    newPosts: number;
+    respects: number;
+    memberGrowth: number;
+  };
+  topStyles: Array<{ styleTag: string; posts: number }>;
+}
+
+interface DayActivity {
+  posts: number;
+  newPosts: number;
+  respects: number;
+  activeCreators: number;
+  topStyles: Array<{ styleTag: string; posts: number }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LEADERBOARD_CACHE_PREFIX = 'tribe_leaderboard:';
+
+/**
+ * UTC midnight of the day containing `date`
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Most recent completed UTC day
+ */
+function lastCompleteDay(now: Date = new Date()): Date {
+  return new Date(startOfUtcDay(now).getTime() - DAY_MS);
+}
+
+function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+function emptyActivity(): DayActivity {
+  return { posts: 0, newPosts: 0, respects: 0, activeCreators: 0, topStyles: [] };
+}
+
+/**
+ * Activity for every tribe on one UTC day (keyed by tribe id)
+ *
+ * Counts active posts by users in good standing only, so removed posts
+ * and shadowbanned users drop out when a day is recomputed.
+ */
+async function computeDayActivity(day: Date): Promise<Map<string, DayActivity>> {
+  const dayEnd = new Date(day.getTime() + DAY_MS);
+  const activity = new Map<string, DayActivity>();
+  const entry = (tribeId: Types.ObjectId): DayActivity => {
+    const key = tribeId.toString();
+    if (!activity.has(key)) {
+      activity.set(key, emptyActivity());
+    }
+    return activity.get(key)!;
+  };
+  const moderatedUserIds = await getModeratedUserIds();
+
+  const [totals, created, styles, respects] = await Promise.all([
+    // Active posts at the end of the day
+    Post.aggregate([
+      {
+        $match: {
+          status: 'active',
+          userId: { $nin: moderatedUserIds },
+          createdAt: { $lt: dayEnd },
+        },
+      },
+      { $group: { _id: '$tribeId', posts: { $sum: 1 } } },
+    ]),
+    // Posts and creators within the day
+    Post.aggregate([
+      {
+        $match: {
+          status: 'active',
+          userId: { $nin: moderatedUserIds },
+          createdAt: { $gte: day, $lt: dayEnd },
+        },
+      },
+      { $group: { _id: '$tribeId', newPosts: { $sum: 1 }, creators: { $addToSet: '$userId' } } },
+      { $project: { newPosts: 1, activeCreators: { $size: '$creators' } } },
+    ]),
+    // Styles used within the day
+    Post.aggregate([
+      {
+        $match: {
+          status: 'active',
+          userId: { $nin: moderatedUserIds },
+          createdAt: { $gte: day, $lt: dayEnd },
+          styleTag: { $nin: [null, ''] },
+        },
+      },
+      { $group: { _id: { tribeId: '$tribeId', styleTag: '$styleTag' }, posts: { $sum: 1 } } },
+      { $sort: { posts: -1, '_id.styleTag': 1 } },
+    ]),
+    // Respects received within the day
+    Respect.aggregate([
+      { $match: { createdAt: { $gte: day, $lt: dayEnd } } },
+      { $lookup: { from: 'posts', localField: 'postId', foreignField: '_id', as: 'post' } },
+      { $unwind: '$post' },
+      { $match: { 'post.status': 'active', 'post.userId': { $nin: moderatedUserIds } } },
+      { $group: { _id: '$post.tribeId', respects: { $sum: 1 } } },
+    ]),
+  ]);
+
+  for (const row of totals) {
+    entry(row._id).posts = row.posts;
+  }
+
+  for (const row of created) {
+    const tribeActivity = entry(row._id);
+    tribeActivity.newPosts = row.newPosts;
+    tribeActivity.activeCreators = row.activeCreators;
+  }
+
+  for (const row of styles) {
+    const tribeActivity = entry(row._id.tribeId);
+    if (tribeActivity.topStyles.length < securityConfig.tribeStats.topStylesPerDay) {
+      tribeActivity.topStyles.push({ styleTag: row._id.styleTag, posts: row.posts });
+    }
+  }
+
+  for (const row of respects) {
+    entry(row._id).respects = row.respects;
+  }
+
+  return activity;
+}
+
+/**
+ * Current member counts, excluding banned and shadowbanned users
+ * (keyed by tribe id)
+ */
+async function countMembers(): Promise<Map<string, number>> {
+  const moderatedUserIds = await getModeratedUserIds();
+
+  const rows = await User.aggregate([
+    { $match: { tribeId: { $ne: null }, _id: { $nin: moderatedUserIds } } },
+    { $group: { _id: '$tribeId', members: { $sum: 1 } } },
+  ]);
+
+  return new Map(rows.map((row) => [row._id.toString(), row.members]));
+}
+
+/**
+ * Capture snapshots for a completed day (default: yesterday, UTC)
+ *
+ * Idempotent: tribes that already have a snapshot for the day are
+ * skipped, so the capture can run as often as the scheduler likes.
+ */
+export async function captureTribeSnapshots(
+  day: Date = lastCompleteDay()
+): Promise<{ captured: number; errors: number }> {
+  let captured = 0;
+  let errors = 0;
+
+  try {
+    const snapshotDay = startOfUtcDay(day);
+    const dayEnd = new Date(snapshotDay.getTime() + DAY_MS);
+
+    const tribes = await Tribe.find({ createdAt: { $lt: dayEnd } }).select('_id').lean();
+    const existing = await TribeSnapshot.find({ day: snapshotDay }).select('tribeId').lean();
+    const done = new Set(existing.map((snapshot) => snapshot.tribeId.toString()));
+    const pending = tribes.filter((tribe) => !done.has(tribe._id.toString()));
+
+    if (pending.length === 0) {
+      return { captured, errors };
+    }
+
+    const [activity, members] = await Promise.all([computeDayActivity(snapshotDay), countMembers()]);
+
+    for (const tribe of pending) {
+      const key = tribe._id.toString();
+
+      try {
+        await TribeSnapshot.create({
+          tribeId: tribe._id,
+          day: snapshotDay,
+          members: members.get(key) || 0,
+          ...(activity.get(key) || emptyActivity()),
+        });
+        captured++;
+      } catch (error: any) {
+        // Lost a race with another capture
+        if (error.code === 11000) {
+          continue;
+        }
+        logger.error('Error capturing tribe snapshot', { tribeId: key, error });
+        errors++;
+      }
+    }
+
+    logger.info('Tribe snapshots captured', { day: formatDay(snapshotDay), captured, errors });
+
+    return { captured, errors };
+  } catch (error: any) {
+    logger.error('Tribe snapshot capture failed', error);
+    return { captured, errors: errors + 1 };
+  }
+}
+
+/**
+ * Reconcile recent snapshots with live data
+ *
+ * Recomputes posts/activity for the last reconcileDays completed days
+ * (removed posts, withdrawn respects) and backfills missing days.
+ * Members can't be recomputed for past days: existing snapshots keep
+ * theirs, and backfilled days carry the previous day's count forward
+ * (the live count when there is none).
+ */
+export async function reconcileTribeSnapshots(): Promise<{
+  repaired: number;
+  created: number;
+  errors: number;
+}> {
+  let repaired = 0;
+  let created = 0;
+  let errors = 0;
+
+  try {
+    const lastDay = lastCompleteDay();
+    const firstDay = new Date(lastDay.getTime() - (securityConfig.tribeStats.reconcileDays - 1) * DAY_MS);
+
+    const [tribes, liveMembers, snapshots, previous] = await Promise.all([
+      Tribe.find({}).select('_id createdAt').lean(),
+      countMembers(),
+      TribeSnapshot.find({ day: { $gte: firstDay, $lte: lastDay } }).lean(),
+      TribeSnapshot.aggregate([
+        { $match: { day: { $lt: firstDay } } },
+        { $sort: { day: -1 } },
+        { $group: { _id: '$tribeId', members: { $first: '$members' } } },
+      ]),
+    ]);
+
+    const stored = new Map(
+      snapshots.map((snapshot) => [`${snapshot.tribeId}|${snapshot.day.getTime()}`, snapshot])
+    );
+    const carriedMembers = new Map<string, number>(
+      previous.map((row) => [row._id.toString(), row.members])
+    );
+
+    for (let time = firstDay.getTime(); time <= lastDay.getTime(); time += DAY_MS) {
+      const day = new Date(time);
+      const activity = await computeDayActivity(day);
+
+      for (const tribe of tribes) {
+        const key = tribe._id.toString();
+
+        // Tribe didn't exist yet
+        if (tribe.createdAt.getTime() >= time + DAY_MS) {
+          continue;
+        }
+
+        const fresh = activity.get(key) || emptyActivity();
+        const snapshot = stored.get(`${key}|${time}`);
+
+        try {
+          if (!snapshot) {
+            const members = carriedMembers.get(key) ?? liveMembers.get(key) ?? 0;
+            await TribeSnapshot.updateOne(
+              { tribeId: tribe._id, day },
+              { $setOnInsert: { members, ...fresh } },
+              { upsert: true }
+            );
+            carriedMembers.set(key, members);
+            created++;
+            continue;
+          }
+
+          carriedMembers.set(key, snapshot.members);
+
+          if (!hasActivityDrift(snapshot, fresh)) {
+            continue;
+          }
+
+          logger.warn('Tribe snapshot drift detected', {
+            tribeId: key,
+            day: formatDay(day),
+            stored: {
+              posts: snapshot.posts,
+              newPosts: snapshot.newPosts,
+              respects: snapshot.respects,
+              activeCreators: snapshot.activeCreators,
+            },
+            actual: {
+              posts: fresh.posts,
+              newPosts: fresh.newPosts,
+              respects: fresh.respects,
+              activeCreators: fresh.activeCreators,
+            },
+          });
+
+          await TribeSnapshot.updateOne({ _id: snapshot._id }, { $set: fresh });
+          repaired++;
+        } catch (error: any) {
+          logger.error('Error reconciling tribe snapshot', { tribeId: key, day: formatDay(day), error });
+          errors++;
+        }
+      }
+    }
+
+    if (repaired > 0 || created > 0) {
+      await clearLeaderboardCache();
+    }
+
+    logger.info('Tribe snapshot reconcile completed', { repaired, created, errors });
+
+    return { repaired, created, errors };
+  } catch (error: any) {
+    logger.error('Tribe snapshot reconcile failed', error);
+    return { repaired, created, errors: errors + 1 };
+  }
+}
+
+function hasActivityDrift(snapshot: Pick<ITribeSnapshot, keyof DayActivity>, fresh: DayActivity): boolean {
+  return (
+    snapshot.posts !== fresh.posts ||
+    snapshot.newPosts !== fresh.newPosts ||
+    snapshot.respects !== fresh.respects ||
+    snapshot.activeCreators !== fresh.activeCreators ||
+    JSON.stringify(snapshot.topStyles.map(({ styleTag, posts }) => ({ styleTag, posts }))) !==
+      JSON.stringify(fresh.topStyles)
+  );
+}
+
+async function clearLeaderboardCache(): Promise<void> {
+  await Promise.all(
+    (Object.keys(LEADERBOARD_WINDOWS) as LeaderboardWindow[]).flatMap((window) =>
+      LEADERBOARD_METRICS.map((metric) => cacheService.del(`${LEADERBOARD_CACHE_PREFIX}${window}:${metric}`))
+    )
+  );
+}
+
+/**
+ * Tribe-vs-tribe leaderboard over the last week/month of snapshots
+ */
+export async function getTribeLeaderboard(
+  window: LeaderboardWindow,
+  metric: LeaderboardMetric
+): Promise<{ success: boolean; items?: TribeLeaderboardItem[]; windowStart?: string; windowEnd?: string; error?: string }> {
+  try {
+    if (!(window in LEADERBOARD_WINDOWS)) {
+      return { success: false, error: 'invalid_window' };
+    }
+
+    if (!LEADERBOARD_METRICS.includes(metric)) {
+      return { success: false, error: 'invalid_metric' };
+    }
+
+    const windowEnd = lastCompleteDay();
+    const windowStart = new Date(windowEnd.getTime() - (LEADERBOARD_WINDOWS[window] - 1) * DAY_MS);
+
+    const cacheKey = `${LEADERBOARD_CACHE_PREFIX}${window}:${metric}`;
+    const cached = await cacheService.get(cacheKey);
+
+    if (cached) {
+      return { success: true, ...JSON.parse(cached) };
+    }
+
+    const [tribes, rows, baselines] = await Promise.all([
+      Tribe.find({}).select('slug name accentColor stats').lean(),
+      TribeSnapshot.aggregate([
+        { $match: { day: { $gte: windowStart, $lte: windowEnd } } },
+        { $sort: { day: 1 } },
+        {
+          $group: {
+            _id: '$tribeId',
+            firstMembers: { $first: '$members' },
+            lastMembers: { $last: '$members' },
+            newPosts: { $sum: '$newPosts' },
+            respects: { $sum: '$respects' },
+            creatorDays: { $sum: '$activeCreators' },
+            days: { $sum: 1 },
+            styles: { $push: '$topStyles' },
+          },
+        },
+      ]),
+      // Members just before the window, for growth
+      TribeSnapshot.aggregate([
+        { $match: { day: { $lt: windowStart } } },
+        { $sort: { day: -1 } },
+        { $group: { _id: '$tribeId', members: { $first: '$members' } } },
+      ]),
+    ]);
+
+    const byTribe = new Map(rows.map((row) => [row._id.toString(), row]));
+    const baseline = new Map<string, number>(baselines.map((row) => [row._id.toString(), row.members]));
+
+    const items: TribeLeaderboardItem[] = tribes.map((tribe) => {
+      const key = tribe._id.toString();
+      const row = byTribe.get(key);
+      const styleCounts = new Map<string, number>();
+
+      for (const day of row?.styles || []) {
+        for (const style of day) {
+          styleCounts.set(style.styleTag, (styleCounts.get(style.styleTag) || 0) + style.posts);
+        }
+      }
+
+      const topStyle = [...styleCounts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0];
+      const startMembers = baseline.get(key) ?? row?.firstMembers ?? 0;
+
+      return {
+        rank: 0,
+        tribe: {
+          id: key,
+          slug: tribe.slug,
+          name: tribe.name,
+          accentColor: tribe.accentColor,
+          iconUrl: `/icons/tribe-icons/${tribe.slug}.svg`,
+        },
+        members: row ? row.lastMembers : tribe.stats?.members || 0,
+        memberGrowth: row ? row.lastMembers - startMembers : 0,
+        newPosts: row?.newPosts || 0,
+        respects: row?.respects || 0,
+        activeCreators: row ? Math.round((row.creatorDays / row.days) * 10) / 10 : 0,
+        topStyle: topStyle ? topStyle[0] : null,
+      };
+    });
+
+    const metricValue = (item: TribeLeaderboardItem): number => {
+      switch (metric) {
+        case 'posts':
+          return item.newPosts;
+        case 'creators':
+          return item.activeCreators;
+        case 'growth':
+          return item.memberGrowth;
+        default:
+          return item.respects;
+      }
+    };
+
+    items.sort((a, b) => metricValue(b) - metricValue(a) || a.tribe.name.localeCompare(b.tribe.name));
+    items.forEach((item, index) => {
+      item.rank = index + 1;
+    });
+
+    const payload = {
+      items,
+      windowStart: formatDay(windowStart),
+      windowEnd: formatDay(windowEnd),
+    };
+
+    await cacheService.set(cacheKey, JSON.stringify(payload), securityConfig.tribeStats.leaderboardCacheTtl);
+
+    return { success: true, ...payload };
+  } catch (error: any) {
+    logger.error('Error getting tribe leaderboard', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Daily time series for one tribe
+ */
+export async function getTribeStats(
+  slug: string,
+  days: number = securityConfig.tribeStats.defaultSeriesDays
+): Promise<{ success: boolean; stats?: TribeStats; error?: string }> {
+  try {
+    const tribe = await Tribe.findOne({ slug }).select('slug name accentColor').lean();
+
+    if (!tribe) {
+      return { success: false, error: 'tribe_not_found' };
+    }
+
+    const span = Math.min(Math.max(days, 1), securityConfig.tribeStats.maxSeriesDays);
+    const lastDay = lastCompleteDay();
+    const firstDay = new Date(lastDay.getTime() - (span - 1) * DAY_MS);
+
+    const [snapshots, before] = await Promise.all([
+      TribeSnapshot.find({ tribeId: tribe._id, day: { $gte: firstDay, $lte: lastDay } })
+        .sort({ day: 1 })
+        .lean(),
+      TribeSnapshot.findOne({ tribeId: tribe._id, day: { $lt: firstDay } })
+        .sort({ day: -1 })
+        .select('members')
+        .lean(),
+    ]);
+
+    const styleCounts = new Map<string, number>();
+    for (const snapshot of snapshots) {
+      for (const style of snapshot.topStyles) {
+        styleCounts.set(style.styleTag, (styleCounts.get(style.styleTag) || 0) + style.posts);
+      }
+    }
+
+    const topStyles = [...styleCounts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, securityConfig.tribeStats.topStylesPerDay)
+      .map(([styleTag, posts]) => ({ styleTag, posts }));
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const startMembers = before?.members ?? first?.members ?? 0;
+
+    return {
+      success: true,
+      stats: {
+        tribe: {
+          id: tribe._id.toString(),
+          slug: tribe.slug,
+          name: tribe.name,
+          accentColor: tribe.accentColor,
+        },
+        days: span,
+        series: snapshots.map((snapshot) => ({
+          day: formatDay(snapshot.day),
+          members: snapshot.members,
+          posts: snapshot.posts,
+          newPosts: snapshot.newPosts,
+          respects: snapshot.respects,
+          activeCreators: snapshot.activeCreators,
+        })),
+        totals: {
+          newPosts: snapshots.reduce((sum, snapshot) => sum + snapshot.newPosts, 0),
+          respects: snapshots.reduce((sum, snapshot) => sum + snapshot.respects, 0),
+          memberGrowth: last ? last.members - startMembers : 0,
+        },
+        topStyles,
+      },
+    };
+  } catch (error: any) {
+    logger.error('Error getting tribe stats', error);
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,121 @@
+import { Types } from 'mongoose';
+import { User } from '../models/User';
+import { getHiddenUserIds } from './block.service';
+import { cacheService } from '../config/redis';
+import { securityConfig } from '../config/security';
+
+/**
+ * Visibility Service
+ *
+ * Which authors a viewer may see:
+ * - Banned users are hidden from everyone
+ * - Shadowbanned users are hidden from everyone but themselves, until
+ *   the shadowban expires
+ * - Blocks and mutes hide users per viewer (see block.service)
+ *
+ * Read paths (feeds, profile grids, tribe posts, tag pages, search,
+ * member lists, comments) exclude getHiddenAuthorIds(viewer); counters
+ * and aggregates exclude getModeratedUserIds().
+ */
+
+const MODERATED_USERS_CACHE_KEY = 'moderation:hidden_users';
+
+interface ModerationStatus {
+  banned?: boolean;
+  shadowbanned?: boolean;
+  shadowbanExpiresAt?: Date | null;
+}
+
+/**
+ * Whether a shadowban is in effect (set and not expired)
+ */
+export function isShadowbanActive(status?: ModerationStatus | null, now: Date = new Date()): boolean {
+  if (!status?.shadowbanned) {
+    return false;
+  }
+
+  return !status.shadowbanExpiresAt || status.shadowbanExpiresAt > now;
+}
+
+/**
+ * Whether a user's content is hidden from everyone else
+ */
+export function isModerated(status?: ModerationStatus | null, now: Date = new Date()): boolean {
+  return !!status?.banned || isShadowbanActive(status, now);
+}
+
+/**
+ * User query matching shadowbans in effect
+ */
+export function activeShadowbanQuery(now: Date = new Date()): Record<string, any> {
+  return {
+    'status.shadowbanned': true,
+    $or: [{ 'status.shadowbanExpiresAt': null }, { 'status.shadowbanExpiresAt': { $gt: now } }],
+  };
+}
+
+/**
+ * User query matching banned users and shadowbans in effect
+ */
+export function moderatedUsersQuery(now: Date = new Date()): Record<string, any> {
+  return {
+    $or: [{ 'status.banned': true }, activeShadowbanQuery(now)],
+  };
+}
+
+/**
+ * Banned and shadowbanned users (cached briefly; expiries apply within
+ * the cache TTL)
+ */
+export async function getModeratedUserIds(): Promise<Types.ObjectId[]> {
+  const cached = await cacheService.get(MODERATED_USERS_CACHE_KEY);
+
+  if (cached) {
+    return (JSON.parse(cached) as string[]).map((id) => new Types.ObjectId(id));
+  }
+
+  const users = await User.find(moderatedUsersQuery()).select('_id').lean();
+  const ids = users.map((user) => user._id);
+
+  await cacheService.set(
+    MODERATED_USERS_CACHE_KEY,
+    JSON.stringify(ids.map((id) => id.toString())),
+    securityConfig.shadowbans.moderatedUsersCacheTtl
+  );
+
+  return ids;
+}
+
+/**
+ * Drop the cached moderated users (after a ban or shadowban changes)
+ */
+export async function invalidateModeratedUsers(): Promise<void> {
+  await cacheService.del(MODERATED_USERS_CACHE_KEY);
+}
+
+/**
+ * Authors hidden from a viewer: moderated users other than the viewer,
+ * plus anyone the viewer blocked, was blocked by or muted
+ *
+ * Signed-out viewers get moderated users only.
+ */
+export async function getHiddenAuthorIds(viewerUserId?: string | null): Promise<Types.ObjectId[]> {
+  const [moderated, blockedOrMuted] = await Promise.all([
+    getModeratedUserIds(),
+    getHiddenUserIds(viewerUserId),
+  ]);
+
+  const hidden = new Map<string, Types.ObjectId>();
+
+  for (const id of moderated) {
+    if (id.toString() !== viewerUserId) {
+      hidden.set(id.toString(), id);
+    }
+  }
+
+  for (const id of blockedOrMuted) {
+    hidden.set(id.toString(), id);
+  }
+
+  return [...hidden.values()];
+}
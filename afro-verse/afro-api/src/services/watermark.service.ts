@@ -1,6 +1,8 @@
 import sharp from 'sharp';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { embedCodeword, extractCodeword, type LumaPlane } from '../utils/dctWatermark';
+import { rsEncode, rsDecode } from '../utils/reedSolomon';
 
 /**
  * Watermark Service
@@ -9,6 +11,8 @@ import { logger } from '../utils/logger';
  * following the two-layer watermark strategy for brand protection and provenance.
  */
 
+const PLATFORM_ID = 'afromoji';
+
 export interface WatermarkMetadata {
   platformId: string;
   transformationId: string;
@@ -17,6 +21,15 @@ export interface WatermarkMetadata {
   checksum: string;
 }
 
+export interface ExtractedWatermark {
+  platformId: string;
+  transformationId: string;
+  visibilityType: 'public' | 'private' | 'seed';
+  checksum: string;
+  correctedBytes: number; // Bytes repaired by error correction
+  confidence: number; // Mean vote strength, 0-1
+}
+
 export interface WatermarkOptions {
   applyVisibleWatermark: boolean;
   applyInvisibleWatermark: boolean;
@@ -102,48 +115,141 @@ export async function applyVisibleWatermark(
   }
 }
 
+/**
+ * Invisible watermark payload (24 bytes, RS-protected)
+ *
+ * [header][transformationId: 12 bytes][checksum: 3 bytes][RS parity: 8 bytes]
+ * header = payload version (high nibble) | visibility type (low nibble)
+ */
+const PAYLOAD_VERSION = 1;
+const PAYLOAD_PARITY_BYTES = 8;
+const VISIBILITY_CODES: Array<WatermarkMetadata['visibilityType']> = ['public', 'private', 'seed'];
+
+/**
+ * Payload checksum for a transformation
+ */
+function payloadChecksum(
+  transformationId: string,
+  visibilityType: WatermarkMetadata['visibilityType']
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${PLATFORM_ID}:${PAYLOAD_VERSION}:${transformationId}:${visibilityType}`)
+    .digest('hex')
+    .substring(0, 6);
+}
+
+/**
+ * Build the RS-protected codeword for a transformation
+ */
+function encodePayload(metadata: WatermarkMetadata): Uint8Array {
+  if (!/^[a-f0-9]{24}$/i.test(metadata.transformationId)) {
+    throw new Error('transformationId must be a 24-character hex id');
+  }
+
+  const visibilityCode = VISIBILITY_CODES.indexOf(metadata.visibilityType);
+  const message = new Uint8Array(16);
+  message[0] = (PAYLOAD_VERSION << 4) | Math.max(0, visibilityCode);
+  message.set(Buffer.from(metadata.transformationId, 'hex'), 1);
+  message.set(Buffer.from(payloadChecksum(metadata.transformationId, metadata.visibilityType), 'hex'), 13);
+
+  return rsEncode(message, PAYLOAD_PARITY_BYTES);
+}
+
+/**
+ * Decode a candidate codeword; null unless RS and checksum both pass
+ */
+function decodePayload(codeword: Uint8Array): Omit<ExtractedWatermark, 'confidence'> | null {
+  const decoded = rsDecode(codeword, PAYLOAD_PARITY_BYTES);
+  if (!decoded) {
+    return null;
+  }
+
+  const message = Buffer.from(decoded.message);
+  const version = message[0] >> 4;
+  const visibilityType = VISIBILITY_CODES[message[0] & 0x0f];
+
+  if (version !== PAYLOAD_VERSION || !visibilityType) {
+    return null;
+  }
+
+  const transformationId = message.subarray(1, 13).toString('hex');
+  const checksum = message.subarray(13, 16).toString('hex');
+
+  if (checksum !== payloadChecksum(transformationId, visibilityType)) {
+    return null;
+  }
+
+  return {
+    platformId: PLATFORM_ID,
+    transformationId,
+    visibilityType,
+    checksum,
+    correctedBytes: decoded.corrected,
+  };
+}
+
+/**
+ * Decode an image to sRGB raw pixels plus its luma plane
+ */
+async function readLuma(imageBuffer: Buffer) {
+  const { data, info } = await sharp(imageBuffer)
+    .rotate()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height, channels } = info;
+  const luma = new Float32Array(width * height);
+
+  for (let i = 0, p = 0; i < luma.length; i++, p += channels) {
+    luma[i] = channels >= 3
+      ? 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]
+      : data[p];
+  }
+
+  return { pixels: data, info, luma: { data: luma, width, height } as LumaPlane };
+}
+
 /**
  * Apply invisible watermark to image
- * Embeds metadata in frequency domain for robustness
- * 
- * Note: This is a simplified implementation. For production, consider:
- * - Frequency-domain watermarking (DCT/DWT)
- * - Robust watermarking libraries
- * - Model-level watermarking if supported
+ * Embeds the transformation payload in the frequency domain (block DCT)
+ * so it survives re-encoding, resizing and cropping, unlike container
+ * metadata which is stripped by most re-uploads.
  */
 export async function applyInvisibleWatermark(
   imageBuffer: Buffer,
   metadata: WatermarkMetadata
 ): Promise<Buffer> {
   try {
-    // Create watermark data string
-    const watermarkData = JSON.stringify({
-      p: metadata.platformId,
-      t: metadata.transformationId,
-      c: metadata.creationTimestamp,
-      v: metadata.visibilityType,
-      h: metadata.checksum,
+    const codeword = encodePayload(metadata);
+    const format = (await sharp(imageBuffer).metadata()).format;
+    const { pixels, info, luma } = await readLuma(imageBuffer);
+
+    const delta = embedCodeword(luma, codeword);
+
+    // Same shift on every colour channel moves luma by delta, leaves hue
+    const colourChannels = Math.min(info.channels, 3);
+    for (let i = 0, p = 0; i < delta.length; i++, p += info.channels) {
+      for (let c = 0; c < colourChannels; c++) {
+        pixels[p + c] = Math.min(255, Math.max(0, Math.round(pixels[p + c] + delta[i])));
+      }
+    }
+
+    const output = sharp(pixels, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
     });
 
-    // For MVP: Embed in image metadata using Sharp's EXIF/XMP support
-    // This is not as robust as frequency-domain watermarking but better than nothing
-    const image = sharp(imageBuffer);
-    
-    // Add watermark data to image metadata
-    const watermarkedImage = await image
-      .withMetadata({
-        exif: {
-          IFD0: {
-            Copyright: `AfroMoji - ${metadata.transformationId}`,
-            ImageDescription: watermarkData,
-          },
-        },
-      })
-      .toBuffer();
+    const watermarkedImage = format === 'jpeg'
+      ? await output.jpeg({ quality: 95 }).toBuffer()
+      : format === 'webp'
+        ? await output.webp({ quality: 95 }).toBuffer()
+        : await output.png().toBuffer();
 
     logger.info('Invisible watermark applied', {
       transformationId: metadata.transformationId,
-      dataLength: watermarkData.length,
+      width: info.width,
+      height: info.height,
     });
 
     return watermarkedImage;
@@ -200,53 +306,32 @@ export function createWatermarkMetadata(
   transformationId: string,
   visibilityType: 'public' | 'private' | 'seed' = 'public'
 ): WatermarkMetadata {
-  const timestamp = new Date().toISOString();
-  const checksum = crypto
-    .createHash('sha256')
-    .update(`${transformationId}-${timestamp}`)
-    .digest('hex')
-    .substring(0, 16);
-
   return {
-    platformId: 'afromoji',
+    platformId: PLATFORM_ID,
     transformationId,
-    creationTimestamp: timestamp,
+    creationTimestamp: new Date().toISOString(),
     visibilityType,
-    checksum,
+    checksum: payloadChecksum(transformationId, visibilityType),
   };
 }
 
 /**
  * Extract invisible watermark from image
  * Used for verification and abuse tracking
+ *
+ * Works on re-encoded, resized and cropped copies (crops must keep at
+ * least 70% of the width). Returns null when no valid payload is found.
  */
 export async function extractInvisibleWatermark(
   imageBuffer: Buffer
-): Promise<WatermarkMetadata | null> {
+): Promise<ExtractedWatermark | null> {
   try {
-    const image = sharp(imageBuffer);
-    const metadata = await image.metadata();
-
-    if (metadata.exif) {
-      // Try to extract from EXIF
-      const exifData = metadata.exif as any;
-      if (exifData.ImageDescription) {
-        try {
-          const data = JSON.parse(exifData.ImageDescription);
-          return {
-            platformId: data.p,
-            transformationId: data.t,
-            creationTimestamp: data.c,
-            visibilityType: data.v,
-            checksum: data.h,
-          };
-        } catch {
-          // Could not parse watermark data
-        }
-      }
-    }
+    const { luma } = await readLuma(imageBuffer);
 
-    return null;
+    return extractCodeword(luma, (codeword, confidence) => {
+      const payload = decodePayload(codeword);
+      return payload ? { ...payload, confidence: Math.round(confidence * 100) / 100 } : null;
+    });
   } catch (error: any) {
     logger.error('Error extracting invisible watermark', error);
     return null;
@@ -267,24 +352,8 @@ export async function verifyWatermark(
       return false;
     }
 
-    // Verify platform ID
-    if (watermark.platformId !== 'afromoji') {
-      return false;
-    }
-
-    // Verify transformation ID if provided
-    if (expectedTransformationId && watermark.transformationId !== expectedTransformationId) {
-      return false;
-    }
-
-    // Verify checksum
-    const expectedChecksum = crypto
-      .createHash('sha256')
-      .update(`${watermark.transformationId}-${watermark.creationTimestamp}`)
-      .digest('hex')
-      .substring(0, 16);
-
-    if (watermark.checksum !== expectedChecksum) {
+    // Checksum is validated during extraction; only the id is left to match
+    if (expectedTransformationId && watermark.transformationId !== expectedTransformationId.toLowerCase()) {
       return false;
     }
 
@@ -294,4 +363,3 @@ export async function verifyWatermark(
     return false;
   }
 }
-
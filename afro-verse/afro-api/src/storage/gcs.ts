@@ -0,0 +1,106 @@
+import { getStorage } from '../config/storage';
+import { URLS } from '../config/buckets';
+import { StorageBackend } from './types';
+
+/**
+ * GCS Storage Backend
+ *
+ * Google Cloud Storage via @google-cloud/storage.
+ */
+
+function file(bucket: string, path: string) {
+  return getStorage().bucket(bucket).file(path);
+}
+
+export const gcsBackend: StorageBackend = {
+  name: 'gcs',
+
+  async save(bucket, path, buffer, options) {
+    const target = file(bucket, path);
+
+    await target.save(buffer, {
+      contentType: options.contentType,
+      metadata: {
+        ...(options.cacheControl ? { cacheControl: options.cacheControl } : {}),
+        metadata: options.metadata,
+      },
+      resumable: false,
+    });
+
+    if (options.public) {
+      await target.makePublic();
+    }
+  },
+
+  async download(bucket, path) {
+    const [buffer] = await file(bucket, path).download();
+    return buffer;
+  },
+
+  async delete(bucket, path) {
+    try {
+      await file(bucket, path).delete();
+    } catch (error: any) {
+      // Ignore if file doesn't exist
+      if (error.code !== 404) {
+        throw error;
+      }
+    }
+  },
+
+  async copy(sourceBucket, sourcePath, destBucket, destPath) {
+    await file(sourceBucket, sourcePath).copy(file(destBucket, destPath));
+  },
+
+  async exists(bucket, path) {
+    const [exists] = await file(bucket, path).exists();
+    return exists;
+  },
+
+  async getMetadata(bucket, path) {
+    const [metadata] = await file(bucket, path).getMetadata();
+
+    return {
+      size: parseInt(String(metadata.size || '0'), 10),
+      contentType: metadata.contentType,
+      cacheControl: metadata.cacheControl,
+      metadata: metadata.metadata as Record<string, any> | undefined,
+      updated: metadata.updated ? new Date(metadata.updated) : undefined,
+    };
+  },
+
+  async getSignedUrl(bucket, path, options) {
+    const [url] = await file(bucket, path).getSignedUrl({
+      version: 'v4',
+      action: options.action,
+      expires: options.expiresAt,
+      ...(options.contentType ? { contentType: options.contentType } : {}),
+      ...(options.maxSizeBytes
+        ? { extensionHeaders: { 'x-goog-content-length-range': `0,${options.maxSizeBytes}` } }
+        : {}),
+    });
+
+    return url;
+  },
+
+  publicUrl(bucket, path) {
+    return URLS.public(bucket, path);
+  },
+
+  async bucketExists(bucket) {
+    const [exists] = await getStorage().bucket(bucket).exists();
+    return exists;
+  },
+
+  async setLifecycleTtl(bucket, ttlDays) {
+    await getStorage().bucket(bucket).addLifecycleRule({
+      action: {
+        type: 'Delete',
+      },
+      condition: {
+        age: ttlDays,
+      },
+    });
+  },
+};
+
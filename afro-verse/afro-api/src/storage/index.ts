@@ -0,0 +1,24 @@
+import { storageConfig } from '../config/storage';
+import type { StorageBackend } from './types';
+import { gcsBackend } from './gcs';
+import { localBackend } from './local';
+
+/**
+ * Storage Backend Registry
+ *
+ * Resolves the configured backend (STORAGE_BACKEND).
+ */
+
+const BACKENDS: Record<StorageBackend['name'], StorageBackend> = {
+  gcs: gcsBackend,
+  local: localBackend,
+};
+
+/**
+ * Get the active storage backend
+ */
+export function getStorageBackend(): StorageBackend {
+  return BACKENDS[storageConfig.backend];
+}
+
+export * from './types';
@@ -0,0 +1,251 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { storageConfig } from '../config/storage';
+import { ObjectMetadata, SaveOptions, StorageBackend } from './types';
+
+/**
+ * Local Disk Storage Backend
+ *
+ * Stores each bucket as a directory under LOCAL_STORAGE_DIR, with a
+ * `.meta.json` sidecar per object for content type and metadata.
+ *
+ * Signed URLs point at the /storage route and carry an HMAC over
+ * action, bucket, path, expiry and (for writes) content type.
+ */
+
+const META_SUFFIX = '.meta.json';
+
+interface SidecarMetadata {
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, any>;
+  public?: boolean;
+}
+
+export interface SignedRequestParams {
+  action: 'read' | 'write';
+  bucket: string;
+  path: string;
+  expires: number; // Unix seconds
+  contentType?: string;
+  maxSizeBytes?: number;
+}
+
+/**
+ * Resolve an object path, refusing anything outside the bucket directory
+ */
+export function resolveObjectPath(bucket: string, objectPath: string): string {
+  if (!bucket || bucket.includes('/') || bucket.includes('\\') || bucket.startsWith('.')) {
+    const error: any = new Error('Invalid bucket name');
+    error.code = 'invalid_path';
+    throw error;
+  }
+
+  const bucketDir = path.join(storageConfig.local.rootDir, bucket);
+  const resolved = path.resolve(bucketDir, objectPath);
+
+  if (!resolved.startsWith(bucketDir + path.sep) || resolved.endsWith(META_SUFFIX)) {
+    const error: any = new Error('Invalid object path');
+    error.code = 'invalid_path';
+    throw error;
+  }
+
+  return resolved;
+}
+
+async function readSidecar(filePath: string): Promise<SidecarMetadata> {
+  try {
+    return JSON.parse(await fs.readFile(filePath + META_SUFFIX, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function notFound(bucket: string, objectPath: string): Error {
+  const error: any = new Error(`No such object: ${bucket}/${objectPath}`);
+  error.code = 404;
+  return error;
+}
+
+function objectUrl(bucket: string, objectPath: string): string {
+  const encoded = objectPath.split('/').map(encodeURIComponent).join('/');
+  return `${storageConfig.local.baseUrl}/storage/${bucket}/${encoded}`;
+}
+
+/**
+ * Compute the HMAC signature for a signed request
+ */
+export function signRequest(params: SignedRequestParams): string {
+  const payload = [
+    params.action,
+    params.bucket,
+    params.path,
+    params.expires,
+    params.contentType || '',
+    params.maxSizeBytes || '',
+  ].join('\n');
+
+  return crypto
+    .createHmac('sha256', storageConfig.local.signingSecret)
+    .update(payload)
+    .digest('hex');
+}
+
+/**
+ * Verify a signed request (constant-time)
+ */
+export function verifyRequestSignature(
+  params: SignedRequestParams,
+  signature: string
+): boolean {
+  if (!Number.isFinite(params.expires) || params.expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signRequest(params), 'hex');
+  const provided = Buffer.from(signature || '', 'hex');
+
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+/**
+ * Object metadata as exposed by the backend (used by the /storage route)
+ */
+export async function readObjectInfo(
+  bucket: string,
+  objectPath: string
+): Promise<{ filePath: string; sidecar: SidecarMetadata; size: number } | null> {
+  const filePath = resolveObjectPath(bucket, objectPath);
+
+  try {
+    const stat = await fs.stat(filePath);
+
+    if (!stat.isFile()) {
+      return null;
+    }
+
+    return {
+      filePath,
+      sidecar: await readSidecar(filePath),
+      size: stat.size,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function save(bucket: string, objectPath: string, buffer: Buffer, options: SaveOptions) {
+  const filePath = resolveObjectPath(bucket, objectPath);
+  const sidecar: SidecarMetadata = {
+    contentType: options.contentType,
+    cacheControl: options.cacheControl,
+    metadata: options.metadata,
+    public: !!options.public,
+  };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file then rename so readers never see partial objects
+  const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(tempPath, buffer);
+  await fs.rename(tempPath, filePath);
+  await fs.writeFile(filePath + META_SUFFIX, JSON.stringify(sidecar));
+}
+
+export const localBackend: StorageBackend = {
+  name: 'local',
+
+  save,
+
+  async download(bucket, objectPath) {
+    try {
+      return await fs.readFile(resolveObjectPath(bucket, objectPath));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw notFound(bucket, objectPath);
+      }
+      throw error;
+    }
+  },
+
+  async delete(bucket, objectPath) {
+    const filePath = resolveObjectPath(bucket, objectPath);
+
+    await fs.rm(filePath, { force: true });
+    await fs.rm(filePath + META_SUFFIX, { force: true });
+  },
+
+  async copy(sourceBucket, sourcePath, destBucket, destPath) {
+    const source = await readObjectInfo(sourceBucket, sourcePath);
+
+    if (!source) {
+      throw notFound(sourceBucket, sourcePath);
+    }
+
+    await save(destBucket, destPath, await fs.readFile(source.filePath), {
+      contentType: source.sidecar.contentType || 'application/octet-stream',
+      cacheControl: source.sidecar.cacheControl,
+      metadata: source.sidecar.metadata,
+    });
+  },
+
+  async exists(bucket, objectPath) {
+    return (await readObjectInfo(bucket, objectPath)) !== null;
+  },
+
+  async getMetadata(bucket, objectPath): Promise<ObjectMetadata> {
+    const info = await readObjectInfo(bucket, objectPath);
+
+    if (!info) {
+      throw notFound(bucket, objectPath);
+    }
+
+    const stat = await fs.stat(info.filePath);
+
+    return {
+      size: info.size,
+      contentType: info.sidecar.contentType,
+      cacheControl: info.sidecar.cacheControl,
+      metadata: info.sidecar.metadata,
+      updated: stat.mtime,
+    };
+  },
+
+  async getSignedUrl(bucket, objectPath, options) {
+    // Validate early so bad paths never get a signature
+    resolveObjectPath(bucket, objectPath);
+
+    const params: SignedRequestParams = {
+      action: options.action,
+      bucket,
+      path: objectPath,
+      expires: Math.floor(options.expiresAt.getTime() / 1000),
+      contentType: options.contentType,
+      maxSizeBytes: options.maxSizeBytes,
+    };
+
+    const query = new URLSearchParams({
+      action: params.action,
+      expires: String(params.expires),
+      ...(params.contentType ? { contentType: params.contentType } : {}),
+      ...(params.maxSizeBytes ? { maxSize: String(params.maxSizeBytes) } : {}),
+      signature: signRequest(params),
+    });
+
+    return `${objectUrl(bucket, objectPath)}?${query.toString()}`;
+  },
+
+  publicUrl(bucket, objectPath) {
+    return objectUrl(bucket, objectPath);
+  },
+
+  async bucketExists(bucket) {
+    await fs.mkdir(path.join(storageConfig.local.rootDir, bucket), { recursive: true });
+    return true;
+  },
+
+  async setLifecycleTtl() {
+    // Local disk has no lifecycle rules; old objects are left in place
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * Storage Backend Types
+ *
+ * Every object store (GCS, local disk) implements this interface so
+ * storage.service can stay backend-agnostic. Methods throw on failure;
+ * storage.service turns those into `{ success, error }` results.
+ */
+
+export type StorageBackendName = 'gcs' | 'local';
+
+export interface SaveOptions {
+  contentType: string;
+  metadata?: Record<string, any>;
+  cacheControl?: string;
+  public?: boolean;
+}
+
+export interface ObjectMetadata {
+  size: number;
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, any>;
+  updated?: Date;
+}
+
+export interface SignedUrlOptions {
+  action: 'read' | 'write';
+  expiresAt: Date;
+  contentType?: string; // Required content type for writes
+  maxSizeBytes?: number; // Upper bound for writes
+}
+
+export interface StorageBackend {
+  name: StorageBackendName;
+
+  save(bucket: string, path: string, buffer: Buffer, options: SaveOptions): Promise<void>;
+
+  download(bucket: string, path: string): Promise<Buffer>;
+
+  /**
+   * Delete an object. Missing objects are not an error.
+   */
+  delete(bucket: string, path: string): Promise<void>;
+
+  copy(sourceBucket: string, sourcePath: string, destBucket: string, destPath: string): Promise<void>;
+
+  exists(bucket: string, path: string): Promise<boolean>;
+
+  getMetadata(bucket: string, path: string): Promise<ObjectMetadata>;
+
+  getSignedUrl(bucket: string, path: string, options: SignedUrlOptions): Promise<string>;
+
+  publicUrl(bucket: string, path: string): string;
+
+  bucketExists(bucket: string): Promise<boolean>;
+
+  /**
+   * Auto-delete objects older than ttlDays (no-op where unsupported)
+   */
+  setLifecycleTtl(bucket: string, ttlDays: number): Promise<void>;
+}
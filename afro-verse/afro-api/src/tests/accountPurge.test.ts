@@ -0,0 +1,338 @@
+/**
+ * Account Purge Tests
+ *
+ * Runs purgeAccount against in-memory stand-ins for every collection it
+ * touches (no database, storage stubbed):
+ * - Tribe, follower, comment and respect counters are repaired once,
+ *   also when the purge is retried
+ * - Reports filed by or about the user are deleted
+ * - A storage failure aborts before any record is deleted
+ */
+
+import mongoose, { Types } from 'mongoose';
+import { User } from '../models/User';
+import { UserSelfie } from '../models/UserSelfie';
+import { Generation } from '../models/Generation';
+import { Post } from '../models/Post';
+import { Respect } from '../models/Respect';
+import Follow from '../models/Follow';
+import { Block } from '../models/Block';
+import { Mute } from '../models/Mute';
+import { Comment } from '../models/Comment';
+import { Tribe } from '../models/Tribe';
+import { Notification } from '../models/Notification';
+import { PushSubscription } from '../models/PushSubscription';
+import { RefreshToken } from '../models/RefreshToken';
+import { ImageHash } from '../models/ImageHash';
+import { TribeMembershipHistory } from '../models/TribeMembershipHistory';
+import { ChallengeEntry } from '../models/ChallengeEntry';
+import { AccountExport } from '../models/AccountExport';
+import { Report } from '../models/Report';
+import * as storage from '../services/storage.service';
+import { purgeAccount } from '../services/account.service';
+
+/**
+ * Thenable stand-in for a mongoose query
+ */
+function query<T>(result: T): any {
+  const chain: any = {
+    select: () => chain,
+    lean: () => chain,
+    then: (resolve: (value: T) => any, reject: (error: any) => any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+}
+
+const get = (doc: any, path: string) => path.split('.').reduce((node, key) => node?.[key], doc);
+
+function set(doc: any, path: string, value: any) {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((node, key) => (node[key] ??= {}), doc);
+  parent[last] = value;
+}
+
+const same = (a: any, b: any) => String(a) === String(b);
+
+/**
+ * Whether a document matches a filter (equality, `$in`, `$nin`, `$ne`,
+ * `$gt`, `$exists`, `$or`; equality on an array matches any element)
+ */
+function matches(doc: any, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([path, condition]) => {
+    if (path === '$or') {
+      return condition.some((branch: any) => matches(doc, branch));
+    }
+
+    const value = get(doc, path);
+    const isOperator =
+      condition && typeof condition === 'object' && Object.keys(condition).some((key) => key.startsWith('$'));
+
+    if (!isOperator) {
+      return Array.isArray(value) ? value.some((item) => same(item, condition)) : same(value, condition);
+    }
+
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+      switch (operator) {
+        case '$in': return operand.some((item: any) => same(item, value));
+        case '$nin': return !operand.some((item: any) => same(item, value));
+        case '$ne': return !same(value, operand);
+        case '$gt': return value > operand;
+        case '$exists': return (value !== undefined) === operand;
+        default: throw new Error(`Unsupported operator ${operator}`);
+      }
+    });
+  });
+}
+
+/**
+ * Evaluate the aggregation expressions used by counter updates
+ */
+function evaluate(doc: any, expression: any): any {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return get(doc, expression.slice(1)) ?? 0;
+  }
+  if (expression?.$max) {
+    return Math.max(...expression.$max.map((e: any) => evaluate(doc, e)));
+  }
+  if (expression?.$subtract) {
+    const [a, b] = expression.$subtract.map((e: any) => evaluate(doc, e));
+    return a - b;
+  }
+  return expression;
+}
+
+/**
+ * Apply an update document or pipeline; returns whether anything changed
+ */
+function apply(doc: any, update: any): boolean {
+  const before = JSON.stringify(doc);
+
+  if (Array.isArray(update)) {
+    for (const stage of update) {
+      for (const [path, expression] of Object.entries(stage.$set)) {
+        set(doc, path, evaluate(doc, expression));
+      }
+    }
+  } else {
+    for (const [path, value] of Object.entries(update.$set || {})) {
+      set(doc, path, value);
+    }
+    for (const [path, amount] of Object.entries(update.$inc || {})) {
+      set(doc, path, (get(doc, path) || 0) + (amount as number));
+    }
+    for (const [path, value] of Object.entries(update.$pull || {})) {
+      set(doc, path, (get(doc, path) || []).filter((item: any) => !same(item, value)));
+    }
+  }
+
+  return JSON.stringify(doc) !== before;
+}
+
+const collections = new Map<mongoose.Model<any>, any[]>();
+
+/**
+ * Back a model's query methods with an in-memory array
+ */
+function inMemory(model: mongoose.Model<any>) {
+  collections.set(model, []);
+  const docs = () => collections.get(model)!;
+  const remove = (doc: any) => docs().splice(docs().indexOf(doc), 1);
+
+  jest.spyOn(model, 'find').mockImplementation(((filter: any) =>
+    query(docs().filter((doc) => matches(doc, filter)))) as any);
+  jest.spyOn(model, 'findById').mockImplementation(((id: any) =>
+    query(docs().find((doc) => same(doc._id, id)) || null)) as any);
+  jest.spyOn(model, 'findOneAndUpdate').mockImplementation(((filter: any, update: any) => {
+    const doc = docs().find((d) => matches(d, filter));
+    if (doc) apply(doc, update);
+    return query(doc || null);
+  }) as any);
+  jest.spyOn(model, 'updateOne').mockImplementation(((filter: any, update: any) => {
+    const doc = docs().find((d) => matches(d, filter));
+    return query({ modifiedCount: doc && apply(doc, update) ? 1 : 0 });
+  }) as any);
+  jest.spyOn(model, 'updateMany').mockImplementation(((filter: any, update: any) => {
+    const changed = docs().filter((doc) => matches(doc, filter)).filter((doc) => apply(doc, update));
+    return query({ modifiedCount: changed.length });
+  }) as any);
+  jest.spyOn(model, 'deleteOne').mockImplementation(((filter: any) => {
+    const doc = docs().find((d) => matches(d, filter));
+    if (doc) remove(doc);
+    return query({ deletedCount: doc ? 1 : 0 });
+  }) as any);
+  jest.spyOn(model, 'deleteMany').mockImplementation(((filter: any) => {
+    const found = docs().filter((doc) => matches(doc, filter));
+    found.forEach(remove);
+    return query({ deletedCount: found.length });
+  }) as any);
+}
+
+const id = () => new Types.ObjectId();
+
+const tribe = id();
+const gone = id(); // The account being purged
+const friend = id(); // Followed by the account, owns a post it commented on
+const fan = id(); // Follows the account
+
+const goneOwnPost = id();
+const friendPost = id();
+
+function seed() {
+  for (const docs of collections.values()) {
+    docs.length = 0;
+  }
+
+  collections.get(Tribe)!.push({
+    _id: tribe,
+    stats: { members: 3, posts: 2 },
+    leadIds: [gone, friend],
+  });
+
+  collections.get(User)!.push(
+    { _id: gone, tribeId: tribe, followersCount: 1, followingCount: 1, counters: { respectsReceived: 0 } },
+    { _id: friend, tribeId: tribe, followersCount: 2, followingCount: 1, counters: { respectsReceived: 1 } },
+    { _id: fan, tribeId: tribe, followersCount: 1, followingCount: 2, counters: { respectsReceived: 0 } }
+  );
+
+  collections.get(Follow)!.push(
+    { _id: id(), follower: gone, following: friend },
+    { _id: id(), follower: fan, following: gone },
+    { _id: id(), follower: fan, following: friend },
+    { _id: id(), follower: friend, following: fan }
+  );
+
+  collections.get(Post)!.push(
+    { _id: goneOwnPost, userId: gone, tribeId: tribe, counts: { comments: 1, respects: 0 } },
+    { _id: friendPost, userId: friend, tribeId: tribe, counts: { comments: 2, respects: 1 } }
+  );
+
+  collections.get(Comment)!.push(
+    { _id: id(), postId: goneOwnPost, userId: friend, body: 'nice', status: 'active' },
+    { _id: id(), postId: friendPost, userId: gone, body: 'hello', status: 'active' },
+    { _id: id(), postId: friendPost, userId: fan, body: 'hi', status: 'active' }
+  );
+
+  collections.get(Respect)!.push({ _id: id(), postId: friendPost, userId: gone });
+
+  collections.get(Report)!.push(
+    { _id: id(), reporterId: gone, targetType: 'post', targetId: friendPost, targetUserId: friend },
+    { _id: id(), reporterId: fan, targetType: 'post', targetId: goneOwnPost, targetUserId: gone },
+    { _id: id(), reporterId: fan, targetType: 'caption', targetId: friendPost, targetUserId: friend }
+  );
+}
+
+const find = (model: mongoose.Model<any>, _id: Types.ObjectId) =>
+  collections.get(model)!.find((doc) => same(doc._id, _id));
+
+let storageFails = false;
+
+beforeAll(() => {
+  [
+    User, UserSelfie, Generation, Post, Respect, Follow, Block, Mute, Comment, Tribe,
+    Notification, PushSubscription, RefreshToken, ImageHash, TribeMembershipHistory,
+    ChallengeEntry, AccountExport, Report,
+  ].forEach((model) => inMemory(model as mongoose.Model<any>));
+
+  jest.spyOn(storage, 'bulkDeleteFiles').mockImplementation((async (_bucket: string, paths: string[]) => ({
+    success: !storageFails,
+    deleted: storageFails ? 0 : paths.length,
+    failed: storageFails ? 1 : 0,
+    errors: [],
+  })) as any);
+
+  // deleteCommentWithCounters runs in a transaction
+  jest.spyOn(mongoose, 'startSession').mockImplementation((async () => ({
+    startTransaction: () => undefined,
+    commitTransaction: async () => undefined,
+    abortTransaction: async () => undefined,
+    endSession: () => undefined,
+  })) as any);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('purgeAccount', () => {
+  it('repairs tribe, follower, comment and respect counters', async () => {
+    seed();
+    const purged = await purgeAccount(gone);
+
+    expect(purged.users).toBe(1);
+    expect(purged.posts).toBe(1);
+    expect(purged.follows).toBe(2);
+    expect(purged.respects).toBe(1);
+    expect(purged.comments).toBe(1);
+
+    expect(find(Tribe, tribe).stats).toEqual({ members: 2, posts: 1 });
+    expect(find(Tribe, tribe).leadIds).toEqual([friend]);
+
+    expect(find(User, friend).followersCount).toBe(1);
+    expect(find(User, friend).followingCount).toBe(1);
+    expect(find(User, friend).counters.respectsReceived).toBe(0);
+    expect(find(User, fan).followersCount).toBe(1);
+    expect(find(User, fan).followingCount).toBe(1);
+
+    expect(find(Post, friendPost).counts).toEqual({ comments: 1, respects: 0 });
+    expect(find(Post, goneOwnPost)).toBeUndefined();
+    expect(find(User, gone)).toBeUndefined();
+  });
+
+  it('leaves counters alone when the purge runs again', async () => {
+    seed();
+    await purgeAccount(gone);
+    const retried = await purgeAccount(gone);
+
+    expect(retried.users).toBeUndefined();
+    expect(retried.posts).toBe(0);
+    expect(retried.follows).toBe(0);
+    expect(retried.respects).toBe(0);
+    expect(retried.comments).toBe(0);
+    expect(retried.reports).toBe(0);
+
+    expect(find(Tribe, tribe).stats).toEqual({ members: 2, posts: 1 });
+    expect(find(User, friend).followersCount).toBe(1);
+    expect(find(User, fan).followingCount).toBe(1);
+    expect(find(Post, friendPost).counts).toEqual({ comments: 1, respects: 0 });
+  });
+
+  it('erases the user\'s comments on other posts', async () => {
+    seed();
+    await purgeAccount(gone);
+
+    const [comment] = collections.get(Comment)!.filter((c) => same(c.userId, gone));
+
+    expect(comment.status).toBe('deleted');
+    expect(comment.body).toBe('[deleted]');
+    expect(collections.get(Comment)!.some((c) => same(c.postId, goneOwnPost))).toBe(false);
+  });
+
+  it('deletes reports filed by or about the user', async () => {
+    seed();
+    const purged = await purgeAccount(gone);
+
+    const reports = collections.get(Report)!;
+
+    expect(purged.reports).toBe(2);
+    expect(reports).toHaveLength(1);
+    expect(same(reports[0].reporterId, fan)).toBe(true);
+    expect(same(reports[0].targetUserId, friend)).toBe(true);
+  });
+
+  it('deletes nothing when storage cleanup fails', async () => {
+    seed();
+    storageFails = true;
+
+    try {
+      await expect(purgeAccount(gone)).rejects.toThrow('storage objects');
+    } finally {
+      storageFails = false;
+    }
+
+    expect(find(User, gone)).toBeDefined();
+    expect(collections.get(Follow)!).toHaveLength(4);
+    expect(find(Tribe, tribe).stats).toEqual({ members: 3, posts: 2 });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Audit Log Tests
+ *
+ * Tests the hash-chained audit log (model queries stubbed, no database):
+ * - Hashes are stable across metadata key order
+ * - Appends link to the head and retry when another append wins the seq
+ * - Verification catches edited, unlinked and missing events
+ * - Metadata is bounded; CSV cells are escaped and formula-safe
+ */
+
+import { Types } from 'mongoose';
+import { AuditEvent } from '../models/AuditEvent';
+import {
+  GENESIS_HASH,
+  computeAuditHash,
+  recordAuditEvent,
+  verifyAuditChain,
+  sanitizeMetadata,
+  toCsvCell,
+} from '../services/audit.service';
+import { securityConfig } from '../config/security';
+
+/**
+ * Thenable stand-in for a mongoose query
+ */
+function query<T>(result: T): any {
+  const chain: any = {
+    sort: () => chain,
+    limit: () => chain,
+    select: () => chain,
+    lean: () => chain,
+    then: (resolve: (value: T) => any, reject: (error: any) => any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+}
+
+const actorId = new Types.ObjectId();
+
+/**
+ * A valid chain of `count` events
+ */
+function buildChain(count: number): any[] {
+  const events: any[] = [];
+  let prevHash = GENESIS_HASH;
+
+  for (let seq = 1; seq <= count; seq++) {
+    const event: any = {
+      seq,
+      prevHash,
+      category: 'admin',
+      action: 'POST /admin/users/:id/ban',
+      outcome: 'success',
+      actor: { type: 'user', userId: actorId, ip: '10.0.0.1' },
+      target: { type: 'users', id: `user-${seq}` },
+      metadata: { status: 200, body: { reason: 'spam' } },
+      createdAt: new Date(Date.UTC(2026, 0, 1, 0, seq)),
+    };
+    event.hash = computeAuditHash({ ...event, actor: { ...event.actor, userId: actorId.toString() } });
+    events.push(event);
+    prevHash = event.hash;
+  }
+
+  return events;
+}
+
+function stubChain(events: any[]) {
+  jest.spyOn(AuditEvent, 'find').mockImplementation(((filter: any) => {
+    const fromSeq = filter?.seq?.$gte || 1;
+    return query(events.filter((event) => event.seq >= fromSeq));
+  }) as any);
+  jest.spyOn(AuditEvent, 'findOne').mockImplementation(((filter: any) =>
+    query(events.find((event) => event.seq === filter?.seq) || null)) as any);
+  jest.spyOn(AuditEvent, 'exists').mockImplementation((() => query(null)) as any);
+}
+
+describe('Audit Log', () => {
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('computeAuditHash', () => {
+    it('ignores metadata key order', () => {
+      const [event] = buildChain(1);
+      const reordered = { ...event, metadata: { body: { reason: 'spam' }, status: 200 } };
+
+      expect(computeAuditHash({ ...reordered, actor: { ...event.actor, userId: actorId.toString() } })).toBe(
+        event.hash
+      );
+    });
+
+    it('changes when any hashed field changes', () => {
+      const [event] = buildChain(1);
+      const fields = { ...event, actor: { ...event.actor, userId: actorId.toString() } };
+
+      expect(computeAuditHash({ ...fields, outcome: 'failure' })).not.toBe(event.hash);
+      expect(computeAuditHash({ ...fields, prevHash: 'f'.repeat(64) })).not.toBe(event.hash);
+    });
+  });
+
+  describe('recordAuditEvent', () => {
+    it('links the new event to the head of the chain', async () => {
+      const head = { seq: 7, hash: 'a'.repeat(64) };
+      jest.spyOn(AuditEvent, 'findOne').mockImplementation((() => query(head)) as any);
+      const create = jest.spyOn(AuditEvent, 'create').mockImplementation((async (doc: any) => doc) as any);
+
+      const event: any = await recordAuditEvent({
+        category: 'auth',
+        action: 'auth.tokens_revoked',
+        actorId,
+        target: { type: 'user', id: actorId },
+        metadata: { reason: 'logout' },
+      });
+
+      expect(event.seq).toBe(8);
+      expect(event.prevHash).toBe(head.hash);
+      expect(event.actor).toEqual({ type: 'user', userId: actorId, ip: null });
+      expect(event.hash).toBe(
+        computeAuditHash({ ...event, actor: { ...event.actor, userId: actorId.toString() } })
+      );
+
+      create.mockRestore();
+    });
+
+    it('retries on the new head when another append takes the seq', async () => {
+      const heads = [{ seq: 1, hash: 'a'.repeat(64) }, { seq: 2, hash: 'b'.repeat(64) }];
+      let lookups = 0;
+      jest.spyOn(AuditEvent, 'findOne').mockImplementation((() => query(heads[Math.min(lookups++, 1)])) as any);
+
+      let attempts = 0;
+      const create = jest.spyOn(AuditEvent, 'create').mockImplementation((async (doc: any) => {
+        if (attempts++ === 0) {
+          throw Object.assign(new Error('duplicate key'), { code: 11000 });
+        }
+        return doc;
+      }) as any);
+
+      const event: any = await recordAuditEvent({ category: 'system', action: 'GET /cron/hot-scores' });
+
+      expect(event.seq).toBe(3);
+      expect(event.prevHash).toBe('b'.repeat(64));
+      expect(event.actor.type).toBe('system');
+
+      create.mockRestore();
+    });
+
+    it('returns null instead of failing the audited action', async () => {
+      jest.spyOn(AuditEvent, 'findOne').mockImplementation((() => query(null)) as any);
+      const create = jest.spyOn(AuditEvent, 'create').mockImplementation((async () => {
+        throw new Error('connection lost');
+      }) as any);
+
+      await expect(recordAuditEvent({ category: 'tribe', action: 'tribe.switched' })).resolves.toBeNull();
+
+      create.mockRestore();
+    });
+  });
+
+  describe('verifyAuditChain', () => {
+    it('accepts an intact chain and reports its head', async () => {
+      const events = buildChain(3);
+      stubChain(events);
+
+      const report = await verifyAuditChain();
+
+      expect(report.valid).toBe(true);
+      expect(report.checked).toBe(3);
+      expect(report.head).toEqual({ seq: 3, hash: events[2].hash });
+    });
+
+    it('detects an edited event', async () => {
+      const events = buildChain(3);
+      events[1] = { ...events[1], metadata: { status: 200, body: { reason: 'edited' } } };
+      stubChain(events);
+
+      const report = await verifyAuditChain();
+
+      expect(report.valid).toBe(false);
+      expect(report.brokenAt).toEqual({ seq: 2, reason: 'hash_mismatch' });
+    });
+
+    it('detects a re-hashed event by the broken link after it', async () => {
+      const events = buildChain(3);
+      const edited = { ...events[1], outcome: 'failure' };
+      edited.hash = computeAuditHash({ ...edited, actor: { ...edited.actor, userId: actorId.toString() } });
+      events[1] = edited;
+      stubChain(events);
+
+      const report = await verifyAuditChain();
+
+      expect(report.brokenAt).toEqual({ seq: 3, reason: 'prev_hash_mismatch' });
+    });
+
+    it('detects a removed event', async () => {
+      const events = buildChain(3);
+      stubChain([events[0], events[2]]);
+
+      const report = await verifyAuditChain();
+
+      expect(report.brokenAt).toEqual({ seq: 2, reason: 'seq_gap' });
+    });
+
+    it('verifies from a later seq', async () => {
+      const events = buildChain(4);
+      stubChain(events);
+
+      const report = await verifyAuditChain(3);
+
+      expect(report.valid).toBe(true);
+      expect(report.checked).toBe(2);
+    });
+  });
+
+  describe('sanitizeMetadata', () => {
+    it('stringifies ids and dates and clips long values', () => {
+      const id = new Types.ObjectId();
+      const long = 'x'.repeat(securityConfig.audit.maxMetadataString + 10);
+      const ids = Array.from({ length: securityConfig.audit.maxMetadataArray + 5 }, (_, i) => `id-${i}`);
+
+      const result = sanitizeMetadata({
+        id,
+        at: new Date('2026-01-01T00:00:00.000Z'),
+        long,
+        ids,
+        $where: 'drop me',
+        'a.b': 'drop me',
+        skipped: undefined,
+      });
+
+      expect(result.id).toBe(id.toString());
+      expect(result.at).toBe('2026-01-01T00:00:00.000Z');
+      expect(result.long).toHaveLength(securityConfig.audit.maxMetadataString);
+      expect(result.ids).toHaveLength(securityConfig.audit.maxMetadataArray);
+      expect(Object.keys(result).sort()).toEqual(['at', 'id', 'ids', 'long']);
+    });
+  });
+
+  describe('toCsvCell', () => {
+    it('quotes commas, quotes and newlines', () => {
+      expect(toCsvCell('plain')).toBe('plain');
+      expect(toCsvCell('a,b')).toBe('"a,b"');
+      expect(toCsvCell('say "hi"')).toBe('"say ""hi"""');
+      expect(toCsvCell(null)).toBe('');
+      expect(toCsvCell(42)).toBe('42');
+    });
+
+    it('neutralises spreadsheet formulas', () => {
+      expect(toCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+      expect(toCsvCell('+1')).toBe("'+1");
+      expect(toCsvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    });
+  });
+});
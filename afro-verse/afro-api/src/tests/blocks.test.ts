@@ -0,0 +1,281 @@
+/**
+ * Block & Mute Tests
+ *
+ * Tests blocking and muting against in-memory stand-ins for the
+ * Block, Mute, Follow and User collections (no database):
+ * - Blocking removes follows both ways and fixes counters exactly once,
+ *   also when the block is repeated or races another block
+ * - Feed, profile grid and member lists hide blocked users both ways
+ *   and muted users one way
+ */
+
+import { Types } from 'mongoose';
+import { User } from '../models/User';
+import { Post } from '../models/Post';
+import { Tribe } from '../models/Tribe';
+import { Block } from '../models/Block';
+import { Mute } from '../models/Mute';
+import Follow from '../models/Follow';
+import { blockUser, muteUser } from '../services/block.service';
+import { invalidateModeratedUsers } from '../services/visibility.service';
+import { getFeed } from '../services/feed.service';
+import { getUserPosts } from '../services/post.service';
+import { getTribeMembers } from '../services/tribe.service';
+
+/**
+ * Thenable stand-in for a mongoose query
+ */
+function query<T>(result: T): any {
+  const chain: any = {
+    sort: () => chain,
+    limit: () => chain,
+    skip: () => chain,
+    select: () => chain,
+    lean: () => chain,
+    then: (resolve: (value: T) => any, reject: (error: any) => any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+}
+
+const tribeId = new Types.ObjectId();
+
+function makeUser(username: string) {
+  return { _id: new Types.ObjectId(), username, tribeId, followersCount: 0, followingCount: 0, status: {} };
+}
+
+const viewer = makeUser('viewer');
+const blocked = makeUser('blocked'); // Blocked by the viewer
+const blocker = makeUser('blocker'); // Blocked the viewer
+const muted = makeUser('muted'); // Muted by the viewer
+const muter = makeUser('muter'); // Muted the viewer
+const users = [viewer, blocked, blocker, muted, muter];
+
+const byId = (id: any) => users.find((user) => user._id.equals(id.toString()))!;
+
+let blocks: Array<{ blockerId: Types.ObjectId; blockedId: Types.ObjectId }> = [];
+let mutes: Array<{ muterId: Types.ObjectId; mutedId: Types.ObjectId }> = [];
+let follows: Array<{ follower: Types.ObjectId; following: Types.ObjectId }> = [];
+let postQueries: any[] = [];
+let memberQueries: any[] = [];
+
+function follow(a: typeof viewer, b: typeof viewer) {
+  follows.push({ follower: a._id, following: b._id });
+  a.followingCount++;
+  b.followersCount++;
+}
+
+function reset() {
+  blocks = [];
+  mutes = [];
+  follows = [];
+  postQueries = [];
+  memberQueries = [];
+  for (const user of users) {
+    user.followersCount = 0;
+    user.followingCount = 0;
+  }
+  return invalidateModeratedUsers();
+}
+
+const same = (a: any, b: any) => a.toString() === b.toString();
+
+/**
+ * Block upsert: inserts only when the pair is new
+ */
+function upsertBlock(filter: any) {
+  const exists = blocks.some(
+    (block) => same(block.blockerId, filter.blockerId) && same(block.blockedId, filter.blockedId)
+  );
+  if (!exists) {
+    blocks.push({ blockerId: filter.blockerId, blockedId: filter.blockedId });
+  }
+  return query({ upsertedCount: exists ? 0 : 1 });
+}
+
+beforeAll(() => {
+  jest.spyOn(Block, 'updateOne').mockImplementation(upsertBlock as any);
+  jest.spyOn(Block, 'find').mockImplementation(((filter: any) => {
+    const [{ blockerId: viewerId }] = filter.$or;
+    return query(blocks.filter((block) => same(block.blockerId, viewerId) || same(block.blockedId, viewerId)));
+  }) as any);
+
+  jest.spyOn(Mute, 'updateOne').mockImplementation(((filter: any) => {
+    if (!mutes.some((mute) => same(mute.muterId, filter.muterId) && same(mute.mutedId, filter.mutedId))) {
+      mutes.push({ muterId: filter.muterId, mutedId: filter.mutedId });
+    }
+    return query({});
+  }) as any);
+  jest.spyOn(Mute, 'find').mockImplementation(((filter: any) =>
+    query(mutes.filter((mute) => same(mute.muterId, filter.muterId)))) as any);
+
+  jest.spyOn(Follow, 'findOneAndDelete').mockImplementation(((filter: any) => {
+    const index = follows.findIndex(
+      (entry) => same(entry.follower, filter.follower) && same(entry.following, filter.following)
+    );
+    return query(index >= 0 ? follows.splice(index, 1)[0] : null);
+  }) as any);
+
+  jest.spyOn(User, 'findById').mockImplementation(((id: any) => query(byId(id) || null)) as any);
+  jest.spyOn(User, 'findByIdAndUpdate').mockImplementation(((id: any, update: any) => {
+    const user = byId(id);
+    for (const [field, amount] of Object.entries(update.$inc || {})) {
+      (user as any)[field] += amount as number;
+    }
+    return query(user);
+  }) as any);
+  jest.spyOn(User, 'findOne').mockImplementation(((filter: any) =>
+    query(users.find((user) => user.username === filter.username) || null)) as any);
+  jest.spyOn(User, 'find').mockImplementation(((filter: any) => {
+    // Moderated user lookup (visibility.service): nobody is moderated here
+    if (JSON.stringify(filter).includes('status.banned')) {
+      return query([]);
+    }
+    memberQueries.push(filter);
+    return query([]);
+  }) as any);
+
+  jest.spyOn(Post, 'find').mockImplementation(((filter: any) => {
+    postQueries.push(filter);
+    return query([]);
+  }) as any);
+
+  jest.spyOn(Tribe, 'findOne').mockImplementation((() =>
+    query({ _id: tribeId, slug: 'lagos', name: 'Lagos', stats: {} })) as any);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('blockUser', () => {
+  it('unfollows both ways and fixes counters', async () => {
+    await reset();
+    follow(viewer, blocked);
+    follow(blocked, viewer);
+
+    const result = await blockUser(viewer._id.toString(), blocked._id.toString());
+
+    expect(result.success).toBe(true);
+    expect(follows).toHaveLength(0);
+    expect(viewer.followersCount).toBe(0);
+    expect(viewer.followingCount).toBe(0);
+    expect(blocked.followersCount).toBe(0);
+    expect(blocked.followingCount).toBe(0);
+  });
+
+  it('fixes counters once when the block is repeated', async () => {
+    await reset();
+    follow(viewer, blocked);
+    follow(blocked, viewer);
+
+    await blockUser(viewer._id.toString(), blocked._id.toString());
+    await blockUser(viewer._id.toString(), blocked._id.toString());
+
+    expect(blocks).toHaveLength(1);
+    expect(viewer.followingCount).toBe(0);
+    expect(blocked.followersCount).toBe(0);
+  });
+
+  it('fixes counters once when both users block each other at the same time', async () => {
+    await reset();
+    follow(viewer, blocked);
+    follow(blocked, viewer);
+
+    await Promise.all([
+      blockUser(viewer._id.toString(), blocked._id.toString()),
+      blockUser(blocked._id.toString(), viewer._id.toString()),
+      blockUser(viewer._id.toString(), blocked._id.toString()),
+    ]);
+
+    expect(blocks).toHaveLength(2);
+    expect(follows).toHaveLength(0);
+    expect(viewer.followersCount).toBe(0);
+    expect(viewer.followingCount).toBe(0);
+    expect(blocked.followersCount).toBe(0);
+    expect(blocked.followingCount).toBe(0);
+  });
+
+  it('treats losing a concurrent insert as success without touching follows', async () => {
+    await reset();
+    follow(viewer, blocked);
+    const upsert = jest.spyOn(Block, 'updateOne').mockImplementation((() => {
+      throw Object.assign(new Error('duplicate key'), { code: 11000 });
+    }) as any);
+
+    const result = await blockUser(viewer._id.toString(), blocked._id.toString());
+    upsert.mockImplementation(upsertBlock as any);
+
+    expect(result.success).toBe(true);
+    expect(follows).toHaveLength(1);
+    expect(viewer.followingCount).toBe(1);
+  });
+
+  it('rejects blocking yourself', async () => {
+    const result = await blockUser(viewer._id.toString(), viewer._id.toString());
+
+    expect(result.error).toBe('cannot_block_self');
+  });
+});
+
+describe('Read paths', () => {
+  async function setUpRelations() {
+    await reset();
+    await blockUser(viewer._id.toString(), blocked._id.toString());
+    await blockUser(blocker._id.toString(), viewer._id.toString());
+    await muteUser(viewer._id.toString(), muted._id.toString());
+    await muteUser(muter._id.toString(), viewer._id.toString());
+  }
+
+  function expectHiddenFromViewer(condition: any) {
+    const ids = (condition?.$nin || []).map((id: Types.ObjectId) => id.toString());
+
+    expect(ids).toContain(blocked._id.toString());
+    expect(ids).toContain(blocker._id.toString());
+    expect(ids).toContain(muted._id.toString());
+    expect(ids).not.toContain(muter._id.toString());
+  }
+
+  it('hides blocked users both ways and muted users one way in the feed', async () => {
+    await setUpRelations();
+    await getFeed(viewer._id.toString(), 10);
+
+    expect(postQueries.length).toBeGreaterThan(0);
+    for (const filter of postQueries) {
+      expectHiddenFromViewer(filter.userId);
+    }
+  });
+
+  it('hides the viewer from a user they blocked, but not from one they muted', async () => {
+    await setUpRelations();
+    await getFeed(blocked._id.toString(), 10);
+    await getFeed(muted._id.toString(), 10);
+
+    const [blockedView, mutedView] = [postQueries[0], postQueries[postQueries.length - 1]];
+    const excluded = (filter: any) => (filter.userId?.$nin || []).map((id: any) => id.toString());
+
+    expect(excluded(blockedView)).toContain(viewer._id.toString());
+    expect(excluded(mutedView)).not.toContain(viewer._id.toString());
+  });
+
+  it('hides profile grids of blocked and muted users', async () => {
+    await setUpRelations();
+
+    for (const user of [blocked, blocker, muted]) {
+      const result = await getUserPosts(user.username, 20, undefined, viewer._id.toString());
+      expect(result.posts).toHaveLength(0);
+    }
+    expect(postQueries).toHaveLength(0);
+
+    await getUserPosts(muter.username, 20, undefined, viewer._id.toString());
+    expect(postQueries).toHaveLength(1);
+  });
+
+  it('hides blocked and muted users from member lists', async () => {
+    await setUpRelations();
+    await getTribeMembers('lagos', 20, undefined, viewer._id.toString());
+
+    expect(memberQueries).toHaveLength(1);
+    expectHiddenFromViewer(memberQueries[0]._id);
+  });
+});
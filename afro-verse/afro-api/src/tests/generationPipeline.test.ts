@@ -0,0 +1,282 @@
+/**
+ * Generation Pipeline Tests
+ *
+ * Runs the pipeline offline on the fixture provider (no vendor calls,
+ * model queries and storage stubbed):
+ * - Provider routing from config
+ * - Fallback to the next provider on retryable errors
+ * - Circuit breaker transitions (closed → open → half_open → closed)
+ * - Generation.provider records the provider that actually ran
+ */
+
+import { Types } from 'mongoose';
+import { aiConfig } from '../config/ai';
+import { generate, resolveRoute } from '../ai/generationPipeline';
+import * as CircuitBreaker from '../ai/circuitBreaker';
+import { fixtureProvider } from '../ai/providers/fixture';
+import { replicateProvider } from '../ai/providers/replicate';
+import { Generation } from '../models/Generation';
+import { UserSelfie } from '../models/UserSelfie';
+import * as storage from '../services/storage.service';
+import * as notifications from '../services/notification.service';
+import { processGeneration } from '../services/generation.service';
+
+const input = {
+  prompt: 'Portrait in golden hour light',
+  aspectRatio: '1:1' as const,
+  quality: 'standard' as const,
+};
+
+const routing = { ...aiConfig.routing, fallbacks: [...aiConfig.routing.fallbacks] };
+
+/**
+ * Stand in for a second configured vendor by delegating to the fixture
+ */
+function stubReplicate() {
+  jest.spyOn(replicateProvider, 'isConfigured').mockImplementation(() => true);
+  jest.spyOn(replicateProvider, 'generate').mockImplementation(async (request) => ({
+    ...(await fixtureProvider.generate({ ...request, prompt: 'fallback' })),
+    model: replicateProvider.resolveModel(request.quality),
+    requestId: 'replicate-1',
+  }));
+}
+
+function resetRouting() {
+  aiConfig.routing.primary = routing.primary;
+  aiConfig.routing.fallbacks = [...routing.fallbacks];
+  CircuitBreaker.resetBreaker('fixture');
+  CircuitBreaker.resetBreaker('replicate');
+}
+
+async function failOnce(prompt: string): Promise<any> {
+  try {
+    await generate({ ...input, prompt });
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the pipeline to fail');
+}
+
+describe('Generation Pipeline', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resetRouting();
+  });
+
+  describe('routing', () => {
+    it('defaults to the fixture provider in tests', async () => {
+      expect(aiConfig.routing.primary).toBe('fixture');
+      expect(resolveRoute('standard')).toEqual({ provider: 'fixture', model: 'fixture-v1' });
+
+      const result = await generate(input);
+
+      expect(result.provider).toBe('fixture');
+      expect(result.model).toBe('fixture-v1');
+      expect(result.mimeType).toBe('image/png');
+      expect(result.costUsd).toBe(0);
+    });
+
+    it('produces the same image for the same input', async () => {
+      const [first, second] = await Promise.all([generate(input), generate(input)]);
+
+      expect(first.imageData.equals(second.imageData)).toBe(true);
+      expect(first.requestId).toBe(second.requestId);
+    });
+
+    it('routes to the configured primary', async () => {
+      stubReplicate();
+      aiConfig.routing.primary = 'replicate';
+
+      expect(resolveRoute('high')).toEqual({
+        provider: 'replicate',
+        model: aiConfig.providers.replicate.models.high,
+      });
+
+      const result = await generate(input);
+      expect(result.provider).toBe('replicate');
+    });
+
+    it('skips unconfigured providers in the chain', () => {
+      aiConfig.routing.primary = 'replicate';
+      aiConfig.routing.fallbacks = ['fixture'];
+
+      expect(resolveRoute('standard').provider).toBe('fixture');
+    });
+
+    it('rejects a pinned provider that is not configured', async () => {
+      await expect(generate(input, { provider: 'replicate' })).rejects.toMatchObject({
+        code: 'provider_not_configured',
+      });
+    });
+  });
+
+  describe('fallback', () => {
+    it('moves on to the next provider on a retryable error', async () => {
+      stubReplicate();
+      aiConfig.routing.fallbacks = ['replicate'];
+
+      const result = await generate({ ...input, prompt: 'Portrait [fixture:rate_limited]' });
+
+      expect(result.provider).toBe('replicate');
+      expect(result.model).toBe(aiConfig.providers.replicate.models.standard);
+      expect(result.attempts).toEqual([
+        { provider: 'fixture', model: 'fixture-v1', ok: false, errorCode: 'rate_limited' },
+        {
+          provider: 'replicate',
+          model: aiConfig.providers.replicate.models.standard,
+          requestId: 'replicate-1',
+          ok: true,
+        },
+      ]);
+    });
+
+    it('does not fall back when the request itself is blocked', async () => {
+      stubReplicate();
+      aiConfig.routing.fallbacks = ['replicate'];
+
+      const error = await failOnce('Portrait [fixture:blocked]');
+
+      expect(error.code).toBe('blocked');
+      expect(error.attempts).toHaveLength(1);
+      expect(CircuitBreaker.getBreakerSnapshot('fixture').failures).toBe(0);
+    });
+
+    it('reports every attempt when all providers fail', async () => {
+      const error = await failOnce('Portrait [fixture:provider_unavailable]');
+
+      expect(error.code).toBe('provider_unavailable');
+      expect(error.attempts).toEqual([
+        { provider: 'fixture', model: 'fixture-v1', ok: false, errorCode: 'provider_unavailable' },
+      ]);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const { minRequests, openDurationMs } = aiConfig.circuitBreaker;
+
+    async function tripFixture() {
+      for (let i = 0; i < minRequests; i++) {
+        await failOnce('Portrait [fixture:model_timeout]');
+      }
+    }
+
+    it('opens after enough health failures and skips the provider', async () => {
+      await tripFixture();
+
+      expect(CircuitBreaker.getBreakerSnapshot('fixture').state).toBe('open');
+
+      // Skipped without a call: no attempts recorded
+      const error = await failOnce(input.prompt);
+      expect(error.code).toBe('provider_unavailable');
+      expect(error.attempts).toEqual([]);
+    });
+
+    it('falls back while the primary is open', async () => {
+      stubReplicate();
+      await tripFixture();
+      aiConfig.routing.fallbacks = ['replicate'];
+
+      const result = await generate(input);
+
+      expect(result.provider).toBe('replicate');
+      expect(result.attempts).toHaveLength(1);
+    });
+
+    it('closes after a successful half-open probe', async () => {
+      await tripFixture();
+
+      const later = Date.now() + openDurationMs + 1000;
+      jest.spyOn(Date, 'now').mockImplementation(() => later);
+
+      expect(CircuitBreaker.acquire('fixture')).toBe(true);
+      expect(CircuitBreaker.getBreakerSnapshot('fixture').state).toBe('half_open');
+
+      // Only one probe at a time
+      expect(CircuitBreaker.acquire('fixture')).toBe(false);
+
+      CircuitBreaker.recordSuccess('fixture');
+      expect(CircuitBreaker.getBreakerSnapshot('fixture').state).toBe('closed');
+    });
+
+    it('re-opens when the half-open probe fails', async () => {
+      await tripFixture();
+
+      const later = Date.now() + openDurationMs + 1000;
+      jest.spyOn(Date, 'now').mockImplementation(() => later);
+
+      await failOnce('Portrait [fixture:rate_limited]');
+
+      const snapshot = CircuitBreaker.getBreakerSnapshot('fixture');
+      expect(snapshot.state).toBe('open');
+      expect(snapshot.lastErrorCode).toBe('rate_limited');
+    });
+  });
+
+  describe('processGeneration', () => {
+    function stubGeneration() {
+      const generation = new Generation({
+        userId: new Types.ObjectId(),
+        source: { selfieIds: [new Types.ObjectId()], mode: 'prompt' },
+        style: {
+          prompt: input.prompt,
+          parameters: { aspect: '1:1', quality: 'standard' },
+        },
+        // Planned route at creation time
+        provider: { name: 'gemini', model: 'gemini-3-pro-image-preview', requestIds: [] },
+        status: 'queued',
+        versions: [],
+      });
+
+      jest.spyOn(generation, 'save').mockImplementation((async () => generation) as any);
+      jest.spyOn(Generation, 'findById').mockImplementation((async () => generation) as any);
+      jest.spyOn(Generation, 'findOneAndUpdate').mockImplementation((async () => generation) as any);
+      jest.spyOn(UserSelfie, 'findById').mockImplementation((async () => ({ gcsPath: 'selfie.jpg' })) as any);
+      jest.spyOn(storage, 'downloadFile').mockImplementation((async () => ({
+        success: true,
+        buffer: Buffer.from('selfie'),
+      })) as any);
+      jest.spyOn(storage, 'uploadBuffer').mockImplementation((async () => ({ success: true })) as any);
+      jest.spyOn(notifications, 'notify').mockImplementation((() => undefined) as any);
+
+      return generation;
+    }
+
+    it('records the provider that produced the image', async () => {
+      stubReplicate();
+      aiConfig.routing.fallbacks = ['replicate'];
+      const generation = stubGeneration();
+      generation.style.prompt = 'Portrait [fixture:provider_unavailable]';
+
+      const result = await processGeneration({
+        generationId: generation._id.toString(),
+        type: 'initial',
+        requestedVersionId: 'v1',
+      });
+
+      expect(result.success).toBe(true);
+      expect(generation.status).toBe('succeeded');
+      expect(generation.provider.name).toBe('replicate');
+      expect(generation.provider.model).toBe(aiConfig.providers.replicate.models.standard);
+      expect(generation.provider.requestIds).toEqual([
+        'fixture:provider_unavailable',
+        'replicate:replicate-1',
+      ]);
+    });
+
+    it('keeps the attempts on a failed generation', async () => {
+      const generation = stubGeneration();
+      generation.style.prompt = 'Portrait [fixture:model_timeout]';
+
+      const result = await processGeneration({
+        generationId: generation._id.toString(),
+        type: 'initial',
+        requestedVersionId: 'v1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(generation.status).toBe('failed');
+      expect(generation.error?.code).toBe('model_timeout');
+      expect(generation.provider.requestIds).toEqual(['fixture:model_timeout']);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Perceptual Hash Tests
+ *
+ * Tests for near-duplicate fingerprints (no database):
+ * - Hashes survive re-encoding, resizing and small edits
+ * - Different images are far apart
+ * - Hamming distance and band keys
+ */
+
+import sharp from 'sharp';
+import { computePerceptualHash, hammingDistance, hashBands } from '../utils/perceptualHash';
+
+function distance(a: { pHash: string; dHash: string }, b: { pHash: string; dHash: string }) {
+  return Math.max(hammingDistance(a.pHash, b.pHash), hammingDistance(a.dHash, b.dHash));
+}
+
+async function testImage(seed: number): Promise<Buffer> {
+  const width = 320;
+  const height = 240;
+  const pixels = Buffer.alloc(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      pixels[i] = 128 + 100 * Math.sin((x * seed) / 120 + y / 30);
+      pixels[i + 1] = 128 + 100 * Math.cos((y * seed) / 75 - x / 60);
+      pixels[i + 2] = 128 + 90 * Math.sin((x + y * seed) / 50) * Math.cos(x / 35);
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+describe('Perceptual hash', () => {
+  let original: Buffer;
+
+  beforeAll(async () => {
+    original = await testImage(3);
+  });
+
+  it('should produce 64-bit hex hashes', async () => {
+    const hash = await computePerceptualHash(original);
+
+    expect(hash.pHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hash.dHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should match re-encoded and resized copies', async () => {
+    const hash = await computePerceptualHash(original);
+
+    const jpeg = await sharp(original).jpeg({ quality: 40 }).toBuffer();
+    const smaller = await sharp(original).resize(160).webp({ quality: 70 }).toBuffer();
+    const brighter = await sharp(original).modulate({ brightness: 1.1 }).toBuffer();
+
+    expect(distance(hash, await computePerceptualHash(jpeg))).toBeLessThanOrEqual(4);
+    expect(distance(hash, await computePerceptualHash(smaller))).toBeLessThanOrEqual(4);
+    expect(distance(hash, await computePerceptualHash(brighter))).toBeLessThanOrEqual(10);
+  });
+
+  it('should keep different images apart', async () => {
+    const hash = await computePerceptualHash(original);
+    const other = await computePerceptualHash(await testImage(7));
+
+    expect(distance(hash, other)).toBeGreaterThan(10);
+  });
+});
+
+describe('Hash helpers', () => {
+  it('should count differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('00000000000000f0', '0000000000000001')).toBe(5);
+  });
+
+  it('should split hashes into indexed bands', () => {
+    expect(hashBands('0123456789abcdef')).toEqual(['0:0123', '1:4567', '2:89ab', '3:cdef']);
+  });
+});
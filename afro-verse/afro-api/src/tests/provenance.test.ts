@@ -0,0 +1,206 @@
+/**
+ * Provenance Manifest Tests
+ *
+ * Tests for C2PA-style manifests (test signing key, no database):
+ * - JPEG APP11 and WebP chunk embedding leave image data untouched
+ * - Manifest parsing and claim contents
+ * - Signature and content-hash verification, tampering
+ * - Re-stamping and unsupported formats
+ */
+
+import sharp from 'sharp';
+import {
+  embedManifest,
+  parseManifest,
+  verifyManifest,
+  ManifestInput,
+} from '../services/provenance.service';
+import { insertManifest, readManifest } from '../utils/manifestContainer';
+
+jest.mock('../config/provenance', () => {
+  const crypto = require('crypto');
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  return {
+    provenanceConfig: {
+      enabled: true,
+      signingKey: {
+        privateKey,
+        publicKeyDer: publicKey.export({ type: 'spki', format: 'der' }),
+        alg: 'ES256',
+        keyId: 'test-key',
+      },
+      claimGenerator: 'AfroMoji test',
+      digitalSourceType: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+    },
+  };
+});
+
+const input: ManifestInput = {
+  generationId: '65f1c2a9b7e4d3a1c0ffee12',
+  postId: '65f1c2a9b7e4d3a1c0ffee34',
+  provider: 'gemini',
+  model: 'gemini-2.5-flash-image',
+  createdAt: new Date('2026-01-15T10:00:00.000Z'),
+  ingredients: [
+    {
+      relationship: 'parentOf',
+      title: 'AfroMoji post 65f1c2a9b7e4d3a1c0ffee56',
+      postId: '65f1c2a9b7e4d3a1c0ffee56',
+      generationId: '65f1c2a9b7e4d3a1c0ffee78',
+    },
+  ],
+};
+
+function testImage() {
+  return sharp({
+    create: {
+      width: 64,
+      height: 48,
+      channels: 3,
+      background: { r: 147, g: 51, b: 234 },
+    },
+  });
+}
+
+describe('Provenance manifest (JPEG)', () => {
+  let original: Buffer;
+  let stamped: Buffer;
+
+  beforeAll(async () => {
+    original = await testImage().jpeg({ quality: 90 }).toBuffer();
+    stamped = embedManifest(original, input);
+  });
+
+  it('should not find a manifest in an unstamped image', () => {
+    expect(parseManifest(original)).toBeNull();
+    expect(verifyManifest(original).errors).toContain('manifest_not_found');
+  });
+
+  it('should parse the embedded claim', () => {
+    const manifest = parseManifest(stamped);
+
+    expect(manifest).not.toBeNull();
+    expect(manifest!.claim.format).toBe('image/jpeg');
+    expect(manifest!.claim.assertions.aiGenerated).toEqual({
+      aiGenerated: true,
+      provider: 'gemini',
+      model: 'gemini-2.5-flash-image',
+    });
+    expect(manifest!.claim.assertions.actions[0]).toMatchObject({
+      action: 'c2pa.created',
+      when: '2026-01-15T10:00:00.000Z',
+      softwareAgent: { name: 'gemini', version: 'gemini-2.5-flash-image' },
+    });
+    expect(manifest!.claim.assertions.generation).toEqual({
+      generationId: input.generationId,
+      postId: input.postId,
+    });
+    expect(manifest!.claim.ingredients).toEqual(input.ingredients);
+    expect(manifest!.signature.alg).toBe('ES256');
+    expect(manifest!.signature.keyId).toBe('test-key');
+  });
+
+  it('should verify signature and content hash', () => {
+    const result = verifyManifest(stamped);
+
+    expect(result.present).toBe(true);
+    expect(result.valid).toBe(true);
+    expect(result.signatureValid).toBe(true);
+    expect(result.contentHashValid).toBe(true);
+    expect(result.trustedSigner).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should leave the image data untouched', async () => {
+    const before = await sharp(original).raw().toBuffer();
+    const after = await sharp(stamped).raw().toBuffer();
+
+    expect(after.equals(before)).toBe(true);
+  });
+
+  it('should detect modified image data', () => {
+    const tampered = Buffer.from(stamped);
+    tampered[tampered.length - 10] ^= 0x01;
+
+    const result = verifyManifest(tampered);
+
+    expect(result.signatureValid).toBe(true);
+    expect(result.contentHashValid).toBe(false);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('content_modified');
+  });
+
+  it('should detect a modified claim', () => {
+    const manifest = parseManifest(stamped)!;
+    manifest.claim.assertions.generation.generationId = '000000000000000000000000';
+    const tampered = insertManifest(stamped, Buffer.from(JSON.stringify(manifest)));
+
+    const result = verifyManifest(tampered);
+
+    expect(result.signatureValid).toBe(false);
+    expect(result.contentHashValid).toBe(true);
+    expect(result.errors).toContain('signature_invalid');
+  });
+
+  it('should replace an existing manifest when re-stamped', () => {
+    const restamped = embedManifest(stamped, { ...input, postId: null, ingredients: [] });
+    const manifest = parseManifest(restamped)!;
+
+    expect(restamped.length).toBeLessThan(stamped.length + 50);
+    expect(manifest.claim.assertions.generation.postId).toBeNull();
+    expect(manifest.claim.ingredients).toEqual([]);
+    expect(verifyManifest(restamped).valid).toBe(true);
+  });
+
+  it('should reject malformed manifests', () => {
+    const malformed = insertManifest(original, Buffer.from('{"not":"a manifest"}'));
+
+    expect(() => parseManifest(malformed)).toThrow('Malformed provenance manifest');
+    expect(verifyManifest(malformed).errors).toEqual(['manifest_malformed']);
+  });
+});
+
+describe('Provenance manifest (WebP)', () => {
+  it('should embed in lossy (VP8) WebP and promote it to VP8X', async () => {
+    const original = await testImage().webp({ quality: 80 }).toBuffer();
+    const stamped = embedManifest(original, input);
+
+    expect(stamped.toString('latin1', 12, 16)).toBe('VP8X');
+    expect(readManifest(stamped)).not.toBeNull();
+    expect(verifyManifest(stamped).valid).toBe(true);
+
+    const metadata = await sharp(stamped).metadata();
+    expect(metadata.width).toBe(64);
+    expect(metadata.height).toBe(48);
+  });
+
+  it('should embed in lossless (VP8L) WebP with alpha', async () => {
+    const original = await sharp({
+      create: {
+        width: 33,
+        height: 17,
+        channels: 4,
+        background: { r: 10, g: 200, b: 30, alpha: 0.5 },
+      },
+    })
+      .webp({ lossless: true })
+      .toBuffer();
+    const stamped = embedManifest(original, input);
+
+    expect(verifyManifest(stamped).valid).toBe(true);
+
+    const before = await sharp(original).raw().toBuffer();
+    const after = await sharp(stamped).raw().toBuffer();
+    expect(after.equals(before)).toBe(true);
+  });
+});
+
+describe('Unsupported formats', () => {
+  it('should leave PNG images unchanged', async () => {
+    const png = await testImage().png().toBuffer();
+
+    expect(embedManifest(png, input)).toBe(png);
+    expect(parseManifest(png)).toBeNull();
+  });
+});
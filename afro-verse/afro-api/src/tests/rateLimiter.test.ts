@@ -0,0 +1,272 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Tests for sliding window rate limiting (in-memory store, no REDIS_URL):
+ * - OTP send/verify limiters
+ * - Generation, feed, respect and upload limiters
+ * - RateLimit-* headers
+ * - Internal caller allowlist
+ * - Sliding window expiry and LRU eviction
+ */
+
+import { Request, Response } from 'express';
+import {
+  otpSendLimiter,
+  otpVerifyLimiter,
+  generationLimiter,
+  feedLimiter,
+  respectLimiter,
+  uploadLimiter,
+  checkRespectToggle,
+} from '../middleware/rateLimiter.middleware';
+import { securityConfig } from '../config/security';
+import { MemoryRateLimitStore } from '../utils/rateLimitStore';
+
+type Middleware = (req: Request, res: Response, next: () => void) => Promise<any>;
+
+let requestCounter = 0;
+
+function mockRequest(overrides: Partial<Request> & { userId?: string } = {}): Request {
+  requestCounter++;
+
+  return {
+    ip: overrides.ip || `10.1.0.${requestCounter}`,
+    headers: overrides.headers || {},
+    body: {},
+    user: overrides.userId ? { id: overrides.userId } : undefined,
+    path: '/',
+  } as unknown as Request;
+}
+
+function mockResponse() {
+  const headers: Record<string, any> = {};
+  const res: any = {
+    statusCode: 200,
+    body: null,
+    headers,
+    setHeader: (name: string, value: any) => { headers[name] = value; },
+    getHeader: (name: string) => headers[name],
+    status(code: number) { this.statusCode = code; return this; },
+    json(body: any) { this.body = body; return this; },
+  };
+  return res;
+}
+
+async function run(middleware: Middleware, req: Request) {
+  const res = mockResponse();
+  let passed = false;
+
+  await middleware(req, res as Response, () => { passed = true; });
+
+  return { passed, res };
+}
+
+/**
+ * Send `limit` requests (all allowed), then one more (rejected)
+ */
+async function expectLimit(middleware: Middleware, makeReq: () => Request, limit: number) {
+  for (let i = 0; i < limit; i++) {
+    const { passed } = await run(middleware, makeReq());
+    expect(passed).toBe(true);
+  }
+
+  const { passed, res } = await run(middleware, makeReq());
+  expect(passed).toBe(false);
+  expect(res.statusCode).toBe(429);
+  expect(res.body.error).toBe('rate_limited');
+  expect(res.headers['Retry-After']).toBeGreaterThan(0);
+}
+
+describe('OTP Limiters', () => {
+  it('should limit OTP sends per phone', async () => {
+    const limiter = otpSendLimiter.phone('+27820000001');
+
+    await expectLimit(limiter, () => mockRequest(), securityConfig.rateLimits.otp.send.perPhone.limit);
+  });
+
+  it('should limit OTP sends per IP', async () => {
+    await expectLimit(
+      otpSendLimiter.ip,
+      () => mockRequest({ ip: '10.2.0.1' }),
+      securityConfig.rateLimits.otp.send.perIp.limit
+    );
+  });
+
+  it('should limit OTP verifies per session', async () => {
+    const limiter = otpVerifyLimiter.session('session-abc');
+
+    await expectLimit(limiter, () => mockRequest(), securityConfig.rateLimits.otp.verify.perSession.limit);
+  });
+
+  it('should track phones independently', async () => {
+    const limitedPhone = otpSendLimiter.phone('+27820000002');
+    const limit = securityConfig.rateLimits.otp.send.perPhone.limit;
+
+    for (let i = 0; i < limit; i++) {
+      await run(limitedPhone, mockRequest());
+    }
+
+    const { passed } = await run(otpSendLimiter.phone('+27820000003'), mockRequest());
+    expect(passed).toBe(true);
+  });
+});
+
+describe('Generation Limiter', () => {
+  it('should limit generations per user per hour', async () => {
+    await expectLimit(
+      generationLimiter.create,
+      () => mockRequest({ userId: 'gen-user-1' }),
+      securityConfig.rateLimits.generation.create.perUserHourly.limit
+    );
+  });
+
+  it('should enforce the daily generation limit', async () => {
+    await expectLimit(
+      generationLimiter.daily,
+      () => mockRequest({ userId: 'gen-user-2' }),
+      securityConfig.rateLimits.generation.create.perUser.limit
+    );
+  });
+});
+
+describe('Feed Limiter', () => {
+  it('should limit feed requests per user', async () => {
+    await expectLimit(
+      feedLimiter,
+      () => mockRequest({ userId: 'feed-user-1' }),
+      securityConfig.rateLimits.feed.perUser.limit
+    );
+  });
+});
+
+describe('Respect Limiter', () => {
+  it('should limit respects per user', async () => {
+    await expectLimit(
+      respectLimiter,
+      () => mockRequest({ userId: 'respect-user-1' }),
+      securityConfig.rateLimits.respect.perUser.limit
+    );
+  });
+
+  it('should debounce respect toggles', async () => {
+    expect(await checkRespectToggle('post-1', 'respect-user-2')).toBe(true);
+    expect(await checkRespectToggle('post-1', 'respect-user-2')).toBe(false);
+    expect(await checkRespectToggle('post-2', 'respect-user-2')).toBe(true);
+  });
+});
+
+describe('Upload Limiter', () => {
+  it('should limit upload inits per user', async () => {
+    await expectLimit(
+      uploadLimiter.user,
+      () => mockRequest({ userId: 'upload-user-1' }),
+      securityConfig.rateLimits.upload.init.perUser.limit
+    );
+  });
+
+  it('should limit upload inits per IP', async () => {
+    await expectLimit(
+      uploadLimiter.ip,
+      () => mockRequest({ ip: '10.3.0.1' }),
+      securityConfig.rateLimits.upload.init.perIp.limit
+    );
+  });
+});
+
+describe('Rate Limit Headers', () => {
+  it('should set RateLimit-* headers', async () => {
+    const { res } = await run(respectLimiter, mockRequest({ userId: 'header-user-1' }));
+    const config = securityConfig.rateLimits.respect.perUser;
+
+    expect(res.headers['RateLimit-Limit']).toBe(config.limit);
+    expect(res.headers['RateLimit-Remaining']).toBe(config.limit - 1);
+    expect(res.headers['RateLimit-Reset']).toBe(config.window);
+    expect(res.headers['RateLimit-Policy']).toBe(`${config.limit};w=${config.window}`);
+  });
+});
+
+describe('Allowlist', () => {
+  const allowlist = securityConfig.rateLimits.allowlist;
+
+  afterEach(() => {
+    allowlist.ips = [];
+    allowlist.token = null;
+  });
+
+  it('should skip limits for allowlisted IPs', async () => {
+    allowlist.ips = ['10.4.0.1'];
+    const limit = securityConfig.rateLimits.otp.send.perIp.limit;
+
+    for (let i = 0; i < limit + 5; i++) {
+      const { passed } = await run(otpSendLimiter.ip, mockRequest({ ip: '10.4.0.1' }));
+      expect(passed).toBe(true);
+    }
+  });
+
+  it('should skip limits for requests with the internal token', async () => {
+    allowlist.token = 'internal-secret';
+    const limit = securityConfig.rateLimits.otp.send.perIp.limit;
+
+    for (let i = 0; i < limit + 5; i++) {
+      const req = mockRequest({ ip: '10.4.0.2', headers: { 'x-internal-token': 'internal-secret' } as any });
+      const { passed } = await run(otpSendLimiter.ip, req);
+      expect(passed).toBe(true);
+    }
+  });
+
+  it('should not skip limits for a wrong token', async () => {
+    allowlist.token = 'internal-secret';
+
+    await expectLimit(
+      otpSendLimiter.ip,
+      () => mockRequest({ ip: '10.4.0.3', headers: { 'x-internal-token': 'wrong' } as any }),
+      securityConfig.rateLimits.otp.send.perIp.limit
+    );
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  const config = { limit: 2, window: 60 };
+
+  it('should free capacity as requests leave the window', async () => {
+    const store = new MemoryRateLimitStore(100);
+    const start = Date.now();
+
+    expect((await store.hit('k', config, start)).allowed).toBe(true);
+    expect((await store.hit('k', config, start + 30 * 1000)).allowed).toBe(true);
+    expect((await store.hit('k', config, start + 45 * 1000)).allowed).toBe(false);
+
+    // First request has aged out, second is still in the window
+    const result = await store.hit('k', config, start + 61 * 1000);
+    expect(result.allowed).toBe(true);
+    expect(result.remaining).toBe(0);
+    expect(result.resetAt).toBe(start + 90 * 1000);
+  });
+
+  it('should not count rejected requests', async () => {
+    const store = new MemoryRateLimitStore(100);
+    const start = Date.now();
+
+    await store.hit('k', config, start);
+    await store.hit('k', config, start);
+
+    for (let i = 1; i <= 10; i++) {
+      expect((await store.hit('k', config, start + i * 1000)).allowed).toBe(false);
+    }
+
+    expect((await store.hit('k', config, start + 61 * 1000)).allowed).toBe(true);
+  });
+
+  it('should evict least recently used keys', async () => {
+    const store = new MemoryRateLimitStore(2);
+
+    await store.hit('a', config);
+    await store.hit('b', config);
+    await store.hit('a', config); // a is now most recent
+    await store.hit('c', config); // evicts b
+
+    expect(store.size).toBe(2);
+    expect((await store.hit('a', config)).allowed).toBe(false);
+    expect((await store.hit('b', config)).remaining).toBe(1);
+  });
+});
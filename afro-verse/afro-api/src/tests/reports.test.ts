@@ -0,0 +1,194 @@
+/**
+ * Report Tests
+ *
+ * Tests the report queue and resolution (model queries stubbed, no database):
+ * - Dismissing restores only posts flagged by report weight
+ * - Post and caption reports on one post resolve together
+ * - The queue groups post and caption reports on one post
+ */
+
+import { Types } from 'mongoose';
+import { Report } from '../models/Report';
+import { Post } from '../models/Post';
+import { User } from '../models/User';
+import { resolveReport, listReportQueue } from '../services/report.service';
+
+/**
+ * Thenable stand-in for a mongoose query
+ */
+function query<T>(result: T): any {
+  const chain: any = {
+    sort: () => chain,
+    limit: () => chain,
+    select: () => chain,
+    lean: () => chain,
+    then: (resolve: (value: T) => any, reject: (error: any) => any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+}
+
+/**
+ * Whether a document matches a filter of equalities and `$exists`
+ */
+function matches(doc: any, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([path, condition]) => {
+    const value = path.split('.').reduce((node, key) => node?.[key], doc);
+
+    if (condition && typeof condition === 'object' && '$exists' in condition) {
+      return (value !== undefined) === condition.$exists;
+    }
+
+    return String(value) === String(condition);
+  });
+}
+
+const moderatorId = new Types.ObjectId();
+const postId = new Types.ObjectId();
+const authorId = new Types.ObjectId();
+
+let post: any;
+let restored: boolean;
+let resolvedFilter: any;
+
+function stubReport(targetType: 'post' | 'caption') {
+  jest.spyOn(Report, 'findById').mockImplementation((() =>
+    query({
+      _id: new Types.ObjectId(),
+      targetType,
+      targetId: postId,
+      targetUserId: authorId,
+      reason: 'spam',
+      status: 'open',
+    })) as any);
+}
+
+describe('resolveReport', () => {
+  beforeAll(() => {
+    jest.spyOn(Report, 'exists').mockImplementation((() => query(null)) as any);
+    jest.spyOn(Report, 'updateMany').mockImplementation(((filter: any) => {
+      resolvedFilter = filter;
+      return query({ modifiedCount: 2 });
+    }) as any);
+    jest.spyOn(Post, 'exists').mockImplementation(((filter: any) =>
+      query(matches(post, filter) ? { _id: post._id } : null)) as any);
+    jest.spyOn(Post, 'findOneAndUpdate').mockImplementation((() => {
+      restored = true;
+      return query(post);
+    }) as any);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  function flaggedPost(moderation: Record<string, any>) {
+    restored = false;
+    post = { _id: postId, status: 'flagged', moderation: { flaggedAt: new Date(), ...moderation } };
+  }
+
+  it('restores a post flagged by report weight when dismissed', async () => {
+    flaggedPost({ reason: 'Reported: spam', source: 'reports' });
+    stubReport('post');
+
+    const result = await resolveReport(new Types.ObjectId().toString(), moderatorId.toString(), {
+      action: 'dismiss',
+    });
+
+    expect(result.success).toBe(true);
+    expect(restored).toBe(true);
+  });
+
+  it('keeps a likely repost flagged when an unrelated report is dismissed', async () => {
+    flaggedPost({ reason: `possible_repost:${new Types.ObjectId()}`, source: 'duplicate' });
+    stubReport('caption');
+
+    const result = await resolveReport(new Types.ObjectId().toString(), moderatorId.toString(), {
+      action: 'dismiss',
+    });
+
+    expect(result.success).toBe(true);
+    expect(restored).toBe(false);
+  });
+
+  it('keeps a moderator\'s own flag when dismissed', async () => {
+    flaggedPost({ reason: 'Reported: spam', source: 'reports', moderatorId: new Types.ObjectId() });
+    stubReport('post');
+
+    await resolveReport(new Types.ObjectId().toString(), moderatorId.toString(), { action: 'dismiss' });
+
+    expect(restored).toBe(false);
+  });
+
+  it('resolves post and caption reports on the post together', async () => {
+    flaggedPost({ reason: 'Reported: spam', source: 'reports' });
+    stubReport('caption');
+
+    const result = await resolveReport(new Types.ObjectId().toString(), moderatorId.toString(), {
+      action: 'dismiss',
+    });
+
+    expect(result.resolved).toBe(2);
+    expect(resolvedFilter.targetType).toEqual({ $in: ['post', 'caption'] });
+    expect(resolvedFilter.targetId).toBe(postId);
+  });
+});
+
+describe('listReportQueue', () => {
+  let pipeline: any[];
+
+  beforeAll(() => {
+    jest.spyOn(Report, 'aggregate').mockImplementation(((stages: any[]) => {
+      pipeline = stages;
+      return query([
+        {
+          _id: { targetType: 'post', targetId: postId },
+          targetTypes: ['caption', 'post'],
+          reportId: new Types.ObjectId(),
+          targetUserId: authorId,
+          reportCount: 2,
+          totalWeight: 3,
+          reasons: ['spam', 'harassment'],
+          details: [null, 'rude caption'],
+          claimedBy: null,
+          claimedAt: null,
+          resolution: null,
+          lastReportedAt: new Date(),
+        },
+      ]);
+    }) as any);
+    jest.spyOn(Post, 'find').mockImplementation((() =>
+      query([{ _id: postId, caption: 'hi', media: {}, status: 'active' }])) as any);
+    jest.spyOn(User, 'find').mockImplementation((() =>
+      query([{ _id: authorId, username: 'author', displayName: 'Author', status: {} }])) as any);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('groups post and caption reports on one post', async () => {
+    const { items } = await listReportQueue({});
+
+    const group = pipeline.find((stage) => stage.$group).$group;
+    expect(group._id.targetType).toEqual({
+      $cond: [{ $in: ['$targetType', ['post', 'caption']] }, 'post', '$targetType'],
+    });
+
+    expect(items).toHaveLength(1);
+    expect(items[0].targetType).toBe('post');
+    expect(items[0].totalWeight).toBe(3);
+    expect(items[0].post?.postId).toBe(postId.toString());
+  });
+
+  it('filters by report type after grouping', async () => {
+    await listReportQueue({ targetType: 'caption' });
+
+    const groupIndex = pipeline.findIndex((stage) => stage.$group);
+    const filterIndex = pipeline.findIndex((stage) => stage.$match?.targetTypes);
+
+    expect(pipeline[0].$match.targetType).toBeUndefined();
+    expect(pipeline[filterIndex].$match.targetTypes).toBe('caption');
+    expect(filterIndex).toBeGreaterThan(groupIndex);
+  });
+});
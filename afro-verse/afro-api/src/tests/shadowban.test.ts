@@ -0,0 +1,364 @@
+/**
+ * Shadowban Tests
+ *
+ * Tests that shadowbanned users are hidden on every read path (model
+ * queries stubbed, no database):
+ * - Expiry-aware shadowban checks
+ * - Feed, hot feed, tribe posts, tag pages, profile grid
+ * - Search, tribe members, comments
+ * - Tribe counters, daily snapshots and trending tags
+ * - A shadowbanned user still sees their own content
+ */
+
+import { Types } from 'mongoose';
+import { User } from '../models/User';
+import { Post } from '../models/Post';
+import { Tribe } from '../models/Tribe';
+import { Tag } from '../models/Tag';
+import { Block } from '../models/Block';
+import { Mute } from '../models/Mute';
+import { Respect } from '../models/Respect';
+import { Comment } from '../models/Comment';
+import { TribeSnapshot } from '../models/TribeSnapshot';
+import { mongoBackend } from '../search/mongo';
+import {
+  isShadowbanActive,
+  isModerated,
+  getHiddenAuthorIds,
+  invalidateModeratedUsers,
+} from '../services/visibility.service';
+import { getFeed, getHotFeed } from '../services/feed.service';
+import { getTribePosts, getTribeMembers, repairTribeCounters } from '../services/tribe.service';
+import { getUserPosts } from '../services/post.service';
+import { getTagPosts, getTrendingTags } from '../services/tag.service';
+import { listComments } from '../services/comment.service';
+import { search } from '../services/search.service';
+import { captureTribeSnapshots } from '../services/tribeStats.service';
+import { cacheService } from '../config/redis';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const viewerId = new Types.ObjectId();
+const shadowbannedId = new Types.ObjectId();
+const expiredId = new Types.ObjectId();
+const bannedId = new Types.ObjectId();
+const tribeId = new Types.ObjectId();
+
+const users = [
+  { _id: viewerId, username: 'viewer', status: { banned: false, shadowbanned: false } },
+  {
+    _id: shadowbannedId,
+    username: 'shadowed',
+    status: { banned: false, shadowbanned: true, shadowbanExpiresAt: null },
+  },
+  {
+    _id: expiredId,
+    username: 'expired',
+    status: { banned: false, shadowbanned: true, shadowbanExpiresAt: new Date(Date.now() - HOUR_MS) },
+  },
+  { _id: bannedId, username: 'banned', status: { banned: true, shadowbanned: false } },
+];
+
+/**
+ * Thenable stand-in for a mongoose query
+ */
+function query<T>(result: T): any {
+  const chain: any = {
+    sort: () => chain,
+    limit: () => chain,
+    skip: () => chain,
+    select: () => chain,
+    lean: () => chain,
+    then: (resolve: (value: T) => any, reject: (error: any) => any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+}
+
+// Queries seen by the stubs, reset per test
+let postQueries: any[] = [];
+let userQueries: any[] = [];
+let commentQueries: any[] = [];
+let countQueries: any[] = [];
+let pipelines: any[] = [];
+
+function reset() {
+  postQueries = [];
+  userQueries = [];
+  commentQueries = [];
+  countQueries = [];
+  pipelines = [];
+  return invalidateModeratedUsers();
+}
+
+/**
+ * Ids excluded by a `{ $nin }` condition (as strings)
+ */
+function excluded(condition: any): string[] {
+  return (condition?.$nin || []).map((id: Types.ObjectId) => id.toString());
+}
+
+function expectHidesModerated(condition: any) {
+  const ids = excluded(condition);
+  expect(ids).toContain(shadowbannedId.toString());
+  expect(ids).toContain(bannedId.toString());
+  expect(ids).not.toContain(expiredId.toString());
+  expect(ids).not.toContain(viewerId.toString());
+}
+
+beforeAll(() => {
+  jest.spyOn(User, 'find').mockImplementation(((filter: any) => {
+    // Moderated user lookup (visibility.service)
+    if (JSON.stringify(filter).includes('status.banned')) {
+      return query(users.filter((user) => isModerated(user.status)).map((user) => ({ _id: user._id })));
+    }
+
+    userQueries.push(filter);
+
+    if (filter?._id?.$in) {
+      const ids = filter._id.$in.map((id: Types.ObjectId) => id.toString());
+      return query(users.filter((user) => ids.includes(user._id.toString())));
+    }
+
+    return query([]);
+  }) as any);
+  jest.spyOn(User, 'findById').mockImplementation((() => query({ _id: viewerId, tribeId })) as any);
+  jest.spyOn(User, 'findOne').mockImplementation(((filter: any) =>
+    query(users.find((user) => user.username === filter.username) || null)) as any);
+  jest.spyOn(User, 'countDocuments').mockImplementation(((filter: any) => {
+    countQueries.push({ model: 'User', filter });
+    return query(0);
+  }) as any);
+  jest.spyOn(User, 'aggregate').mockImplementation(((pipeline: any[]) => {
+    pipelines.push({ model: 'User', pipeline });
+    return query([]);
+  }) as any);
+
+  jest.spyOn(Post, 'find').mockImplementation(((filter: any) => {
+    postQueries.push(filter);
+    return query([]);
+  }) as any);
+  jest.spyOn(Post, 'findById').mockImplementation((() =>
+    query({ _id: new Types.ObjectId(), userId: viewerId, status: 'active' })) as any);
+  jest.spyOn(Post, 'countDocuments').mockImplementation(((filter: any) => {
+    countQueries.push({ model: 'Post', filter });
+    return query(0);
+  }) as any);
+  jest.spyOn(Post, 'aggregate').mockImplementation(((pipeline: any[]) => {
+    pipelines.push({ model: 'Post', pipeline });
+    return query([]);
+  }) as any);
+
+  jest.spyOn(Comment, 'find').mockImplementation(((filter: any) => {
+    commentQueries.push(filter);
+    return query([]);
+  }) as any);
+
+  jest.spyOn(Respect, 'aggregate').mockImplementation(((pipeline: any[]) => {
+    pipelines.push({ model: 'Respect', pipeline });
+    return query([]);
+  }) as any);
+
+  const tribe = { _id: tribeId, slug: 'lagos', name: 'Lagos', createdAt: new Date(0), stats: {} };
+  jest.spyOn(Tribe, 'find').mockImplementation((() => query([tribe])) as any);
+  jest.spyOn(Tribe, 'findOne').mockImplementation((() => query(tribe)) as any);
+
+  jest.spyOn(Tag, 'findOne').mockImplementation((() =>
+    query({ slug: 'afro', label: 'afro', postCount: 1, kinds: ['hashtag'] })) as any);
+  jest.spyOn(Tag, 'find').mockImplementation((() => query([])) as any);
+
+  jest.spyOn(Block, 'find').mockImplementation((() => query([])) as any);
+  jest.spyOn(Mute, 'find').mockImplementation((() => query([])) as any);
+
+  jest.spyOn(TribeSnapshot, 'find').mockImplementation((() => query([])) as any);
+  jest.spyOn(TribeSnapshot, 'aggregate').mockImplementation((() => query([])) as any);
+  jest.spyOn(TribeSnapshot, 'create').mockImplementation((() => Promise.resolve({})) as any);
+  jest.spyOn(TribeSnapshot, 'updateOne').mockImplementation((() => query({})) as any);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Shadowban status', () => {
+  it('is active until it expires', () => {
+    const now = new Date();
+    const inAnHour = new Date(now.getTime() + HOUR_MS);
+    const anHourAgo = new Date(now.getTime() - HOUR_MS);
+
+    expect(isShadowbanActive({ shadowbanned: true }, now)).toBe(true);
+    expect(isShadowbanActive({ shadowbanned: true, shadowbanExpiresAt: null }, now)).toBe(true);
+    expect(isShadowbanActive({ shadowbanned: true, shadowbanExpiresAt: inAnHour }, now)).toBe(true);
+    expect(isShadowbanActive({ shadowbanned: true, shadowbanExpiresAt: anHourAgo }, now)).toBe(false);
+    expect(isShadowbanActive({ shadowbanned: false }, now)).toBe(false);
+    expect(isShadowbanActive(null, now)).toBe(false);
+  });
+
+  it('counts banned users as moderated', () => {
+    expect(isModerated({ banned: true })).toBe(true);
+    expect(isModerated({ banned: false, shadowbanned: false })).toBe(false);
+  });
+
+  it('hides moderated users from others but not from themselves', async () => {
+    await reset();
+
+    expectHidesModerated({ $nin: await getHiddenAuthorIds(viewerId.toString()) });
+
+    const ownView = excluded({ $nin: await getHiddenAuthorIds(shadowbannedId.toString()) });
+    expect(ownView).not.toContain(shadowbannedId.toString());
+    expect(ownView).toContain(bannedId.toString());
+  });
+
+  it('hides moderated users from signed-out viewers', async () => {
+    await reset();
+
+    expectHidesModerated({ $nin: await getHiddenAuthorIds() });
+  });
+});
+
+describe('Read paths', () => {
+  it('excludes shadowbanned authors from the feed', async () => {
+    await reset();
+    await getFeed(viewerId.toString(), 10);
+
+    expect(postQueries).toHaveLength(2); // Tribe and discovery streams
+    for (const filter of postQueries) {
+      expectHidesModerated(filter.userId);
+    }
+  });
+
+  it('keeps a shadowbanned viewer\'s own posts in their feed', async () => {
+    await reset();
+    await getFeed(shadowbannedId.toString(), 10);
+
+    for (const filter of postQueries) {
+      expect(excluded(filter.userId)).not.toContain(shadowbannedId.toString());
+    }
+  });
+
+  it('excludes shadowbanned authors from the hot feed', async () => {
+    await reset();
+    await getHotFeed(viewerId.toString(), 10);
+
+    expect(postQueries).toHaveLength(1);
+    expectHidesModerated(postQueries[0].userId);
+  });
+
+  it('excludes shadowbanned authors from tribe posts', async () => {
+    await reset();
+    await getTribePosts('lagos', viewerId.toString());
+
+    expect(postQueries).toHaveLength(1);
+    expectHidesModerated(postQueries[0].userId);
+  });
+
+  it('excludes shadowbanned authors from tag pages', async () => {
+    await reset();
+    await getTagPosts('afro', viewerId.toString());
+
+    expect(postQueries).toHaveLength(1);
+    const condition = postQueries[0].$and.find((entry: any) => entry.userId);
+    expectHidesModerated(condition.userId);
+  });
+
+  it('hides a shadowbanned profile grid from others only', async () => {
+    await reset();
+    const others = await getUserPosts('shadowed', 20, undefined, viewerId.toString());
+
+    expect(others.posts).toHaveLength(0);
+    expect(postQueries).toHaveLength(0);
+
+    await getUserPosts('shadowed', 20, undefined, shadowbannedId.toString());
+
+    expect(postQueries).toHaveLength(1);
+    expect(postQueries[0].userId.toString()).toBe(shadowbannedId.toString());
+  });
+
+  it('shows a profile grid again once the shadowban expires', async () => {
+    await reset();
+    await getUserPosts('expired', 20, undefined, viewerId.toString());
+
+    expect(postQueries).toHaveLength(1);
+  });
+
+  it('excludes shadowbanned authors from comments', async () => {
+    await reset();
+    await listComments(new Types.ObjectId().toString(), viewerId.toString());
+
+    expect(commentQueries).toHaveLength(1);
+    expectHidesModerated(commentQueries[0].userId);
+  });
+
+  it('excludes shadowbanned users from tribe members', async () => {
+    await reset();
+    await getTribeMembers('lagos', 20, undefined, viewerId.toString());
+
+    expect(userQueries).toHaveLength(1);
+    expectHidesModerated(userQueries[0]._id);
+  });
+
+  it('excludes shadowbanned authors from post search', async () => {
+    await reset();
+    const searchPosts = jest.spyOn(mongoBackend, 'searchPosts').mockResolvedValue([]);
+
+    const result = await search(viewerId.toString(), 'afro', 'posts');
+
+    expect(result.success).toBe(true);
+    expectHidesModerated({ $nin: searchPosts.mock.calls[0][0].filters.excludeUserIds });
+    searchPosts.mockRestore();
+  });
+
+  it('drops shadowbanned users from user search except for themselves', async () => {
+    await reset();
+    const ids = [shadowbannedId, expiredId, bannedId].map((id) => id.toString());
+    const searchUsers = jest.spyOn(mongoBackend, 'searchUsers').mockResolvedValue(ids);
+
+    const result = await search(viewerId.toString(), 'user', 'users');
+    expect(result.results?.users?.map((user) => user.username)).toEqual(['expired']);
+
+    const own = await search(shadowbannedId.toString(), 'user', 'users');
+    expect(own.results?.users?.map((user) => user.username)).toEqual(['shadowed', 'expired']);
+    searchUsers.mockRestore();
+  });
+});
+
+describe('Counters', () => {
+  it('excludes shadowbanned users from tribe counter repair', async () => {
+    await reset();
+    await repairTribeCounters();
+
+    const members = countQueries.find((entry) => entry.model === 'User');
+    const posts = countQueries.find((entry) => entry.model === 'Post');
+
+    expectHidesModerated(members.filter._id);
+    expectHidesModerated(posts.filter.userId);
+  });
+
+  it('excludes shadowbanned users from daily snapshots', async () => {
+    await reset();
+    const day = new Date(Date.UTC(2026, 0, 15));
+    await captureTribeSnapshots(day);
+
+    const postMatches = pipelines.filter((entry) => entry.model === 'Post').map((entry) => entry.pipeline[0].$match);
+    const memberMatch = pipelines.find((entry) => entry.model === 'User').pipeline[0].$match;
+    const respectMatch = pipelines
+      .find((entry) => entry.model === 'Respect')
+      .pipeline.find((stage: any) => stage.$match?.['post.status']).$match;
+
+    expect(postMatches).toHaveLength(3);
+    for (const match of postMatches) {
+      expectHidesModerated(match.userId);
+    }
+    expectHidesModerated(memberMatch._id);
+    expectHidesModerated(respectMatch['post.userId']);
+  });
+
+  it('excludes shadowbanned users from trending tags', async () => {
+    await reset();
+    await cacheService.del('trending_tags:24h');
+    await getTrendingTags('24h');
+
+    const match = pipelines.find((entry) => entry.model === 'Post').pipeline[0].$match;
+    expectHidesModerated(match.userId);
+  });
+});
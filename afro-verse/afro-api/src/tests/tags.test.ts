@@ -0,0 +1,55 @@
+/**
+ * Tag Parsing Tests
+ *
+ * Tests for hashtag/style-tag normalization (no database):
+ * - Slugs are lowercase, accent-folded and underscore-joined
+ * - Caption hashtags are extracted once, in order
+ * - Post tags put the preset style first and respect the cap
+ */
+
+import { normalizeTag, extractHashtags, MAX_TAGS_PER_POST } from '../utils/tags';
+import { buildPostTags } from '../services/tag.service';
+
+describe('Tag parsing', () => {
+  it('normalizes hashtags and style names to one slug', () => {
+    expect(normalizeTag('#AfroFuturism')).toBe('afrofuturism');
+    expect(normalizeTag('Afro Futurism')).toBe('afro_futurism');
+    expect(normalizeTag('afro_futurism')).toBe('afro_futurism');
+    expect(normalizeTag('Café Noir!')).toBe('cafe_noir');
+  });
+
+  it('rejects tags with nothing usable left', () => {
+    expect(normalizeTag('#')).toBeNull();
+    expect(normalizeTag('a')).toBeNull();
+    expect(normalizeTag('🔥🔥')).toBeNull();
+  });
+
+  it('caps slugs at 30 characters without a trailing underscore', () => {
+    const slug = normalizeTag('a'.repeat(29) + ' b');
+    expect(slug).toBe('a'.repeat(29));
+  });
+
+  it('extracts caption hashtags once, in order', () => {
+    const hashtags = extractHashtags('Sunday fit #Amapiano #heritage and #amapiano again');
+    expect(hashtags.map((tag) => tag.slug)).toEqual(['amapiano', 'heritage']);
+    expect(hashtags[0].label).toBe('Amapiano');
+  });
+
+  it('ignores anchors and mid-word hashes', () => {
+    expect(extractHashtags('see page#2 and a&#39;s')).toEqual([]);
+    expect(extractHashtags(undefined)).toEqual([]);
+  });
+
+  it('puts the preset style tag first and de-duplicates hashtags against it', () => {
+    const tags = buildPostTags('#zulu_beadwork #fresh', 'Zulu Beadwork');
+    expect(tags).toEqual([
+      { slug: 'zulu_beadwork', label: 'Zulu Beadwork', kind: 'style' },
+      { slug: 'fresh', label: 'fresh', kind: 'hashtag' },
+    ]);
+  });
+
+  it('caps tags per post', () => {
+    const caption = Array.from({ length: 15 }, (_, i) => `#tag${i}`).join(' ');
+    expect(buildPostTags(caption, null)).toHaveLength(MAX_TAGS_PER_POST);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Watermark Tests
+ *
+ * Tests for the invisible (DCT) watermark:
+ * - Reed-Solomon error correction
+ * - Payload round trip and imperceptibility
+ * - Survival of JPEG recompression, resizing and cropping
+ * - No false positives on unmarked images
+ */
+
+import sharp from 'sharp';
+import {
+  applyInvisibleWatermark,
+  applyVisibleWatermark,
+  createWatermarkMetadata,
+  extractInvisibleWatermark,
+  verifyWatermark,
+} from '../services/watermark.service';
+import { rsEncode, rsDecode } from '../utils/reedSolomon';
+
+const TRANSFORMATION_ID = '65f1c2a9b7e4d3a1c0ffee12';
+const WIDTH = 768;
+const HEIGHT = 1024;
+
+jest.setTimeout(60000);
+
+/**
+ * Textured test image (flat colours carry no natural DCT energy)
+ */
+async function createTestImage(): Promise<Buffer> {
+  const noise = await sharp({
+    create: {
+      width: WIDTH,
+      height: HEIGHT,
+      channels: 3,
+      background: { r: 0, g: 0, b: 0 },
+      noise: { type: 'gaussian', mean: 128, sigma: 30 },
+    },
+  })
+    .blur(1.5)
+    .png()
+    .toBuffer();
+
+  const shapes = Buffer.from(`
+    <svg width="${WIDTH}" height="${HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+          <stop offset="0" stop-color="#6b3fa0"/>
+          <stop offset="1" stop-color="#f2b134"/>
+        </linearGradient>
+      </defs>
+      <rect width="100%" height="100%" fill="url(#g)"/>
+      <circle cx="300" cy="400" r="220" fill="#3a2a1f"/>
+      <rect x="80" y="800" width="600" height="120" fill="#204060"/>
+    </svg>
+  `);
+
+  return sharp(shapes)
+    .composite([{ input: noise, blend: 'overlay' }])
+    .removeAlpha()
+    .png()
+    .toBuffer();
+}
+
+describe('Reed-Solomon codec', () => {
+  const message = Uint8Array.from({ length: 16 }, (_, i) => (i * 37 + 11) & 0xff);
+
+  it('should correct up to parity/2 byte errors', () => {
+    const codeword = rsEncode(message, 8);
+    const damaged = Uint8Array.from(codeword);
+    [0, 7, 15, 23].forEach((position) => {
+      damaged[position] ^= 0x5a;
+    });
+
+    const decoded = rsDecode(damaged, 8);
+
+    expect(decoded).not.toBeNull();
+    expect(Buffer.from(decoded!.message).equals(Buffer.from(message))).toBe(true);
+    expect(decoded!.corrected).toBe(4);
+  });
+
+  it('should reject codewords with too many errors', () => {
+    const codeword = rsEncode(message, 8);
+    const damaged = Uint8Array.from(codeword);
+    [1, 3, 5, 9, 12, 20].forEach((position) => {
+      damaged[position] ^= 0xff;
+    });
+
+    const decoded = rsDecode(damaged, 8);
+
+    expect(decoded === null || !Buffer.from(decoded.message).equals(Buffer.from(message))).toBe(true);
+  });
+});
+
+describe('Invisible watermark', () => {
+  let original: Buffer;
+  let watermarked: Buffer;
+
+  beforeAll(async () => {
+    original = await createTestImage();
+    watermarked = await applyInvisibleWatermark(
+      original,
+      createWatermarkMetadata(TRANSFORMATION_ID, 'public')
+    );
+  });
+
+  it('should round-trip the transformation id', async () => {
+    const watermark = await extractInvisibleWatermark(watermarked);
+
+    expect(watermark).not.toBeNull();
+    expect(watermark!.transformationId).toBe(TRANSFORMATION_ID);
+    expect(watermark!.visibilityType).toBe('public');
+    expect(watermark!.checksum).toBe(createWatermarkMetadata(TRANSFORMATION_ID).checksum);
+    expect(await verifyWatermark(watermarked, TRANSFORMATION_ID)).toBe(true);
+  });
+
+  it('should be imperceptible', async () => {
+    const before = await sharp(original).raw().toBuffer();
+    const after = await sharp(watermarked).removeAlpha().raw().toBuffer();
+
+    let squaredError = 0;
+    for (let i = 0; i < before.length; i++) {
+      squaredError += (before[i] - after[i]) ** 2;
+    }
+    const psnr = 10 * Math.log10((255 * 255) / (squaredError / before.length));
+
+    expect(psnr).toBeGreaterThan(40);
+  });
+
+  it('should survive JPEG recompression', async () => {
+    const recompressed = await sharp(watermarked).jpeg({ quality: 60 }).toBuffer();
+
+    const watermark = await extractInvisibleWatermark(recompressed);
+
+    expect(watermark?.transformationId).toBe(TRANSFORMATION_ID);
+  });
+
+  it('should survive resizing', async () => {
+    const smaller = await sharp(watermarked).resize(384).png().toBuffer();
+    const larger = await sharp(watermarked).resize(1100).png().toBuffer();
+
+    expect((await extractInvisibleWatermark(smaller))?.transformationId).toBe(TRANSFORMATION_ID);
+    expect((await extractInvisibleWatermark(larger))?.transformationId).toBe(TRANSFORMATION_ID);
+  });
+
+  it('should survive cropping', async () => {
+    const cropped = await sharp(watermarked)
+      .extract({ left: 100, top: 37, width: 600, height: 700 })
+      .png()
+      .toBuffer();
+
+    const watermark = await extractInvisibleWatermark(cropped);
+
+    expect(watermark?.transformationId).toBe(TRANSFORMATION_ID);
+  });
+
+  it('should survive visible watermark, crop, resize and JPEG together', async () => {
+    const withVisible = await applyVisibleWatermark(watermarked);
+    const reshared = await sharp(withVisible)
+      .extract({ left: 50, top: 70, width: 650, height: 860 })
+      .resize(480)
+      .jpeg({ quality: 75 })
+      .toBuffer();
+
+    const watermark = await extractInvisibleWatermark(reshared);
+
+    expect(watermark?.transformationId).toBe(TRANSFORMATION_ID);
+  });
+
+  it('should not find a watermark in an unmarked image', async () => {
+    expect(await extractInvisibleWatermark(original)).toBeNull();
+    expect(await verifyWatermark(original)).toBe(false);
+  });
+
+  it('should reject transformation ids that do not fit the payload', async () => {
+    await expect(
+      applyInvisibleWatermark(original, createWatermarkMetadata('not-an-object-id'))
+    ).rejects.toThrow('Failed to apply invisible watermark');
+  });
+});
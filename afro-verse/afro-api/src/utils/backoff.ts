@@ -50,6 +50,9 @@ export function isRetryableError(error: any): boolean {
   // Specific retryable error codes
   const retryableCodes = [
     'model_timeout',
+    'rate_limited',
+    'provider_unavailable',
+    'no_image_returned',
     'network_error',
     'upload_failed',
     'temporary_error',
@@ -70,6 +73,7 @@ export function isNonRetryableError(error: any): boolean {
     'blocked',
     'unsafe_request',
     'invalid_request',
+    'provider_not_configured',
     'missing_selfies',
     'banned_user',
     'quota_exceeded',
@@ -6,6 +6,18 @@ import { Generation } from '../models/Generation';
 import { Post } from '../models/Post';
 import { Respect } from '../models/Respect';
 import { OTPSession } from '../models/OTPSession';
+import { StylePreset } from '../models/StylePreset';
+import { ImageHash } from '../models/ImageHash';
+import { AccountExport } from '../models/AccountExport';
+import { AccountDeletion } from '../models/AccountDeletion';
+import { TribeMembershipHistory } from '../models/TribeMembershipHistory';
+import { Challenge } from '../models/Challenge';
+import { ChallengeEntry } from '../models/ChallengeEntry';
+import { TribeSnapshot } from '../models/TribeSnapshot';
+import { Tag } from '../models/Tag';
+import { Block } from '../models/Block';
+import { Mute } from '../models/Mute';
+import { AuditEvent } from '../models/AuditEvent';
 import { logger } from './logger';
 
 /**
@@ -30,6 +42,18 @@ export async function createIndexes(): Promise<void> {
       Post.createIndexes(),
       Respect.createIndexes(),
       OTPSession.createIndexes(),
+      StylePreset.createIndexes(),
+      ImageHash.createIndexes(),
+      AccountExport.createIndexes(),
+      AccountDeletion.createIndexes(),
+      TribeMembershipHistory.createIndexes(),
+      Challenge.createIndexes(),
+      ChallengeEntry.createIndexes(),
+      TribeSnapshot.createIndexes(),
+      Tag.createIndexes(),
+      Block.createIndexes(),
+      Mute.createIndexes(),
+      AuditEvent.createIndexes(),
     ]);
     
     logger.info('All indexes created successfully');
@@ -186,6 +210,65 @@ export async function seedDefaultTribes(): Promise<void> {
   }
 }
 
+/**
+ * Seed the original style presets (insert-only; admin edits are kept)
+ */
+export async function seedDefaultStylePresets(): Promise<void> {
+  logger.info('Seeding default style presets...');
+  
+  const defaultPresets = [
+    {
+      slug: 'afrofuturism',
+      title: 'Afrofuturism',
+      promptFragment: 'Afrofuturist aesthetic with vibrant colors, geometric patterns, and futuristic elements. Blend of African cultural motifs with sci-fi technology.',
+      order: 10,
+    },
+    {
+      slug: 'royal',
+      title: 'Royal',
+      promptFragment: 'Royal African aesthetic with traditional royal attire, crowns, jewelry, and regal posture. Rich fabrics like kente or mudcloth.',
+      order: 20,
+    },
+    {
+      slug: 'street',
+      title: 'Street',
+      promptFragment: 'Contemporary street style with modern urban fashion, bold colors, and confident attitude.',
+      order: 30,
+    },
+    {
+      slug: 'vintage',
+      title: 'Vintage',
+      promptFragment: 'Vintage portrait style with classic photography aesthetics, warm tones, and timeless elegance.',
+      order: 40,
+    },
+    {
+      slug: 'warrior',
+      title: 'Warrior',
+      promptFragment: 'Warrior aesthetic with traditional warrior attire, accessories, and powerful stance.',
+      order: 50,
+    },
+  ];
+  
+  try {
+    for (const presetData of defaultPresets) {
+      const result = await StylePreset.updateOne(
+        { slug: presetData.slug },
+        { $setOnInsert: presetData },
+        { upsert: true }
+      );
+      
+      if (result.upsertedCount > 0) {
+        logger.info(`Created style preset: ${presetData.title}`);
+      }
+    }
+    
+    logger.info('Default style presets seeded successfully');
+  } catch (error) {
+    logger.error('Error seeding style presets:', error);
+    throw error;
+  }
+}
+
 /**
  * Complete database initialization
  */
@@ -196,6 +279,7 @@ export async function initializeDatabase(): Promise<void> {
     await createIndexes();
     await validateDatabase();
     await seedDefaultTribes();
+    await seedDefaultStylePresets();
     
     const stats = await getDatabaseStats();
     logger.info('Database initialized successfully', stats);
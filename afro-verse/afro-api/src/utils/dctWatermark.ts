@@ -0,0 +1,425 @@
+/**
+ * DCT Watermark
+ *
+ * Frequency-domain payload embedding on a luma plane (one float per pixel,
+ * 0-255), independent of any container metadata.
+ *
+ * How it works:
+ * - The luma plane is area-resampled to a canonical width. All embedding
+ *   happens in that canonical frame, so proportional resizes of the
+ *   published image land back on the same grid.
+ * - The canonical frame is cut into 8x8 blocks. Three low-frequency DCT
+ *   coefficients per block each carry one bit via dithered quantization
+ *   index modulation (QIM).
+ * - A tile of 8x8 blocks carries one full codeword (192 bits, interleaved)
+ *   and is repeated across the image; the extractor sums votes over every
+ *   tile, so local damage (visible watermark, stickers, heavy JPEG in one
+ *   region) is outvoted.
+ * - The canonical-frame delta is upsampled back to the source size and
+ *   re-measured a few times so the resampling round trip converges on the
+ *   quantized targets.
+ *
+ * Extraction searches canonical scale (for crops, which change the frame
+ * width), block alignment (8x8 pixel offsets) and tile alignment (8x8 block
+ * offsets). Each tile alignment is handed to `decode`, which must reject
+ * wrong candidates (RS decoding + checksum in the caller).
+ */
+
+export const CODEWORD_BITS = 192;
+
+const CANONICAL_WIDTH = 256;
+const BLOCK = 8;
+const TILE_BLOCKS = 8;
+const QIM_STEP = 20;
+const EMBED_PASSES = 4;
+const MIN_CROP_FRACTION = 0.7; // Smallest fraction of the width a crop may keep
+const SCALE_STEP = 2; // Canonical width step (px) of the crop search
+const SYNC_CANDIDATES = 4;
+
+// (vertical, horizontal) frequencies of the carrier coefficients
+const COEFFICIENTS: Array<[number, number]> = [[0, 1], [1, 0], [1, 1]];
+
+// Per-coefficient dither keeps flat (zero) coefficients off the lattices
+const DITHER = [0.13, 0.41, 0.77].map((d) => d * QIM_STEP);
+
+const SLOTS_PER_TILE = TILE_BLOCKS * TILE_BLOCKS * COEFFICIENTS.length;
+
+/**
+ * 1D DCT-II basis rows (orthonormal)
+ */
+const BASIS_1D: Float64Array[] = [0, 1].map((u) => {
+  const row = new Float64Array(BLOCK);
+  const scale = u === 0 ? Math.sqrt(1 / BLOCK) : Math.sqrt(2 / BLOCK);
+  for (let i = 0; i < BLOCK; i++) {
+    row[i] = scale * Math.cos(((2 * i + 1) * u * Math.PI) / (2 * BLOCK));
+  }
+  return row;
+});
+
+/**
+ * Slot -> codeword bit interleaving (fixed, seeded shuffle)
+ *
+ * Spreads each byte of the codeword across the tile so a damaged region
+ * costs a few bits of many bytes rather than whole bytes.
+ */
+const SLOT_TO_BIT: Uint16Array = (() => {
+  const order = new Uint16Array(SLOTS_PER_TILE);
+  for (let i = 0; i < SLOTS_PER_TILE; i++) {
+    order[i] = i % CODEWORD_BITS;
+  }
+  let seed = 0x2f6b1d;
+  for (let i = SLOTS_PER_TILE - 1; i > 0; i--) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    const j = seed % (i + 1);
+    const tmp = order[i];
+    order[i] = order[j];
+    order[j] = tmp;
+  }
+  return order;
+})();
+
+export interface LumaPlane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Area-average resample (also handles mild upscaling as nearest/box)
+ */
+function resampleArea(src: LumaPlane, width: number, height: number): LumaPlane {
+  const taps = (srcSize: number, dstSize: number) => {
+    const scale = srcSize / dstSize;
+    const result: Array<{ index: number[]; weight: number[] }> = [];
+    for (let i = 0; i < dstSize; i++) {
+      const start = i * scale;
+      const end = Math.max(start + 1e-6, (i + 1) * scale);
+      const index: number[] = [];
+      const weight: number[] = [];
+      let total = 0;
+      for (let s = Math.floor(start); s < Math.min(srcSize, Math.ceil(end)); s++) {
+        const w = Math.min(end, s + 1) - Math.max(start, s);
+        if (w > 0) {
+          index.push(s);
+          weight.push(w);
+          total += w;
+        }
+      }
+      result.push({ index, weight: weight.map((w) => w / total) });
+    }
+    return result;
+  };
+
+  const xTaps = taps(src.width, width);
+  const yTaps = taps(src.height, height);
+
+  const rows = new Float32Array(width * src.height);
+  for (let y = 0; y < src.height; y++) {
+    const rowOffset = y * src.width;
+    for (let x = 0; x < width; x++) {
+      const { index, weight } = xTaps[x];
+      let sum = 0;
+      for (let k = 0; k < index.length; k++) {
+        sum += src.data[rowOffset + index[k]] * weight[k];
+      }
+      rows[y * width + x] = sum;
+    }
+  }
+
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const { index, weight } = yTaps[y];
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = 0; k < index.length; k++) {
+        sum += rows[index[k] * width + x] * weight[k];
+      }
+      data[y * width + x] = sum;
+    }
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Bilinear resample (pixel-centre aligned), used to upsample the delta
+ */
+function resampleBilinear(src: LumaPlane, width: number, height: number): LumaPlane {
+  const data = new Float32Array(width * height);
+  const sx = src.width / width;
+  const sy = src.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(Math.max((y + 0.5) * sy - 0.5, 0), src.height - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(y0 + 1, src.height - 1);
+    const wy = fy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(Math.max((x + 0.5) * sx - 0.5, 0), src.width - 1);
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(x0 + 1, src.width - 1);
+      const wx = fx - x0;
+
+      const top = src.data[y0 * src.width + x0] * (1 - wx) + src.data[y0 * src.width + x1] * wx;
+      const bottom = src.data[y1 * src.width + x0] * (1 - wx) + src.data[y1 * src.width + x1] * wx;
+      data[y * width + x] = top * (1 - wy) + bottom * wy;
+    }
+  }
+
+  return { data, width, height };
+}
+
+function canonicalHeight(width: number, height: number, canonicalWidth: number): number {
+  return Math.max(1, Math.round((height * canonicalWidth) / width));
+}
+
+/**
+ * Carrier coefficient k of the 8x8 block at (x0, y0)
+ */
+function blockCoefficient(plane: LumaPlane, x0: number, y0: number, k: number): number {
+  const rowBasis = BASIS_1D[COEFFICIENTS[k][0]];
+  const colBasis = BASIS_1D[COEFFICIENTS[k][1]];
+  let sum = 0;
+  for (let y = 0; y < BLOCK; y++) {
+    const offset = (y0 + y) * plane.width + x0;
+    let rowSum = 0;
+    for (let x = 0; x < BLOCK; x++) {
+      rowSum += plane.data[offset + x] * colBasis[x];
+    }
+    sum += rowSum * rowBasis[y];
+  }
+  return sum;
+}
+
+/**
+ * Nearest point of the lattice carrying `bit` for coefficient k
+ */
+function quantize(value: number, bit: number, k: number): number {
+  const offset = DITHER[k] + (bit ? QIM_STEP / 2 : 0);
+  return offset + Math.round((value - offset) / QIM_STEP) * QIM_STEP;
+}
+
+/**
+ * Soft bit in [-1, 1]: positive leans to 0, negative to 1
+ */
+function softBit(value: number, k: number): number {
+  const d0 = Math.abs(value - quantize(value, 0, k));
+  const d1 = Math.abs(value - quantize(value, 1, k));
+  return (d1 - d0) / (QIM_STEP / 2);
+}
+
+/**
+ * Embed a codeword into a luma plane
+ *
+ * Returns the per-pixel luma delta at source resolution; the caller adds
+ * it to every colour channel.
+ */
+export function embedCodeword(luma: LumaPlane, codeword: Uint8Array): Float32Array {
+  if (codeword.length * 8 !== CODEWORD_BITS) {
+    throw new Error(`Codeword must be ${CODEWORD_BITS / 8} bytes`);
+  }
+
+  const bits = new Uint8Array(CODEWORD_BITS);
+  for (let i = 0; i < CODEWORD_BITS; i++) {
+    bits[i] = (codeword[i >> 3] >> (7 - (i & 7))) & 1;
+  }
+
+  const width = CANONICAL_WIDTH;
+  const height = canonicalHeight(luma.width, luma.height, width);
+  const delta = new Float32Array(luma.width * luma.height);
+  const current: LumaPlane = { data: new Float32Array(luma.data), width: luma.width, height: luma.height };
+
+  for (let pass = 0; pass < EMBED_PASSES; pass++) {
+    const canonical = resampleArea(current, width, height);
+    const canonicalDelta: LumaPlane = { data: new Float32Array(width * height), width, height };
+
+    for (let by = 0; by + BLOCK <= height; by += BLOCK) {
+      for (let bx = 0; bx + BLOCK <= width; bx += BLOCK) {
+        const tileIndex = ((by / BLOCK) % TILE_BLOCKS) * TILE_BLOCKS + ((bx / BLOCK) % TILE_BLOCKS);
+
+        for (let k = 0; k < COEFFICIENTS.length; k++) {
+          const value = blockCoefficient(canonical, bx, by, k);
+          const bit = bits[SLOT_TO_BIT[tileIndex * COEFFICIENTS.length + k]];
+          const diff = quantize(value, bit, k) - value;
+
+          const rowBasis = BASIS_1D[COEFFICIENTS[k][0]];
+          const colBasis = BASIS_1D[COEFFICIENTS[k][1]];
+          for (let y = 0; y < BLOCK; y++) {
+            for (let x = 0; x < BLOCK; x++) {
+              canonicalDelta.data[(by + y) * width + bx + x] += diff * rowBasis[y] * colBasis[x];
+            }
+          }
+        }
+      }
+    }
+
+    const upsampled = resampleBilinear(canonicalDelta, luma.width, luma.height);
+    for (let i = 0; i < delta.length; i++) {
+      delta[i] += upsampled.data[i];
+      current.data[i] = Math.min(255, Math.max(0, luma.data[i] + delta[i]));
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * Carrier coefficient maps at every pixel position of a plane
+ *
+ * maps[k][y * width + x] is coefficient k of the block whose top-left
+ * corner is (x, y), so every block alignment can be read without
+ * recomputing (separable: one row pass per horizontal frequency, one
+ * column pass per coefficient).
+ */
+function coefficientMaps(plane: LumaPlane): Float32Array[] {
+  const { width, height, data } = plane;
+  const rowPasses = BASIS_1D.map((basis) => {
+    const out = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      const offset = y * width;
+      for (let x = 0; x + BLOCK <= width; x++) {
+        let sum = 0;
+        for (let i = 0; i < BLOCK; i++) {
+          sum += data[offset + x + i] * basis[i];
+        }
+        out[offset + x] = sum;
+      }
+    }
+    return out;
+  });
+
+  return COEFFICIENTS.map(([u, v]) => {
+    const rows = rowPasses[v];
+    const basis = BASIS_1D[u];
+    const out = new Float32Array(width * height);
+    for (let y = 0; y + BLOCK <= height; y++) {
+      for (let x = 0; x + BLOCK <= width; x++) {
+        let sum = 0;
+        for (let i = 0; i < BLOCK; i++) {
+          sum += rows[(y + i) * width + x] * basis[i];
+        }
+        out[y * width + x] = sum;
+      }
+    }
+    return out;
+  });
+}
+
+interface SyncCandidate {
+  maps: Float32Array[];
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+  score: number; // Mean distance to the nearest lattice point (lower is better)
+}
+
+/**
+ * How well block-aligned coefficients sit on the QIM lattices
+ *
+ * Independent of the payload and of tile alignment, so it can rank
+ * scale/offset hypotheses before any decoding.
+ */
+function syncScore(maps: Float32Array[], width: number, height: number, ox: number, oy: number): number {
+  const half = QIM_STEP / 2;
+  let total = 0;
+  let count = 0;
+
+  for (let y = oy; y + BLOCK <= height; y += BLOCK) {
+    for (let x = ox; x + BLOCK <= width; x += BLOCK) {
+      for (let k = 0; k < maps.length; k++) {
+        const r = ((((maps[k][y * width + x] - DITHER[k]) % half) + half) % half);
+        total += Math.min(r, half - r);
+        count++;
+      }
+    }
+  }
+
+  return count ? total / count / (half / 2) : 1;
+}
+
+/**
+ * Extract a codeword from a (possibly re-encoded, resized or cropped) luma plane
+ *
+ * `decode` is called with candidate codewords, best candidates first, and
+ * returns a result for a valid codeword or null to keep searching.
+ */
+export function extractCodeword<T>(
+  luma: LumaPlane,
+  decode: (codeword: Uint8Array, confidence: number) => T | null
+): T | null {
+  const minWidth = Math.round(CANONICAL_WIDTH * MIN_CROP_FRACTION);
+  const candidates: SyncCandidate[] = [];
+
+  for (let width = CANONICAL_WIDTH; width >= minWidth; width -= SCALE_STEP) {
+    const height = canonicalHeight(luma.width, luma.height, width);
+    if (height < BLOCK * TILE_BLOCKS || width < BLOCK * TILE_BLOCKS) {
+      continue;
+    }
+
+    const maps = coefficientMaps(resampleArea(luma, width, height));
+
+    for (let oy = 0; oy < BLOCK; oy++) {
+      for (let ox = 0; ox < BLOCK; ox++) {
+        const score = syncScore(maps, width, height, ox, oy);
+        if (candidates.length < SYNC_CANDIDATES || score < candidates[candidates.length - 1].score) {
+          candidates.push({ maps, width, height, offsetX: ox, offsetY: oy, score });
+          candidates.sort((a, b) => a.score - b.score);
+          candidates.length = Math.min(candidates.length, SYNC_CANDIDATES);
+        }
+      }
+    }
+  }
+
+  for (const candidate of candidates) {
+    const { maps, width, height, offsetX, offsetY } = candidate;
+
+    // Votes per tile slot, indexed by the block's position in the crop
+    const votes = new Float32Array(SLOTS_PER_TILE);
+    let voteCount = 0;
+    for (let y = offsetY, row = 0; y + BLOCK <= height; y += BLOCK, row++) {
+      for (let x = offsetX, col = 0; x + BLOCK <= width; x += BLOCK, col++) {
+        const tileIndex = (row % TILE_BLOCKS) * TILE_BLOCKS + (col % TILE_BLOCKS);
+        for (let k = 0; k < maps.length; k++) {
+          votes[tileIndex * maps.length + k] += softBit(maps[k][y * width + x], k);
+        }
+        voteCount += maps.length;
+      }
+    }
+
+    // The crop may start anywhere inside a tile: try every tile alignment
+    for (let shiftY = 0; shiftY < TILE_BLOCKS; shiftY++) {
+      for (let shiftX = 0; shiftX < TILE_BLOCKS; shiftX++) {
+        const sums = new Float32Array(CODEWORD_BITS);
+
+        for (let row = 0; row < TILE_BLOCKS; row++) {
+          for (let col = 0; col < TILE_BLOCKS; col++) {
+            const tileIndex = ((row + shiftY) % TILE_BLOCKS) * TILE_BLOCKS + ((col + shiftX) % TILE_BLOCKS);
+            for (let k = 0; k < COEFFICIENTS.length; k++) {
+              const vote = votes[(row * TILE_BLOCKS + col) * COEFFICIENTS.length + k];
+              sums[SLOT_TO_BIT[tileIndex * COEFFICIENTS.length + k]] += vote;
+            }
+          }
+        }
+
+        const codeword = new Uint8Array(CODEWORD_BITS / 8);
+        let agreement = 0;
+        for (let i = 0; i < CODEWORD_BITS; i++) {
+          if (sums[i] < 0) {
+            codeword[i >> 3] |= 1 << (7 - (i & 7));
+          }
+          agreement += Math.abs(sums[i]);
+        }
+
+        // Mean vote strength: 1 for a pristine image, near 0 for noise
+        const result = decode(codeword, voteCount ? agreement / voteCount : 0);
+        if (result) {
+          return result;
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -1,7 +1,7 @@
 import sharp from 'sharp';
 import { logger } from './logger';
-import { getBucket } from '../config/storage';
 import { BUCKETS } from '../config/buckets';
+import { uploadBuffer } from '../services/storage.service';
 import {
   applyWatermarks,
   createWatermarkMetadata,
@@ -206,6 +206,20 @@ export async function validateImage(
   }
 }
 
+/**
+ * Upload a WebP object, throwing on failure
+ */
+async function saveOrThrow(bucket: string, path: string, buffer: Buffer): Promise<void> {
+  const result = await uploadBuffer(bucket, path, buffer, {
+    contentType: 'image/webp',
+    cacheControl: 'public, max-age=31536000',
+  });
+  
+  if (!result.success) {
+    throw new Error(`Failed to upload ${path}: ${result.error}`);
+  }
+}
+
 /**
  * Upload image and thumbnail to GCS with watermarking
  * Uses RAW_GENERATIONS bucket for temporary storage
@@ -222,7 +236,7 @@ export async function uploadImageToGCS(
 ): Promise<{ watermarkedPath?: string; cleanPath?: string }> {
   try {
     // Use RAW_GENERATIONS bucket for AI-generated images (temporary storage with 24h TTL)
-    const bucket = getBucket(BUCKETS.RAW_GENERATIONS);
+    const bucket = BUCKETS.RAW_GENERATIONS;
     
     const applyWatermark = options.applyWatermark !== false; // Default true
     const transformationId = options.transformationId || 'unknown';
@@ -253,41 +267,15 @@ export async function uploadImageToGCS(
     const watermarkedImagePath = imagePath.replace(/(\.[^.]+)$/, '_wm$1');
     const watermarkedThumbPath = thumbPath.replace(/(\.[^.]+)$/, '_wm$1');
     
-    const watermarkedImageFile = bucket.file(watermarkedImagePath);
-    await watermarkedImageFile.save(watermarkedBuffer, {
-      contentType: 'image/webp',
-      metadata: {
-        cacheControl: 'public, max-age=31536000',
-      },
-    });
-    
-    const watermarkedThumbFile = bucket.file(watermarkedThumbPath);
-    await watermarkedThumbFile.save(watermarkedThumbnail, {
-      contentType: 'image/webp',
-      metadata: {
-        cacheControl: 'public, max-age=31536000',
-      },
-    });
+    await saveOrThrow(bucket, watermarkedImagePath, watermarkedBuffer);
+    await saveOrThrow(bucket, watermarkedThumbPath, watermarkedThumbnail);
     
     // Upload clean version (for Pro users / private downloads)
     const cleanImagePath = imagePath.replace(/(\.[^.]+)$/, '_clean$1');
     const cleanThumbPath = thumbPath.replace(/(\.[^.]+)$/, '_clean$1');
     
-    const cleanImageFile = bucket.file(cleanImagePath);
-    await cleanImageFile.save(cleanBuffer, {
-      contentType: 'image/webp',
-      metadata: {
-        cacheControl: 'public, max-age=31536000',
-      },
-    });
-    
-    const cleanThumbFile = bucket.file(cleanThumbPath);
-    await cleanThumbFile.save(cleanThumbnail, {
-      contentType: 'image/webp',
-      metadata: {
-        cacheControl: 'public, max-age=31536000',
-      },
-    });
+    await saveOrThrow(bucket, cleanImagePath, cleanBuffer);
+    await saveOrThrow(bucket, cleanThumbPath, cleanThumbnail);
     
     logger.info('Images uploaded to GCS with watermarks', {
       watermarkedImagePath,
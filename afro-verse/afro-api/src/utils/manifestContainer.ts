@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+
+/**
+ * Manifest Container
+ *
+ * Stores a provenance manifest inside JPEG and WebP files without touching
+ * the image data, and hashes everything except the manifest (the content
+ * binding the manifest signs).
+ *
+ * - JPEG: APP11 segment right after SOI/APP0/APP1, payload prefixed with
+ *   MANIFEST_ID (the slot C2PA uses for JUMBF)
+ * - WebP: 'C2PA' RIFF chunk at the end of the file; simple (VP8/VP8L)
+ *   files are promoted to the extended (VP8X) layout, which is required
+ *   for extra chunks
+ *
+ * Other formats are not supported.
+ */
+
+export type ManifestImageFormat = 'jpeg' | 'webp';
+
+const MANIFEST_ID = Buffer.from('AfroMoji C2PA\0', 'latin1');
+const JPEG_APP11 = 0xeb;
+const JPEG_MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+const WEBP_MANIFEST_CHUNK = 'C2PA';
+
+interface WebpChunk {
+  fourcc: string;
+  data: Buffer;
+}
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number; // Exclusive, includes marker and length
+}
+
+/**
+ * Detect a supported container format
+ */
+export function detectManifestFormat(buffer: Buffer): ManifestImageFormat | null {
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return 'jpeg';
+  }
+
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('latin1', 0, 4) === 'RIFF' &&
+    buffer.toString('latin1', 8, 12) === 'WEBP'
+  ) {
+    return 'webp';
+  }
+
+  return null;
+}
+
+// ============================================================
+// JPEG
+// ============================================================
+
+/**
+ * Header segments up to (not including) start of scan
+ */
+function readJpegSegments(buffer: Buffer): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      throw new Error('Malformed JPEG: expected marker');
+    }
+
+    const marker = buffer[offset + 1];
+
+    // Fill bytes
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    // Start of scan or end of image: entropy-coded data follows
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    const end = offset + 2 + length;
+
+    if (length < 2 || end > buffer.length) {
+      throw new Error('Malformed JPEG: segment overruns file');
+    }
+
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+
+  return segments;
+}
+
+function isJpegManifestSegment(buffer: Buffer, segment: JpegSegment): boolean {
+  const payloadStart = segment.start + 4;
+  return (
+    segment.marker === JPEG_APP11 &&
+    segment.end - payloadStart >= MANIFEST_ID.length &&
+    buffer.subarray(payloadStart, payloadStart + MANIFEST_ID.length).equals(MANIFEST_ID)
+  );
+}
+
+function stripJpegManifest(buffer: Buffer): Buffer {
+  const manifestSegments = readJpegSegments(buffer).filter((s) => isJpegManifestSegment(buffer, s));
+  if (manifestSegments.length === 0) {
+    return buffer;
+  }
+
+  const parts: Buffer[] = [];
+  let offset = 0;
+  for (const segment of manifestSegments) {
+    parts.push(buffer.subarray(offset, segment.start));
+    offset = segment.end;
+  }
+  parts.push(buffer.subarray(offset));
+
+  return Buffer.concat(parts);
+}
+
+function insertJpegManifest(buffer: Buffer, manifest: Buffer): Buffer {
+  const payloadLength = MANIFEST_ID.length + manifest.length;
+  if (payloadLength > JPEG_MAX_SEGMENT_PAYLOAD) {
+    throw new Error('Manifest too large for a JPEG APP11 segment');
+  }
+
+  const clean = stripJpegManifest(buffer);
+
+  // Keep JFIF/EXIF first, as readers expect
+  let insertAt = 2;
+  for (const segment of readJpegSegments(clean)) {
+    if (segment.marker !== 0xe0 && segment.marker !== 0xe1) {
+      break;
+    }
+    insertAt = segment.end;
+  }
+
+  const header = Buffer.alloc(4);
+  header[0] = 0xff;
+  header[1] = JPEG_APP11;
+  header.writeUInt16BE(payloadLength + 2, 2);
+
+  return Buffer.concat([
+    clean.subarray(0, insertAt),
+    header,
+    MANIFEST_ID,
+    manifest,
+    clean.subarray(insertAt),
+  ]);
+}
+
+function readJpegManifest(buffer: Buffer): Buffer | null {
+  const segment = readJpegSegments(buffer).find((s) => isJpegManifestSegment(buffer, s));
+  return segment ? buffer.subarray(segment.start + 4 + MANIFEST_ID.length, segment.end) : null;
+}
+
+// ============================================================
+// WebP
+// ============================================================
+
+function readWebpChunks(buffer: Buffer): WebpChunk[] {
+  const riffEnd = Math.min(buffer.length, 8 + buffer.readUInt32LE(4));
+  const chunks: WebpChunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= riffEnd) {
+    const fourcc = buffer.toString('latin1', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const dataEnd = offset + 8 + size;
+
+    if (dataEnd > riffEnd) {
+      throw new Error('Malformed WebP: chunk overruns file');
+    }
+
+    chunks.push({ fourcc, data: buffer.subarray(offset + 8, dataEnd) });
+    offset = dataEnd + (size % 2);
+  }
+
+  return chunks;
+}
+
+function encodeWebpChunk(chunk: WebpChunk): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(chunk.fourcc, 0, 'latin1');
+  header.writeUInt32LE(chunk.data.length, 4);
+  const padding = chunk.data.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0);
+  return Buffer.concat([header, chunk.data, padding]);
+}
+
+function writeWebp(chunks: WebpChunk[]): Buffer {
+  const body = Buffer.concat(chunks.map(encodeWebpChunk));
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * VP8X header for a simple-format image
+ */
+function buildVp8x(image: WebpChunk, hasAlphaChunk: boolean): WebpChunk {
+  let width: number;
+  let height: number;
+  let alpha = hasAlphaChunk;
+
+  if (image.fourcc === 'VP8 ') {
+    width = image.data.readUInt16LE(6) & 0x3fff;
+    height = image.data.readUInt16LE(8) & 0x3fff;
+  } else if (image.fourcc === 'VP8L') {
+    const bits = image.data.readUInt32LE(1);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >> 14) & 0x3fff) + 1;
+    alpha = alpha || ((bits >> 28) & 1) === 1;
+  } else {
+    throw new Error(`Unsupported WebP image chunk: ${image.fourcc}`);
+  }
+
+  const data = Buffer.alloc(10);
+  data[0] = alpha ? 0x10 : 0;
+  data.writeUIntLE(width - 1, 4, 3);
+  data.writeUIntLE(height - 1, 7, 3);
+
+  return { fourcc: 'VP8X', data };
+}
+
+/**
+ * Chunks without the manifest, promoted to the extended layout
+ */
+function normalizeWebpChunks(buffer: Buffer): WebpChunk[] {
+  const chunks = readWebpChunks(buffer).filter((c) => c.fourcc !== WEBP_MANIFEST_CHUNK);
+
+  if (chunks.length > 0 && chunks[0].fourcc !== 'VP8X') {
+    const image = chunks.find((c) => c.fourcc === 'VP8 ' || c.fourcc === 'VP8L');
+    if (!image) {
+      throw new Error('Malformed WebP: no image chunk');
+    }
+    chunks.unshift(buildVp8x(image, chunks.some((c) => c.fourcc === 'ALPH')));
+  }
+
+  return chunks;
+}
+
+function insertWebpManifest(buffer: Buffer, manifest: Buffer): Buffer {
+  return writeWebp([...normalizeWebpChunks(buffer), { fourcc: WEBP_MANIFEST_CHUNK, data: manifest }]);
+}
+
+function readWebpManifest(buffer: Buffer): Buffer | null {
+  const chunk = readWebpChunks(buffer).find((c) => c.fourcc === WEBP_MANIFEST_CHUNK);
+  return chunk ? chunk.data : null;
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Prepare an image for a manifest: drop any existing manifest and
+ * normalise the layout, so the content hash taken now matches the one
+ * taken from the stamped file
+ */
+export function prepareForManifest(buffer: Buffer): Buffer {
+  const format = detectManifestFormat(buffer);
+
+  if (format === 'jpeg') {
+    return stripJpegManifest(buffer);
+  }
+  if (format === 'webp') {
+    return writeWebp(normalizeWebpChunks(buffer));
+  }
+
+  throw new Error('Unsupported image format for provenance manifest');
+}
+
+/**
+ * SHA-256 of the image with the manifest excluded (base64)
+ */
+export function hashManifestContent(buffer: Buffer): string {
+  const format = detectManifestFormat(buffer);
+  const hash = crypto.createHash('sha256');
+
+  if (format === 'jpeg') {
+    hash.update(stripJpegManifest(buffer));
+  } else if (format === 'webp') {
+    for (const chunk of readWebpChunks(buffer)) {
+      if (chunk.fourcc !== WEBP_MANIFEST_CHUNK) {
+        hash.update(encodeWebpChunk(chunk));
+      }
+    }
+  } else {
+    throw new Error('Unsupported image format for provenance manifest');
+  }
+
+  return hash.digest('base64');
+}
+
+/**
+ * Embed manifest bytes, replacing any existing manifest
+ */
+export function insertManifest(buffer: Buffer, manifest: Buffer): Buffer {
+  const format = detectManifestFormat(buffer);
+
+  if (format === 'jpeg') {
+    return insertJpegManifest(buffer, manifest);
+  }
+  if (format === 'webp') {
+    return insertWebpManifest(buffer, manifest);
+  }
+
+  throw new Error('Unsupported image format for provenance manifest');
+}
+
+/**
+ * Embedded manifest bytes, or null when the image carries none
+ */
+export function readManifest(buffer: Buffer): Buffer | null {
+  const format = detectManifestFormat(buffer);
+
+  if (format === 'jpeg') {
+    return readJpegManifest(buffer);
+  }
+  if (format === 'webp') {
+    return readWebpManifest(buffer);
+  }
+
+  return null;
+}
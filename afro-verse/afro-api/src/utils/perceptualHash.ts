@@ -0,0 +1,128 @@
+import sharp from 'sharp';
+
+/**
+ * Perceptual Hashing
+ *
+ * 64-bit image fingerprints that stay close under re-encoding, resizing,
+ * small colour shifts and overlays (e.g. our visible watermark):
+ * - pHash: sign of the 8x8 lowest DCT frequencies of a 32x32 greyscale
+ *   thumbnail against their median
+ * - dHash: horizontal gradient signs of a 9x8 greyscale thumbnail
+ *
+ * Hashes are 16-char hex strings; similarity is Hamming distance (0-64).
+ * Crops and mirrors are not matched.
+ */
+
+export interface PerceptualHash {
+  pHash: string;
+  dHash: string;
+}
+
+const PHASH_SIZE = 32;
+const PHASH_LOW = 8;
+const BAND_BITS = 16;
+
+const DCT_COS: Float64Array[] = Array.from({ length: PHASH_LOW }, (_, u) => {
+  const row = new Float64Array(PHASH_SIZE);
+  for (let x = 0; x < PHASH_SIZE; x++) {
+    row[x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE));
+  }
+  return row;
+});
+
+function bitsToHex(bits: number[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+async function greyscaleThumbnail(imageBuffer: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(imageBuffer)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Compute pHash and dHash of an image
+ */
+export async function computePerceptualHash(imageBuffer: Buffer): Promise<PerceptualHash> {
+  const [small, gradient] = await Promise.all([
+    greyscaleThumbnail(imageBuffer, PHASH_SIZE, PHASH_SIZE),
+    greyscaleThumbnail(imageBuffer, 9, 8),
+  ]);
+
+  // pHash: low-frequency 2D DCT (rows, then columns)
+  const rowDct: number[][] = [];
+  for (let y = 0; y < PHASH_SIZE; y++) {
+    rowDct.push(DCT_COS.map((basis) => {
+      let sum = 0;
+      for (let x = 0; x < PHASH_SIZE; x++) {
+        sum += small[y * PHASH_SIZE + x] * basis[x];
+      }
+      return sum;
+    }));
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < PHASH_LOW; v++) {
+    for (let u = 0; u < PHASH_LOW; u++) {
+      let sum = 0;
+      for (let y = 0; y < PHASH_SIZE; y++) {
+        sum += rowDct[y][u] * DCT_COS[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // Median without the DC term, which only tracks overall brightness
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[(sorted.length >> 1) - 1] + sorted[sorted.length >> 1]) / 2;
+  const pBits = coefficients.map((c) => (c > median ? 1 : 0));
+
+  const dBits: number[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      dBits.push(gradient[y * 9 + x] < gradient[y * 9 + x + 1] ? 1 : 0);
+    }
+  }
+
+  return {
+    pHash: bitsToHex(pBits),
+    dHash: bitsToHex(dBits),
+  };
+}
+
+/**
+ * Hamming distance between two 64-bit hex hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let x = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (x) {
+    distance += Number(x & 1n);
+    x >>= 1n;
+  }
+  return distance;
+}
+
+/**
+ * Exact-match lookup keys: the hash split into 16-bit bands
+ *
+ * Two hashes within Hamming distance 3 always share a band (pigeonhole),
+ * and most pairs up to ~10 do, so candidates can be found with one
+ * indexed $in query and then ranked by real distance.
+ */
+export function hashBands(hash: string): string[] {
+  const bands: string[] = [];
+  const hexPerBand = BAND_BITS / 4;
+  for (let i = 0; i < hash.length; i += hexPerBand) {
+    bands.push(`${i / hexPerBand}:${hash.substring(i, i + hexPerBand)}`);
+  }
+  return bands;
+}
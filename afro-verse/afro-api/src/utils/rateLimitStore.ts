@@ -0,0 +1,137 @@
+import Redis from 'ioredis';
+import { RateLimitConfig } from '../config/security';
+
+/**
+ * Rate Limit Stores
+ *
+ * Sliding window log: each allowed request is recorded with its
+ * timestamp, and a request is allowed while fewer than `limit`
+ * requests were recorded in the last `window` seconds.
+ * Rejected requests are not recorded, so a client that backs off
+ * regains capacity as its old requests age out.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // ms epoch when the next slot frees up
+}
+
+export interface RateLimitStore {
+  hit(key: string, config: RateLimitConfig, now?: number): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+}
+
+function toResult(
+  config: RateLimitConfig,
+  count: number,
+  allowed: boolean,
+  oldest: number | null,
+  now: number
+): RateLimitResult {
+  const windowMs = config.window * 1000;
+
+  return {
+    allowed,
+    limit: config.limit,
+    remaining: Math.max(0, config.limit - count),
+    resetAt: (oldest ?? now) + windowMs,
+  };
+}
+
+/**
+ * Redis store (sorted set per key, atomic via Lua)
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local member = ARGV[4]
+
+redis.call('ZREMRANGEBYSCORE', key, 0, now - windowMs)
+
+local count = redis.call('ZCARD', key)
+local allowed = 0
+
+if count < limit then
+  redis.call('ZADD', key, now, member)
+  count = count + 1
+  allowed = 1
+end
+
+redis.call('PEXPIRE', key, windowMs)
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+
+return { allowed, count, oldest[2] or false }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private redis: Redis) {}
+
+  async hit(key: string, config: RateLimitConfig, now: number = Date.now()): Promise<RateLimitResult> {
+    const [allowed, count, oldest] = (await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      key,
+      now,
+      config.window * 1000,
+      config.limit,
+      `${now}-${Math.random()}`
+    )) as [number, number, string | null];
+
+    return toResult(config, count, allowed === 1, oldest ? Number(oldest) : null, now);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+}
+
+/**
+ * In-memory store (LRU-bounded)
+ *
+ * Used when REDIS_URL is not configured. Limits are per process, so
+ * each instance enforces them independently.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  // Map iteration order doubles as recency order (oldest first)
+  private entries = new Map<string, number[]>();
+
+  constructor(private maxKeys: number) {}
+
+  async hit(key: string, config: RateLimitConfig, now: number = Date.now()): Promise<RateLimitResult> {
+    const windowStart = now - config.window * 1000;
+    const timestamps = (this.entries.get(key) || []).filter((t) => t > windowStart);
+
+    const allowed = timestamps.length < config.limit;
+
+    if (allowed) {
+      timestamps.push(now);
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, timestamps);
+    this.evict();
+
+    return toResult(config, timestamps.length, allowed, timestamps[0] ?? null, now);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxKeys) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Reed-Solomon Codec
+ *
+ * Systematic RS code over GF(2^8) (primitive polynomial 0x11d, first
+ * consecutive root 2^0). Encoding appends `paritySymbols` bytes; decoding
+ * corrects up to floor(paritySymbols / 2) byte errors anywhere in the
+ * codeword. Used to protect watermark payloads.
+ */
+
+const PRIMITIVE = 0x11d;
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+
+(function buildTables() {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) {
+      x ^= PRIMITIVE;
+    }
+  }
+  for (let i = 255; i < 512; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+})();
+
+function gfMul(x: number, y: number): number {
+  if (x === 0 || y === 0) {
+    return 0;
+  }
+  return GF_EXP[GF_LOG[x] + GF_LOG[y]];
+}
+
+function gfDiv(x: number, y: number): number {
+  if (y === 0) {
+    throw new Error('Division by zero in GF(256)');
+  }
+  if (x === 0) {
+    return 0;
+  }
+  return GF_EXP[(GF_LOG[x] + 255 - GF_LOG[y]) % 255];
+}
+
+function gfPow(x: number, power: number): number {
+  return GF_EXP[(((GF_LOG[x] * power) % 255) + 255) % 255];
+}
+
+function gfInverse(x: number): number {
+  return GF_EXP[255 - GF_LOG[x]];
+}
+
+// Polynomials are arrays of coefficients, highest degree first
+
+function polyScale(p: number[], x: number): number[] {
+  return p.map((c) => gfMul(c, x));
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+  const result = new Array(Math.max(p.length, q.length)).fill(0);
+  for (let i = 0; i < p.length; i++) {
+    result[i + result.length - p.length] = p[i];
+  }
+  for (let i = 0; i < q.length; i++) {
+    result[i + result.length - q.length] ^= q[i];
+  }
+  return result;
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+  const result = new Array(p.length + q.length - 1).fill(0);
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) {
+      result[i + j] ^= gfMul(p[i], q[j]);
+    }
+  }
+  return result;
+}
+
+function polyEval(p: number[], x: number): number {
+  let y = p[0];
+  for (let i = 1; i < p.length; i++) {
+    y = gfMul(y, x) ^ p[i];
+  }
+  return y;
+}
+
+function generatorPoly(paritySymbols: number): number[] {
+  let g = [1];
+  for (let i = 0; i < paritySymbols; i++) {
+    g = polyMul(g, [1, gfPow(2, i)]);
+  }
+  return g;
+}
+
+/**
+ * Syndromes, with a leading zero so indices line up with the
+ * Berlekamp-Massey loop below
+ */
+function calcSyndromes(codeword: number[], paritySymbols: number): number[] {
+  const syndromes = [0];
+  for (let i = 0; i < paritySymbols; i++) {
+    syndromes.push(polyEval(codeword, gfPow(2, i)));
+  }
+  return syndromes;
+}
+
+/**
+ * Error locator polynomial (Berlekamp-Massey)
+ */
+function findErrorLocator(syndromes: number[], paritySymbols: number): number[] | null {
+  let errLoc = [1];
+  let oldLoc = [1];
+  const shift = syndromes.length - paritySymbols;
+
+  for (let i = 0; i < paritySymbols; i++) {
+    const k = i + shift;
+    let delta = syndromes[k];
+
+    for (let j = 1; j < errLoc.length; j++) {
+      delta ^= gfMul(errLoc[errLoc.length - 1 - j], syndromes[k - j]);
+    }
+
+    oldLoc = [...oldLoc, 0];
+
+    if (delta !== 0) {
+      if (oldLoc.length > errLoc.length) {
+        const newLoc = polyScale(oldLoc, delta);
+        oldLoc = polyScale(errLoc, gfInverse(delta));
+        errLoc = newLoc;
+      }
+      errLoc = polyAdd(errLoc, polyScale(oldLoc, delta));
+    }
+  }
+
+  while (errLoc.length && errLoc[0] === 0) {
+    errLoc.shift();
+  }
+
+  const errors = errLoc.length - 1;
+  if (errors * 2 > paritySymbols) {
+    return null;
+  }
+
+  return errLoc;
+}
+
+/**
+ * Error positions from the locator polynomial (Chien search)
+ */
+function findErrorPositions(errLocReversed: number[], length: number): number[] | null {
+  const errors = errLocReversed.length - 1;
+  const positions: number[] = [];
+
+  for (let i = 0; i < length; i++) {
+    if (polyEval(errLocReversed, gfPow(2, i)) === 0) {
+      positions.push(length - 1 - i);
+    }
+  }
+
+  return positions.length === errors ? positions : null;
+}
+
+/**
+ * Error magnitudes (Forney) applied to the codeword in place
+ */
+function correctErrata(codeword: number[], syndromes: number[], positions: number[]): void {
+  const coefPositions = positions.map((p) => codeword.length - 1 - p);
+
+  let errataLoc = [1];
+  for (const position of coefPositions) {
+    errataLoc = polyMul(errataLoc, polyAdd([1], [gfPow(2, position), 0]));
+  }
+
+  // Error evaluator: (S(x) * Lambda(x)) mod x^(errors + 1)
+  const product = polyMul([...syndromes].reverse(), errataLoc);
+  const evaluator = product.slice(product.length - errataLoc.length);
+
+  const X = coefPositions.map((position) => gfPow(2, position));
+
+  for (let i = 0; i < X.length; i++) {
+    const xiInv = gfInverse(X[i]);
+
+    let locPrime = 1;
+    for (let j = 0; j < X.length; j++) {
+      if (j !== i) {
+        locPrime = gfMul(locPrime, 1 ^ gfMul(xiInv, X[j]));
+      }
+    }
+
+    if (locPrime === 0) {
+      return;
+    }
+
+    const y = gfMul(X[i], polyEval(evaluator, xiInv));
+    codeword[positions[i]] ^= gfDiv(y, locPrime);
+  }
+}
+
+/**
+ * Append RS parity to a message (message + parity <= 255 bytes)
+ */
+export function rsEncode(message: Uint8Array, paritySymbols: number): Uint8Array {
+  if (message.length + paritySymbols > 255) {
+    throw new Error('Reed-Solomon codeword too long');
+  }
+
+  const generator = generatorPoly(paritySymbols);
+  const remainder = [...message, ...new Array(paritySymbols).fill(0)];
+
+  for (let i = 0; i < message.length; i++) {
+    const coef = remainder[i];
+    if (coef !== 0) {
+      for (let j = 1; j < generator.length; j++) {
+        remainder[i + j] ^= gfMul(generator[j], coef);
+      }
+    }
+  }
+
+  const codeword = new Uint8Array(message.length + paritySymbols);
+  codeword.set(message);
+  codeword.set(remainder.slice(message.length), message.length);
+  return codeword;
+}
+
+/**
+ * Decode an RS codeword
+ *
+ * Returns the corrected message and the number of corrected bytes, or
+ * null when the codeword has more errors than the code can correct.
+ */
+export function rsDecode(
+  codeword: Uint8Array,
+  paritySymbols: number
+): { message: Uint8Array; corrected: number } | null {
+  const word = Array.from(codeword);
+  const messageLength = word.length - paritySymbols;
+
+  const syndromes = calcSyndromes(word, paritySymbols);
+  if (syndromes.every((s) => s === 0)) {
+    return { message: Uint8Array.from(word.slice(0, messageLength)), corrected: 0 };
+  }
+
+  const errLoc = findErrorLocator(syndromes, paritySymbols);
+  if (!errLoc) {
+    return null;
+  }
+
+  const positions = findErrorPositions([...errLoc].reverse(), word.length);
+  if (!positions) {
+    return null;
+  }
+
+  correctErrata(word, syndromes, positions);
+
+  if (!calcSyndromes(word, paritySymbols).every((s) => s === 0)) {
+    return null;
+  }
+
+  return { message: Uint8Array.from(word.slice(0, messageLength)), corrected: positions.length };
+}
@@ -0,0 +1,58 @@
+/**
+ * Tag Utilities
+ *
+ * Hashtags and style tags share one namespace: both normalize to a
+ * lowercase slug ([a-z0-9_], 2-30 chars), so "#AfroFuturism",
+ * "#afro_futurism" and the "Afro Futurism" preset all land on the
+ * same tag when their slugs match.
+ */
+
+export const TAG_PATTERN = /^[a-z0-9_]{2,30}$/;
+
+export const MAX_TAGS_PER_POST = 10;
+
+/**
+ * Normalize a hashtag or style name to a tag slug
+ *
+ * Accents are folded ("Café" → "cafe"), other characters collapse to
+ * underscores. Returns null when nothing usable is left.
+ */
+export function normalizeTag(raw: string): string | null {
+  const slug = raw
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/^#/, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 30)
+    .replace(/_+$/, '');
+
+  return TAG_PATTERN.test(slug) ? slug : null;
+}
+
+/**
+ * Hashtags in a caption, normalized and de-duplicated (first use wins)
+ *
+ * Returns { slug, label } pairs; label is the hashtag as written.
+ */
+export function extractHashtags(caption: string | undefined | null): Array<{ slug: string; label: string }> {
+  if (!caption) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const hashtags: Array<{ slug: string; label: string }> = [];
+
+  // A hashtag starts at the beginning or after a non-word character
+  for (const match of caption.matchAll(/(^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)/gu)) {
+    const slug = normalizeTag(match[2]);
+
+    if (slug && !seen.has(slug)) {
+      seen.add(slug);
+      hashtags.push({ slug, label: match[2] });
+    }
+  }
+
+  return hashtags;
+}
@@ -4,6 +4,8 @@ import { Respect } from '../models/Respect';
 import { Post } from '../models/Post';
 import { User } from '../models/User';
 import { Tribe } from '../models/Tribe';
+import { Comment } from '../models/Comment';
+import { TribeMembershipHistory, ITribeMembershipHistory } from '../models/TribeMembershipHistory';
 
 /**
  * Transaction Utilities
@@ -13,7 +15,9 @@ import { Tribe } from '../models/Tribe';
  * Use these helpers to ensure atomicity for:
  * - Respect insert + counter increment
  * - Tribe join + member count update
+ * - Tribe switch + member/post counts + history
  * - Post creation + user/tribe counters
+ * - Comment insert/delete + post/parent counters
  */
 
 /**
@@ -159,6 +163,103 @@ export async function deletePostWithCounters(
   }
 }
 
+/**
+ * Add a comment with atomic counter updates
+ *
+ * Increments post.counts.comments and, for replies, the parent's
+ * counts.replies.
+ */
+export async function addCommentWithCounters(
+  commentData: {
+    postId: Types.ObjectId;
+    userId: Types.ObjectId;
+    parentId: Types.ObjectId | null;
+    body: string;
+  }
+): Promise<any> {
+  const session = await mongoose.startSession();
+  
+  try {
+    session.startTransaction();
+    
+    const comment = await Comment.create([commentData], { session });
+    
+    // Increment post comment counter
+    await Post.findByIdAndUpdate(
+      commentData.postId,
+      { $inc: { 'counts.comments': 1 } },
+      { session }
+    );
+    
+    // Increment parent reply counter
+    if (commentData.parentId) {
+      await Comment.findByIdAndUpdate(
+        commentData.parentId,
+        { $inc: { 'counts.replies': 1 } },
+        { session }
+      );
+    }
+    
+    await session.commitTransaction();
+    return comment[0];
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Soft delete a comment with atomic counter updates
+ *
+ * Counters are clamped at zero. Deleting an already deleted comment
+ * is a no-op.
+ */
+export async function deleteCommentWithCounters(
+  commentId: Types.ObjectId,
+  status: 'deleted' | 'removed'
+): Promise<any> {
+  const session = await mongoose.startSession();
+  
+  try {
+    session.startTransaction();
+    
+    // Only active comments transition, so counters move once
+    const comment = await Comment.findOneAndUpdate(
+      { _id: commentId, status: 'active' },
+      { $set: { status, deletedAt: new Date() } },
+      { session, new: true }
+    );
+    
+    if (comment) {
+      // Decrement post comment counter
+      await Post.updateOne(
+        { _id: comment.postId, 'counts.comments': { $gt: 0 } },
+        { $inc: { 'counts.comments': -1 } },
+        { session }
+      );
+      
+      // Decrement parent reply counter
+      if (comment.parentId) {
+        await Comment.updateOne(
+          { _id: comment.parentId, 'counts.replies': { $gt: 0 } },
+          { $inc: { 'counts.replies': -1 } },
+          { session }
+        );
+      }
+    }
+    
+    await session.commitTransaction();
+    return comment;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
 /**
  * Join a tribe with atomic member count update
  */
@@ -197,49 +298,144 @@ export async function joinTribeWithCounters(
   }
 }
 
+export interface ChangeTribeOptions {
+  movePosts: boolean; // Re-tag the user's posts to the new tribe
+}
+
+export interface ChangeTribeResult {
+  postsMoved: number;
+  history: ITribeMembershipHistory;
+}
+
 /**
- * Change tribe with atomic member count updates
+ * Change tribe with atomic member (and optionally post) count updates
+ *
+ * The user update is guarded on the old tribe, so a concurrent switch
+ * aborts with 'switch_conflict' instead of double-moving counters.
+ * Writes the TribeMembershipHistory entry in the same transaction.
+ *
+ * Falls back to unsessioned writes when the deployment does not
+ * support transactions (standalone mongod in development).
  */
 export async function changeTribeWithCounters(
   userId: Types.ObjectId,
   oldTribeId: Types.ObjectId,
-  newTribeId: Types.ObjectId
-): Promise<void> {
+  newTribeId: Types.ObjectId,
+  options: ChangeTribeOptions = { movePosts: false }
+): Promise<ChangeTribeResult> {
   const session = await mongoose.startSession();
   
   try {
     session.startTransaction();
     
-    // Update user's tribe
-    await User.findByIdAndUpdate(
-      userId,
-      {
+    const result = await applyTribeChange(userId, oldTribeId, newTribeId, options, session);
+    
+    await session.commitTransaction();
+    return result;
+  } catch (error: any) {
+    try {
+      await session.abortTransaction();
+    } catch (abortError) {
+      // Ignore
+    }
+    
+    if (error.code === 20 || error.codeName === 'IllegalOperation') {
+      return applyTribeChange(userId, oldTribeId, newTribeId, options);
+    }
+    
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+async function applyTribeChange(
+  userId: Types.ObjectId,
+  oldTribeId: Types.ObjectId,
+  newTribeId: Types.ObjectId,
+  options: ChangeTribeOptions,
+  session?: mongoose.ClientSession
+): Promise<ChangeTribeResult> {
+  // Update user's tribe (only if still in the old one)
+  const user = await User.findOneAndUpdate(
+    { _id: userId, tribeId: oldTribeId },
+    {
+      $set: {
         tribeId: newTribeId,
         tribeJoinedAt: new Date(),
       },
+    },
+    { session }
+  );
+  
+  if (!user) {
+    throw new Error('switch_conflict');
+  }
+  
+  // Decrement old tribe member count
+  await Tribe.updateOne(
+    { _id: oldTribeId, 'stats.members': { $gt: 0 } },
+    { $inc: { 'stats.members': -1 } },
+    { session }
+  );
+  
+  // Leads lead their own tribe only
+  await Tribe.updateOne(
+    { _id: oldTribeId },
+    { $pull: { leadIds: userId } },
+    { session }
+  );
+  
+  // Increment new tribe member count
+  await Tribe.updateOne(
+    { _id: newTribeId },
+    { $inc: { 'stats.members': 1 } },
+    { session }
+  );
+  
+  let postsMoved = 0;
+  
+  if (options.movePosts) {
+    // Tribe stats count active posts only
+    const activePosts = await Post.countDocuments(
+      { userId, tribeId: oldTribeId, status: 'active' },
       { session }
     );
     
-    // Decrement old tribe member count
-    await Tribe.findByIdAndUpdate(
-      oldTribeId,
-      { $inc: { 'stats.members': -1 } },
-      { session }
-    );
-    
-    // Increment new tribe member count
-    await Tribe.findByIdAndUpdate(
-      newTribeId,
-      { $inc: { 'stats.members': 1 } },
+    const moved = await Post.updateMany(
+      { userId, tribeId: oldTribeId },
+      { $set: { tribeId: newTribeId } },
       { session }
     );
+    postsMoved = moved.modifiedCount;
     
-    await session.commitTransaction();
-  } catch (error) {
-    await session.abortTransaction();
-    throw error;
-  } finally {
-    session.endSession();
+    if (activePosts > 0) {
+      await Tribe.updateOne(
+        { _id: oldTribeId },
+        [{ $set: { 'stats.posts': { $max: [0, { $subtract: ['$stats.posts', activePosts] }] } } }],
+        { session }
+      );
+      await Tribe.updateOne(
+        { _id: newTribeId },
+        { $inc: { 'stats.posts': activePosts } },
+        { session }
+      );
+    }
   }
+  
+  const [history] = await TribeMembershipHistory.create(
+    [
+      {
+        userId,
+        action: 'switch',
+        fromTribeId: oldTribeId,
+        toTribeId: newTribeId,
+        movePosts: options.movePosts,
+        postsMoved,
+      },
+    ],
+    { session }
+  );
+  
+  return { postsMoved, history };
 }
-
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+
+/**
+ * Web Push Utilities
+ *
+ * Minimal Web Push sender on Node crypto:
+ * - Payload encryption: aes128gcm content coding (RFC 8188 / RFC 8291)
+ * - Application server auth: VAPID JWT, ES256 (RFC 8292)
+ */
+
+export interface PushTarget {
+  endpoint: string;
+  keys: {
+    p256dh: string; // base64url, uncompressed P-256 point
+    auth: string; // base64url, 16 bytes
+  };
+}
+
+export interface VapidKeys {
+  publicKey: string; // base64url, uncompressed P-256 point
+  privateKey: string; // base64url, 32 bytes
+  subject: string; // mailto: or https: contact
+}
+
+export interface SendPushOptions {
+  ttlSeconds: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  timeoutMs?: number;
+}
+
+export interface SendPushResult {
+  ok: boolean;
+  status?: number;
+  expired?: boolean; // Subscription is gone (404/410) and should be deleted
+  error?: string;
+}
+
+const RECORD_SIZE = 4096;
+const VAPID_EXPIRY_SECONDS = 12 * 60 * 60;
+
+/**
+ * Encrypt a payload for a subscription (aes128gcm, single record)
+ */
+export function encryptPayload(
+  payload: string | Buffer,
+  keys: PushTarget['keys'],
+  salt: Buffer = crypto.randomBytes(16)
+): Buffer {
+  const userAgentPublicKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    userAgentPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  const contentKey = Buffer.from(
+    crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  // Single (last) record: content followed by the 0x02 delimiter
+  const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  // Header: salt (16) | record size (4) | key id length (1) | key id (server public key)
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    ciphertext,
+  ]);
+}
+
+/**
+ * Build the VAPID Authorization header for a push service origin
+ */
+export function buildVapidAuthorization(audience: string, vapid: VapidKeys): string {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+
+  const signingKey = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: audience,
+    exp: Math.floor(Date.now() / 1000) + VAPID_EXPIRY_SECONDS,
+    sub: vapid.subject,
+  })}`;
+
+  // JWS wants the raw r||s signature, not DER
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+    key: signingKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Deliver an encrypted push message
+ *
+ * Never throws: network errors and push service rejections come back
+ * as { ok: false }. 404/410 mean the subscription no longer exists.
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidKeys,
+  options: SendPushOptions
+): Promise<SendPushResult> {
+  try {
+    const body = encryptPayload(payload, target.keys);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      TTL: String(options.ttlSeconds),
+      Urgency: options.urgency || 'normal',
+      Authorization: buildVapidAuthorization(new URL(target.endpoint).origin, vapid),
+    };
+
+    const response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(options.timeoutMs || 10000),
+    });
+
+    if (response.ok) {
+      return { ok: true, status: response.status };
+    }
+
+    return {
+      ok: false,
+      status: response.status,
+      expired: response.status === 404 || response.status === 410,
+      error: (await response.text().catch(() => '')).slice(0, 200) || response.statusText,
+    };
+  } catch (error: any) {
+    return { ok: false, error: error.message };
+  }
+}
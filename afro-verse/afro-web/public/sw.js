@@ -0,0 +1,67 @@
+/**
+ * AfroMoji Service Worker
+ *
+ * Web Push only (no offline caching):
+ * - push: show the notification sent by the API
+ *   ({ title, body, url, tag, image, category })
+ * - notificationclick: focus an open AfroMoji tab or open a new one
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch (error) {
+    message = { title: 'AfroMoji', body: event.data.text(), url: '/notifications' };
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const url = new URL(message.url || '/notifications', self.location.origin);
+
+      // The user is already looking at it (e.g. watching the create screen)
+      const isViewing = clients.some(
+        (client) => client.focused && new URL(client.url).pathname === url.pathname
+      );
+      if (isViewing) return;
+
+      return self.registration.showNotification(message.title || 'AfroMoji', {
+        body: message.body,
+        tag: message.tag,
+        renotify: !!message.tag,
+        image: message.image,
+        icon: '/icon-192.png',
+        badge: '/icons/app-icon.png',
+        data: { url: url.href },
+      });
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+
+      if (client) {
+        return client.focus().then((focused) => focused.navigate(url));
+      }
+
+      return self.clients.openWindow(url);
+    })
+  );
+});
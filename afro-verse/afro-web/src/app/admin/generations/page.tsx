@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '../../../components/common/Button';
+import { UserDrawer } from '../../../components/admin/UserDrawer';
+import { getBlockedGenerations, type AdminBlockedGeneration } from '../../../services/adminService';
+
+export default function AdminGenerationsPage() {
+  const [generations, setGenerations] = useState<AdminBlockedGeneration[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [drawerUserId, setDrawerUserId] = useState<string | null>(null);
+
+  const fetchPage = async (cursor?: string) => {
+    setLoading(true);
+    try {
+      const page = await getBlockedGenerations(cursor);
+      setGenerations((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load blocked generations:', err);
+      setError('Could not load blocked generations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPage();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <div>
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>{error}</p>
+      )}
+
+      {!loading && generations.length === 0 && !error && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>
+          No blocked generations.
+        </p>
+      )}
+
+      {generations.map((generation) => (
+        <div
+          key={generation.generationId}
+          style={{ padding: 'var(--space-small) 0', borderBottom: '1px solid var(--color-border)' }}
+        >
+          <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-primary)' }}>
+            {generation.user ? (
+              <button
+                onClick={() => setDrawerUserId(generation.user!.id)}
+                style={{
+                  padding: 0,
+                  background: 'none',
+                  border: 'none',
+                  color: 'inherit',
+                  fontSize: 'inherit',
+                  fontWeight: 'var(--weight-semibold)',
+                  cursor: 'pointer',
+                }}
+              >
+                @{generation.user.username}
+              </button>
+            ) : (
+              'Deleted user'
+            )}
+            {` · ${generation.mode}`}
+            {generation.presetId ? ` · ${generation.presetId}` : ''}
+          </p>
+          <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+            {generation.prompt || 'No prompt'}
+          </p>
+          <p style={{ margin: 0, fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+            {generation.provider} · {generation.message} · {new Date(generation.createdAt).toLocaleString()}
+          </p>
+        </div>
+      ))}
+
+      {nextCursor && (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: 'var(--space-default) 0' }}>
+          <Button size="sm" variant="secondary" disabled={loading} onClick={() => fetchPage(nextCursor)}>
+            {loading ? 'Loading…' : 'Load more'}
+          </Button>
+        </div>
+      )}
+
+      <UserDrawer userId={drawerUserId} onClose={() => setDrawerUserId(null)} />
+    </div>
+  );
+}
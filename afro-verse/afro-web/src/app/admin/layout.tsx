@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../../hooks/useAuth';
+import { AdminNav } from '../../components/admin/AdminNav';
+import { Button } from '../../components/common/Button';
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const { loading, isAdmin } = useAuth();
+
+  if (loading) {
+    return (
+      <div style={{ minHeight: '100vh', padding: 'var(--space-lg)', background: 'var(--color-near-black)' }}>
+        <div className="skeleton" style={{ height: 320, borderRadius: 'var(--radius-lg)' }} />
+      </div>
+    );
+  }
+
+  // The API enforces the role too; this only keeps the console out of sight
+  if (!isAdmin) {
+    return (
+      <div
+        style={{
+          minHeight: '100vh',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: 'var(--space-default)',
+          background: 'var(--color-near-black)',
+        }}
+      >
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>
+          Admin access required
+        </p>
+        <Button variant="secondary" onClick={() => router.push('/feed')}>
+          Back to feed
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        maxWidth: 960,
+        margin: '0 auto',
+        padding: 'calc(env(safe-area-inset-top) + var(--space-default)) var(--space-lg) var(--space-lg)',
+        background: 'var(--color-near-black)',
+      }}
+    >
+      <h1 style={{ margin: 0, fontSize: 'var(--text-display-sm)', fontWeight: 'var(--weight-bold)', color: 'var(--color-text-primary)' }}>
+        Moderation
+      </h1>
+      <AdminNav />
+      {children}
+    </div>
+  );
+}
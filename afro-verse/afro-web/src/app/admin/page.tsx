@@ -0,0 +1,15 @@
+'use client';
+
+import React from 'react';
+import { PostQueue } from '../../components/admin/PostQueue';
+import { getFlaggedPosts } from '../../services/adminService';
+
+export default function AdminQueuePage() {
+  return (
+    <PostQueue
+      load={getFlaggedPosts}
+      status="flagged"
+      emptyMessage="The review queue is empty."
+    />
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { PostQueue } from '../../../components/admin/PostQueue';
+import { getPosts, type AdminPostStatus } from '../../../services/adminService';
+
+const STATUSES: Array<{ id: AdminPostStatus; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'active', label: 'Active' },
+  { id: 'flagged', label: 'Flagged' },
+  { id: 'removed', label: 'Removed' },
+];
+
+export default function AdminPostsPage() {
+  const [status, setStatus] = useState<AdminPostStatus>('all');
+
+  // A new loader per status makes PostQueue reload
+  const load = useCallback((cursor?: string) => getPosts({ status, cursor }), [status]);
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: 'var(--space-small)', marginBottom: 'var(--space-small)' }}>
+        {STATUSES.map((item) => {
+          const isActive = item.id === status;
+
+          return (
+            <button
+              key={item.id}
+              onClick={() => setStatus(item.id)}
+              style={{
+                padding: 'var(--space-tight) var(--space-default)',
+                borderRadius: 'var(--radius-full)',
+                background: isActive ? 'var(--color-gray-700)' : 'transparent',
+                border: '1px solid var(--color-gray-700)',
+                color: 'var(--color-off-white)',
+                fontSize: 'var(--text-meta)',
+                cursor: 'pointer',
+              }}
+            >
+              {item.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <PostQueue load={load} status={status} emptyMessage="No posts match this filter." />
+    </div>
+  );
+}
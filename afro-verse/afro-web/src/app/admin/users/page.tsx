@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Avatar } from '../../../components/common/Avatar';
+import { Button } from '../../../components/common/Button';
+import { UserDrawer } from '../../../components/admin/UserDrawer';
+import { ShortcutHelp } from '../../../components/admin/ShortcutHelp';
+import { useTriageKeys } from '../../../hooks/useTriageKeys';
+import {
+  getUsers,
+  bulkUserAction,
+  type AdminUser,
+  type AdminUserAction,
+  type AdminUserStatus,
+} from '../../../services/adminService';
+
+const STATUSES: Array<{ id: AdminUserStatus; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'active', label: 'Active' },
+  { id: 'banned', label: 'Banned' },
+  { id: 'shadowbanned', label: 'Shadowbanned' },
+];
+
+const ACTIONS: Array<{ id: AdminUserAction; label: string }> = [
+  { id: 'ban', label: 'Ban' },
+  { id: 'unban', label: 'Unban' },
+  { id: 'shadowban', label: 'Shadowban' },
+  { id: 'unshadowban', label: 'Clear shadowban' },
+];
+
+const SHORTCUTS = [
+  { keys: 'j / k', label: 'Next / previous user' },
+  { keys: 'x', label: 'Select user' },
+  { keys: 'Enter', label: 'Open user' },
+  { keys: 'Esc', label: 'Clear selection' },
+  { keys: '?', label: 'Show shortcuts' },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function AdminUsersPage() {
+  const [status, setStatus] = useState<AdminUserStatus>('all');
+  const [query, setQuery] = useState('');
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState('');
+  const [drawerUserId, setDrawerUserId] = useState<string | null>(null);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const trimmed = query.trim();
+
+  const fetchPage = async (cursor?: string) => {
+    setLoading(true);
+    try {
+      const page = await getUsers({ status, q: trimmed || undefined, cursor });
+      setUsers((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load users:', err);
+      setMessage('Could not load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSelected(new Set());
+      setFocusIndex(0);
+      fetchPage();
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [status, trimmed]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const toggleSelected = (userId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const applyAction = async (action: AdminUserAction) => {
+    const userIds = [...selected];
+    if (!userIds.length) return;
+
+    if ((action === 'ban' || action === 'shadowban') && !reason.trim()) {
+      setMessage('Add a reason first');
+      return;
+    }
+
+    if (!window.confirm(`${action} ${userIds.length} user(s)?`)) return;
+
+    try {
+      const results = await bulkUserAction(action, userIds, { reason: reason.trim() || undefined });
+      const failed = results.filter((result) => !result.success);
+
+      setMessage(
+        failed.length
+          ? `${failed.length} of ${results.length} failed (${failed[0].error})`
+          : `${action} applied to ${results.length} user(s)`
+      );
+      setSelected(new Set());
+      fetchPage();
+    } catch (err) {
+      console.error('User action failed:', err);
+      setMessage('Action failed');
+    }
+  };
+
+  const focused = users[focusIndex];
+
+  useTriageKeys(
+    {
+      j: () => setFocusIndex((index) => Math.min(index + 1, users.length - 1)),
+      k: () => setFocusIndex((index) => Math.max(index - 1, 0)),
+      x: () => focused && toggleSelected(focused.id),
+      Enter: () => focused && setDrawerUserId(focused.id),
+      Escape: () => setSelected(new Set()),
+      '?': () => setIsHelpOpen(true),
+    },
+    !drawerUserId && !isHelpOpen
+  );
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 160,
+    minHeight: 'var(--tap-target-min)',
+    padding: '0 var(--space-default)',
+    borderRadius: 'var(--radius-full)',
+    background: 'var(--color-gray-900)',
+    border: 'none',
+    outline: 'none',
+    color: 'var(--color-text-primary)',
+    fontSize: 'var(--text-body-sm)',
+  };
+
+  return (
+    <div>
+      {/* Filters */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-small)', marginBottom: 'var(--space-small)' }}>
+        {STATUSES.map((item) => {
+          const isActive = item.id === status;
+
+          return (
+            <button
+              key={item.id}
+              onClick={() => setStatus(item.id)}
+              style={{
+                padding: 'var(--space-tight) var(--space-default)',
+                borderRadius: 'var(--radius-full)',
+                background: isActive ? 'var(--color-gray-700)' : 'transparent',
+                border: '1px solid var(--color-gray-700)',
+                color: 'var(--color-off-white)',
+                fontSize: 'var(--text-meta)',
+                cursor: 'pointer',
+              }}
+            >
+              {item.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-small)', marginBottom: 'var(--space-small)' }}>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Username starts with…"
+          maxLength={30}
+          style={inputStyle}
+        />
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (ban / shadowban)"
+          maxLength={200}
+          style={inputStyle}
+        />
+      </div>
+
+      {/* Bulk bar */}
+      {selected.size > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 'var(--space-small)', marginBottom: 'var(--space-small)' }}>
+          <span style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+            {selected.size} selected
+          </span>
+          {ACTIONS.map((action) => (
+            <Button key={action.id} size="sm" variant="secondary" onClick={() => applyAction(action.id)}>
+              {action.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {message && (
+        <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>{message}</p>
+      )}
+
+      {!loading && users.length === 0 && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>No users match.</p>
+      )}
+
+      {users.map((user, index) => (
+        <div
+          key={user.id}
+          onClick={() => {
+            setFocusIndex(index);
+            setDrawerUserId(user.id);
+          }}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--space-default)',
+            padding: 'var(--space-small)',
+            borderRadius: 'var(--radius-md)',
+            background: index === focusIndex ? 'var(--color-gray-800)' : 'transparent',
+            cursor: 'pointer',
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={selected.has(user.id)}
+            onChange={() => toggleSelected(user.id)}
+            onClick={(e) => e.stopPropagation()}
+            aria-label={`Select @${user.username}`}
+          />
+          <Avatar src={user.avatarThumbUrl || undefined} alt={user.displayName} size="sm" />
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', fontWeight: 'var(--weight-semibold)', color: 'var(--color-text-primary)' }}>
+              @{user.username}
+              {user.roles.includes('admin') ? ' · admin' : ''}
+            </p>
+            <p style={{ margin: 0, fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+              {user.status.banned ? 'banned · ' : ''}
+              {user.status.shadowbanned ? 'shadowbanned · ' : ''}
+              {user.counters.posts} posts · {user.counters.respectsReceived} respects
+            </p>
+          </div>
+        </div>
+      ))}
+
+      {nextCursor && (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: 'var(--space-default) 0' }}>
+          <Button size="sm" variant="secondary" disabled={loading} onClick={() => fetchPage(nextCursor)}>
+            {loading ? 'Loading…' : 'Load more'}
+          </Button>
+        </div>
+      )}
+
+      <UserDrawer userId={drawerUserId} onClose={() => setDrawerUserId(null)} onChanged={() => fetchPage()} />
+
+      <ShortcutHelp isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} shortcuts={SHORTCUTS} />
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Icon } from '../../../components/common/Icon';
+import {
+  getChallenge,
+  getChallengeLeaderboard,
+  getChallengeFeed,
+  type ChallengeDetail,
+  type LeaderboardItem,
+} from '../../../services/challengeService';
+import type { FeedItem } from '../../../services/feedService';
+
+type TabId = 'leaderboard' | 'entries';
+
+const PHASE_LABELS: Record<ChallengeDetail['phase'], string> = {
+  upcoming: 'Starts soon',
+  active: 'Live now',
+  judging: 'Counting respects',
+  results: 'Results',
+  cancelled: 'Cancelled',
+};
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+const timeLeft = (iso: string): string => {
+  const ms = new Date(iso).getTime() - Date.now();
+  if (ms <= 0) return 'ended';
+
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours >= 24) return `${Math.floor(hours / 24)}d left`;
+  if (hours >= 1) return `${hours}h left`;
+  return `${Math.max(1, Math.floor(ms / 60000))}m left`;
+};
+
+export default function ChallengePage() {
+  const params = useParams();
+  const router = useRouter();
+  const challengeId = params?.id as string;
+
+  const [challenge, setChallenge] = useState<ChallengeDetail | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardItem[]>([]);
+  const [entries, setEntries] = useState<FeedItem[]>([]);
+  const [entriesCursor, setEntriesCursor] = useState<string | undefined>();
+  const [loadingEntries, setLoadingEntries] = useState(false);
+  const [activeTab, setActiveTab] = useState<TabId>('leaderboard');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getChallenge(challengeId), getChallengeLeaderboard(challengeId)])
+      .then(([challengeData, leaderboardData]) => {
+        if (cancelled) return;
+        setChallenge(challengeData);
+        setLeaderboard(leaderboardData);
+      })
+      .catch((err) => {
+        console.error('Failed to load challenge:', err);
+        if (!cancelled) setError('This challenge is no longer available');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [challengeId]);
+
+  const loadEntries = async (cursor?: string) => {
+    if (loadingEntries) return;
+
+    setLoadingEntries(true);
+    try {
+      const response = await getChallengeFeed(challengeId, 12, cursor);
+      setEntries((prev) => (cursor ? [...prev, ...response.items] : response.items));
+      setEntriesCursor(response.nextCursor);
+    } catch (err) {
+      console.error('Failed to load challenge entries:', err);
+    } finally {
+      setLoadingEntries(false);
+    }
+  };
+
+  useEffect(() => {
+    if (activeTab === 'entries' && entries.length === 0) {
+      loadEntries();
+    }
+  }, [activeTab]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const openPost = (postId: string) => {
+    router.push(`/post/${postId}`);
+  };
+
+  const handleEnterClick = () => {
+    if (!challenge) return;
+
+    const params = new URLSearchParams({ challenge: challenge.id });
+    if (challenge.presetId) {
+      params.set('preset', challenge.presetId);
+    }
+    router.push(`/create?${params.toString()}`);
+  };
+
+  const sectionTitleStyle: React.CSSProperties = {
+    margin: '0 0 var(--space-default)',
+    fontSize: 'var(--text-meta)',
+    fontWeight: 'var(--weight-semibold)',
+    color: 'var(--color-text-tertiary)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+  };
+
+  const thumbStyle: React.CSSProperties = {
+    width: '56px',
+    height: '56px',
+    borderRadius: 'var(--radius-md)',
+    objectFit: 'cover',
+    background: 'var(--color-gray-800)',
+    flexShrink: 0,
+  };
+
+  const tabStyle = (tab: TabId): React.CSSProperties => ({
+    flex: 1,
+    padding: 'var(--space-default)',
+    background: 'none',
+    border: 'none',
+    borderBottom: activeTab === tab ? '2px solid var(--color-off-white)' : '2px solid transparent',
+    color: activeTab === tab ? 'var(--color-off-white)' : 'var(--color-text-secondary)',
+    fontSize: 'var(--text-body-sm)',
+    fontWeight: 'var(--weight-semibold)',
+    cursor: 'pointer',
+  });
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--color-near-black)',
+        padding: 'calc(env(safe-area-inset-top) + var(--space-lg)) var(--space-lg) calc(var(--nav-height-mobile) + var(--space-lg))',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-default)', marginBottom: 'var(--space-lg)' }}>
+        <button
+          onClick={() => router.back()}
+          aria-label="Back"
+          style={{
+            width: 'var(--tap-target-min)',
+            height: 'var(--tap-target-min)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: 'none',
+            border: 'none',
+            color: 'var(--color-off-white)',
+            cursor: 'pointer',
+          }}
+        >
+          <Icon type="back" size={22} />
+        </button>
+        <h1
+          style={{
+            fontSize: 'var(--text-display-sm)',
+            fontWeight: 'var(--weight-bold)',
+            color: 'var(--color-text-primary)',
+            margin: 0,
+          }}
+        >
+          {challenge ? challenge.title : 'Challenge'}
+        </h1>
+      </div>
+
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>{error}</p>
+      )}
+
+      {challenge && (
+        <>
+          {/* Theme */}
+          <section style={{ marginBottom: 'var(--space-section)' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-small)', flexWrap: 'wrap' }}>
+              <span
+                style={{
+                  padding: 'var(--space-tight) var(--space-small)',
+                  borderRadius: 'var(--radius-full)',
+                  background: challenge.phase === 'active' ? 'var(--color-off-white)' : 'var(--color-gray-800)',
+                  color: challenge.phase === 'active' ? 'var(--color-near-black)' : 'var(--color-text-secondary)',
+                  fontSize: 'var(--text-meta)',
+                  fontWeight: 'var(--weight-semibold)',
+                }}
+              >
+                {PHASE_LABELS[challenge.phase]}
+              </span>
+              <span style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-off-white)' }}>
+                #{challenge.hashtag}
+              </span>
+              <span style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-tertiary)' }}>
+                {challenge.phase === 'active'
+                  ? timeLeft(challenge.endsAt)
+                  : `${formatDate(challenge.startsAt)} – ${formatDate(challenge.endsAt)}`}
+                {' · '}
+                {challenge.entryCount} {challenge.entryCount === 1 ? 'entry' : 'entries'}
+              </span>
+            </div>
+
+            {challenge.description && (
+              <p style={{ margin: 'var(--space-default) 0 0', fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>
+                {challenge.description}
+              </p>
+            )}
+
+            {challenge.viewerState.canEnter && (
+              <button
+                onClick={handleEnterClick}
+                style={{
+                  width: '100%',
+                  marginTop: 'var(--space-lg)',
+                  padding: 'var(--space-md)',
+                  borderRadius: 'var(--radius-full)',
+                  border: 'none',
+                  background: 'var(--color-off-white)',
+                  color: 'var(--color-near-black)',
+                  fontSize: 'var(--text-body-md)',
+                  fontWeight: 'var(--weight-semibold)',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: 'var(--space-small)',
+                }}
+              >
+                <Icon type="sparkle" size={18} />
+                Create an entry
+              </button>
+            )}
+          </section>
+
+          {/* Winners */}
+          {challenge.phase === 'results' && challenge.winners.length > 0 && (
+            <section style={{ marginBottom: 'var(--space-section)' }}>
+              <h2 style={sectionTitleStyle}>Winners</h2>
+              <div style={{ display: 'flex', gap: 'var(--space-default)' }}>
+                {challenge.winners.map((winner) => (
+                  <button
+                    key={winner.postId}
+                    onClick={() => openPost(winner.postId)}
+                    style={{
+                      flex: 1,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      alignItems: 'center',
+                      gap: 'var(--space-tight)',
+                      padding: 0,
+                      background: 'none',
+                      border: 'none',
+                      color: 'var(--color-off-white)',
+                      fontSize: 'var(--text-meta)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <img
+                      src={winner.thumbUrl}
+                      alt=""
+                      style={{ width: '100%', aspectRatio: '1', borderRadius: 'var(--radius-md)', objectFit: 'cover' }}
+                    />
+                    <span style={{ fontWeight: 'var(--weight-semibold)' }}>#{winner.rank}</span>
+                    <span style={{ color: 'var(--color-text-secondary)' }}>@{winner.user.username}</span>
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Tabs */}
+          <div style={{ display: 'flex', borderBottom: '1px solid var(--color-border)', marginBottom: 'var(--space-default)' }}>
+            <button onClick={() => setActiveTab('leaderboard')} style={tabStyle('leaderboard')}>
+              Leaderboard
+            </button>
+            <button onClick={() => setActiveTab('entries')} style={tabStyle('entries')}>
+              Entries
+            </button>
+          </div>
+
+          {activeTab === 'leaderboard' && (
+            <section>
+              {leaderboard.length === 0 && (
+                <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+                  No entries yet
+                </p>
+              )}
+              {leaderboard.map((item) => (
+                <button
+                  key={item.postId}
+                  onClick={() => openPost(item.postId)}
+                  style={{
+                    width: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 'var(--space-default)',
+                    padding: 'var(--space-small) 0',
+                    background: 'none',
+                    border: 'none',
+                    borderBottom: '1px solid var(--color-border)',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <span
+                    style={{
+                      width: '28px',
+                      fontSize: 'var(--text-body-md)',
+                      fontWeight: 'var(--weight-bold)',
+                      color: item.rank <= 3 ? 'var(--color-off-white)' : 'var(--color-text-tertiary)',
+                    }}
+                  >
+                    {item.rank}
+                  </span>
+                  <img src={item.thumbUrl} alt="" style={thumbStyle} />
+                  <span style={{ flex: 1, fontSize: 'var(--text-body-sm)', color: 'var(--color-off-white)' }}>
+                    @{item.user.username}
+                  </span>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-tight)', fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+                    <Icon type="heart" size={14} />
+                    {item.respects}
+                  </span>
+                </button>
+              ))}
+            </section>
+          )}
+
+          {activeTab === 'entries' && (
+            <section>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 'var(--space-tight)' }}>
+                {entries.map((entry) => (
+                  <button
+                    key={entry.postId}
+                    onClick={() => openPost(entry.postId)}
+                    style={{ padding: 0, background: 'none', border: 'none', cursor: 'pointer' }}
+                  >
+                    <img
+                      src={entry.thumbUrl}
+                      alt=""
+                      style={{ width: '100%', aspectRatio: '3 / 4', objectFit: 'cover', borderRadius: 'var(--radius-md)' }}
+                    />
+                  </button>
+                ))}
+              </div>
+              {!loadingEntries && entries.length === 0 && (
+                <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+                  No entries yet
+                </p>
+              )}
+              {entriesCursor && (
+                <button
+                  onClick={() => loadEntries(entriesCursor)}
+                  disabled={loadingEntries}
+                  style={{
+                    width: '100%',
+                    marginTop: 'var(--space-default)',
+                    padding: 'var(--space-default)',
+                    background: 'none',
+                    border: 'none',
+                    color: 'var(--color-text-secondary)',
+                    fontSize: 'var(--text-body-sm)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {loadingEntries ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
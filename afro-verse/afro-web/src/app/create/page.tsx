@@ -5,7 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '../../hooks/useAuth';
 import { Icon } from '../../components/common/Icon';
 import { ConversationDock } from '../../components/create/ConversationDock';
-import { PromptChips } from '../../components/create/PromptChips';
+import { PromptChips, type Chip } from '../../components/create/PromptChips';
 import { ActionPill } from '../../components/create/ActionPill';
 import { VersionStack } from '../../components/create/VersionStack';
 import { ThreadDrawer } from '../../components/create/ThreadDrawer';
@@ -19,6 +19,7 @@ import { ActionTray } from '../../components/create/ActionTray';
 import { PostingFlow } from '../../components/create/PostingFlow';
 import { PostConfirmation } from '../../components/create/PostConfirmation';
 import { uploadSelfie } from '../../services/uploadService';
+import { getPresets, type StylePreset } from '../../services/presetService';
 
 interface Version {
   id: string;
@@ -39,6 +40,10 @@ function CreatePageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const styleParam = searchParams?.get('style');
+  const seedPostParam = searchParams?.get('seedPost'); // Post being remixed
+  const generationIdParam = searchParams?.get('generationId');
+  const challengeParam = searchParams?.get('challenge'); // Challenge being entered
+  const presetParam = searchParams?.get('preset'); // Challenge preset
 
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -75,34 +80,41 @@ function CreatePageContent() {
   const [currentGenerationId, setCurrentGenerationId] = useState<string>('');
   const [newPostId, setNewPostId] = useState<string>('');
 
+  // Style presets (the user's tribe presets come first)
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const selectedPreset = presets.find((p) => p.id === selectedPresetId) || null;
+
   // Preset chips based on user's tribe or style param
-  const presetChips = styleParam
+  const presetChips: Chip[] = styleParam
     ? [
         { id: '1', label: styleParam, prompt: `${styleParam} style transformation` },
       ]
-    : [
-        { id: '1', label: 'Zulu Warrior', prompt: 'Zulu warrior with traditional beadwork and shield' },
-        { id: '2', label: 'Xhosa Elder', prompt: 'Xhosa elder with ochre face paint and traditional blanket' },
-        { id: '3', label: 'Ndebele Queen', prompt: 'Ndebele queen with colorful geometric beadwork' },
-        { id: '4', label: 'Sotho Royal', prompt: 'Sotho royal in traditional Basotho blanket and mokorotlo hat' },
-        { id: '5', label: 'Swazi Maiden', prompt: 'Swazi maiden in reed dance attire with colorful beads' },
-        { id: '6', label: 'Venda Mystic', prompt: 'Venda mystic with sacred python symbols and traditional dress' },
-        { id: '7', label: 'Tsonga Dancer', prompt: 'Tsonga dancer in vibrant xibelani skirt' },
-        { id: '8', label: 'Pedi Chief', prompt: 'Pedi chief with leopard skin and ceremonial staff' },
-        { id: '9', label: 'Tswana Noble', prompt: 'Tswana noble in traditional leather and beadwork' },
-        { id: '10', label: 'Cape Malay', prompt: 'Cape Malay in colorful traditional dress with koesister patterns' },
-        { id: '11', label: 'San Bushman', prompt: 'San Bushman hunter with traditional bow and ancestral markings' },
-        { id: '12', label: 'Khoi Herder', prompt: 'Khoi herder with traditional kaross and copper jewelry' },
-        { id: '13', label: 'Kwaito Star', prompt: 'Kwaito music star with bold South African street style' },
-        { id: '14', label: 'Joburg Fashion', prompt: 'Johannesburg fashion icon with contemporary African fusion' },
-        { id: '15', label: 'Durban Style', prompt: 'Durban style with coastal South African vibes' },
-      ];
+    : presets.map((preset) => ({
+        id: preset.id,
+        label: preset.title,
+        thumbUrl: preset.exampleThumbs[0],
+      }));
 
   // Show chips when input is empty or very short
   const showChips = prompt.length < 5 && versions.length === 0;
 
-  // Can generate if has selfie and (prompt OR coming from Feed with style)
-  const canGenerate = selfies.length > 0 && (prompt.length > 0 || !!styleParam);
+  // Can generate if has selfie and (prompt OR preset OR coming from Feed with style)
+  const canGenerate = selfies.length > 0 && (prompt.length > 0 || !!selectedPresetId || !!styleParam);
+
+  // Load the preset catalog
+  useEffect(() => {
+    if (styleParam) return;
+
+    getPresets()
+      .then((data) => {
+        setPresets(data);
+        if (presetParam && data.some((p) => p.id === presetParam)) {
+          setSelectedPresetId(presetParam);
+        }
+      })
+      .catch((error) => console.error('Failed to load presets:', error));
+  }, [styleParam, user?.tribeId]);
 
   // Handle "Try This Style" entry from Feed
   useEffect(() => {
@@ -111,6 +123,60 @@ function CreatePageContent() {
     }
   }, [styleParam]);
 
+  // Resume a generation opened from a push or activity notification
+  useEffect(() => {
+    if (!generationIdParam) return;
+
+    let cancelled = false;
+
+    const resume = async () => {
+      try {
+        const { pollGeneration } = await import('../../services/createService');
+        setCurrentGenerationId(generationIdParam);
+
+        const generation = await pollGeneration(
+          generationIdParam,
+          (gen) => {
+            // Still in flight: show the forging state until it lands
+            if (!cancelled && (gen.status === 'queued' || gen.status === 'running')) {
+              setGenerationStartTime((start) => start || Date.now());
+              setIsGenerating(true);
+            }
+          },
+          60,
+          2000
+        );
+
+        if (cancelled) return;
+        setIsGenerating(false);
+
+        if (generation.status !== 'succeeded' || generation.versions.length === 0) {
+          setShowError(true);
+          return;
+        }
+
+        setVersions(
+          generation.versions.map((version, idx) => ({
+            id: version.versionId,
+            imageUrl: version.imageUrl,
+            label: `V${idx + 1}`,
+          }))
+        );
+        setActiveVersionIndex(generation.versions.length - 1);
+        setShowHeroView(true);
+      } catch (error) {
+        console.error('Failed to resume generation:', error);
+        if (!cancelled) setIsGenerating(false);
+      }
+    };
+
+    resume();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [generationIdParam]);
+
   // Track elapsed time and update phases based on backend status
   useEffect(() => {
     if (!isGenerating) return;
@@ -172,7 +238,7 @@ function CreatePageContent() {
     const userMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
-      content: prompt,
+      content: [selectedPreset?.title, prompt].filter(Boolean).join(' · '),
       timestamp: new Date(),
     };
     setMessages((prev) => [...prev, userMessage]);
@@ -231,8 +297,10 @@ function CreatePageContent() {
         
         const result = await createGeneration({
           selfieIds: selfies,
-          mode: styleParam ? 'try_style' : 'prompt',
-          prompt,
+          mode: styleParam || seedPostParam ? 'try_style' : selectedPresetId ? 'preset' : 'prompt',
+          seedPostId: seedPostParam || undefined,
+          presetId: selectedPresetId || undefined,
+          prompt: prompt || undefined,
           aspect: '9:16',
           quality: 'standard',
         });
@@ -392,6 +460,7 @@ function CreatePageContent() {
         versionId: currentVersion.id,
         caption: caption || undefined,
         visibility,
+        challengeId: challengeParam || undefined,
       });
 
       setNewPostId(result.postId);
@@ -416,6 +485,7 @@ function CreatePageContent() {
     setVersions([]);
     setActiveVersionIndex(0);
     setPrompt('');
+    setSelectedPresetId(null);
     setSelfies([]);
   };
 
@@ -457,8 +527,23 @@ function CreatePageContent() {
     }
   };
 
-  const handleChipSelect = (chipPrompt: string) => {
-    setPrompt(chipPrompt);
+  const handleChipSelect = (chip: Chip) => {
+    if (chip.prompt) {
+      setPrompt(chip.prompt);
+      return;
+    }
+
+    // Preset chips toggle
+    setSelectedPresetId((current) => (current === chip.id ? null : chip.id));
+  };
+
+  const handleTryPreset = (presetId: string) => {
+    // Back to the dock with the new style selected
+    setSelectedPresetId(presetId);
+    setPrompt('');
+    setShowActionTray(false);
+    setShowHeroView(false);
+    setShowHeroUI(false);
   };
 
   const handleAttach = () => {
@@ -880,6 +965,7 @@ function CreatePageContent() {
         chips={presetChips}
         onSelect={handleChipSelect}
         show={showChips}
+        selectedId={selectedPresetId}
       />
 
       {/* Action Pill - conditional */}
@@ -990,6 +1076,8 @@ function CreatePageContent() {
           onRefine={handleRefine}
           onSaveToGallery={handleSaveToGallery}
           onUseAsBaseStyle={handleUseAsBaseStyle}
+          presets={presets.filter((p) => p.id !== selectedPresetId)}
+          onTryPreset={handleTryPreset}
           imageUrl={versions[activeVersionIndex]?.imageUrl || ''}
         />
       )}
@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 import { FeedCanvas } from '../../components/feed/FeedCanvas';
 import { IdentitySignals } from '../../components/feed/IdentitySignals';
 import { ActionRail } from '../../components/feed/ActionRail';
+import { FeedOverlay } from '../../components/feed/FeedOverlay';
+import { Icon } from '../../components/common/Icon';
 import { useFeed } from '../../hooks/useFeed';
 import { respectPost, unrespectPost, sharePost as sharePostAPI } from '../../services/postService';
 import { useAuth } from '../../hooks/useAuth';
@@ -22,6 +24,7 @@ export default function FeedPage() {
   const containerRef = useRef<HTMLDivElement>(null);
   const isNavigatingRef = useRef(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const [showComments, setShowComments] = useState(false);
 
   // Update local posts when API posts change
   useEffect(() => {
@@ -222,6 +225,16 @@ export default function FeedPage() {
     }
   };
 
+  const handleCommentCountChange = (delta: number) => {
+    if (!currentPost) return;
+
+    setLocalPosts(prev => prev.map(post =>
+      post.postId === currentPost.postId
+        ? { ...post, counts: { ...post.counts, comments: Math.max(0, (post.counts.comments || 0) + delta) } }
+        : post
+    ));
+  };
+
   const handleTryStyle = () => {
     if (!currentPost) return;
     // Navigate to create page with style pre-filled
@@ -410,7 +423,7 @@ export default function FeedPage() {
           displayName: currentPost.user.displayName,
         }}
         caption={currentPost.caption}
-        styleTags={currentPost.styleTag ? [currentPost.styleTag] : []}
+        styleTags={!currentPost.tags?.length && currentPost.styleTag ? [currentPost.styleTag] : []}
         context={undefined}
       />
 
@@ -428,7 +441,9 @@ export default function FeedPage() {
           }}
           respectCount={currentPost.counts.respects}
           isRespected={currentPost.viewerState.hasRespected}
+          commentCount={currentPost.counts.comments || 0}
           onRespect={handleRespect}
+          onComments={() => setShowComments(true)}
           onShare={handleShare}
           onTryStyle={handleTryStyle}
           style={currentPost.styleTag || ''}
@@ -436,6 +451,16 @@ export default function FeedPage() {
         />
       )}
 
+      {/* LAYER 4 — Overlay sheets (comments) */}
+      <FeedOverlay
+        postId={currentPost.postId}
+        tags={currentPost.tags}
+        onTagTap={(tag) => router.push(`/tag/${tag}`)}
+        isCommentsOpen={showComments}
+        onCloseComments={() => setShowComments(false)}
+        onCommentCountChange={handleCommentCountChange}
+      />
+
       {/* Double-tap respect animation */}
       {respectAnimation && (
         <div
@@ -477,6 +502,29 @@ export default function FeedPage() {
         />
       </div>
 
+      {/* Search */}
+      <button
+        onClick={() => router.push('/search')}
+        aria-label="Search"
+        style={{
+          position: 'absolute',
+          top: 'calc(env(safe-area-inset-top, 0px) + var(--space-default))',
+          right: 'var(--space-default)',
+          width: 'var(--tap-target-min)',
+          height: 'var(--tap-target-min)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: 'none',
+          border: 'none',
+          color: 'var(--color-off-white)',
+          cursor: 'pointer',
+          zIndex: 'var(--z-elevated)',
+        }}
+      >
+        <Icon type="search" size={22} />
+      </button>
+
       <style jsx>{`
         @keyframes heartBurst {
           0% {
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Avatar } from '../../components/common/Avatar';
+import { Icon } from '../../components/common/Icon';
+import { useNotificationStore } from '../../store/notificationStore';
+import type { Notification } from '../../services/notificationService';
+
+const formatAge = (createdAt: string): string => {
+  const seconds = Math.floor((Date.now() - new Date(createdAt).getTime()) / 1000);
+
+  if (seconds < 60) return 'now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const {
+    notifications,
+    hasMore,
+    isLoading,
+    loadNotifications,
+    markAllRead,
+  } = useNotificationStore();
+
+  // Load fresh, then clear the badge
+  useEffect(() => {
+    loadNotifications(true).then(() => markAllRead());
+  }, [loadNotifications, markAllRead]);
+
+  const handleOpen = (notification: Notification) => {
+    if (notification.type === 'follow' && notification.actors[0]) {
+      router.push(`/profile/${notification.actors[0].username}`);
+    } else if (notification.target.postId) {
+      router.push(`/post/${notification.target.postId}`);
+    } else if (notification.target.generationId) {
+      router.push(`/create?generationId=${notification.target.generationId}`);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--color-near-black)',
+        padding: 'calc(env(safe-area-inset-top) + var(--space-lg)) var(--space-lg) calc(var(--nav-height-mobile) + var(--space-lg))',
+      }}
+    >
+      <h1
+        style={{
+          fontSize: 'var(--text-display-md)',
+          fontWeight: 'var(--weight-bold)',
+          color: 'var(--color-text-primary)',
+          margin: '0 0 var(--space-lg)',
+        }}
+      >
+        Activity
+      </h1>
+
+      {!isLoading && notifications.length === 0 && (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            gap: 'var(--space-md)',
+            marginTop: 'var(--space-xl)',
+            color: 'var(--color-text-secondary)',
+            textAlign: 'center',
+          }}
+        >
+          <Icon type="bell" size={40} />
+          <p style={{ fontSize: 'var(--text-body-md)', margin: 0 }}>
+            Nothing yet. Respects, follows and remixes of your looks show up here.
+          </p>
+        </div>
+      )}
+
+      {notifications.map(notification => (
+        <button
+          key={notification.notificationId}
+          onClick={() => handleOpen(notification)}
+          style={{
+            width: '100%',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--space-md)',
+            padding: 'var(--space-md)',
+            marginBottom: 'var(--space-small)',
+            borderRadius: 'var(--radius-lg)',
+            border: 'none',
+            background: notification.isRead ? 'transparent' : 'var(--color-surface-elevated)',
+            textAlign: 'left',
+            cursor: 'pointer',
+          }}
+        >
+          {notification.actors[0] ? (
+            <Avatar
+              src={notification.actors[0].avatarThumbUrl || undefined}
+              alt={notification.actors[0].username}
+              size="sm"
+            />
+          ) : (
+            <div
+              style={{
+                width: '32px',
+                height: '32px',
+                borderRadius: 'var(--radius-full)',
+                background: 'var(--color-gray-800)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                color: 'var(--color-off-white)',
+                flexShrink: 0,
+              }}
+            >
+              <Icon type="sparkle" size={16} />
+            </div>
+          )}
+
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <p
+              style={{
+                margin: 0,
+                fontSize: 'var(--text-body-sm)',
+                color: 'var(--color-off-white)',
+                fontWeight: notification.isRead ? 'var(--weight-regular)' : 'var(--weight-semibold)',
+              }}
+            >
+              {notification.message}
+            </p>
+            <span style={{ fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+              {formatAge(notification.createdAt)}
+            </span>
+          </div>
+
+          {notification.target.thumbUrl && (
+            <img
+              src={notification.target.thumbUrl}
+              alt=""
+              style={{
+                width: '44px',
+                height: '44px',
+                borderRadius: 'var(--radius-md)',
+                objectFit: 'cover',
+                flexShrink: 0,
+              }}
+            />
+          )}
+        </button>
+      ))}
+
+      {hasMore && notifications.length > 0 && (
+        <button
+          onClick={() => loadNotifications()}
+          disabled={isLoading}
+          style={{
+            width: '100%',
+            padding: 'var(--space-md)',
+            background: 'none',
+            border: 'none',
+            fontSize: 'var(--text-body-sm)',
+            color: 'var(--color-text-secondary)',
+            cursor: 'pointer',
+          }}
+        >
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { PostViewer } from '../../../components/post/PostViewer';
+import { getPost, respectPost, unrespectPost } from '../../../services/postService';
 
 interface Post {
   id: string;
@@ -19,8 +20,12 @@ interface Post {
   };
   caption?: string;
   styleTags?: string[];
+  tags?: string[];
   respectCount: number;
   isRespected: boolean;
+  commentCount?: number;
+  remixedFrom?: string | null;
+  remixCount?: number;
 }
 
 export default function PostDetailPage() {
@@ -78,37 +83,64 @@ export default function PostDetailPage() {
   }, [currentIndex, postIds, router]);
 
   useEffect(() => {
-    // Mock post data - replace with real API call
-    const mockPost: Post = {
-      id: postId,
-      imageUrl: `https://picsum.photos/1080/1920?random=${postId}`,
-      user: {
-        username: 'kwame_king',
-        displayName: 'Kwame King',
-      },
-      tribe: {
-        slug: 'wakandan-lineage',
-        name: 'Wakandan Lineage',
-        color: '#9333EA',
-        icon: '⬢',
-      },
-      caption: 'Wakandan warrior in the golden hour, celebrating ancestral wisdom',
-      styleTags: ['Afrofuturism', 'GoldenHour', 'Warrior'],
-      respectCount: 234,
-      isRespected: false,
-    };
+    let cancelled = false;
+
+    getPost(postId)
+      .then((data) => {
+        if (cancelled) return;
 
-    setPost(mockPost);
+        setPost({
+          id: data.postId,
+          imageUrl: data.imageUrl,
+          user: {
+            username: data.user.username,
+            displayName: data.user.displayName,
+          },
+          tribe: {
+            slug: data.tribe.slug,
+            name: data.tribe.name,
+            color: data.tribe.accentColor || '#9333EA',
+            icon: '⬢',
+          },
+          caption: data.caption,
+          styleTags: data.styleTag ? [data.styleTag] : [],
+          tags: data.tags || [],
+          respectCount: data.counts.respects,
+          isRespected: data.viewerState.hasRespected,
+          commentCount: data.counts.comments,
+          remixedFrom: data.remixedFrom?.user?.username || null,
+          remixCount: data.counts.remixes || 0,
+        });
+      })
+      .catch((error) => console.error('Failed to load post:', error));
+
+    return () => {
+      cancelled = true;
+    };
   }, [postId]);
 
-  const handleRespect = (id: string) => {
+  const handleRespect = async (id: string) => {
     if (!post) return;
-    
+
+    const wasRespected = post.isRespected;
+
+    // Optimistic update
     setPost({
       ...post,
-      isRespected: !post.isRespected,
-      respectCount: post.isRespected ? post.respectCount - 1 : post.respectCount + 1,
+      isRespected: !wasRespected,
+      respectCount: wasRespected ? post.respectCount - 1 : post.respectCount + 1,
     });
+
+    try {
+      if (wasRespected) {
+        await unrespectPost(id);
+      } else {
+        await respectPost(id);
+      }
+    } catch (error) {
+      console.error('Failed to update respect:', error);
+      setPost(post);
+    }
   };
 
   const handleShare = (id: string) => {
@@ -126,8 +158,17 @@ export default function PostDetailPage() {
   const handleTryStyle = (id: string) => {
     if (!post) return;
     
-    // Navigate to Create with context
-    router.push(`/create?from=post&postId=${id}`);
+    // Navigate to Create with the style and its source (remix lineage)
+    const styleTag = post.styleTags?.[0] || '';
+    router.push(`/create?style=${encodeURIComponent(styleTag)}&seedPost=${id}`);
+  };
+
+  const handleLineageTap = (id: string) => {
+    router.push(`/post/${id}/remixes`);
+  };
+
+  const handleTagTap = (tag: string) => {
+    router.push(`/tag/${tag}`);
   };
 
   const handleClose = () => {
@@ -222,6 +263,8 @@ export default function PostDetailPage() {
         onTryStyle={handleTryStyle}
         onTribeTap={handleTribeTap}
         onUserTap={handleUserTap}
+        onLineageTap={handleLineageTap}
+        onTagTap={handleTagTap}
       />
 
       {/* Position Indicator - Show if viewing from profile */}
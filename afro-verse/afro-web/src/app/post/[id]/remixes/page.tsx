@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Icon } from '../../../../components/common/Icon';
+import { RemixTree } from '../../../../components/post/RemixTree';
+import {
+  getPost,
+  getLineage,
+  type PostDetail,
+  type LineagePost,
+} from '../../../../services/postService';
+
+export default function PostRemixesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const postId = params?.id as string;
+
+  const [post, setPost] = useState<PostDetail | null>(null);
+  const [ancestors, setAncestors] = useState<LineagePost[]>([]);
+  const [isTruncated, setIsTruncated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getPost(postId), getLineage(postId)])
+      .then(([postData, lineage]) => {
+        if (cancelled) return;
+        setPost(postData);
+        setAncestors(lineage.ancestors);
+        setIsTruncated(lineage.truncated);
+      })
+      .catch((err) => {
+        console.error('Failed to load remix lineage:', err);
+        if (!cancelled) setError('This post is no longer available');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  const openPost = (id: string) => {
+    router.push(`/post/${id}`);
+  };
+
+  const sectionTitleStyle: React.CSSProperties = {
+    margin: '0 0 var(--space-default)',
+    fontSize: 'var(--text-meta)',
+    fontWeight: 'var(--weight-semibold)',
+    color: 'var(--color-text-tertiary)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+  };
+
+  const chainThumbStyle: React.CSSProperties = {
+    width: '56px',
+    height: '56px',
+    borderRadius: 'var(--radius-md)',
+    objectFit: 'cover',
+    background: 'var(--color-gray-800)',
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--color-near-black)',
+        padding: 'calc(env(safe-area-inset-top) + var(--space-lg)) var(--space-lg) calc(var(--nav-height-mobile) + var(--space-lg))',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-default)', marginBottom: 'var(--space-lg)' }}>
+        <button
+          onClick={() => router.back()}
+          aria-label="Back"
+          style={{
+            width: 'var(--tap-target-min)',
+            height: 'var(--tap-target-min)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: 'none',
+            border: 'none',
+            color: 'var(--color-off-white)',
+            cursor: 'pointer',
+          }}
+        >
+          <Icon type="back" size={22} />
+        </button>
+        <h1
+          style={{
+            fontSize: 'var(--text-display-sm)',
+            fontWeight: 'var(--weight-bold)',
+            color: 'var(--color-text-primary)',
+            margin: 0,
+          }}
+        >
+          Remixes
+        </h1>
+      </div>
+
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>{error}</p>
+      )}
+
+      {post && (
+        <>
+          {/* Lineage: where this look came from */}
+          {ancestors.length > 0 && (
+            <section style={{ marginBottom: 'var(--space-section)' }}>
+              <h2 style={sectionTitleStyle}>Lineage</h2>
+              <div
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 'var(--space-small)',
+                  overflowX: 'auto',
+                  scrollbarWidth: 'none',
+                  paddingBottom: 'var(--space-tight)',
+                }}
+              >
+                {isTruncated && (
+                  <span style={{ color: 'var(--color-text-tertiary)', fontSize: 'var(--text-body-sm)' }}>…</span>
+                )}
+                {ancestors.map((ancestor) => (
+                  <React.Fragment key={ancestor.postId}>
+                    <button
+                      onClick={() => ancestor.available && openPost(ancestor.postId)}
+                      disabled={!ancestor.available}
+                      style={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        gap: 'var(--space-tight)',
+                        flexShrink: 0,
+                        width: '64px',
+                        padding: 0,
+                        background: 'none',
+                        border: 'none',
+                        color: 'var(--color-text-secondary)',
+                        fontSize: 'var(--text-meta)',
+                        cursor: ancestor.available ? 'pointer' : 'default',
+                      }}
+                    >
+                      {ancestor.available ? (
+                        <img src={ancestor.thumbUrl} alt="" style={chainThumbStyle} />
+                      ) : (
+                        <div style={chainThumbStyle} />
+                      )}
+                      <span style={{ maxWidth: '100%', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {ancestor.user ? `@${ancestor.user.username}` : 'Unavailable'}
+                      </span>
+                    </button>
+                    <Icon type="chevron-right" size={14} style={{ color: 'var(--color-text-tertiary)', flexShrink: 0 }} />
+                  </React.Fragment>
+                ))}
+                <div
+                  style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    gap: 'var(--space-tight)',
+                    flexShrink: 0,
+                    width: '64px',
+                    color: 'var(--color-off-white)',
+                    fontSize: 'var(--text-meta)',
+                    fontWeight: 'var(--weight-semibold)',
+                  }}
+                >
+                  <img
+                    src={post.thumbUrl}
+                    alt=""
+                    style={{ ...chainThumbStyle, border: '2px solid var(--color-off-white)' }}
+                  />
+                  <span style={{ maxWidth: '100%', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    @{post.user.username}
+                  </span>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* Remix tree: where this look went */}
+          <section>
+            <h2 style={sectionTitleStyle}>
+              {post.counts.remixes > 0
+                ? `${post.counts.remixes} ${post.counts.remixes === 1 ? 'remix' : 'remixes'}`
+                : 'Remix tree'}
+            </h2>
+            <RemixTree postId={post.postId} onOpenPost={openPost} />
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
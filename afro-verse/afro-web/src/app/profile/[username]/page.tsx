@@ -7,9 +7,13 @@ import { ProfileHeader } from '../../../components/profile/ProfileHeader';
 import { ProfileStats } from '../../../components/profile/ProfileStats';
 import { ProfileGrid } from '../../../components/profile/ProfileGrid';
 import { IdentityViewer } from '../../../components/profile/IdentityViewer';
+import { ReportSheet } from '../../../components/common/ReportSheet';
 import { Icon } from '../../../components/common/Icon';
+import { getRelationship } from '../../../services/followService';
+import { blockUser, unblockUser, muteUser, unmuteUser } from '../../../services/blockService';
 
 interface UserProfile {
+  id: string;
   username: string;
   displayName: string;
   avatar: string;
@@ -43,6 +47,9 @@ export default function UserProfilePage() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [isFollowing, setIsFollowing] = useState(false);
   const [isIdentityViewerOpen, setIsIdentityViewerOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
   
   // Check if viewing own profile
   const isSelf = currentUser?.username === username;
@@ -63,6 +70,7 @@ export default function UserProfilePage() {
         if (profileResponse.ok) {
           const profileData = await profileResponse.json();
           setProfile({
+            id: profileData.id,
             username: profileData.username,
             displayName: profileData.displayName,
             avatar: profileData.avatar?.thumbUrl || '',
@@ -114,6 +122,19 @@ export default function UserProfilePage() {
     fetchProfile();
   }, [username]);
 
+  // Follow / block / mute state (signed-in viewers of other profiles)
+  useEffect(() => {
+    if (!profile?.id || !currentUser || isSelf) return;
+
+    getRelationship(profile.id)
+      .then((relationship) => {
+        setIsFollowing(relationship.isFollowing);
+        setIsBlocked(relationship.isBlocked);
+        setIsMuted(relationship.isMuted);
+      })
+      .catch((err) => console.error('Failed to load relationship:', err));
+  }, [profile?.id, currentUser, isSelf]);
+
   if (!profile) {
     return (
       <div
@@ -148,6 +169,40 @@ export default function UserProfilePage() {
     }
   };
 
+  const handleBlock = async () => {
+    if (!isBlocked && !window.confirm(`Block @${profile.username}? You'll unfollow each other.`)) {
+      return;
+    }
+
+    try {
+      if (isBlocked) {
+        await unblockUser(profile.id);
+        setIsBlocked(false);
+      } else {
+        await blockUser(profile.id);
+        setIsBlocked(true);
+        setIsFollowing(false);
+        setPosts([]);
+      }
+    } catch (error) {
+      console.error('Failed to block/unblock:', error);
+    }
+  };
+
+  const handleMute = async () => {
+    try {
+      if (isMuted) {
+        await unmuteUser(profile.id);
+      } else {
+        await muteUser(profile.id);
+        setPosts([]);
+      }
+      setIsMuted(!isMuted);
+    } catch (error) {
+      console.error('Failed to mute/unmute:', error);
+    }
+  };
+
   const handleShare = () => {
     if (navigator.share) {
       navigator.share({
@@ -201,7 +256,12 @@ export default function UserProfilePage() {
         tribe={profile.tribe}
         isSelf={isSelf}
         isFollowing={!isSelf && isFollowing}
+        isBlocked={isBlocked}
+        isMuted={isMuted}
         onFollow={!isSelf ? handleFollow : undefined}
+        onReport={!isSelf && currentUser ? () => setIsReportOpen(true) : undefined}
+        onBlock={!isSelf && currentUser ? handleBlock : undefined}
+        onMute={!isSelf && currentUser ? handleMute : undefined}
         onShare={handleShare}
         onAvatarTap={() => setIsIdentityViewerOpen(true)}
       />
@@ -231,6 +291,13 @@ export default function UserProfilePage() {
         isSelf={isSelf}
         onClose={() => setIsIdentityViewerOpen(false)}
       />
+
+      {/* Report Sheet */}
+      <ReportSheet
+        isOpen={isReportOpen}
+        onClose={() => setIsReportOpen(false)}
+        target={{ type: 'profile', id: profile.id }}
+      />
     </div>
   );
 }
@@ -8,6 +8,9 @@ import { ProfileStats } from '../../components/profile/ProfileStats';
 import { ProfileGrid } from '../../components/profile/ProfileGrid';
 import { IdentityViewer } from '../../components/profile/IdentityViewer';
 import { EditProfileSheet } from '../../components/profile/EditProfileSheet';
+import { PushSettings } from '../../components/profile/PushSettings';
+import { BlockedAccounts } from '../../components/profile/BlockedAccounts';
+import { Button } from '../../components/common/Button';
 
 interface Post {
   id: string;
@@ -16,7 +19,7 @@ interface Post {
 }
 
 export default function ProfilePage() {
-  const { user, refreshUser, loading, logout } = useAuth();
+  const { user, refreshUser, loading, logout, isAdmin } = useAuth();
   const router = useRouter();
   
   const [posts, setPosts] = useState<Post[]>([]);
@@ -196,6 +199,21 @@ export default function ProfilePage() {
         isEmpty={!hasPosts}
       />
 
+      {/* Push Notifications */}
+      <PushSettings />
+
+      {/* Blocked and Muted Accounts */}
+      <BlockedAccounts />
+
+      {/* Moderation console (admins only) */}
+      {isAdmin && (
+        <div style={{ padding: '0 var(--space-default) var(--space-default)' }}>
+          <Button variant="secondary" fullWidth onClick={() => router.push('/admin')}>
+            Moderation console
+          </Button>
+        </div>
+      )}
+
       {/* Identity Viewer Modal */}
       <IdentityViewer
         isOpen={isIdentityViewerOpen}
@@ -0,0 +1,421 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Icon } from '../../components/common/Icon';
+import { Avatar } from '../../components/common/Avatar';
+import {
+  search,
+  getRecentQueries,
+  addRecentQuery,
+  removeRecentQuery,
+  clearRecentQueries,
+  MIN_QUERY_LENGTH,
+  type SearchType,
+  type SearchResponse,
+} from '../../services/searchService';
+
+const TYPES: Array<{ id: SearchType; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'users', label: 'People' },
+  { id: 'tribes', label: 'Tribes' },
+  { id: 'posts', label: 'Posts' },
+  { id: 'tags', label: 'Tags' },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '0 0 var(--space-small)',
+  fontSize: 'var(--text-meta)',
+  fontWeight: 'var(--weight-semibold)',
+  color: 'var(--color-text-tertiary)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+};
+
+const rowStyle: React.CSSProperties = {
+  width: '100%',
+  display: 'flex',
+  alignItems: 'center',
+  gap: 'var(--space-default)',
+  minHeight: 'var(--tap-target-min)',
+  padding: 'var(--space-tight) 0',
+  background: 'none',
+  border: 'none',
+  textAlign: 'left',
+  cursor: 'pointer',
+};
+
+const primaryTextStyle: React.CSSProperties = {
+  margin: 0,
+  fontSize: 'var(--text-body-md)',
+  fontWeight: 'var(--weight-semibold)',
+  color: 'var(--color-text-primary)',
+};
+
+const secondaryTextStyle: React.CSSProperties = {
+  margin: 0,
+  fontSize: 'var(--text-body-sm)',
+  color: 'var(--color-text-tertiary)',
+};
+
+export default function SearchPage() {
+  const router = useRouter();
+  const requestRef = useRef(0);
+
+  const [query, setQuery] = useState('');
+  const [type, setType] = useState<SearchType>('all');
+  const [results, setResults] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmed = query.trim();
+  const isSearching = trimmed.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    setRecent(getRecentQueries());
+  }, []);
+
+  const runSearch = async (nextCursor?: string) => {
+    // Ignore responses for queries the user has typed past
+    const request = ++requestRef.current;
+
+    setLoading(true);
+    try {
+      const response = await search(trimmed, type, nextCursor);
+      if (request !== requestRef.current) return;
+
+      setResults((prev) =>
+        nextCursor && prev
+          ? {
+              ...response,
+              users: [...(prev.users || []), ...(response.users || [])],
+              tribes: [...(prev.tribes || []), ...(response.tribes || [])],
+              posts: [...(prev.posts || []), ...(response.posts || [])],
+              tags: [...(prev.tags || []), ...(response.tags || [])],
+            }
+          : response
+      );
+      setError(null);
+    } catch (err) {
+      console.error('Search failed:', err);
+      if (request === requestRef.current) setError('Search is unavailable right now');
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isSearching) {
+      requestRef.current++;
+      setResults(null);
+      setLoading(false);
+      return;
+    }
+
+    const timer = setTimeout(() => runSearch(), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [trimmed, type]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const openResult = (path: string) => {
+    setRecent(addRecentQuery(trimmed));
+    router.push(path);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSearching) {
+      setRecent(addRecentQuery(trimmed));
+    }
+  };
+
+  const showSection = (section: SearchType) => type === 'all' || type === section;
+
+  const isEmpty =
+    results &&
+    !results.users?.length &&
+    !results.tribes?.length &&
+    !results.posts?.length &&
+    !results.tags?.length;
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--color-near-black)',
+        padding: 'calc(env(safe-area-inset-top) + var(--space-lg)) var(--space-lg) calc(var(--nav-height-mobile) + var(--space-lg))',
+      }}
+    >
+      {/* Search bar */}
+      <form
+        onSubmit={handleSubmit}
+        style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-small)', marginBottom: 'var(--space-default)' }}
+      >
+        <button
+          type="button"
+          onClick={() => router.back()}
+          aria-label="Back"
+          style={{
+            width: 'var(--tap-target-min)',
+            height: 'var(--tap-target-min)',
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: 'none',
+            border: 'none',
+            color: 'var(--color-off-white)',
+            cursor: 'pointer',
+          }}
+        >
+          <Icon type="back" size={22} />
+        </button>
+        <div
+          style={{
+            flex: 1,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--space-small)',
+            padding: '0 var(--space-default)',
+            minHeight: 'var(--tap-target-min)',
+            borderRadius: 'var(--radius-full)',
+            background: 'var(--color-gray-900)',
+            color: 'var(--color-text-tertiary)',
+          }}
+        >
+          <Icon type="search" size={18} />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search people, tribes, posts, #tags"
+            maxLength={50}
+            autoFocus
+            style={{
+              flex: 1,
+              minWidth: 0,
+              background: 'none',
+              border: 'none',
+              outline: 'none',
+              color: 'var(--color-text-primary)',
+              fontSize: 'var(--text-body-md)',
+            }}
+          />
+          {query && (
+            <button
+              type="button"
+              onClick={() => setQuery('')}
+              aria-label="Clear search"
+              style={{ display: 'flex', background: 'none', border: 'none', color: 'inherit', cursor: 'pointer' }}
+            >
+              <Icon type="close" size={18} />
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Type tabs */}
+      <div style={{ display: 'flex', gap: 'var(--space-small)', overflowX: 'auto', marginBottom: 'var(--space-lg)' }}>
+        {TYPES.map((item) => {
+          const isActive = item.id === type;
+
+          return (
+            <button
+              key={item.id}
+              onClick={() => setType(item.id)}
+              style={{
+                flexShrink: 0,
+                padding: 'var(--space-tight) var(--space-default)',
+                borderRadius: 'var(--radius-full)',
+                background: isActive ? 'var(--color-off-white)' : 'var(--color-gray-800)',
+                border: 'none',
+                color: isActive ? 'var(--color-near-black)' : 'var(--color-off-white)',
+                fontSize: 'var(--text-body-sm)',
+                fontWeight: isActive ? 'var(--weight-semibold)' : 'var(--weight-regular)',
+                cursor: 'pointer',
+              }}
+            >
+              {item.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Recent queries */}
+      {!isSearching && recent.length > 0 && (
+        <section>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <h2 style={sectionTitleStyle}>Recent</h2>
+            <button
+              onClick={() => {
+                clearRecentQueries();
+                setRecent([]);
+              }}
+              style={{
+                background: 'none',
+                border: 'none',
+                color: 'var(--color-text-secondary)',
+                fontSize: 'var(--text-meta)',
+                cursor: 'pointer',
+              }}
+            >
+              Clear all
+            </button>
+          </div>
+          {recent.map((item) => (
+            <div key={item} style={{ display: 'flex', alignItems: 'center' }}>
+              <button onClick={() => setQuery(item)} style={{ ...rowStyle, flex: 1, color: 'var(--color-text-secondary)' }}>
+                <Icon type="search" size={16} />
+                <span style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-primary)' }}>{item}</span>
+              </button>
+              <button
+                onClick={() => setRecent(removeRecentQuery(item))}
+                aria-label={`Remove ${item}`}
+                style={{
+                  width: 'var(--tap-target-min)',
+                  height: 'var(--tap-target-min)',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  background: 'none',
+                  border: 'none',
+                  color: 'var(--color-text-tertiary)',
+                  cursor: 'pointer',
+                }}
+              >
+                <Icon type="close" size={16} />
+              </button>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {!isSearching && recent.length === 0 && (
+        <p style={secondaryTextStyle}>Find people, tribes, posts and tags.</p>
+      )}
+
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>{error}</p>
+      )}
+
+      {isSearching && isEmpty && !loading && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>
+          No results for “{trimmed}”
+        </p>
+      )}
+
+      {isSearching && results && (
+        <>
+          {/* People */}
+          {showSection('users') && !!results.users?.length && (
+            <section style={{ marginBottom: 'var(--space-section)' }}>
+              <h2 style={sectionTitleStyle}>People</h2>
+              {results.users.map((user) => (
+                <button key={user.id} onClick={() => openResult(`/profile/${user.username}`)} style={rowStyle}>
+                  <Avatar src={user.avatarThumbUrl || undefined} alt={user.displayName} size="sm" />
+                  <div style={{ minWidth: 0 }}>
+                    <p style={primaryTextStyle}>{user.displayName}</p>
+                    <p style={secondaryTextStyle}>
+                      @{user.username}
+                      {user.tribe ? ` · ${user.tribe.name}` : ''}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </section>
+          )}
+
+          {/* Tribes */}
+          {showSection('tribes') && !!results.tribes?.length && (
+            <section style={{ marginBottom: 'var(--space-section)' }}>
+              <h2 style={sectionTitleStyle}>Tribes</h2>
+              {results.tribes.map((tribe) => (
+                <button key={tribe.id} onClick={() => openResult(`/tribe/${tribe.slug}`)} style={rowStyle}>
+                  <div
+                    style={{
+                      width: 32,
+                      height: 32,
+                      flexShrink: 0,
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      borderRadius: 'var(--radius-full)',
+                      background: tribe.accentColor,
+                    }}
+                  >
+                    <img src={tribe.iconUrl} alt="" style={{ width: 18, height: 18 }} />
+                  </div>
+                  <div style={{ minWidth: 0 }}>
+                    <p style={primaryTextStyle}>{tribe.name}</p>
+                    <p style={secondaryTextStyle}>
+                      {tribe.motto} · {tribe.members} {tribe.members === 1 ? 'member' : 'members'}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </section>
+          )}
+
+          {/* Tags */}
+          {showSection('tags') && !!results.tags?.length && (
+            <section style={{ marginBottom: 'var(--space-section)' }}>
+              <h2 style={sectionTitleStyle}>Tags</h2>
+              {results.tags.map((tag) => (
+                <button key={tag.slug} onClick={() => openResult(`/tag/${tag.slug}`)} style={rowStyle}>
+                  <div style={{ minWidth: 0 }}>
+                    <p style={primaryTextStyle}>#{tag.slug}</p>
+                    <p style={secondaryTextStyle}>
+                      {tag.postCount} {tag.postCount === 1 ? 'post' : 'posts'}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </section>
+          )}
+
+          {/* Posts */}
+          {showSection('posts') && !!results.posts?.length && (
+            <section style={{ marginBottom: 'var(--space-section)' }}>
+              <h2 style={sectionTitleStyle}>Posts</h2>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 'var(--space-tight)' }}>
+                {results.posts.map((post) => (
+                  <button
+                    key={post.postId}
+                    onClick={() => openResult(`/post/${post.postId}`)}
+                    style={{ padding: 0, background: 'none', border: 'none', cursor: 'pointer' }}
+                  >
+                    <img
+                      src={post.thumbUrl}
+                      alt={post.caption || ''}
+                      style={{ width: '100%', aspectRatio: '3 / 4', objectFit: 'cover', borderRadius: 'var(--radius-md)' }}
+                    />
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {type !== 'all' && results.nextCursor && (
+            <button
+              onClick={() => runSearch(results.nextCursor)}
+              disabled={loading}
+              style={{
+                width: '100%',
+                padding: 'var(--space-default)',
+                background: 'none',
+                border: 'none',
+                color: 'var(--color-text-secondary)',
+                fontSize: 'var(--text-body-sm)',
+                cursor: 'pointer',
+              }}
+            >
+              {loading ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
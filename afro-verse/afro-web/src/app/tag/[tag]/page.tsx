@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Icon } from '../../../components/common/Icon';
+import { getTagPosts, getTrendingTags, type TagInfo, type TrendingTag } from '../../../services/tagService';
+import type { FeedItem } from '../../../services/feedService';
+
+export default function TagPage() {
+  const params = useParams();
+  const router = useRouter();
+  const tagParam = decodeURIComponent(params?.tag as string);
+
+  const [tag, setTag] = useState<TagInfo | null>(null);
+  const [posts, setPosts] = useState<FeedItem[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [trending, setTrending] = useState<TrendingTag[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPosts = async (nextCursor?: string) => {
+    if (loading) return;
+
+    setLoading(true);
+    try {
+      const response = await getTagPosts(tagParam, 12, nextCursor);
+      setTag(response.tag);
+      setPosts((prev) => (nextCursor ? [...prev, ...response.items] : response.items));
+      setCursor(response.nextCursor);
+    } catch (err) {
+      console.error('Failed to load tag posts:', err);
+      if (!nextCursor) setError('No posts with this tag yet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setPosts([]);
+    setCursor(undefined);
+    setError(null);
+    loadPosts();
+
+    getTrendingTags()
+      .then(setTrending)
+      .catch((err) => console.error('Failed to load trending tags:', err));
+  }, [tagParam]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const otherTrending = trending.filter((item) => item.slug !== tag?.slug);
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--color-near-black)',
+        padding: 'calc(env(safe-area-inset-top) + var(--space-lg)) var(--space-lg) calc(var(--nav-height-mobile) + var(--space-lg))',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-default)', marginBottom: 'var(--space-lg)' }}>
+        <button
+          onClick={() => router.back()}
+          aria-label="Back"
+          style={{
+            width: 'var(--tap-target-min)',
+            height: 'var(--tap-target-min)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: 'none',
+            border: 'none',
+            color: 'var(--color-off-white)',
+            cursor: 'pointer',
+          }}
+        >
+          <Icon type="back" size={22} />
+        </button>
+        <div>
+          <h1
+            style={{
+              fontSize: 'var(--text-display-sm)',
+              fontWeight: 'var(--weight-bold)',
+              color: 'var(--color-text-primary)',
+              margin: 0,
+            }}
+          >
+            #{tag?.slug || tagParam}
+          </h1>
+          {tag && (
+            <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-tertiary)' }}>
+              {tag.isStyle ? `${tag.label} · ` : ''}
+              {tag.postCount} {tag.postCount === 1 ? 'post' : 'posts'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Trending */}
+      {otherTrending.length > 0 && (
+        <section style={{ marginBottom: 'var(--space-section)' }}>
+          <h2
+            style={{
+              margin: '0 0 var(--space-small)',
+              fontSize: 'var(--text-meta)',
+              fontWeight: 'var(--weight-semibold)',
+              color: 'var(--color-text-tertiary)',
+              textTransform: 'uppercase',
+              letterSpacing: '0.05em',
+            }}
+          >
+            Trending
+          </h2>
+          <div style={{ display: 'flex', gap: 'var(--space-small)', overflowX: 'auto' }}>
+            {otherTrending.map((item) => (
+              <button
+                key={item.slug}
+                onClick={() => router.push(`/tag/${item.slug}`)}
+                style={{
+                  flexShrink: 0,
+                  padding: 'var(--space-tight) var(--space-default)',
+                  borderRadius: 'var(--radius-full)',
+                  background: 'var(--color-gray-800)',
+                  border: 'none',
+                  color: 'var(--color-off-white)',
+                  fontSize: 'var(--text-body-sm)',
+                  cursor: 'pointer',
+                }}
+              >
+                #{item.slug}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>{error}</p>
+      )}
+
+      {/* Posts */}
+      <section>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 'var(--space-tight)' }}>
+          {posts.map((post) => (
+            <button
+              key={post.postId}
+              onClick={() => router.push(`/post/${post.postId}`)}
+              style={{ padding: 0, background: 'none', border: 'none', cursor: 'pointer' }}
+            >
+              <img
+                src={post.thumbUrl}
+                alt=""
+                style={{ width: '100%', aspectRatio: '3 / 4', objectFit: 'cover', borderRadius: 'var(--radius-md)' }}
+              />
+            </button>
+          ))}
+        </div>
+        {cursor && (
+          <button
+            onClick={() => loadPosts(cursor)}
+            disabled={loading}
+            style={{
+              width: '100%',
+              marginTop: 'var(--space-default)',
+              padding: 'var(--space-default)',
+              background: 'none',
+              border: 'none',
+              color: 'var(--color-text-secondary)',
+              fontSize: 'var(--text-body-sm)',
+              cursor: 'pointer',
+            }}
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -9,9 +9,12 @@ import { TribeFeaturedStrip } from '../../../components/tribe/TribeFeaturedStrip
 import { TribePostGrid } from '../../../components/tribe/TribePostGrid';
 import { TribeMemberList } from '../../../components/tribe/TribeMemberList';
 import { TribeAbout } from '../../../components/tribe/TribeAbout';
+import { TribeStats } from '../../../components/tribe/TribeStats';
 import { FloatingPostCTA } from '../../../components/tribe/FloatingPostCTA';
+import { TribeSwitchSheet } from '../../../components/tribe/TribeSwitchSheet';
+import { useTribe } from '../../../hooks/useTribe';
 
-type TabId = 'posts' | 'members' | 'about';
+type TabId = 'posts' | 'members' | 'stats' | 'about';
 
 interface Tribe {
   slug: string;
@@ -63,6 +66,13 @@ export default function TribePage() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [leaders, setLeaders] = useState<Member[]>([]);
   const [newMembers, setNewMembers] = useState<Member[]>([]);
+  const [isSwitchSheetOpen, setIsSwitchSheetOpen] = useState(false);
+
+  // Viewer membership (switch eligibility comes from the API)
+  const { tribe: tribeDetail, join, switchTo } = useTribe(slug);
+  const viewerState = tribeDetail?.viewerState;
+  const isInOtherTribe = !!viewerState && !viewerState.isMember
+    && (viewerState.canSwitch || !!viewerState.switchAvailableAt);
 
   // Handle scroll for header collapse
   useEffect(() => {
@@ -182,8 +192,15 @@ export default function TribePage() {
   };
 
   const handleJoinClick = () => {
-    // Join tribe logic
-    console.log('Join tribe');
+    // Members of another tribe confirm the switch first
+    if (isInOtherTribe) {
+      setIsSwitchSheetOpen(true);
+      return;
+    }
+
+    join().catch(() => {
+      // Error surfaced by useTribe
+    });
   };
 
   const handleFollowClick = (memberId: string) => {
@@ -218,9 +235,12 @@ export default function TribePage() {
         vibeDescriptor={tribe.vibeDescriptor}
         memberCount={tribe.memberCount}
         accentColor={tribe.accentColor}
-        isMember={tribe.isMember}
+        isMember={viewerState ? viewerState.isMember : tribe.isMember}
         isActiveNow={tribe.isActiveNow}
         onJoinClick={handleJoinClick}
+        joinLabel={isInOtherTribe ? 'Switch Tribe' : 'Join Tribe'}
+        challenge={tribeDetail?.challenge ?? null}
+        onChallengeClick={(challengeId) => router.push(`/challenge/${challengeId}`)}
         isScrolled={isScrolled}
       />
 
@@ -273,6 +293,14 @@ export default function TribePage() {
           />
         )}
 
+        {/* Stats Tab */}
+        {activeTab === 'stats' && (
+          <TribeStats
+            slug={tribe.slug}
+            accentColor={tribe.accentColor}
+          />
+        )}
+
         {/* About Tab */}
         {activeTab === 'about' && (
           <TribeAbout
@@ -288,6 +316,16 @@ export default function TribePage() {
         )}
       </div>
 
+      {/* Switch Confirmation */}
+      <TribeSwitchSheet
+        isOpen={isSwitchSheetOpen}
+        onClose={() => setIsSwitchSheetOpen(false)}
+        tribeName={tribe.name}
+        accentColor={tribe.accentColor}
+        switchAvailableAt={viewerState?.switchAvailableAt ?? null}
+        onConfirm={switchTo}
+      />
+
       {/* Floating CTA */}
       {tribe.isMember && (
         <FloatingPostCTA
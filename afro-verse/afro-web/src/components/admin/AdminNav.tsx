@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+
+const TABS = [
+  { path: '/admin', label: 'Queue' },
+  { path: '/admin/posts', label: 'Posts' },
+  { path: '/admin/users', label: 'Users' },
+  { path: '/admin/generations', label: 'Generations' },
+];
+
+export const AdminNav: React.FC = () => {
+  const pathname = usePathname();
+  const router = useRouter();
+
+  return (
+    <nav
+      style={{
+        display: 'flex',
+        gap: 'var(--space-small)',
+        overflowX: 'auto',
+        padding: 'var(--space-default) 0',
+        borderBottom: '1px solid var(--color-border)',
+        marginBottom: 'var(--space-default)',
+      }}
+    >
+      {TABS.map((tab) => {
+        const isActive = pathname === tab.path;
+
+        return (
+          <button
+            key={tab.path}
+            onClick={() => router.push(tab.path)}
+            style={{
+              flexShrink: 0,
+              padding: 'var(--space-tight) var(--space-default)',
+              borderRadius: 'var(--radius-full)',
+              background: isActive ? 'var(--color-off-white)' : 'var(--color-gray-800)',
+              border: 'none',
+              color: isActive ? 'var(--color-near-black)' : 'var(--color-off-white)',
+              fontSize: 'var(--text-body-sm)',
+              fontWeight: isActive ? 'var(--weight-semibold)' : 'var(--weight-regular)',
+              cursor: 'pointer',
+            }}
+          >
+            {tab.label}
+          </button>
+        );
+      })}
+    </nav>
+  );
+};
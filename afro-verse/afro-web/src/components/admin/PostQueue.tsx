@@ -0,0 +1,313 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '../common/Button';
+import { UserDrawer } from './UserDrawer';
+import { ShortcutHelp } from './ShortcutHelp';
+import { useTriageKeys } from '../../hooks/useTriageKeys';
+import {
+  bulkPostAction,
+  bulkUserAction,
+  type AdminPage,
+  type AdminPost,
+  type AdminPostAction,
+  type AdminPostStatus,
+} from '../../services/adminService';
+
+interface PostQueueProps {
+  load: (cursor?: string) => Promise<AdminPage<AdminPost>>;
+  // Posts whose status no longer matches leave the list after an action
+  status?: AdminPostStatus;
+  emptyMessage?: string;
+}
+
+const DEFAULT_REASON = 'Violates community guidelines';
+
+const NEXT_STATUS: Record<AdminPostAction, AdminPost['status']> = {
+  flag: 'flagged',
+  remove: 'removed',
+  restore: 'active',
+};
+
+const SHORTCUTS = [
+  { keys: 'j / k', label: 'Next / previous post' },
+  { keys: 'x', label: 'Select post' },
+  { keys: 'a', label: 'Approve (restore flagged post)' },
+  { keys: 'r', label: 'Remove' },
+  { keys: 'f', label: 'Flag' },
+  { keys: 'u', label: 'Open author' },
+  { keys: 'b', label: 'Ban author' },
+  { keys: 'A / R', label: 'Approve / remove selected' },
+  { keys: 'Esc', label: 'Clear selection' },
+  { keys: '?', label: 'Show shortcuts' },
+];
+
+export const PostQueue: React.FC<PostQueueProps> = ({ load, status = 'all', emptyMessage = 'Nothing here.' }) => {
+  const router = useRouter();
+  const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const [posts, setPosts] = useState<AdminPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState(DEFAULT_REASON);
+  const [drawerUserId, setDrawerUserId] = useState<string | null>(null);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchPage = async (cursor?: string) => {
+    setLoading(true);
+    try {
+      const page = await load(cursor);
+      setPosts((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load posts:', err);
+      setMessage('Could not load posts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSelected(new Set());
+    setFocusIndex(0);
+    fetchPage();
+  }, [load]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const focused = posts[focusIndex];
+
+  useEffect(() => {
+    if (focused) {
+      rowRefs.current[focused.postId]?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focused]);
+
+  const applyAction = async (action: AdminPostAction, postIds: string[]) => {
+    if (!postIds.length) return;
+
+    try {
+      const results = await bulkPostAction(action, postIds, action === 'restore' ? undefined : reason);
+      const succeeded = new Set(results.filter((result) => result.success).map((result) => result.id));
+      const failed = results.length - succeeded.size;
+
+      setPosts((prev) =>
+        prev
+          .map((post) => (succeeded.has(post.postId) ? { ...post, status: NEXT_STATUS[action] } : post))
+          .filter((post) => status === 'all' || post.status === status)
+      );
+      setSelected((prev) => new Set([...prev].filter((id) => !succeeded.has(id))));
+      setFocusIndex((index) => Math.max(0, Math.min(index, posts.length - succeeded.size - 1)));
+      setMessage(failed ? `${failed} of ${results.length} failed` : null);
+    } catch (err) {
+      console.error('Post action failed:', err);
+      setMessage('Action failed');
+    }
+  };
+
+  const banAuthor = async (post: AdminPost) => {
+    if (!post.author || post.author.banned) return;
+    if (!window.confirm(`Ban @${post.author.username}? Reason: ${reason}`)) return;
+
+    try {
+      const [result] = await bulkUserAction('ban', [post.author.id], { reason });
+      setMessage(result?.success ? `Banned @${post.author.username}` : `Ban failed: ${result?.error}`);
+    } catch (err) {
+      console.error('Ban failed:', err);
+      setMessage('Ban failed');
+    }
+  };
+
+  const toggleSelected = (postId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(postId)) {
+        next.delete(postId);
+      } else {
+        next.add(postId);
+      }
+      return next;
+    });
+  };
+
+  const isOverlayOpen = !!drawerUserId || isHelpOpen;
+
+  useTriageKeys(
+    {
+      j: () => setFocusIndex((index) => Math.min(index + 1, posts.length - 1)),
+      k: () => setFocusIndex((index) => Math.max(index - 1, 0)),
+      x: () => focused && toggleSelected(focused.postId),
+      a: () => focused && applyAction('restore', [focused.postId]),
+      r: () => focused && applyAction('remove', [focused.postId]),
+      f: () => focused && applyAction('flag', [focused.postId]),
+      u: () => focused?.author && setDrawerUserId(focused.author.id),
+      b: () => focused && banAuthor(focused),
+      A: () => applyAction('restore', [...selected]),
+      R: () => applyAction('remove', [...selected]),
+      Escape: () => setSelected(new Set()),
+      '?': () => setIsHelpOpen(true),
+    },
+    !isOverlayOpen
+  );
+
+  return (
+    <div>
+      {/* Reason and bulk bar */}
+      <div
+        style={{
+          position: 'sticky',
+          top: 0,
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: 'var(--space-small)',
+          padding: 'var(--space-small) 0',
+          background: 'var(--color-near-black)',
+          zIndex: 'var(--z-elevated)',
+        }}
+      >
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason"
+          maxLength={200}
+          style={{
+            flex: 1,
+            minWidth: 160,
+            minHeight: 'var(--tap-target-min)',
+            padding: '0 var(--space-default)',
+            borderRadius: 'var(--radius-full)',
+            background: 'var(--color-gray-900)',
+            border: 'none',
+            outline: 'none',
+            color: 'var(--color-text-primary)',
+            fontSize: 'var(--text-body-sm)',
+          }}
+        />
+        {selected.size > 0 && (
+          <>
+            <span style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+              {selected.size} selected
+            </span>
+            <Button size="sm" variant="secondary" onClick={() => applyAction('restore', [...selected])}>
+              Approve
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => applyAction('flag', [...selected])}>
+              Flag
+            </Button>
+            <Button size="sm" onClick={() => applyAction('remove', [...selected])}>
+              Remove
+            </Button>
+          </>
+        )}
+        <Button size="sm" variant="ghost" onClick={() => setIsHelpOpen(true)}>
+          ?
+        </Button>
+      </div>
+
+      {message && (
+        <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>{message}</p>
+      )}
+
+      {!loading && posts.length === 0 && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>{emptyMessage}</p>
+      )}
+
+      {posts.map((post, index) => {
+        const isFocused = index === focusIndex;
+
+        return (
+          <div
+            key={post.postId}
+            ref={(el) => {
+              rowRefs.current[post.postId] = el;
+            }}
+            onClick={() => setFocusIndex(index)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--space-default)',
+              padding: 'var(--space-small)',
+              borderRadius: 'var(--radius-md)',
+              background: isFocused ? 'var(--color-gray-800)' : 'transparent',
+              cursor: 'pointer',
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(post.postId)}
+              onChange={() => toggleSelected(post.postId)}
+              onClick={(e) => e.stopPropagation()}
+              aria-label="Select post"
+            />
+            <img
+              src={post.thumbUrl}
+              alt=""
+              onClick={() => router.push(`/post/${post.postId}`)}
+              style={{ width: 64, height: 64, flexShrink: 0, objectFit: 'cover', borderRadius: 'var(--radius-md)' }}
+            />
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-primary)' }}>
+                {post.author ? (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDrawerUserId(post.author!.id);
+                    }}
+                    style={{
+                      padding: 0,
+                      background: 'none',
+                      border: 'none',
+                      color: 'inherit',
+                      fontSize: 'inherit',
+                      fontWeight: 'var(--weight-semibold)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    @{post.author.username}
+                  </button>
+                ) : (
+                  'Deleted user'
+                )}
+                {post.author?.banned ? ' · banned' : ''}
+                {post.author?.shadowbanned ? ' · shadowbanned' : ''}
+              </p>
+              <p
+                style={{
+                  margin: 0,
+                  fontSize: 'var(--text-body-sm)',
+                  color: 'var(--color-text-secondary)',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {post.caption || 'No caption'}
+              </p>
+              <p style={{ margin: 0, fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+                {post.status}
+                {post.openReports ? ` · ${post.openReports} open reports` : ''}
+                {post.moderation?.reason ? ` · ${post.moderation.reason}` : ''}
+                {` · ${new Date(post.createdAt).toLocaleString()}`}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+
+      {nextCursor && (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: 'var(--space-default) 0' }}>
+          <Button size="sm" variant="secondary" disabled={loading} onClick={() => fetchPage(nextCursor)}>
+            {loading ? 'Loading…' : 'Load more'}
+          </Button>
+        </div>
+      )}
+
+      <UserDrawer userId={drawerUserId} onClose={() => setDrawerUserId(null)} />
+
+      <ShortcutHelp isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} shortcuts={SHORTCUTS} />
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { Sheet } from '../common/Sheet';
+
+interface ShortcutHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shortcuts: Array<{ keys: string; label: string }>;
+}
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ isOpen, onClose, shortcuts }) => {
+  return (
+    <Sheet isOpen={isOpen} onClose={onClose} title="Keyboard shortcuts">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-small)' }}>
+        {shortcuts.map((shortcut) => (
+          <div
+            key={shortcut.keys}
+            style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}
+          >
+            <span style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>
+              {shortcut.label}
+            </span>
+            <kbd
+              style={{
+                padding: '2px var(--space-small)',
+                borderRadius: 'var(--radius-md)',
+                background: 'var(--color-gray-800)',
+                color: 'var(--color-off-white)',
+                fontSize: 'var(--text-meta)',
+                fontFamily: 'inherit',
+              }}
+            >
+              {shortcut.keys}
+            </kbd>
+          </div>
+        ))}
+      </div>
+    </Sheet>
+  );
+};
@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Sheet } from '../common/Sheet';
+import { Avatar } from '../common/Avatar';
+import { Button } from '../common/Button';
+import {
+  getUserDetail,
+  bulkUserAction,
+  type AdminUserAction,
+  type AdminUserDetail,
+  type AdminUserHistoryEvent,
+} from '../../services/adminService';
+
+interface UserDrawerProps {
+  userId: string | null;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+const HISTORY_LABELS: Record<AdminUserHistoryEvent['type'], string> = {
+  joined: 'Joined',
+  post_flagged: 'Post flagged',
+  post_removed: 'Post removed',
+  reported: 'Reported',
+  generation_blocked: 'Generation blocked',
+  shadowbanned: 'Shadowbanned',
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: 'var(--space-default) 0 var(--space-small)',
+  fontSize: 'var(--text-meta)',
+  fontWeight: 'var(--weight-semibold)',
+  color: 'var(--color-text-tertiary)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+};
+
+const Stat: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div style={{ padding: 'var(--space-small)', borderRadius: 'var(--radius-md)', background: 'var(--color-gray-900)' }}>
+    <p style={{ margin: 0, fontSize: 'var(--text-body-md)', fontWeight: 'var(--weight-bold)', color: 'var(--color-text-primary)' }}>
+      {value}
+    </p>
+    <p style={{ margin: 0, fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>{label}</p>
+  </div>
+);
+
+export const UserDrawer: React.FC<UserDrawerProps> = ({ userId, onClose, onChanged }) => {
+  const router = useRouter();
+  const [detail, setDetail] = useState<AdminUserDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [acting, setActing] = useState(false);
+
+  const load = async (id: string) => {
+    try {
+      setDetail(await getUserDetail(id));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load user:', err);
+      setError('Could not load this user');
+    }
+  };
+
+  useEffect(() => {
+    setDetail(null);
+    if (userId) load(userId);
+  }, [userId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const runAction = async (action: AdminUserAction) => {
+    if (!detail) return;
+
+    let reason: string | undefined;
+    let durationHours: number | undefined;
+
+    if (action === 'ban' || action === 'shadowban') {
+      reason = window.prompt(`Reason to ${action} @${detail.user.username}`)?.trim();
+      if (!reason) return;
+    }
+
+    if (action === 'shadowban') {
+      const hours = window.prompt('Duration in hours (leave empty until cleared)')?.trim();
+      if (hours) durationHours = Number(hours);
+    }
+
+    setActing(true);
+    try {
+      const [result] = await bulkUserAction(action, [detail.user.id], { reason, durationHours });
+      if (!result?.success) {
+        setError(`Action failed: ${result?.error || 'unknown error'}`);
+      } else {
+        await load(detail.user.id);
+        onChanged?.();
+      }
+    } catch (err) {
+      console.error('User action failed:', err);
+      setError('Action failed');
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const user = detail?.user;
+
+  return (
+    <Sheet isOpen={!!userId} onClose={onClose} title={user ? `@${user.username}` : 'User'} snapPoint="full">
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-error)' }}>{error}</p>
+      )}
+
+      {!detail && !error && (
+        <div className="skeleton" style={{ height: 240, borderRadius: 'var(--radius-lg)' }} />
+      )}
+
+      {detail && user && (
+        <div style={{ paddingBottom: 'var(--space-lg)' }}>
+          {/* Identity and status */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-default)' }}>
+            <Avatar src={user.avatarThumbUrl || undefined} alt={user.displayName} size="md" />
+            <div style={{ minWidth: 0 }}>
+              <p style={{ margin: 0, fontSize: 'var(--text-body-md)', fontWeight: 'var(--weight-semibold)', color: 'var(--color-text-primary)' }}>
+                {user.displayName}
+              </p>
+              <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-tertiary)' }}>
+                {user.tribe?.name || 'No tribe'} · joined {new Date(user.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+          </div>
+
+          {user.status.banned && (
+            <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-error)' }}>
+              Banned: {user.status.banReason || 'no reason recorded'}
+            </p>
+          )}
+          {user.status.shadowbanned && (
+            <p style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+              Shadowbanned: {user.status.shadowbanReason || 'no reason recorded'}
+              {user.status.shadowbanExpiresAt
+                ? ` (until ${new Date(user.status.shadowbanExpiresAt).toLocaleString()})`
+                : ' (until cleared)'}
+            </p>
+          )}
+
+          {/* Actions */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-small)', marginTop: 'var(--space-default)' }}>
+            <Button size="sm" variant="secondary" disabled={acting} onClick={() => runAction(user.status.banned ? 'unban' : 'ban')}>
+              {user.status.banned ? 'Unban' : 'Ban'}
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={acting}
+              onClick={() => runAction(user.status.shadowbanned ? 'unshadowban' : 'shadowban')}
+            >
+              {user.status.shadowbanned ? 'Clear shadowban' : 'Shadowban'}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => router.push(`/profile/${user.username}`)}>
+              View profile
+            </Button>
+          </div>
+
+          {/* Counts */}
+          <h3 style={sectionTitleStyle}>Activity</h3>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 'var(--space-small)' }}>
+            <Stat label="Posts" value={detail.counts.posts.active} />
+            <Stat label="Flagged" value={detail.counts.posts.flagged} />
+            <Stat label="Removed" value={detail.counts.posts.removed} />
+            <Stat label="Respects received" value={detail.counts.respectsReceived} />
+            <Stat label="Respects given" value={detail.counts.respectsGiven} />
+            <Stat label="Comments" value={detail.counts.comments} />
+            <Stat label="Open reports" value={detail.counts.openReportsAgainst} />
+            <Stat label="Reports against" value={detail.counts.reportsAgainst} />
+            <Stat label="Reports filed" value={detail.counts.reportsFiled} />
+            <Stat label="Generations" value={detail.counts.generations} />
+            <Stat label="Blocked" value={detail.counts.blockedGenerations} />
+          </div>
+
+          {/* Recent posts */}
+          {detail.recentPosts.length > 0 && (
+            <>
+              <h3 style={sectionTitleStyle}>Recent posts</h3>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 'var(--space-tight)' }}>
+                {detail.recentPosts.map((post) => (
+                  <button
+                    key={post.postId}
+                    onClick={() => router.push(`/post/${post.postId}`)}
+                    style={{ position: 'relative', padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+                  >
+                    <img
+                      src={post.thumbUrl}
+                      alt=""
+                      style={{
+                        width: '100%',
+                        aspectRatio: '1',
+                        objectFit: 'cover',
+                        borderRadius: 'var(--radius-md)',
+                        opacity: post.status === 'active' ? 1 : 0.4,
+                      }}
+                    />
+                    {post.status !== 'active' && (
+                      <span
+                        style={{
+                          position: 'absolute',
+                          left: 'var(--space-tight)',
+                          bottom: 'var(--space-tight)',
+                          fontSize: 'var(--text-meta)',
+                          color: 'var(--color-off-white)',
+                        }}
+                      >
+                        {post.status}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {/* History */}
+          <h3 style={sectionTitleStyle}>History</h3>
+          {detail.history.map((event, index) => (
+            <div
+              key={`${event.type}-${event.at}-${index}`}
+              style={{ display: 'flex', gap: 'var(--space-default)', padding: 'var(--space-tight) 0' }}
+            >
+              <span style={{ flexShrink: 0, width: 96, fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+                {new Date(event.at).toLocaleDateString()}
+              </span>
+              <span style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-primary)' }}>
+                {HISTORY_LABELS[event.type]}
+                {event.reason ? ` · ${event.reason}` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Sheet>
+  );
+};
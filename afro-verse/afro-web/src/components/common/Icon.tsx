@@ -9,6 +9,9 @@ export type IconType =
   | 'profile'
   | 'heart'
   | 'share'
+  | 'comment'
+  | 'bell'
+  | 'flag'
   | 'back'
   | 'close'
   | 'more'
@@ -17,7 +20,8 @@ export type IconType =
   | 'chevron-right'
   | 'chevron-down'
   | 'camera'
-  | 'photo';
+  | 'photo'
+  | 'search';
 
 interface IconProps {
   type: IconType;
@@ -57,6 +61,12 @@ export const Icon: React.FC<IconProps> = ({
     
     share: 'M18 16.08c-.76 0-1.44.3-1.96.77L8.91 12.7c.05-.23.09-.46.09-.7s-.04-.47-.09-.7l7.05-4.11c.54.5 1.25.81 2.04.81 1.66 0 3-1.34 3-3s-1.34-3-3-3-3 1.34-3 3c0 .24.04.47.09.7L8.04 9.81C7.5 9.31 6.79 9 6 9c-1.66 0-3 1.34-3 3s1.34 3 3 3c.79 0 1.5-.31 2.04-.81l7.12 4.16c-.05.21-.08.43-.08.65 0 1.61 1.31 2.92 2.92 2.92 1.61 0 2.92-1.31 2.92-2.92s-1.31-2.92-2.92-2.92z',
     
+    comment: 'M21 11.5a8.38 8.38 0 0 1-.9 3.8 8.5 8.5 0 0 1-7.6 4.7 8.38 8.38 0 0 1-3.8-.9L3 21l1.9-5.7a8.38 8.38 0 0 1-.9-3.8 8.5 8.5 0 0 1 4.7-7.6 8.38 8.38 0 0 1 3.8-.9h.5a8.48 8.48 0 0 1 8 8v.5z',
+    
+    bell: 'M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9M13.73 21a2 2 0 0 1-3.46 0',
+    
+    flag: 'M4 22V4M4 4h13l-2.5 4.5L17 13H4',
+    
     sparkle: 'M12 1L15 9L23 12L15 15L12 23L9 15L1 12L9 9L12 1Z',
     
     back: 'M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z',
@@ -74,6 +84,8 @@ export const Icon: React.FC<IconProps> = ({
     camera: 'M12 15.2c-2.21 0-4-1.79-4-4s1.79-4 4-4 4 1.79 4 4-1.79 4-4 4zm0-6c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm-5-2V5H4v2.2C2.84 7.6 2 8.69 2 10v8c0 1.66 1.34 3 3 3h14c1.66 0 3-1.34 3-3v-8c0-1.31-.84-2.4-2-2.8V5h-3v2.2H7zM20 18c0 .55-.45 1-1 1H5c-.55 0-1-.45-1-1v-8c0-.55.45-1 1-1h14c.55 0 1 .45 1 1v8z',
     
     photo: 'M21 19V5c0-1.1-.9-2-2-2H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2zM8.5 13.5l2.5 3.01L14.5 12l4.5 6H5l3.5-4.5z',
+    
+    search: 'M11 19a8 8 0 1 0 0-16 8 8 0 0 0 0 16zM21 21l-4.35-4.35',
   };
 
   // Determine if icon should be filled or stroked
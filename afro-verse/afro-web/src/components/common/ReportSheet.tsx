@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Sheet } from './Sheet';
+import { Icon } from './Icon';
+import {
+  REPORT_REASONS,
+  reportContent,
+  type ReportReason,
+  type ReportTargetType,
+} from '../../services/reportService';
+
+interface ReportSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: {
+    type: 'post' | 'profile';
+    id: string; // Post ID or user ID
+    hasCaption?: boolean; // Posts only: offer reporting just the caption
+  };
+}
+
+const MAX_DETAILS_LENGTH = 500;
+
+export const ReportSheet: React.FC<ReportSheetProps> = ({ isOpen, onClose, target }) => {
+  const [targetType, setTargetType] = useState<ReportTargetType>(target.type);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fresh form each time the sheet opens
+  useEffect(() => {
+    if (isOpen) {
+      setTargetType(target.type);
+      setReason(null);
+      setDetails('');
+      setIsSubmitted(false);
+      setError(null);
+    }
+  }, [isOpen, target.type]);
+
+  const handleSubmit = async () => {
+    if (!reason || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await reportContent({
+        targetType,
+        targetId: target.id,
+        reason,
+        details: details.trim() || undefined,
+      });
+      setIsSubmitted(true);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to submit report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const optionStyle = (selected: boolean): React.CSSProperties => ({
+    width: '100%',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 'var(--space-md) 0',
+    background: 'none',
+    border: 'none',
+    borderBottom: '1px solid var(--color-border)',
+    color: selected ? 'var(--color-off-white)' : 'var(--color-text-secondary)',
+    fontSize: 'var(--text-body-sm)',
+    fontWeight: selected ? 'var(--weight-semibold)' : 'var(--weight-regular)',
+    textAlign: 'left',
+    cursor: 'pointer',
+  });
+
+  return (
+    <Sheet isOpen={isOpen} onClose={onClose} title="Report" snapPoint="full">
+      {isSubmitted ? (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            gap: 'var(--space-md)',
+            textAlign: 'center',
+            padding: 'var(--space-lg) 0',
+          }}
+        >
+          <Icon type="check" size={40} style={{ color: 'var(--color-off-white)' }} />
+          <p style={{ margin: 0, fontSize: 'var(--text-body-md)', color: 'var(--color-off-white)' }}>
+            Thanks for letting us know
+          </p>
+          <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+            Our moderators will review it. Reports are anonymous.
+          </p>
+          <button
+            onClick={onClose}
+            style={{
+              marginTop: 'var(--space-md)',
+              padding: 'var(--space-small) var(--space-lg)',
+              borderRadius: 'var(--radius-full)',
+              border: 'none',
+              background: 'var(--color-off-white)',
+              color: 'var(--color-near-black)',
+              fontSize: 'var(--text-body-sm)',
+              fontWeight: 'var(--weight-semibold)',
+              cursor: 'pointer',
+            }}
+          >
+            Done
+          </button>
+        </div>
+      ) : (
+        <>
+          {target.type === 'post' && target.hasCaption && (
+            <div style={{ display: 'flex', gap: 'var(--space-small)', marginBottom: 'var(--space-md)' }}>
+              {(['post', 'caption'] as ReportTargetType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setTargetType(type)}
+                  style={{
+                    padding: 'var(--space-small) var(--space-md)',
+                    borderRadius: 'var(--radius-full)',
+                    border: '1px solid var(--color-border)',
+                    background: targetType === type ? 'var(--color-off-white)' : 'transparent',
+                    color: targetType === type ? 'var(--color-near-black)' : 'var(--color-text-secondary)',
+                    fontSize: 'var(--text-body-sm)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {type === 'post' ? 'The image' : 'The caption'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <p style={{ margin: '0 0 var(--space-small)', fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+            Why are you reporting this {targetType === 'profile' ? 'account' : targetType}?
+          </p>
+
+          {REPORT_REASONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setReason(option.value)}
+              style={optionStyle(reason === option.value)}
+            >
+              {option.label}
+              {reason === option.value && <Icon type="check" size={18} />}
+            </button>
+          ))}
+
+          {reason && (
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={MAX_DETAILS_LENGTH}
+              placeholder="Anything else we should know? (optional)"
+              rows={3}
+              style={{
+                width: '100%',
+                marginTop: 'var(--space-md)',
+                padding: 'var(--space-small) var(--space-default)',
+                borderRadius: 'var(--radius-md)',
+                border: '1px solid var(--color-border)',
+                background: 'var(--color-surface)',
+                color: 'var(--color-off-white)',
+                fontSize: 'var(--text-body-sm)',
+                resize: 'none',
+              }}
+            />
+          )}
+
+          {error && (
+            <p style={{ fontSize: 'var(--text-body-sm)', color: '#EF4444', margin: 'var(--space-small) 0 0' }}>
+              {error}
+            </p>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={!reason || isSubmitting}
+            style={{
+              width: '100%',
+              marginTop: 'var(--space-lg)',
+              padding: 'var(--space-md)',
+              borderRadius: 'var(--radius-full)',
+              border: 'none',
+              background: reason ? '#EF4444' : 'var(--color-gray-800)',
+              color: 'var(--color-off-white)',
+              fontSize: 'var(--text-body-md)',
+              fontWeight: 'var(--weight-semibold)',
+              cursor: reason && !isSubmitting ? 'pointer' : 'default',
+              opacity: isSubmitting ? 0.6 : 1,
+            }}
+          >
+            {isSubmitting ? 'Submitting...' : 'Submit report'}
+          </button>
+        </>
+      )}
+    </Sheet>
+  );
+};
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { Button } from '../common/Button';
+import type { StylePreset } from '../../services/presetService';
 
 interface ActionTrayProps {
   isOpen: boolean;
@@ -10,6 +11,8 @@ interface ActionTrayProps {
   onRefine: () => void;
   onSaveToGallery: () => void;
   onUseAsBaseStyle: () => void;
+  presets?: StylePreset[]; // "Try another style" row
+  onTryPreset?: (presetId: string) => void;
   imageUrl: string;
 }
 
@@ -20,6 +23,8 @@ export const ActionTray: React.FC<ActionTrayProps> = ({
   onRefine,
   onSaveToGallery,
   onUseAsBaseStyle,
+  presets = [],
+  onTryPreset,
   imageUrl,
 }) => {
   if (!isOpen) return null;
@@ -91,6 +96,80 @@ export const ActionTray: React.FC<ActionTrayProps> = ({
           />
         </div>
 
+        {/* Try another style */}
+        {onTryPreset && presets.length > 0 && (
+          <div style={{ maxWidth: '400px', margin: '0 auto var(--space-large)' }}>
+            <p
+              style={{
+                margin: '0 0 var(--space-small)',
+                fontSize: 'var(--text-meta)',
+                color: 'var(--color-text-tertiary)',
+                textAlign: 'center',
+              }}
+            >
+              Try another style
+            </p>
+            <div
+              style={{
+                display: 'flex',
+                gap: 'var(--space-small)',
+                overflowX: 'auto',
+                scrollbarWidth: 'none',
+              }}
+            >
+              {presets.map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => onTryPreset(preset.id)}
+                  style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    gap: 'var(--space-tight)',
+                    flexShrink: 0,
+                    width: '64px',
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    color: 'var(--color-text-secondary)',
+                    fontSize: 'var(--text-meta)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <div
+                    style={{
+                      width: '56px',
+                      height: '56px',
+                      borderRadius: 'var(--radius-md)',
+                      overflow: 'hidden',
+                      background: 'var(--color-gray-800)',
+                      border: '1px solid rgba(255, 255, 255, 0.1)',
+                    }}
+                  >
+                    {preset.exampleThumbs[0] && (
+                      <img
+                        src={preset.exampleThumbs[0]}
+                        alt=""
+                        style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                      />
+                    )}
+                  </div>
+                  <span
+                    style={{
+                      maxWidth: '100%',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {preset.title}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Actions */}
         <div
           style={{
@@ -2,22 +2,25 @@
 
 import React from 'react';
 
-interface Chip {
+export interface Chip {
   id: string;
   label: string;
-  prompt: string;
+  prompt?: string; // Prompt suggestion; style presets have none
+  thumbUrl?: string;
 }
 
 interface PromptChipsProps {
   chips: Chip[];
-  onSelect: (prompt: string) => void;
+  onSelect: (chip: Chip) => void;
   show: boolean;
+  selectedId?: string | null;
 }
 
 export const PromptChips: React.FC<PromptChipsProps> = ({
   chips,
   onSelect,
   show,
+  selectedId,
 }) => {
   if (!show || chips.length === 0) return null;
 
@@ -44,37 +47,59 @@ export const PromptChips: React.FC<PromptChipsProps> = ({
           WebkitOverflowScrolling: 'touch',
         }}
       >
-        {chips.map((chip) => (
-          <button
-            key={chip.id}
-            onClick={() => onSelect(chip.prompt)}
-            style={{
-              padding: 'var(--space-default) var(--space-section)',
-              borderRadius: 'var(--radius-full)',
-              background: 'var(--color-gray-800)',
-              border: '1px solid var(--color-gray-700)',
-              color: 'var(--color-text-primary)',
-              fontSize: 'var(--text-body-sm)',
-              fontWeight: 'var(--weight-medium)',
-              whiteSpace: 'nowrap',
-              cursor: 'pointer',
-              transition: 'all var(--transition-micro)',
-              backdropFilter: 'blur(10px)',
-              WebkitBackdropFilter: 'blur(10px)',
-            }}
-            onMouseDown={(e) => {
-              e.currentTarget.style.transform = 'scale(0.97)';
-            }}
-            onMouseUp={(e) => {
-              e.currentTarget.style.transform = 'scale(1)';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.transform = 'scale(1)';
-            }}
-          >
-            {chip.label}
-          </button>
-        ))}
+        {chips.map((chip) => {
+          const isSelected = chip.id === selectedId;
+
+          return (
+            <button
+              key={chip.id}
+              onClick={() => onSelect(chip)}
+              aria-pressed={isSelected}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--space-small)',
+                padding: chip.thumbUrl
+                  ? 'var(--space-tight) var(--space-section) var(--space-tight) var(--space-tight)'
+                  : 'var(--space-default) var(--space-section)',
+                borderRadius: 'var(--radius-full)',
+                background: isSelected ? 'var(--color-off-white)' : 'var(--color-gray-800)',
+                border: '1px solid var(--color-gray-700)',
+                color: isSelected ? 'var(--color-near-black)' : 'var(--color-text-primary)',
+                fontSize: 'var(--text-body-sm)',
+                fontWeight: 'var(--weight-medium)',
+                whiteSpace: 'nowrap',
+                cursor: 'pointer',
+                transition: 'all var(--transition-micro)',
+                backdropFilter: 'blur(10px)',
+                WebkitBackdropFilter: 'blur(10px)',
+              }}
+              onMouseDown={(e) => {
+                e.currentTarget.style.transform = 'scale(0.97)';
+              }}
+              onMouseUp={(e) => {
+                e.currentTarget.style.transform = 'scale(1)';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.transform = 'scale(1)';
+              }}
+            >
+              {chip.thumbUrl && (
+                <img
+                  src={chip.thumbUrl}
+                  alt=""
+                  style={{
+                    width: '32px',
+                    height: '32px',
+                    borderRadius: 'var(--radius-full)',
+                    objectFit: 'cover',
+                  }}
+                />
+              )}
+              {chip.label}
+            </button>
+          );
+        })}
       </div>
     </div>
   );
@@ -17,7 +17,9 @@ interface ActionRailProps {
   };
   respectCount: number;
   isRespected: boolean;
+  commentCount: number;
   onRespect: () => void;
+  onComments: () => void;
   onShare: () => void;
   onTryStyle: () => void;
   style: string;
@@ -28,7 +30,9 @@ export const ActionRail: React.FC<ActionRailProps> = ({
   creator,
   respectCount,
   isRespected,
+  commentCount,
   onRespect,
+  onComments,
   onShare,
   onTryStyle,
   style,
@@ -131,6 +135,48 @@ export const ActionRail: React.FC<ActionRailProps> = ({
         </span>
       </button>
 
+      {/* Comments */}
+      <button
+        onClick={onComments}
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: 'var(--space-tight)',
+          cursor: 'pointer',
+        }}
+      >
+        <div
+          style={{
+            width: '48px',
+            height: '48px',
+            borderRadius: 'var(--radius-full)',
+            background: 'rgba(248, 248, 248, 0.15)',
+            backdropFilter: 'blur(10px)',
+            WebkitBackdropFilter: 'blur(10px)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: 'var(--color-off-white)',
+            transition: 'all var(--transition-micro)',
+          }}
+        >
+          <Icon type="comment" size={24} />
+        </div>
+        <span
+          style={{
+            fontSize: 'var(--text-meta)',
+            fontWeight: 'var(--weight-semibold)',
+            color: 'var(--color-off-white)',
+            textShadow: '0 2px 8px rgba(0, 0, 0, 0.8)',
+          }}
+        >
+          {commentCount >= 1000
+            ? `${(commentCount / 1000).toFixed(1)}k`
+            : commentCount}
+        </span>
+      </button>
+
       {/* Share */}
       <button
         onClick={onShare}
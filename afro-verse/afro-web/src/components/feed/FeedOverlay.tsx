@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { CommentsSheet } from '../post/CommentsSheet';
+
+interface FeedOverlayProps {
+  postId: string;
+  tags?: string[]; // Tag slugs, shown as tappable chips
+  onTagTap?: (tag: string) => void;
+  isCommentsOpen: boolean;
+  onCloseComments: () => void;
+  onCommentCountChange: (delta: number) => void;
+}
+
+/**
+ * Feed Overlay
+ *
+ * Sheets opened from the feed's action rail, and tappable tags,
+ * rendered above the canvas. Touches inside are kept from reaching
+ * the swipe handlers, and `.scrollable` opts out of wheel navigation.
+ */
+export const FeedOverlay: React.FC<FeedOverlayProps> = ({
+  postId,
+  tags = [],
+  onTagTap,
+  isCommentsOpen,
+  onCloseComments,
+  onCommentCountChange,
+}) => {
+  return (
+    <div
+      className="scrollable"
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      {/* Tags - below the tribe badge */}
+      {tags.length > 0 && onTagTap && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 'calc(env(safe-area-inset-top, 0px) + 64px)',
+            left: 'var(--space-default)',
+            maxWidth: 'calc(100% - 140px)', // Leave space for action rail
+            display: 'flex',
+            gap: 'var(--space-small)',
+            flexWrap: 'wrap',
+            zIndex: 'var(--z-elevated)',
+          }}
+        >
+          {tags.slice(0, 3).map((tag) => (
+            <button
+              key={tag}
+              onClick={(e) => {
+                e.stopPropagation();
+                onTagTap(tag);
+              }}
+              style={{
+                padding: 'var(--space-tight) var(--space-small)',
+                borderRadius: 'var(--radius-full)',
+                background: 'rgba(248, 248, 248, 0.15)',
+                backdropFilter: 'blur(10px)',
+                WebkitBackdropFilter: 'blur(10px)',
+                border: 'none',
+                fontSize: 'var(--text-meta)',
+                fontWeight: 'var(--weight-medium)',
+                color: 'var(--color-off-white)',
+                textShadow: '0 2px 8px rgba(0, 0, 0, 0.8)',
+                cursor: 'pointer',
+              }}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <CommentsSheet
+        isOpen={isCommentsOpen}
+        postId={postId}
+        onClose={onCloseComments}
+        onCountChange={onCommentCountChange}
+      />
+    </div>
+  );
+};
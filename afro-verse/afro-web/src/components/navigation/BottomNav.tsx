@@ -3,12 +3,18 @@
 import React, { useEffect, useState } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
 import { NavIcon } from './NavIcon';
+import { useNotificationStore } from '../../store/notificationStore';
+import { isAuthenticated } from '../../services/authService';
+
+const UNREAD_POLL_INTERVAL_MS = 60 * 1000;
 
 export const BottomNav: React.FC = () => {
   const pathname = usePathname();
   const router = useRouter();
   const [isVisible, setIsVisible] = useState(true);
   const [lastScrollY, setLastScrollY] = useState(0);
+  const unreadCount = useNotificationStore(state => state.unreadCount);
+  const refreshUnreadCount = useNotificationStore(state => state.refreshUnreadCount);
 
   // Determine active route
   const isActive = (path: string) => pathname?.startsWith(path);
@@ -41,8 +47,17 @@ export const BottomNav: React.FC = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [lastScrollY]);
 
-  // Don't show nav on onboarding or post viewer
-  if (pathname === '/onboarding' || pathname?.includes('/post/')) {
+  // Poll unread notification count for the bell badge
+  useEffect(() => {
+    if (!isAuthenticated()) return;
+
+    refreshUnreadCount();
+    const interval = setInterval(refreshUnreadCount, UNREAD_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pathname, refreshUnreadCount]);
+
+  // Don't show nav on onboarding, post viewer or admin console
+  if (pathname === '/onboarding' || pathname?.includes('/post/') || pathname?.startsWith('/admin')) {
     return null;
   }
 
@@ -81,6 +96,13 @@ export const BottomNav: React.FC = () => {
         elevated={true}
       />
       
+      <NavIcon
+        type="bell"
+        active={isActive('/notifications')}
+        onClick={() => router.push('/notifications')}
+        badgeCount={unreadCount}
+      />
+      
       <NavIcon
         type="profile"
         active={isActive('/profile')}
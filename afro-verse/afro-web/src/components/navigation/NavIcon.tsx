@@ -8,13 +8,15 @@ interface NavIconProps {
   active: boolean;
   onClick: () => void;
   elevated?: boolean;
+  badgeCount?: number;
 }
 
 export const NavIcon: React.FC<NavIconProps> = ({ 
   type, 
   active, 
   onClick,
-  elevated = false 
+  elevated = false,
+  badgeCount = 0,
 }) => {
   return (
     <button
@@ -54,6 +56,29 @@ export const NavIcon: React.FC<NavIconProps> = ({
         active={active}
       />
       
+      {/* Unread badge */}
+      {badgeCount > 0 && (
+        <span
+          style={{
+            position: 'absolute',
+            top: '6px',
+            right: '6px',
+            minWidth: '16px',
+            height: '16px',
+            padding: '0 4px',
+            borderRadius: 'var(--radius-full)',
+            background: '#EF4444',
+            color: 'var(--color-white)',
+            fontSize: '10px',
+            fontWeight: 'var(--weight-bold)',
+            lineHeight: '16px',
+            textAlign: 'center',
+          }}
+        >
+          {badgeCount > 99 ? '99+' : badgeCount}
+        </span>
+      )}
+      
       {/* Subtle active indicator */}
       {active && !elevated && (
         <span
@@ -0,0 +1,425 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Sheet } from '../common/Sheet';
+import { Avatar } from '../common/Avatar';
+import {
+  Comment,
+  getComments,
+  getReplies,
+  addComment,
+  deleteComment,
+} from '../../services/commentService';
+
+interface CommentsSheetProps {
+  isOpen: boolean;
+  postId: string;
+  onClose: () => void;
+  onCountChange?: (delta: number) => void;
+}
+
+interface ReplyThread {
+  items: Comment[];
+  nextCursor: string | null;
+  isExpanded: boolean;
+}
+
+const MAX_COMMENT_LENGTH = 300;
+
+const formatAge = (createdAt: string): string => {
+  const seconds = Math.floor((Date.now() - new Date(createdAt).getTime()) / 1000);
+
+  if (seconds < 60) return 'now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+export const CommentsSheet: React.FC<CommentsSheetProps> = ({
+  isOpen,
+  postId,
+  onClose,
+  onCountChange,
+}) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [threads, setThreads] = useState<Record<string, ReplyThread>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await getComments(postId, cursor);
+      setComments(prev => cursor ? [...prev, ...page.comments] : page.comments);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load comments:', err);
+      setError("Couldn't load comments.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postId]);
+
+  // Reload when opened or the post changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setComments([]);
+    setThreads({});
+    setReplyTo(null);
+    setDraft('');
+    loadComments();
+  }, [isOpen, postId, loadComments]);
+
+  const loadReplies = async (comment: Comment) => {
+    const thread = threads[comment.commentId];
+
+    try {
+      const page = await getReplies(postId, comment.commentId, thread?.nextCursor || undefined);
+      setThreads(prev => ({
+        ...prev,
+        [comment.commentId]: {
+          items: [...(prev[comment.commentId]?.items || []), ...page.comments],
+          nextCursor: page.nextCursor,
+          isExpanded: true,
+        },
+      }));
+    } catch (err) {
+      console.error('Failed to load replies:', err);
+    }
+  };
+
+  const toggleReplies = (comment: Comment) => {
+    const thread = threads[comment.commentId];
+
+    if (!thread) {
+      loadReplies(comment);
+      return;
+    }
+
+    setThreads(prev => ({
+      ...prev,
+      [comment.commentId]: { ...thread, isExpanded: !thread.isExpanded },
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const body = draft.trim();
+    if (!body || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const created = await addComment(postId, body, replyTo?.commentId);
+
+      if (created.parentId) {
+        // Append to the thread and bump the parent's reply count
+        setThreads(prev => {
+          const thread = prev[created.parentId!];
+          return {
+            ...prev,
+            [created.parentId!]: {
+              items: [...(thread?.items || []), created],
+              nextCursor: thread?.nextCursor || null,
+              isExpanded: true,
+            },
+          };
+        });
+        setComments(prev => prev.map(c =>
+          c.commentId === created.parentId
+            ? { ...c, counts: { replies: c.counts.replies + 1 } }
+            : c
+        ));
+      } else {
+        setComments(prev => [created, ...prev]);
+      }
+
+      setDraft('');
+      setReplyTo(null);
+      onCountChange?.(1);
+    } catch (err: any) {
+      const code = err?.response?.data?.error;
+      setError(
+        code === 'rate_limited' ? 'Slow down a little, then try again.' :
+        code === 'unsafe_content' ? "That comment can't be posted." :
+        "Couldn't post your comment."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    try {
+      await deleteComment(postId, comment.commentId);
+
+      const markDeleted = (c: Comment): Comment =>
+        c.commentId === comment.commentId
+          ? { ...c, body: null, user: null, isDeleted: true, viewerState: { canDelete: false } }
+          : c;
+
+      if (comment.parentId) {
+        setThreads(prev => {
+          const thread = prev[comment.parentId!];
+          return {
+            ...prev,
+            [comment.parentId!]: {
+              ...thread,
+              items: thread.items.filter(c => c.commentId !== comment.commentId),
+            },
+          };
+        });
+        setComments(prev => prev.map(c =>
+          c.commentId === comment.parentId
+            ? { ...c, counts: { replies: Math.max(0, c.counts.replies - 1) } }
+            : c
+        ));
+      } else if (comment.counts.replies > 0) {
+        // Keep as placeholder so its replies stay in context
+        setComments(prev => prev.map(markDeleted));
+      } else {
+        setComments(prev => prev.filter(c => c.commentId !== comment.commentId));
+      }
+
+      onCountChange?.(-1);
+    } catch (err) {
+      console.error('Failed to delete comment:', err);
+    }
+  };
+
+  const renderComment = (comment: Comment, isReply: boolean) => (
+    <div
+      key={comment.commentId}
+      style={{
+        display: 'flex',
+        gap: 'var(--space-small)',
+        marginLeft: isReply ? '40px' : 0,
+        marginBottom: 'var(--space-default)',
+      }}
+    >
+      {!isReply && (
+        <Avatar
+          src={comment.user?.avatarThumbUrl || undefined}
+          alt={comment.user?.username || 'deleted'}
+          size="sm"
+        />
+      )}
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div
+          style={{
+            display: 'flex',
+            gap: 'var(--space-small)',
+            fontSize: 'var(--text-meta)',
+            color: 'var(--color-text-secondary)',
+          }}
+        >
+          <span style={{ fontWeight: 'var(--weight-semibold)', color: 'var(--color-off-white)' }}>
+            {comment.user ? `@${comment.user.username}` : 'Deleted'}
+          </span>
+          <span>{formatAge(comment.createdAt)}</span>
+        </div>
+
+        <p
+          style={{
+            margin: 'var(--space-tight) 0',
+            fontSize: 'var(--text-body-sm)',
+            color: comment.isDeleted ? 'var(--color-text-tertiary)' : 'var(--color-off-white)',
+            fontStyle: comment.isDeleted ? 'italic' : 'normal',
+            wordBreak: 'break-word',
+          }}
+        >
+          {comment.isDeleted ? 'This comment was deleted' : comment.body}
+        </p>
+
+        <div
+          style={{
+            display: 'flex',
+            gap: 'var(--space-default)',
+            fontSize: 'var(--text-meta)',
+            color: 'var(--color-text-secondary)',
+          }}
+        >
+          {!comment.isDeleted && (
+            <button
+              onClick={() => setReplyTo(comment)}
+              style={{ background: 'none', border: 'none', color: 'inherit', cursor: 'pointer', padding: 0 }}
+            >
+              Reply
+            </button>
+          )}
+          {comment.viewerState.canDelete && (
+            <button
+              onClick={() => handleDelete(comment)}
+              style={{ background: 'none', border: 'none', color: 'inherit', cursor: 'pointer', padding: 0 }}
+            >
+              Delete
+            </button>
+          )}
+        </div>
+
+        {!isReply && comment.counts.replies > 0 && (
+          <button
+            onClick={() => toggleReplies(comment)}
+            style={{
+              marginTop: 'var(--space-small)',
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              fontSize: 'var(--text-meta)',
+              fontWeight: 'var(--weight-semibold)',
+              color: 'var(--color-text-secondary)',
+              cursor: 'pointer',
+            }}
+          >
+            {threads[comment.commentId]?.isExpanded
+              ? 'Hide replies'
+              : `View ${comment.counts.replies} ${comment.counts.replies === 1 ? 'reply' : 'replies'}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Sheet isOpen={isOpen} onClose={onClose} title="Comments" snapPoint="half">
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-sm)', color: '#EF4444', margin: '0 0 var(--space-default)' }}>
+          {error}
+        </p>
+      )}
+
+      {!isLoading && comments.length === 0 && !error && (
+        <p
+          style={{
+            fontSize: 'var(--text-body-sm)',
+            color: 'var(--color-text-secondary)',
+            textAlign: 'center',
+            margin: 'var(--space-large) 0',
+          }}
+        >
+          No comments yet. Start the conversation.
+        </p>
+      )}
+
+      {comments.map(comment => {
+        const thread = threads[comment.commentId];
+
+        return (
+          <React.Fragment key={comment.commentId}>
+            {renderComment(comment, false)}
+            {thread?.isExpanded && thread.items.map(reply => renderComment(reply, true))}
+            {thread?.isExpanded && thread.nextCursor && (
+              <button
+                onClick={() => loadReplies(comment)}
+                style={{
+                  marginLeft: '40px',
+                  marginBottom: 'var(--space-default)',
+                  background: 'none',
+                  border: 'none',
+                  padding: 0,
+                  fontSize: 'var(--text-meta)',
+                  color: 'var(--color-text-secondary)',
+                  cursor: 'pointer',
+                }}
+              >
+                More replies
+              </button>
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      {nextCursor && (
+        <button
+          onClick={() => loadComments(nextCursor)}
+          disabled={isLoading}
+          style={{
+            width: '100%',
+            padding: 'var(--space-small)',
+            background: 'none',
+            border: 'none',
+            fontSize: 'var(--text-body-sm)',
+            color: 'var(--color-text-secondary)',
+            cursor: 'pointer',
+          }}
+        >
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+
+      {/* Composer */}
+      <div
+        style={{
+          position: 'sticky',
+          bottom: 0,
+          paddingTop: 'var(--space-default)',
+          background: 'var(--color-surface-elevated)',
+        }}
+      >
+        {replyTo && (
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              marginBottom: 'var(--space-small)',
+              fontSize: 'var(--text-meta)',
+              color: 'var(--color-text-secondary)',
+            }}
+          >
+            <span>Replying to @{replyTo.user?.username}</span>
+            <button
+              onClick={() => setReplyTo(null)}
+              style={{ background: 'none', border: 'none', color: 'inherit', cursor: 'pointer', padding: 0 }}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        <div style={{ display: 'flex', gap: 'var(--space-small)' }}>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSubmit();
+            }}
+            maxLength={MAX_COMMENT_LENGTH}
+            placeholder={replyTo ? 'Add a reply...' : 'Add a comment...'}
+            style={{
+              flex: 1,
+              padding: 'var(--space-small) var(--space-default)',
+              borderRadius: 'var(--radius-full)',
+              border: '1px solid var(--color-border)',
+              background: 'var(--color-surface)',
+              color: 'var(--color-off-white)',
+              fontSize: 'var(--text-body-sm)',
+            }}
+          />
+          <button
+            onClick={handleSubmit}
+            disabled={!draft.trim() || isSubmitting}
+            style={{
+              padding: 'var(--space-small) var(--space-default)',
+              borderRadius: 'var(--radius-full)',
+              background: 'var(--color-off-white)',
+              color: 'var(--color-near-black)',
+              fontSize: 'var(--text-body-sm)',
+              fontWeight: 'var(--weight-semibold)',
+              border: 'none',
+              cursor: 'pointer',
+              opacity: !draft.trim() || isSubmitting ? 0.5 : 1,
+            }}
+          >
+            Post
+          </button>
+        </div>
+      </div>
+    </Sheet>
+  );
+};
@@ -5,6 +5,8 @@ import { Icon } from '../common/Icon';
 import { PostViewerIdentity } from './PostViewerIdentity';
 import { PostViewerActionRail } from './PostViewerActionRail';
 import { PostViewerContext } from './PostViewerContext';
+import { CommentsSheet } from './CommentsSheet';
+import { ReportSheet } from '../common/ReportSheet';
 
 interface Post {
   id: string;
@@ -21,8 +23,13 @@ interface Post {
   };
   caption?: string;
   styleTags?: string[];
+  tags?: string[]; // Tag slugs
   respectCount: number;
   isRespected: boolean;
+  commentCount?: number;
+  isOwn?: boolean; // Viewer's own post (no report action)
+  remixedFrom?: string | null; // Username of the remixed creator
+  remixCount?: number;
 }
 
 interface PostViewerProps {
@@ -38,6 +45,8 @@ interface PostViewerProps {
   onTryStyle: (postId: string) => void;
   onTribeTap?: (tribeSlug: string) => void;
   onUserTap?: (username: string) => void;
+  onLineageTap?: (postId: string) => void; // Remix tree
+  onTagTap?: (tag: string) => void; // Tag page
 }
 
 export const PostViewer: React.FC<PostViewerProps> = ({
@@ -53,6 +62,8 @@ export const PostViewer: React.FC<PostViewerProps> = ({
   onTryStyle,
   onTribeTap,
   onUserTap,
+  onLineageTap,
+  onTagTap,
 }) => {
   const [isUIVisible, setIsUIVisible] = useState(true);
   const [showContextHint, setShowContextHint] = useState(true);
@@ -60,6 +71,9 @@ export const PostViewer: React.FC<PostViewerProps> = ({
   const [hasError, setHasError] = useState(false);
   const [touchStart, setTouchStart] = useState({ x: 0, y: 0 });
   const [touchEnd, setTouchEnd] = useState({ x: 0, y: 0 });
+  const [showComments, setShowComments] = useState(false);
+  const [commentCount, setCommentCount] = useState(0);
+  const [showReport, setShowReport] = useState(false);
   const idleTimerRef = useRef<NodeJS.Timeout>();
   const contextTimerRef = useRef<NodeJS.Timeout>();
 
@@ -70,6 +84,9 @@ export const PostViewer: React.FC<PostViewerProps> = ({
       setShowContextHint(true);
       setIsLoading(true);
       setHasError(false);
+      setShowComments(false);
+      setShowReport(false);
+      setCommentCount(post.commentCount || 0);
 
       // Hide context hint after 2 seconds
       contextTimerRef.current = setTimeout(() => {
@@ -322,18 +339,27 @@ export const PostViewer: React.FC<PostViewerProps> = ({
       <PostViewerActionRail
         respectCount={post.respectCount}
         isRespected={post.isRespected}
+        commentCount={commentCount}
         isVisible={isUIVisible}
         tribeColor={post.tribe.color}
         onRespect={() => onRespect(post.id)}
+        onComments={() => setShowComments(true)}
         onShare={() => onShare(post.id)}
         onTryStyle={() => onTryStyle(post.id)}
+        onReport={post.isOwn ? undefined : () => setShowReport(true)}
       />
 
-      {/* Layer 5: Context Hint */}
-      {contextLabel && (
+      {/* Layer 5: Context Hint + Remix Attribution */}
+      {(contextLabel || post.remixedFrom || !!post.remixCount || !!post.tags?.length) && (
         <PostViewerContext
           label={contextLabel}
           isVisible={showContextHint}
+          remixedFrom={post.remixedFrom}
+          remixCount={post.remixCount}
+          isUIVisible={isUIVisible}
+          onLineageTap={onLineageTap ? () => onLineageTap(post.id) : undefined}
+          tags={post.tags}
+          onTagTap={onTagTap}
         />
       )}
 
@@ -365,6 +391,26 @@ export const PostViewer: React.FC<PostViewerProps> = ({
         <Icon type="close" size={20} />
       </button>
 
+      {/* Layer 7: Comments + Report (stop taps/swipes reaching the viewer) */}
+      <div
+        onClick={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        onTouchMove={(e) => e.stopPropagation()}
+        onTouchEnd={(e) => e.stopPropagation()}
+      >
+        <CommentsSheet
+          isOpen={showComments}
+          postId={post.id}
+          onClose={() => setShowComments(false)}
+          onCountChange={(delta) => setCommentCount(prev => Math.max(0, prev + delta))}
+        />
+        <ReportSheet
+          isOpen={showReport}
+          onClose={() => setShowReport(false)}
+          target={{ type: 'post', id: post.id, hasCaption: !!post.caption }}
+        />
+      </div>
+
       {/* Swipe hint (subtle, bottom) */}
       <div
         style={{
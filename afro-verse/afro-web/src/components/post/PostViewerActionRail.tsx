@@ -6,21 +6,27 @@ import { Icon } from '../common/Icon';
 interface PostViewerActionRailProps {
   respectCount: number;
   isRespected: boolean;
+  commentCount: number;
   isVisible: boolean;
   tribeColor: string;
   onRespect: () => void;
+  onComments: () => void;
   onShare: () => void;
   onTryStyle: () => void;
+  onReport?: () => void; // Hidden on your own posts
 }
 
 export const PostViewerActionRail: React.FC<PostViewerActionRailProps> = ({
   respectCount,
   isRespected: initialIsRespected,
+  commentCount,
   isVisible,
   tribeColor,
   onRespect,
+  onComments,
   onShare,
   onTryStyle,
+  onReport,
 }) => {
   const [isRespected, setIsRespected] = useState(initialIsRespected);
   const [localRespectCount, setLocalRespectCount] = useState(respectCount);
@@ -40,11 +46,21 @@ export const PostViewerActionRail: React.FC<PostViewerActionRailProps> = ({
     onRespect();
   };
 
+  const handleComments = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onComments();
+  };
+
   const handleShare = (e: React.MouseEvent) => {
     e.stopPropagation();
     onShare();
   };
 
+  const handleReport = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onReport?.();
+  };
+
   const handleTryStyle = (e: React.MouseEvent) => {
     e.stopPropagation();
     onTryStyle();
@@ -135,6 +151,46 @@ export const PostViewerActionRail: React.FC<PostViewerActionRailProps> = ({
         )}
       </button>
 
+      {/* Comments */}
+      <button
+        onClick={handleComments}
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: 'var(--space-tight)',
+          background: 'transparent',
+          border: 'none',
+          cursor: 'pointer',
+        }}
+      >
+        <div
+          style={{
+            width: 'var(--tap-target-min)',
+            height: 'var(--tap-target-min)',
+            borderRadius: 'var(--radius-full)',
+            background: 'rgba(10, 10, 10, 0.6)',
+            backdropFilter: 'blur(10px)',
+            WebkitBackdropFilter: 'blur(10px)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            transition: 'all var(--transition-micro)',
+          }}
+        >
+          <Icon type="comment" size={24} style={{ color: 'var(--color-off-white)' }} />
+        </div>
+        <span
+          style={{
+            fontSize: 'var(--text-meta)',
+            fontWeight: 'var(--weight-semibold)',
+            color: 'var(--color-off-white)',
+          }}
+        >
+          {formatCount(commentCount)}
+        </span>
+      </button>
+
       {/* Share */}
       <button
         onClick={handleShare}
@@ -166,6 +222,39 @@ export const PostViewerActionRail: React.FC<PostViewerActionRailProps> = ({
         </div>
       </button>
 
+      {/* Report */}
+      {onReport && (
+        <button
+          onClick={handleReport}
+          aria-label="Report"
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            background: 'transparent',
+            border: 'none',
+            cursor: 'pointer',
+          }}
+        >
+          <div
+            style={{
+              width: 'var(--tap-target-min)',
+              height: 'var(--tap-target-min)',
+              borderRadius: 'var(--radius-full)',
+              background: 'rgba(10, 10, 10, 0.6)',
+              backdropFilter: 'blur(10px)',
+              WebkitBackdropFilter: 'blur(10px)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              transition: 'all var(--transition-micro)',
+            }}
+          >
+            <Icon type="flag" size={20} style={{ color: 'var(--color-off-white)' }} />
+          </div>
+        </button>
+      )}
+
       {/* Try This Style (Primary) */}
       <button
         onClick={handleTryStyle}
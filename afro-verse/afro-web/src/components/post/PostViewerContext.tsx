@@ -3,13 +3,25 @@
 import React, { useEffect, useState } from 'react';
 
 interface PostViewerContextProps {
-  label: string;
+  label?: string;
   isVisible: boolean;
+  remixedFrom?: string | null; // Username of the creator this post remixed
+  remixCount?: number;
+  isUIVisible?: boolean; // Attribution follows the viewer UI, not the hint
+  onLineageTap?: () => void;
+  tags?: string[]; // Tag slugs, shown as tappable chips
+  onTagTap?: (tag: string) => void;
 }
 
 export const PostViewerContext: React.FC<PostViewerContextProps> = ({
   label,
   isVisible,
+  remixedFrom,
+  remixCount = 0,
+  isUIVisible = true,
+  onLineageTap,
+  tags = [],
+  onTagTap,
 }) => {
   const [shouldRender, setShouldRender] = useState(isVisible);
 
@@ -25,7 +37,22 @@ export const PostViewerContext: React.FC<PostViewerContextProps> = ({
     }
   }, [isVisible]);
 
-  if (!shouldRender) return null;
+  const hasAttribution = !!remixedFrom || remixCount > 0;
+  const hasTags = tags.length > 0 && !!onTagTap;
+
+  if (!hasAttribution && !hasTags && (!label || !shouldRender)) return null;
+
+  const chipStyle: React.CSSProperties = {
+    padding: 'var(--space-small) var(--space-default)',
+    borderRadius: 'var(--radius-full)',
+    background: 'rgba(10, 10, 10, 0.8)',
+    backdropFilter: 'blur(10px)',
+    WebkitBackdropFilter: 'blur(10px)',
+    fontSize: 'var(--text-meta)',
+    color: 'var(--color-text-secondary)',
+    fontWeight: 'var(--weight-medium)',
+    whiteSpace: 'nowrap',
+  };
 
   return (
     <div
@@ -34,27 +61,78 @@ export const PostViewerContext: React.FC<PostViewerContextProps> = ({
         top: 'calc(env(safe-area-inset-top) + 60px)',
         left: '50%',
         transform: 'translateX(-50%)',
-        padding: 'var(--space-small) var(--space-default)',
-        borderRadius: 'var(--radius-full)',
-        background: 'rgba(10, 10, 10, 0.8)',
-        backdropFilter: 'blur(10px)',
-        WebkitBackdropFilter: 'blur(10px)',
-        fontSize: 'var(--text-meta)',
-        color: 'var(--color-text-secondary)',
-        fontWeight: 'var(--weight-medium)',
-        opacity: isVisible ? 1 : 0,
-        transition: 'opacity var(--transition-screen)',
-        pointerEvents: 'none',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: 'var(--space-small)',
       }}
     >
-      {label}
+      {label && shouldRender && (
+        <div
+          style={{
+            ...chipStyle,
+            opacity: isVisible ? 1 : 0,
+            transition: 'opacity var(--transition-screen)',
+            pointerEvents: 'none',
+          }}
+        >
+          {label}
+        </div>
+      )}
+
+      {/* Remix attribution: credit the creator whose look this builds on */}
+      {hasAttribution && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onLineageTap?.();
+          }}
+          style={{
+            ...chipStyle,
+            border: '1px solid rgba(255, 255, 255, 0.15)',
+            color: 'var(--color-off-white)',
+            cursor: onLineageTap ? 'pointer' : 'default',
+            opacity: isUIVisible ? 1 : 0.6,
+            transition: 'opacity var(--transition-micro)',
+          }}
+        >
+          {remixedFrom ? `Remixed from @${remixedFrom}` : null}
+          {remixedFrom && remixCount > 0 ? ' · ' : null}
+          {remixCount > 0 ? `${remixCount} ${remixCount === 1 ? 'remix' : 'remixes'}` : null}
+        </button>
+      )}
+
+      {/* Tags: open the tag page */}
+      {hasTags && (
+        <div
+          style={{
+            display: 'flex',
+            gap: 'var(--space-small)',
+            justifyContent: 'center',
+            flexWrap: 'wrap',
+            opacity: isUIVisible ? 1 : 0.6,
+            transition: 'opacity var(--transition-micro)',
+          }}
+        >
+          {tags.slice(0, 3).map((tag) => (
+            <button
+              key={tag}
+              onClick={(e) => {
+                e.stopPropagation();
+                onTagTap?.(tag);
+              }}
+              style={{
+                ...chipStyle,
+                border: 'none',
+                color: 'var(--color-off-white)',
+                cursor: 'pointer',
+              }}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
-
-
-
-
-
-
-
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Icon } from '../common/Icon';
+import { getRemixes, type LineagePost } from '../../services/postService';
+
+interface RemixTreeProps {
+  postId: string;
+  onOpenPost: (postId: string) => void;
+}
+
+interface RemixBranchProps extends RemixTreeProps {
+  level: number;
+}
+
+const PAGE_SIZE = 10;
+
+// One node's direct remixes; each child expands lazily into its own branch
+const RemixBranch: React.FC<RemixBranchProps> = ({ postId, level, onOpenPost }) => {
+  const [remixes, setRemixes] = useState<LineagePost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const load = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const page = await getRemixes(postId, { direct: true, cursor, limit: PAGE_SIZE });
+      setRemixes((prev) => (cursor ? [...prev, ...page.remixes] : page.remixes));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load remixes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [postId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!isLoading && remixes.length === 0 && level === 0) {
+    return (
+      <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+        No remixes yet. Be the first to try this style.
+      </p>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 'var(--space-small)',
+        marginLeft: level > 0 ? 'var(--space-lg)' : 0,
+        paddingLeft: level > 0 ? 'var(--space-default)' : 0,
+        borderLeft: level > 0 ? '1px solid var(--color-border)' : 'none',
+      }}
+    >
+      {remixes.map((remix) => (
+        <div key={remix.postId}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-default)' }}>
+            <button
+              onClick={() => onOpenPost(remix.postId)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--space-default)',
+                flex: 1,
+                minWidth: 0,
+                padding: 0,
+                background: 'none',
+                border: 'none',
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+            >
+              <img
+                src={remix.thumbUrl}
+                alt=""
+                style={{
+                  width: '48px',
+                  height: '48px',
+                  borderRadius: 'var(--radius-md)',
+                  objectFit: 'cover',
+                  flexShrink: 0,
+                }}
+              />
+              <div style={{ minWidth: 0 }}>
+                <p
+                  style={{
+                    margin: 0,
+                    fontSize: 'var(--text-body-sm)',
+                    fontWeight: 'var(--weight-semibold)',
+                    color: 'var(--color-off-white)',
+                  }}
+                >
+                  @{remix.user?.username || 'unknown'}
+                </p>
+                {remix.styleTag && (
+                  <p
+                    style={{
+                      margin: 0,
+                      fontSize: 'var(--text-meta)',
+                      color: 'var(--color-text-secondary)',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {remix.styleTag}
+                  </p>
+                )}
+              </div>
+            </button>
+
+            {remix.counts.remixes > 0 && (
+              <button
+                onClick={() =>
+                  setExpanded((prev) => ({ ...prev, [remix.postId]: !prev[remix.postId] }))
+                }
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 'var(--space-tight)',
+                  padding: 'var(--space-tight) var(--space-small)',
+                  borderRadius: 'var(--radius-full)',
+                  border: '1px solid var(--color-border)',
+                  background: 'transparent',
+                  color: 'var(--color-text-secondary)',
+                  fontSize: 'var(--text-meta)',
+                  cursor: 'pointer',
+                  flexShrink: 0,
+                }}
+              >
+                {remix.counts.remixes}
+                <Icon type={expanded[remix.postId] ? 'chevron-down' : 'chevron-right'} size={14} />
+              </button>
+            )}
+          </div>
+
+          {expanded[remix.postId] && (
+            <div style={{ marginTop: 'var(--space-small)' }}>
+              <RemixBranch postId={remix.postId} level={level + 1} onOpenPost={onOpenPost} />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {nextCursor && (
+        <button
+          onClick={() => load(nextCursor)}
+          disabled={isLoading}
+          style={{
+            alignSelf: 'flex-start',
+            padding: 'var(--space-tight) 0',
+            background: 'none',
+            border: 'none',
+            color: 'var(--color-text-secondary)',
+            fontSize: 'var(--text-body-sm)',
+            cursor: 'pointer',
+          }}
+        >
+          {isLoading ? 'Loading...' : 'Show more remixes'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Remix tree of a post: direct remixes, expandable level by level
+export const RemixTree: React.FC<RemixTreeProps> = ({ postId, onOpenPost }) => (
+  <RemixBranch postId={postId} level={0} onOpenPost={onOpenPost} />
+);
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Avatar } from '../common/Avatar';
+import {
+  getBlockedUsers,
+  getMutedUsers,
+  unblockUser,
+  unmuteUser,
+  type BlockedUser,
+} from '../../services/blockService';
+
+/**
+ * Blocked and muted accounts (self profile only)
+ *
+ * Hidden when the user hasn't blocked or muted anyone.
+ */
+export const BlockedAccounts: React.FC = () => {
+  const [blocked, setBlocked] = useState<BlockedUser[]>([]);
+  const [muted, setMuted] = useState<BlockedUser[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getBlockedUsers(), getMutedUsers()])
+      .then(([blockedUsers, mutedUsers]) => {
+        setBlocked(blockedUsers);
+        setMuted(mutedUsers);
+      })
+      .catch(err => console.error('Failed to load blocked accounts:', err));
+  }, []);
+
+  if (blocked.length === 0 && muted.length === 0) return null;
+
+  const handleUnblock = async (user: BlockedUser) => {
+    setBusyId(user.id);
+    try {
+      await unblockUser(user.id);
+      setBlocked(prev => prev.filter(item => item.id !== user.id));
+    } catch (err) {
+      console.error('Failed to unblock:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUnmute = async (user: BlockedUser) => {
+    setBusyId(user.id);
+    try {
+      await unmuteUser(user.id);
+      setMuted(prev => prev.filter(item => item.id !== user.id));
+    } catch (err) {
+      console.error('Failed to unmute:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderList = (
+    title: string,
+    users: BlockedUser[],
+    actionLabel: string,
+    onAction: (user: BlockedUser) => void
+  ) =>
+    users.length > 0 && (
+      <div style={{ marginTop: 'var(--space-md)' }}>
+        <div
+          style={{
+            fontSize: 'var(--text-meta)',
+            fontWeight: 'var(--weight-semibold)',
+            color: 'var(--color-text-tertiary)',
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+          }}
+        >
+          {title}
+        </div>
+        {users.map(user => (
+          <div
+            key={user.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--space-md)',
+              marginTop: 'var(--space-small)',
+            }}
+          >
+            <Avatar src={user.avatarThumbUrl || undefined} alt={user.displayName} size="sm" />
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-primary)' }}>
+                {user.displayName}
+              </div>
+              <div style={{ fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+                @{user.username}
+              </div>
+            </div>
+            <button
+              onClick={() => onAction(user)}
+              disabled={busyId === user.id}
+              style={{
+                padding: 'var(--space-small) var(--space-md)',
+                borderRadius: 'var(--radius-full)',
+                border: '1px solid var(--color-gray-700)',
+                background: 'transparent',
+                color: 'var(--color-text-secondary)',
+                fontSize: 'var(--text-body-sm)',
+                fontWeight: 'var(--weight-semibold)',
+                cursor: busyId === user.id ? 'default' : 'pointer',
+                opacity: busyId === user.id ? 0.6 : 1,
+              }}
+            >
+              {actionLabel}
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+
+  return (
+    <section
+      style={{
+        margin: 'var(--space-section) var(--space-default)',
+        padding: 'var(--space-default)',
+        borderRadius: 'var(--radius-lg)',
+        border: '1px solid var(--color-gray-800)',
+        background: 'var(--color-surface-elevated)',
+      }}
+    >
+      <h3
+        style={{
+          margin: 0,
+          fontSize: 'var(--text-body-md)',
+          fontWeight: 'var(--weight-semibold)',
+          color: 'var(--color-text-primary)',
+        }}
+      >
+        Blocked and muted
+      </h3>
+
+      {renderList('Blocked', blocked, 'Unblock', handleUnblock)}
+      {renderList('Muted', muted, 'Unmute', handleUnmute)}
+    </section>
+  );
+};
@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Icon } from '../common/Icon';
+import { Sheet } from '../common/Sheet';
 
 interface ProfileHeaderProps {
   avatar: string;
@@ -17,15 +18,44 @@ interface ProfileHeaderProps {
   };
   isSelf: boolean;
   isFollowing?: boolean;
+  isBlocked?: boolean; // Other users only
+  isMuted?: boolean; // Other users only
   onEdit?: () => void;
   onShare?: () => void;
   onCreate?: () => void;
   onFollow?: () => void;
+  onReport?: () => void; // Other users only
+  onBlock?: () => void; // Toggles block (other users only)
+  onMute?: () => void; // Toggles mute (other users only)
   onLogout?: () => void;
   onAvatarTap?: () => void;
   onAvatarLongPress?: () => void;
 }
 
+const menuItemStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'flex-start',
+  gap: 'var(--space-tight)',
+  width: '100%',
+  minHeight: 'var(--tap-target-min)',
+  padding: 'var(--space-default) 0',
+  background: 'none',
+  border: 'none',
+  borderBottom: '1px solid var(--color-gray-800)',
+  color: 'var(--color-text-primary)',
+  fontSize: 'var(--text-body-md)',
+  fontWeight: 'var(--weight-semibold)',
+  textAlign: 'left',
+  cursor: 'pointer',
+};
+
+const menuHintStyle: React.CSSProperties = {
+  fontSize: 'var(--text-body-sm)',
+  fontWeight: 'var(--weight-regular)',
+  color: 'var(--color-text-tertiary)',
+};
+
 export const ProfileHeader: React.FC<ProfileHeaderProps> = ({
   avatar,
   displayName,
@@ -34,10 +64,15 @@ export const ProfileHeader: React.FC<ProfileHeaderProps> = ({
   tribe,
   isSelf,
   isFollowing = false,
+  isBlocked = false,
+  isMuted = false,
   onEdit,
   onShare,
   onCreate,
   onFollow,
+  onReport,
+  onBlock,
+  onMute,
   onLogout,
   onAvatarTap,
   onAvatarLongPress,
@@ -45,6 +80,7 @@ export const ProfileHeader: React.FC<ProfileHeaderProps> = ({
   const router = useRouter();
   const longPressTimer = React.useRef<NodeJS.Timeout>();
   const [imageError, setImageError] = React.useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
 
   const handleAvatarTouchStart = () => {
     if (!isSelf) return;
@@ -322,7 +358,7 @@ export const ProfileHeader: React.FC<ProfileHeaderProps> = ({
             /* Other User Actions */
             <>
               <button
-                onClick={onFollow}
+                onClick={isBlocked ? onBlock : onFollow}
                 style={{
                   flex: 1,
                   padding: 'var(--space-default)',
@@ -340,7 +376,7 @@ export const ProfileHeader: React.FC<ProfileHeaderProps> = ({
                   border: isFollowing ? '1px solid var(--color-gray-700)' : 'none',
                 }}
               >
-                {isFollowing ? 'Following' : 'Follow'}
+                {isBlocked ? 'Unblock' : isFollowing ? 'Following' : 'Follow'}
               </button>
 
               <button
@@ -360,10 +396,88 @@ export const ProfileHeader: React.FC<ProfileHeaderProps> = ({
               >
                 <Icon type="share" size={18} />
               </button>
+
+              {onReport && (
+                <button
+                  onClick={onReport}
+                  aria-label="Report account"
+                  style={{
+                    width: 'var(--tap-target-min)',
+                    height: 'var(--tap-target-min)',
+                    borderRadius: 'var(--radius-full)',
+                    background: 'var(--color-gray-800)',
+                    color: 'var(--color-text-primary)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    cursor: 'pointer',
+                    transition: 'all var(--transition-micro)',
+                  }}
+                >
+                  <Icon type="flag" size={18} />
+                </button>
+              )}
+
+              {(onBlock || onMute) && (
+                <button
+                  onClick={() => setIsMenuOpen(true)}
+                  aria-label="More actions"
+                  style={{
+                    width: 'var(--tap-target-min)',
+                    height: 'var(--tap-target-min)',
+                    borderRadius: 'var(--radius-full)',
+                    background: 'var(--color-gray-800)',
+                    color: 'var(--color-text-primary)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    cursor: 'pointer',
+                    transition: 'all var(--transition-micro)',
+                  }}
+                >
+                  <Icon type="more" size={18} />
+                </button>
+              )}
             </>
           )}
         </div>
       </div>
+
+      {/* Block / mute menu */}
+      <Sheet isOpen={isMenuOpen} onClose={() => setIsMenuOpen(false)} title={`@${username}`}>
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          {onMute && !isBlocked && (
+            <button
+              onClick={() => {
+                setIsMenuOpen(false);
+                onMute();
+              }}
+              style={menuItemStyle}
+            >
+              {isMuted ? 'Unmute' : 'Mute'}
+              <span style={menuHintStyle}>
+                {isMuted ? 'See their posts and comments again' : "Stop seeing their posts and comments. They won't know."}
+              </span>
+            </button>
+          )}
+          {onBlock && (
+            <button
+              onClick={() => {
+                setIsMenuOpen(false);
+                onBlock();
+              }}
+              style={{ ...menuItemStyle, color: isBlocked ? 'var(--color-text-primary)' : 'var(--color-error)' }}
+            >
+              {isBlocked ? 'Unblock' : 'Block'}
+              <span style={menuHintStyle}>
+                {isBlocked
+                  ? 'You will be able to see and follow each other again'
+                  : "Neither of you will see the other, and you'll unfollow each other"}
+              </span>
+            </button>
+          )}
+        </div>
+      </Sheet>
     </header>
   );
 };
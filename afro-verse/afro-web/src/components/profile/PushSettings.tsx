@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Icon } from '../common/Icon';
+import {
+  isPushSupported,
+  getPushSettings,
+  getDeviceSubscription,
+  enablePush,
+  disablePush,
+  updatePushPreferences,
+  type PushCategory,
+  type PushSettings as PushSettingsData,
+} from '../../services/pushService';
+
+const CATEGORIES: { key: PushCategory; label: string; description: string }[] = [
+  { key: 'generation', label: 'Transformations', description: 'When your look is ready or fails' },
+  { key: 'follow', label: 'New followers', description: 'When someone follows you' },
+  { key: 'respect', label: 'Respects', description: 'When people respect your posts' },
+];
+
+/**
+ * Push notification settings (self profile only)
+ *
+ * Hidden when the browser can't do push or the server has no VAPID keys.
+ */
+export const PushSettings: React.FC = () => {
+  const [settings, setSettings] = useState<PushSettingsData | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+
+    Promise.all([getPushSettings(), getDeviceSubscription()])
+      .then(([data, subscription]) => {
+        setSettings(data);
+        setIsSubscribed(!!subscription);
+      })
+      .catch(err => console.error('Failed to load push settings:', err));
+  }, []);
+
+  if (!settings?.enabled || !settings.publicKey) return null;
+
+  const handleToggleDevice = async () => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      if (isSubscribed) {
+        await disablePush();
+        setIsSubscribed(false);
+      } else {
+        await enablePush(settings.publicKey!);
+        setIsSubscribed(true);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleCategory = async (category: PushCategory) => {
+    const next = !settings.preferences[category];
+
+    // Optimistic
+    setSettings({ ...settings, preferences: { ...settings.preferences, [category]: next } });
+
+    try {
+      const preferences = await updatePushPreferences({ [category]: next });
+      setSettings(prev => (prev ? { ...prev, preferences } : prev));
+    } catch (err) {
+      console.error('Failed to update push preferences:', err);
+      setSettings(prev =>
+        prev ? { ...prev, preferences: { ...prev.preferences, [category]: !next } } : prev
+      );
+    }
+  };
+
+  return (
+    <section
+      style={{
+        margin: 'var(--space-section) var(--space-default)',
+        padding: 'var(--space-default)',
+        borderRadius: 'var(--radius-lg)',
+        border: '1px solid var(--color-gray-800)',
+        background: 'var(--color-surface-elevated)',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 'var(--space-md)',
+          color: 'var(--color-text-primary)',
+        }}
+      >
+        <Icon type="bell" size={20} />
+        <h3
+          style={{
+            flex: 1,
+            margin: 0,
+            fontSize: 'var(--text-body-md)',
+            fontWeight: 'var(--weight-semibold)',
+          }}
+        >
+          Notifications
+        </h3>
+        <button
+          onClick={handleToggleDevice}
+          disabled={isBusy}
+          style={{
+            padding: 'var(--space-small) var(--space-md)',
+            borderRadius: 'var(--radius-full)',
+            border: isSubscribed ? '1px solid var(--color-gray-700)' : 'none',
+            background: isSubscribed ? 'transparent' : 'var(--color-off-white)',
+            color: isSubscribed ? 'var(--color-text-secondary)' : 'var(--color-near-black)',
+            fontSize: 'var(--text-body-sm)',
+            fontWeight: 'var(--weight-semibold)',
+            cursor: isBusy ? 'default' : 'pointer',
+            opacity: isBusy ? 0.6 : 1,
+          }}
+        >
+          {isSubscribed ? 'Turn off' : 'Turn on'}
+        </button>
+      </div>
+
+      {!isSubscribed && (
+        <p
+          style={{
+            margin: 'var(--space-small) 0 0',
+            fontSize: 'var(--text-body-sm)',
+            color: 'var(--color-text-secondary)',
+          }}
+        >
+          Get told when your transformation is ready, even if you leave the app.
+        </p>
+      )}
+
+      {error && (
+        <p style={{ margin: 'var(--space-small) 0 0', fontSize: 'var(--text-body-sm)', color: 'var(--color-error)' }}>
+          {error}
+        </p>
+      )}
+
+      {isSubscribed &&
+        CATEGORIES.map(category => (
+          <label
+            key={category.key}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--space-md)',
+              marginTop: 'var(--space-md)',
+              cursor: 'pointer',
+            }}
+          >
+            <div style={{ flex: 1 }}>
+              <div style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-primary)' }}>
+                {category.label}
+              </div>
+              <div style={{ fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+                {category.description}
+              </div>
+            </div>
+            <input
+              type="checkbox"
+              checked={settings.preferences[category.key]}
+              onChange={() => handleToggleCategory(category.key)}
+              style={{ width: '20px', height: '20px', accentColor: 'var(--color-off-white)' }}
+            />
+          </label>
+        ))}
+    </section>
+  );
+};
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import type { Challenge } from '../../services/challengeService';
 
 interface TribeHeaderProps {
   bannerGradient: string;
@@ -13,6 +14,9 @@ interface TribeHeaderProps {
   isMember: boolean;
   isActiveNow?: boolean;
   onJoinClick?: () => void;
+  joinLabel?: string;
+  challenge?: Challenge | null; // Active challenge or recent results
+  onChallengeClick?: (challengeId: string) => void;
   isScrolled?: boolean;
 }
 
@@ -27,6 +31,9 @@ export const TribeHeader: React.FC<TribeHeaderProps> = ({
   isMember,
   isActiveNow = false,
   onJoinClick,
+  joinLabel = 'Join Tribe',
+  challenge = null,
+  onChallengeClick,
   isScrolled = false,
 }) => {
   const formatMemberCount = (count: number): string => {
@@ -209,6 +216,68 @@ export const TribeHeader: React.FC<TribeHeaderProps> = ({
           </div>
         )}
 
+        {/* Challenge: live theme, or the crowned winners */}
+        {!isScrolled && challenge && (challenge.phase === 'active' || challenge.phase === 'results') && (
+          <button
+            onClick={() => onChallengeClick?.(challenge.id)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 'var(--space-small)',
+              marginBottom: 'var(--space-default)',
+              padding: 'var(--space-tight) var(--space-default) var(--space-tight) var(--space-tight)',
+              borderRadius: 'var(--radius-full)',
+              background: 'var(--color-gray-900)',
+              border: `1px solid ${accentColor}40`,
+              color: 'var(--color-text-primary)',
+              fontSize: 'var(--text-body-sm)',
+              cursor: 'pointer',
+              maxWidth: '320px',
+            }}
+          >
+            {challenge.phase === 'results' && challenge.winners.length > 0 ? (
+              <span style={{ display: 'flex' }}>
+                {challenge.winners.map((winner, index) => (
+                  <img
+                    key={winner.postId}
+                    src={winner.thumbUrl}
+                    alt={`#${winner.rank} @${winner.user.username}`}
+                    style={{
+                      width: '28px',
+                      height: '28px',
+                      borderRadius: 'var(--radius-full)',
+                      objectFit: 'cover',
+                      border: `2px solid ${index === 0 ? accentColor : 'var(--color-gray-900)'}`,
+                      marginLeft: index === 0 ? 0 : '-8px',
+                    }}
+                  />
+                ))}
+              </span>
+            ) : (
+              <span
+                style={{
+                  width: '28px',
+                  height: '28px',
+                  borderRadius: 'var(--radius-full)',
+                  background: accentColor,
+                  color: 'var(--color-near-black)',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontWeight: 'var(--weight-bold)',
+                }}
+              >
+                #
+              </span>
+            )}
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {challenge.phase === 'results'
+                ? `${challenge.title} winners`
+                : `#${challenge.hashtag} · ${challenge.title}`}
+            </span>
+          </button>
+        )}
+
         {/* Membership State Button */}
         {!isScrolled && (
           <div>
@@ -253,7 +322,7 @@ export const TribeHeader: React.FC<TribeHeaderProps> = ({
                   e.currentTarget.style.boxShadow = `0 4px 16px ${accentColor}40`;
                 }}
               >
-                Join Tribe
+                {joinLabel}
               </button>
             )}
           </div>
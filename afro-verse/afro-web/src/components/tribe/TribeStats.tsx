@@ -0,0 +1,313 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  getTribeStats,
+  getTribeLeaderboard,
+  type TribeStats as TribeStatsData,
+  type TribeStatsPoint,
+  type TribeLeaderboardItem,
+  type LeaderboardWindow,
+} from '../../services/tribeService';
+
+interface TribeStatsProps {
+  slug: string;
+  accentColor: string;
+}
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 96;
+
+const formatCount = (value: number): string => {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toString();
+};
+
+const formatDay = (day: string): string =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+interface ChartProps {
+  series: TribeStatsPoint[];
+  field: 'members' | 'newPosts' | 'respects' | 'activeCreators';
+  kind: 'line' | 'bars';
+  color: string;
+}
+
+/**
+ * Minimal SVG chart (no axis labels; first/last day shown underneath)
+ */
+const Chart: React.FC<ChartProps> = ({ series, field, kind, color }) => {
+  const values = series.map((point) => point[field]);
+  const max = Math.max(...values, 1);
+  const min = kind === 'line' ? Math.min(...values) : 0;
+  const range = Math.max(max - min, 1);
+  const step = CHART_WIDTH / Math.max(values.length, 1);
+  const y = (value: number) => CHART_HEIGHT - ((value - min) / range) * (CHART_HEIGHT - 4) - 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      style={{ width: '100%', height: `${CHART_HEIGHT}px`, display: 'block' }}
+    >
+      {kind === 'bars' ? (
+        values.map((value, index) => (
+          <rect
+            key={series[index].day}
+            x={index * step + step * 0.15}
+            y={y(value)}
+            width={step * 0.7}
+            height={CHART_HEIGHT - y(value)}
+            fill={color}
+            rx={1}
+          />
+        ))
+      ) : (
+        <polyline
+          points={values.map((value, index) => `${index * step + step / 2},${y(value)}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+export const TribeStats: React.FC<TribeStatsProps> = ({ slug, accentColor }) => {
+  const [days, setDays] = useState(30);
+  const [stats, setStats] = useState<TribeStatsData | null>(null);
+  const [leaderboardWindow, setLeaderboardWindow] = useState<LeaderboardWindow>('week');
+  const [leaderboard, setLeaderboard] = useState<TribeLeaderboardItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getTribeStats(slug, days)
+      .then((data) => {
+        if (!cancelled) setStats(data);
+      })
+      .catch((err) => {
+        console.error('Failed to load tribe stats:', err);
+        if (!cancelled) setError('Stats are unavailable right now');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, days]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getTribeLeaderboard(leaderboardWindow)
+      .then((data) => {
+        if (!cancelled) setLeaderboard(data.items);
+      })
+      .catch((err) => console.error('Failed to load tribe leaderboard:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [leaderboardWindow]);
+
+  const sectionTitleStyle: React.CSSProperties = {
+    fontSize: 'var(--text-body-sm)',
+    fontWeight: 'var(--weight-semibold)',
+    color: 'var(--color-text-secondary)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    marginBottom: 'var(--space-default)',
+  };
+
+  const toggleStyle = (isActive: boolean): React.CSSProperties => ({
+    padding: 'var(--space-tight) var(--space-small)',
+    borderRadius: 'var(--radius-full)',
+    border: `1px solid ${isActive ? accentColor : 'var(--color-gray-800)'}`,
+    background: isActive ? `${accentColor}20` : 'transparent',
+    color: isActive ? accentColor : 'var(--color-text-secondary)',
+    fontSize: 'var(--text-meta)',
+    cursor: 'pointer',
+  });
+
+  const charts: Array<{ label: string; field: ChartProps['field']; kind: ChartProps['kind'] }> = [
+    { label: 'Members', field: 'members', kind: 'line' },
+    { label: 'Respects', field: 'respects', kind: 'bars' },
+    { label: 'New posts', field: 'newPosts', kind: 'bars' },
+    { label: 'Active creators', field: 'activeCreators', kind: 'bars' },
+  ];
+
+  const series = stats?.series || [];
+
+  return (
+    <div
+      style={{
+        padding: 'var(--space-section) var(--space-default)',
+        maxWidth: '520px',
+        margin: '0 auto',
+      }}
+    >
+      {/* Range */}
+      <div style={{ display: 'flex', gap: 'var(--space-small)', marginBottom: 'var(--space-section)' }}>
+        {RANGE_OPTIONS.map((option) => (
+          <button key={option} onClick={() => setDays(option)} style={toggleStyle(days === option)}>
+            {option}d
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)' }}>{error}</p>
+      )}
+
+      {stats && (
+        <>
+          {/* Totals */}
+          <section
+            style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(3, 1fr)',
+              gap: 'var(--space-small)',
+              marginBottom: 'var(--space-large)',
+            }}
+          >
+            {[
+              { label: 'Respects', value: formatCount(stats.totals.respects) },
+              { label: 'New posts', value: formatCount(stats.totals.newPosts) },
+              {
+                label: 'Members',
+                value: `${stats.totals.memberGrowth >= 0 ? '+' : ''}${formatCount(stats.totals.memberGrowth)}`,
+              },
+            ].map((total) => (
+              <div
+                key={total.label}
+                style={{
+                  padding: 'var(--space-default)',
+                  borderRadius: 'var(--radius-md)',
+                  background: 'var(--color-gray-900)',
+                }}
+              >
+                <div style={{ fontSize: 'var(--text-display-sm)', fontWeight: 'var(--weight-bold)', color: 'var(--color-text-primary)' }}>
+                  {total.value}
+                </div>
+                <div style={{ fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>{total.label}</div>
+              </div>
+            ))}
+          </section>
+
+          {/* Charts */}
+          {series.length === 0 ? (
+            <p style={{ fontSize: 'var(--text-body-md)', color: 'var(--color-text-secondary)', marginBottom: 'var(--space-large)' }}>
+              Daily stats appear after the tribe's first full day.
+            </p>
+          ) : (
+            charts.map((chart) => (
+              <section key={chart.field} style={{ marginBottom: 'var(--space-large)' }}>
+                <h3 style={sectionTitleStyle}>{chart.label}</h3>
+                <Chart series={series} field={chart.field} kind={chart.kind} color={accentColor} />
+                <div
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    marginTop: 'var(--space-tight)',
+                    fontSize: 'var(--text-meta)',
+                    color: 'var(--color-text-tertiary)',
+                  }}
+                >
+                  <span>{formatDay(series[0].day)}</span>
+                  <span>{formatDay(series[series.length - 1].day)}</span>
+                </div>
+              </section>
+            ))
+          )}
+
+          {/* Top Styles */}
+          {stats.topStyles.length > 0 && (
+            <section style={{ marginBottom: 'var(--space-large)' }}>
+              <h3 style={sectionTitleStyle}>Top Styles</h3>
+              {stats.topStyles.map((style) => (
+                <div
+                  key={style.styleTag}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    padding: 'var(--space-small) 0',
+                    fontSize: 'var(--text-body-md)',
+                    color: 'var(--color-text-primary)',
+                  }}
+                >
+                  <span>{style.styleTag}</span>
+                  <span style={{ color: 'var(--color-text-tertiary)' }}>{formatCount(style.posts)} posts</span>
+                </div>
+              ))}
+            </section>
+          )}
+        </>
+      )}
+
+      {/* Tribe Leaderboard */}
+      <section>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <h3 style={sectionTitleStyle}>Tribe Leaderboard</h3>
+          <div style={{ display: 'flex', gap: 'var(--space-small)', marginBottom: 'var(--space-default)' }}>
+            <button onClick={() => setLeaderboardWindow('week')} style={toggleStyle(leaderboardWindow === 'week')}>
+              Week
+            </button>
+            <button onClick={() => setLeaderboardWindow('month')} style={toggleStyle(leaderboardWindow === 'month')}>
+              Month
+            </button>
+          </div>
+        </div>
+
+        {leaderboard.map((item) => {
+          const isThisTribe = item.tribe.slug === slug;
+
+          return (
+            <div
+              key={item.tribe.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--space-default)',
+                padding: 'var(--space-small) var(--space-default)',
+                borderRadius: 'var(--radius-md)',
+                background: isThisTribe ? `${accentColor}15` : 'transparent',
+              }}
+            >
+              <span style={{ width: '20px', fontSize: 'var(--text-body-sm)', color: 'var(--color-text-tertiary)' }}>
+                {item.rank}
+              </span>
+              <span
+                style={{
+                  width: '10px',
+                  height: '10px',
+                  borderRadius: 'var(--radius-full)',
+                  background: item.tribe.accentColor,
+                  flexShrink: 0,
+                }}
+              />
+              <span
+                style={{
+                  flex: 1,
+                  fontSize: 'var(--text-body-md)',
+                  fontWeight: isThisTribe ? 'var(--weight-semibold)' : 'var(--weight-regular)',
+                  color: 'var(--color-text-primary)',
+                }}
+              >
+                {item.tribe.name}
+              </span>
+              <span style={{ fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+                {formatCount(item.respects)} respects
+              </span>
+            </div>
+          );
+        })}
+      </section>
+    </div>
+  );
+};
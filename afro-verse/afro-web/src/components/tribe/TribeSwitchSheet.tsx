@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Sheet } from '../common/Sheet';
+import { Icon } from '../common/Icon';
+
+interface TribeSwitchSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tribeName: string;
+  accentColor: string;
+  switchAvailableAt: string | null; // Cooldown still running until then
+  onConfirm: (movePosts: boolean) => Promise<unknown>;
+}
+
+const POST_OPTIONS: Array<{ value: boolean; label: string; description: string }> = [
+  {
+    value: false,
+    label: 'Leave my posts behind',
+    description: 'Your existing posts stay in your current tribe',
+  },
+  {
+    value: true,
+    label: 'Bring my posts with me',
+    description: 'Your existing posts move to the new tribe',
+  },
+];
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const TribeSwitchSheet: React.FC<TribeSwitchSheetProps> = ({
+  isOpen,
+  onClose,
+  tribeName,
+  accentColor,
+  switchAvailableAt,
+  onConfirm,
+}) => {
+  const [movePosts, setMovePosts] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fresh choice each time the sheet opens
+  useEffect(() => {
+    if (isOpen) {
+      setMovePosts(false);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const isCoolingDown = !!switchAvailableAt;
+
+  const handleConfirm = async () => {
+    if (isCoolingDown || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onConfirm(movePosts);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to switch tribe');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet isOpen={isOpen} onClose={onClose} title={`Switch to ${tribeName}?`}>
+      {isCoolingDown ? (
+        <p style={{ margin: 0, fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+          You changed tribes recently. You can switch again on {formatDate(switchAvailableAt!)}.
+        </p>
+      ) : (
+        <>
+          <p style={{ margin: '0 0 var(--space-small)', fontSize: 'var(--text-body-sm)', color: 'var(--color-text-secondary)' }}>
+            Your feed will follow {tribeName} right away. After switching you can't switch again for a while.
+          </p>
+
+          {POST_OPTIONS.map(option => (
+            <button
+              key={String(option.value)}
+              onClick={() => setMovePosts(option.value)}
+              style={{
+                width: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: 'var(--space-md)',
+                padding: 'var(--space-md) 0',
+                background: 'none',
+                border: 'none',
+                borderBottom: '1px solid var(--color-border)',
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+            >
+              <span>
+                <span
+                  style={{
+                    display: 'block',
+                    fontSize: 'var(--text-body-sm)',
+                    fontWeight: movePosts === option.value ? 'var(--weight-semibold)' : 'var(--weight-regular)',
+                    color: movePosts === option.value ? 'var(--color-off-white)' : 'var(--color-text-secondary)',
+                  }}
+                >
+                  {option.label}
+                </span>
+                <span style={{ fontSize: 'var(--text-meta)', color: 'var(--color-text-tertiary)' }}>
+                  {option.description}
+                </span>
+              </span>
+              {movePosts === option.value && <Icon type="check" size={18} style={{ color: accentColor }} />}
+            </button>
+          ))}
+
+          {error && (
+            <p style={{ fontSize: 'var(--text-body-sm)', color: '#EF4444', margin: 'var(--space-small) 0 0' }}>
+              {error}
+            </p>
+          )}
+
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+            style={{
+              width: '100%',
+              marginTop: 'var(--space-lg)',
+              padding: 'var(--space-md)',
+              borderRadius: 'var(--radius-full)',
+              border: 'none',
+              background: accentColor,
+              color: 'var(--color-near-black)',
+              fontSize: 'var(--text-body-md)',
+              fontWeight: 'var(--weight-semibold)',
+              cursor: isSubmitting ? 'default' : 'pointer',
+              opacity: isSubmitting ? 0.6 : 1,
+            }}
+          >
+            {isSubmitting ? 'Switching...' : `Switch to ${tribeName}`}
+          </button>
+        </>
+      )}
+    </Sheet>
+  );
+};
@@ -2,7 +2,7 @@
 
 import React, { useState } from 'react';
 
-type TabId = 'posts' | 'members' | 'about';
+type TabId = 'posts' | 'members' | 'stats' | 'about';
 
 interface Tab {
   id: TabId;
@@ -27,6 +27,7 @@ export const TribeTabs: React.FC<TribeTabsProps> = ({
   const tabs: Tab[] = [
     { id: 'posts', label: 'Posts' },
     { id: 'members', label: 'Members' },
+    { id: 'stats', label: 'Stats' },
     { id: 'about', label: 'About' },
   ];
 
@@ -8,6 +8,7 @@ import {
   clearTokens,
   type User as AuthUser
 } from '../services/authService';
+import { unsubscribeDevice } from '../services/pushService';
 
 export interface User {
   id: string;
@@ -30,6 +31,7 @@ export interface User {
     posts: number;
     respectsReceived: number;
   };
+  roles?: string[];
   createdAt: string;
 }
 
@@ -121,6 +123,8 @@ export const useAuth = () => {
   };
 
   const logout = () => {
+    // Stop pushes for this account reaching a signed-out device
+    unsubscribeDevice().catch(() => {});
     clearTokens();
     setUser(null);
     router.push('/onboarding');
@@ -135,6 +139,7 @@ export const useAuth = () => {
     isAuthenticated: !!user,
     hasIdentity: hasAvatar && hasTribe,
     hasTribe,
+    isAdmin: !!user?.roles?.includes('admin'),
     refreshUser,
     logout,
   };
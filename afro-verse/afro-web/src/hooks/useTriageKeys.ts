@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+/**
+ * Single-key shortcuts for the admin console
+ *
+ * Keys are matched on `KeyboardEvent.key`, so Shift variants are their
+ * upper-case letters ('A' vs 'a'). Ignored while typing in a field or
+ * with a modifier held, so browser shortcuts keep working.
+ */
+export const useTriageKeys = (
+  handlers: Record<string, () => void>,
+  enabled: boolean = true
+) => {
+  // Latest handlers without re-binding the listener on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement ||
+        (e.target as HTMLElement)?.isContentEditable
+      ) {
+        return;
+      }
+
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const handler = handlersRef.current[e.key];
+      if (handler) {
+        e.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
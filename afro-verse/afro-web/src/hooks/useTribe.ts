@@ -5,6 +5,7 @@ import {
   getAllTribes,
   getTribe,
   joinTribe,
+  switchTribe,
   getTribePosts,
   getTribeMembers,
   getTribePreview,
@@ -81,6 +82,21 @@ export const useTribe = (slug: string) => {
     }
   }, [slug, loadTribe]);
 
+  const switchTo = useCallback(async (movePosts: boolean) => {
+    setError(null);
+
+    try {
+      const response = await switchTribe(slug, movePosts);
+      // Refresh tribe data after switching
+      await loadTribe();
+      return response;
+    } catch (err: any) {
+      const message = err.response?.data?.message || 'Failed to switch tribe';
+      setError(message);
+      throw new Error(message);
+    }
+  }, [slug, loadTribe]);
+
   useEffect(() => {
     loadTribe();
   }, [loadTribe]);
@@ -90,6 +106,7 @@ export const useTribe = (slug: string) => {
     loading,
     error,
     join,
+    switchTo,
     refresh: loadTribe,
   };
 };
@@ -0,0 +1,166 @@
+import { apiClient } from './apiClient';
+
+/**
+ * Admin Service
+ *
+ * Moderation console API (admin role required; the API enforces it)
+ */
+
+export type AdminPostStatus = 'all' | 'active' | 'flagged' | 'removed';
+export type AdminUserStatus = 'all' | 'active' | 'banned' | 'shadowbanned';
+export type AdminPostAction = 'flag' | 'remove' | 'restore';
+export type AdminUserAction = 'ban' | 'unban' | 'shadowban' | 'unshadowban';
+
+export interface AdminUserSummary {
+  id: string;
+  username: string;
+  displayName: string;
+  banned: boolean;
+  shadowbanned: boolean;
+}
+
+export interface AdminPost {
+  postId: string;
+  thumbUrl: string;
+  caption: string;
+  status: 'active' | 'removed' | 'flagged';
+  visibility: string;
+  counts: { respects: number; comments: number };
+  moderation: { flaggedAt: string | null; removedAt: string | null; reason: string | null } | null;
+  openReports: number;
+  author: AdminUserSummary | null;
+  createdAt: string;
+}
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarThumbUrl: string;
+  roles: string[];
+  tribe: { slug: string; name: string } | null;
+  status: {
+    banned: boolean;
+    banReason: string | null;
+    shadowbanned: boolean;
+    shadowbanReason: string | null;
+    shadowbanExpiresAt: string | null;
+  };
+  counters: { posts: number; respectsReceived: number };
+  createdAt: string;
+}
+
+export interface AdminBlockedGeneration {
+  generationId: string;
+  user: AdminUserSummary | null;
+  mode: string;
+  presetId: string | null;
+  prompt: string;
+  provider: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface AdminUserHistoryEvent {
+  type: 'joined' | 'post_flagged' | 'post_removed' | 'reported' | 'generation_blocked' | 'shadowbanned';
+  at: string;
+  postId?: string;
+  reason?: string;
+}
+
+export interface AdminUserDetail {
+  user: AdminUser;
+  counts: {
+    posts: { active: number; flagged: number; removed: number };
+    respectsReceived: number;
+    respectsGiven: number;
+    comments: number;
+    reportsAgainst: number;
+    openReportsAgainst: number;
+    reportsFiled: number;
+    generations: number;
+    blockedGenerations: number;
+  };
+  recentPosts: AdminPost[];
+  history: AdminUserHistoryEvent[];
+}
+
+export interface AdminPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface BulkActionResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Review queue: flagged posts, newest first
+ */
+export async function getFlaggedPosts(cursor?: string): Promise<AdminPage<AdminPost>> {
+  const response = await apiClient.get('/admin/posts/flagged', { params: { cursor } });
+  return response.data;
+}
+
+/**
+ * Recent posts, optionally by status or author
+ */
+export async function getPosts(
+  options: { status?: AdminPostStatus; userId?: string; cursor?: string } = {}
+): Promise<AdminPage<AdminPost>> {
+  const response = await apiClient.get('/admin/posts', { params: options });
+  return response.data;
+}
+
+/**
+ * Users by moderation status; `q` matches the start of a username
+ */
+export async function getUsers(
+  options: { status?: AdminUserStatus; q?: string; cursor?: string } = {}
+): Promise<AdminPage<AdminUser>> {
+  const response = await apiClient.get('/admin/users', { params: options });
+  return response.data;
+}
+
+/**
+ * User drawer data
+ */
+export async function getUserDetail(userId: string): Promise<AdminUserDetail> {
+  const response = await apiClient.get(`/admin/users/${userId}`);
+  return response.data;
+}
+
+/**
+ * Generations blocked by provider safety filters
+ */
+export async function getBlockedGenerations(cursor?: string): Promise<AdminPage<AdminBlockedGeneration>> {
+  const response = await apiClient.get('/admin/generations/blocked', { params: { cursor } });
+  return response.data;
+}
+
+/**
+ * Flag, remove or restore posts (reason required except for restore)
+ */
+export async function bulkPostAction(
+  action: AdminPostAction,
+  postIds: string[],
+  reason?: string
+): Promise<BulkActionResult[]> {
+  const response = await apiClient.post('/admin/posts/bulk', { action, postIds, reason });
+  return response.data.results;
+}
+
+/**
+ * Ban, unban, shadowban or unshadowban users (reason required for ban
+ * and shadowban; shadowbans without durationHours last until cleared)
+ */
+export async function bulkUserAction(
+  action: AdminUserAction,
+  userIds: string[],
+  options: { reason?: string; durationHours?: number } = {}
+): Promise<BulkActionResult[]> {
+  const response = await apiClient.post('/admin/users/bulk', { action, userIds, ...options });
+  return response.data.results;
+}
@@ -45,6 +45,7 @@ export interface User {
     posts: number;
     respectsReceived: number;
   };
+  roles?: string[];
   createdAt: string;
 }
 
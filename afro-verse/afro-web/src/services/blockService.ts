@@ -0,0 +1,61 @@
+import { apiClient } from './apiClient';
+
+/**
+ * Block Service (Frontend)
+ *
+ * Blocking and muting other users.
+ * - Block: neither of you sees the other; follows are removed
+ * - Mute: you stop seeing them; they aren't told
+ */
+
+export interface BlockedUser {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarThumbUrl: string;
+  since: string; // When blocked or muted
+}
+
+/**
+ * Block a user
+ */
+export async function blockUser(targetUserId: string): Promise<void> {
+  await apiClient.post('/users/me/blocks', { targetUserId });
+}
+
+/**
+ * Unblock a user
+ */
+export async function unblockUser(targetUserId: string): Promise<void> {
+  await apiClient.delete(`/users/me/blocks/${targetUserId}`);
+}
+
+/**
+ * Mute a user
+ */
+export async function muteUser(targetUserId: string): Promise<void> {
+  await apiClient.post('/users/me/mutes', { targetUserId });
+}
+
+/**
+ * Unmute a user
+ */
+export async function unmuteUser(targetUserId: string): Promise<void> {
+  await apiClient.delete(`/users/me/mutes/${targetUserId}`);
+}
+
+/**
+ * Accounts you have blocked
+ */
+export async function getBlockedUsers(): Promise<BlockedUser[]> {
+  const response = await apiClient.get('/users/me/blocks');
+  return response.data.items;
+}
+
+/**
+ * Accounts you have muted
+ */
+export async function getMutedUsers(): Promise<BlockedUser[]> {
+  const response = await apiClient.get('/users/me/mutes');
+  return response.data.items;
+}
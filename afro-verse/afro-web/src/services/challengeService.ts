@@ -0,0 +1,110 @@
+import { apiClient } from './apiClient';
+import type { FeedItem } from './feedService';
+
+/**
+ * Challenge Service (Frontend)
+ *
+ * Tribe challenges: themed, time-boxed events ranked by respects.
+ */
+
+export type ChallengePhase = 'upcoming' | 'active' | 'judging' | 'results' | 'cancelled';
+
+export interface ChallengeUser {
+  id: string;
+  username: string;
+  displayName: string;
+}
+
+export interface ChallengeWinner {
+  rank: number;
+  postId: string;
+  thumbUrl: string;
+  respects: number;
+  user: ChallengeUser;
+}
+
+export interface Challenge {
+  id: string;
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+  };
+  title: string;
+  description: string | null;
+  hashtag: string;
+  presetId: string | null; // Preset entries are made with
+  phase: ChallengePhase;
+  startsAt: string;
+  endsAt: string;
+  entryCount: number;
+  winners: ChallengeWinner[];
+}
+
+export interface ChallengeDetail extends Challenge {
+  viewerState: {
+    isMember: boolean;
+    canEnter: boolean;
+    entries: number;
+    canManage: boolean;
+  };
+}
+
+export interface LeaderboardItem {
+  rank: number;
+  postId: string;
+  thumbUrl: string;
+  respects: number;
+  user: ChallengeUser;
+}
+
+/**
+ * Get a tribe's challenges (newest first)
+ */
+export async function getTribeChallenges(tribeSlug: string): Promise<Challenge[]> {
+  const response = await apiClient.get('/challenges', { params: { tribe: tribeSlug } });
+  return response.data.items;
+}
+
+/**
+ * Get a challenge with viewer state
+ */
+export async function getChallenge(challengeId: string): Promise<ChallengeDetail> {
+  const response = await apiClient.get(`/challenges/${challengeId}`);
+  return response.data;
+}
+
+/**
+ * Get the leaderboard (respects received during the challenge)
+ */
+export async function getChallengeLeaderboard(challengeId: string): Promise<LeaderboardItem[]> {
+  const response = await apiClient.get(`/challenges/${challengeId}/leaderboard`);
+  return response.data.items;
+}
+
+/**
+ * Get challenge entries, newest first
+ */
+export async function getChallengeFeed(
+  challengeId: string,
+  limit: number = 12,
+  cursor?: string
+): Promise<{
+  items: FeedItem[];
+  nextCursor?: string;
+}> {
+  const params: any = { limit };
+  if (cursor) {
+    params.cursor = cursor;
+  }
+
+  const response = await apiClient.get(`/challenges/${challengeId}/feed`, { params });
+  return response.data;
+}
+
+/**
+ * Enter one of your posts into an active challenge
+ */
+export async function enterChallenge(challengeId: string, postId: string): Promise<void> {
+  await apiClient.post(`/challenges/${challengeId}/entries`, { postId });
+}
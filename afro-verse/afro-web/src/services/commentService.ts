@@ -0,0 +1,82 @@
+import { apiClient } from './apiClient';
+
+/**
+ * Comment Service
+ *
+ * Handles comments and one level of replies on posts
+ */
+
+export interface Comment {
+  commentId: string;
+  postId: string;
+  parentId: string | null;
+  body: string | null; // null when deleted
+  user: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatarThumbUrl: string;
+  } | null;
+  counts: {
+    replies: number;
+  };
+  isDeleted: boolean;
+  viewerState: {
+    canDelete: boolean;
+  };
+  createdAt: string;
+}
+
+export interface CommentPage {
+  comments: Comment[];
+  nextCursor: string | null;
+}
+
+/**
+ * Get top-level comments on a post (newest first)
+ */
+export async function getComments(postId: string, cursor?: string): Promise<CommentPage> {
+  const params: any = {};
+  if (cursor) {
+    params.cursor = cursor;
+  }
+
+  const response = await apiClient.get(`/posts/${postId}/comments`, { params });
+  return response.data;
+}
+
+/**
+ * Get replies to a comment (oldest first)
+ */
+export async function getReplies(
+  postId: string,
+  commentId: string,
+  cursor?: string
+): Promise<CommentPage> {
+  const params: any = {};
+  if (cursor) {
+    params.cursor = cursor;
+  }
+
+  const response = await apiClient.get(`/posts/${postId}/comments/${commentId}/replies`, { params });
+  return response.data;
+}
+
+/**
+ * Add a comment, or a reply when parentId is set
+ */
+export async function addComment(
+  postId: string,
+  body: string,
+  parentId?: string
+): Promise<Comment> {
+  const response = await apiClient.post(`/posts/${postId}/comments`, { body, parentId });
+  return response.data;
+}
+
+/**
+ * Delete a comment
+ */
+export async function deleteComment(postId: string, commentId: string): Promise<void> {
+  await apiClient.delete(`/posts/${postId}/comments/${commentId}`);
+}
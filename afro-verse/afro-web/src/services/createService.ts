@@ -10,6 +10,7 @@ export interface Generation {
   id: string;
   status: 'queued' | 'running' | 'succeeded' | 'failed';
   mode: 'preset' | 'prompt' | 'try_style';
+  preset?: { id: string; version: number | null } | null;
   versions: GenerationVersion[];
   timing?: {
     estimatedTotalMs: number;
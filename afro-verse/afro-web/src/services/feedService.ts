@@ -17,6 +17,7 @@ export interface FeedItem {
   imageUrl?: string;
   aspect: string;
   styleTag?: string;
+  tags?: string[]; // Tag slugs (hashtags and style tag)
   caption?: string;
   user: {
     id: string;
@@ -32,6 +33,7 @@ export interface FeedItem {
   counts: {
     respects: number;
     shares: number;
+    comments: number;
   };
   viewerState: {
     hasRespected: boolean;
@@ -10,6 +10,9 @@ export interface Relationship {
   isFollowing: boolean;
   isFollower: boolean;
   isSelf: boolean;
+  isBlocked: boolean; // You blocked them
+  isBlockedBy: boolean; // They blocked you
+  isMuted: boolean; // You muted them
 }
 
 /**
@@ -0,0 +1,68 @@
+import { apiClient } from './apiClient';
+
+/**
+ * Notification Service
+ *
+ * Handles the activity feed and read state
+ */
+
+export type NotificationType =
+  | 'respect'
+  | 'follow'
+  | 'try_style'
+  | 'generation_ready'
+  | 'generation_failed';
+
+export interface Notification {
+  notificationId: string;
+  type: NotificationType;
+  message: string;
+  actors: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatarThumbUrl: string;
+  }[];
+  actorCount: number;
+  target: {
+    postId: string | null;
+    generationId: string | null;
+    thumbUrl: string;
+  };
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  notifications: Notification[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+/**
+ * Get notifications (most recent activity first)
+ */
+export async function getNotifications(cursor?: string): Promise<NotificationPage> {
+  const params: any = {};
+  if (cursor) {
+    params.cursor = cursor;
+  }
+
+  const response = await apiClient.get('/notifications', { params });
+  return response.data;
+}
+
+/**
+ * Get unread count (nav badge)
+ */
+export async function getUnreadCount(): Promise<number> {
+  const response = await apiClient.get('/notifications/unread-count');
+  return response.data.count;
+}
+
+/**
+ * Mark notifications as read (all when no IDs are passed)
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  await apiClient.post('/notifications/read', ids ? { ids } : {});
+}
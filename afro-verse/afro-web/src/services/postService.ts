@@ -16,15 +16,67 @@ export interface Post {
   createdAt: string;
 }
 
+export interface PostDetail {
+  postId: string;
+  imageUrl: string;
+  thumbUrl: string;
+  aspect: '1:1' | '9:16';
+  styleTag?: string;
+  tags?: string[]; // Tag slugs (hashtags and style tag)
+  caption?: string;
+  user: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatarThumbUrl: string;
+  };
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+    accentColor?: string;
+  };
+  counts: {
+    respects: number;
+    shares: number;
+    comments: number;
+    remixes: number;
+  };
+  remixedFrom: {
+    postId: string;
+    user: { username: string; displayName: string } | null;
+    depth: number;
+  } | null;
+  viewerState: {
+    hasRespected: boolean;
+  };
+  createdAt: string;
+}
+
+export interface LineagePost {
+  postId: string;
+  thumbUrl: string;
+  aspect: '1:1' | '9:16';
+  styleTag: string | null;
+  user: { id: string; username: string; displayName: string } | null;
+  parentPostId: string | null;
+  depth: number; // Relative to the requested post
+  counts: { respects: number; remixes: number };
+  available: boolean; // False when removed or the author is hidden
+  createdAt: string | null;
+}
+
 export interface CreatePostInput {
   generationId: string;
   versionId: string;
   caption?: string;
   visibility: 'tribe' | 'public';
+  challengeId?: string; // Enter the post into this challenge
 }
 
 export interface CreatePostResponse {
   postId: string;
+  challengeEntered?: boolean;
 }
 
 /**
@@ -36,6 +88,7 @@ export async function createPost(input: CreatePostInput): Promise<CreatePostResp
     versionId: input.versionId,
     caption: input.caption,
     visibility: input.visibility,
+    challengeId: input.challengeId,
   }, {
     headers: {
       'Idempotency-Key': `${input.generationId}-${input.versionId}-${Date.now()}`,
@@ -45,6 +98,43 @@ export async function createPost(input: CreatePostInput): Promise<CreatePostResp
   return response.data;
 }
 
+/**
+ * Get a post
+ */
+export async function getPost(postId: string): Promise<PostDetail> {
+  const response = await apiClient.get(`/posts/${postId}`);
+  return response.data;
+}
+
+/**
+ * Get remixes of a post (all descendants, or direct remixes only)
+ */
+export async function getRemixes(
+  postId: string,
+  options: { cursor?: string; direct?: boolean; limit?: number } = {}
+): Promise<{ remixes: LineagePost[]; nextCursor: string | null }> {
+  const params: any = {};
+  if (options.cursor) params.cursor = options.cursor;
+  if (options.direct) params.direct = 'true';
+  if (options.limit) params.limit = options.limit;
+
+  const response = await apiClient.get(`/posts/${postId}/remixes`, { params });
+  return response.data;
+}
+
+/**
+ * Get the ancestor chain of a remix (root first)
+ */
+export async function getLineage(postId: string): Promise<{
+  ancestors: LineagePost[];
+  rootPostId: string;
+  depth: number;
+  truncated: boolean;
+}> {
+  const response = await apiClient.get(`/posts/${postId}/lineage`);
+  return response.data;
+}
+
 /**
  * Respect a post
  */
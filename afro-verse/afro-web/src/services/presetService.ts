@@ -0,0 +1,26 @@
+import { apiClient } from './apiClient';
+
+/**
+ * Preset Service
+ *
+ * Style preset catalog for the create screen
+ */
+
+export interface StylePreset {
+  id: string; // Send as presetId when generating
+  title: string;
+  description: string | null;
+  exampleThumbs: string[];
+  version: number;
+  tribeMatch: boolean; // Curated for the user's tribe
+}
+
+/**
+ * Get enabled presets (the signed-in user's tribe presets first)
+ */
+export async function getPresets(tribeSlug?: string): Promise<StylePreset[]> {
+  const response = await apiClient.get('/presets', {
+    params: tribeSlug ? { tribe: tribeSlug } : undefined,
+  });
+  return response.data.presets;
+}
@@ -0,0 +1,127 @@
+import { apiClient } from './apiClient';
+
+/**
+ * Push Service
+ *
+ * Registers /sw.js, manages this device's Web Push subscription and
+ * the user's per-category preferences.
+ */
+
+export type PushCategory = 'generation' | 'follow' | 'respect';
+
+export type PushPreferences = Record<PushCategory, boolean>;
+
+export interface PushSettings {
+  enabled: boolean; // Push configured on the server
+  publicKey: string | null;
+  preferences: PushPreferences;
+  subscriptionCount: number;
+}
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Check browser support (iOS needs the app installed to the home screen)
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * Convert a base64url VAPID key for pushManager.subscribe()
+ */
+function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  // Backed by a plain ArrayBuffer, as PushManager.subscribe's BufferSource requires
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Get push settings (server key, preferences, device count)
+ */
+export async function getPushSettings(): Promise<PushSettings> {
+  const response = await apiClient.get('/notifications/push');
+  return response.data;
+}
+
+/**
+ * Get this device's current subscription (null if not subscribed)
+ */
+export async function getDeviceSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Enable push on this device
+ *
+ * Asks for notification permission, subscribes with the server's VAPID
+ * key and registers the subscription with the API.
+ */
+export async function enablePush(publicKey: string): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported on this device');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked. Allow them in your browser settings.');
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    }));
+
+  await apiClient.post('/notifications/push/subscriptions', subscription.toJSON());
+}
+
+/**
+ * Disable push on this device
+ */
+export async function disablePush(): Promise<void> {
+  const subscription = await getDeviceSubscription();
+  if (!subscription) return;
+
+  await apiClient.delete('/notifications/push/subscriptions', {
+    data: { endpoint: subscription.endpoint },
+  });
+  await subscription.unsubscribe();
+}
+
+/**
+ * Drop this device's subscription locally (on logout). The API prunes
+ * the endpoint the next time the push service rejects it.
+ */
+export async function unsubscribeDevice(): Promise<void> {
+  const subscription = await getDeviceSubscription();
+  await subscription?.unsubscribe();
+}
+
+/**
+ * Update per-category preferences
+ */
+export async function updatePushPreferences(
+  preferences: Partial<PushPreferences>
+): Promise<PushPreferences> {
+  const response = await apiClient.patch('/notifications/push/preferences', preferences);
+  return response.data.preferences;
+}
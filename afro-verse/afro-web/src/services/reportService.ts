@@ -0,0 +1,44 @@
+import { apiClient } from './apiClient';
+
+/**
+ * Report Service
+ *
+ * Lets users report posts, captions and profiles for moderator review
+ */
+
+export type ReportTargetType = 'post' | 'caption' | 'profile';
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate'
+  | 'nudity'
+  | 'violence'
+  | 'self_harm'
+  | 'impersonation'
+  | 'other';
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or scam' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'hate', label: 'Hate speech or symbols' },
+  { value: 'nudity', label: 'Nudity or sexual content' },
+  { value: 'violence', label: 'Violence or threats' },
+  { value: 'self_harm', label: 'Self-harm' },
+  { value: 'impersonation', label: 'Pretending to be someone else' },
+  { value: 'other', label: 'Something else' },
+];
+
+export interface ReportInput {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+/**
+ * Submit a report (reporting the same thing twice is a no-op)
+ */
+export async function reportContent(input: ReportInput): Promise<void> {
+  await apiClient.post('/reports', input);
+}
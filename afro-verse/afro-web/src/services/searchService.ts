@@ -0,0 +1,109 @@
+import { apiClient } from './apiClient';
+import type { FeedItem } from './feedService';
+
+/**
+ * Search Service (Frontend)
+ *
+ * Search across users, tribes, posts and tags, plus recent queries
+ * (kept on this device only).
+ */
+
+export type SearchType = 'all' | 'users' | 'tribes' | 'posts' | 'tags';
+
+export interface UserSearchResult {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarThumbUrl: string;
+  tribe: { slug: string; name: string } | null;
+}
+
+export interface TribeSearchResult {
+  id: string;
+  slug: string;
+  name: string;
+  motto: string;
+  accentColor: string;
+  iconUrl: string;
+  members: number;
+}
+
+export interface TagSearchResult {
+  slug: string;
+  label: string;
+  postCount: number;
+}
+
+export interface SearchResponse {
+  q: string;
+  type: SearchType;
+  users?: UserSearchResult[];
+  tribes?: TribeSearchResult[];
+  posts?: FeedItem[];
+  tags?: TagSearchResult[];
+  nextCursor?: string; // Single-type searches only
+}
+
+export const MIN_QUERY_LENGTH = 2;
+
+const RECENT_QUERIES_KEY = 'afromoji_recent_searches';
+const MAX_RECENT_QUERIES = 10;
+
+/**
+ * Search (type 'all' returns a few results of every kind)
+ */
+export async function search(
+  q: string,
+  type: SearchType = 'all',
+  cursor?: string
+): Promise<SearchResponse> {
+  const params: any = { q, type };
+  if (cursor) {
+    params.cursor = cursor;
+  }
+
+  const response = await apiClient.get('/search', { params });
+  return response.data;
+}
+
+/**
+ * Recent queries, newest first
+ */
+export function getRecentQueries(): string[] {
+  try {
+    const stored = localStorage.getItem(RECENT_QUERIES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remember a query (moves repeats to the front)
+ */
+export function addRecentQuery(q: string): string[] {
+  const query = q.trim();
+  const recent = [query, ...getRecentQueries().filter((item) => item.toLowerCase() !== query.toLowerCase())].slice(
+    0,
+    MAX_RECENT_QUERIES
+  );
+
+  localStorage.setItem(RECENT_QUERIES_KEY, JSON.stringify(recent));
+  return recent;
+}
+
+/**
+ * Forget one recent query
+ */
+export function removeRecentQuery(q: string): string[] {
+  const recent = getRecentQueries().filter((item) => item !== q);
+  localStorage.setItem(RECENT_QUERIES_KEY, JSON.stringify(recent));
+  return recent;
+}
+
+/**
+ * Forget all recent queries
+ */
+export function clearRecentQueries(): void {
+  localStorage.removeItem(RECENT_QUERIES_KEY);
+}
@@ -0,0 +1,53 @@
+import { apiClient } from './apiClient';
+import type { FeedItem } from './feedService';
+
+/**
+ * Tag Service (Frontend)
+ *
+ * Hashtag and style-tag discovery.
+ */
+
+export type TrendingWindow = '24h' | '7d';
+
+export interface TagInfo {
+  slug: string;
+  label: string;
+  postCount: number;
+  isStyle: boolean; // Used as a preset style tag
+}
+
+export interface TrendingTag {
+  slug: string;
+  label: string;
+  posts: number;
+  creators: number;
+}
+
+/**
+ * Get posts with a tag, newest first
+ */
+export async function getTagPosts(
+  tag: string,
+  limit: number = 12,
+  cursor?: string
+): Promise<{
+  tag: TagInfo;
+  items: FeedItem[];
+  nextCursor?: string;
+}> {
+  const params: any = { limit };
+  if (cursor) {
+    params.cursor = cursor;
+  }
+
+  const response = await apiClient.get(`/tags/${encodeURIComponent(tag)}/posts`, { params });
+  return response.data;
+}
+
+/**
+ * Get trending tags
+ */
+export async function getTrendingTags(window: TrendingWindow = '24h'): Promise<TrendingTag[]> {
+  const response = await apiClient.get('/tags/trending', { params: { window } });
+  return response.data.items;
+}
@@ -1,4 +1,5 @@
 import { apiClient } from './apiClient';
+import type { Challenge } from './challengeService';
 
 /**
  * Tribe Service (Frontend)
@@ -22,7 +23,10 @@ export interface Tribe {
 export interface TribeDetail extends Tribe {
   viewerState: {
     isMember: boolean;
+    canSwitch: boolean; // In another tribe and past the switch cooldown
+    switchAvailableAt: string | null; // Cooldown end, while it is running
   };
+  challenge: Challenge | null; // Active challenge or recent results
 }
 
 export interface TribeMember {
@@ -38,6 +42,52 @@ export interface TribePost {
   aspect: string;
 }
 
+export type LeaderboardWindow = 'week' | 'month';
+export type LeaderboardMetric = 'respects' | 'posts' | 'creators' | 'growth';
+
+export interface TribeLeaderboardItem {
+  rank: number;
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+    accentColor: string;
+    iconUrl: string;
+  };
+  members: number;
+  memberGrowth: number;
+  newPosts: number;
+  respects: number;
+  activeCreators: number; // Daily average
+  topStyle: string | null;
+}
+
+export interface TribeStatsPoint {
+  day: string; // YYYY-MM-DD (UTC)
+  members: number;
+  posts: number;
+  newPosts: number;
+  respects: number;
+  activeCreators: number;
+}
+
+export interface TribeStats {
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+    accentColor: string;
+  };
+  days: number;
+  series: TribeStatsPoint[]; // Oldest first; may have gaps
+  totals: {
+    newPosts: number;
+    respects: number;
+    memberGrowth: number;
+  };
+  topStyles: Array<{ styleTag: string; posts: number }>;
+}
+
 /**
  * Get all tribes (for directory/onboarding)
  */
@@ -69,6 +119,25 @@ export async function joinTribe(slug: string): Promise<{
   return response.data;
 }
 
+/**
+ * Switch to another tribe (cooldown applies)
+ *
+ * movePosts: take existing posts along, or leave them in the old tribe
+ */
+export async function switchTribe(slug: string, movePosts: boolean): Promise<{
+  status: string;
+  tribe: {
+    id: string;
+    slug: string;
+    name: string;
+  };
+  fromTribeId: string;
+  postsMoved: number;
+}> {
+  const response = await apiClient.post(`/tribes/${slug}/switch`, { movePosts });
+  return response.data;
+}
+
 /**
  * Get tribe posts (grid)
  */
@@ -123,9 +192,25 @@ export async function getTribePreview(slug: string): Promise<{
   return response.data;
 }
 
+/**
+ * Get the tribe-vs-tribe leaderboard (completed days only)
+ */
+export async function getTribeLeaderboard(
+  window: LeaderboardWindow = 'week',
+  metric: LeaderboardMetric = 'respects'
+): Promise<{
+  items: TribeLeaderboardItem[];
+  windowStart: string;
+  windowEnd: string;
+}> {
+  const response = await apiClient.get('/tribes/leaderboard', { params: { window, metric } });
+  return response.data;
+}
 
-
-
-
-
-
+/**
+ * Get a tribe's daily stats
+ */
+export async function getTribeStats(slug: string, days: number = 30): Promise<TribeStats> {
+  const response = await apiClient.get(`/tribes/${slug}/stats`, { params: { days } });
+  return response.data;
+}
@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationsRead,
+  type Notification,
+} from '../services/notificationService';
+
+/**
+ * Notification Store (Frontend)
+ *
+ * Manages the activity feed and the unread badge shown in BottomNav.
+ */
+
+interface NotificationState {
+  notifications: Notification[];
+  cursor: string | null;
+  hasMore: boolean;
+  isLoading: boolean;
+  unreadCount: number;
+
+  // Actions
+  refreshUnreadCount: () => Promise<void>;
+  loadNotifications: (reset?: boolean) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+export const useNotificationStore = create<NotificationState>((set, get) => ({
+  // Initial state
+  notifications: [],
+  cursor: null,
+  hasMore: true,
+  isLoading: false,
+  unreadCount: 0,
+
+  // Poll badge count (errors are ignored: signed-out users have no badge)
+  refreshUnreadCount: async () => {
+    try {
+      const unreadCount = await getUnreadCount();
+      set({ unreadCount });
+    } catch (error) {
+      // Ignore
+    }
+  },
+
+  // Load a page of notifications
+  loadNotifications: async (reset = false) => {
+    const { cursor, isLoading, hasMore } = get();
+    if (isLoading || (!reset && !hasMore)) return;
+
+    set({ isLoading: true });
+
+    try {
+      const page = await getNotifications(reset ? undefined : cursor || undefined);
+      set(state => ({
+        notifications: reset ? page.notifications : [...state.notifications, ...page.notifications],
+        cursor: page.nextCursor,
+        hasMore: !!page.nextCursor,
+        unreadCount: page.unreadCount,
+        isLoading: false,
+      }));
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+      set({ isLoading: false });
+    }
+  },
+
+  // Mark everything read (optimistic). Loaded items keep their
+  // unread highlight until the next load.
+  markAllRead: async () => {
+    set({ unreadCount: 0 });
+
+    try {
+      await markNotificationsRead();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  },
+}));